@@ -0,0 +1,188 @@
+/**
+ * CLI entry logic - parses arguments, resolves configuration and dispatches
+ * to commands
+ *
+ * Commands are either top-level ("automaker events") or grouped
+ * ("automaker features list"). Global options may appear anywhere after the
+ * command name.
+ */
+
+import { parseArgs, type ParseArgsConfig } from 'util';
+import { AutomakerClient } from './client.js';
+import { resolveConfig } from './config.js';
+import { featureCommands } from './commands/features.js';
+import { autoModeCommands } from './commands/auto-mode.js';
+import { planCommands } from './commands/plan.js';
+import { eventsCommand } from './commands/events.js';
+import type {
+  CommandContext,
+  CommandDefinition,
+  CommandEntry,
+  OptionValues,
+} from './commands/types.js';
+
+export const COMMANDS: Record<string, CommandEntry> = {
+  features: featureCommands,
+  'auto-mode': autoModeCommands,
+  plan: planCommands,
+  events: eventsCommand,
+};
+
+const GLOBAL_OPTIONS: NonNullable<ParseArgsConfig['options']> = {
+  server: { type: 'string' },
+  'api-key': { type: 'string' },
+  project: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+const GLOBAL_OPTIONS_HELP = `Global options:
+  --server <url>      Server URL (AUTOMAKER_SERVER_URL, default http://localhost:3008)
+  --api-key <key>     API key (AUTOMAKER_API_KEY, or DATA_DIR/.api-key)
+  --project <path>    Project path (AUTOMAKER_PROJECT_PATH, default current directory)
+  --json              Print JSON output
+  -h, --help          Show help`;
+
+/** Where the CLI writes its output, and how it talks to the server */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  fetch?: typeof fetch;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+function isCommandDefinition(entry: CommandEntry): entry is CommandDefinition {
+  return typeof (entry as CommandDefinition).run === 'function';
+}
+
+function formatOptions(options: CommandDefinition['options']): string {
+  return Object.entries(options ?? {})
+    .map(([name, option]) => {
+      const flag = option.short ? `-${option.short}, --${name}` : `--${name}`;
+      return option.type === 'string' ? `${flag} <value>` : flag;
+    })
+    .join('  ');
+}
+
+/**
+ * Build the help text for all commands, or for one command or group
+ */
+export function getHelp(commandPath: string[] = []): string {
+  const lines: string[] = [];
+  const [name, subcommand] = commandPath;
+  const entry = name ? COMMANDS[name] : undefined;
+
+  const describe = (label: string, command: CommandDefinition) => {
+    lines.push(`  ${label}${command.usage ? ` ${command.usage}` : ''}`);
+    lines.push(`      ${command.description}`);
+    const options = formatOptions(command.options);
+    if (options) lines.push(`      ${options}`);
+  };
+
+  if (entry && isCommandDefinition(entry)) {
+    lines.push(`Usage: automaker ${name} [options]`, '');
+    describe(name, entry);
+  } else if (entry && subcommand && entry[subcommand]) {
+    lines.push(`Usage: automaker ${name} ${subcommand} [options]`, '');
+    describe(`${name} ${subcommand}`, entry[subcommand]);
+  } else {
+    lines.push('Usage: automaker <command> [options]', '', 'Commands:');
+    const groups = entry ? { [name]: entry } : COMMANDS;
+    for (const [groupName, group] of Object.entries(groups)) {
+      if (isCommandDefinition(group)) {
+        describe(groupName, group);
+      } else {
+        for (const [commandName, command] of Object.entries(group)) {
+          describe(`${groupName} ${commandName}`, command);
+        }
+      }
+    }
+  }
+
+  lines.push('', GLOBAL_OPTIONS_HELP);
+  return lines.join('\n');
+}
+
+/**
+ * Run the CLI with the given arguments
+ *
+ * @returns The process exit code
+ */
+export async function run(argv: string[], io: CliIO = defaultIO): Promise<number> {
+  const [name, ...rest] = argv;
+  const entry = name ? COMMANDS[name] : undefined;
+
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    io.stdout(`${getHelp(rest)}\n`);
+    return 0;
+  }
+  if (!entry) {
+    io.stderr(`Unknown command "${name}"\n\n${getHelp()}\n`);
+    return 2;
+  }
+
+  let command: CommandDefinition;
+  let args: string[];
+  if (isCommandDefinition(entry)) {
+    command = entry;
+    args = rest;
+  } else {
+    const [subcommand, ...subArgs] = rest;
+    if (!subcommand || subcommand.startsWith('-') || !entry[subcommand]) {
+      const message = subcommand ? `Unknown command "${name} ${subcommand}"\n\n` : '';
+      io.stderr(`${message}${getHelp([name])}\n`);
+      return 2;
+    }
+    command = entry[subcommand];
+    args = subArgs;
+  }
+
+  let values: OptionValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+    }) as { values: OptionValues; positionals: string[] });
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 2;
+  }
+
+  if (values.help) {
+    io.stdout(`${getHelp(isCommandDefinition(entry) ? [name] : [name, rest[0]])}\n`);
+    return 0;
+  }
+
+  const config = resolveConfig(
+    {
+      server: values.server as string | undefined,
+      apiKey: values['api-key'] as string | undefined,
+      project: values.project as string | undefined,
+    },
+    io.env,
+    io.cwd
+  );
+  const ctx: CommandContext = {
+    client: new AutomakerClient(config.serverUrl, config.apiKey, io.fetch),
+    config,
+    json: values.json === true,
+    print: (text) => io.stdout(`${text}\n`),
+    write: (text) => io.stdout(text),
+    printError: (text) => io.stderr(`${text}\n`),
+  };
+
+  try {
+    return await command.run(ctx, values, positionals);
+  } catch (error) {
+    ctx.printError(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Automaker API client
+ *
+ * Thin wrapper over the server's JSON routes and the events WebSocket.
+ * Requests authenticate with the X-API-Key header; the WebSocket, which
+ * cannot send custom headers, passes the key as the apiKey query parameter.
+ * Every route answers with { success, error? }; a failed request throws an
+ * Error carrying the server's message.
+ */
+
+import type { Feature } from '@automaker/types';
+
+/** A message received on the events WebSocket */
+export interface ServerEvent {
+  type: string;
+  payload: unknown;
+}
+
+/** An auto mode event, as carried in the payload of 'auto-mode:event' */
+export interface AutoModeEvent {
+  type: string;
+  featureId?: string;
+  projectPath?: string;
+  [key: string]: unknown;
+}
+
+/** An open events WebSocket */
+export interface EventStream {
+  close(): void;
+  /** Resolves when the connection closes, rejects if it fails */
+  closed: Promise<void>;
+}
+
+export interface AutoModeStatus {
+  isAutoLoopRunning?: boolean;
+  runningFeatures?: string[];
+  runningCount?: number;
+  maxConcurrency?: number;
+  [key: string]: unknown;
+}
+
+export interface ExportOptions {
+  featureIds?: string[];
+  format?: 'json' | 'yaml';
+  category?: string;
+  status?: string;
+}
+
+export interface ImportOptions {
+  overwrite?: boolean;
+  preserveBranchInfo?: boolean;
+  targetCategory?: string;
+}
+
+export interface ImportResult {
+  success: boolean;
+  featureId?: string;
+  importedAt?: string;
+  warnings?: string[];
+  errors?: string[];
+  wasOverwritten?: boolean;
+}
+
+type ApiResponse<T> = T & { success: boolean; error?: string };
+
+export class AutomakerClient {
+  constructor(
+    private readonly serverUrl: string,
+    private readonly apiKey?: string,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  /**
+   * POST a JSON body to an API route and return the parsed response,
+   * throwing if the server reports a failure
+   *
+   * @param endpoint - Route below /api, e.g. "/features/list"
+   */
+  async post<T extends object = object>(endpoint: string, body: object): Promise<ApiResponse<T>> {
+    const { response, result } = await this.request<T>(endpoint, body);
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `${endpoint} failed (HTTP ${response.status})`);
+    }
+    return result;
+  }
+
+  /**
+   * POST a JSON body to an API route and return the parsed response as is
+   */
+  private async request<T extends object>(
+    endpoint: string,
+    body: object
+  ): Promise<{ response: Response; result: ApiResponse<T> }> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['X-API-Key'] = this.apiKey;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.serverUrl}/api${endpoint}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot reach Automaker server at ${this.serverUrl}: ${reason}`);
+    }
+
+    if (response.status === 401) {
+      throw new Error('Authentication failed - check AUTOMAKER_API_KEY or --api-key');
+    }
+
+    let result: ApiResponse<T>;
+    try {
+      result = (await response.json()) as ApiResponse<T>;
+    } catch {
+      throw new Error(`Unexpected response from ${endpoint} (HTTP ${response.status})`);
+    }
+    return { response, result };
+  }
+
+  async listFeatures(projectPath: string): Promise<Feature[]> {
+    const result = await this.post<{ features: Feature[] }>('/features/list', { projectPath });
+    return result.features ?? [];
+  }
+
+  async getFeature(projectPath: string, featureId: string): Promise<Feature> {
+    const result = await this.post<{ feature: Feature }>('/features/get', {
+      projectPath,
+      featureId,
+    });
+    return result.feature;
+  }
+
+  async createFeature(projectPath: string, feature: Partial<Feature>): Promise<Feature> {
+    const result = await this.post<{ feature: Feature }>('/features/create', {
+      projectPath,
+      feature,
+    });
+    return result.feature;
+  }
+
+  async updateFeature(
+    projectPath: string,
+    featureId: string,
+    updates: Partial<Feature>
+  ): Promise<Feature> {
+    const result = await this.post<{ feature: Feature }>('/features/update', {
+      projectPath,
+      featureId,
+      updates,
+    });
+    return result.feature;
+  }
+
+  /**
+   * Export features as a JSON or YAML document
+   */
+  async exportFeatures(projectPath: string, options: ExportOptions = {}): Promise<string> {
+    const result = await this.post<{ data: string }>('/features/export', {
+      projectPath,
+      ...options,
+    });
+    return result.data;
+  }
+
+  /**
+   * Import features from a JSON or YAML document
+   *
+   * Returns the per-feature results even when some features failed to import.
+   */
+  async importFeatures(
+    projectPath: string,
+    data: string,
+    options: ImportOptions = {}
+  ): Promise<ImportResult[]> {
+    const { response, result } = await this.request<{ results?: ImportResult[] }>(
+      '/features/import',
+      { projectPath, data, ...options }
+    );
+    if (!result.results) {
+      throw new Error(result.error || `/features/import failed (HTTP ${response.status})`);
+    }
+    return result.results;
+  }
+
+  async getAgentOutput(projectPath: string, featureId: string): Promise<string | null> {
+    const result = await this.post<{ content: string | null }>('/features/agent-output', {
+      projectPath,
+      featureId,
+    });
+    return result.content;
+  }
+
+  async runFeature(projectPath: string, featureId: string, useWorktrees = false): Promise<void> {
+    await this.post('/auto-mode/run-feature', { projectPath, featureId, useWorktrees });
+  }
+
+  /**
+   * Start the auto loop for a worktree (null branch = main worktree)
+   */
+  async startAutoMode(
+    projectPath: string,
+    branchName: string | null,
+    maxConcurrency?: number
+  ): Promise<string | undefined> {
+    const result = await this.post<{ message?: string }>('/auto-mode/start', {
+      projectPath,
+      branchName,
+      maxConcurrency,
+    });
+    return result.message;
+  }
+
+  async stopAutoMode(projectPath: string, branchName: string | null): Promise<string | undefined> {
+    const result = await this.post<{ message?: string }>('/auto-mode/stop', {
+      projectPath,
+      branchName,
+    });
+    return result.message;
+  }
+
+  async getAutoModeStatus(projectPath: string, branchName: string | null): Promise<AutoModeStatus> {
+    const {
+      success: _success,
+      error: _error,
+      ...status
+    } = await this.post<AutoModeStatus>('/auto-mode/status', { projectPath, branchName });
+    return status;
+  }
+
+  async approvePlan(
+    projectPath: string,
+    featureId: string,
+    approved: boolean,
+    options: { editedPlan?: string; feedback?: string } = {}
+  ): Promise<void> {
+    await this.post('/auto-mode/approve-plan', {
+      projectPath,
+      featureId,
+      approved,
+      ...options,
+    });
+  }
+
+  /**
+   * Open the events WebSocket and call onEvent for every server event
+   */
+  connectEvents(onEvent: (event: ServerEvent) => void): EventStream {
+    const url = new URL(`${this.serverUrl.replace(/^http/, 'ws')}/api/events`);
+    if (this.apiKey) {
+      url.searchParams.set('apiKey', this.apiKey);
+    }
+
+    const socket = new WebSocket(url);
+    const closed = new Promise<void>((resolve, reject) => {
+      let opened = false;
+      socket.addEventListener('open', () => {
+        opened = true;
+      });
+      socket.addEventListener('message', (message) => {
+        try {
+          onEvent(JSON.parse(String(message.data)) as ServerEvent);
+        } catch {
+          // Ignore malformed messages
+        }
+      });
+      socket.addEventListener('error', () => {
+        if (!opened) {
+          reject(new Error(`Cannot connect to events at ${this.serverUrl}/api/events`));
+        }
+      });
+      socket.addEventListener('close', () => resolve());
+    });
+
+    return { close: () => socket.close(), closed };
+  }
+
+  /**
+   * Open the events WebSocket and call onEvent for auto mode events only
+   */
+  connectAutoModeEvents(onEvent: (event: AutoModeEvent) => void): EventStream {
+    return this.connectEvents((event) => {
+      if (event.type === 'auto-mode:event' && event.payload) {
+        onEvent(event.payload as AutoModeEvent);
+      }
+    });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * auto-mode commands - start, stop and inspect the auto loop of a worktree
+ *
+ * Without --branch the commands act on the project's main worktree.
+ */
+
+import { numberOption, stringOption, type CommandDefinition } from './types.js';
+
+const BRANCH_OPTION = { branch: { type: 'string', short: 'b' } } as const;
+
+export const autoModeCommands: Record<string, CommandDefinition> = {
+  start: {
+    description: 'Start auto mode for a worktree',
+    options: {
+      ...BRANCH_OPTION,
+      concurrency: { type: 'string' },
+    },
+    async run(ctx, values) {
+      const message = await ctx.client.startAutoMode(
+        ctx.config.projectPath,
+        stringOption(values, 'branch') ?? null,
+        numberOption(values, 'concurrency')
+      );
+      ctx.print(ctx.json ? JSON.stringify({ message }) : (message ?? 'Auto mode started'));
+      return 0;
+    },
+  },
+
+  stop: {
+    description: 'Stop auto mode for a worktree',
+    options: { ...BRANCH_OPTION },
+    async run(ctx, values) {
+      const message = await ctx.client.stopAutoMode(
+        ctx.config.projectPath,
+        stringOption(values, 'branch') ?? null
+      );
+      ctx.print(ctx.json ? JSON.stringify({ message }) : (message ?? 'Auto mode stopped'));
+      return 0;
+    },
+  },
+
+  status: {
+    description: 'Show whether auto mode is running for a worktree and what it is working on',
+    options: { ...BRANCH_OPTION },
+    async run(ctx, values) {
+      const status = await ctx.client.getAutoModeStatus(
+        ctx.config.projectPath,
+        stringOption(values, 'branch') ?? null
+      );
+      if (ctx.json) {
+        ctx.print(JSON.stringify(status, null, 2));
+      } else {
+        ctx.print(`Auto loop: ${status.isAutoLoopRunning ? 'running' : 'stopped'}`);
+        ctx.print(`Running features: ${status.runningCount ?? 0}/${status.maxConcurrency ?? '?'}`);
+        for (const featureId of status.runningFeatures ?? []) {
+          ctx.print(`  ${featureId}`);
+        }
+      }
+      return 0;
+    },
+  },
+};
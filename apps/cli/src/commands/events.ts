@@ -0,0 +1,65 @@
+/**
+ * events command - stream server events, and following a feature's agent output
+ */
+
+import type { AutoModeEvent } from '../client.js';
+import type { CommandContext, CommandDefinition } from './types.js';
+
+/**
+ * Stream a feature's agent output until its run completes or fails
+ *
+ * @returns 0 when the run completes, 1 when it fails or the connection drops
+ */
+export function followAgentOutput(ctx: CommandContext, featureId: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let exitCode = 1;
+    const stream = ctx.client.connectAutoModeEvents((event: AutoModeEvent) => {
+      if (event.featureId !== featureId) return;
+
+      if (event.type === 'auto_mode_progress' && typeof event.content === 'string') {
+        ctx.write(event.content);
+      } else if (event.type === 'auto_mode_feature_complete') {
+        ctx.printError(`\n${String(event.message ?? 'Feature completed')}`);
+        exitCode = event.passes === false ? 1 : 0;
+        stream.close();
+      } else if (event.type === 'auto_mode_error') {
+        ctx.printError(`\nError: ${String(event.error ?? 'Feature failed')}`);
+        exitCode = 1;
+        stream.close();
+      }
+    });
+    stream.closed.then(() => resolve(exitCode), reject);
+  });
+}
+
+export const eventsCommand: CommandDefinition = {
+  description:
+    'Stream auto mode events as JSON lines (--all for every server event) until interrupted',
+  options: {
+    all: { type: 'boolean' },
+    type: { type: 'string', short: 't', multiple: true },
+    feature: { type: 'string', multiple: true },
+  },
+  run(ctx, values) {
+    const types = Array.isArray(values.type) ? values.type : [];
+    const featureIds = Array.isArray(values.feature) ? values.feature : [];
+
+    return new Promise((resolve, reject) => {
+      const stream = ctx.client.connectEvents((event) => {
+        if (values.all) {
+          ctx.print(JSON.stringify(event));
+          return;
+        }
+        if (event.type !== 'auto-mode:event' || !event.payload) return;
+
+        const payload = event.payload as AutoModeEvent;
+        if (types.length > 0 && !types.includes(payload.type)) return;
+        if (featureIds.length > 0 && !featureIds.includes(payload.featureId ?? '')) return;
+        ctx.print(JSON.stringify(payload));
+      });
+
+      process.once('SIGINT', () => stream.close());
+      stream.closed.then(() => resolve(0), reject);
+    });
+  },
+};
@@ -0,0 +1,327 @@
+/**
+ * features commands - create, list, update, run, wait for, export and import
+ * features, and show their agent output
+ */
+
+import fs from 'fs/promises';
+import type { Feature } from '@automaker/types';
+import { waitForFeatures, type FeatureWaitResult } from '../wait.js';
+import {
+  numberOption,
+  requireArgument,
+  stringOption,
+  type CommandContext,
+  type CommandDefinition,
+  type OptionValues,
+} from './types.js';
+import { followAgentOutput } from './events.js';
+
+/** Options that set feature fields, shared by create and update */
+const FEATURE_FIELD_OPTIONS = {
+  title: { type: 'string' },
+  description: { type: 'string', short: 'd' },
+  'description-file': { type: 'string' },
+  category: { type: 'string', short: 'c' },
+  model: { type: 'string', short: 'm' },
+  branch: { type: 'string', short: 'b' },
+  priority: { type: 'string', short: 'p' },
+  'skip-tests': { type: 'boolean' },
+  'depends-on': { type: 'string', multiple: true },
+} as const;
+
+/** Options that control waiting, shared by create, run and wait */
+const WAIT_OPTIONS = {
+  timeout: { type: 'string' },
+  interval: { type: 'string' },
+  'require-verified': { type: 'boolean' },
+} as const;
+
+/**
+ * Read a file, or standard input for "-"
+ */
+async function readInput(file: string): Promise<string> {
+  if (file !== '-') {
+    return fs.readFile(file, 'utf-8');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Build feature fields from the create/update options that were given
+ */
+async function getFeatureFields(values: OptionValues): Promise<Partial<Feature>> {
+  const fields: Partial<Feature> = {};
+  const descriptionFile = stringOption(values, 'description-file');
+  const description = descriptionFile
+    ? await readInput(descriptionFile)
+    : stringOption(values, 'description');
+
+  if (stringOption(values, 'title') !== undefined) fields.title = stringOption(values, 'title');
+  if (description !== undefined) fields.description = description;
+  if (stringOption(values, 'category') !== undefined) {
+    fields.category = stringOption(values, 'category')!;
+  }
+  if (stringOption(values, 'model') !== undefined) fields.model = stringOption(values, 'model');
+  if (stringOption(values, 'branch') !== undefined) {
+    fields.branchName = stringOption(values, 'branch');
+  }
+  if (values.priority !== undefined) fields.priority = numberOption(values, 'priority');
+  if (values['skip-tests'] !== undefined) fields.skipTests = values['skip-tests'] === true;
+  if (Array.isArray(values['depends-on'])) fields.dependencies = values['depends-on'];
+  return fields;
+}
+
+function formatFeature(feature: Feature): string {
+  const title = feature.title || feature.description.split('\n')[0].slice(0, 80);
+  return `${feature.id}\t${feature.status ?? 'backlog'}\t${title}`;
+}
+
+/**
+ * Wait for features and print their outcome
+ *
+ * @returns 0 if every feature finished, 1 otherwise
+ */
+async function waitAndReport(
+  ctx: CommandContext,
+  featureIds: string[],
+  values: OptionValues
+): Promise<number> {
+  const timeoutSeconds = numberOption(values, 'timeout');
+  const intervalSeconds = numberOption(values, 'interval');
+  const results = await waitForFeatures(ctx.client, ctx.config.projectPath, featureIds, {
+    timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : undefined,
+    pollIntervalMs: intervalSeconds ? intervalSeconds * 1000 : undefined,
+    requireVerified: values['require-verified'] === true,
+    onStatusChange: ctx.json
+      ? undefined
+      : (featureId, status) => ctx.printError(`${featureId}: ${status}`),
+  });
+
+  if (ctx.json) {
+    ctx.print(JSON.stringify(results, null, 2));
+  } else {
+    for (const result of results) {
+      ctx.print(formatWaitResult(result));
+    }
+  }
+  return results.every((result) => result.outcome === 'finished') ? 0 : 1;
+}
+
+function formatWaitResult(result: FeatureWaitResult): string {
+  const detail = result.error ? ` - ${result.error}` : '';
+  return `${result.featureId}\t${result.outcome}\t${result.status ?? 'unknown'}${detail}`;
+}
+
+export const featureCommands: Record<string, CommandDefinition> = {
+  list: {
+    description: 'List features',
+    options: {
+      status: { type: 'string', short: 's' },
+      category: { type: 'string', short: 'c' },
+    },
+    async run(ctx, values) {
+      const status = stringOption(values, 'status');
+      const category = stringOption(values, 'category');
+      const features = (await ctx.client.listFeatures(ctx.config.projectPath)).filter(
+        (feature) =>
+          (!status || (feature.status ?? 'backlog') === status) &&
+          (!category || feature.category === category)
+      );
+
+      if (ctx.json) {
+        ctx.print(JSON.stringify(features, null, 2));
+      } else {
+        features.forEach((feature) => ctx.print(formatFeature(feature)));
+      }
+      return 0;
+    },
+  },
+
+  get: {
+    usage: '<featureId>',
+    description: 'Show a feature',
+    async run(ctx, _values, [featureId]) {
+      const feature = await ctx.client.getFeature(
+        ctx.config.projectPath,
+        requireArgument(featureId, 'featureId')
+      );
+      if (ctx.json) {
+        ctx.print(JSON.stringify(feature, null, 2));
+      } else {
+        ctx.print(formatFeature(feature));
+        ctx.print('');
+        ctx.print(feature.description);
+      }
+      return 0;
+    },
+  },
+
+  create: {
+    description: 'Create a feature in the backlog, optionally running it and waiting for it',
+    options: {
+      ...FEATURE_FIELD_OPTIONS,
+      run: { type: 'boolean' },
+      worktrees: { type: 'boolean' },
+      wait: { type: 'boolean', short: 'w' },
+      ...WAIT_OPTIONS,
+    },
+    async run(ctx, values) {
+      const fields = await getFeatureFields(values);
+      if (!fields.description?.trim()) {
+        throw new Error('--description or --description-file is required');
+      }
+
+      const feature = await ctx.client.createFeature(ctx.config.projectPath, {
+        status: 'backlog',
+        ...fields,
+      });
+      ctx.print(ctx.json ? JSON.stringify(feature, null, 2) : feature.id);
+
+      if (values.run) {
+        await ctx.client.runFeature(ctx.config.projectPath, feature.id, values.worktrees === true);
+      }
+      return values.wait ? waitAndReport(ctx, [feature.id], values) : 0;
+    },
+  },
+
+  update: {
+    usage: '<featureId>',
+    description: 'Update a feature',
+    options: {
+      ...FEATURE_FIELD_OPTIONS,
+      status: { type: 'string', short: 's' },
+    },
+    async run(ctx, values, [featureId]) {
+      const updates = await getFeatureFields(values);
+      const status = stringOption(values, 'status');
+      if (status) {
+        updates.status = status;
+      }
+      if (Object.keys(updates).length === 0) {
+        throw new Error('Nothing to update - pass at least one field option');
+      }
+
+      const feature = await ctx.client.updateFeature(
+        ctx.config.projectPath,
+        requireArgument(featureId, 'featureId'),
+        updates
+      );
+      ctx.print(ctx.json ? JSON.stringify(feature, null, 2) : formatFeature(feature));
+      return 0;
+    },
+  },
+
+  run: {
+    usage: '<featureId>',
+    description: 'Run a feature now, optionally waiting for it to finish',
+    options: {
+      worktrees: { type: 'boolean' },
+      wait: { type: 'boolean', short: 'w' },
+      ...WAIT_OPTIONS,
+    },
+    async run(ctx, values, [featureId]) {
+      const id = requireArgument(featureId, 'featureId');
+      await ctx.client.runFeature(ctx.config.projectPath, id, values.worktrees === true);
+      if (!ctx.json) {
+        ctx.printError(`Started ${id}`);
+      }
+      return values.wait ? waitAndReport(ctx, [id], values) : 0;
+    },
+  },
+
+  wait: {
+    usage: '<featureId...>',
+    description:
+      'Wait until features are finished (verified, completed or waiting approval); exits 1 if any fail or time out',
+    options: { ...WAIT_OPTIONS },
+    async run(ctx, values, featureIds) {
+      requireArgument(featureIds[0], 'featureId');
+      return waitAndReport(ctx, featureIds, values);
+    },
+  },
+
+  export: {
+    usage: '[featureId...]',
+    description: 'Export features as JSON or YAML',
+    options: {
+      format: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+      status: { type: 'string', short: 's' },
+      category: { type: 'string', short: 'c' },
+    },
+    async run(ctx, values, featureIds) {
+      const format = stringOption(values, 'format') ?? 'json';
+      if (format !== 'json' && format !== 'yaml') {
+        throw new Error('--format must be "json" or "yaml"');
+      }
+
+      const data = await ctx.client.exportFeatures(ctx.config.projectPath, {
+        format,
+        featureIds: featureIds.length > 0 ? featureIds : undefined,
+        status: stringOption(values, 'status'),
+        category: stringOption(values, 'category'),
+      });
+
+      const output = stringOption(values, 'output');
+      if (output) {
+        await fs.writeFile(output, data, 'utf-8');
+        ctx.printError(`Exported features to ${output}`);
+      } else {
+        ctx.print(data);
+      }
+      return 0;
+    },
+  },
+
+  import: {
+    usage: '<file|->',
+    description: 'Import features from a JSON or YAML export ("-" reads standard input)',
+    options: {
+      overwrite: { type: 'boolean' },
+      'preserve-branch': { type: 'boolean' },
+      category: { type: 'string', short: 'c' },
+    },
+    async run(ctx, values, [file]) {
+      const data = await readInput(requireArgument(file, 'file'));
+      const results = await ctx.client.importFeatures(ctx.config.projectPath, data, {
+        overwrite: values.overwrite === true,
+        preserveBranchInfo: values['preserve-branch'] === true,
+        targetCategory: stringOption(values, 'category'),
+      });
+
+      if (ctx.json) {
+        ctx.print(JSON.stringify(results, null, 2));
+      } else {
+        for (const result of results) {
+          const detail = result.success
+            ? result.wasOverwritten
+              ? 'overwritten'
+              : 'imported'
+            : `failed - ${(result.errors ?? []).join('; ')}`;
+          ctx.print(`${result.featureId ?? '(unknown)'}\t${detail}`);
+        }
+      }
+      return results.every((result) => result.success) ? 0 : 1;
+    },
+  },
+
+  output: {
+    usage: '<featureId>',
+    description: "Print a feature's agent output; --follow keeps streaming until the run ends",
+    options: {
+      follow: { type: 'boolean', short: 'f' },
+    },
+    async run(ctx, values, [featureId]) {
+      const id = requireArgument(featureId, 'featureId');
+      const content = await ctx.client.getAgentOutput(ctx.config.projectPath, id);
+      if (content) {
+        ctx.write(content.endsWith('\n') ? content : `${content}\n`);
+      }
+      return values.follow ? followAgentOutput(ctx, id) : 0;
+    },
+  },
+};
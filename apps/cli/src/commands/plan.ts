@@ -0,0 +1,41 @@
+/**
+ * plan commands - approve or reject a plan that is waiting for approval
+ */
+
+import fs from 'fs/promises';
+import { requireArgument, stringOption, type CommandDefinition } from './types.js';
+
+export const planCommands: Record<string, CommandDefinition> = {
+  approve: {
+    usage: '<featureId>',
+    description: "Approve a feature's plan, optionally replacing it with an edited plan",
+    options: {
+      'edited-plan': { type: 'string' },
+    },
+    async run(ctx, values, [featureId]) {
+      const id = requireArgument(featureId, 'featureId');
+      const editedPlanFile = stringOption(values, 'edited-plan');
+      const editedPlan = editedPlanFile ? await fs.readFile(editedPlanFile, 'utf-8') : undefined;
+
+      await ctx.client.approvePlan(ctx.config.projectPath, id, true, { editedPlan });
+      ctx.print(ctx.json ? JSON.stringify({ featureId: id, approved: true }) : `Approved ${id}`);
+      return 0;
+    },
+  },
+
+  reject: {
+    usage: '<featureId>',
+    description: "Reject a feature's plan with feedback for the next attempt",
+    options: {
+      feedback: { type: 'string' },
+    },
+    async run(ctx, values, [featureId]) {
+      const id = requireArgument(featureId, 'featureId');
+      await ctx.client.approvePlan(ctx.config.projectPath, id, false, {
+        feedback: stringOption(values, 'feedback'),
+      });
+      ctx.print(ctx.json ? JSON.stringify({ featureId: id, approved: false }) : `Rejected ${id}`);
+      return 0;
+    },
+  },
+};
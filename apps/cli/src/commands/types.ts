@@ -0,0 +1,66 @@
+/**
+ * Shared types for CLI commands
+ */
+
+import type { ParseArgsConfig } from 'util';
+import type { AutomakerClient } from '../client.js';
+import type { CliConfig } from '../config.js';
+
+/** Parsed option values, keyed by option name */
+export type OptionValues = Record<string, string | boolean | string[] | undefined>;
+
+export interface CommandContext {
+  client: AutomakerClient;
+  config: CliConfig;
+  /** Print machine-readable JSON instead of text */
+  json: boolean;
+  /** Write a line to standard output */
+  print: (text: string) => void;
+  /** Write text to standard output as is */
+  write: (text: string) => void;
+  /** Write a line to standard error */
+  printError: (text: string) => void;
+}
+
+export interface CommandDefinition {
+  /** Arguments shown after the command name in help, e.g. "<featureId>" */
+  usage?: string;
+  description: string;
+  options?: NonNullable<ParseArgsConfig['options']>;
+  /** Run the command and return the process exit code */
+  run: (ctx: CommandContext, values: OptionValues, positionals: string[]) => Promise<number>;
+}
+
+/** A top-level command, or a group of subcommands such as "features list" */
+export type CommandEntry = CommandDefinition | Record<string, CommandDefinition>;
+
+/**
+ * Read a string option
+ */
+export function stringOption(values: OptionValues, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read a positive integer option, throwing if it isn't one
+ */
+export function numberOption(values: OptionValues, name: string): number | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+/**
+ * Get a required positional argument, throwing if it is missing
+ */
+export function requireArgument(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`Missing <${name}> argument`);
+  }
+  return value;
+}
@@ -0,0 +1,61 @@
+/**
+ * CLI configuration - server URL, API key and project path
+ *
+ * Each setting comes from a command-line flag, then an environment variable,
+ * then a default. The API key is the same key the server uses for X-API-Key
+ * authentication (see apps/server/src/lib/auth.ts): AUTOMAKER_API_KEY, or the
+ * .api-key file in the server's DATA_DIR when the CLI runs next to the server.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const DEFAULT_SERVER_URL = 'http://localhost:3008';
+
+export interface CliConfig {
+  /** Base URL of the Automaker server, without a trailing slash */
+  serverUrl: string;
+  apiKey?: string;
+  /** Absolute path of the project the commands act on */
+  projectPath: string;
+}
+
+export interface ConfigOptions {
+  server?: string;
+  apiKey?: string;
+  project?: string;
+}
+
+/**
+ * Read the API key the server generated in its data directory
+ */
+function readApiKeyFile(dataDir: string | undefined): string | undefined {
+  if (!dataDir) return undefined;
+  try {
+    return fs.readFileSync(path.join(dataDir, '.api-key'), 'utf-8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the CLI configuration from flags and environment variables
+ *
+ * - Server: --server, AUTOMAKER_SERVER_URL, then http://localhost:3008
+ * - API key: --api-key, AUTOMAKER_API_KEY, then DATA_DIR/.api-key
+ * - Project: --project, AUTOMAKER_PROJECT_PATH, then the current directory
+ */
+export function resolveConfig(
+  options: ConfigOptions,
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): CliConfig {
+  const serverUrl = (options.server || env.AUTOMAKER_SERVER_URL || DEFAULT_SERVER_URL).replace(
+    /\/+$/,
+    ''
+  );
+  const apiKey = options.apiKey || env.AUTOMAKER_API_KEY || readApiKeyFile(env.DATA_DIR);
+  const projectPath = path.resolve(cwd, options.project || env.AUTOMAKER_PROJECT_PATH || '.');
+
+  return { serverUrl, apiKey, projectPath };
+}
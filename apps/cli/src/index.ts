@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+/**
+ * automaker - command-line client for an Automaker server
+ *
+ * Drives the board from scripts and CI over the server's HTTP API and events
+ * WebSocket. Run `automaker help` for the list of commands.
+ */
+
+import { run } from './cli.js';
+
+run(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
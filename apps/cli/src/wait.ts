@@ -0,0 +1,147 @@
+/**
+ * Wait for features to finish
+ *
+ * Polls each feature's status and listens for auto mode errors on the events
+ * WebSocket. A feature is finished once it reaches verified, completed or
+ * waiting_approval; it has failed if the server reports an error for it, its
+ * budget is exceeded, or it goes back to the backlog after it started.
+ */
+
+import type { Feature } from '@automaker/types';
+import type { AutomakerClient, EventStream } from './client.js';
+
+/** Statuses a feature ends in when its implementation is done */
+export const FINISHED_STATUSES = ['verified', 'completed', 'waiting_approval'];
+
+export interface WaitOptions {
+  /** Give up after this long; waits forever when unset */
+  timeoutMs?: number;
+  /** How often to poll feature status */
+  pollIntervalMs?: number;
+  /** Treat features that stop for manual review (waiting_approval) as failed */
+  requireVerified?: boolean;
+  /** Listen for auto mode errors on the events WebSocket (default true) */
+  useEvents?: boolean;
+  /** Called whenever a feature's status changes */
+  onStatusChange?: (featureId: string, status: string) => void;
+}
+
+export interface FeatureWaitResult {
+  featureId: string;
+  outcome: 'finished' | 'failed' | 'timeout';
+  status?: string;
+  error?: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Decide whether a feature is done, given its latest state
+ *
+ * @returns The result, or null while the feature is still pending
+ */
+export function getWaitResult(
+  feature: Feature,
+  context: { started: boolean; reportedError?: string; requireVerified?: boolean }
+): FeatureWaitResult | null {
+  const status = feature.status ?? 'backlog';
+  const base = { featureId: feature.id, status };
+
+  if (FINISHED_STATUSES.includes(status)) {
+    return status === 'waiting_approval' && context.requireVerified
+      ? { ...base, outcome: 'failed', error: 'Feature is waiting for manual approval' }
+      : { ...base, outcome: 'finished' };
+  }
+  if (status === 'budget_exceeded') {
+    return { ...base, outcome: 'failed', error: feature.error || 'Budget exceeded' };
+  }
+  if (status === 'backlog' && (context.reportedError || context.started)) {
+    return {
+      ...base,
+      outcome: 'failed',
+      error: context.reportedError || feature.error || 'Feature returned to the backlog',
+    };
+  }
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until every feature has finished, failed or timed out
+ */
+export async function waitForFeatures(
+  client: AutomakerClient,
+  projectPath: string,
+  featureIds: string[],
+  options: WaitOptions = {}
+): Promise<FeatureWaitResult[]> {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const deadline = options.timeoutMs ? Date.now() + options.timeoutMs : Infinity;
+  const results = new Map<string, FeatureWaitResult>();
+  const started = new Set<string>();
+  const lastStatus = new Map<string, string>();
+  const reportedErrors = new Map<string, string>();
+
+  let events: EventStream | null = null;
+  if (options.useEvents !== false) {
+    events = client.connectAutoModeEvents((event) => {
+      if (event.type === 'auto_mode_error' && event.featureId) {
+        reportedErrors.set(event.featureId, String(event.error ?? 'Feature failed'));
+      }
+    });
+    // Polling still works without the WebSocket
+    events.closed.catch(() => {});
+  }
+
+  try {
+    for (;;) {
+      for (const featureId of featureIds) {
+        if (results.has(featureId)) continue;
+
+        const feature = await client.getFeature(projectPath, featureId);
+        const status = feature.status ?? 'backlog';
+        if (status !== 'backlog') {
+          started.add(featureId);
+        }
+        if (lastStatus.get(featureId) !== status) {
+          lastStatus.set(featureId, status);
+          options.onStatusChange?.(featureId, status);
+        }
+
+        const result = getWaitResult(feature, {
+          started: started.has(featureId),
+          reportedError: reportedErrors.get(featureId),
+          requireVerified: options.requireVerified,
+        });
+        if (result) {
+          results.set(featureId, result);
+        }
+      }
+
+      if (results.size === featureIds.length) break;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        for (const featureId of featureIds) {
+          if (!results.has(featureId)) {
+            results.set(featureId, {
+              featureId,
+              outcome: 'timeout',
+              status: lastStatus.get(featureId),
+              error: 'Timed out waiting for the feature to finish',
+            });
+          }
+        }
+        break;
+      }
+      await sleep(Math.min(pollIntervalMs, remaining));
+    }
+  } finally {
+    events?.close();
+  }
+
+  return featureIds.map((featureId) => results.get(featureId)!);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { run } from '../src/cli.js';
+import { resolveConfig } from '../src/config.js';
+
+describe('cli.ts', () => {
+  const createIO = (responses: Record<string, unknown>) => {
+    const output = { stdout: '', stderr: '' };
+    const fetchMock = vi.fn(async (url: string | URL | Request) => {
+      const endpoint = String(url).replace('http://automaker.test/api', '');
+      return new Response(JSON.stringify(responses[endpoint] ?? { success: false }), {
+        status: 200,
+      });
+    });
+    return {
+      output,
+      fetchMock,
+      io: {
+        stdout: (text: string) => (output.stdout += text),
+        stderr: (text: string) => (output.stderr += text),
+        env: { AUTOMAKER_SERVER_URL: 'http://automaker.test/', AUTOMAKER_API_KEY: 'key' },
+        cwd: '/repo',
+        fetch: fetchMock as unknown as typeof fetch,
+      },
+    };
+  };
+
+  it('should list features for the project', async () => {
+    const { io, output, fetchMock } = createIO({
+      '/features/list': {
+        success: true,
+        features: [
+          { id: 'f1', status: 'backlog', title: 'Login', description: '' },
+          { id: 'f2', status: 'verified', description: 'Signup form\nwith validation' },
+        ],
+      },
+    });
+
+    expect(await run(['features', 'list', '--status', 'verified'], io)).toBe(0);
+
+    expect(output.stdout).toBe('f2\tverified\tSignup form\n');
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toEqual({
+      projectPath: '/repo',
+    });
+  });
+
+  it('should create a feature with the given fields', async () => {
+    const { io, output, fetchMock } = createIO({
+      '/features/create': { success: true, feature: { id: 'feature-1' } },
+    });
+
+    const exitCode = await run(
+      ['features', 'create', '-d', 'Add retries', '--priority', '2', '--project', 'app'],
+      io
+    );
+
+    expect(exitCode).toBe(0);
+    expect(output.stdout).toBe('feature-1\n');
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toEqual({
+      projectPath: '/repo/app',
+      feature: { status: 'backlog', description: 'Add retries', priority: 2 },
+    });
+  });
+
+  it('should start auto mode for a worktree branch', async () => {
+    const { io, output, fetchMock } = createIO({
+      '/auto-mode/start': { success: true, message: 'Auto mode started' },
+    });
+
+    expect(await run(['auto-mode', 'start', '--branch', 'dev', '--concurrency', '2'], io)).toBe(0);
+
+    expect(output.stdout).toBe('Auto mode started\n');
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toEqual({
+      projectPath: '/repo',
+      branchName: 'dev',
+      maxConcurrency: 2,
+    });
+  });
+
+  it('should print server errors and exit 1', async () => {
+    const { io, output } = createIO({
+      '/auto-mode/approve-plan': { success: false, error: 'No pending approval for feature f1' },
+    });
+
+    expect(await run(['plan', 'approve', 'f1'], io)).toBe(1);
+    expect(output.stderr).toBe('Error: No pending approval for feature f1\n');
+  });
+
+  it('should exit 2 on unknown commands and options', async () => {
+    const { io, output } = createIO({});
+
+    expect(await run(['board'], io)).toBe(2);
+    expect(output.stderr).toContain('Unknown command "board"');
+    expect(await run(['features', 'list', '--bogus'], io)).toBe(2);
+  });
+
+  describe('resolveConfig', () => {
+    it('should prefer flags over environment variables', () => {
+      expect(
+        resolveConfig(
+          { server: 'http://remote:4000/', apiKey: 'flag', project: '/other' },
+          { AUTOMAKER_SERVER_URL: 'http://env:3008', AUTOMAKER_API_KEY: 'env' },
+          '/repo'
+        )
+      ).toEqual({ serverUrl: 'http://remote:4000', apiKey: 'flag', projectPath: '/other' });
+    });
+
+    it('should default to the local server and current directory', () => {
+      expect(resolveConfig({}, {}, '/repo')).toEqual({
+        serverUrl: 'http://localhost:3008',
+        apiKey: undefined,
+        projectPath: '/repo',
+      });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AutomakerClient } from '../src/client.js';
+
+describe('client.ts', () => {
+  const respond = (status: number, body: unknown) =>
+    vi.fn().mockResolvedValue(
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+  it('should POST JSON with the API key header', async () => {
+    const fetchMock = respond(200, { success: true, features: [{ id: 'f1' }] });
+    const client = new AutomakerClient('http://localhost:3008', 'secret', fetchMock);
+
+    expect(await client.listFeatures('/repo')).toEqual([{ id: 'f1' }]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:3008/api/features/list');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      'X-API-Key': 'secret',
+    });
+    expect(JSON.parse(init.body)).toEqual({ projectPath: '/repo' });
+  });
+
+  it('should throw the server error message', async () => {
+    const client = new AutomakerClient(
+      'http://localhost:3008',
+      'secret',
+      respond(400, { success: false, error: 'projectPath is required' })
+    );
+
+    await expect(client.getFeature('', 'f1')).rejects.toThrow('projectPath is required');
+  });
+
+  it('should explain authentication failures', async () => {
+    const client = new AutomakerClient(
+      'http://localhost:3008',
+      'wrong',
+      respond(401, { success: false, error: 'Authentication required.' })
+    );
+
+    await expect(client.listFeatures('/repo')).rejects.toThrow('AUTOMAKER_API_KEY');
+  });
+
+  it('should report unreachable servers', async () => {
+    const client = new AutomakerClient(
+      'http://localhost:1',
+      undefined,
+      vi.fn().mockRejectedValue(new TypeError('fetch failed'))
+    );
+
+    await expect(client.listFeatures('/repo')).rejects.toThrow(
+      'Cannot reach Automaker server at http://localhost:1: fetch failed'
+    );
+  });
+
+  it('should return import results even when some features failed', async () => {
+    const results = [
+      { success: true, featureId: 'f1' },
+      { success: false, featureId: 'f2', errors: ['Feature already exists'] },
+    ];
+    const client = new AutomakerClient(
+      'http://localhost:3008',
+      'secret',
+      respond(200, { success: false, importedCount: 1, failedCount: 1, results })
+    );
+
+    expect(await client.importFeatures('/repo', '{}')).toEqual(results);
+  });
+
+  it('should return auto mode status without the response envelope', async () => {
+    const client = new AutomakerClient(
+      'http://localhost:3008',
+      'secret',
+      respond(200, { success: true, isAutoLoopRunning: true, runningFeatures: ['f1'] })
+    );
+
+    expect(await client.getAutoModeStatus('/repo', null)).toEqual({
+      isAutoLoopRunning: true,
+      runningFeatures: ['f1'],
+    });
+  });
+});
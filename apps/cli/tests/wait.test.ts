@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Feature } from '@automaker/types';
+import type { AutomakerClient, AutoModeEvent } from '../src/client.js';
+import { getWaitResult, waitForFeatures } from '../src/wait.js';
+
+describe('wait.ts', () => {
+  const feature = (status: string, overrides: Partial<Feature> = {}): Feature => ({
+    id: 'f1',
+    category: 'Core',
+    description: 'Do the thing',
+    status,
+    ...overrides,
+  });
+
+  describe('getWaitResult', () => {
+    it('should finish features that reached a done status', () => {
+      for (const status of ['verified', 'completed', 'waiting_approval']) {
+        expect(getWaitResult(feature(status), { started: true })?.outcome).toBe('finished');
+      }
+    });
+
+    it('should fail features waiting for approval when verification is required', () => {
+      expect(
+        getWaitResult(feature('waiting_approval'), { started: true, requireVerified: true })
+      ).toMatchObject({ outcome: 'failed', error: 'Feature is waiting for manual approval' });
+    });
+
+    it('should keep waiting on backlog features that have not started', () => {
+      expect(getWaitResult(feature('backlog'), { started: false })).toBeNull();
+      expect(getWaitResult(feature('in_progress'), { started: true })).toBeNull();
+    });
+
+    it('should fail features that returned to the backlog or exceeded their budget', () => {
+      expect(
+        getWaitResult(feature('backlog', { error: 'Agent crashed' }), { started: true })
+      ).toMatchObject({ outcome: 'failed', error: 'Agent crashed' });
+      expect(
+        getWaitResult(feature('backlog'), { started: false, reportedError: 'Rate limited' })
+      ).toMatchObject({ outcome: 'failed', error: 'Rate limited' });
+      expect(getWaitResult(feature('budget_exceeded'), { started: true })?.outcome).toBe('failed');
+    });
+  });
+
+  describe('waitForFeatures', () => {
+    const createClient = (statuses: string[], events: AutoModeEvent[] = []) => {
+      const getFeature = vi.fn();
+      statuses.forEach((status) => getFeature.mockResolvedValueOnce(feature(status)));
+      const client = {
+        getFeature,
+        connectAutoModeEvents: vi.fn((onEvent: (event: AutoModeEvent) => void) => {
+          events.forEach(onEvent);
+          return { close: vi.fn(), closed: Promise.resolve() };
+        }),
+      };
+      return client as unknown as AutomakerClient & typeof client;
+    };
+
+    it('should poll until the feature finishes and report status changes', async () => {
+      const client = createClient(['backlog', 'in_progress', 'in_progress', 'verified']);
+      const onStatusChange = vi.fn();
+
+      const results = await waitForFeatures(client, '/repo', ['f1'], {
+        pollIntervalMs: 1,
+        onStatusChange,
+      });
+
+      expect(results).toEqual([{ featureId: 'f1', outcome: 'finished', status: 'verified' }]);
+      expect(client.getFeature).toHaveBeenCalledTimes(4);
+      expect(onStatusChange.mock.calls.map((call) => call[1])).toEqual([
+        'backlog',
+        'in_progress',
+        'verified',
+      ]);
+    });
+
+    it('should fail a feature the server reported an error for', async () => {
+      const client = createClient(
+        ['backlog'],
+        [{ type: 'auto_mode_error', featureId: 'f1', error: 'Authentication failed' }]
+      );
+
+      const [result] = await waitForFeatures(client, '/repo', ['f1'], { pollIntervalMs: 1 });
+
+      expect(result).toMatchObject({ outcome: 'failed', error: 'Authentication failed' });
+    });
+
+    it('should time out features that are still running', async () => {
+      const client = createClient([]);
+      client.getFeature.mockResolvedValue(feature('in_progress'));
+
+      const [result] = await waitForFeatures(client, '/repo', ['f1'], {
+        pollIntervalMs: 5,
+        timeoutMs: 20,
+        useEvents: false,
+      });
+
+      expect(result).toMatchObject({ outcome: 'timeout', status: 'in_progress' });
+      expect(client.connectAutoModeEvents).not.toHaveBeenCalled();
+    });
+  });
+});
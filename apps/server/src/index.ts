@@ -68,20 +68,32 @@ import { CodexAppServerService } from './services/codex-app-server-service.js';
 import { CodexModelCacheService } from './services/codex-model-cache-service.js';
 import { createGitHubRoutes } from './routes/github/index.js';
 import { createContextRoutes } from './routes/context/index.js';
+import { createMemoryRoutes } from './routes/memory/index.js';
 import { createBacklogPlanRoutes } from './routes/backlog-plan/index.js';
 import { cleanupStaleValidations } from './routes/github/routes/validation-common.js';
 import { createMCPRoutes } from './routes/mcp/index.js';
 import { MCPTestService } from './services/mcp-test-service.js';
+import { BoardMcpService } from './services/board-mcp-service.js';
 import { createPipelineRoutes } from './routes/pipeline/index.js';
 import { pipelineService } from './services/pipeline-service.js';
 import { createIdeationRoutes } from './routes/ideation/index.js';
 import { IdeationService } from './services/ideation-service.js';
+import { SchedulerService } from './services/scheduler-service.js';
+import { MemoryCurationService } from './services/memory-curation-service.js';
+import { IssueSyncService } from './services/issue-sync-service.js';
+import { PRReviewService } from './services/pr-review-service.js';
+import { InboundHookService } from './services/inbound-hook-service.js';
+import { createIssuesRoutes } from './routes/issues/index.js';
 import { getDevServerService } from './services/dev-server-service.js';
 import { eventHookService } from './services/event-hook-service.js';
 import { createNotificationsRoutes } from './routes/notifications/index.js';
 import { getNotificationService } from './services/notification-service.js';
+import { NotificationChannelService } from './services/notification-channel-service.js';
 import { createEventHistoryRoutes } from './routes/event-history/index.js';
+import { createInboundRoutes } from './routes/inbound/index.js';
+import { captureRawBody } from './routes/inbound/common.js';
 import { getEventHistoryService } from './services/event-history-service.js';
+import { WebhookOutboxService } from './services/webhook-outbox-service.js';
 import { getTestRunnerService } from './services/test-runner-service.js';
 import { createProjectsRoutes } from './routes/projects/index.js';
 
@@ -247,6 +259,8 @@ app.use(
     credentials: true,
   })
 );
+// Inbound hooks verify signatures over the raw body, so parse them before the global parser
+app.use('/api/inbound', express.json({ limit: '5mb', verify: captureRawBody }));
 app.use(express.json({ limit: '50mb' }));
 app.use(cookieParser());
 
@@ -264,7 +278,29 @@ const codexAppServerService = new CodexAppServerService();
 const codexModelCacheService = new CodexModelCacheService(DATA_DIR, codexAppServerService);
 const codexUsageService = new CodexUsageService(codexAppServerService);
 const mcpTestService = new MCPTestService(settingsService);
+const boardMcpService = new BoardMcpService(featureLoader, autoModeService, events);
 const ideationService = new IdeationService(events, settingsService, featureLoader);
+const memoryCurationService = new MemoryCurationService(settingsService);
+const schedulerService = new SchedulerService(
+  events,
+  settingsService,
+  autoModeService,
+  ideationService,
+  memoryCurationService
+);
+const issueSyncService = new IssueSyncService(
+  events,
+  settingsService,
+  featureLoader,
+  autoModeService
+);
+const prReviewService = new PRReviewService(events, autoModeService, featureLoader);
+const inboundHookService = new InboundHookService(
+  events,
+  settingsService,
+  featureLoader,
+  autoModeService
+);
 
 // Initialize DevServerService with event emitter for real-time log streaming
 const devServerService = getDevServerService();
@@ -273,16 +309,33 @@ devServerService.setEventEmitter(events);
 // Initialize Notification Service with event emitter for real-time updates
 const notificationService = getNotificationService();
 notificationService.setEventEmitter(events);
+const notificationChannelService = new NotificationChannelService(events, settingsService);
+notificationService.setChannelService(notificationChannelService);
 
 // Initialize Event History Service
 const eventHistoryService = getEventHistoryService();
 
+// Durable outbox for HTTP event hooks (signed, retried, dead-lettered)
+const webhookOutbox = new WebhookOutboxService(DATA_DIR);
+
 // Initialize Test Runner Service with event emitter for real-time test output streaming
 const testRunnerService = getTestRunnerService();
 testRunnerService.setEventEmitter(events);
 
 // Initialize Event Hook Service for custom event triggers (with history storage)
-eventHookService.initialize(events, settingsService, eventHistoryService, featureLoader);
+eventHookService.initialize(
+  events,
+  settingsService,
+  eventHistoryService,
+  featureLoader,
+  webhookOutbox
+);
+
+// Sync linked tracker issues when their features change status
+issueSyncService.start();
+
+// Record PR review follow-up summaries and reply to review threads on push
+prReviewService.start();
 
 // Initialize services
 (async () => {
@@ -321,6 +374,12 @@ eventHookService.initialize(events, settingsService, eventHistoryService, featur
   await agentService.initialize();
   logger.info('Agent service initialized');
 
+  // Start scheduled auto mode windows and recurring jobs (resumes runs still in their window)
+  schedulerService.start();
+
+  // Resume webhook deliveries still waiting for a retry
+  await webhookOutbox.start();
+
   // Bootstrap Codex model cache in background (don't block server startup)
   void codexModelCacheService.getModels().catch((err) => {
     logger.error('Failed to bootstrap Codex model cache:', err);
@@ -344,6 +403,8 @@ app.use('/api', requireJsonContentType);
 app.use('/api/health', createHealthRoutes());
 app.use('/api/auth', createAuthRoutes());
 app.use('/api/setup', createSetupRoutes());
+// Inbound hooks authenticate with their own per-hook secret
+app.use('/api/inbound', createInboundRoutes(inboundHookService));
 
 // Apply authentication to all other routes
 app.use('/api', authMiddleware);
@@ -360,7 +421,10 @@ app.use(
 );
 app.use('/api/auto-mode', createAutoModeRoutes(autoModeService));
 app.use('/api/enhance-prompt', createEnhancePromptRoutes(settingsService));
-app.use('/api/worktree', createWorktreeRoutes(events, settingsService));
+app.use(
+  '/api/worktree',
+  createWorktreeRoutes(events, settingsService, prReviewService, autoModeService)
+);
 app.use('/api/git', createGitRoutes());
 app.use('/api/models', createModelsRoutes());
 app.use('/api/spec-regeneration', createSpecRegenerationRoutes(events, settingsService));
@@ -372,13 +436,21 @@ app.use('/api/settings', createSettingsRoutes(settingsService));
 app.use('/api/claude', createClaudeRoutes(claudeUsageService));
 app.use('/api/codex', createCodexRoutes(codexUsageService, codexModelCacheService));
 app.use('/api/github', createGitHubRoutes(events, settingsService));
+app.use('/api/issues', createIssuesRoutes(settingsService));
 app.use('/api/context', createContextRoutes(settingsService));
+app.use('/api/memory', createMemoryRoutes(memoryCurationService));
 app.use('/api/backlog-plan', createBacklogPlanRoutes(events, settingsService));
-app.use('/api/mcp', createMCPRoutes(mcpTestService));
+app.use('/api/mcp', createMCPRoutes(mcpTestService, boardMcpService));
 app.use('/api/pipeline', createPipelineRoutes(pipelineService));
 app.use('/api/ideation', createIdeationRoutes(events, ideationService, featureLoader));
-app.use('/api/notifications', createNotificationsRoutes(notificationService));
-app.use('/api/event-history', createEventHistoryRoutes(eventHistoryService, settingsService));
+app.use(
+  '/api/notifications',
+  createNotificationsRoutes(notificationService, notificationChannelService)
+);
+app.use(
+  '/api/event-history',
+  createEventHistoryRoutes(eventHistoryService, settingsService, webhookOutbox)
+);
 app.use(
   '/api/projects',
   createProjectsRoutes(featureLoader, autoModeService, settingsService, notificationService)
@@ -816,6 +888,10 @@ const gracefulShutdown = async (signal: string) => {
   // Mark all running features as interrupted before shutdown
   // This ensures they can be resumed when the server restarts
   // Note: markAllRunningFeaturesInterrupted handles errors internally and never rejects
+  schedulerService.stop();
+  issueSyncService.stop();
+  prReviewService.stop();
+  webhookOutbox.stop();
   await autoModeService.markAllRunningFeaturesInterrupted(`${signal} signal received`);
 
   terminalService.cleanup();
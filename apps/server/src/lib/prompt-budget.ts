@@ -0,0 +1,95 @@
+/**
+ * Prompt budget helpers for agent runs
+ *
+ * Fits the sections of an agent prompt into a budget derived from the
+ * model's context window (see fitPromptSections in @automaker/utils). The
+ * initial prompt may use half the window; the rest is left for the agent's
+ * own turns and tool results.
+ *
+ * The section helpers below keep shares and priorities consistent across
+ * the places prompts are built: instructions are never cut, the feature
+ * and context files keep their beginning, and previous agent output keeps
+ * its end with an outline of what was cut.
+ */
+
+import type { PromptBudgetReport } from '@automaker/types';
+import { fitPromptSections, type PromptSection } from '@automaker/utils';
+import { ProviderFactory } from '../providers/provider-factory.js';
+
+/** Used when the provider doesn't report a context window for the model */
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+/** Share of the context window the initial prompt may use */
+export const PROMPT_BUDGET_SHARE = 0.5;
+
+/**
+ * Fitted section contents by section ID, plus the budget report
+ */
+export interface BudgetedPrompt {
+  contents: Record<string, string>;
+  budget: PromptBudgetReport;
+}
+
+/**
+ * Fit prompt sections into the budget for a model
+ */
+export function fitPromptToModel(model: string, sections: PromptSection[]): BudgetedPrompt {
+  const contextWindow = ProviderFactory.getModelContextWindow(model) ?? DEFAULT_CONTEXT_WINDOW;
+  const budgetTokens = Math.floor(contextWindow * PROMPT_BUDGET_SHARE);
+  const fitted = fitPromptSections(sections, budgetTokens);
+  return {
+    contents: fitted.contents,
+    budget: { contextWindow, budgetTokens, sections: fitted.sections },
+  };
+}
+
+/**
+ * Project context files and memory, sent as the system prompt
+ */
+export function contextFilesSection(content: string): PromptSection {
+  return {
+    id: 'context-files',
+    label: 'Context files and memory',
+    content,
+    target: 'system',
+    priority: 2,
+    strategy: 'head',
+    maxShare: 0.3,
+  };
+}
+
+/**
+ * The feature description, including ancestor context added to it
+ */
+export function featureSection(content: string): PromptSection {
+  return {
+    id: 'feature',
+    label: 'Feature',
+    content,
+    priority: 3,
+    strategy: 'head',
+    maxShare: 0.25,
+  };
+}
+
+/**
+ * Output of earlier agent runs on the feature (agent-output.md)
+ */
+export function previousWorkSection(content: string): PromptSection {
+  return {
+    id: 'previous-work',
+    label: 'Previous agent output',
+    content,
+    priority: 1,
+    strategy: 'tail',
+    outline: true,
+    maxShare: 0.4,
+  };
+}
+
+/**
+ * Instructions the prompt doesn't work without
+ */
+export function instructionsSection(id: string, label: string, content: string): PromptSection {
+  return { id, label, content, priority: 10, strategy: 'keep' };
+}
@@ -0,0 +1,380 @@
+/**
+ * Spec coverage - Traces app_spec.txt items to features and files
+ *
+ * Each capability, implemented feature and roadmap phase of the spec is
+ * matched with the Automaker features that implement it (listed in the
+ * spec's feature_ids, or linked through the feature's specLink) and checked
+ * for drift:
+ * - its file locations no longer exist
+ * - its files changed a lot since the spec was last written
+ * - nothing implements it
+ *
+ * The spec view shows the result as a coverage matrix and can turn the gaps
+ * into backlog features.
+ */
+
+import path from 'path';
+import { createLogger } from '@automaker/utils';
+import { getAppSpecPath, spawnProcess } from '@automaker/platform';
+import type {
+  Feature,
+  SpecCoverageItem,
+  SpecCoverageReport,
+  SpecDriftType,
+  SpecFileChange,
+  SpecItemKind,
+} from '@automaker/types';
+import * as secureFs from './secure-fs.js';
+import {
+  extractImplementedFeatures,
+  extractRoadmapPhases,
+  extractXmlElements,
+  extractXmlSection,
+} from './xml-extractor.js';
+import { textSimilarity } from './text-similarity.js';
+
+const logger = createLogger('SpecCoverage');
+
+/** A file counts as heavily changed from this many changed lines... */
+export const HEAVY_CHANGE_MIN_LINES = 50;
+
+/** ...if they are also at least this share of its current length */
+export const HEAVY_CHANGE_RATIO = 0.5;
+
+/** Similarity at which an implemented feature counts as covering a capability */
+export const CAPABILITY_MATCH_THRESHOLD = 0.3;
+
+/**
+ * State of a spec file location in the working tree
+ */
+export interface SpecFileState {
+  exists: boolean;
+  /** Lines added plus removed since the spec was last written */
+  linesChanged: number;
+  /** Current length in lines (0 for directories) */
+  lineCount: number;
+}
+
+const quiet = { logger: { debug: () => {} } };
+
+function isGlob(location: string): boolean {
+  return /[*?[\]{}]/.test(location);
+}
+
+function matchesLink(feature: Feature, kind: SpecItemKind, name: string): boolean {
+  return (
+    feature.specLink?.kind === kind &&
+    feature.specLink.name.trim().toLowerCase() === name.trim().toLowerCase()
+  );
+}
+
+function linkedFeatureIds(
+  features: Feature[],
+  kind: SpecItemKind,
+  name: string,
+  listed: string[] = []
+): string[] {
+  const ids = new Set(listed);
+  for (const feature of features) {
+    if (matchesLink(feature, kind, name)) ids.add(feature.id);
+  }
+  return [...ids];
+}
+
+/**
+ * Check an item's file locations and derive its file drift
+ */
+function assessFiles(
+  fileLocations: string[],
+  fileStates: Map<string, SpecFileState>
+): Pick<SpecCoverageItem, 'missingFiles' | 'changedFiles' | 'drift'> {
+  const missingFiles: string[] = [];
+  const changedFiles: SpecFileChange[] = [];
+  for (const location of fileLocations) {
+    const state = fileStates.get(location);
+    if (!state) continue;
+    if (!state.exists) {
+      missingFiles.push(location);
+    } else if (
+      state.linesChanged >= HEAVY_CHANGE_MIN_LINES &&
+      state.linesChanged >= state.lineCount * HEAVY_CHANGE_RATIO
+    ) {
+      changedFiles.push({
+        path: location,
+        linesChanged: state.linesChanged,
+        lineCount: state.lineCount,
+      });
+    }
+  }
+
+  const drift: SpecDriftType[] = [];
+  if (missingFiles.length > 0) drift.push('missing_files');
+  if (changedFiles.length > 0) drift.push('heavily_changed');
+  return { missingFiles, changedFiles, drift };
+}
+
+/**
+ * Build the coverage items of a spec
+ *
+ * @param specContent - The XML content of app_spec.txt
+ * @param features - The project's Automaker features
+ * @param fileStates - State of the spec's file locations, by location as written in the spec;
+ *   locations without a state (globs, or not inspected) are not checked
+ */
+export function assessSpecCoverage(
+  specContent: string,
+  features: Feature[],
+  fileStates: Map<string, SpecFileState>
+): SpecCoverageItem[] {
+  const implemented = extractImplementedFeatures(specContent, quiet);
+  const phases = extractRoadmapPhases(specContent, quiet);
+  const capabilitiesSection = extractXmlSection(specContent, 'core_capabilities', quiet);
+  const capabilities = capabilitiesSection
+    ? extractXmlElements(capabilitiesSection, 'capability', quiet).filter(Boolean)
+    : [];
+
+  const items: SpecCoverageItem[] = [];
+
+  for (const capability of capabilities) {
+    const implementedBy = implemented.filter(
+      (entry) =>
+        textSimilarity(capability, `${entry.name} ${entry.description}`) >=
+        CAPABILITY_MATCH_THRESHOLD
+    );
+    const featureIds = linkedFeatureIds(
+      features,
+      'capability',
+      capability,
+      implementedBy.flatMap((entry) => entry.feature_ids ?? [])
+    );
+    items.push({
+      kind: 'capability',
+      name: capability,
+      featureIds,
+      implementedBy: implementedBy.map((entry) => entry.name),
+      fileLocations: [],
+      missingFiles: [],
+      changedFiles: [],
+      drift: implementedBy.length === 0 && featureIds.length === 0 ? ['no_feature'] : [],
+    });
+  }
+
+  for (const entry of implemented) {
+    const fileLocations = entry.file_locations ?? [];
+    items.push({
+      kind: 'implemented_feature',
+      name: entry.name,
+      description: entry.description,
+      featureIds: linkedFeatureIds(features, 'implemented_feature', entry.name, entry.feature_ids),
+      fileLocations,
+      ...assessFiles(fileLocations, fileStates),
+    });
+  }
+
+  for (const phase of phases) {
+    const status =
+      phase.status === 'completed' || phase.status === 'in_progress' ? phase.status : 'pending';
+    const fileLocations = phase.file_locations ?? [];
+    const featureIds = linkedFeatureIds(features, 'roadmap_phase', phase.name, phase.feature_ids);
+    const files = assessFiles(fileLocations, fileStates);
+    items.push({
+      kind: 'roadmap_phase',
+      name: phase.name,
+      description: phase.description,
+      status,
+      featureIds,
+      fileLocations,
+      ...files,
+      drift:
+        status !== 'completed' && featureIds.length === 0
+          ? [...files.drift, 'no_feature']
+          : files.drift,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * All file locations of a spec that can be inspected (globs are skipped)
+ */
+export function getSpecFileLocations(specContent: string): string[] {
+  const locations = [
+    ...extractImplementedFeatures(specContent, quiet).flatMap(
+      (entry) => entry.file_locations ?? []
+    ),
+    ...extractRoadmapPhases(specContent, quiet).flatMap((phase) => phase.file_locations ?? []),
+  ];
+  return [...new Set(locations)].filter((location) => location && !isGlob(location));
+}
+
+/**
+ * Sum the lines changed per path from `git ... --numstat` output
+ */
+function addNumstat(output: string, changes: Map<string, number>): void {
+  for (const line of output.split('\n')) {
+    const [added, removed, file] = line.split('\t');
+    // Binary files report '-' for both counts
+    if (!file || added === '-' || removed === '-') continue;
+    changes.set(file, (changes.get(file) ?? 0) + Number(added) + Number(removed));
+  }
+}
+
+async function git(projectPath: string, args: string[]): Promise<string> {
+  const result = await spawnProcess({ command: 'git', args, cwd: projectPath });
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args[0]} failed: ${result.stderr || result.stdout}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Inspect spec file locations in the working tree
+ *
+ * Lines changed are counted from git: commits since `since` plus
+ * uncommitted changes, with paths relative to the project. Outside a git repository only existence is checked.
+ * Directories are only checked for existence.
+ *
+ * @param projectPath - Project root the locations are relative to
+ * @param locations - File locations as written in the spec
+ * @param since - Count changes made after this time
+ */
+export async function inspectSpecFiles(
+  projectPath: string,
+  locations: string[],
+  since: Date
+): Promise<Map<string, SpecFileState>> {
+  const states = new Map<string, SpecFileState>();
+  const files: Array<{ location: string; relative: string }> = [];
+
+  for (const location of locations) {
+    const absolute = path.resolve(projectPath, location);
+    try {
+      const stats = await secureFs.stat(absolute);
+      states.set(location, { exists: true, linesChanged: 0, lineCount: 0 });
+      if (stats.isFile()) {
+        files.push({ location, relative: path.relative(projectPath, absolute) });
+      }
+    } catch {
+      states.set(location, { exists: false, linesChanged: 0, lineCount: 0 });
+    }
+  }
+
+  if (files.length === 0) return states;
+
+  const changes = new Map<string, number>();
+  const paths = files.map((file) => file.relative);
+  try {
+    addNumstat(
+      await git(projectPath, [
+        'log',
+        `--since=${since.toISOString()}`,
+        '--numstat',
+        '--relative',
+        '--format=',
+        '--',
+        ...paths,
+      ]),
+      changes
+    );
+    addNumstat(
+      await git(projectPath, ['diff', '--numstat', '--relative', 'HEAD', '--', ...paths]),
+      changes
+    );
+  } catch (error) {
+    logger.debug('Could not read file changes from git:', error);
+  }
+
+  for (const { location, relative } of files) {
+    const content = (await secureFs.readFile(
+      path.resolve(projectPath, location),
+      'utf-8'
+    )) as string;
+    states.set(location, {
+      exists: true,
+      linesChanged: changes.get(relative.split(path.sep).join('/')) ?? 0,
+      lineCount: content.split('\n').length,
+    });
+  }
+
+  return states;
+}
+
+/**
+ * Build the coverage report of a project's spec
+ *
+ * @throws If the project has no app_spec.txt
+ */
+export async function buildSpecCoverage(
+  projectPath: string,
+  features: Feature[]
+): Promise<SpecCoverageReport> {
+  const specPath = getAppSpecPath(projectPath);
+  const specContent = (await secureFs.readFile(specPath, 'utf-8')) as string;
+  const specUpdatedAt = (await secureFs.stat(specPath)).mtime;
+
+  const fileStates = await inspectSpecFiles(
+    projectPath,
+    getSpecFileLocations(specContent),
+    specUpdatedAt
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    specUpdatedAt: specUpdatedAt.toISOString(),
+    items: assessSpecCoverage(specContent, features, fileStates),
+  };
+}
+
+const KIND_LABELS: Record<SpecItemKind, string> = {
+  capability: 'capability',
+  implemented_feature: 'implemented feature',
+  roadmap_phase: 'roadmap phase',
+};
+
+/**
+ * Build a backlog feature that closes the gaps of a spec coverage item
+ *
+ * @returns The feature data, or null if the item has no drift
+ */
+export function buildGapFeature(item: SpecCoverageItem): Partial<Feature> | null {
+  if (item.drift.length === 0) return null;
+
+  const label = KIND_LABELS[item.kind];
+  const sections: string[] = [];
+
+  if (item.drift.includes('no_feature')) {
+    sections.push(`Implement the "${item.name}" ${label} from the project spec.`);
+    if (item.description) sections.push(item.description);
+  }
+  if (item.drift.includes('missing_files')) {
+    sections.push(
+      `The spec lists these files for the "${item.name}" ${label}, but they no longer exist:\n` +
+        item.missingFiles.map((file) => `- ${file}`).join('\n') +
+        '\n\nRestore the functionality, or update the file locations in the spec if it moved.'
+    );
+  }
+  if (item.drift.includes('heavily_changed')) {
+    sections.push(
+      `These files of the "${item.name}" ${label} changed a lot since the spec was last updated:\n` +
+        item.changedFiles
+          .map((file) => `- ${file.path} (${file.linesChanged} of ${file.lineCount} lines)`)
+          .join('\n') +
+        '\n\nCheck that the implementation still matches the spec, and fix whichever is out of date.'
+    );
+  }
+
+  const title = item.drift.includes('no_feature')
+    ? item.name
+    : item.drift.includes('missing_files')
+      ? `Fix missing files: ${item.name}`
+      : `Review spec drift: ${item.name}`;
+
+  return {
+    title,
+    description: sections.join('\n\n'),
+    category: 'Spec',
+    status: 'backlog',
+    specLink: { kind: item.kind, name: item.name },
+  };
+}
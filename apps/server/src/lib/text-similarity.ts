@@ -0,0 +1,122 @@
+/**
+ * Text similarity helpers for spotting near-duplicate ideas and features
+ *
+ * Texts are compared as bags of words (cosine similarity of term counts)
+ * after lower-casing, dropping stop words and generic feature verbs ("add",
+ * "implement", ...), and folding simple plurals. Cheap and deterministic,
+ * which is what deduplication needs; it doesn't understand synonyms.
+ */
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'so',
+  'that',
+  'the',
+  'this',
+  'to',
+  'with',
+  // Generic verbs that start most feature titles
+  'add',
+  'allow',
+  'create',
+  'enable',
+  'implement',
+  'improve',
+  'introduce',
+  'new',
+  'support',
+  'use',
+]);
+
+/**
+ * Split text into normalized words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) =>
+      word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+    );
+}
+
+function termCounts(words: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Cosine similarity of two texts' word counts, from 0 (nothing in common)
+ * to 1 (same words in the same proportions)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const countsA = termCounts(tokenize(a));
+  const countsB = termCounts(tokenize(b));
+  if (countsA.size === 0 || countsB.size === 0) return 0;
+
+  let dot = 0;
+  for (const [word, count] of countsA) {
+    dot += count * (countsB.get(word) ?? 0);
+  }
+  const norm = (counts: Map<string, number>) =>
+    Math.sqrt([...counts.values()].reduce((sum, count) => sum + count * count, 0));
+  return dot / (norm(countsA) * norm(countsB));
+}
+
+/** Something a title and description can be compared against */
+export interface SimilarityCandidate {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+/**
+ * Similarity of two items: the higher of their title similarity and their
+ * full-text similarity, so short rephrased titles and long descriptions of
+ * the same thing both count
+ */
+export function itemSimilarity(a: SimilarityCandidate, b: SimilarityCandidate): number {
+  const titles = textSimilarity(a.title, b.title);
+  const fullText = textSimilarity(
+    `${a.title} ${a.description ?? ''}`,
+    `${b.title} ${b.description ?? ''}`
+  );
+  return Math.max(titles, fullText);
+}
+
+/**
+ * Find the candidate most similar to an item, if any reaches the threshold
+ */
+export function findMostSimilar<T extends SimilarityCandidate>(
+  item: SimilarityCandidate,
+  candidates: T[],
+  threshold: number
+): { candidate: T; similarity: number } | null {
+  let best: { candidate: T; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    const similarity = itemSimilarity(item, candidate);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { candidate, similarity };
+    }
+  }
+  return best;
+}
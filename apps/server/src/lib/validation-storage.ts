@@ -1,7 +1,8 @@
 /**
- * Validation Storage - CRUD operations for GitHub issue validation results
+ * Validation Storage - CRUD operations for issue validation results
  *
- * Stores validation results in .automaker/validations/{issueNumber}/validation.json
+ * Stores validation results in .automaker/validations/{issueId}/validation.json,
+ * where issueId is the GitHub issue number or a keyed tracker's issue key
  * Results include the validation verdict, metadata, and timestamp for cache invalidation.
  */
 
@@ -21,16 +22,16 @@ const VALIDATION_CACHE_TTL_HOURS = 24;
  * Creates the validation directory if needed and stores the result as JSON.
  *
  * @param projectPath - Absolute path to project directory
- * @param issueNumber - GitHub issue number
+ * @param issueId - GitHub issue number, or the issue's key for keyed trackers
  * @param data - Validation data to store
  */
 export async function writeValidation(
   projectPath: string,
-  issueNumber: number,
+  issueId: number | string,
   data: StoredValidation
 ): Promise<void> {
-  const validationDir = getValidationDir(projectPath, issueNumber);
-  const validationPath = getValidationPath(projectPath, issueNumber);
+  const validationDir = getValidationDir(projectPath, issueId);
+  const validationPath = getValidationPath(projectPath, issueId);
 
   // Ensure directory exists
   await secureFs.mkdir(validationDir, { recursive: true });
@@ -43,15 +44,15 @@ export async function writeValidation(
  * Read validation result from storage
  *
  * @param projectPath - Absolute path to project directory
- * @param issueNumber - GitHub issue number
+ * @param issueId - GitHub issue number, or the issue's key for keyed trackers
  * @returns Stored validation or null if not found
  */
 export async function readValidation(
   projectPath: string,
-  issueNumber: number
+  issueId: number | string
 ): Promise<StoredValidation | null> {
   try {
-    const validationPath = getValidationPath(projectPath, issueNumber);
+    const validationPath = getValidationPath(projectPath, issueId);
     const content = (await secureFs.readFile(validationPath, 'utf-8')) as string;
     return JSON.parse(content) as StoredValidation;
   } catch {
@@ -76,11 +77,12 @@ export async function getAllValidations(projectPath: string): Promise<StoredVali
     const promises = dirs
       .filter((dir) => dir.isDirectory())
       .map((dir) => {
-        const issueNumber = parseInt(dir.name, 10);
-        if (!isNaN(issueNumber)) {
-          return readValidation(projectPath, issueNumber);
+        try {
+          return readValidation(projectPath, decodeURIComponent(dir.name));
+        } catch {
+          // Not a directory written by writeValidation
+          return Promise.resolve(null);
         }
-        return Promise.resolve(null);
       });
 
     const results = await Promise.all(promises);
@@ -100,12 +102,15 @@ export async function getAllValidations(projectPath: string): Promise<StoredVali
  * Delete a validation from storage
  *
  * @param projectPath - Absolute path to project directory
- * @param issueNumber - GitHub issue number
+ * @param issueId - GitHub issue number, or the issue's key for keyed trackers
  * @returns true if validation was deleted, false if not found
  */
-export async function deleteValidation(projectPath: string, issueNumber: number): Promise<boolean> {
+export async function deleteValidation(
+  projectPath: string,
+  issueId: number | string
+): Promise<boolean> {
   try {
-    const validationDir = getValidationDir(projectPath, issueNumber);
+    const validationDir = getValidationDir(projectPath, issueId);
     await secureFs.rm(validationDir, { recursive: true, force: true });
     return true;
   } catch {
@@ -130,14 +135,14 @@ export function isValidationStale(validation: StoredValidation): boolean {
  * Get validation with freshness info
  *
  * @param projectPath - Absolute path to project directory
- * @param issueNumber - GitHub issue number
+ * @param issueId - GitHub issue number, or the issue's key for keyed trackers
  * @returns Object with validation and isStale flag, or null if not found
  */
 export async function getValidationWithFreshness(
   projectPath: string,
-  issueNumber: number
+  issueId: number | string
 ): Promise<{ validation: StoredValidation; isStale: boolean } | null> {
-  const validation = await readValidation(projectPath, issueNumber);
+  const validation = await readValidation(projectPath, issueId);
   if (!validation) {
     return null;
   }
@@ -152,20 +157,20 @@ export async function getValidationWithFreshness(
  * Mark a validation as viewed by the user
  *
  * @param projectPath - Absolute path to project directory
- * @param issueNumber - GitHub issue number
+ * @param issueId - GitHub issue number, or the issue's key for keyed trackers
  * @returns true if validation was marked as viewed, false if not found
  */
 export async function markValidationViewed(
   projectPath: string,
-  issueNumber: number
+  issueId: number | string
 ): Promise<boolean> {
-  const validation = await readValidation(projectPath, issueNumber);
+  const validation = await readValidation(projectPath, issueId);
   if (!validation) {
     return false;
   }
 
   validation.viewedAt = new Date().toISOString();
-  await writeValidation(projectPath, issueNumber, validation);
+  await writeValidation(projectPath, issueId, validation);
   return true;
 }
 
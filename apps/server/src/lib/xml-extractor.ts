@@ -21,6 +21,8 @@ export interface ImplementedFeature {
   name: string;
   description: string;
   file_locations?: string[];
+  /** Automaker features that implemented this feature */
+  feature_ids?: string[];
 }
 
 /**
@@ -164,11 +166,18 @@ export function extractImplementedFeatures(
       ? extractXmlElements(locationsSection, 'location', options)
       : undefined;
 
+    // Extract feature_ids if present
+    const featureIdsSection = extractXmlSection(featureContent, 'feature_ids', options);
+    const feature_ids = featureIdsSection
+      ? extractXmlElements(featureIdsSection, 'feature_id', options)
+      : undefined;
+
     if (name) {
       features.push({
         name,
         description,
         ...(file_locations && file_locations.length > 0 ? { file_locations } : {}),
+        ...(feature_ids && feature_ids.length > 0 ? { feature_ids } : {}),
       });
     }
   }
@@ -215,6 +224,13 @@ ${feature.file_locations.map((loc) => `${i4}<location>${escapeXml(loc)}</locatio
 ${i3}</file_locations>`;
   }
 
+  if (feature.feature_ids && feature.feature_ids.length > 0) {
+    xml += `
+${i3}<feature_ids>
+${feature.feature_ids.map((id) => `${i4}<feature_id>${escapeXml(id)}</feature_id>`).join('\n')}
+${i3}</feature_ids>`;
+  }
+
   xml += `
 ${i2}</feature>`;
 
@@ -443,6 +459,7 @@ export function toSpecOutputFeatures(
     ...(f.file_locations && f.file_locations.length > 0
       ? { file_locations: f.file_locations }
       : {}),
+    ...(f.feature_ids && f.feature_ids.length > 0 ? { feature_ids: f.feature_ids } : {}),
   }));
 }
 
@@ -461,6 +478,7 @@ export function fromSpecOutputFeatures(
     ...(f.file_locations && f.file_locations.length > 0
       ? { file_locations: f.file_locations }
       : {}),
+    ...(f.feature_ids && f.feature_ids.length > 0 ? { feature_ids: f.feature_ids } : {}),
   }));
 }
 
@@ -471,6 +489,9 @@ export interface RoadmapPhase {
   name: string;
   status: string;
   description?: string;
+  /** Automaker features that belong to this phase */
+  feature_ids?: string[];
+  file_locations?: string[];
 }
 
 /**
@@ -568,8 +589,23 @@ export function extractRoadmapPhases(
     const descMatch = phaseContent.match(/<description>([\s\S]*?)<\/description>/);
     const description = descMatch ? unescapeXml(descMatch[1].trim()) : undefined;
 
+    const featureIdsSection = extractXmlSection(phaseContent, 'feature_ids', options);
+    const feature_ids = featureIdsSection
+      ? extractXmlElements(featureIdsSection, 'feature_id', options)
+      : [];
+    const locationsSection = extractXmlSection(phaseContent, 'file_locations', options);
+    const file_locations = locationsSection
+      ? extractXmlElements(locationsSection, 'location', options)
+      : [];
+
     if (name) {
-      phases.push({ name, status, description });
+      phases.push({
+        name,
+        status,
+        description,
+        ...(feature_ids.length > 0 ? { feature_ids } : {}),
+        ...(file_locations.length > 0 ? { file_locations } : {}),
+      });
     }
   }
 
@@ -609,3 +645,68 @@ export function updateRoadmapPhaseStatus(
   log.debug(`Phase "${phaseName}" not found`);
   return specContent;
 }
+
+/**
+ * Set the feature IDs of a roadmap phase in XML content
+ *
+ * Replaces the phase's <feature_ids> list, or adds one after its description.
+ *
+ * @param specContent - The full XML content
+ * @param phaseName - The name of the phase to update
+ * @param featureIds - The phase's feature IDs
+ * @param options - Optional extraction options
+ * @returns Updated XML content
+ */
+export function updateRoadmapPhaseFeatureIds(
+  specContent: string,
+  phaseName: string,
+  featureIds: string[],
+  options: ExtractXmlOptions = {}
+): string {
+  const log = options.logger || logger;
+  const indent = '  ';
+  const i3 = indent.repeat(3);
+  const i4 = indent.repeat(4);
+
+  const phaseRegex = /<phase>([\s\S]*?)<\/phase>/g;
+  for (const phaseMatch of specContent.matchAll(phaseRegex)) {
+    const phaseContent = phaseMatch[1];
+    const nameMatch = phaseContent.match(/<name>([\s\S]*?)<\/name>/);
+    if (!nameMatch || unescapeXml(nameMatch[1].trim()).toLowerCase() !== phaseName.toLowerCase()) {
+      continue;
+    }
+
+    const list =
+      featureIds.length > 0
+        ? `<feature_ids>
+${featureIds.map((id) => `${i4}<feature_id>${escapeXml(id)}</feature_id>`).join('\n')}
+${i3}</feature_ids>`
+        : '';
+    const listRegex = /\n?[ \t]*<feature_ids>[\s\S]*?<\/feature_ids>/;
+    let updated: string;
+    if (listRegex.test(phaseContent)) {
+      updated = phaseContent.replace(listRegex, list ? `\n${i3}${list}` : '');
+    } else if (!list) {
+      return specContent;
+    } else {
+      // Insert after the last of name/status/description, keeping the usual order
+      const anchor = /<\/description>|<\/status>|<\/name>/g;
+      let insertAt = -1;
+      for (const match of phaseContent.matchAll(anchor)) {
+        insertAt = Math.max(insertAt, (match.index ?? 0) + match[0].length);
+      }
+      updated = `${phaseContent.slice(0, insertAt)}\n${i3}${list}${phaseContent.slice(insertAt)}`;
+    }
+
+    log.debug(`Setting ${featureIds.length} feature IDs on phase "${phaseName}"`);
+    const start = phaseMatch.index ?? 0;
+    return (
+      specContent.slice(0, start) +
+      `<phase>${updated}</phase>` +
+      specContent.slice(start + phaseMatch[0].length)
+    );
+  }
+
+  log.debug(`Phase "${phaseName}" not found`);
+  return specContent;
+}
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+/**
+ * Board MCP server over stdio
+ *
+ * Bridges stdio to the running Automaker server's /api/mcp/board endpoint, so
+ * MCP clients that only launch stdio servers can use the board. Features and
+ * auto mode stay owned by the one server process the UI talks to.
+ *
+ * Configuration:
+ * - AUTOMAKER_SERVER_URL - server to forward to (default http://localhost:PORT, PORT 3008)
+ * - AUTOMAKER_API_KEY - API key, falling back to DATA_DIR/.api-key (DATA_DIR default ./data)
+ *
+ * stdout carries the protocol, so diagnostics go to stderr.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { isJSONRPCRequest, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+function log(message: string): void {
+  process.stderr.write(`[automaker-mcp] ${message}\n`);
+}
+
+function getApiKey(): string | undefined {
+  if (process.env.AUTOMAKER_API_KEY) {
+    return process.env.AUTOMAKER_API_KEY;
+  }
+  try {
+    const keyFile = path.join(process.env.DATA_DIR || './data', '.api-key');
+    return fs.readFileSync(keyFile, 'utf-8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const serverUrl =
+  process.env.AUTOMAKER_SERVER_URL || `http://localhost:${process.env.PORT || '3008'}`;
+const apiKey = getApiKey();
+
+const stdio = new StdioServerTransport();
+const http = new StreamableHTTPClientTransport(new URL('/api/mcp/board', serverUrl), {
+  requestInit: { headers: apiKey ? { 'X-API-Key': apiKey } : {} },
+});
+
+stdio.onmessage = (message: JSONRPCMessage) => {
+  http.send(message).catch((error: unknown) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    log(`Request to ${serverUrl} failed: ${reason}`);
+    // Answer requests so the client doesn't wait forever
+    if (isJSONRPCRequest(message)) {
+      void stdio.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: -32603, message: `Automaker server unavailable: ${reason}` },
+      });
+    }
+  });
+};
+http.onmessage = (message) => void stdio.send(message);
+http.onerror = (error) => log(error.message);
+stdio.onclose = () => {
+  void http.close().finally(() => process.exit(0));
+};
+
+if (!apiKey) {
+  log('No API key found - set AUTOMAKER_API_KEY or DATA_DIR');
+}
+await http.start();
+await stdio.start();
+log(`Forwarding to ${serverUrl}/api/mcp/board`);
@@ -5,7 +5,7 @@
  * with the provider architecture.
  */
 
-import { query, type Options } from '@anthropic-ai/claude-agent-sdk';
+import { query, type Options, type SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
 import { BaseProvider } from './base-provider.js';
 import { classifyError, getUserFriendlyErrorMessage, createLogger } from '@automaker/utils';
 
@@ -16,6 +16,7 @@ import {
   type ClaudeApiProfile,
   type ClaudeCompatibleProvider,
   type Credentials,
+  type ProviderUsage,
 } from '@automaker/types';
 
 /**
@@ -32,6 +33,20 @@ import type {
   ModelDefinition,
 } from './types.js';
 
+/**
+ * Convert the SDK's result usage (snake_case, plus total_cost_usd) to ProviderUsage
+ */
+function normalizeResultUsage(msg: SDKResultMessage): ProviderUsage | undefined {
+  if (!msg.usage) return undefined;
+  return {
+    inputTokens: msg.usage.input_tokens ?? 0,
+    outputTokens: msg.usage.output_tokens ?? 0,
+    cacheReadTokens: msg.usage.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: msg.usage.cache_creation_input_tokens ?? 0,
+    costUsd: typeof msg.total_cost_usd === 'number' ? msg.total_cost_usd : undefined,
+  };
+}
+
 // Explicit allowlist of environment variables to pass to the SDK.
 // Only these vars are passed - nothing else from process.env leaks through.
 const ALLOWED_ENV_VARS = [
@@ -292,9 +307,14 @@ export class ClaudeProvider extends BaseProvider {
     try {
       const stream = query({ prompt: promptPayload, options: sdkOptions });
 
-      // Stream messages directly - they're already in the correct format
+      // Stream messages directly - they're already in the correct format,
+      // except result usage which is normalized to the shared ProviderUsage shape
       for await (const msg of stream) {
-        yield msg as ProviderMessage;
+        if (msg.type === 'result') {
+          yield { ...(msg as unknown as ProviderMessage), usage: normalizeResultUsage(msg) };
+        } else {
+          yield msg as ProviderMessage;
+        }
       }
     } catch (error) {
       // Enhance error with user-friendly message and classification
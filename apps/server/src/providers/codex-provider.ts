@@ -40,7 +40,7 @@ import {
   type CodexAuthStatus,
 } from '@automaker/types';
 import { CodexConfigManager } from './codex-config-manager.js';
-import { executeCodexSdkQuery } from './codex-sdk-client.js';
+import { executeCodexSdkQuery, normalizeCodexUsage } from './codex-sdk-client.js';
 import {
   resolveCodexToolCall,
   extractCodexTodoItems,
@@ -887,7 +887,12 @@ export class CodexProvider extends BaseProvider {
 
         if (eventType === CODEX_EVENT_TYPES.turnCompleted) {
           const resultText = extractText(event.result) || undefined;
-          yield { type: 'result', subtype: 'success', result: resultText };
+          yield {
+            type: 'result',
+            subtype: 'success',
+            result: resultText,
+            usage: normalizeCodexUsage(event.usage),
+          };
           continue;
         }
 
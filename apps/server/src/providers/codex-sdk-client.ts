@@ -7,7 +7,7 @@
 
 import { Codex } from '@openai/codex-sdk';
 import { formatHistoryAsText, classifyError, getUserFriendlyErrorMessage } from '@automaker/utils';
-import { supportsReasoningEffort } from '@automaker/types';
+import { supportsReasoningEffort, type ProviderUsage } from '@automaker/types';
 import type { ExecuteOptions, ProviderMessage } from './types.js';
 
 const OPENAI_API_KEY_ENV = 'OPENAI_API_KEY';
@@ -82,6 +82,28 @@ function buildSdkErrorMessage(rawMessage: string, userMessage: string): string {
   return `${userMessage}\n\n${SDK_ERROR_DETAILS_LABEL} ${rawMessage}`;
 }
 
+/**
+ * Convert Codex turn usage to ProviderUsage
+ *
+ * Codex reports cached tokens as a subset of input_tokens, so they are
+ * split out to avoid pricing them twice. Shared with the CLI event parser,
+ * which receives the same shape on `turn.completed`.
+ */
+export function normalizeCodexUsage(usage: unknown): ProviderUsage | undefined {
+  if (!usage || typeof usage !== 'object') {
+    return undefined;
+  }
+  const record = usage as Record<string, unknown>;
+  const toCount = (value: unknown): number => (typeof value === 'number' ? value : 0);
+  const inputTokens = toCount(record.input_tokens);
+  const cachedTokens = Math.min(toCount(record.cached_input_tokens), inputTokens);
+  return {
+    inputTokens: inputTokens - cachedTokens,
+    outputTokens: toCount(record.output_tokens),
+    cacheReadTokens: cachedTokens,
+  };
+}
+
 /**
  * Execute a query using the official Codex SDK
  *
@@ -156,6 +178,7 @@ export async function* executeCodexSdkQuery(
       subtype: 'success',
       session_id: threadId,
       result: outputText,
+      usage: normalizeCodexUsage(result.usage),
     };
   } catch (error) {
     const errorInfo = classifyError(error);
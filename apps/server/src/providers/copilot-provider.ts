@@ -28,6 +28,7 @@ import {
   COPILOT_MODEL_MAP,
   type CopilotAuthStatus,
   type CopilotRuntimeModel,
+  type ProviderUsage,
 } from '@automaker/types';
 import { createLogger, isAbortError } from '@automaker/utils';
 import { CopilotClient, type PermissionRequest } from '@github/copilot-sdk';
@@ -85,6 +86,17 @@ interface SdkToolExecutionEndEvent extends SdkEvent {
   };
 }
 
+interface SdkUsageEvent extends SdkEvent {
+  type: 'assistant.usage';
+  data: {
+    model?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
+  };
+}
+
 interface SdkSessionIdleEvent extends SdkEvent {
   type: 'session.idle';
 }
@@ -376,6 +388,12 @@ export class CopilotProvider extends CliProvider {
         };
       }
 
+      case 'assistant.usage': {
+        // Usage is reported per model call; executeQuery sums these and
+        // attaches the total to the session.idle result message
+        return null;
+      }
+
       case 'session.idle': {
         logger.debug('Copilot session idle');
         return {
@@ -602,6 +620,9 @@ export class CopilotProvider extends CliProvider {
       // Send the prompt (non-blocking)
       await session.send({ prompt: promptText });
 
+      // Token usage accumulated from assistant.usage events
+      let usage: ProviderUsage | undefined;
+
       // Process events as they arrive
       while (!sessionComplete || eventQueue.length > 0) {
         await waitForEvent();
@@ -616,8 +637,20 @@ export class CopilotProvider extends CliProvider {
         // Process all queued events
         while (eventQueue.length > 0) {
           const event = eventQueue.shift()!;
+          if (event.type === 'assistant.usage') {
+            const { data } = event as SdkUsageEvent;
+            usage = {
+              inputTokens: (usage?.inputTokens ?? 0) + (data.inputTokens ?? 0),
+              outputTokens: (usage?.outputTokens ?? 0) + (data.outputTokens ?? 0),
+              cacheReadTokens: (usage?.cacheReadTokens ?? 0) + (data.cacheReadTokens ?? 0),
+              cacheWriteTokens: (usage?.cacheWriteTokens ?? 0) + (data.cacheWriteTokens ?? 0),
+            };
+          }
           const normalized = this.normalizeEvent(event);
           if (normalized) {
+            if (normalized.type === 'result' && usage) {
+              normalized.usage = usage;
+            }
             // Add session_id if not present
             if (!normalized.session_id) {
               normalized.session_id = sessionId;
@@ -568,6 +568,14 @@ export class CursorProvider extends CliProvider {
           subtype: 'success',
           session_id: resultEvent.session_id,
           result: resultEvent.result,
+          usage: resultEvent.usage
+            ? {
+                inputTokens: resultEvent.usage.inputTokens ?? 0,
+                outputTokens: resultEvent.usage.outputTokens ?? 0,
+                cacheReadTokens: resultEvent.usage.cacheReadTokens ?? 0,
+                cacheWriteTokens: resultEvent.usage.cacheWriteTokens ?? 0,
+              }
+            : undefined,
         };
       }
 
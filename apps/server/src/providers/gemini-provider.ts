@@ -23,7 +23,7 @@ import type {
   ContentBlock,
 } from './types.js';
 import { validateBareModelId } from '@automaker/types';
-import { GEMINI_MODEL_MAP, type GeminiAuthStatus } from '@automaker/types';
+import { GEMINI_MODEL_MAP, type GeminiAuthStatus, type ProviderUsage } from '@automaker/types';
 import { createLogger, isAbortError } from '@automaker/utils';
 import { spawnJSONLProcess } from '@automaker/platform';
 import { normalizeTodos } from './tool-normalization.js';
@@ -98,6 +98,22 @@ interface GeminiResultEvent extends GeminiStreamEvent {
   session_id?: string;
 }
 
+/**
+ * Convert Gemini result stats to ProviderUsage
+ *
+ * `input_tokens` includes cached tokens; `input` (when present) is the
+ * uncached remainder.
+ */
+function normalizeGeminiStats(stats: NonNullable<GeminiResultEvent['stats']>): ProviderUsage {
+  const cached = stats.cached ?? 0;
+  const uncachedInput = stats.input ?? Math.max((stats.input_tokens ?? 0) - cached, 0);
+  return {
+    inputTokens: uncachedInput,
+    outputTokens: stats.output_tokens ?? 0,
+    cacheReadTokens: cached,
+  };
+}
+
 // =============================================================================
 // Error Codes
 // =============================================================================
@@ -387,6 +403,7 @@ export class GeminiProvider extends CliProvider {
           type: 'result',
           subtype: 'success',
           session_id: resultEvent.session_id,
+          usage: resultEvent.stats ? normalizeGeminiStats(resultEvent.stats) : undefined,
         };
       }
 
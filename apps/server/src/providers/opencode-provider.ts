@@ -24,6 +24,7 @@ import type {
   ModelDefinition,
   InstallationStatus,
   ContentBlock,
+  ProviderUsage,
 } from '@automaker/types';
 import { type SubprocessOptions, getOpenCodeAuthIndicators } from '@automaker/platform';
 import { createLogger } from '@automaker/utils';
@@ -104,6 +105,30 @@ interface OpenCodePart {
     input?: number;
     output?: number;
     reasoning?: number;
+    cache?: {
+      read?: number;
+      write?: number;
+    };
+  };
+  /** Cost in USD for the step (reported on step-finish parts) */
+  cost?: number;
+}
+
+/**
+ * Convert step-finish token counts to ProviderUsage
+ *
+ * Reasoning tokens are billed as output, so they are folded into outputTokens.
+ */
+function normalizeOpenCodeUsage(part: OpenCodePart | undefined): ProviderUsage | undefined {
+  if (!part?.tokens) {
+    return undefined;
+  }
+  return {
+    inputTokens: part.tokens.input ?? 0,
+    outputTokens: (part.tokens.output ?? 0) + (part.tokens.reasoning ?? 0),
+    cacheReadTokens: part.tokens.cache?.read ?? 0,
+    cacheWriteTokens: part.tokens.cache?.write ?? 0,
+    costUsd: typeof part.cost === 'number' ? part.cost : undefined,
   };
 }
 
@@ -478,6 +503,7 @@ export class OpencodeProvider extends CliProvider {
           subtype: 'success',
           session_id: finishEvent.sessionID,
           result: (finishEvent.part as OpenCodePart & { result?: string })?.result,
+          usage: normalizeOpenCodeUsage(finishEvent.part),
         };
       }
 
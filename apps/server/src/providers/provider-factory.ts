@@ -238,32 +238,37 @@ export class ProviderFactory {
    * @returns Whether the model supports vision (defaults to true if model not found)
    */
   static modelSupportsVision(modelId: string): boolean {
+    // Default to true (Claude SDK supports vision by default)
+    return this.findModelDefinition(modelId)?.supportsVision ?? true;
+  }
+
+  /**
+   * Get the context window of a specific model
+   *
+   * @param modelId Model identifier
+   * @returns Context window in tokens, or undefined if the provider doesn't report one
+   */
+  static getModelContextWindow(modelId: string): number | undefined {
+    return this.findModelDefinition(modelId)?.contextWindow;
+  }
+
+  /**
+   * Find a model's definition in the list of the provider that handles it
+   */
+  private static findModelDefinition(modelId: string): ModelDefinition | undefined {
     const provider = this.getProviderForModel(modelId);
     const models = provider.getAvailableModels();
 
     // Find the model in the available models list
-    for (const model of models) {
-      if (
+    return models.find(
+      (model) =>
         model.id === modelId ||
         model.modelString === modelId ||
         model.id.endsWith(`-${modelId}`) ||
         model.modelString.endsWith(`-${modelId}`) ||
         model.modelString === modelId.replace(/^(claude|cursor|codex|gemini)-/, '') ||
         model.modelString === modelId.replace(/-(claude|cursor|codex|gemini)$/, '')
-      ) {
-        return model.supportsVision ?? true;
-      }
-    }
-
-    // Also try exact match with model string from provider's model map
-    for (const model of models) {
-      if (model.modelString === modelId || model.id === modelId) {
-        return model.supportsVision ?? true;
-      }
-    }
-
-    // Default to true (Claude SDK supports vision by default)
-    return true;
+    );
   }
 }
 
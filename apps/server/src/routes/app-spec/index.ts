@@ -10,6 +10,7 @@ import { createGenerateFeaturesHandler } from './routes/generate-features.js';
 import { createSyncHandler } from './routes/sync.js';
 import { createStopHandler } from './routes/stop.js';
 import { createStatusHandler } from './routes/status.js';
+import { createCoverageHandler, createCoverageFeaturesHandler } from './routes/coverage.js';
 import type { SettingsService } from '../../services/settings-service.js';
 
 export function createSpecRegenerationRoutes(
@@ -24,6 +25,8 @@ export function createSpecRegenerationRoutes(
   router.post('/sync', createSyncHandler(events, settingsService));
   router.post('/stop', createStopHandler());
   router.get('/status', createStatusHandler());
+  router.post('/coverage', createCoverageHandler());
+  router.post('/coverage/create-features', createCoverageFeaturesHandler(events));
 
   return router;
 }
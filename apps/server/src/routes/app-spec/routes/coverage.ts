@@ -0,0 +1,74 @@
+/**
+ * Spec coverage endpoints
+ *
+ * POST /coverage - Trace spec items to features and files, with drift
+ * POST /coverage/create-features - Create backlog features for coverage gaps
+ */
+
+import type { Request, Response } from 'express';
+import type { EventEmitter } from '../../../lib/events.js';
+import type { Feature, FeatureSpecLink } from '@automaker/types';
+import { FeatureLoader } from '../../../services/feature-loader.js';
+import { buildGapFeature, buildSpecCoverage } from '../../../lib/spec-coverage.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createCoverageHandler() {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath } = req.body as { projectPath: string };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath required' });
+        return;
+      }
+
+      const features = await new FeatureLoader().getAll(projectPath);
+      const report = await buildSpecCoverage(projectPath, features);
+      res.json({ success: true, report });
+    } catch (error) {
+      logError(error, 'Spec coverage failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
+
+export function createCoverageFeaturesHandler(events: EventEmitter) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, items } = req.body as {
+        projectPath: string;
+        items: FeatureSpecLink[];
+      };
+
+      if (!projectPath || !Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ success: false, error: 'projectPath and items are required' });
+        return;
+      }
+
+      // Rebuild the report so gaps are taken from the current spec and code
+      const featureLoader = new FeatureLoader();
+      const report = await buildSpecCoverage(projectPath, await featureLoader.getAll(projectPath));
+
+      const created: Feature[] = [];
+      for (const { kind, name } of items) {
+        const item = report.items.find((entry) => entry.kind === kind && entry.name === name);
+        const gapFeature = item && buildGapFeature(item);
+        if (!gapFeature?.title) continue;
+        if (await featureLoader.findDuplicateTitle(projectPath, gapFeature.title)) continue;
+
+        const feature = await featureLoader.create(projectPath, gapFeature);
+        events.emit('feature:created', {
+          featureId: feature.id,
+          featureName: feature.title || 'Untitled Feature',
+          projectPath,
+        });
+        created.push(feature);
+      }
+
+      res.json({ success: true, features: created });
+    } catch (error) {
+      logError(error, 'Create spec coverage features failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -2,7 +2,8 @@
  * Sync spec with current codebase and feature state
  *
  * Updates the spec file based on:
- * - Completed Automaker features
+ * - Completed Automaker features (recorded with their feature IDs and files,
+ *   so spec items stay traceable to features and code)
  * - Code analysis for tech stack and implementations
  * - Roadmap phase status updates
  */
@@ -28,6 +29,7 @@ import {
   updateImplementedFeaturesSection,
   updateTechnologyStack,
   updateRoadmapPhaseStatus,
+  updateRoadmapPhaseFeatureIds,
   type ImplementedFeature,
   type RoadmapPhase,
 } from '../../lib/xml-extractor.js';
@@ -68,6 +70,8 @@ export interface SyncResult {
   implementedFeaturesUpdates: {
     addedFromFeatures: string[];
     removed: string[];
+    /** Existing entries that were linked to the features implementing them */
+    linked: string[];
   };
   roadmapUpdates: Array<{ phaseName: string; newStatus: string }>;
   summary: string;
@@ -87,7 +91,7 @@ export async function syncSpec(
 
   const result: SyncResult = {
     techStackUpdates: { added: [], removed: [] },
-    implementedFeaturesUpdates: { addedFromFeatures: [], removed: [] },
+    implementedFeaturesUpdates: { addedFromFeatures: [], removed: [], linked: [] },
     roadmapUpdates: [],
     summary: '',
   };
@@ -139,29 +143,54 @@ export async function syncSpec(
     projectPath,
   });
 
-  // Build new implemented features list from completed Automaker features
+  // Build new implemented features list from completed Automaker features.
+  // Existing entries are linked to the feature that implemented them (by title,
+  // or by the feature's specLink) so the coverage matrix can trace them.
   const newImplementedFeatures: ImplementedFeature[] = [];
-  const existingNames = new Set(currentImplementedFeatures.map((f) => f.name.toLowerCase()));
+  const existingByName = new Map(currentImplementedFeatures.map((f) => [f.name.toLowerCase(), f]));
 
   for (const feature of completedFeatures) {
     const name = feature.title || `Feature: ${feature.id}`;
-    if (!existingNames.has(name.toLowerCase())) {
-      newImplementedFeatures.push({
-        name,
-        description: feature.description || '',
-      });
-      result.implementedFeaturesUpdates.addedFromFeatures.push(name);
+    const linkedName =
+      feature.specLink?.kind === 'implemented_feature' ? feature.specLink.name : name;
+    const existing = existingByName.get(linkedName.toLowerCase());
+    if (existing) {
+      if (!existing.feature_ids?.includes(feature.id)) {
+        existing.feature_ids = [...(existing.feature_ids ?? []), feature.id];
+        result.implementedFeaturesUpdates.linked.push(existing.name);
+      }
+      continue;
     }
+
+    const file_locations = [
+      ...new Set(
+        (feature.planSpec?.tasks ?? [])
+          .map((task) => task.filePath)
+          .filter((filePath): filePath is string => !!filePath)
+      ),
+    ];
+    const added: ImplementedFeature = {
+      name,
+      description: feature.description || '',
+      ...(file_locations.length > 0 ? { file_locations } : {}),
+      feature_ids: [feature.id],
+    };
+    newImplementedFeatures.push(added);
+    existingByName.set(name.toLowerCase(), added);
+    result.implementedFeaturesUpdates.addedFromFeatures.push(name);
   }
 
   // Merge: keep existing + add new from completed features
   const mergedFeatures = [...currentImplementedFeatures, ...newImplementedFeatures];
 
   // Update spec with merged features
-  if (result.implementedFeaturesUpdates.addedFromFeatures.length > 0) {
+  if (
+    result.implementedFeaturesUpdates.addedFromFeatures.length > 0 ||
+    result.implementedFeaturesUpdates.linked.length > 0
+  ) {
     specContent = updateImplementedFeaturesSection(specContent, mergedFeatures);
     logger.info(
-      `Added ${result.implementedFeaturesUpdates.addedFromFeatures.length} features to spec`
+      `Added ${result.implementedFeaturesUpdates.addedFromFeatures.length} features to spec, linked ${result.implementedFeaturesUpdates.linked.length}`
     );
   }
 
@@ -323,18 +352,33 @@ CRITICAL INSTRUCTIONS:
   // For each phase, check if all its features are completed
   // This is a heuristic - we check if the phase name appears in any feature titles/descriptions
   for (const phase of currentRoadmapPhases) {
-    if (phase.status === 'completed') continue; // Already completed
-
     // Check if this phase should be marked as completed
     // A phase is considered complete if we have completed features that mention it
     const phaseNameLower = phase.name.toLowerCase();
     const relatedCompletedFeatures = completedFeatures.filter(
       (f) =>
+        (f.specLink?.kind === 'roadmap_phase' &&
+          f.specLink.name.toLowerCase() === phaseNameLower) ||
         f.title?.toLowerCase().includes(phaseNameLower) ||
         f.description?.toLowerCase().includes(phaseNameLower) ||
         f.category?.toLowerCase().includes(phaseNameLower)
     );
 
+    // Record which features belong to the phase
+    const phaseFeatureIds = phase.feature_ids ?? [];
+    const newFeatureIds = relatedCompletedFeatures
+      .map((f) => f.id)
+      .filter((id) => !phaseFeatureIds.includes(id));
+    if (newFeatureIds.length > 0) {
+      specContent = updateRoadmapPhaseFeatureIds(specContent, phase.name, [
+        ...phaseFeatureIds,
+        ...newFeatureIds,
+      ]);
+      logger.info(`Linked ${newFeatureIds.length} features to phase "${phase.name}"`);
+    }
+
+    if (phase.status === 'completed') continue; // Already completed
+
     // If we have related completed features and the phase is still pending/in_progress,
     // update it to in_progress or completed based on feature count
     if (relatedCompletedFeatures.length > 0 && phase.status !== 'completed') {
@@ -356,6 +400,11 @@ CRITICAL INSTRUCTIONS:
       `Added ${result.implementedFeaturesUpdates.addedFromFeatures.length} implemented features`
     );
   }
+  if (result.implementedFeaturesUpdates.linked.length > 0) {
+    summaryParts.push(
+      `Linked ${result.implementedFeaturesUpdates.linked.length} implemented features to their Automaker features`
+    );
+  }
   if (result.techStackUpdates.added.length > 0) {
     summaryParts.push(`Added ${result.techStackUpdates.added.length} technologies`);
   }
@@ -20,6 +20,12 @@ import { createFollowUpFeatureHandler } from './routes/follow-up-feature.js';
 import { createCommitFeatureHandler } from './routes/commit-feature.js';
 import { createApprovePlanHandler } from './routes/approve-plan.js';
 import { createResumeInterruptedHandler } from './routes/resume-interrupted.js';
+import { createCheckpointsHandler } from './routes/checkpoints.js';
+import { createRollbackHandler } from './routes/rollback.js';
+import { createStartCompetitionHandler } from './routes/start-competition.js';
+import { createPromoteCompetitionHandler } from './routes/promote-competition.js';
+import { createDiscardCompetitionHandler } from './routes/discard-competition.js';
+import { createSubmitReviewHandler } from './routes/submit-review.js';
 
 export function createAutoModeRoutes(autoModeService: AutoModeService): Router {
   const router = Router();
@@ -75,6 +81,36 @@ export function createAutoModeRoutes(autoModeService: AutoModeService): Router {
     validatePathParams('projectPath'),
     createResumeInterruptedHandler(autoModeService)
   );
+  router.post(
+    '/checkpoints',
+    validatePathParams('projectPath'),
+    createCheckpointsHandler(autoModeService)
+  );
+  router.post(
+    '/rollback',
+    validatePathParams('projectPath'),
+    createRollbackHandler(autoModeService)
+  );
+  router.post(
+    '/start-competition',
+    validatePathParams('projectPath'),
+    createStartCompetitionHandler(autoModeService)
+  );
+  router.post(
+    '/promote-competition',
+    validatePathParams('projectPath'),
+    createPromoteCompetitionHandler(autoModeService)
+  );
+  router.post(
+    '/discard-competition',
+    validatePathParams('projectPath'),
+    createDiscardCompetitionHandler(autoModeService)
+  );
+  router.post(
+    '/submit-review',
+    validatePathParams('projectPath'),
+    createSubmitReviewHandler(autoModeService)
+  );
 
   return router;
 }
@@ -0,0 +1,32 @@
+/**
+ * POST /checkpoints endpoint - List the checkpoints of a feature
+ */
+
+import type { Request, Response } from 'express';
+import type { AutoModeService } from '../../../services/auto-mode-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createCheckpointsHandler(autoModeService: AutoModeService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId } = req.body as {
+        projectPath: string;
+        featureId: string;
+      };
+
+      if (!projectPath || !featureId) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath and featureId are required',
+        });
+        return;
+      }
+
+      const checkpoints = await autoModeService.listCheckpoints(projectPath, featureId);
+      res.json({ success: true, checkpoints });
+    } catch (error) {
+      logError(error, 'List checkpoints failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * POST /discard-competition endpoint - Remove all of a feature's competition candidates
+ */
+
+import type { Request, Response } from 'express';
+import type { AutoModeService } from '../../../services/auto-mode-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createDiscardCompetitionHandler(autoModeService: AutoModeService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId } = req.body as {
+        projectPath: string;
+        featureId: string;
+      };
+
+      if (!projectPath || !featureId) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath and featureId are required',
+        });
+        return;
+      }
+
+      await autoModeService.discardCompetition(projectPath, featureId);
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Discard competition failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
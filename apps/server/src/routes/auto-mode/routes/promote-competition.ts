@@ -0,0 +1,37 @@
+/**
+ * POST /promote-competition endpoint - Promote a competition winner and clean up the rest
+ */
+
+import type { Request, Response } from 'express';
+import type { AutoModeService } from '../../../services/auto-mode-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createPromoteCompetitionHandler(autoModeService: AutoModeService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId, candidateId } = req.body as {
+        projectPath: string;
+        featureId: string;
+        candidateId: string;
+      };
+
+      if (!projectPath || !featureId || !candidateId) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath, featureId and candidateId are required',
+        });
+        return;
+      }
+
+      const winner = await autoModeService.promoteCompetitionWinner(
+        projectPath,
+        featureId,
+        candidateId
+      );
+      res.json({ success: true, winner });
+    } catch (error) {
+      logError(error, 'Promote competition winner failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * POST /rollback endpoint - Restore a feature to a checkpoint
+ */
+
+import type { Request, Response } from 'express';
+import type { AutoModeService } from '../../../services/auto-mode-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createRollbackHandler(autoModeService: AutoModeService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId, checkpointId, resume, useWorktrees } = req.body as {
+        projectPath: string;
+        featureId: string;
+        checkpointId: string;
+        resume?: boolean;
+        useWorktrees?: boolean;
+      };
+
+      if (!projectPath || !featureId || !checkpointId) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath, featureId and checkpointId are required',
+        });
+        return;
+      }
+
+      const { checkpoint, resumed } = await autoModeService.rollbackToCheckpoint(
+        projectPath,
+        featureId,
+        checkpointId,
+        { resume, useWorktrees }
+      );
+      res.json({ success: true, checkpoint, resumed });
+    } catch (error) {
+      logError(error, 'Rollback failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * POST /start-competition endpoint - Run a feature with several contenders in parallel
+ */
+
+import type { Request, Response } from 'express';
+import type { AutoModeService } from '../../../services/auto-mode-service.js';
+import type { CompetitionContender } from '@automaker/types';
+import { MAX_COMPETITION_CONTENDERS } from '@automaker/types';
+import { createLogger } from '@automaker/utils';
+import { getErrorMessage, logError } from '../common.js';
+
+const logger = createLogger('AutoMode');
+
+export function createStartCompetitionHandler(autoModeService: AutoModeService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId, contenders } = req.body as {
+        projectPath: string;
+        featureId: string;
+        contenders?: CompetitionContender[];
+      };
+
+      if (!projectPath || !featureId) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath and featureId are required',
+        });
+        return;
+      }
+
+      if (
+        contenders !== undefined &&
+        (!Array.isArray(contenders) ||
+          contenders.length < 2 ||
+          contenders.length > MAX_COMPETITION_CONTENDERS ||
+          contenders.some((contender) => !contender?.model))
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `contenders must list 2 to ${MAX_COMPETITION_CONTENDERS} entries, each with a model`,
+        });
+        return;
+      }
+
+      if (autoModeService.isFeatureRunning(featureId)) {
+        res.status(400).json({
+          success: false,
+          error: `Feature ${featureId} is already running`,
+        });
+        return;
+      }
+
+      // Start the competition in background; progress is reported via auto mode events
+      autoModeService.runCompetition(projectPath, featureId, contenders).catch((error) => {
+        logger.error(`Competition for feature ${featureId} error:`, error);
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Start competition failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * POST /submit-review endpoint - Send inline diff review comments as a follow-up
+ */
+
+import type { Request, Response } from 'express';
+import type { AutoModeService } from '../../../services/auto-mode-service.js';
+import type { ReviewComment } from '@automaker/types';
+import { createLogger } from '@automaker/utils';
+import { getErrorMessage, logError } from '../common.js';
+
+const logger = createLogger('AutoMode');
+
+export function createSubmitReviewHandler(autoModeService: AutoModeService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId, comments, useWorktrees } = req.body as {
+        projectPath: string;
+        featureId: string;
+        comments: ReviewComment[];
+        useWorktrees?: boolean;
+      };
+
+      if (!projectPath || !featureId) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath and featureId are required',
+        });
+        return;
+      }
+
+      if (
+        !Array.isArray(comments) ||
+        comments.length === 0 ||
+        comments.some(
+          (comment) =>
+            !comment?.id ||
+            !comment.filePath ||
+            !comment.body?.trim() ||
+            !Number.isInteger(comment.startLine) ||
+            !Number.isInteger(comment.endLine) ||
+            !Array.isArray(comment.lines)
+        )
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'comments must list at least one comment with a file, line range and text',
+        });
+        return;
+      }
+
+      if (autoModeService.isFeatureRunning(featureId)) {
+        res.status(400).json({
+          success: false,
+          error: `Feature ${featureId} is already running`,
+        });
+        return;
+      }
+
+      // Run the review follow-up in background; progress is reported via auto mode events
+      autoModeService
+        .submitReview(projectPath, featureId, comments, useWorktrees ?? false)
+        .catch((error) => {
+          logger.error(`Review follow-up for feature ${featureId} error:`, error);
+        });
+
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Submit review failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
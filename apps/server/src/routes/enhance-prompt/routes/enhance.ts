@@ -7,7 +7,7 @@
  */
 
 import type { Request, Response } from 'express';
-import { createLogger } from '@automaker/utils';
+import { createLogger, extractAcceptanceCriteria } from '@automaker/utils';
 import { resolveModelString } from '@automaker/model-resolver';
 import { CLAUDE_MODEL_MAP, type ThinkingLevel } from '@automaker/types';
 import { getAppSpecPath } from '@automaker/platform';
@@ -52,6 +52,8 @@ interface EnhanceRequestBody {
 interface EnhanceSuccessResponse {
   success: true;
   enhancedText: string;
+  /** Criteria listed in the enhanced text (acceptance mode only), to seed the feature's checklist */
+  acceptanceCriteria?: string[];
 }
 
 /**
@@ -257,6 +259,9 @@ export function createEnhanceHandler(
       const response: EnhanceSuccessResponse = {
         success: true,
         enhancedText: enhancedText.trim(),
+        ...(validMode === 'acceptance' && {
+          acceptanceCriteria: extractAcceptanceCriteria(enhancedText),
+        }),
       };
       res.json(response);
     } catch (error) {
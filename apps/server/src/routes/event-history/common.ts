@@ -3,6 +3,7 @@
  */
 
 import { createLogger } from '@automaker/utils';
+import type { WebhookOutboxEntry } from '@automaker/types';
 import { getErrorMessage as getErrorMessageShared, createLogError } from '../common.js';
 
 /** Logger instance for event history operations */
@@ -17,3 +18,11 @@ export { getErrorMessageShared as getErrorMessage };
  * Log error with automatic logger binding
  */
 export const logError = createLogError(logger);
+
+/**
+ * Strip the signing secret from an outbox entry before sending it to the client
+ */
+export function withoutSecret(entry: WebhookOutboxEntry): WebhookOutboxEntry {
+  const { secret: _secret, ...rest } = entry;
+  return rest;
+}
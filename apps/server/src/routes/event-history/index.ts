@@ -7,6 +7,7 @@
  * - Deleting events
  * - Clearing all events
  * - Replaying events to test hooks
+ * - Listing, redelivering and discarding queued webhook deliveries
  *
  * Mounted at /api/event-history in the main server.
  */
@@ -14,12 +15,16 @@
 import { Router } from 'express';
 import type { EventHistoryService } from '../../services/event-history-service.js';
 import type { SettingsService } from '../../services/settings-service.js';
+import type { WebhookOutboxService } from '../../services/webhook-outbox-service.js';
 import { validatePathParams } from '../../middleware/validate-paths.js';
 import { createListHandler } from './routes/list.js';
 import { createGetHandler } from './routes/get.js';
 import { createDeleteHandler } from './routes/delete.js';
 import { createClearHandler } from './routes/clear.js';
 import { createReplayHandler } from './routes/replay.js';
+import { createDeliveriesHandler } from './routes/deliveries.js';
+import { createRedeliverHandler } from './routes/redeliver.js';
+import { createDiscardDeliveryHandler } from './routes/discard-delivery.js';
 
 /**
  * Create event history router with all endpoints
@@ -30,14 +35,19 @@ import { createReplayHandler } from './routes/replay.js';
  * - POST /delete - Delete an event by ID
  * - POST /clear - Clear all events for a project
  * - POST /replay - Replay an event to trigger hooks
+ * - POST /deliveries - List pending webhook deliveries and dead letters
+ * - POST /redeliver - Resend a webhook delivery
+ * - POST /discard-delivery - Remove a webhook delivery from the outbox
  *
  * @param eventHistoryService - Instance of EventHistoryService
  * @param settingsService - Instance of SettingsService (for replay)
+ * @param webhookOutbox - Instance of WebhookOutboxService (for HTTP hooks)
  * @returns Express Router configured with all event history endpoints
  */
 export function createEventHistoryRoutes(
   eventHistoryService: EventHistoryService,
-  settingsService: SettingsService
+  settingsService: SettingsService,
+  webhookOutbox: WebhookOutboxService
 ): Router {
   const router = Router();
 
@@ -61,8 +71,17 @@ export function createEventHistoryRoutes(
   router.post(
     '/replay',
     validatePathParams('projectPath'),
-    createReplayHandler(eventHistoryService, settingsService)
+    createReplayHandler(eventHistoryService, settingsService, webhookOutbox)
   );
 
+  // Webhook outbox
+  router.post(
+    '/deliveries',
+    validatePathParams('projectPath'),
+    createDeliveriesHandler(webhookOutbox)
+  );
+  router.post('/redeliver', createRedeliverHandler(eventHistoryService, webhookOutbox));
+  router.post('/discard-delivery', createDiscardDeliveryHandler(webhookOutbox));
+
   return router;
 }
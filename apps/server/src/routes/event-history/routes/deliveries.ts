@@ -0,0 +1,30 @@
+/**
+ * POST /api/event-history/deliveries - List queued webhook deliveries and dead letters
+ *
+ * Request body: { projectPath: string }
+ * Response: { success: true, deliveries: WebhookOutboxEntry[] }
+ */
+
+import type { Request, Response } from 'express';
+import type { WebhookOutboxService } from '../../../services/webhook-outbox-service.js';
+import { getErrorMessage, logError, withoutSecret } from '../common.js';
+
+export function createDeliveriesHandler(webhookOutbox: WebhookOutboxService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath } = req.body as { projectPath: string };
+
+      if (!projectPath || typeof projectPath !== 'string') {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      const deliveries = await webhookOutbox.list(projectPath);
+
+      res.json({ success: true, deliveries: deliveries.map(withoutSecret) });
+    } catch (error) {
+      logError(error, 'List webhook deliveries failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
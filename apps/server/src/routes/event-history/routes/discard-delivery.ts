@@ -0,0 +1,34 @@
+/**
+ * POST /api/event-history/discard-delivery - Remove a webhook delivery from the outbox
+ *
+ * Request body: { deliveryId: string }
+ * Response: { success: true } or { success: false, error: string }
+ */
+
+import type { Request, Response } from 'express';
+import type { WebhookOutboxService } from '../../../services/webhook-outbox-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createDiscardDeliveryHandler(webhookOutbox: WebhookOutboxService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deliveryId } = req.body as { deliveryId: string };
+
+      if (!deliveryId || typeof deliveryId !== 'string') {
+        res.status(400).json({ success: false, error: 'deliveryId is required' });
+        return;
+      }
+
+      const discarded = await webhookOutbox.discard(deliveryId);
+      if (!discarded) {
+        res.status(404).json({ success: false, error: 'Delivery not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Discard webhook delivery failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
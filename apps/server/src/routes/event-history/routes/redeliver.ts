@@ -0,0 +1,49 @@
+/**
+ * POST /api/event-history/redeliver - Send a failed webhook delivery again
+ *
+ * The request is resent as stored, with the same idempotency key.
+ *
+ * Request body: { deliveryId: string }
+ * Response: { success: true, delivery: WebhookOutboxEntry }
+ */
+
+import type { Request, Response } from 'express';
+import type { EventHistoryService } from '../../../services/event-history-service.js';
+import type { WebhookOutboxService } from '../../../services/webhook-outbox-service.js';
+import { toHookDelivery } from '../../../services/event-hook-service.js';
+import { getErrorMessage, logError, logger, withoutSecret } from '../common.js';
+
+export function createRedeliverHandler(
+  eventHistoryService: EventHistoryService,
+  webhookOutbox: WebhookOutboxService
+) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deliveryId } = req.body as { deliveryId: string };
+
+      if (!deliveryId || typeof deliveryId !== 'string') {
+        res.status(400).json({ success: false, error: 'deliveryId is required' });
+        return;
+      }
+
+      const entry = await webhookOutbox.redeliver(deliveryId);
+      if (!entry) {
+        res.status(404).json({ success: false, error: 'Delivery not found' });
+        return;
+      }
+
+      // Update the delivery log of the event it belongs to
+      if (entry.projectPath && entry.eventId) {
+        await eventHistoryService.recordDeliveries(entry.projectPath, entry.eventId, [
+          toHookDelivery(entry),
+        ]);
+      }
+
+      logger.info(`Redelivered webhook ${deliveryId}: ${entry.status}`);
+      res.json({ success: true, delivery: withoutSecret(entry) });
+    } catch (error) {
+      logError(error, 'Redeliver webhook failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -12,9 +12,16 @@
 import type { Request, Response } from 'express';
 import type { EventHistoryService } from '../../../services/event-history-service.js';
 import type { SettingsService } from '../../../services/settings-service.js';
-import type { EventReplayResult, EventReplayHookResult, EventHook } from '@automaker/types';
+import type { WebhookOutboxService } from '../../../services/webhook-outbox-service.js';
+import type {
+  EventReplayResult,
+  EventReplayHookResult,
+  EventHook,
+  StoredEvent,
+} from '@automaker/types';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { matchesEventHookFilters } from '../../../services/event-hook-service.js';
 import { getErrorMessage, logError, logger } from '../common.js';
 
 const execAsync = promisify(exec);
@@ -22,9 +29,6 @@ const execAsync = promisify(exec);
 /** Default timeout for shell commands (30 seconds) */
 const DEFAULT_SHELL_TIMEOUT = 30000;
 
-/** Default timeout for HTTP requests (10 seconds) */
-const DEFAULT_HTTP_TIMEOUT = 10000;
-
 interface HookContext {
   featureId?: string;
   featureName?: string;
@@ -34,6 +38,7 @@ interface HookContext {
   errorType?: string;
   timestamp: string;
   eventType: string;
+  [field: string]: string | number | boolean | undefined;
 }
 
 /**
@@ -41,7 +46,7 @@ interface HookContext {
  */
 function substituteVariables(template: string, context: HookContext): string {
   return template.replace(/\{\{(\w+)\}\}/g, (match, variable) => {
-    const value = context[variable as keyof HookContext];
+    const value = context[variable];
     if (value === undefined || value === null) {
       return '';
     }
@@ -52,7 +57,12 @@ function substituteVariables(template: string, context: HookContext): string {
 /**
  * Execute a single hook and return the result
  */
-async function executeHook(hook: EventHook, context: HookContext): Promise<EventReplayHookResult> {
+async function executeHook(
+  hook: EventHook,
+  context: HookContext,
+  event: StoredEvent,
+  webhookOutbox: WebhookOutboxService
+): Promise<EventReplayHookResult> {
   const hookName = hook.name || hook.id;
   const startTime = Date.now();
 
@@ -103,32 +113,23 @@ async function executeHook(hook: EventHook, context: HookContext): Promise<Event
 
       logger.info(`Replaying HTTP hook "${hookName}": ${method} ${url}`);
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), DEFAULT_HTTP_TIMEOUT);
-
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: method !== 'GET' ? body : undefined,
-        signal: controller.signal,
+      // Sent through the outbox like live deliveries: signed, and retried if it fails
+      const entry = await webhookOutbox.send({
+        hookId: hook.id,
+        hookName: hook.name,
+        trigger: event.trigger,
+        projectPath: event.projectPath,
+        eventId: event.id,
+        request: { url, method, headers, body: method !== 'GET' ? body : undefined },
+        secret: hook.action.secret,
+        retry: hook.action.retry,
       });
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        return {
-          hookId: hook.id,
-          hookName: hook.name,
-          success: false,
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          durationMs: Date.now() - startTime,
-        };
-      }
-
       return {
         hookId: hook.id,
         hookName: hook.name,
-        success: true,
+        success: entry.status === 'delivered',
+        error: entry.lastError,
         durationMs: Date.now() - startTime,
       };
     }
@@ -160,7 +161,8 @@ async function executeHook(hook: EventHook, context: HookContext): Promise<Event
 
 export function createReplayHandler(
   eventHistoryService: EventHistoryService,
-  settingsService: SettingsService
+  settingsService: SettingsService,
+  webhookOutbox: WebhookOutboxService
 ) {
   return async (req: Request, res: Response): Promise<void> => {
     try {
@@ -199,8 +201,9 @@ export function createReplayHandler(
         hooks = hooks.filter((h) => hookIds.includes(h.id));
       }
 
-      // Build context for variable substitution
+      // Build context for variable substitution (stored payload fields included)
       const context: HookContext = {
+        ...(event.metadata as Record<string, string | number | boolean> | undefined),
         featureId: event.featureId,
         featureName: event.featureName,
         projectPath: event.projectPath,
@@ -211,8 +214,15 @@ export function createReplayHandler(
         eventType: event.trigger,
       };
 
+      // Skip hooks whose payload filters don't match this event
+      hooks = hooks.filter((h) =>
+        matchesEventHookFilters(h.filters, { ...context, eventType: event.trigger })
+      );
+
       // Execute all hooks in parallel
-      const hookResults = await Promise.all(hooks.map((hook) => executeHook(hook, context)));
+      const hookResults = await Promise.all(
+        hooks.map((hook) => executeHook(hook, context, event, webhookOutbox))
+      );
 
       const result: EventReplayResult = {
         eventId,
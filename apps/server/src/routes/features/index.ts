@@ -19,6 +19,10 @@ import { createAgentOutputHandler, createRawOutputHandler } from './routes/agent
 import { createGenerateTitleHandler } from './routes/generate-title.js';
 import { createExportHandler } from './routes/export.js';
 import { createImportHandler, createConflictCheckHandler } from './routes/import.js';
+import { createUsageHandler } from './routes/usage.js';
+import { createPromptsHandler } from './routes/prompts.js';
+import { getFeatureUsageService } from '../../services/feature-usage-service.js';
+import { getFeaturePromptService } from '../../services/feature-prompt-service.js';
 
 export function createFeaturesRoutes(
   featureLoader: FeatureLoader,
@@ -39,11 +43,15 @@ export function createFeaturesRoutes(
     validatePathParams('projectPath'),
     createCreateHandler(featureLoader, events)
   );
-  router.post('/update', validatePathParams('projectPath'), createUpdateHandler(featureLoader));
+  router.post(
+    '/update',
+    validatePathParams('projectPath'),
+    createUpdateHandler(featureLoader, events)
+  );
   router.post(
     '/bulk-update',
     validatePathParams('projectPath'),
-    createBulkUpdateHandler(featureLoader)
+    createBulkUpdateHandler(featureLoader, events)
   );
   router.post(
     '/bulk-delete',
@@ -61,6 +69,16 @@ export function createFeaturesRoutes(
     validatePathParams('projectPath'),
     createConflictCheckHandler(featureLoader)
   );
+  router.post(
+    '/usage',
+    validatePathParams('projectPath'),
+    createUsageHandler(getFeatureUsageService())
+  );
+  router.post(
+    '/prompts',
+    validatePathParams('projectPath'),
+    createPromptsHandler(getFeaturePromptService())
+  );
 
   return router;
 }
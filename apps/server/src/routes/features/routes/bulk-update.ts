@@ -4,6 +4,7 @@
 
 import type { Request, Response } from 'express';
 import { FeatureLoader } from '../../../services/feature-loader.js';
+import type { EventEmitter } from '../../../lib/events.js';
 import type { Feature } from '@automaker/types';
 import { getErrorMessage, logError } from '../common.js';
 
@@ -19,7 +20,7 @@ interface BulkUpdateResult {
   error?: string;
 }
 
-export function createBulkUpdateHandler(featureLoader: FeatureLoader) {
+export function createBulkUpdateHandler(featureLoader: FeatureLoader, events?: EventEmitter) {
   return async (req: Request, res: Response): Promise<void> => {
     try {
       const { projectPath, featureIds, updates } = req.body as BulkUpdateRequest;
@@ -50,7 +51,18 @@ export function createBulkUpdateHandler(featureLoader: FeatureLoader) {
         const batchResults = await Promise.all(
           batch.map(async (featureId) => {
             try {
+              const previousStatus = updates.status
+                ? (await featureLoader.get(projectPath, featureId))?.status
+                : undefined;
               const updated = await featureLoader.update(projectPath, featureId, updates);
+              if (updates.status && previousStatus !== updates.status) {
+                events?.emit('feature:status-changed', {
+                  projectPath,
+                  featureId,
+                  status: updates.status,
+                  previousStatus,
+                });
+              }
               return { featureId, success: true as const, feature: updated };
             } catch (error) {
               return {
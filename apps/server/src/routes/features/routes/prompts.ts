@@ -0,0 +1,43 @@
+/**
+ * POST /prompts endpoint - Get the prompts sent for a feature
+ *
+ * With promptId: returns that prompt record, including its full text.
+ * Without promptId: returns the feature's prompt records without their text, newest first.
+ */
+
+import type { Request, Response } from 'express';
+import type { FeaturePromptService } from '../../../services/feature-prompt-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createPromptsHandler(featurePromptService: FeaturePromptService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId, promptId } = req.body as {
+        projectPath: string;
+        featureId: string;
+        promptId?: string;
+      };
+
+      if (!projectPath || !featureId) {
+        res.status(400).json({ success: false, error: 'projectPath and featureId are required' });
+        return;
+      }
+
+      if (promptId) {
+        const prompt = await featurePromptService.getPrompt(projectPath, featureId, promptId);
+        if (!prompt) {
+          res.status(404).json({ success: false, error: 'Prompt not found' });
+          return;
+        }
+        res.json({ success: true, prompt });
+        return;
+      }
+
+      const prompts = await featurePromptService.listPrompts(projectPath, featureId);
+      res.json({ success: true, prompts });
+    } catch (error) {
+      logError(error, 'Get prompts failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * POST /usage endpoint - Get token usage and cost for a feature or a whole project
+ *
+ * With featureId: returns the feature's usage.json (or null if nothing was recorded).
+ * Without featureId: returns per-feature totals plus the project total.
+ */
+
+import type { Request, Response } from 'express';
+import type { FeatureUsageService } from '../../../services/feature-usage-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createUsageHandler(featureUsageService: FeatureUsageService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId } = req.body as {
+        projectPath: string;
+        featureId?: string;
+      };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      if (featureId) {
+        const usage = await featureUsageService.getFeatureUsage(projectPath, featureId);
+        res.json({ success: true, usage });
+        return;
+      }
+
+      const summary = await featureUsageService.getProjectUsage(projectPath);
+      res.json({ success: true, summary });
+    } catch (error) {
+      logError(error, 'Get usage failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
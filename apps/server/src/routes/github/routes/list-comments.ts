@@ -62,7 +62,7 @@ function isValidCursor(cursor: string): boolean {
 /**
  * Fetch comments for a specific issue or pull request using GitHub GraphQL API
  */
-async function fetchIssueComments(
+export async function fetchIssueComments(
   projectPath: string,
   owner: string,
   repo: string,
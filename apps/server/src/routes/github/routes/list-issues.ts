@@ -5,7 +5,7 @@
 import { spawn } from 'child_process';
 import type { Request, Response } from 'express';
 import { execAsync, execEnv, getErrorMessage, logError } from './common.js';
-import { checkGitHubRemote } from './check-github-remote.js';
+import { checkGitHubRemote, type GitHubRemoteStatus } from './check-github-remote.js';
 import { createLogger } from '@automaker/utils';
 
 const logger = createLogger('ListIssues');
@@ -237,6 +237,78 @@ async function fetchLinkedPRs(
   return linkedPRsMap;
 }
 
+/**
+ * List open and closed issues of a project's GitHub repository, with the PRs
+ * linked to open issues
+ */
+export async function listGitHubIssues(
+  projectPath: string,
+  remoteStatus: GitHubRemoteStatus
+): Promise<{ openIssues: GitHubIssue[]; closedIssues: GitHubIssue[] }> {
+  // Fetch open and closed issues in parallel (now including assignees)
+  const repoQualifier =
+    remoteStatus.owner && remoteStatus.repo ? `${remoteStatus.owner}/${remoteStatus.repo}` : '';
+  const repoFlag = repoQualifier ? `-R ${repoQualifier}` : '';
+  const [openResult, closedResult] = await Promise.all([
+    execAsync(
+      [
+        GH_ISSUE_LIST_COMMAND,
+        repoFlag,
+        `${GH_STATE_FLAG} ${ISSUE_STATE_OPEN}`,
+        `${GH_JSON_FLAG} ${ISSUE_LIST_FIELDS}`,
+        `${GH_LIMIT_FLAG} ${OPEN_ISSUES_LIMIT}`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+      {
+        cwd: projectPath,
+        env: execEnv,
+      }
+    ),
+    execAsync(
+      [
+        GH_ISSUE_LIST_COMMAND,
+        repoFlag,
+        `${GH_STATE_FLAG} ${ISSUE_STATE_CLOSED}`,
+        `${GH_JSON_FLAG} ${ISSUE_LIST_FIELDS}`,
+        `${GH_LIMIT_FLAG} ${CLOSED_ISSUES_LIMIT}`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+      {
+        cwd: projectPath,
+        env: execEnv,
+      }
+    ),
+  ]);
+
+  const { stdout: openStdout } = openResult;
+  const { stdout: closedStdout } = closedResult;
+
+  const openIssues: GitHubIssue[] = JSON.parse(openStdout || '[]');
+  const closedIssues: GitHubIssue[] = JSON.parse(closedStdout || '[]');
+
+  // Fetch linked PRs for open issues (more relevant for active work)
+  if (remoteStatus.owner && remoteStatus.repo && openIssues.length > 0) {
+    const linkedPRsMap = await fetchLinkedPRs(
+      projectPath,
+      remoteStatus.owner,
+      remoteStatus.repo,
+      openIssues.map((i) => i.number)
+    );
+
+    // Attach linked PRs to issues
+    for (const issue of openIssues) {
+      const linkedPRs = linkedPRsMap.get(issue.number);
+      if (linkedPRs) {
+        issue.linkedPRs = linkedPRs;
+      }
+    }
+  }
+
+  return { openIssues, closedIssues };
+}
+
 export function createListIssuesHandler() {
   return async (req: Request, res: Response): Promise<void> => {
     try {
@@ -257,66 +329,7 @@ export function createListIssuesHandler() {
         return;
       }
 
-      // Fetch open and closed issues in parallel (now including assignees)
-      const repoQualifier =
-        remoteStatus.owner && remoteStatus.repo ? `${remoteStatus.owner}/${remoteStatus.repo}` : '';
-      const repoFlag = repoQualifier ? `-R ${repoQualifier}` : '';
-      const [openResult, closedResult] = await Promise.all([
-        execAsync(
-          [
-            GH_ISSUE_LIST_COMMAND,
-            repoFlag,
-            `${GH_STATE_FLAG} ${ISSUE_STATE_OPEN}`,
-            `${GH_JSON_FLAG} ${ISSUE_LIST_FIELDS}`,
-            `${GH_LIMIT_FLAG} ${OPEN_ISSUES_LIMIT}`,
-          ]
-            .filter(Boolean)
-            .join(' '),
-          {
-            cwd: projectPath,
-            env: execEnv,
-          }
-        ),
-        execAsync(
-          [
-            GH_ISSUE_LIST_COMMAND,
-            repoFlag,
-            `${GH_STATE_FLAG} ${ISSUE_STATE_CLOSED}`,
-            `${GH_JSON_FLAG} ${ISSUE_LIST_FIELDS}`,
-            `${GH_LIMIT_FLAG} ${CLOSED_ISSUES_LIMIT}`,
-          ]
-            .filter(Boolean)
-            .join(' '),
-          {
-            cwd: projectPath,
-            env: execEnv,
-          }
-        ),
-      ]);
-
-      const { stdout: openStdout } = openResult;
-      const { stdout: closedStdout } = closedResult;
-
-      const openIssues: GitHubIssue[] = JSON.parse(openStdout || '[]');
-      const closedIssues: GitHubIssue[] = JSON.parse(closedStdout || '[]');
-
-      // Fetch linked PRs for open issues (more relevant for active work)
-      if (remoteStatus.owner && remoteStatus.repo && openIssues.length > 0) {
-        const linkedPRsMap = await fetchLinkedPRs(
-          projectPath,
-          remoteStatus.owner,
-          remoteStatus.repo,
-          openIssues.map((i) => i.number)
-        );
-
-        // Attach linked PRs to issues
-        for (const issue of openIssues) {
-          const linkedPRs = linkedPRsMap.get(issue.number);
-          if (linkedPRs) {
-            issue.linkedPRs = linkedPRs;
-          }
-        }
-      }
+      const { openIssues, closedIssues } = await listGitHubIssues(projectPath, remoteStatus);
 
       res.json({
         success: true,
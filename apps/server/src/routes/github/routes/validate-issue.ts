@@ -55,6 +55,8 @@ import type { SettingsService } from '../../../services/settings-service.js';
 interface ValidateIssueRequestBody {
   projectPath: string;
   issueNumber: number;
+  /** Tracker key for keyed issue sources, e.g. "ENG-42" */
+  issueKey?: string;
   issueTitle: string;
   issueBody: string;
   issueLabels?: string[];
@@ -74,12 +76,13 @@ interface ValidateIssueRequestBody {
  * Run the validation asynchronously
  *
  * Emits events for start, progress, complete, and error.
- * Stores result on completion.
+ * Stores result on completion, under the issue's key when it has one.
  * Supports Claude/Codex models (structured output) and Cursor/OpenCode models (JSON parsing).
  */
-async function runValidation(
+export async function runValidation(
   projectPath: string,
   issueNumber: number,
+  issueKey: string | undefined,
   issueTitle: string,
   issueBody: string,
   issueLabels: string[] | undefined,
@@ -92,10 +95,13 @@ async function runValidation(
   thinkingLevel?: ThinkingLevel,
   reasoningEffort?: ReasoningEffort
 ): Promise<void> {
+  const issueLabel = issueKey ?? `#${issueNumber}`;
+
   // Emit start event
   const startEvent: IssueValidationEvent = {
     type: 'issue_validation_start',
     issueNumber,
+    issueKey,
     issueTitle,
     projectPath,
   };
@@ -217,6 +223,7 @@ ${basePrompt}`;
         const progressEvent: IssueValidationEvent = {
           type: 'issue_validation_progress',
           issueNumber,
+          issueKey,
           content: text,
           projectPath,
         };
@@ -244,11 +251,12 @@ ${basePrompt}`;
       throw new Error('Validation failed: no valid result received');
     }
 
-    logger.info(`Issue #${issueNumber} validation complete: ${validationResult.verdict}`);
+    logger.info(`Issue ${issueLabel} validation complete: ${validationResult.verdict}`);
 
     // Store the result
-    await writeValidation(projectPath, issueNumber, {
+    await writeValidation(projectPath, issueKey ?? issueNumber, {
       issueNumber,
+      issueKey,
       issueTitle,
       validatedAt: new Date().toISOString(),
       model,
@@ -259,6 +267,7 @@ ${basePrompt}`;
     const completeEvent: IssueValidationEvent = {
       type: 'issue_validation_complete',
       issueNumber,
+      issueKey,
       issueTitle,
       result: validationResult,
       projectPath,
@@ -269,12 +278,13 @@ ${basePrompt}`;
     clearTimeout(timeoutId);
 
     const errorMessage = getErrorMessage(error);
-    logError(error, `Issue #${issueNumber} validation failed`);
+    logError(error, `Issue ${issueLabel} validation failed`);
 
     // Emit error event
     const errorEvent: IssueValidationEvent = {
       type: 'issue_validation_error',
       issueNumber,
+      issueKey,
       error: errorMessage,
       projectPath,
     };
@@ -302,6 +312,7 @@ export function createValidateIssueHandler(
       const {
         projectPath,
         issueNumber,
+        issueKey,
         issueTitle,
         issueBody,
         issueLabels,
@@ -345,6 +356,11 @@ export function createValidateIssueHandler(
         return;
       }
 
+      if (issueKey !== undefined && (typeof issueKey !== 'string' || !issueKey)) {
+        res.status(400).json({ success: false, error: 'issueKey must be a non-empty string' });
+        return;
+      }
+
       if (!issueTitle || typeof issueTitle !== 'string') {
         res.status(400).json({ success: false, error: 'issueTitle is required' });
         return;
@@ -375,10 +391,11 @@ export function createValidateIssueHandler(
       // Create abort controller and atomically try to claim validation slot
       // This prevents TOCTOU race conditions
       const abortController = new AbortController();
-      if (!trySetValidationRunning(projectPath, issueNumber, abortController)) {
+      const issueId = issueKey ?? issueNumber;
+      if (!trySetValidationRunning(projectPath, issueId, abortController)) {
         res.json({
           success: false,
-          error: `Validation is already running for issue #${issueNumber}`,
+          error: `Validation is already running for issue ${issueKey ?? `#${issueNumber}`}`,
         });
         return;
       }
@@ -387,6 +404,7 @@ export function createValidateIssueHandler(
       runValidation(
         projectPath,
         issueNumber,
+        issueKey,
         issueTitle,
         issueBody,
         issueLabels,
@@ -403,14 +421,15 @@ export function createValidateIssueHandler(
           // Error is already handled inside runValidation (event emitted)
         })
         .finally(() => {
-          clearValidationStatus(projectPath, issueNumber);
+          clearValidationStatus(projectPath, issueId);
         });
 
       // Return immediately
       res.json({
         success: true,
-        message: `Validation started for issue #${issueNumber}`,
+        message: `Validation started for issue ${issueKey ?? `#${issueNumber}`}`,
         issueNumber,
+        issueKey,
       });
     } catch (error) {
       logError(error, `Issue validation failed`);
@@ -22,8 +22,9 @@ interface ValidationStatus {
 }
 
 /**
- * Map of issue number to validation status
- * Key format: `${projectPath}||${issueNumber}` to support multiple projects
+ * Map of issue to validation status
+ * Key format: `${projectPath}||${issueId}` to support multiple projects, where
+ * issueId is the issue number, or the issue's key for keyed trackers
  * Note: Using `||` as delimiter since `:` appears in Windows paths (e.g., C:\)
  */
 const validationStatusMap = new Map<string, ValidationStatus>();
@@ -35,15 +36,15 @@ const MAX_VALIDATION_AGE_MS = 60 * 60 * 1000;
  * Create a unique key for a validation
  * Uses `||` as delimiter since `:` appears in Windows paths
  */
-function getValidationKey(projectPath: string, issueNumber: number): string {
-  return `${projectPath}||${issueNumber}`;
+function getValidationKey(projectPath: string, issueId: number | string): string {
+  return `${projectPath}||${issueId}`;
 }
 
 /**
  * Check if a validation is currently running for an issue
  */
-export function isValidationRunning(projectPath: string, issueNumber: number): boolean {
-  const key = getValidationKey(projectPath, issueNumber);
+export function isValidationRunning(projectPath: string, issueId: number | string): boolean {
+  const key = getValidationKey(projectPath, issueId);
   const status = validationStatusMap.get(key);
   return status?.isRunning ?? false;
 }
@@ -53,9 +54,9 @@ export function isValidationRunning(projectPath: string, issueNumber: number): b
  */
 export function getValidationStatus(
   projectPath: string,
-  issueNumber: number
+  issueId: number | string
 ): { isRunning: boolean; startedAt?: Date } | null {
-  const key = getValidationKey(projectPath, issueNumber);
+  const key = getValidationKey(projectPath, issueId);
   const status = validationStatusMap.get(key);
   if (!status) {
     return null;
@@ -68,16 +69,16 @@ export function getValidationStatus(
 
 /**
  * Get all running validations for a project
+ *
+ * @returns Issue numbers, and keys for issues of keyed trackers
  */
-export function getRunningValidations(projectPath: string): number[] {
-  const runningIssues: number[] = [];
+export function getRunningValidations(projectPath: string): Array<number | string> {
+  const runningIssues: Array<number | string> = [];
   const prefix = `${projectPath}||`;
   for (const [key, status] of validationStatusMap.entries()) {
     if (status.isRunning && key.startsWith(prefix)) {
-      const issueNumber = parseInt(key.slice(prefix.length), 10);
-      if (!isNaN(issueNumber)) {
-        runningIssues.push(issueNumber);
-      }
+      const issueId = key.slice(prefix.length);
+      runningIssues.push(/^\d+$/.test(issueId) ? Number(issueId) : issueId);
     }
   }
   return runningIssues;
@@ -88,10 +89,10 @@ export function getRunningValidations(projectPath: string): number[] {
  */
 export function setValidationRunning(
   projectPath: string,
-  issueNumber: number,
+  issueId: number | string,
   abortController: AbortController
 ): void {
-  const key = getValidationKey(projectPath, issueNumber);
+  const key = getValidationKey(projectPath, issueId);
   validationStatusMap.set(key, {
     isRunning: true,
     abortController,
@@ -107,10 +108,10 @@ export function setValidationRunning(
  */
 export function trySetValidationRunning(
   projectPath: string,
-  issueNumber: number,
+  issueId: number | string,
   abortController: AbortController
 ): boolean {
-  const key = getValidationKey(projectPath, issueNumber);
+  const key = getValidationKey(projectPath, issueId);
   if (validationStatusMap.has(key)) {
     return false; // Already running
   }
@@ -145,8 +146,8 @@ export function cleanupStaleValidations(): number {
 /**
  * Clear validation status (call when validation completes or errors)
  */
-export function clearValidationStatus(projectPath: string, issueNumber: number): void {
-  const key = getValidationKey(projectPath, issueNumber);
+export function clearValidationStatus(projectPath: string, issueId: number | string): void {
+  const key = getValidationKey(projectPath, issueId);
   validationStatusMap.delete(key);
 }
 
@@ -155,8 +156,8 @@ export function clearValidationStatus(projectPath: string, issueNumber: number):
  *
  * @returns true if validation was aborted, false if not running
  */
-export function abortValidation(projectPath: string, issueNumber: number): boolean {
-  const key = getValidationKey(projectPath, issueNumber);
+export function abortValidation(projectPath: string, issueId: number | string): boolean {
+  const key = getValidationKey(projectPath, issueId);
   const status = validationStatusMap.get(key);
 
   if (!status || !status.isRunning) {
@@ -28,9 +28,10 @@ import {
 export function createValidationStatusHandler() {
   return async (req: Request, res: Response): Promise<void> => {
     try {
-      const { projectPath, issueNumber } = req.body as {
+      const { projectPath, issueNumber, issueKey } = req.body as {
         projectPath: string;
         issueNumber?: number;
+        issueKey?: string;
       };
 
       if (!projectPath) {
@@ -40,7 +41,7 @@ export function createValidationStatusHandler() {
 
       // If issueNumber provided, check specific issue
       if (issueNumber !== undefined) {
-        const status = getValidationStatus(projectPath, issueNumber);
+        const status = getValidationStatus(projectPath, issueKey ?? issueNumber);
         res.json({
           success: true,
           isRunning: status?.isRunning ?? false,
@@ -68,9 +69,10 @@ export function createValidationStatusHandler() {
 export function createValidationStopHandler() {
   return async (req: Request, res: Response): Promise<void> => {
     try {
-      const { projectPath, issueNumber } = req.body as {
+      const { projectPath, issueNumber, issueKey } = req.body as {
         projectPath: string;
         issueNumber: number;
+        issueKey?: string;
       };
 
       if (!projectPath) {
@@ -85,18 +87,19 @@ export function createValidationStopHandler() {
         return;
       }
 
-      const wasAborted = abortValidation(projectPath, issueNumber);
+      const wasAborted = abortValidation(projectPath, issueKey ?? issueNumber);
+      const issueLabel = issueKey ?? `#${issueNumber}`;
 
       if (wasAborted) {
-        logger.info(`Validation for issue #${issueNumber} was stopped`);
+        logger.info(`Validation for issue ${issueLabel} was stopped`);
         res.json({
           success: true,
-          message: `Validation for issue #${issueNumber} has been stopped`,
+          message: `Validation for issue ${issueLabel} has been stopped`,
         });
       } else {
         res.json({
           success: false,
-          error: `No validation is running for issue #${issueNumber}`,
+          error: `No validation is running for issue ${issueLabel}`,
         });
       }
     } catch (error) {
@@ -112,9 +115,10 @@ export function createValidationStopHandler() {
 export function createGetValidationsHandler() {
   return async (req: Request, res: Response): Promise<void> => {
     try {
-      const { projectPath, issueNumber } = req.body as {
+      const { projectPath, issueNumber, issueKey } = req.body as {
         projectPath: string;
         issueNumber?: number;
+        issueKey?: string;
       };
 
       if (!projectPath) {
@@ -124,7 +128,7 @@ export function createGetValidationsHandler() {
 
       // If issueNumber provided, get specific validation with freshness info
       if (issueNumber !== undefined) {
-        const result = await getValidationWithFreshness(projectPath, issueNumber);
+        const result = await getValidationWithFreshness(projectPath, issueKey ?? issueNumber);
 
         if (!result) {
           res.json({
@@ -162,9 +166,10 @@ export function createGetValidationsHandler() {
 export function createDeleteValidationHandler() {
   return async (req: Request, res: Response): Promise<void> => {
     try {
-      const { projectPath, issueNumber } = req.body as {
+      const { projectPath, issueNumber, issueKey } = req.body as {
         projectPath: string;
         issueNumber: number;
+        issueKey?: string;
       };
 
       if (!projectPath) {
@@ -179,7 +184,7 @@ export function createDeleteValidationHandler() {
         return;
       }
 
-      const deleted = await deleteValidation(projectPath, issueNumber);
+      const deleted = await deleteValidation(projectPath, issueKey ?? issueNumber);
 
       res.json({
         success: true,
@@ -198,9 +203,10 @@ export function createDeleteValidationHandler() {
 export function createMarkViewedHandler(events: EventEmitter) {
   return async (req: Request, res: Response): Promise<void> => {
     try {
-      const { projectPath, issueNumber } = req.body as {
+      const { projectPath, issueNumber, issueKey } = req.body as {
         projectPath: string;
         issueNumber: number;
+        issueKey?: string;
       };
 
       if (!projectPath) {
@@ -215,13 +221,14 @@ export function createMarkViewedHandler(events: EventEmitter) {
         return;
       }
 
-      const success = await markValidationViewed(projectPath, issueNumber);
+      const success = await markValidationViewed(projectPath, issueKey ?? issueNumber);
 
       if (success) {
         // Emit event so UI can update the unviewed count
         const viewedEvent: IssueValidationEvent = {
           type: 'issue_validation_viewed',
           issueNumber,
+          issueKey,
           projectPath,
         };
         events.emit('issue-validation:event', viewedEvent);
@@ -18,6 +18,11 @@ import { createIdeasCreateHandler } from './routes/ideas-create.js';
 import { createIdeasGetHandler } from './routes/ideas-get.js';
 import { createIdeasUpdateHandler } from './routes/ideas-update.js';
 import { createIdeasDeleteHandler } from './routes/ideas-delete.js';
+import { createIdeasVoteHandler } from './routes/ideas-vote.js';
+import {
+  createIdeasCommentHandler,
+  createIdeasCommentDeleteHandler,
+} from './routes/ideas-comment.js';
 import { createAnalyzeHandler, createGetAnalysisHandler } from './routes/analyze.js';
 import { createConvertHandler } from './routes/convert.js';
 import { createAddSuggestionHandler } from './routes/add-suggestion.js';
@@ -72,6 +77,23 @@ export function createIdeationRoutes(
     createIdeasDeleteHandler(events, ideationService)
   );
 
+  // Voting and discussion
+  router.post(
+    '/ideas/vote',
+    validatePathParams('projectPath'),
+    createIdeasVoteHandler(events, ideationService)
+  );
+  router.post(
+    '/ideas/comment',
+    validatePathParams('projectPath'),
+    createIdeasCommentHandler(events, ideationService)
+  );
+  router.post(
+    '/ideas/comment/delete',
+    validatePathParams('projectPath'),
+    createIdeasCommentDeleteHandler(events, ideationService)
+  );
+
   // Project analysis
   router.post('/analyze', validatePathParams('projectPath'), createAnalyzeHandler(ideationService));
   router.post(
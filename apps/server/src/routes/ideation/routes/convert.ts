@@ -1,12 +1,17 @@
 /**
- * POST /convert - Convert an idea to a feature
+ * POST /convert - Convert an idea, or a batch of ideas, to features
+ *
+ * Pass ideaId to convert one idea, or ideaIds to convert several (e.g. a
+ * roadmap lane). With inferDependencies, the backlog planning model is asked
+ * which of the new features depend on each other or on existing features;
+ * if that fails, the features are still created, just without dependencies.
  */
 
 import type { Request, Response } from 'express';
 import type { EventEmitter } from '../../../lib/events.js';
 import type { IdeationService } from '../../../services/ideation-service.js';
 import type { FeatureLoader } from '../../../services/feature-loader.js';
-import type { ConvertToFeatureOptions } from '@automaker/types';
+import type { ConvertIdeasResult, ConvertToFeatureOptions, Feature } from '@automaker/types';
 import { getErrorMessage, logError } from '../common.js';
 
 export function createConvertHandler(
@@ -16,9 +21,19 @@ export function createConvertHandler(
 ) {
   return async (req: Request, res: Response): Promise<void> => {
     try {
-      const { projectPath, ideaId, keepIdea, column, dependencies, tags } = req.body as {
+      const {
+        projectPath,
+        ideaId,
+        ideaIds,
+        keepIdea,
+        column,
+        dependencies,
+        tags,
+        inferDependencies,
+      } = req.body as {
         projectPath: string;
-        ideaId: string;
+        ideaId?: string;
+        ideaIds?: string[];
       } & ConvertToFeatureOptions;
 
       if (!projectPath) {
@@ -26,49 +41,90 @@ export function createConvertHandler(
         return;
       }
 
-      if (!ideaId) {
-        res.status(400).json({ success: false, error: 'ideaId is required' });
+      if (!ideaId && (!Array.isArray(ideaIds) || ideaIds.length === 0)) {
+        res.status(400).json({ success: false, error: 'ideaId or ideaIds is required' });
         return;
       }
 
-      // Convert idea to feature structure
-      const featureData = await ideationService.convertToFeature(projectPath, ideaId);
+      const convert = async (id: string): Promise<Feature> => {
+        // Convert idea to feature structure
+        const featureData = await ideationService.convertToFeature(projectPath, id);
 
-      // Apply any options from the request
-      if (column) {
-        featureData.status = column;
-      }
-      if (dependencies && dependencies.length > 0) {
-        featureData.dependencies = dependencies;
-      }
-      if (tags && tags.length > 0) {
-        featureData.tags = tags;
-      }
+        // Apply any options from the request
+        if (column) {
+          featureData.status = column;
+        }
+        if (dependencies && dependencies.length > 0) {
+          featureData.dependencies = dependencies;
+        }
+        if (tags && tags.length > 0) {
+          featureData.tags = tags;
+        }
+
+        // Create the feature using FeatureLoader
+        const feature = await featureLoader.create(projectPath, featureData);
 
-      // Create the feature using FeatureLoader
-      const feature = await featureLoader.create(projectPath, featureData);
+        // Delete the idea unless keepIdea is explicitly true
+        if (!keepIdea) {
+          await ideationService.deleteIdea(projectPath, id);
 
-      // Delete the idea unless keepIdea is explicitly true
-      if (!keepIdea) {
-        await ideationService.deleteIdea(projectPath, ideaId);
+          // Emit idea deleted event
+          events.emit('ideation:idea-deleted', {
+            projectPath,
+            ideaId: id,
+          });
+        }
 
-        // Emit idea deleted event
-        events.emit('ideation:idea-deleted', {
+        // Emit idea converted event to notify frontend
+        events.emit('ideation:idea-converted', {
           projectPath,
-          ideaId,
+          ideaId: id,
+          featureId: feature.id,
+          keepIdea: !!keepIdea,
         });
+
+        return feature;
+      };
+
+      if (!Array.isArray(ideaIds) || ideaIds.length === 0) {
+        const feature = await convert(ideaId!);
+
+        // Return featureId as expected by the frontend API interface
+        res.json({ success: true, featureId: feature.id });
+        return;
       }
 
-      // Emit idea converted event to notify frontend
-      events.emit('ideation:idea-converted', {
-        projectPath,
-        ideaId,
-        featureId: feature.id,
-        keepIdea: !!keepIdea,
-      });
+      const result: ConvertIdeasResult = { featureIds: [], dependencies: {}, failed: [] };
+      const features: Feature[] = [];
+      for (const id of ideaIds) {
+        try {
+          const feature = await convert(id);
+          features.push(feature);
+          result.featureIds.push(feature.id);
+        } catch (error) {
+          result.failed.push({ ideaId: id, error: getErrorMessage(error) });
+        }
+      }
+
+      if (inferDependencies && features.length > 0) {
+        try {
+          result.dependencies = await ideationService.inferFeatureDependencies(
+            projectPath,
+            features
+          );
+          for (const feature of features) {
+            const inferred = result.dependencies[feature.id];
+            if (!inferred) continue;
+            await featureLoader.update(projectPath, feature.id, {
+              dependencies: [...new Set([...(feature.dependencies ?? []), ...inferred])],
+            });
+          }
+        } catch (error) {
+          logError(error, 'Dependency inference failed, features created without them');
+        }
+      }
 
-      // Return featureId as expected by the frontend API interface
-      res.json({ success: true, featureId: feature.id });
+      res.json({ success: true, ...result });
     } catch (error) {
       logError(error, 'Convert to feature failed');
       res.status(500).json({ success: false, error: getErrorMessage(error) });
@@ -0,0 +1,106 @@
+/**
+ * POST /ideas/comment - Add a comment to an idea
+ * POST /ideas/comment/delete - Remove a comment from an idea
+ */
+
+import type { Request, Response } from 'express';
+import type { EventEmitter } from '../../../lib/events.js';
+import type { IdeationService } from '../../../services/ideation-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createIdeasCommentHandler(events: EventEmitter, ideationService: IdeationService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, ideaId, author, body } = req.body as {
+        projectPath: string;
+        ideaId: string;
+        author: string;
+        body: string;
+      };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      if (!ideaId) {
+        res.status(400).json({ success: false, error: 'ideaId is required' });
+        return;
+      }
+
+      if (typeof author !== 'string' || !author.trim()) {
+        res.status(400).json({ success: false, error: 'author is required' });
+        return;
+      }
+
+      if (typeof body !== 'string' || !body.trim()) {
+        res.status(400).json({ success: false, error: 'body is required' });
+        return;
+      }
+
+      const idea = await ideationService.addIdeaComment(
+        projectPath,
+        ideaId,
+        author.trim(),
+        body.trim()
+      );
+      if (!idea) {
+        res.status(404).json({ success: false, error: 'Idea not found' });
+        return;
+      }
+
+      events.emit('ideation:idea-updated', {
+        projectPath,
+        ideaId,
+        idea,
+      });
+
+      res.json({ success: true, idea });
+    } catch (error) {
+      logError(error, 'Add idea comment failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
+
+export function createIdeasCommentDeleteHandler(
+  events: EventEmitter,
+  ideationService: IdeationService
+) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, ideaId, commentId } = req.body as {
+        projectPath: string;
+        ideaId: string;
+        commentId: string;
+      };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      if (!ideaId || !commentId) {
+        res.status(400).json({ success: false, error: 'ideaId and commentId are required' });
+        return;
+      }
+
+      const idea = await ideationService.deleteIdeaComment(projectPath, ideaId, commentId);
+      if (!idea) {
+        res.status(404).json({ success: false, error: 'Idea not found' });
+        return;
+      }
+
+      events.emit('ideation:idea-updated', {
+        projectPath,
+        ideaId,
+        idea,
+      });
+
+      res.json({ success: true, idea });
+    } catch (error) {
+      logError(error, 'Delete idea comment failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
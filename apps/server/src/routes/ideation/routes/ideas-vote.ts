@@ -0,0 +1,61 @@
+/**
+ * POST /ideas/vote - Vote an idea up or down
+ *
+ * Each voter has one vote per idea; voting again replaces it and a value
+ * of 0 withdraws it.
+ */
+
+import type { Request, Response } from 'express';
+import type { EventEmitter } from '../../../lib/events.js';
+import type { IdeationService } from '../../../services/ideation-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createIdeasVoteHandler(events: EventEmitter, ideationService: IdeationService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, ideaId, voter, value } = req.body as {
+        projectPath: string;
+        ideaId: string;
+        voter: string;
+        value: 1 | -1 | 0;
+      };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      if (!ideaId) {
+        res.status(400).json({ success: false, error: 'ideaId is required' });
+        return;
+      }
+
+      if (typeof voter !== 'string' || !voter.trim()) {
+        res.status(400).json({ success: false, error: 'voter is required' });
+        return;
+      }
+
+      if (value !== 1 && value !== -1 && value !== 0) {
+        res.status(400).json({ success: false, error: 'value must be 1, -1 or 0' });
+        return;
+      }
+
+      const idea = await ideationService.voteIdea(projectPath, ideaId, voter.trim(), value);
+      if (!idea) {
+        res.status(404).json({ success: false, error: 'Idea not found' });
+        return;
+      }
+
+      events.emit('ideation:idea-updated', {
+        projectPath,
+        ideaId,
+        idea,
+      });
+
+      res.json({ success: true, idea });
+    } catch (error) {
+      logError(error, 'Vote on idea failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Common utilities for inbound hook routes
+ */
+
+import type { IncomingMessage } from 'http';
+import { createLogger } from '@automaker/utils';
+import { getErrorMessage as getErrorMessageShared, createLogError } from '../common.js';
+
+/** Logger instance for inbound hook operations */
+export const logger = createLogger('InboundHooks');
+
+/**
+ * Extract user-friendly error message from error objects
+ */
+export { getErrorMessageShared as getErrorMessage };
+
+/**
+ * Log error with automatic logger binding
+ */
+export const logError = createLogError(logger);
+
+/** Request with the body as received, kept for signature checks */
+export interface RawBodyRequest extends IncomingMessage {
+  rawBody?: string;
+}
+
+/**
+ * express.json() verify callback that keeps the raw body on the request
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf.toString('utf8');
+}
@@ -0,0 +1,27 @@
+/**
+ * Inbound routes - Webhooks external systems call to drive the board
+ *
+ * Mounted at /api/inbound in the main server, outside the API key check:
+ * each hook authenticates requests with its own secret.
+ */
+
+import { Router } from 'express';
+import type { InboundHookService } from '../../services/inbound-hook-service.js';
+import { createReceiveHandler } from './routes/receive.js';
+
+/**
+ * Create inbound hook router
+ *
+ * Endpoints:
+ * - POST /:hookId - Run an inbound hook
+ *
+ * @param inboundHookService - Instance of InboundHookService
+ * @returns Express Router configured with the inbound hook endpoint
+ */
+export function createInboundRoutes(inboundHookService: InboundHookService): Router {
+  const router = Router();
+
+  router.post('/:hookId', createReceiveHandler(inboundHookService));
+
+  return router;
+}
@@ -0,0 +1,59 @@
+/**
+ * POST /api/inbound/:hookId - Receive a request from an external system
+ *
+ * Authenticated with the hook's own secret rather than the API key, so CI
+ * jobs and other services can call it. See InboundHookService for the
+ * accepted signatures.
+ *
+ * Request body: any JSON, read by the hook's mapping templates
+ * Response: { success: true, status, featureId?, reason? }
+ * - 401 when the secret is missing or wrong, 403 when the hook is disabled,
+ *   404 for unknown hooks and 422 when the request can't be mapped
+ */
+
+import type { Request, Response } from 'express';
+import type { InboundHookService } from '../../../services/inbound-hook-service.js';
+import { getErrorMessage, logError, logger, type RawBodyRequest } from '../common.js';
+
+export function createReceiveHandler(inboundHookService: InboundHookService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const hookId = req.params.hookId as string;
+      const resolved = await inboundHookService.findHook(hookId);
+      if (!resolved) {
+        res.status(404).json({ success: false, error: 'Inbound hook not found' });
+        return;
+      }
+
+      const { projectPath, hook } = resolved;
+      const request = {
+        body: req.body ?? {},
+        rawBody: (req as unknown as RawBodyRequest).rawBody ?? '',
+        headers: req.headers,
+        query: req.query as Record<string, unknown>,
+      };
+
+      if (!inboundHookService.verify(hook, request)) {
+        logger.warn(`Rejected unauthenticated request for inbound hook ${hookId}`);
+        res.status(401).json({ success: false, error: 'Invalid or missing hook secret' });
+        return;
+      }
+
+      if (!hook.enabled) {
+        res.status(403).json({ success: false, error: 'Inbound hook is disabled' });
+        return;
+      }
+
+      const result = await inboundHookService.handle(projectPath, hook, request);
+      if (result.status === 'rejected') {
+        res.status(422).json({ success: false, error: result.reason, ...result });
+        return;
+      }
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      logError(error, 'Inbound hook failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Common utilities for issue routes
+ *
+ * Provides logger, error handling and issue reference parsing shared across
+ * all issue endpoints.
+ */
+
+import { createLogger } from '@automaker/utils';
+import { getErrorMessage as getErrorMessageShared, createLogError } from '../common.js';
+import type { IssueRef } from '../../services/issue-sources/index.js';
+
+/** Logger instance for issue-related operations */
+export const logger = createLogger('Issues');
+
+/**
+ * Extract user-friendly error message from error objects
+ */
+export { getErrorMessageShared as getErrorMessage };
+
+/**
+ * Log error with automatic logger binding
+ */
+export const logError = createLogError(logger);
+
+/**
+ * Read the issue a request is about from { issueNumber, issueKey? }
+ *
+ * @returns The issue reference, or null if issueNumber is missing
+ */
+export function getIssueRef(body: { issueNumber?: unknown; issueKey?: unknown }): IssueRef | null {
+  if (typeof body.issueNumber !== 'number' || !Number.isInteger(body.issueNumber)) {
+    return null;
+  }
+  return {
+    number: body.issueNumber,
+    key: typeof body.issueKey === 'string' && body.issueKey ? body.issueKey : undefined,
+  };
+}
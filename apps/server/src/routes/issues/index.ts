@@ -0,0 +1,59 @@
+/**
+ * Issues routes - HTTP API for the project's issue tracker
+ *
+ * Provides endpoints for:
+ * - Describing the configured issue source (GitHub or a REST tracker)
+ * - Listing issues and their comments
+ * - Commenting on and transitioning issues, and linking pull requests
+ *
+ * Mounted at /api/issues in the main server.
+ */
+
+import { Router } from 'express';
+import type { SettingsService } from '../../services/settings-service.js';
+import { validatePathParams } from '../../middleware/validate-paths.js';
+import { createSourceHandler } from './routes/source.js';
+import { createListHandler } from './routes/list.js';
+import { createCommentsHandler } from './routes/comments.js';
+import { createAddCommentHandler } from './routes/add-comment.js';
+import { createTransitionHandler } from './routes/transition.js';
+import { createLinkPrHandler } from './routes/link-pr.js';
+
+/**
+ * Create issues router with all endpoints
+ *
+ * Endpoints:
+ * - POST /source - Describe the project's issue source
+ * - POST /list - List open and closed issues
+ * - POST /comments - List an issue's comments
+ * - POST /add-comment - Comment on an issue
+ * - POST /transition - Move an issue to another state
+ * - POST /link-pr - Link a pull request to an issue
+ *
+ * @param settingsService - Reads each project's issue source configuration
+ * @returns Express Router configured with all issue endpoints
+ */
+export function createIssuesRoutes(settingsService: SettingsService): Router {
+  const router = Router();
+
+  router.post('/source', validatePathParams('projectPath'), createSourceHandler(settingsService));
+  router.post('/list', validatePathParams('projectPath'), createListHandler(settingsService));
+  router.post(
+    '/comments',
+    validatePathParams('projectPath'),
+    createCommentsHandler(settingsService)
+  );
+  router.post(
+    '/add-comment',
+    validatePathParams('projectPath'),
+    createAddCommentHandler(settingsService)
+  );
+  router.post(
+    '/transition',
+    validatePathParams('projectPath'),
+    createTransitionHandler(settingsService)
+  );
+  router.post('/link-pr', validatePathParams('projectPath'), createLinkPrHandler(settingsService));
+
+  return router;
+}
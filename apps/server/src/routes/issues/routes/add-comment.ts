@@ -0,0 +1,35 @@
+/**
+ * POST /api/issues/add-comment - Comment on an issue
+ *
+ * Request body: { projectPath: string, issueNumber: number, issueKey?: string, body: string }
+ * Response: { success: true }
+ */
+
+import type { Request, Response } from 'express';
+import type { SettingsService } from '../../../services/settings-service.js';
+import { getIssueSource } from '../../../services/issue-sources/index.js';
+import { getErrorMessage, getIssueRef, logError } from '../common.js';
+
+export function createAddCommentHandler(settingsService: SettingsService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, body } = req.body as { projectPath?: string; body?: string };
+      const issue = getIssueRef(req.body);
+
+      if (!projectPath || !issue || typeof body !== 'string' || !body.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath, issueNumber and body are required',
+        });
+        return;
+      }
+
+      const source = await getIssueSource(projectPath, settingsService);
+      await source.addComment(issue, body);
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Comment on issue failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * POST /api/issues/comments - List an issue's comments
+ *
+ * Request body: { projectPath: string, issueNumber: number, issueKey?: string, cursor?: string }
+ * Response: { success: true } & IssueCommentsResult
+ */
+
+import type { Request, Response } from 'express';
+import type { SettingsService } from '../../../services/settings-service.js';
+import { getIssueSource } from '../../../services/issue-sources/index.js';
+import { getErrorMessage, getIssueRef, logError } from '../common.js';
+
+export function createCommentsHandler(settingsService: SettingsService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, cursor } = req.body as { projectPath?: string; cursor?: string };
+      const issue = getIssueRef(req.body);
+
+      if (!projectPath || !issue) {
+        res.status(400).json({ success: false, error: 'projectPath and issueNumber are required' });
+        return;
+      }
+
+      const source = await getIssueSource(projectPath, settingsService);
+      const result = await source.listComments(issue, cursor);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      logError(error, 'List issue comments failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
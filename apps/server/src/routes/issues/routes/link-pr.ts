@@ -0,0 +1,39 @@
+/**
+ * POST /api/issues/link-pr - Link a pull request to an issue
+ *
+ * Request body: { projectPath: string, issueNumber: number, issueKey?: string, url: string, title?: string }
+ * Response: { success: true }
+ */
+
+import type { Request, Response } from 'express';
+import type { SettingsService } from '../../../services/settings-service.js';
+import { getIssueSource } from '../../../services/issue-sources/index.js';
+import { getErrorMessage, getIssueRef, logError } from '../common.js';
+
+export function createLinkPrHandler(settingsService: SettingsService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, url, title } = req.body as {
+        projectPath?: string;
+        url?: string;
+        title?: string;
+      };
+      const issue = getIssueRef(req.body);
+
+      if (!projectPath || !issue || typeof url !== 'string' || !url.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath, issueNumber and url are required',
+        });
+        return;
+      }
+
+      const source = await getIssueSource(projectPath, settingsService);
+      await source.linkPullRequest(issue, { url, title });
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Link pull request failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * POST /api/issues/list - List the project's open and closed issues
+ *
+ * Request body: { projectPath: string }
+ * Response: { success: true, source: string, openIssues: SourceIssue[], closedIssues: SourceIssue[] }
+ */
+
+import type { Request, Response } from 'express';
+import type { SettingsService } from '../../../services/settings-service.js';
+import { getIssueSource } from '../../../services/issue-sources/index.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createListHandler(settingsService: SettingsService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath } = req.body;
+
+      if (!projectPath || typeof projectPath !== 'string') {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      const source = await getIssueSource(projectPath, settingsService);
+      const info = await source.getInfo();
+      if (!info.available) {
+        res.status(400).json({ success: false, error: info.reason });
+        return;
+      }
+
+      const { openIssues, closedIssues } = await source.listIssues();
+      res.json({ success: true, source: source.type, openIssues, closedIssues });
+    } catch (error) {
+      logError(error, 'List issues failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
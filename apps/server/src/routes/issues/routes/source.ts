@@ -0,0 +1,30 @@
+/**
+ * POST /api/issues/source - Describe the project's issue source
+ *
+ * Request body: { projectPath: string }
+ * Response: { success: true, source: IssueSourceInfo }
+ */
+
+import type { Request, Response } from 'express';
+import type { SettingsService } from '../../../services/settings-service.js';
+import { getIssueSource } from '../../../services/issue-sources/index.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createSourceHandler(settingsService: SettingsService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath } = req.body;
+
+      if (!projectPath || typeof projectPath !== 'string') {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      const source = await getIssueSource(projectPath, settingsService);
+      res.json({ success: true, source: await source.getInfo() });
+    } catch (error) {
+      logError(error, 'Get issue source failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * POST /api/issues/transition - Move an issue to another tracker state
+ *
+ * Request body: { projectPath: string, issueNumber: number, issueKey?: string, state: string }
+ * Response: { success: true }
+ */
+
+import type { Request, Response } from 'express';
+import type { SettingsService } from '../../../services/settings-service.js';
+import { getIssueSource } from '../../../services/issue-sources/index.js';
+import { getErrorMessage, getIssueRef, logError } from '../common.js';
+
+export function createTransitionHandler(settingsService: SettingsService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, state } = req.body as { projectPath?: string; state?: string };
+      const issue = getIssueRef(req.body);
+
+      if (!projectPath || !issue || typeof state !== 'string' || !state.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath, issueNumber and state are required',
+        });
+        return;
+      }
+
+      const source = await getIssueSource(projectPath, settingsService);
+      await source.transition(issue, state);
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Transition issue failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -4,6 +4,7 @@
  * Provides endpoints for:
  * - Testing MCP server connections
  * - Listing available tools from MCP servers
+ * - Serving Automaker's board as an MCP server
  *
  * Mounted at /api/mcp in the main server.
  */
@@ -12,6 +13,8 @@ import { Router } from 'express';
 import type { MCPTestService } from '../../services/mcp-test-service.js';
 import { createTestServerHandler } from './routes/test-server.js';
 import { createListToolsHandler } from './routes/list-tools.js';
+import type { BoardMcpService } from '../../services/board-mcp-service.js';
+import { createBoardHandler, createBoardMethodNotAllowedHandler } from './routes/board.js';
 
 /**
  * Create MCP router with all endpoints
@@ -19,11 +22,16 @@ import { createListToolsHandler } from './routes/list-tools.js';
  * Endpoints:
  * - POST /test - Test MCP server connection
  * - POST /tools - List tools from MCP server
+ * - POST /board - Board MCP server (streamable HTTP)
  *
  * @param mcpTestService - Instance of MCPTestService for testing connections
+ * @param boardMcpService - Instance of BoardMcpService serving the board tools
  * @returns Express Router configured with all MCP endpoints
  */
-export function createMCPRoutes(mcpTestService: MCPTestService): Router {
+export function createMCPRoutes(
+  mcpTestService: MCPTestService,
+  boardMcpService: BoardMcpService
+): Router {
   const router = Router();
 
   // Test MCP server connection
@@ -32,5 +40,10 @@ export function createMCPRoutes(mcpTestService: MCPTestService): Router {
   // List tools from MCP server
   router.post('/tools', createListToolsHandler(mcpTestService));
 
+  // Board MCP server for external agents
+  router.post('/board', createBoardHandler(boardMcpService));
+  router.get('/board', createBoardMethodNotAllowedHandler());
+  router.delete('/board', createBoardMethodNotAllowedHandler());
+
   return router;
 }
@@ -0,0 +1,59 @@
+/**
+ * POST /api/mcp/board - Board MCP server over streamable HTTP
+ *
+ * Serves Automaker's own board tools (list_features, create_feature, ...) to
+ * external MCP clients. The endpoint is stateless: every request gets a fresh
+ * server and transport, so there are no sessions to keep or clean up, and
+ * GET/DELETE (used for session streams) are not supported.
+ *
+ * Authenticates like the rest of /api - clients send the X-API-Key header.
+ */
+
+import type { Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { BoardMcpService } from '../../../services/board-mcp-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: status === 405 ? -32000 : -32603, message },
+    id: null,
+  });
+}
+
+/**
+ * Create handler factory for POST /api/mcp/board
+ */
+export function createBoardHandler(boardMcpService: BoardMcpService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const server = boardMcpService.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logError(error, 'Board MCP request failed');
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, getErrorMessage(error));
+      }
+    }
+  };
+}
+
+/**
+ * Handler for GET/DELETE /api/mcp/board - sessions are not supported
+ */
+export function createBoardMethodNotAllowedHandler() {
+  return (_req: Request, res: Response): void => {
+    sendJsonRpcError(res, 405, 'Method not allowed - the board MCP endpoint is stateless');
+  };
+}
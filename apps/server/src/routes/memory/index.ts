@@ -0,0 +1,38 @@
+/**
+ * Memory routes - HTTP API for memory file curation
+ */
+
+import { Router } from 'express';
+import { validatePathParams } from '../../middleware/validate-paths.js';
+import type { MemoryCurationService } from '../../services/memory-curation-service.js';
+import { createCurationListHandler } from './routes/curation-list.js';
+import { createCurationRunHandler } from './routes/curation-run.js';
+import { createCurationApplyHandler } from './routes/curation-apply.js';
+import { createCurationDismissHandler } from './routes/curation-dismiss.js';
+
+export function createMemoryRoutes(memoryCurationService: MemoryCurationService): Router {
+  const router = Router();
+
+  router.post(
+    '/curation/list',
+    validatePathParams('projectPath'),
+    createCurationListHandler(memoryCurationService)
+  );
+  router.post(
+    '/curation/run',
+    validatePathParams('projectPath'),
+    createCurationRunHandler(memoryCurationService)
+  );
+  router.post(
+    '/curation/apply',
+    validatePathParams('projectPath'),
+    createCurationApplyHandler(memoryCurationService)
+  );
+  router.post(
+    '/curation/dismiss',
+    validatePathParams('projectPath'),
+    createCurationDismissHandler(memoryCurationService)
+  );
+
+  return router;
+}
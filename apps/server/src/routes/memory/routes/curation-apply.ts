@@ -0,0 +1,58 @@
+/**
+ * POST /curation/apply - Write a curation proposal to its memory file
+ *
+ * Conflict proposals need resolutionIndex to pick which decision to keep.
+ * Returns 409 if the file changed since the proposal was made; the
+ * proposal is dropped and curation should be run again.
+ */
+
+import type { Request, Response } from 'express';
+import type { MemoryCurationService } from '../../../services/memory-curation-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createCurationApplyHandler(memoryCurationService: MemoryCurationService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, proposalId, resolutionIndex } = req.body as {
+        projectPath: string;
+        proposalId: string;
+        resolutionIndex?: number;
+      };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      if (!proposalId) {
+        res.status(400).json({ success: false, error: 'proposalId is required' });
+        return;
+      }
+
+      const { result, state } = await memoryCurationService.applyProposal(
+        projectPath,
+        proposalId,
+        resolutionIndex
+      );
+
+      if (result === 'not_found') {
+        res.status(404).json({ success: false, error: 'Proposal or resolution not found' });
+        return;
+      }
+
+      if (result === 'stale') {
+        res.status(409).json({
+          success: false,
+          error: 'The memory file changed since this proposal was made. Run curation again.',
+          proposals: state.proposals,
+        });
+        return;
+      }
+
+      res.json({ success: true, proposals: state.proposals });
+    } catch (error) {
+      logError(error, 'Apply memory curation proposal failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
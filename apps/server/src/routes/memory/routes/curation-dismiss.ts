@@ -0,0 +1,42 @@
+/**
+ * POST /curation/dismiss - Drop a curation proposal without applying it
+ *
+ * Dismissed proposals are not proposed again by later runs. Dismissing a
+ * conflict keeps both decisions.
+ */
+
+import type { Request, Response } from 'express';
+import type { MemoryCurationService } from '../../../services/memory-curation-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createCurationDismissHandler(memoryCurationService: MemoryCurationService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, proposalId } = req.body as {
+        projectPath: string;
+        proposalId: string;
+      };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      if (!proposalId) {
+        res.status(400).json({ success: false, error: 'proposalId is required' });
+        return;
+      }
+
+      const state = await memoryCurationService.dismissProposal(projectPath, proposalId);
+      if (!state) {
+        res.status(404).json({ success: false, error: 'Proposal not found' });
+        return;
+      }
+
+      res.json({ success: true, proposals: state.proposals });
+    } catch (error) {
+      logError(error, 'Dismiss memory curation proposal failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * POST /curation/list - Get the pending memory curation proposals
+ */
+
+import type { Request, Response } from 'express';
+import type { MemoryCurationService } from '../../../services/memory-curation-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createCurationListHandler(memoryCurationService: MemoryCurationService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath } = req.body as { projectPath: string };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      const state = await memoryCurationService.getState(projectPath);
+      res.json({
+        success: true,
+        proposals: state.proposals,
+        generatedAt: state.generatedAt,
+        isRunning: memoryCurationService.isRunning(projectPath),
+      });
+    } catch (error) {
+      logError(error, 'List memory curation proposals failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
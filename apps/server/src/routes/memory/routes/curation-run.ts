@@ -0,0 +1,40 @@
+/**
+ * POST /curation/run - Scan memory files and propose clean-ups
+ *
+ * Replaces the pending proposals. Set summarize to false to skip asking the
+ * model to rewrite bloated files.
+ */
+
+import type { Request, Response } from 'express';
+import type { MemoryCurationService } from '../../../services/memory-curation-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createCurationRunHandler(memoryCurationService: MemoryCurationService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, summarize } = req.body as {
+        projectPath: string;
+        summarize?: boolean;
+      };
+
+      if (!projectPath) {
+        res.status(400).json({ success: false, error: 'projectPath is required' });
+        return;
+      }
+
+      if (memoryCurationService.isRunning(projectPath)) {
+        res.status(409).json({
+          success: false,
+          error: 'Memory curation is already running for this project',
+        });
+        return;
+      }
+
+      const state = await memoryCurationService.runCuration(projectPath, { summarize });
+      res.json({ success: true, proposals: state.proposals, generatedAt: state.generatedAt });
+    } catch (error) {
+      logError(error, 'Memory curation failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
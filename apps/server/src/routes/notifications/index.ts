@@ -6,6 +6,7 @@
  * - Getting unread count
  * - Marking notifications as read
  * - Dismissing notifications
+ * - Sending test notifications to delivery channels
  *
  * All endpoints use handler factories that receive the NotificationService instance.
  * Mounted at /api/notifications in the main server.
@@ -13,11 +14,13 @@
 
 import { Router } from 'express';
 import type { NotificationService } from '../../services/notification-service.js';
+import type { NotificationChannelService } from '../../services/notification-channel-service.js';
 import { validatePathParams } from '../../middleware/validate-paths.js';
 import { createListHandler } from './routes/list.js';
 import { createUnreadCountHandler } from './routes/unread-count.js';
 import { createMarkReadHandler } from './routes/mark-read.js';
 import { createDismissHandler } from './routes/dismiss.js';
+import { createTestChannelHandler } from './routes/test-channel.js';
 
 /**
  * Create notifications router with all endpoints
@@ -27,11 +30,16 @@ import { createDismissHandler } from './routes/dismiss.js';
  * - POST /unread-count - Get unread notification count
  * - POST /mark-read - Mark notification(s) as read
  * - POST /dismiss - Dismiss notification(s)
+ * - POST /test-channel - Send a test notification to a channel
  *
  * @param notificationService - Instance of NotificationService
+ * @param channelService - Instance of NotificationChannelService
  * @returns Express Router configured with all notification endpoints
  */
-export function createNotificationsRoutes(notificationService: NotificationService): Router {
+export function createNotificationsRoutes(
+  notificationService: NotificationService,
+  channelService: NotificationChannelService
+): Router {
   const router = Router();
 
   // List notifications
@@ -58,5 +66,8 @@ export function createNotificationsRoutes(notificationService: NotificationServi
     createDismissHandler(notificationService)
   );
 
+  // Test a delivery channel
+  router.post('/test-channel', createTestChannelHandler(channelService));
+
   return router;
 }
@@ -0,0 +1,43 @@
+/**
+ * POST /api/notifications/test-channel - Send a test notification to a channel
+ *
+ * Request body: { channel: NotificationChannel, projectPath?: string }
+ * The channel does not have to be saved yet, so settings can be checked
+ * before they are stored.
+ *
+ * Response: { success: true } or { success: false, error: string }
+ */
+
+import type { Request, Response } from 'express';
+import type { NotificationChannel } from '@automaker/types';
+import type { NotificationChannelService } from '../../../services/notification-channel-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+/**
+ * Create handler for POST /api/notifications/test-channel
+ *
+ * @param channelService - Instance of NotificationChannelService
+ * @returns Express request handler
+ */
+export function createTestChannelHandler(channelService: NotificationChannelService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { channel, projectPath } = req.body as {
+        channel?: NotificationChannel;
+        projectPath?: string;
+      };
+
+      if (!channel || typeof channel !== 'object' || !channel.type) {
+        res.status(400).json({ success: false, error: 'channel is required' });
+        return;
+      }
+
+      // Test sends are explicit, so deliver even when the channel is disabled
+      await channelService.testChannel({ ...channel, enabled: true }, projectPath);
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Test notification failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
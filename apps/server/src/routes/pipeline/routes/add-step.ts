@@ -3,7 +3,8 @@
  *
  * Adds a new step to the pipeline configuration.
  *
- * Request body: { projectPath: string, step: { name, order, instructions, colorClass } }
+ * Request body: { projectPath: string, step: { name, order, instructions, colorClass, type?,
+ *   command?, timeoutMs?, onFailure?, conditions? } }
  * Response: { success: true, step: PipelineStep }
  */
 
@@ -40,6 +41,11 @@ export function createAddStepHandler(pipelineService: PipelineService) {
         return;
       }
 
+      if (step.type === 'shell-command' && !step.command?.trim()) {
+        res.status(400).json({ success: false, error: 'step.command is required for shell steps' });
+        return;
+      }
+
       const newStep = await pipelineService.addStep(projectPath, step);
 
       res.json({
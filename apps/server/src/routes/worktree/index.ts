@@ -16,6 +16,8 @@ import { createCreateHandler } from './routes/create.js';
 import { createDeleteHandler } from './routes/delete.js';
 import { createCreatePRHandler } from './routes/create-pr.js';
 import { createPRInfoHandler } from './routes/pr-info.js';
+import { createPRReviewThreadsHandler } from './routes/pr-review-threads.js';
+import { createAddressPRReviewHandler } from './routes/address-pr-review.js';
 import { createCommitHandler } from './routes/commit.js';
 import { createGenerateCommitMessageHandler } from './routes/generate-commit-message.js';
 import { createPushHandler } from './routes/push.js';
@@ -55,10 +57,14 @@ import { createDiscardChangesHandler } from './routes/discard-changes.js';
 import { createListRemotesHandler } from './routes/list-remotes.js';
 import { createAddRemoteHandler } from './routes/add-remote.js';
 import type { SettingsService } from '../../services/settings-service.js';
+import type { AutoModeService } from '../../services/auto-mode-service.js';
+import type { PRReviewService } from '../../services/pr-review-service.js';
 
 export function createWorktreeRoutes(
   events: EventEmitter,
-  settingsService?: SettingsService
+  settingsService?: SettingsService,
+  prReviewService?: PRReviewService,
+  autoModeService?: AutoModeService
 ): Router {
   const router = Router();
 
@@ -71,12 +77,24 @@ export function createWorktreeRoutes(
     '/merge',
     validatePathParams('projectPath'),
     requireValidProject,
-    createMergeHandler()
+    createMergeHandler(events)
   );
   router.post('/create', validatePathParams('projectPath'), createCreateHandler(events));
   router.post('/delete', validatePathParams('projectPath', 'worktreePath'), createDeleteHandler());
-  router.post('/create-pr', createCreatePRHandler());
+  router.post('/create-pr', createCreatePRHandler(events));
   router.post('/pr-info', createPRInfoHandler());
+  if (prReviewService && autoModeService) {
+    router.post(
+      '/pr-review-threads',
+      validatePathParams('projectPath'),
+      createPRReviewThreadsHandler(prReviewService)
+    );
+    router.post(
+      '/address-pr-review',
+      validatePathParams('projectPath'),
+      createAddressPRReviewHandler(prReviewService, autoModeService)
+    );
+  }
   router.post(
     '/commit',
     validatePathParams('worktreePath'),
@@ -93,7 +111,7 @@ export function createWorktreeRoutes(
     '/push',
     validatePathParams('worktreePath'),
     requireValidWorktree,
-    createPushHandler()
+    createPushHandler(events)
   );
   router.post(
     '/pull',
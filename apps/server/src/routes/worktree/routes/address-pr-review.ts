@@ -0,0 +1,65 @@
+/**
+ * POST /address-pr-review endpoint - Send selected PR review threads as a follow-up
+ */
+
+import type { Request, Response } from 'express';
+import type { AutoModeService } from '../../../services/auto-mode-service.js';
+import type { PRReviewService } from '../../../services/pr-review-service.js';
+import { getErrorMessage, logError } from '../common.js';
+
+export function createAddressPRReviewHandler(
+  prReviewService: PRReviewService,
+  autoModeService: AutoModeService
+) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, featureId, threadIds, useWorktrees } = req.body as {
+        projectPath: string;
+        featureId: string;
+        threadIds: string[];
+        useWorktrees?: boolean;
+      };
+
+      if (!projectPath || !featureId) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath and featureId are required',
+        });
+        return;
+      }
+
+      if (
+        !Array.isArray(threadIds) ||
+        threadIds.length === 0 ||
+        threadIds.some((id) => typeof id !== 'string')
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'threadIds must list at least one review thread',
+        });
+        return;
+      }
+
+      if (autoModeService.isFeatureRunning(featureId)) {
+        res.status(400).json({
+          success: false,
+          error: `Feature ${featureId} is already running`,
+        });
+        return;
+      }
+
+      // The follow-up runs in the background; progress is reported via auto mode events
+      await prReviewService.addressThreads(
+        projectPath,
+        featureId,
+        threadIds,
+        useWorktrees ?? false
+      );
+
+      res.json({ success: true });
+    } catch (error) {
+      logError(error, 'Address PR review failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -14,10 +14,11 @@ import {
 import { updateWorktreePRInfo } from '../../../lib/worktree-metadata.js';
 import { createLogger } from '@automaker/utils';
 import { validatePRState } from '@automaker/types';
+import type { EventEmitter } from '../../../lib/events.js';
 
 const logger = createLogger('CreatePR');
 
-export function createCreatePRHandler() {
+export function createCreatePRHandler(events?: EventEmitter) {
   return async (req: Request, res: Response): Promise<void> => {
     try {
       const { worktreePath, projectPath, commitMessage, prTitle, prBody, baseBranch, draft } =
@@ -141,6 +142,12 @@ export function createCreatePRHandler() {
         return;
       }
 
+      events?.emit('worktree:pushed', {
+        worktreePath,
+        branch: branchName,
+        projectPath: effectiveProjectPath,
+      });
+
       // Create PR using gh CLI or provide browser fallback
       const base = baseBranch || 'main';
       const title = prTitle || branchName;
@@ -334,6 +341,17 @@ export function createCreatePRHandler() {
                   logger.error('Failed to store PR metadata:', metadataError);
                 }
               }
+
+              events?.emit('worktree:pr-created', {
+                worktreePath,
+                branchName,
+                projectPath: effectiveProjectPath,
+                prUrl,
+                prNumber,
+                prTitle: title,
+                baseBranch: base,
+                draft: !!draft,
+              });
             }
           } catch (ghError: unknown) {
             // gh CLI failed - check if it's "already exists" error and try to fetch the PR
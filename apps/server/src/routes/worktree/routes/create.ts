@@ -210,6 +210,14 @@ export function createCreateHandler(events: EventEmitter) {
         },
       });
 
+      events?.emit('worktree:created', {
+        projectPath,
+        worktreePath: absoluteWorktreePath,
+        branchName,
+        baseBranch,
+        isNew: !branchExists,
+      });
+
       // Trigger init script asynchronously after response
       // runInitScript internally checks if script exists and hasn't already run
       runInitScript({
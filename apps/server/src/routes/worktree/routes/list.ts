@@ -190,7 +190,7 @@ async function getGitHubRemoteStatus(projectPath: string): Promise<GitHubRemoteS
  * project doesn't have a GitHub remote configured. Results are cached
  * briefly to avoid hammering GitHub on frequent worktree polls.
  */
-async function fetchGitHubPRs(
+export async function fetchGitHubPRs(
   projectPath: string,
   forceRefresh = false
 ): Promise<Map<string, WorktreePRInfo>> {
@@ -8,6 +8,7 @@
  */
 
 import type { Request, Response } from 'express';
+import type { EventEmitter } from '../../../lib/events.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { getErrorMessage, logError, isValidBranchName, execGitCommand } from '../common.js';
@@ -16,7 +17,7 @@ import { createLogger } from '@automaker/utils';
 const execAsync = promisify(exec);
 const logger = createLogger('Worktree');
 
-export function createMergeHandler() {
+export function createMergeHandler(events?: EventEmitter) {
   return async (req: Request, res: Response): Promise<void> => {
     try {
       const { projectPath, branchName, worktreePath, targetBranch, options } = req.body as {
@@ -129,6 +130,14 @@ export function createMergeHandler() {
         }
       }
 
+      events?.emit('worktree:merged', {
+        projectPath,
+        worktreePath,
+        branchName,
+        targetBranch: mergeTo,
+        squash: !!options?.squash,
+      });
+
       res.json({
         success: true,
         mergedBranch: branchName,
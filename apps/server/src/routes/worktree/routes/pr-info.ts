@@ -36,6 +36,75 @@ export interface PRInfo {
   reviewComments: PRComment[];
 }
 
+/**
+ * Find the repository a branch's PR lives in and the head ref to look it up by
+ *
+ * For forks (an "upstream" remote), PRs are opened against upstream with a
+ * "owner:branch" head; otherwise against origin with the plain branch name.
+ */
+export async function resolvePRRepository(
+  worktreePath: string,
+  branchName: string
+): Promise<{ targetRepo: string | null; headRef: string }> {
+  // Detect repository information (supports fork workflows)
+  let upstreamRepo: string | null = null;
+  let originOwner: string | null = null;
+  let originRepo: string | null = null;
+
+  try {
+    const { stdout: remotes } = await execAsync('git remote -v', {
+      cwd: worktreePath,
+      env: execEnv,
+    });
+
+    const lines = remotes.split(/\r?\n/);
+    for (const line of lines) {
+      let match =
+        line.match(/^(\w+)\s+.*[:/]([^/]+)\/([^/\s]+?)(?:\.git)?\s+\(fetch\)/) ||
+        line.match(/^(\w+)\s+git@[^:]+:([^/]+)\/([^\s]+?)(?:\.git)?\s+\(fetch\)/) ||
+        line.match(/^(\w+)\s+https?:\/\/[^/]+\/([^/]+)\/([^\s]+?)(?:\.git)?\s+\(fetch\)/);
+
+      if (match) {
+        const [, remoteName, owner, repo] = match;
+        if (remoteName === 'upstream') {
+          upstreamRepo = `${owner}/${repo}`;
+        } else if (remoteName === 'origin') {
+          originOwner = owner;
+          originRepo = repo;
+        }
+      }
+    }
+  } catch {
+    // Ignore remote parsing errors
+  }
+
+  if (!originOwner || !originRepo) {
+    try {
+      const { stdout: originUrl } = await execAsync('git config --get remote.origin.url', {
+        cwd: worktreePath,
+        env: execEnv,
+      });
+      const match = originUrl.trim().match(/[:/]([^/]+)\/([^/\s]+?)(?:\.git)?$/);
+      if (match) {
+        if (!originOwner) {
+          originOwner = match[1];
+        }
+        if (!originRepo) {
+          originRepo = match[2];
+        }
+      }
+    } catch {
+      // Ignore fallback errors
+    }
+  }
+
+  const targetRepo =
+    upstreamRepo || (originOwner && originRepo ? `${originOwner}/${originRepo}` : null);
+  const headRef = upstreamRepo && originOwner ? `${originOwner}:${branchName}` : branchName;
+
+  return { targetRepo, headRef };
+}
+
 export function createPRInfoHandler() {
   return async (req: Request, res: Response): Promise<void> => {
     try {
@@ -76,62 +145,8 @@ export function createPRInfoHandler() {
         return;
       }
 
-      // Detect repository information (supports fork workflows)
-      let upstreamRepo: string | null = null;
-      let originOwner: string | null = null;
-      let originRepo: string | null = null;
-
-      try {
-        const { stdout: remotes } = await execAsync('git remote -v', {
-          cwd: worktreePath,
-          env: execEnv,
-        });
-
-        const lines = remotes.split(/\r?\n/);
-        for (const line of lines) {
-          let match =
-            line.match(/^(\w+)\s+.*[:/]([^/]+)\/([^/\s]+?)(?:\.git)?\s+\(fetch\)/) ||
-            line.match(/^(\w+)\s+git@[^:]+:([^/]+)\/([^\s]+?)(?:\.git)?\s+\(fetch\)/) ||
-            line.match(/^(\w+)\s+https?:\/\/[^/]+\/([^/]+)\/([^\s]+?)(?:\.git)?\s+\(fetch\)/);
-
-          if (match) {
-            const [, remoteName, owner, repo] = match;
-            if (remoteName === 'upstream') {
-              upstreamRepo = `${owner}/${repo}`;
-            } else if (remoteName === 'origin') {
-              originOwner = owner;
-              originRepo = repo;
-            }
-          }
-        }
-      } catch {
-        // Ignore remote parsing errors
-      }
-
-      if (!originOwner || !originRepo) {
-        try {
-          const { stdout: originUrl } = await execAsync('git config --get remote.origin.url', {
-            cwd: worktreePath,
-            env: execEnv,
-          });
-          const match = originUrl.trim().match(/[:/]([^/]+)\/([^/\s]+?)(?:\.git)?$/);
-          if (match) {
-            if (!originOwner) {
-              originOwner = match[1];
-            }
-            if (!originRepo) {
-              originRepo = match[2];
-            }
-          }
-        } catch {
-          // Ignore fallback errors
-        }
-      }
-
-      const targetRepo =
-        upstreamRepo || (originOwner && originRepo ? `${originOwner}/${originRepo}` : null);
+      const { targetRepo, headRef } = await resolvePRRepository(worktreePath, branchName);
       const repoFlag = targetRepo ? ` --repo "${targetRepo}"` : '';
-      const headRef = upstreamRepo && originOwner ? `${originOwner}:${branchName}` : branchName;
 
       // Get PR info for the branch using gh CLI
       try {
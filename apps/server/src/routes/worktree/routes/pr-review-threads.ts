@@ -0,0 +1,49 @@
+/**
+ * POST /pr-review-threads endpoint - Get the review threads of a branch's PR
+ */
+
+import type { Request, Response } from 'express';
+import type { PRReviewService } from '../../../services/pr-review-service.js';
+import { getErrorMessage, logError, isValidBranchName, isGhCliAvailable } from '../common.js';
+
+export function createPRReviewThreadsHandler(prReviewService: PRReviewService) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectPath, branchName } = req.body as {
+        projectPath: string;
+        branchName: string;
+      };
+
+      if (!projectPath || !branchName) {
+        res.status(400).json({
+          success: false,
+          error: 'projectPath and branchName required',
+        });
+        return;
+      }
+
+      // Validate branch name to prevent command injection
+      if (!isValidBranchName(branchName)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid branch name contains unsafe characters',
+        });
+        return;
+      }
+
+      if (!(await isGhCliAvailable())) {
+        res.status(400).json({
+          success: false,
+          error: 'gh CLI not available',
+        });
+        return;
+      }
+
+      const result = await prReviewService.getThreads(projectPath, branchName);
+      res.json({ success: true, result });
+    } catch (error) {
+      logError(error, 'Get PR review threads failed');
+      res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  };
+}
@@ -8,11 +8,12 @@
 import type { Request, Response } from 'express';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import type { EventEmitter } from '../../../lib/events.js';
 import { getErrorMessage, logError } from '../common.js';
 
 const execAsync = promisify(exec);
 
-export function createPushHandler() {
+export function createPushHandler(events?: EventEmitter) {
   return async (req: Request, res: Response): Promise<void> => {
     try {
       const { worktreePath, force, remote } = req.body as {
@@ -51,6 +52,8 @@ export function createPushHandler() {
         });
       }
 
+      events?.emit('worktree:pushed', { worktreePath, branch: branchName });
+
       res.json({
         success: true,
         result: {
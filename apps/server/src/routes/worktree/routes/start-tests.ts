@@ -64,6 +64,7 @@ export function createStartTestsHandler(settingsService?: SettingsService) {
       const result = await testRunnerService.startTests(worktreePath, {
         command: testCommand,
         testFile,
+        projectPath: settingsPath,
       });
 
       if (result.success && result.result) {
@@ -307,6 +307,7 @@ export class AgentService {
         taskContext: {
           title: message.substring(0, 200), // Use first 200 chars as title
           description: message,
+          agentTypes: ['chat'],
         },
       });
 
@@ -16,16 +16,36 @@ import type {
   Feature,
   ModelProvider,
   PipelineStep,
+  PipelineStepResult,
+  PipelineStage,
   FeatureStatusWithPipeline,
   PipelineConfig,
   ThinkingLevel,
   PlanningMode,
   ParsedTask,
   PlanSpec,
+  ProviderMessage,
+  FeatureUsageSource,
+  PromptBudgetReport,
+  AcceptanceJudgement,
+  ReviewComment,
+  BudgetExceeded,
+  BudgetScope,
+  BudgetSettings,
+  UsageTotals,
+  FeatureCheckpoint,
+  RetryPolicy,
+  SchedulerState,
+  CompetitionCandidate,
+  CompetitionContender,
+  FeatureCompetition,
 } from '@automaker/types';
 import {
   DEFAULT_PHASE_MODELS,
+  MAX_COMPETITION_CONTENDERS,
   DEFAULT_MAX_CONCURRENCY,
+  DEFAULT_PIPELINE_SHELL_TIMEOUT_MS,
+  DEFAULT_BUDGET_WARN_PERCENT,
   isClaudeModel,
   stripProviderPrefix,
 } from '@automaker/types';
@@ -33,6 +53,7 @@ import {
   buildPromptWithImages,
   classifyError,
   loadContextFiles,
+  extractPathMentions,
   appendLearning,
   recordMemoryUsage,
   createLogger,
@@ -40,11 +61,24 @@ import {
   readJsonWithRecovery,
   logRecoveryWarning,
   DEFAULT_BACKUP_COUNT,
+  checkBudgetLimits,
+  checkBudgetWarning,
+  hasBudgetLimits,
+  formatBudgetExceeded,
+  getTotalTokens,
+  resolveRetryPolicy,
+  getRetryDecision,
+  applyAcceptanceJudgement,
+  buildReviewPrompt,
+  resolveReviewComments,
+  truncateToTokens,
+  type PromptSection,
 } from '@automaker/utils';
 
 const logger = createLogger('AutoMode');
 import { resolveModelString, resolvePhaseModel, DEFAULT_MODELS } from '@automaker/model-resolver';
 import { resolveDependencies, areDependenciesSatisfied } from '@automaker/dependency-resolver';
+import { getGitRepositoryDiffs } from '@automaker/git-utils';
 import {
   getFeatureDir,
   getAutomakerDir,
@@ -61,6 +95,7 @@ import {
   createAutoModeOptions,
   createCustomOptions,
   validateWorkingDirectory,
+  TOOL_PRESETS,
 } from '../lib/sdk-options.js';
 import { FeatureLoader } from './feature-loader.js';
 import type { SettingsService } from './settings-service.js';
@@ -73,7 +108,19 @@ import {
   getProviderByModelId,
   getPhaseModelWithOverrides,
 } from '../lib/settings-helpers.js';
+import {
+  fitPromptToModel,
+  contextFilesSection,
+  featureSection,
+  previousWorkSection,
+  instructionsSection,
+} from '../lib/prompt-budget.js';
 import { getNotificationService } from './notification-service.js';
+import { getFeatureUsageService } from './feature-usage-service.js';
+import { getFeaturePromptService } from './feature-prompt-service.js';
+import { getCheckpointService } from './checkpoint-service.js';
+import type { CreateCheckpointInput } from './checkpoint-service.js';
+import { getCompetitionService } from './competition-service.js';
 
 const execAsync = promisify(exec);
 
@@ -280,7 +327,7 @@ function detectSpecFallback(text: string): boolean {
  * @param text - The text content to extract summary from
  * @returns The extracted summary string, or null if no summary found
  */
-function extractSummary(text: string): string | null {
+export function extractSummary(text: string): string | null {
   // Helper to truncate content to first paragraph with max length
   const truncate = (content: string, maxLength: number): string => {
     const firstPara = content.split(/\n\n/)[0];
@@ -352,8 +399,80 @@ interface RunningFeature {
   leaseCount: number;
   model?: string;
   provider?: ModelProvider;
+  /** Set when the agent was aborted because a budget was exceeded */
+  budgetExceeded?: { scope: BudgetScope; exceeded: BudgetExceeded };
+  /** Set once a budget warning notification was sent for this run */
+  budgetWarned?: boolean;
+}
+
+/**
+ * Shared state for running the steps of one pipeline
+ */
+interface PipelineRunContext {
+  projectPath: string;
+  featureId: string;
+  feature: Feature;
+  workDir: string;
+  abortController: AbortController;
+  autoLoadClaudeMd: boolean;
+  contextPath: string;
+  /** Model steps start on; moves to the fallback model when one takes over */
+  model: string;
+  /** Tracks the model being tried by retries and fallbacks */
+  runningFeature: Pick<RunningFeature, 'abortController' | 'model' | 'provider'>;
+  taskExecutionPrompts: {
+    implementationInstructions: string;
+    playwrightVerificationInstructions: string;
+  };
+}
+
+/**
+ * Per-step counters kept across the stages of one pipeline run, so loop-backs
+ * that re-run earlier stages still stop after their allowed fix passes
+ */
+interface PipelineStageProgress {
+  /** Attempts made per step ID */
+  attempts: Map<string, number>;
+  /** Fix passes run per step ID */
+  fixPasses: Map<string, number>;
+}
+
+/**
+ * Shared state for running the candidates of one competition
+ */
+interface CompetitionRunContext {
+  projectPath: string;
+  feature: Feature;
+  competition: FeatureCompetition;
+  abortController: AbortController;
+  autoLoadClaudeMd: boolean;
+  contextFilesPrompt: string;
+  featurePrompt: string;
+  imagePaths?: string[];
+  testCommand?: string;
+  /** Persist the competition's current state on the feature */
+  saveCompetition: () => Promise<void>;
+}
+
+/**
+ * Outcome of a single attempt of a pipeline step
+ */
+interface PipelineStepOutcome {
+  passed: boolean;
+  /** Short description of the result, saved with the step result */
+  summary?: string;
+  /** Full failure output (command output, review findings) handed to fix passes */
+  details?: string;
+  /** Error thrown by the step, rethrown if the failure stops the pipeline */
+  error?: unknown;
 }
 
+/** Maximum characters of shell step output kept in agent-output.md and fix prompts */
+const MAX_PIPELINE_SHELL_OUTPUT_CHARS = 20000;
+
+/** Tokens of agent output sent to learning extraction */
+const LEARNING_EXTRACTION_OUTPUT_TOKENS = 2500;
+
 interface AutoLoopState {
   projectPath: string;
   maxConcurrency: number;
@@ -396,6 +515,11 @@ interface ProjectAutoLoopState {
   pausedDueToFailures: boolean;
   hasEmittedIdleEvent: boolean;
   branchName: string | null; // null = main worktree
+  startTime: number;
+  // Project usage when the loop started; the project budget is measured from here
+  usageAtStart: UsageTotals;
+  // Set once a project budget warning notification was sent for this loop
+  budgetWarned?: boolean;
 }
 
 /**
@@ -410,6 +534,8 @@ interface ExecutionState {
   branchName: string | null; // null = main worktree
   runningFeatureIds: string[];
   savedAt: string;
+  // Scheduler bookkeeping; kept when the auto loop stops so scheduled runs survive restarts
+  scheduler?: SchedulerState;
 }
 
 // Default empty execution state
@@ -439,6 +565,8 @@ export class AutoModeService {
   private autoLoopAbortController: AbortController | null = null;
   private config: AutoModeConfig | null = null;
   private pendingApprovals = new Map<string, PendingApproval>();
+  // Pending pipeline result writes per feature (parallel stage steps finish concurrently)
+  private pipelineResultWrites = new Map<string, Promise<void>>();
   private settingsService: SettingsService | null = null;
   // Track consecutive failures to detect quota/API issues (legacy global, now per-project in autoLoopsByProject)
   private consecutiveFailures: { timestamp: number; error: string }[] = [];
@@ -774,6 +902,464 @@ export class AutoModeService {
     this.consecutiveFailures = [];
   }
 
+  /**
+   * Load the budget settings for a project
+   * @param projectPath - The project to load budgets for
+   * @returns Budget settings, or undefined if none are configured
+   */
+  private async getBudgetSettings(projectPath: string): Promise<BudgetSettings | undefined> {
+    if (!this.settingsService) {
+      return undefined;
+    }
+
+    try {
+      const projectSettings = await this.settingsService.getProjectSettings(projectPath);
+      return projectSettings.budget;
+    } catch (error) {
+      logger.warn(`Failed to load budget settings for ${projectPath}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the retry policy for a project (project fields override global ones)
+   */
+  private async getRetryPolicy(projectPath: string): Promise<Required<RetryPolicy>> {
+    if (!this.settingsService) {
+      return resolveRetryPolicy();
+    }
+
+    try {
+      const [globalSettings, projectSettings] = await Promise.all([
+        this.settingsService.getGlobalSettings(),
+        this.settingsService.getProjectSettings(projectPath),
+      ]);
+      return resolveRetryPolicy(globalSettings.retryPolicy, projectSettings.retryPolicy);
+    } catch (error) {
+      logger.warn(`Failed to load retry policy for ${projectPath}:`, error);
+      return resolveRetryPolicy();
+    }
+  }
+
+  /**
+   * Run an agent for a feature under the project's retry policy
+   *
+   * Rate-limited attempts are retried on the same model after a backoff; when
+   * a model gives up (quota exhausted, authentication failed or rate limit
+   * retries used up) the next model of the fallback chain takes over. The
+   * running feature's model and provider follow the model being tried.
+   *
+   * @param attempt - Runs the agent on the given model; attempt is 0 for the first run
+   * @param primaryModel - Model to try first (defaults to the feature's model)
+   * @returns The model that completed the run
+   */
+  private async runAgentWithFallback(
+    projectPath: string,
+    feature: Pick<Feature, 'id' | 'model' | 'branchName'>,
+    runningFeature: Pick<RunningFeature, 'abortController' | 'model' | 'provider'>,
+    attempt: (model: string, attemptIndex: number) => Promise<void>,
+    primaryModel = resolveModelString(feature.model, DEFAULT_MODELS.claude)
+  ): Promise<string> {
+    const policy = await this.getRetryPolicy(projectPath);
+    const models = [primaryModel];
+    for (const fallback of policy.fallbackModels) {
+      const resolved = resolveModelString(fallback, DEFAULT_MODELS.claude);
+      if (!models.includes(resolved)) {
+        models.push(resolved);
+      }
+    }
+
+    let attemptIndex = 0;
+    for (let modelIndex = 0; modelIndex < models.length; modelIndex++) {
+      const model = models[modelIndex];
+      runningFeature.model = model;
+      runningFeature.provider = ProviderFactory.getProviderNameForModel(model);
+      let retries = 0;
+
+      for (;;) {
+        try {
+          await attempt(model, attemptIndex++);
+          return model;
+        } catch (error) {
+          if (runningFeature.abortController.signal.aborted) {
+            throw error;
+          }
+
+          const errorInfo = classifyError(error);
+          const decision = getRetryDecision(errorInfo, policy, retries);
+          const nextModel = models[modelIndex + 1];
+
+          if (decision.action === 'retry') {
+            retries++;
+            logger.warn(
+              `Feature ${feature.id} hit a rate limit on ${model}, retrying in ${decision.delayMs / 1000}s (retry ${retries}/${policy.maxRetries})`
+            );
+            this.emitAutoModeEvent('auto_mode_retry', {
+              featureId: feature.id,
+              projectPath,
+              branchName: feature.branchName ?? null,
+              model,
+              retry: retries,
+              maxRetries: policy.maxRetries,
+              delayMs: decision.delayMs,
+              errorType: errorInfo.type,
+              message: `Rate limited on ${model}, retrying in ${Math.round(decision.delayMs / 1000)}s`,
+            });
+            await this.sleep(decision.delayMs, runningFeature.abortController.signal);
+            continue;
+          }
+
+          if (decision.action === 'fallback' && nextModel) {
+            logger.warn(
+              `Feature ${feature.id} failed on ${model} (${errorInfo.type}), falling back to ${nextModel}`
+            );
+            this.emitAutoModeEvent('auto_mode_model_fallback', {
+              featureId: feature.id,
+              projectPath,
+              branchName: feature.branchName ?? null,
+              fromModel: model,
+              toModel: nextModel,
+              errorType: errorInfo.type,
+              message: `${errorInfo.message} - continuing on ${nextModel}`,
+            });
+            break;
+          }
+
+          throw error;
+        }
+      }
+    }
+
+    // Unreachable: the last model either returns or rethrows
+    throw new Error(`No model completed feature ${feature.id}`);
+  }
+
+  /**
+   * Check the project budget for an auto loop.
+   * Tokens and cost are measured from the project usage when the loop started,
+   * minutes from the loop start time.
+   * @param projectState - The auto loop to check
+   * @returns The exceeded limit, or null if within budget
+   */
+  private async checkProjectBudget(
+    projectState: ProjectAutoLoopState
+  ): Promise<BudgetExceeded | null> {
+    const budget = await this.getBudgetSettings(projectState.config.projectPath);
+    if (!hasBudgetLimits(budget?.project)) {
+      return null;
+    }
+
+    const { totals } = await getFeatureUsageService().getProjectUsage(
+      projectState.config.projectPath
+    );
+    const spend = {
+      tokens: getTotalTokens(totals) - getTotalTokens(projectState.usageAtStart),
+      costUsd: totals.costUsd - projectState.usageAtStart.costUsd,
+      minutes: (Date.now() - projectState.startTime) / 60000,
+    };
+    const exceeded = checkBudgetLimits(budget?.project, spend);
+
+    if (!exceeded && !projectState.budgetWarned) {
+      const reached = checkBudgetWarning(
+        budget?.project,
+        spend,
+        budget?.warnAtPercent ?? DEFAULT_BUDGET_WARN_PERCENT
+      );
+      if (reached) {
+        projectState.budgetWarned = true;
+        await this.notifyBudgetWarning(projectState.config.projectPath, reached);
+      }
+    }
+    return exceeded;
+  }
+
+  /**
+   * Let the user know a budget is nearly spent.
+   * @param projectPath - The project the budget belongs to
+   * @param reached - The limit that reached the warning threshold
+   * @param feature - The feature, for per-feature budgets
+   */
+  private async notifyBudgetWarning(
+    projectPath: string,
+    reached: BudgetExceeded,
+    feature?: { id: string; name: string }
+  ): Promise<void> {
+    const description = formatBudgetExceeded(reached);
+    logger.info(
+      `Budget warning for ${feature ? `feature ${feature.id}` : projectPath}: ${description}`
+    );
+    try {
+      await getNotificationService().createNotification({
+        type: 'budget_warning',
+        title: feature ? 'Feature Budget Nearly Spent' : 'Auto Mode Budget Nearly Spent',
+        message: feature
+          ? `"${feature.name}" is close to its budget: ${description}.`
+          : `Auto mode is close to its project budget: ${description}.`,
+        featureId: feature?.id,
+        projectPath,
+      });
+    } catch (error) {
+      logger.warn(`Failed to create budget warning notification for ${projectPath}:`, error);
+    }
+  }
+
+  /**
+   * Stop an auto loop whose project budget is spent.
+   * Running auto mode features of that loop's worktree are aborted and moved
+   * to 'budget_exceeded' by their own execution paths; loops on other
+   * worktrees keep running.
+   * @param projectState - The auto loop that exceeded its budget
+   * @param exceeded - The exceeded limit
+   */
+  private async handleProjectBudgetExceeded(
+    projectState: ProjectAutoLoopState,
+    exceeded: BudgetExceeded
+  ): Promise<void> {
+    const { projectPath, branchName } = projectState.config;
+    const description = formatBudgetExceeded(exceeded);
+    logger.info(`Project budget exceeded for ${projectPath}: ${description}`);
+
+    // Same worktree matching as getRunningCountForWorktree
+    const primaryBranch = branchName === null ? await getCurrentBranch(projectPath) : null;
+    for (const [, runningFeature] of this.runningFeatures) {
+      if (runningFeature.projectPath !== projectPath || !runningFeature.isAutoMode) continue;
+      const featureBranch = runningFeature.branchName ?? null;
+      const inLoopWorktree =
+        branchName === null
+          ? featureBranch === null || (!!primaryBranch && featureBranch === primaryBranch)
+          : featureBranch === branchName;
+      if (inLoopWorktree) {
+        this.abortForBudget(runningFeature, 'project', exceeded);
+      }
+    }
+
+    this.emitAutoModeEvent('auto_mode_budget_exceeded', {
+      message: `Auto Mode stopped: project budget exceeded (${description})`,
+      scope: 'project',
+      limit: exceeded.limit,
+      limitValue: exceeded.limitValue,
+      actual: exceeded.actual,
+      projectPath,
+      branchName,
+    });
+
+    try {
+      await getNotificationService().createNotification({
+        type: 'budget_exceeded',
+        title: 'Auto Mode Budget Exceeded',
+        message: `Auto mode was stopped: ${description}.`,
+        projectPath,
+      });
+    } catch (error) {
+      logger.warn(`Failed to create budget notification for ${projectPath}:`, error);
+    }
+
+    await this.stopAutoLoopForProject(projectPath, branchName);
+  }
+
+  /**
+   * Start a timer that aborts a feature once it has run for the
+   * per-feature minute budget.
+   * @param runningFeature - The running feature to time
+   * @param budget - Budget settings for the project
+   * @returns The timer, or null if no minute budget is configured
+   */
+  private startFeatureBudgetTimer(
+    runningFeature: RunningFeature,
+    budget: BudgetSettings | undefined
+  ): NodeJS.Timeout | null {
+    const maxMinutes = budget?.feature?.maxMinutes;
+    if (typeof maxMinutes !== 'number' || maxMinutes <= 0) {
+      return null;
+    }
+
+    const remainingMs = Math.max(0, maxMinutes * 60000 - (Date.now() - runningFeature.startTime));
+    return setTimeout(() => {
+      this.abortForBudget(runningFeature, 'feature', {
+        limit: 'minutes',
+        limitValue: maxMinutes,
+        actual: (Date.now() - runningFeature.startTime) / 60000,
+      });
+    }, remainingMs);
+  }
+
+  /**
+   * Check a running feature against its token and cost budget after new usage
+   * was recorded, aborting the agent if it is exceeded.
+   * @param projectPath - The project the feature belongs to
+   * @param featureId - The feature that reported usage
+   * @param totals - The feature's lifetime usage totals
+   */
+  private async enforceFeatureBudget(
+    projectPath: string,
+    featureId: string,
+    totals: UsageTotals
+  ): Promise<void> {
+    const runningFeature = this.runningFeatures.get(featureId);
+    if (!runningFeature || runningFeature.budgetExceeded) {
+      return;
+    }
+
+    const budget = await this.getBudgetSettings(projectPath);
+    const spend = {
+      tokens: getTotalTokens(totals),
+      costUsd: totals.costUsd,
+      minutes: (Date.now() - runningFeature.startTime) / 60000,
+    };
+    const exceeded = checkBudgetLimits(budget?.feature, spend);
+    if (exceeded) {
+      this.abortForBudget(runningFeature, 'feature', exceeded);
+      return;
+    }
+
+    if (!runningFeature.budgetWarned) {
+      const reached = checkBudgetWarning(
+        budget?.feature,
+        spend,
+        budget?.warnAtPercent ?? DEFAULT_BUDGET_WARN_PERCENT
+      );
+      if (reached) {
+        runningFeature.budgetWarned = true;
+        const feature = await this.featureLoader.get(projectPath, featureId).catch(() => null);
+        await this.notifyBudgetWarning(projectPath, reached, {
+          id: featureId,
+          name: feature?.title || featureId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Abort a running feature because a budget was exceeded.
+   * The first budget to trip is the one reported.
+   */
+  private abortForBudget(
+    runningFeature: RunningFeature,
+    scope: BudgetScope,
+    exceeded: BudgetExceeded
+  ): void {
+    if (runningFeature.budgetExceeded) {
+      return;
+    }
+    logger.info(
+      `Aborting feature ${runningFeature.featureId}: ${scope} budget exceeded (${formatBudgetExceeded(exceeded)})`
+    );
+    runningFeature.budgetExceeded = { scope, exceeded };
+    runningFeature.abortController.abort();
+  }
+
+  /**
+   * Move a feature to 'budget_exceeded' after its agent was stopped for
+   * exceeding a budget, and let the user know.
+   * @param projectPath - The project the feature belongs to
+   * @param feature - The feature that was stopped
+   * @param runningFeature - The running entry carrying the exceeded budget
+   */
+  private async handleFeatureBudgetExceeded(
+    projectPath: string,
+    feature: Feature,
+    runningFeature: RunningFeature
+  ): Promise<void> {
+    if (!runningFeature.budgetExceeded) {
+      return;
+    }
+    const { scope, exceeded } = runningFeature.budgetExceeded;
+    const description = formatBudgetExceeded(exceeded);
+    const featureName = feature.title || feature.id;
+
+    await this.updateFeatureStatus(projectPath, feature.id, 'budget_exceeded');
+
+    this.emitAutoModeEvent('auto_mode_feature_complete', {
+      featureId: feature.id,
+      featureName: feature.title,
+      branchName: feature.branchName ?? null,
+      passes: false,
+      message: `Feature stopped: ${scope} budget exceeded (${description})`,
+      projectPath,
+    });
+
+    // Project budgets are reported once by handleProjectBudgetExceeded
+    if (scope !== 'feature') {
+      return;
+    }
+
+    this.emitAutoModeEvent('auto_mode_budget_exceeded', {
+      featureId: feature.id,
+      featureName: feature.title,
+      branchName: feature.branchName ?? null,
+      message: `Feature stopped: budget exceeded (${description})`,
+      scope,
+      limit: exceeded.limit,
+      limitValue: exceeded.limitValue,
+      actual: exceeded.actual,
+      projectPath,
+    });
+
+    try {
+      await getNotificationService().createNotification({
+        type: 'budget_exceeded',
+        title: 'Feature Budget Exceeded',
+        message: `"${featureName}" was stopped: ${description}.`,
+        featureId: feature.id,
+        projectPath,
+      });
+    } catch (error) {
+      logger.warn(`Failed to create budget notification for feature ${feature.id}:`, error);
+    }
+  }
+
+  /**
+   * Let the user know a feature failed.
+   * @param projectPath - The project the feature belongs to
+   * @param featureId - The feature that failed
+   * @param featureName - The feature title, if known
+   * @param error - What went wrong
+   */
+  private async notifyFeatureFailed(
+    projectPath: string,
+    featureId: string,
+    featureName: string | undefined,
+    error: string
+  ): Promise<void> {
+    try {
+      await getNotificationService().createNotification({
+        type: 'feature_failed',
+        title: 'Feature Failed',
+        message: `"${featureName || featureId}" failed: ${error}`,
+        featureId,
+        projectPath,
+      });
+    } catch (notifyError) {
+      logger.warn(`Failed to create failure notification for feature ${featureId}:`, notifyError);
+    }
+  }
+
+  /**
+   * Let the user know a plan is waiting for approval.
+   * @param projectPath - The project the feature belongs to
+   * @param featureId - The feature whose plan needs approval
+   * @param planVersion - Plan revision number
+   */
+  private async notifyPlanApprovalRequired(
+    projectPath: string,
+    featureId: string,
+    planVersion: number
+  ): Promise<void> {
+    try {
+      const feature = await this.featureLoader.get(projectPath, featureId).catch(() => null);
+      const revision = planVersion > 1 ? ` (revision ${planVersion})` : '';
+      await getNotificationService().createNotification({
+        type: 'plan_approval_required',
+        title: 'Plan Approval Required',
+        message: `The plan for "${feature?.title || featureId}"${revision} is waiting for your approval.`,
+        featureId,
+        projectPath,
+      });
+    } catch (error) {
+      logger.warn(`Failed to create plan approval notification for feature ${featureId}:`, error);
+    }
+  }
+
   private async resolveMaxConcurrency(
     projectPath: string,
     branchName: string | null,
@@ -852,6 +1438,7 @@ export class AutoModeService {
       branchName,
     };
 
+    const projectUsage = await getFeatureUsageService().getProjectUsage(projectPath);
     const projectState: ProjectAutoLoopState = {
       abortController,
       config,
@@ -860,6 +1447,8 @@ export class AutoModeService {
       pausedDueToFailures: false,
       hasEmittedIdleEvent: false,
       branchName,
+      startTime: Date.now(),
+      usageAtStart: projectUsage.totals,
     };
 
     this.autoLoopsByProject.set(worktreeKey, projectState);
@@ -925,6 +1514,13 @@ export class AutoModeService {
     while (projectState.isRunning && !projectState.abortController.signal.aborted) {
       iterationCount++;
       try {
+        // Stop the loop (and its running agents) once the project budget is spent
+        const projectBudgetExceeded = await this.checkProjectBudget(projectState);
+        if (projectBudgetExceeded) {
+          await this.handleProjectBudgetExceeded(projectState, projectBudgetExceeded);
+          break;
+        }
+
         // Count running features for THIS project/worktree only
         const projectRunningCount = await this.getRunningCountForWorktree(projectPath, branchName);
 
@@ -1131,6 +1727,7 @@ export class AutoModeService {
         .filter(([, f]) => f.projectPath === projectPath)
         .map(([id]) => id);
 
+      const { scheduler } = await this.loadExecutionState(projectPath);
       const state: ExecutionState = {
         version: 1,
         autoLoopWasRunning: true,
@@ -1139,6 +1736,7 @@ export class AutoModeService {
         branchName,
         runningFeatureIds,
         savedAt: new Date().toISOString(),
+        scheduler,
       };
       await secureFs.writeFile(statePath, JSON.stringify(state, null, 2), 'utf-8');
       const worktreeDesc = branchName ? `worktree ${branchName}` : 'main worktree';
@@ -1347,6 +1945,8 @@ export class AutoModeService {
     providedWorktreePath?: string,
     options?: {
       continuationPrompt?: string;
+      /** Earlier agent output to resume from (resumeFeatureTemplate is used as the prompt) */
+      resumeContext?: string;
       /** Internal flag: set to true when called from a method that already tracks the feature */
       _calledInternally?: boolean;
     }
@@ -1365,6 +1965,8 @@ export class AutoModeService {
     }
     // Declare feature outside try block so it's available in catch for error reporting
     let feature: Awaited<ReturnType<typeof this.loadFeature>> | null = null;
+    // Only the outermost call enforces the feature budget; internal calls share its entry
+    let budgetTimer: NodeJS.Timeout | null = null;
 
     try {
       // Validate that project path is allowed using centralized validation
@@ -1376,9 +1978,29 @@ export class AutoModeService {
         throw new Error(`Feature ${featureId} not found`);
       }
 
+      if (!options?._calledInternally) {
+        // Don't start a feature that has already spent its budget
+        const budget = await this.getBudgetSettings(projectPath);
+        const usage = await getFeatureUsageService().getFeatureUsage(projectPath, featureId);
+        const exceeded = usage
+          ? checkBudgetLimits(budget?.feature, {
+              tokens: getTotalTokens(usage.totals),
+              costUsd: usage.totals.costUsd,
+              minutes: 0,
+            })
+          : null;
+        if (exceeded) {
+          tempRunningFeature.budgetExceeded = { scope: 'feature', exceeded };
+          await this.handleFeatureBudgetExceeded(projectPath, feature, tempRunningFeature);
+          return;
+        }
+        budgetTimer = this.startFeatureBudgetTimer(tempRunningFeature, budget);
+      }
+
       // Check if feature has existing context - if so, resume instead of starting fresh
-      // Skip this check if we're already being called with a continuation prompt (from resumeFeature)
-      if (!options?.continuationPrompt) {
+      // Skip this check if we're already being called with a continuation prompt or
+      // resume context (from resumeFeature)
+      if (!options?.continuationPrompt && options?.resumeContext === undefined) {
         // If feature has an approved plan but we don't have a continuation prompt yet,
         // we should build one to ensure it proceeds with multi-agent execution
         if (feature.planSpec?.status === 'approved') {
@@ -1472,16 +2094,26 @@ export class AutoModeService {
       // Get customized prompts from settings
       const prompts = await getPromptCustomization(this.settingsService, '[AutoMode]');
 
-      // Build the prompt - use continuation prompt if provided (for recovery after plan approval)
-      let prompt: string;
       // Load project context files (CLAUDE.md, CODE_QUALITY.md, etc.) and memory files
-      // Context loader uses task context to select relevant memory files
+      // Context loader uses task context to select relevant memory files and scoped context files.
+      // The system prompt only reaches the first query, which plans first when planning is on
+      // (and implements too unless the plan needs approval)
+      const resuming =
+        options?.continuationPrompt !== undefined || options?.resumeContext !== undefined;
+      const plansFirst = !resuming && !!feature.planningMode && feature.planningMode !== 'skip';
       const contextResult = await loadContextFiles({
         projectPath,
         fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
         taskContext: {
           title: feature.title ?? '',
           description: feature.description ?? '',
+          category: feature.category,
+          agentTypes: !plansFirst
+            ? ['implementation']
+            : feature.requirePlanApproval
+              ? ['planning']
+              : ['planning', 'implementation'],
+          changedPaths: await this.getFeaturePaths(feature, workDir),
         },
       });
 
@@ -1490,16 +2122,43 @@ export class AutoModeService {
       // Note: contextResult.formattedPrompt now includes both context AND memory
       const combinedSystemPrompt = filterClaudeMdFromContext(contextResult, autoLoadClaudeMd);
 
+      // Get model from feature and determine provider
+      const model = resolveModelString(feature.model, DEFAULT_MODELS.claude);
+
+      // Build the prompt - use continuation prompt if provided (for recovery after plan approval).
+      // Context files, the feature and earlier agent output are fitted into the model's
+      // context window; instructions are always sent in full.
+      const promptSections: PromptSection[] = [contextFilesSection(combinedSystemPrompt)];
+      let assemblePrompt: (contents: Record<string, string>) => string;
       if (options?.continuationPrompt) {
         // Continuation prompt is used when recovering from a plan approval
         // The plan was already approved, so skip the planning phase
-        prompt = options.continuationPrompt;
+        promptSections.push(
+          instructionsSection('continuation', 'Continuation prompt', options.continuationPrompt)
+        );
+        assemblePrompt = (contents) => contents['continuation'];
         logger.info(`Using continuation prompt for feature ${featureId}`);
+      } else if (options?.resumeContext !== undefined) {
+        // Resuming an interrupted run: the agent continues from its earlier output
+        const template = prompts.taskExecution.resumeFeatureTemplate;
+        promptSections.push(
+          featureSection(this.buildFeaturePrompt(feature, prompts.taskExecution)),
+          previousWorkSection(options.resumeContext),
+          instructionsSection('resume', 'Resume instructions', template)
+        );
+        assemblePrompt = (contents) =>
+          template
+            .replace(/\{\{featurePrompt\}\}/g, contents['feature'])
+            .replace(/\{\{previousContext\}\}/g, contents['previous-work']);
+        logger.info(`Resuming feature ${featureId} from its previous output`);
       } else {
         // Normal flow: build prompt with planning phase
-        const featurePrompt = this.buildFeaturePrompt(feature, prompts.taskExecution);
         const planningPrefix = await this.getPlanningPromptPrefix(feature);
-        prompt = planningPrefix + featurePrompt;
+        promptSections.push(
+          instructionsSection('planning', 'Planning instructions', planningPrefix),
+          featureSection(this.buildFeaturePrompt(feature, prompts.taskExecution))
+        );
+        assemblePrompt = (contents) => contents['planning'] + contents['feature'];
 
         // Emit planning mode info
         if (feature.planningMode && feature.planningMode !== 'skip') {
@@ -1510,14 +2169,17 @@ export class AutoModeService {
           });
         }
       }
+      const { contents: promptContents, budget: promptBudget } = fitPromptToModel(
+        model,
+        promptSections
+      );
+      const prompt = assemblePrompt(promptContents);
 
       // Extract image paths from feature
       const imagePaths = feature.imagePaths?.map((img) =>
         typeof img === 'string' ? img : img.path
       );
 
-      // Get model from feature and determine provider
-      const model = resolveModelString(feature.model, DEFAULT_MODELS.claude);
       const provider = ProviderFactory.getProviderNameForModel(model);
       logger.info(
         `Executing feature ${featureId} with model: ${model}, provider: ${provider} in ${workDir}`
@@ -1527,26 +2189,40 @@ export class AutoModeService {
       tempRunningFeature.model = model;
       tempRunningFeature.provider = provider;
 
-      // Run the agent with the feature's model and images
+      // Run the agent with the feature's model and images, retrying and falling
+      // back to other models as configured by the retry policy.
       // Context files are passed as system prompt for higher priority
-      await this.runAgent(
-        workDir,
-        featureId,
-        prompt,
-        abortController,
+      const contextPath = path.join(getFeatureDir(projectPath, featureId), 'agent-output.md');
+      const { planningMode, requirePlanApproval, thinkingLevel } = feature;
+      const completedModel = await this.runAgentWithFallback(
         projectPath,
-        imagePaths,
-        model,
-        {
-          projectPath,
-          planningMode: feature.planningMode,
-          requirePlanApproval: feature.requirePlanApproval,
-          systemPrompt: combinedSystemPrompt || undefined,
-          autoLoadClaudeMd,
-          thinkingLevel: feature.thinkingLevel,
-          branchName: feature.branchName ?? null,
-        }
+        feature,
+        tempRunningFeature,
+        async (attemptModel, attempt) =>
+          this.runAgent(
+            workDir,
+            featureId,
+            prompt,
+            abortController,
+            projectPath,
+            imagePaths,
+            attemptModel,
+            {
+              projectPath,
+              planningMode,
+              requirePlanApproval,
+              // Later attempts continue the log of the failed ones
+              previousContent: attempt > 0 ? await this.readAgentOutput(contextPath) : undefined,
+              systemPrompt: promptContents['context-files'] || undefined,
+              autoLoadClaudeMd,
+              thinkingLevel,
+              branchName: branchName ?? null,
+              promptLabel: plansFirst ? 'Planning' : undefined,
+              promptBudget,
+            }
+          )
       );
+      await this.updateFeaturePipelineState(projectPath, featureId, { completedModel });
 
       // Check for pipeline steps and execute them
       const pipelineConfig = await pipelineService.getPipelineConfig(projectPath);
@@ -1557,25 +2233,47 @@ export class AutoModeService {
         .filter((step) => !excludedStepIds.has(step.id));
 
       if (sortedSteps.length > 0) {
-        // Execute pipeline steps sequentially
-        await this.executePipelineSteps(
+        // Start the pipeline with a clean slate of step results
+        await this.updateFeaturePipelineState(projectPath, featureId, {
+          pipelineResults: [],
+          error: undefined,
+        });
+
+        // Execute pipeline steps sequentially, on the model that finished the implementation
+        const failedStep = await this.executePipelineSteps(
           projectPath,
           featureId,
           feature,
           sortedSteps,
           workDir,
           abortController,
-          autoLoadClaudeMd
+          autoLoadClaudeMd,
+          completedModel
         );
+        if (failedStep) {
+          await this.handlePipelineStepFailed(projectPath, feature, failedStep);
+          return;
+        }
+      }
+
+      // A budget can be exceeded by the final usage report of a run that otherwise succeeded
+      if (abortController.signal.aborted) {
+        throw new Error('Feature execution aborted');
       }
 
       // Determine final status based on testing mode:
       // - skipTests=false (automated testing): go directly to 'verified' (no manual verify needed)
       // - skipTests=true (manual verification): go to 'waiting_approval' for manual review
-      const finalStatus = feature.skipTests ? 'waiting_approval' : 'verified';
-      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
-
-      // Record success to reset consecutive failure tracking
+      // Either way, acceptance criteria are judged first and must all pass to verify
+      const finalStatus = await this.getCompletionStatus(
+        projectPath,
+        feature,
+        workDir,
+        abortController
+      );
+      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
+
+      // Record success to reset consecutive failure tracking
       this.recordSuccess();
 
       // Record learnings, memory usage, and extract summary after successful feature completion
@@ -1632,7 +2330,9 @@ export class AutoModeService {
     } catch (error) {
       const errorInfo = classifyError(error);
 
-      if (errorInfo.isAbort) {
+      if (tempRunningFeature.budgetExceeded && feature) {
+        await this.handleFeatureBudgetExceeded(projectPath, feature, tempRunningFeature);
+      } else if (errorInfo.isAbort) {
         this.emitAutoModeEvent('auto_mode_feature_complete', {
           featureId,
           featureName: feature?.title,
@@ -1652,6 +2352,7 @@ export class AutoModeService {
           errorType: errorInfo.type,
           projectPath,
         });
+        await this.notifyFeatureFailed(projectPath, featureId, feature?.title, errorInfo.message);
 
         // Track this failure and check if we should pause auto mode
         // This handles both specific quota/rate limit errors AND generic failures
@@ -1669,6 +2370,9 @@ export class AutoModeService {
         }
       }
     } finally {
+      if (budgetTimer) {
+        clearTimeout(budgetTimer);
+      }
       logger.info(`Feature ${featureId} execution ended, cleaning up runningFeatures`);
       logger.info(
         `Pending approvals at cleanup: ${Array.from(this.pendingApprovals.keys()).join(', ') || 'none'}`
@@ -1684,6 +2388,13 @@ export class AutoModeService {
 
   /**
    * Execute pipeline steps sequentially after initial feature implementation
+   *
+   * Steps whose conditions don't match the feature are skipped. A failed step is
+   * handled by its onFailure policy: retried, looped back to implementation with
+   * the failure output, recorded and passed over, or allowed to stop the pipeline.
+   *
+   * @returns The result of the step that stopped the pipeline, or null if the
+   *   pipeline ran to completion
    */
   private async executePipelineSteps(
     projectPath: string,
@@ -1692,1055 +2403,2823 @@ export class AutoModeService {
     steps: PipelineStep[],
     workDir: string,
     abortController: AbortController,
-    autoLoadClaudeMd: boolean
-  ): Promise<void> {
+    autoLoadClaudeMd: boolean,
+    model?: string
+  ): Promise<PipelineStepResult | null> {
     logger.info(`Executing ${steps.length} pipeline step(s) for feature ${featureId}`);
 
     // Get customized prompts from settings
     const prompts = await getPromptCustomization(this.settingsService, '[AutoMode]');
 
-    // Load context files once with feature context for smart memory selection
-    const contextResult = await loadContextFiles({
+    const run: PipelineRunContext = {
       projectPath,
-      fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
-      taskContext: {
-        title: feature.title ?? '',
-        description: feature.description ?? '',
-      },
-    });
-    const contextFilesPrompt = filterClaudeMdFromContext(contextResult, autoLoadClaudeMd);
+      featureId,
+      feature,
+      workDir,
+      abortController,
+      autoLoadClaudeMd,
+      contextPath: path.join(getFeatureDir(projectPath, featureId), 'agent-output.md'),
+      model: model ?? resolveModelString(feature.model, DEFAULT_MODELS.claude),
+      runningFeature: this.runningFeatures.get(featureId) ?? { abortController },
+      taskExecutionPrompts: prompts.taskExecution,
+    };
 
-    // Load previous agent output for context continuity
-    const featureDir = getFeatureDir(projectPath, featureId);
-    const contextPath = path.join(featureDir, 'agent-output.md');
-    let previousContext = '';
-    try {
-      previousContext = (await secureFs.readFile(contextPath, 'utf-8')) as string;
-    } catch {
-      // No previous context
-    }
+    // Only ask git for changed files when a step is conditional on them
+    const changedFiles = steps.some((step) => step.conditions?.changedFiles?.length)
+      ? await this.getChangedFiles(workDir)
+      : [];
 
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i];
-      const pipelineStatus = `pipeline_${step.id}`;
+    const stages = pipelineService.groupStepsIntoStages(steps);
+    // Fixes can break what earlier checks verified, so after one the pipeline
+    // goes back to its first gating (shell-command or review) stage
+    const firstGatingStage = stages.findIndex((stage) =>
+      stage.steps.some((step) => pipelineService.getStepType(step) !== 'agent-prompt')
+    );
+    const membersByStage = new Map<number, PipelineStep[]>();
+    const progress: PipelineStageProgress = { attempts: new Map(), fixPasses: new Map() };
 
-      // Update feature status to current pipeline step
-      await this.updateFeatureStatus(projectPath, featureId, pipelineStatus);
+    for (let stageIndex = 0; stageIndex < stages.length; stageIndex++) {
+      const stage = stages[stageIndex];
 
-      this.emitAutoModeEvent('auto_mode_progress', {
-        featureId,
-        branchName: feature.branchName ?? null,
-        content: `Starting pipeline step ${i + 1}/${steps.length}: ${step.name}`,
-        projectPath,
+      // Check for abort (e.g. budget exceeded by the previous step)
+      if (abortController.signal.aborted) {
+        throw new Error('Feature execution aborted');
+      }
+
+      // Conditions are evaluated (and skips recorded) once, not on every loop-back
+      let members = membersByStage.get(stageIndex);
+      if (!members) {
+        members = await this.getApplicablePipelineSteps(stage, steps, changedFiles, run);
+        membersByStage.set(stageIndex, members);
+      }
+      if (members.length === 0) {
+        continue;
+      }
+
+      const { failed, fixed } = await this.runPipelineStage(
+        stage,
+        members,
+        stageIndex,
+        stages.length,
+        steps,
+        run,
+        progress
+      );
+      if (failed) {
+        return failed;
+      }
+      if (fixed) {
+        const restartIndex =
+          firstGatingStage === -1 ? stageIndex : Math.min(firstGatingStage, stageIndex);
+        logger.info(
+          `Re-running pipeline for feature ${featureId} from stage ${stages[restartIndex].name} after a fix pass`
+        );
+        stageIndex = restartIndex - 1;
+      }
+    }
+
+    logger.info(`All pipeline steps completed for feature ${featureId}`);
+    return null;
+  }
+
+  /**
+   * Evaluate the conditions of a stage's steps, recording the skipped ones
+   *
+   * @returns The steps that apply to the feature
+   */
+  private async getApplicablePipelineSteps(
+    stage: PipelineStage,
+    steps: PipelineStep[],
+    changedFiles: string[],
+    run: PipelineRunContext
+  ): Promise<PipelineStep[]> {
+    const { projectPath, featureId, feature } = run;
+    const members: PipelineStep[] = [];
+    for (const step of stage.steps) {
+      const { applies, reason } = pipelineService.evaluateStepConditions(step, {
+        category: feature.category,
+        labels: feature.labels,
+        changedFiles,
       });
+      if (applies) {
+        members.push(step);
+        continue;
+      }
 
-      this.emitAutoModeEvent('pipeline_step_started', {
+      logger.info(`Skipping pipeline step ${step.name} for feature ${featureId}: ${reason}`);
+      await this.savePipelineStepResult(projectPath, featureId, {
+        stepId: step.id,
+        stepName: step.name,
+        type: pipelineService.getStepType(step),
+        verdict: 'skipped',
+        attempts: 0,
+        summary: reason,
+        stage: stage.steps.length > 1 ? stage.name : undefined,
+        completedAt: new Date().toISOString(),
+      });
+      this.emitAutoModeEvent('pipeline_step_skipped', {
         featureId,
         stepId: step.id,
         stepName: step.name,
-        stepIndex: i,
+        stepIndex: steps.indexOf(step),
         totalSteps: steps.length,
+        reason,
         projectPath,
       });
+    }
+    return members;
+  }
 
-      // Build prompt for this pipeline step
-      const prompt = this.buildPipelineStepPrompt(
-        step,
-        feature,
-        previousContext,
-        prompts.taskExecution
+  /**
+   * Run the applicable steps of one pipeline stage
+   *
+   * Members of a parallel stage run at the same time, each writing its own
+   * output file, and their outputs are merged into agent-output.md once they
+   * have all finished. Members that fail with a loop-back policy share a single
+   * fix pass; the caller then re-runs the pipeline from its first gating stage.
+   *
+   * @returns The result of the member that stops the pipeline (if any), and
+   *   whether a fix pass ran
+   */
+  private async runPipelineStage(
+    stage: PipelineStage,
+    members: PipelineStep[],
+    stageIndex: number,
+    totalStages: number,
+    steps: PipelineStep[],
+    run: PipelineRunContext,
+    progress: PipelineStageProgress
+  ): Promise<{ failed: PipelineStepResult | null; fixed: boolean }> {
+    const { projectPath, featureId } = run;
+    const parallel = members.length > 1;
+    const stageName = stage.steps.length > 1 ? stage.name : undefined;
+    const { attempts, fixPasses } = progress;
+    const outcomes = new Map<string, PipelineStepOutcome>();
+    const results = new Map<string, PipelineStepResult>();
+
+    if (parallel) {
+      logger.info(
+        `Running pipeline stage ${stage.name} for feature ${featureId} with ${members.length} parallel steps`
       );
-
-      // Get model from feature
-      const model = resolveModelString(feature.model, DEFAULT_MODELS.claude);
-
-      // Run the agent for this pipeline step
-      await this.runAgent(
-        workDir,
+      await this.updateFeaturePipelineState(projectPath, featureId, {
+        pipelineStage: {
+          name: stage.name,
+          steps: members.map((step) => ({ stepId: step.id, stepName: step.name })),
+          startedAt: new Date().toISOString(),
+        },
+      });
+      this.emitAutoModeEvent('pipeline_stage_started', {
         featureId,
-        prompt,
-        abortController,
+        stageId: stage.id,
+        stageName: stage.name,
+        stageIndex,
+        totalStages,
+        stepIds: members.map((step) => step.id),
         projectPath,
-        undefined, // no images for pipeline steps
-        model,
-        {
-          projectPath,
-          planningMode: 'skip', // Pipeline steps don't need planning
-          requirePlanApproval: false,
-          previousContent: previousContext,
-          systemPrompt: contextFilesPrompt || undefined,
-          autoLoadClaudeMd,
-          thinkingLevel: feature.thinkingLevel,
-        }
+      });
+    }
+
+    await this.createFeatureCheckpoint(projectPath, featureId, run.workDir, {
+      kind: 'pipeline_step',
+      label: parallel
+        ? `Before pipeline stage "${stage.name}"`
+        : `Before pipeline step "${members[0].name}"`,
+      stepId: members[0].id,
+      featureStatus: `pipeline_${members[0].id}`,
+      agentOutput: await this.readAgentOutput(run.contextPath),
+    });
+
+    let fixed = false;
+    try {
+      // A parallel stage shows in the column of its first member
+      await this.updateFeatureStatus(projectPath, featureId, `pipeline_${members[0].id}`);
+
+      const settled = await Promise.allSettled(
+        members.map((step) =>
+          this.runPipelineStepWithRetries(step, steps, stageName, attempts.get(step.id) ?? 0, {
+            run,
+            outputPath: parallel ? this.getPipelineStepOutputPath(run, step.id) : run.contextPath,
+          })
+        )
+      );
+      const rejected = settled.find(
+        (entry): entry is PromiseRejectedResult => entry.status === 'rejected'
       );
+      if (rejected) {
+        throw rejected.reason;
+      }
+      for (const entry of settled as PromiseFulfilledResult<{
+        outcome: PipelineStepOutcome;
+        result: PipelineStepResult;
+      }>[]) {
+        const { outcome, result } = entry.value;
+        outcomes.set(result.stepId, outcome);
+        results.set(result.stepId, result);
+        attempts.set(result.stepId, result.attempts);
+      }
 
-      // Load updated context for next step
-      try {
-        previousContext = (await secureFs.readFile(contextPath, 'utf-8')) as string;
-      } catch {
-        // No context update
+      if (parallel) {
+        await this.mergePipelineStageOutputs(stage, members, run);
+      }
+
+      const toFix = members.filter((step) => {
+        const policy = pipelineService.getFailurePolicy(step);
+        return (
+          !outcomes.get(step.id)?.passed &&
+          policy.action === 'loop-back' &&
+          (fixPasses.get(step.id) ?? 0) < policy.maxAttempts
+        );
+      });
+      if (toFix.length > 0) {
+        for (const step of toFix) {
+          fixPasses.set(step.id, (fixPasses.get(step.id) ?? 0) + 1);
+        }
+        await this.runPipelineFixPass(
+          toFix.map((step) => ({
+            step,
+            outcome: outcomes.get(step.id)!,
+            pass: fixPasses.get(step.id)!,
+            maxPasses: pipelineService.getFailurePolicy(step).maxAttempts,
+          })),
+          run
+        );
+        fixed = true;
+      }
+    } finally {
+      if (parallel) {
+        await this.updateFeaturePipelineState(projectPath, featureId, {
+          pipelineStage: undefined,
+        });
       }
+    }
 
-      this.emitAutoModeEvent('pipeline_step_complete', {
+    if (parallel) {
+      this.emitAutoModeEvent('pipeline_stage_complete', {
         featureId,
-        stepId: step.id,
-        stepName: step.name,
-        stepIndex: i,
-        totalSteps: steps.length,
+        stageId: stage.id,
+        stageName: stage.name,
+        stageIndex,
+        totalStages,
+        passed: members.every((step) => outcomes.get(step.id)?.passed),
         projectPath,
       });
+    }
 
-      logger.info(
-        `Pipeline step ${i + 1}/${steps.length} (${step.name}) completed for feature ${featureId}`
-      );
+    if (fixed) {
+      return { failed: null, fixed: true };
     }
 
-    logger.info(`All pipeline steps completed for feature ${featureId}`);
+    for (const step of members) {
+      const outcome = outcomes.get(step.id)!;
+      if (outcome.passed) {
+        continue;
+      }
+      if (pipelineService.getFailurePolicy(step).action === 'continue') {
+        logger.info(`Continuing past failed pipeline step ${step.name} for feature ${featureId}`);
+        continue;
+      }
+      // Errors from the step itself (provider failures etc.) fail the feature as before
+      if (outcome.error) {
+        throw outcome.error;
+      }
+      return { failed: results.get(step.id)!, fixed: false };
+    }
+
+    return { failed: null, fixed: false };
   }
 
   /**
-   * Build the prompt for a pipeline step
+   * Run a pipeline step, retrying it if its failure policy allows, and record the result
    */
-  private buildPipelineStepPrompt(
+  private async runPipelineStepWithRetries(
     step: PipelineStep,
-    feature: Feature,
-    previousContext: string,
-    taskExecutionPrompts: {
-      implementationInstructions: string;
-      playwrightVerificationInstructions: string;
-    }
-  ): string {
-    let prompt = `## Pipeline Step: ${step.name}
-
-This is an automated pipeline step following the initial feature implementation.
+    steps: PipelineStep[],
+    stageName: string | undefined,
+    previousAttempts: number,
+    target: { run: PipelineRunContext; outputPath: string }
+  ): Promise<{ outcome: PipelineStepOutcome; result: PipelineStepResult }> {
+    const { run, outputPath } = target;
+    const { projectPath, featureId, feature } = run;
+    const policy = pipelineService.getFailurePolicy(step);
+    const stepIndex = steps.indexOf(step);
+    let attempts = previousAttempts;
+    let retries = 0;
+    let outcome: PipelineStepOutcome;
+
+    for (;;) {
+      attempts++;
+
+      if (run.abortController.signal.aborted) {
+        throw new Error('Feature execution aborted');
+      }
 
-### Feature Context
-${this.buildFeaturePrompt(feature, taskExecutionPrompts)}
+      this.emitAutoModeEvent('auto_mode_progress', {
+        featureId,
+        branchName: feature.branchName ?? null,
+        content: `Starting pipeline step ${stepIndex + 1}/${steps.length}: ${step.name}${
+          attempts > 1 ? ` (attempt ${attempts})` : ''
+        }`,
+        projectPath,
+      });
 
-`;
+      this.emitAutoModeEvent('pipeline_step_started', {
+        featureId,
+        stepId: step.id,
+        stepName: step.name,
+        stepIndex,
+        totalSteps: steps.length,
+        stageName,
+        attempt: attempts,
+        projectPath,
+      });
 
-    if (previousContext) {
-      prompt += `### Previous Work
-The following is the output from the previous work on this feature:
+      outcome = await this.runPipelineStep(step, run, outputPath);
+      if (outcome.passed) {
+        break;
+      }
 
-${previousContext}
+      logger.warn(
+        `Pipeline step ${step.name} failed for feature ${featureId} (attempt ${attempts}): ${outcome.summary ?? 'no details'}`
+      );
 
-`;
+      retries++;
+      if (policy.action === 'retry' && retries < policy.maxAttempts) {
+        continue;
+      }
+      break;
     }
 
-    prompt += `### Pipeline Step Instructions
-${step.instructions}
+    const result: PipelineStepResult = {
+      stepId: step.id,
+      stepName: step.name,
+      type: pipelineService.getStepType(step),
+      verdict: outcome.passed ? 'pass' : 'fail',
+      attempts,
+      summary: outcome.summary,
+      stage: stageName,
+      completedAt: new Date().toISOString(),
+    };
+    await this.savePipelineStepResult(projectPath, featureId, result);
 
-### Task
-Complete the pipeline step instructions above. Review the previous work and apply the required changes or actions.`;
+    this.emitAutoModeEvent('pipeline_step_complete', {
+      featureId,
+      stepId: step.id,
+      stepName: step.name,
+      stepIndex,
+      totalSteps: steps.length,
+      stageName,
+      verdict: result.verdict,
+      attempts,
+      projectPath,
+    });
 
-    return prompt;
+    if (outcome.passed) {
+      logger.info(
+        `Pipeline step ${stepIndex + 1}/${steps.length} (${step.name}) completed for feature ${featureId}`
+      );
+    }
+
+    return { outcome, result };
   }
 
   /**
-   * Stop a specific feature
+   * Run one attempt of a pipeline step
+   *
+   * Aborts are rethrown; any other error is reported as a failed outcome so the
+   * step's failure policy can decide what happens next.
+   *
+   * @param outputPath - agent-output.md, or the step's own file in a parallel stage
    */
-  async stopFeature(featureId: string): Promise<boolean> {
-    const running = this.runningFeatures.get(featureId);
-    if (!running) {
-      return false;
-    }
+  private async runPipelineStep(
+    step: PipelineStep,
+    run: PipelineRunContext,
+    outputPath: string
+  ): Promise<PipelineStepOutcome> {
+    const stepType = pipelineService.getStepType(step);
+    const ownOutput = outputPath !== run.contextPath;
 
-    // Cancel any pending plan approval for this feature
-    this.cancelPlanApproval(featureId);
+    try {
+      if (stepType === 'shell-command') {
+        return await this.runShellPipelineStep(step, run, outputPath);
+      }
 
-    running.abortController.abort();
+      const previousContext = await this.readAgentOutput(run.contextPath);
+      const { contents, budget } = fitPromptToModel(run.model, [
+        contextFilesSection(await this.loadPipelineContextPrompt(run, step)),
+        featureSection(this.buildFeaturePrompt(run.feature, run.taskExecutionPrompts)),
+        previousWorkSection(previousContext),
+        instructionsSection('step-instructions', 'Step instructions', step.instructions),
+      ]);
+      const prompt = this.buildPipelineStepPrompt(
+        step,
+        contents['feature'],
+        contents['previous-work']
+      );
 
-    // Remove from running features immediately to allow resume
-    // The abort signal will still propagate to stop any ongoing execution
-    this.releaseRunningFeature(featureId, { force: true });
+      await this.runPipelineAgent(run, async (attemptModel, attempt) =>
+        this.runAgent(
+          run.workDir,
+          run.featureId,
+          prompt,
+          run.abortController,
+          run.projectPath,
+          undefined, // no images for pipeline steps
+          attemptModel,
+          {
+            projectPath: run.projectPath,
+            planningMode: 'skip', // Pipeline steps don't need planning
+            requirePlanApproval: false,
+            previousContent:
+              attempt > 0
+                ? await this.readAgentOutput(outputPath)
+                : ownOutput
+                  ? undefined
+                  : previousContext,
+            systemPrompt: contents['context-files'] || undefined,
+            autoLoadClaudeMd: run.autoLoadClaudeMd,
+            thinkingLevel: run.feature.thinkingLevel,
+            usageSource: 'pipeline_step',
+            pipelineStep: step,
+            promptBudget: budget,
+            readOnly: stepType === 'review',
+            outputPath: ownOutput ? outputPath : undefined,
+          }
+        )
+      );
 
-    return true;
+      if (stepType !== 'review') {
+        return { passed: true };
+      }
+
+      // Only look for the verdict in what this review wrote
+      const output = await this.readAgentOutput(outputPath);
+      const baseContent = ownOutput ? '' : previousContext;
+      const reviewOutput = output.startsWith(baseContent)
+        ? output.slice(baseContent.length)
+        : output;
+      const verdict = pipelineService.parseReviewVerdict(reviewOutput);
+      if (!verdict) {
+        return {
+          passed: false,
+          summary: 'Review did not report a verdict',
+          details: reviewOutput.trim(),
+        };
+      }
+      return {
+        passed: verdict.verdict === 'pass',
+        summary: verdict.summary || undefined,
+        details: reviewOutput.trim(),
+      };
+    } catch (error) {
+      const errorInfo = classifyError(error);
+      if (errorInfo.isAbort || run.abortController.signal.aborted) {
+        throw error;
+      }
+      return { passed: false, summary: errorInfo.message, details: errorInfo.message, error };
+    }
   }
 
   /**
-   * Resume a feature (continues from saved context or starts fresh if no context)
-   *
-   * This method handles interrupted features regardless of whether they have saved context:
-   * - With context: Continues from where the agent left off using the saved agent-output.md
-   * - Without context: Starts fresh execution (feature was interrupted before any agent output)
-   * - Pipeline features: Delegates to resumePipelineFeature for specialized handling
+   * Run a shell-command pipeline step in the feature's working directory
    *
-   * @param projectPath - Path to the project
-   * @param featureId - ID of the feature to resume
-   * @param useWorktrees - Whether to use git worktrees for isolation
-   * @param _calledInternally - Internal flag to prevent double-tracking when called from other methods
+   * The step passes when the command exits with code 0. Output is appended to
+   * agent-output.md (or written to the step's own file in a parallel stage) so
+   * it shows up alongside the agent's work.
    */
-  async resumeFeature(
-    projectPath: string,
-    featureId: string,
-    useWorktrees = false,
-    /** Internal flag: set to true when called from a method that already tracks the feature */
-    _calledInternally = false
-  ): Promise<void> {
-    // Idempotent check: if feature is already being resumed/running, skip silently
-    // This prevents race conditions when multiple callers try to resume the same feature
-    if (!_calledInternally && this.isFeatureRunning(featureId)) {
-      logger.info(
-        `[AutoMode] Feature ${featureId} is already being resumed/running, skipping duplicate resume request`
-      );
-      return;
+  private async runShellPipelineStep(
+    step: PipelineStep,
+    run: PipelineRunContext,
+    outputPath: string
+  ): Promise<PipelineStepOutcome> {
+    const command = step.command?.trim();
+    if (!command) {
+      return { passed: false, summary: 'No command configured for this step' };
     }
 
-    this.acquireRunningFeature({
-      featureId,
-      projectPath,
-      isAutoMode: false,
-      allowReuse: _calledInternally,
+    const timeoutMs =
+      step.timeoutMs && step.timeoutMs > 0 ? step.timeoutMs : DEFAULT_PIPELINE_SHELL_TIMEOUT_MS;
+
+    this.emitAutoModeEvent('auto_mode_progress', {
+      featureId: run.featureId,
+      branchName: run.feature.branchName ?? null,
+      content: `$ ${command}`,
+      projectPath: run.projectPath,
     });
 
+    let output: string;
+    let exitCode: number | null = 0;
+    let timedOut = false;
     try {
-      // Load feature to check status
-      const feature = await this.loadFeature(projectPath, featureId);
-      if (!feature) {
-        throw new Error(`Feature ${featureId} not found`);
+      const { stdout, stderr } = await execAsync(command, {
+        cwd: run.workDir,
+        timeout: timeoutMs,
+        maxBuffer: 10 * 1024 * 1024,
+        signal: run.abortController.signal,
+      });
+      output = [stdout, stderr].filter(Boolean).join('\n');
+    } catch (error) {
+      if (run.abortController.signal.aborted) {
+        throw error;
       }
+      const execError = error as Error & {
+        code?: number | string;
+        killed?: boolean;
+        stdout?: string;
+        stderr?: string;
+      };
+      output = [execError.stdout, execError.stderr].filter(Boolean).join('\n') || execError.message;
+      exitCode = typeof execError.code === 'number' ? execError.code : null;
+      timedOut = execError.killed === true && exitCode === null;
+    }
 
-      logger.info(
-        `[AutoMode] Resuming feature ${featureId} (${feature.title}) - current status: ${feature.status}`
-      );
+    output = output.trim();
+    if (output.length > MAX_PIPELINE_SHELL_OUTPUT_CHARS) {
+      output = `... (output truncated)\n${output.slice(-MAX_PIPELINE_SHELL_OUTPUT_CHARS)}`;
+    }
 
-      // Check if feature is stuck in a pipeline step
-      const pipelineInfo = await this.detectPipelineStatus(
-        projectPath,
-        featureId,
-        (feature.status || '') as FeatureStatusWithPipeline
-      );
-
-      if (pipelineInfo.isPipeline) {
-        // Feature stuck in pipeline - use pipeline resume
-        // Pass _alreadyTracked to prevent double-tracking
-        logger.info(
-          `[AutoMode] Feature ${featureId} is in pipeline step ${pipelineInfo.stepId}, using pipeline resume`
-        );
-        return await this.resumePipelineFeature(projectPath, feature, useWorktrees, pipelineInfo);
-      }
+    const passed = exitCode === 0;
+    const summary = timedOut
+      ? `Timed out after ${Math.round(timeoutMs / 1000)}s`
+      : `Exited with code ${exitCode ?? 'unknown'}`;
 
-      // Normal resume flow for non-pipeline features
-      // Check if context exists in .automaker directory
-      const featureDir = getFeatureDir(projectPath, featureId);
-      const contextPath = path.join(featureDir, 'agent-output.md');
+    this.emitAutoModeEvent('auto_mode_progress', {
+      featureId: run.featureId,
+      branchName: run.feature.branchName ?? null,
+      content: `${output}\n${summary}`,
+      projectPath: run.projectPath,
+    });
 
-      let hasContext = false;
-      try {
-        await secureFs.access(contextPath);
-        hasContext = true;
-      } catch {
-        // No context - feature was interrupted before any agent output was saved
-      }
+    const previousContext =
+      outputPath === run.contextPath ? await this.readAgentOutput(outputPath) : '';
+    const section = `## Pipeline Step: ${step.name}\n\n\`\`\`\n$ ${command}\n${output}\n\`\`\`\n\n**Result:** ${
+      passed ? 'Passed' : 'Failed'
+    } - ${summary}\n`;
+    await secureFs.mkdir(path.dirname(outputPath), { recursive: true });
+    await secureFs.writeFile(
+      outputPath,
+      previousContext ? `${previousContext}\n\n---\n\n${section}` : section
+    );
 
-      if (hasContext) {
-        // Load previous context and continue
-        // executeFeatureWithContext -> executeFeature will see feature is already tracked
-        const context = (await secureFs.readFile(contextPath, 'utf-8')) as string;
-        logger.info(
-          `[AutoMode] Resuming feature ${featureId} with saved context (${context.length} chars)`
-        );
+    return { passed, summary, details: output };
+  }
 
-        // Emit event for UI notification
-        this.emitAutoModeEvent('auto_mode_feature_resuming', {
-          featureId,
-          featureName: feature.title,
-          projectPath,
-          hasContext: true,
-          message: `Resuming feature "${feature.title}" from saved context`,
-        });
+  /**
+   * Send failed steps' output back to the implementation agent to fix
+   */
+  private async runPipelineFixPass(
+    failures: Array<{
+      step: PipelineStep;
+      outcome: PipelineStepOutcome;
+      pass: number;
+      maxPasses: number;
+    }>,
+    run: PipelineRunContext
+  ): Promise<void> {
+    await this.updateFeatureStatus(run.projectPath, run.featureId, 'in_progress');
 
-        return await this.executeFeatureWithContext(projectPath, featureId, context, useWorktrees);
-      }
+    for (const { step, pass, maxPasses } of failures) {
+      this.emitAutoModeEvent('auto_mode_progress', {
+        featureId: run.featureId,
+        branchName: run.feature.branchName ?? null,
+        content: `Pipeline step "${step.name}" failed - looping back to implementation (fix ${pass}/${maxPasses})`,
+        projectPath: run.projectPath,
+      });
+    }
 
-      // No context - feature was interrupted before any agent output was saved
-      // Start fresh execution instead of leaving the feature stuck
-      logger.info(
-        `[AutoMode] Feature ${featureId} has no saved context - starting fresh execution`
-      );
+    const previousContext = await this.readAgentOutput(run.contextPath);
+    // Failure output keeps its end, where test runners and compilers report
+    const { contents, budget } = fitPromptToModel(run.model, [
+      contextFilesSection(await this.loadPipelineContextPrompt(run)),
+      featureSection(this.buildFeaturePrompt(run.feature, run.taskExecutionPrompts)),
+      ...failures.map(
+        ({ step, outcome }): PromptSection => ({
+          id: `failure-${step.id}`,
+          label: `Failure output: ${step.name}`,
+          content: outcome.details || outcome.summary || 'No output',
+          priority: 4,
+          strategy: 'tail',
+          maxShare: 0.2,
+        })
+      ),
+    ]);
+    const prompt = this.buildPipelineFixPrompt(
+      failures.map(({ step }) => ({ step, output: contents[`failure-${step.id}`] })),
+      contents['feature']
+    );
+    await this.runPipelineAgent(run, async (attemptModel, attempt) =>
+      this.runAgent(
+        run.workDir,
+        run.featureId,
+        prompt,
+        run.abortController,
+        run.projectPath,
+        undefined,
+        attemptModel,
+        {
+          projectPath: run.projectPath,
+          planningMode: 'skip',
+          requirePlanApproval: false,
+          previousContent:
+            attempt > 0 ? await this.readAgentOutput(run.contextPath) : previousContext,
+          systemPrompt: contents['context-files'] || undefined,
+          autoLoadClaudeMd: run.autoLoadClaudeMd,
+          thinkingLevel: run.feature.thinkingLevel,
+          usageSource: 'implementation',
+          promptLabel: `Pipeline fix: ${failures.map(({ step }) => step.name).join(', ')}`,
+          promptBudget: budget,
+        }
+      )
+    );
+  }
 
-      // Emit event for UI notification
-      this.emitAutoModeEvent('auto_mode_feature_resuming', {
-        featureId,
-        featureName: feature.title,
-        projectPath,
-        hasContext: false,
-        message: `Starting fresh execution for interrupted feature "${feature.title}" (no previous context found)`,
-      });
+  /**
+   * Run a pipeline agent under the project's retry policy, starting on the
+   * pipeline's model. Once a fallback model takes over, later steps start on it.
+   */
+  private async runPipelineAgent(
+    run: PipelineRunContext,
+    attempt: (model: string, attemptIndex: number) => Promise<void>
+  ): Promise<void> {
+    run.model = await this.runAgentWithFallback(
+      run.projectPath,
+      run.feature,
+      run.runningFeature,
+      attempt,
+      run.model
+    );
+  }
 
-      return await this.executeFeature(projectPath, featureId, useWorktrees, false, undefined, {
-        _calledInternally: true,
-      });
-    } finally {
-      this.releaseRunningFeature(featureId);
-    }
+  /**
+   * Get the output file of a step in a parallel stage
+   */
+  private getPipelineStepOutputPath(run: PipelineRunContext, stepId: string): string {
+    return path.join(
+      getFeatureDir(run.projectPath, run.featureId),
+      'pipeline-outputs',
+      `${stepId}.md`
+    );
   }
 
   /**
-   * Resume a feature that crashed during pipeline execution.
-   * Handles multiple edge cases to ensure robust recovery:
-   * - No context file: Restart entire pipeline from beginning
-   * - Step deleted from config: Complete feature without remaining pipeline steps
-   * - Valid step exists: Resume from the crashed step and continue
-   *
-   * @param {string} projectPath - Absolute path to the project directory
-   * @param {Feature} feature - The feature object (already loaded to avoid redundant reads)
-   * @param {boolean} useWorktrees - Whether to use git worktrees for isolation
-   * @param {PipelineStatusInfo} pipelineInfo - Information about the pipeline status from detectPipelineStatus()
-   * @returns {Promise<void>} Resolves when resume operation completes or throws on error
-   * @throws {Error} If pipeline config is null but stepIndex is valid (should never happen)
-   * @private
+   * Append the outputs of a parallel stage's steps to agent-output.md
    */
-  private async resumePipelineFeature(
-    projectPath: string,
-    feature: Feature,
-    useWorktrees: boolean,
-    pipelineInfo: PipelineStatusInfo
+  private async mergePipelineStageOutputs(
+    stage: PipelineStage,
+    steps: PipelineStep[],
+    run: PipelineRunContext
   ): Promise<void> {
-    const featureId = feature.id;
-    console.log(
-      `[AutoMode] Resuming feature ${featureId} from pipeline step ${pipelineInfo.stepId}`
+    const sections = await Promise.all(
+      steps.map(async (step) => {
+        const output = await this.readAgentOutput(this.getPipelineStepOutputPath(run, step.id));
+        return `### ${step.name}\n\n${output.trim() || '_No output_'}`;
+      })
     );
+    const merged = `## Pipeline Stage: ${stage.name}\n\n${sections.join('\n\n')}\n`;
 
-    // Check for context file
-    const featureDir = getFeatureDir(projectPath, featureId);
-    const contextPath = path.join(featureDir, 'agent-output.md');
+    const previousContext = await this.readAgentOutput(run.contextPath);
+    await secureFs.mkdir(path.dirname(run.contextPath), { recursive: true });
+    await secureFs.writeFile(
+      run.contextPath,
+      previousContext ? `${previousContext}\n\n---\n\n${merged}` : merged
+    );
+  }
 
-    let hasContext = false;
+  /**
+   * Read a feature's agent-output.md, or an empty string if it doesn't exist yet
+   */
+  private async readAgentOutput(contextPath: string): Promise<string> {
     try {
-      await secureFs.access(contextPath);
-      hasContext = true;
+      return (await secureFs.readFile(contextPath, 'utf-8')) as string;
     } catch {
-      // No context
+      return '';
     }
+  }
 
-    // Edge Case 1: No context file - restart entire pipeline from beginning
-    if (!hasContext) {
-      console.warn(
-        `[AutoMode] No context found for pipeline feature ${featureId}, restarting from beginning`
-      );
+  /**
+   * Load the context prompt for a pipeline step, or for a loop-back fix when
+   * no step is given. Loaded per call so scoped context files see the
+   * step and the files changed so far. The feature's implementation run
+   * already counted its memory files as loaded, so these reloads don't.
+   */
+  private async loadPipelineContextPrompt(
+    run: PipelineRunContext,
+    step?: PipelineStep
+  ): Promise<string> {
+    const contextResult = await loadContextFiles({
+      projectPath: run.projectPath,
+      fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
+      taskContext: {
+        title: run.feature.title ?? '',
+        description: run.feature.description ?? '',
+        category: run.feature.category,
+        agentTypes: step ? ['pipeline'] : ['implementation'],
+        pipelineStepId: step?.id,
+        changedPaths: await this.getFeaturePaths(run.feature, run.workDir),
+      },
+      recordMemoryLoads: false,
+    });
+    return filterClaudeMdFromContext(contextResult, run.autoLoadClaudeMd);
+  }
 
-      // Reset status to in_progress and start fresh
-      await this.updateFeatureStatus(projectPath, featureId, 'in_progress');
+  /**
+   * Paths a feature has changed or is planned to change (from its plan's
+   * tasks), used to pick context files scoped to parts of the project
+   */
+  private async getFeaturePaths(feature: Feature, workDir: string): Promise<string[]> {
+    const planned = (feature.planSpec?.tasks ?? [])
+      .map((task) => task.filePath)
+      .filter((filePath): filePath is string => !!filePath);
+    return [...new Set([...(await this.getChangedFiles(workDir)), ...planned])];
+  }
 
-      return this.executeFeature(projectPath, featureId, useWorktrees, false, undefined, {
-        _calledInternally: true,
+  /**
+   * List files changed in a working directory: changes since the branch left
+   * the base branch (committed or not) and untracked files
+   */
+  private async getChangedFiles(workDir: string): Promise<string[]> {
+    try {
+      const base = await this.getMergeBase(workDir);
+      const [diff, untracked] = await Promise.all([
+        execAsync(`git diff --name-only ${base}`, { cwd: workDir, maxBuffer: 10 * 1024 * 1024 }),
+        execAsync('git ls-files --others --exclude-standard', {
+          cwd: workDir,
+          maxBuffer: 10 * 1024 * 1024,
+        }),
+      ]);
+      const files = `${diff.stdout}\n${untracked.stdout}`
+        .split('\n')
+        .map((file) => file.trim())
+        .filter(Boolean);
+      return [...new Set(files)];
+    } catch (error) {
+      logger.warn(`Failed to list changed files in ${workDir}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Commit where HEAD left the base branch (origin's default branch, else main
+   * or master), or HEAD itself when there is no base branch to compare with
+   */
+  private async getMergeBase(workDir: string): Promise<string> {
+    const candidates = ['main', 'master'];
+    try {
+      const { stdout } = await execAsync('git symbolic-ref --quiet refs/remotes/origin/HEAD', {
+        cwd: workDir,
       });
+      if (stdout.trim()) candidates.unshift(stdout.trim());
+    } catch {
+      // No remote default branch
     }
+    for (const candidate of candidates) {
+      try {
+        const { stdout } = await execAsync(`git merge-base HEAD ${candidate}`, { cwd: workDir });
+        if (stdout.trim()) return stdout.trim();
+      } catch {
+        // Not a branch here
+      }
+    }
+    return 'HEAD';
+  }
 
-    // Edge Case 2: Step no longer exists in pipeline config
-    if (pipelineInfo.stepIndex === -1) {
-      console.warn(
-        `[AutoMode] Step ${pipelineInfo.stepId} no longer exists in pipeline, completing feature without pipeline`
-      );
+  /**
+   * Record a pipeline step result on the feature, replacing any earlier result for the step
+   */
+  private async savePipelineStepResult(
+    projectPath: string,
+    featureId: string,
+    result: PipelineStepResult
+  ): Promise<void> {
+    // Steps of a parallel stage finish concurrently; queue the read-modify-write
+    const previous = this.pipelineResultWrites.get(featureId) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      const feature = await this.loadFeature(projectPath, featureId);
+      const results = (feature?.pipelineResults ?? []).filter((r) => r.stepId !== result.stepId);
+      await this.updateFeaturePipelineState(projectPath, featureId, {
+        pipelineResults: [...results, result],
+      });
+    });
 
-      const finalStatus = feature.skipTests ? 'waiting_approval' : 'verified';
+    this.pipelineResultWrites.set(featureId, write);
+    try {
+      await write;
+    } finally {
+      if (this.pipelineResultWrites.get(featureId) === write) {
+        this.pipelineResultWrites.delete(featureId);
+      }
+    }
+  }
 
-      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
+  /**
+   * Update pipeline results, the error shown on a feature's card and/or the
+   * model that finished the run
+   */
+  private async updateFeaturePipelineState(
+    projectPath: string,
+    featureId: string,
+    updates: Partial<
+      Pick<
+        Feature,
+        | 'pipelineResults'
+        | 'pipelineStage'
+        | 'error'
+        | 'completedModel'
+        | 'acceptanceCriteria'
+        | 'acceptanceJudgement'
+        | 'contenders'
+        | 'competition'
+        | 'reviewComments'
+      >
+    >
+  ): Promise<void> {
+    const featurePath = path.join(getFeatureDir(projectPath, featureId), 'feature.json');
 
-      this.emitAutoModeEvent('auto_mode_feature_complete', {
-        featureId,
-        featureName: feature.title,
-        branchName: feature.branchName ?? null,
-        passes: true,
-        message:
-          'Pipeline step no longer exists - feature completed without remaining pipeline steps',
-        projectPath,
+    try {
+      const result = await readJsonWithRecovery<Feature | null>(featurePath, null, {
+        maxBackups: DEFAULT_BACKUP_COUNT,
+        autoRestore: true,
       });
+      logRecoveryWarning(result, `Feature ${featureId}`, logger);
 
-      return;
-    }
+      const feature = result.data;
+      if (!feature) {
+        logger.warn(`Feature ${featureId} not found or could not be recovered`);
+        return;
+      }
 
-    // Normal case: Valid pipeline step exists, has context
-    // Resume from the stuck step (re-execute the step that crashed)
-    if (!pipelineInfo.config) {
-      throw new Error('Pipeline config is null but stepIndex is valid - this should not happen');
+      Object.assign(feature, updates);
+      feature.updatedAt = new Date().toISOString();
+      await atomicWriteJson(featurePath, feature, { backupCount: DEFAULT_BACKUP_COUNT });
+    } catch (error) {
+      logger.error(`Failed to update pipeline state for ${featureId}:`, error);
     }
+  }
 
-    return this.resumeFromPipelineStep(
+  /**
+   * Get the status a feature moves to once its implementation is done
+   *
+   * Features with acceptance criteria are judged first and only reach
+   * 'verified' if every criterion passes; otherwise they wait for manual review.
+   */
+  private async getCompletionStatus(
+    projectPath: string,
+    feature: Feature,
+    workDir: string,
+    abortController: AbortController,
+    requiresReview = false
+  ): Promise<'verified' | 'waiting_approval'> {
+    const judgement = await this.judgeAcceptanceCriteria(
       projectPath,
-      feature,
-      useWorktrees,
-      pipelineInfo.stepIndex,
-      pipelineInfo.config
+      feature.id,
+      workDir,
+      abortController
     );
+    return feature.skipTests || requiresReview || judgement?.passed === false
+      ? 'waiting_approval'
+      : 'verified';
   }
 
   /**
-   * Resume pipeline execution from a specific step index.
-   * Re-executes the step that crashed (to handle partial completion),
-   * then continues executing all remaining pipeline steps in order.
+   * Judge a feature against its acceptance criteria
    *
-   * This method handles the complete pipeline resume workflow:
-   * - Validates feature and step index
-   * - Locates or creates git worktree if needed
-   * - Executes remaining steps starting from the crashed step
-   * - Updates feature status to verified/waiting_approval when complete
-   * - Emits progress events throughout execution
+   * Runs the acceptance judge model with read-only tools in the feature's
+   * working directory, then stores the per-criterion scores and evidence on
+   * the feature. A judge that fails to run fails every criterion.
    *
-   * @param {string} projectPath - Absolute path to the project directory
-   * @param {Feature} feature - The feature object (already loaded to avoid redundant reads)
-   * @param {boolean} useWorktrees - Whether to use git worktrees for isolation
-   * @param {number} startFromStepIndex - Zero-based index of the step to resume from
-   * @param {PipelineConfig} pipelineConfig - Pipeline config passed from detectPipelineStatus to avoid re-reading
-   * @returns {Promise<void>} Resolves when pipeline execution completes successfully
-   * @throws {Error} If feature not found, step index invalid, or pipeline execution fails
-   * @private
+   * @returns The judgement, or null if the feature has no acceptance criteria
    */
-  private async resumeFromPipelineStep(
+  private async judgeAcceptanceCriteria(
     projectPath: string,
-    feature: Feature,
-    useWorktrees: boolean,
-    startFromStepIndex: number,
-    pipelineConfig: PipelineConfig
-  ): Promise<void> {
-    const featureId = feature.id;
-
-    // Sort all steps first
-    const allSortedSteps = [...pipelineConfig.steps].sort((a, b) => a.order - b.order);
-
-    // Get the current step we're resuming from (using the index from unfiltered list)
-    if (startFromStepIndex < 0 || startFromStepIndex >= allSortedSteps.length) {
-      throw new Error(`Invalid step index: ${startFromStepIndex}`);
+    featureId: string,
+    workDir: string,
+    abortController: AbortController
+  ): Promise<AcceptanceJudgement | null> {
+    const feature = await this.loadFeature(projectPath, featureId);
+    const criteria = feature?.acceptanceCriteria ?? [];
+    if (!feature || criteria.length === 0) {
+      return null;
     }
-    const currentStep = allSortedSteps[startFromStepIndex];
 
-    // Filter out excluded pipeline steps
-    const excludedStepIds = new Set(feature.excludedPipelineSteps || []);
-
-    // Check if the current step is excluded
-    // If so, use getNextStatus to find the appropriate next step
-    if (excludedStepIds.has(currentStep.id)) {
-      logger.info(
-        `Current step ${currentStep.id} is excluded for feature ${featureId}, finding next valid step`
-      );
-      const nextStatus = pipelineService.getNextStatus(
-        `pipeline_${currentStep.id}`,
-        pipelineConfig,
-        feature.skipTests ?? false,
-        feature.excludedPipelineSteps
-      );
-
-      // If next status is not a pipeline step, feature is done
-      if (!pipelineService.isPipelineStatus(nextStatus)) {
-        await this.updateFeatureStatus(projectPath, featureId, nextStatus);
-        this.emitAutoModeEvent('auto_mode_feature_complete', {
-          featureId,
-          featureName: feature.title,
-          branchName: feature.branchName ?? null,
-          passes: true,
-          message: 'Pipeline completed (remaining steps excluded)',
-          projectPath,
-        });
-        return;
-      }
-
-      // Find the next step and update the start index
-      const nextStepId = pipelineService.getStepIdFromStatus(nextStatus);
-      const nextStepIndex = allSortedSteps.findIndex((s) => s.id === nextStepId);
-      if (nextStepIndex === -1) {
-        throw new Error(`Next step ${nextStepId} not found in pipeline config`);
-      }
-      startFromStepIndex = nextStepIndex;
-    }
+    const { phaseModel } = await getPhaseModelWithOverrides(
+      'acceptanceJudgeModel',
+      this.settingsService,
+      projectPath,
+      '[AutoMode]'
+    );
+    const { model, thinkingLevel } = resolvePhaseModel(phaseModel);
+    const branchName = feature.branchName ?? null;
 
-    // Get steps to execute (from startFromStepIndex onwards, excluding excluded steps)
-    const stepsToExecute = allSortedSteps
-      .slice(startFromStepIndex)
-      .filter((step) => !excludedStepIds.has(step.id));
+    this.emitAutoModeEvent('auto_mode_progress', {
+      featureId,
+      projectPath,
+      branchName,
+      content: `Judging ${criteria.length} acceptance criteria with ${model}...`,
+    });
 
-    // If no steps left to execute, complete the feature
-    if (stepsToExecute.length === 0) {
-      const finalStatus = feature.skipTests ? 'waiting_approval' : 'verified';
-      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
-      this.emitAutoModeEvent('auto_mode_feature_complete', {
+    const outputPath = path.join(getFeatureDir(projectPath, featureId), 'acceptance-judge.md');
+    let output = '';
+    let failure: string | undefined;
+    try {
+      await this.runAgent(
+        workDir,
         featureId,
-        featureName: feature.title,
-        branchName: feature.branchName ?? null,
-        passes: true,
-        message: 'Pipeline completed (all remaining steps excluded)',
+        this.buildAcceptanceJudgePrompt(feature),
+        abortController,
         projectPath,
-      });
-      return;
+        undefined, // no images for the judge
+        model,
+        {
+          projectPath,
+          planningMode: 'skip',
+          thinkingLevel,
+          branchName,
+          usageSource: 'acceptance_judge',
+          readOnly: true,
+          outputPath,
+        }
+      );
+      output = await this.readAgentOutput(outputPath);
+    } catch (error) {
+      const errorInfo = classifyError(error);
+      if (errorInfo.isAbort || abortController.signal.aborted) {
+        throw error;
+      }
+      logger.error(`Acceptance judge failed for feature ${featureId}:`, error);
+      failure = `Acceptance judge failed: ${errorInfo.message}`;
     }
 
-    // Use the filtered steps for counting
-    const sortedSteps = allSortedSteps.filter((step) => !excludedStepIds.has(step.id));
-
-    logger.info(
-      `Resuming pipeline for feature ${featureId} from step ${startFromStepIndex + 1}/${sortedSteps.length}`
-    );
+    const judged = applyAcceptanceJudgement(output, criteria);
+    const judgement: AcceptanceJudgement = {
+      judgedAt: new Date().toISOString(),
+      model,
+      passed: judged.every((criterion) => criterion.status === 'pass'),
+      summary: failure ?? (pipelineService.parseReviewVerdict(output)?.summary || undefined),
+    };
+    await this.updateFeaturePipelineState(projectPath, featureId, {
+      acceptanceCriteria: judged,
+      acceptanceJudgement: judgement,
+    });
 
-    const runningEntry = this.acquireRunningFeature({
+    const passedCount = judged.filter((criterion) => criterion.status === 'pass').length;
+    this.emitAutoModeEvent('auto_mode_acceptance_judged', {
       featureId,
+      featureName: feature.title,
+      branchName,
       projectPath,
-      isAutoMode: false,
-      allowReuse: true,
+      passed: judgement.passed,
+      passedCount,
+      totalCount: judged.length,
+      message: `Acceptance criteria: ${passedCount}/${judged.length} passed`,
     });
-    const abortController = runningEntry.abortController;
-    runningEntry.branchName = feature.branchName ?? null;
 
-    try {
-      // Validate project path
-      validateWorkingDirectory(projectPath);
+    return judgement;
+  }
 
-      // Derive workDir from feature.branchName
-      let worktreePath: string | null = null;
-      const branchName = feature.branchName;
+  /**
+   * Stop a feature whose pipeline was stopped by a failed step
+   *
+   * The feature goes to waiting_approval with the failure shown on the card, so
+   * it can't reach verified and isn't picked up by auto mode again.
+   */
+  private async handlePipelineStepFailed(
+    projectPath: string,
+    feature: Feature,
+    result: PipelineStepResult
+  ): Promise<void> {
+    const message = `Pipeline step "${result.stepName}" failed${
+      result.summary ? `: ${result.summary.split('\n')[0]}` : ''
+    }`;
+    logger.warn(`Feature ${feature.id} stopped: ${message}`);
 
-      if (useWorktrees && branchName) {
-        worktreePath = await this.findExistingWorktreeForBranch(projectPath, branchName);
-        if (worktreePath) {
-          logger.info(`Using worktree for branch "${branchName}": ${worktreePath}`);
-        } else {
-          logger.warn(`Worktree for branch "${branchName}" not found, using project path`);
-        }
-      }
+    await this.updateFeaturePipelineState(projectPath, feature.id, { error: message });
+    await this.updateFeatureStatus(projectPath, feature.id, 'waiting_approval');
 
-      const workDir = worktreePath ? path.resolve(worktreePath) : path.resolve(projectPath);
-      validateWorkingDirectory(workDir);
+    this.emitAutoModeEvent('auto_mode_feature_complete', {
+      featureId: feature.id,
+      featureName: feature.title,
+      branchName: feature.branchName ?? null,
+      passes: false,
+      message,
+      projectPath,
+    });
+    await this.notifyFeatureFailed(projectPath, feature.id, feature.title, message);
+  }
 
-      // Update running feature with worktree info
-      runningEntry.worktreePath = worktreePath;
-      runningEntry.branchName = branchName ?? null;
+  /**
+   * Build the prompt for a pipeline step
+   */
+  private buildPipelineStepPrompt(
+    step: PipelineStep,
+    featurePrompt: string,
+    previousContext: string
+  ): string {
+    let prompt = `## Pipeline Step: ${step.name}
 
-      // Emit resume event
-      this.emitAutoModeEvent('auto_mode_feature_start', {
-        featureId,
-        projectPath,
-        branchName: branchName ?? null,
-        feature: {
-          id: featureId,
-          title: feature.title || 'Resuming Pipeline',
-          description: feature.description,
-        },
-      });
+This is an automated pipeline step following the initial feature implementation.
 
-      this.emitAutoModeEvent('auto_mode_progress', {
-        featureId,
-        projectPath,
-        branchName: branchName ?? null,
-        content: `Resuming from pipeline step ${startFromStepIndex + 1}/${sortedSteps.length}`,
-      });
+### Feature Context
+${featurePrompt}
 
-      // Load autoLoadClaudeMd setting
-      const autoLoadClaudeMd = await getAutoLoadClaudeMdSetting(
-        projectPath,
-        this.settingsService,
-        '[AutoMode]'
-      );
+`;
 
-      // Execute remaining pipeline steps (starting from crashed step)
-      await this.executePipelineSteps(
-        projectPath,
-        featureId,
-        feature,
-        stepsToExecute,
-        workDir,
-        abortController,
-        autoLoadClaudeMd
-      );
+    if (previousContext) {
+      prompt += `### Previous Work
+The following is the output from the previous work on this feature:
 
-      // Determine final status
-      const finalStatus = feature.skipTests ? 'waiting_approval' : 'verified';
-      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
+${previousContext}
 
-      logger.info(`Pipeline resume completed successfully for feature ${featureId}`);
+`;
+    }
 
-      this.emitAutoModeEvent('auto_mode_feature_complete', {
-        featureId,
-        featureName: feature.title,
-        branchName: feature.branchName ?? null,
-        passes: true,
-        message: 'Pipeline resumed and completed successfully',
-        projectPath,
-      });
-    } catch (error) {
-      const errorInfo = classifyError(error);
+    if (pipelineService.getStepType(step) === 'review') {
+      prompt += `### Review Criteria
+${step.instructions}
 
-      if (errorInfo.isAbort) {
-        this.emitAutoModeEvent('auto_mode_feature_complete', {
-          featureId,
-          featureName: feature.title,
-          branchName: feature.branchName ?? null,
-          passes: false,
-          message: 'Pipeline resume stopped by user',
-          projectPath,
-        });
-      } else {
-        logger.error(`Pipeline resume failed for feature ${featureId}:`, error);
-        await this.updateFeatureStatus(projectPath, featureId, 'backlog');
-        this.emitAutoModeEvent('auto_mode_error', {
-          featureId,
-          featureName: feature.title,
-          branchName: feature.branchName ?? null,
-          error: errorInfo.message,
-          errorType: errorInfo.type,
-          projectPath,
-        });
-      }
-    } finally {
-      this.releaseRunningFeature(featureId);
+### Task
+Review the work on this feature against the criteria above. You can read the code but must not modify it.
+Explain any problems you find, then end your response with a line containing exactly \`VERDICT: PASS\` or \`VERDICT: FAIL\`, followed by a one-line reason.`;
+      return prompt;
     }
+
+    prompt += `### Pipeline Step Instructions
+${step.instructions}
+
+### Task
+Complete the pipeline step instructions above. Review the previous work and apply the required changes or actions.`;
+
+    return prompt;
   }
 
   /**
-   * Follow up on a feature with additional instructions
+   * Build the prompt for a fix pass after pipeline steps failed
    */
-  async followUpFeature(
-    projectPath: string,
-    featureId: string,
-    prompt: string,
-    imagePaths?: string[],
-    useWorktrees = true
-  ): Promise<void> {
-    // Validate project path early for fast failure
-    validateWorkingDirectory(projectPath);
-
-    const runningEntry = this.acquireRunningFeature({
-      featureId,
-      projectPath,
-      isAutoMode: false,
+  private buildPipelineFixPrompt(
+    failures: Array<{ step: PipelineStep; output: string }>,
+    featurePrompt: string
+  ): string {
+    const stepNames = failures.map(({ step }) => `"${step.name}"`).join(', ');
+    const sections = failures.map(({ step, output }) => {
+      const check =
+        pipelineService.getStepType(step) === 'shell-command'
+          ? `Command: \`${step.command ?? ''}\``
+          : step.instructions;
+
+      return `### Pipeline Step: ${step.name}
+${check}
+
+#### Failure Output
+\`\`\`
+${output}
+\`\`\``;
     });
-    const abortController = runningEntry.abortController;
 
-    // Load feature info for context FIRST to get branchName
-    const feature = await this.loadFeature(projectPath, featureId);
+    return `## Fix Required: ${failures.map(({ step }) => step.name).join(', ')}
 
-    // Derive workDir from feature.branchName
-    // If no branchName, derive from feature ID: feature/{featureId}
-    let workDir = path.resolve(projectPath);
-    let worktreePath: string | null = null;
-    const branchName = feature?.branchName || `feature/${featureId}`;
+The pipeline ${failures.length > 1 ? 'steps' : 'step'} ${stepNames} failed on this feature's implementation. Fix the problems reported below. The failed ${failures.length > 1 ? 'steps' : 'step'} will run again once you are done.
 
-    if (useWorktrees && branchName) {
-      // Try to find existing worktree for this branch
-      worktreePath = await this.findExistingWorktreeForBranch(projectPath, branchName);
+### Feature Context
+${featurePrompt}
 
-      if (worktreePath) {
-        workDir = worktreePath;
-        logger.info(`Follow-up using worktree for branch "${branchName}": ${workDir}`);
-      }
-    }
+${sections.join('\n\n')}
 
-    // Load previous agent output if it exists
-    const featureDir = getFeatureDir(projectPath, featureId);
-    const contextPath = path.join(featureDir, 'agent-output.md');
-    let previousContext = '';
-    try {
-      previousContext = (await secureFs.readFile(contextPath, 'utf-8')) as string;
-    } catch {
-      // No previous context
-    }
+### Task
+Fix the cause of the failure in the code. Don't weaken or skip the check itself.`;
+  }
 
-    // Load autoLoadClaudeMd setting to determine context loading strategy
-    const autoLoadClaudeMd = await getAutoLoadClaudeMdSetting(
-      projectPath,
-      this.settingsService,
-      '[AutoMode]'
+  /**
+   * Build the prompt for the acceptance judge
+   */
+  private buildAcceptanceJudgePrompt(feature: Feature): string {
+    const criteria = (feature.acceptanceCriteria ?? [])
+      .map((criterion) => `- ${criterion.id}: ${criterion.description}`)
+      .join('\n');
+
+    return `## Acceptance Review: ${feature.title || feature.id}
+
+You are judging whether an implementation meets its acceptance criteria. Another agent implemented this feature; you did not.
+
+### Feature
+${feature.description}
+
+### Acceptance Criteria
+${criteria}
+
+### Task
+Inspect the code in the working directory to decide whether each criterion is met. You can read files and run read-only commands but must not modify anything.
+Only pass a criterion when you have found concrete evidence for it, such as the code path that implements it or a test that covers it.
+
+For every criterion, output one line in exactly this format:
+\`CRITERION <id>: PASS | score: <0-100> | evidence: <file paths, tests or behavior you checked>\`
+Use FAIL instead of PASS when the criterion is not met, and explain what is missing as the evidence.
+
+End your response with a line containing exactly \`VERDICT: PASS\` or \`VERDICT: FAIL\`, followed by a one-line summary.`;
+  }
+
+  /**
+   * Stop a specific feature
+   */
+  async stopFeature(featureId: string): Promise<boolean> {
+    const running = this.runningFeatures.get(featureId);
+    if (!running) {
+      return false;
+    }
+
+    // Cancel any pending plan approval for this feature
+    this.cancelPlanApproval(featureId);
+
+    running.abortController.abort();
+
+    // Remove from running features immediately to allow resume
+    // The abort signal will still propagate to stop any ongoing execution
+    this.releaseRunningFeature(featureId, { force: true });
+
+    return true;
+  }
+
+  /**
+   * Resume a feature (continues from saved context or starts fresh if no context)
+   *
+   * This method handles interrupted features regardless of whether they have saved context:
+   * - With context: Continues from where the agent left off using the saved agent-output.md
+   * - Without context: Starts fresh execution (feature was interrupted before any agent output)
+   * - Pipeline features: Delegates to resumePipelineFeature for specialized handling
+   *
+   * @param projectPath - Path to the project
+   * @param featureId - ID of the feature to resume
+   * @param useWorktrees - Whether to use git worktrees for isolation
+   * @param _calledInternally - Internal flag to prevent double-tracking when called from other methods
+   */
+  async resumeFeature(
+    projectPath: string,
+    featureId: string,
+    useWorktrees = false,
+    /** Internal flag: set to true when called from a method that already tracks the feature */
+    _calledInternally = false
+  ): Promise<void> {
+    // Idempotent check: if feature is already being resumed/running, skip silently
+    // This prevents race conditions when multiple callers try to resume the same feature
+    if (!_calledInternally && this.isFeatureRunning(featureId)) {
+      logger.info(
+        `[AutoMode] Feature ${featureId} is already being resumed/running, skipping duplicate resume request`
+      );
+      return;
+    }
+
+    this.acquireRunningFeature({
+      featureId,
+      projectPath,
+      isAutoMode: false,
+      allowReuse: _calledInternally,
+    });
+
+    try {
+      // Load feature to check status
+      const feature = await this.loadFeature(projectPath, featureId);
+      if (!feature) {
+        throw new Error(`Feature ${featureId} not found`);
+      }
+
+      logger.info(
+        `[AutoMode] Resuming feature ${featureId} (${feature.title}) - current status: ${feature.status}`
+      );
+
+      // Check if feature is stuck in a pipeline step
+      const pipelineInfo = await this.detectPipelineStatus(
+        projectPath,
+        featureId,
+        (feature.status || '') as FeatureStatusWithPipeline
+      );
+
+      if (pipelineInfo.isPipeline) {
+        // Feature stuck in pipeline - use pipeline resume
+        // Pass _alreadyTracked to prevent double-tracking
+        logger.info(
+          `[AutoMode] Feature ${featureId} is in pipeline step ${pipelineInfo.stepId}, using pipeline resume`
+        );
+        return await this.resumePipelineFeature(projectPath, feature, useWorktrees, pipelineInfo);
+      }
+
+      // Normal resume flow for non-pipeline features
+      // Check if context exists in .automaker directory
+      const featureDir = getFeatureDir(projectPath, featureId);
+      const contextPath = path.join(featureDir, 'agent-output.md');
+
+      let hasContext = false;
+      try {
+        await secureFs.access(contextPath);
+        hasContext = true;
+      } catch {
+        // No context - feature was interrupted before any agent output was saved
+      }
+
+      if (hasContext) {
+        // Load previous context and continue
+        // executeFeatureWithContext -> executeFeature will see feature is already tracked
+        const context = (await secureFs.readFile(contextPath, 'utf-8')) as string;
+        logger.info(
+          `[AutoMode] Resuming feature ${featureId} with saved context (${context.length} chars)`
+        );
+
+        // Emit event for UI notification
+        this.emitAutoModeEvent('auto_mode_feature_resuming', {
+          featureId,
+          featureName: feature.title,
+          projectPath,
+          hasContext: true,
+          message: `Resuming feature "${feature.title}" from saved context`,
+        });
+
+        return await this.executeFeatureWithContext(projectPath, featureId, context, useWorktrees);
+      }
+
+      // No context - feature was interrupted before any agent output was saved
+      // Start fresh execution instead of leaving the feature stuck
+      logger.info(
+        `[AutoMode] Feature ${featureId} has no saved context - starting fresh execution`
+      );
+
+      // Emit event for UI notification
+      this.emitAutoModeEvent('auto_mode_feature_resuming', {
+        featureId,
+        featureName: feature.title,
+        projectPath,
+        hasContext: false,
+        message: `Starting fresh execution for interrupted feature "${feature.title}" (no previous context found)`,
+      });
+
+      return await this.executeFeature(projectPath, featureId, useWorktrees, false, undefined, {
+        _calledInternally: true,
+      });
+    } finally {
+      this.releaseRunningFeature(featureId);
+    }
+  }
+
+  /**
+   * Resume a feature that crashed during pipeline execution.
+   * Handles multiple edge cases to ensure robust recovery:
+   * - No context file: Restart entire pipeline from beginning
+   * - Step deleted from config: Complete feature without remaining pipeline steps
+   * - Valid step exists: Resume from the crashed step and continue
+   *
+   * @param {string} projectPath - Absolute path to the project directory
+   * @param {Feature} feature - The feature object (already loaded to avoid redundant reads)
+   * @param {boolean} useWorktrees - Whether to use git worktrees for isolation
+   * @param {PipelineStatusInfo} pipelineInfo - Information about the pipeline status from detectPipelineStatus()
+   * @returns {Promise<void>} Resolves when resume operation completes or throws on error
+   * @throws {Error} If pipeline config is null but stepIndex is valid (should never happen)
+   * @private
+   */
+  private async resumePipelineFeature(
+    projectPath: string,
+    feature: Feature,
+    useWorktrees: boolean,
+    pipelineInfo: PipelineStatusInfo
+  ): Promise<void> {
+    const featureId = feature.id;
+    console.log(
+      `[AutoMode] Resuming feature ${featureId} from pipeline step ${pipelineInfo.stepId}`
+    );
+
+    // Check for context file
+    const featureDir = getFeatureDir(projectPath, featureId);
+    const contextPath = path.join(featureDir, 'agent-output.md');
+
+    let hasContext = false;
+    try {
+      await secureFs.access(contextPath);
+      hasContext = true;
+    } catch {
+      // No context
+    }
+
+    // Edge Case 1: No context file - restart entire pipeline from beginning
+    if (!hasContext) {
+      console.warn(
+        `[AutoMode] No context found for pipeline feature ${featureId}, restarting from beginning`
+      );
+
+      // Reset status to in_progress and start fresh
+      await this.updateFeatureStatus(projectPath, featureId, 'in_progress');
+
+      return this.executeFeature(projectPath, featureId, useWorktrees, false, undefined, {
+        _calledInternally: true,
+      });
+    }
+
+    // Edge Case 2: Step no longer exists in pipeline config
+    if (pipelineInfo.stepIndex === -1) {
+      console.warn(
+        `[AutoMode] Step ${pipelineInfo.stepId} no longer exists in pipeline, completing feature without pipeline`
+      );
+
+      return this.completeResumedPipeline(
+        projectPath,
+        feature,
+        useWorktrees,
+        'Pipeline step no longer exists - feature completed without remaining pipeline steps'
+      );
+    }
+
+    // Normal case: Valid pipeline step exists, has context
+    // Resume from the stuck step (re-execute the step that crashed)
+    if (!pipelineInfo.config) {
+      throw new Error('Pipeline config is null but stepIndex is valid - this should not happen');
+    }
+
+    return this.resumeFromPipelineStep(
+      projectPath,
+      feature,
+      useWorktrees,
+      pipelineInfo.stepIndex,
+      pipelineInfo.config
+    );
+  }
+
+  /**
+   * Complete a resumed pipeline feature that has no steps left to run
+   *
+   * Acceptance criteria are judged in the feature's working directory, as at
+   * the end of a full pipeline run, before the feature can be verified.
+   */
+  private async completeResumedPipeline(
+    projectPath: string,
+    feature: Feature,
+    useWorktrees: boolean,
+    message: string
+  ): Promise<void> {
+    const featureId = feature.id;
+    const runningEntry = this.acquireRunningFeature({
+      featureId,
+      projectPath,
+      isAutoMode: false,
+      allowReuse: true,
+    });
+    runningEntry.branchName = feature.branchName ?? null;
+
+    try {
+      let workDir = path.resolve(projectPath);
+      if (useWorktrees && feature.branchName) {
+        const worktreePath = await this.findExistingWorktreeForBranch(
+          projectPath,
+          feature.branchName
+        );
+        if (worktreePath) {
+          workDir = path.resolve(worktreePath);
+          runningEntry.worktreePath = worktreePath;
+        }
+      }
+
+      const finalStatus = await this.getCompletionStatus(
+        projectPath,
+        feature,
+        workDir,
+        runningEntry.abortController
+      );
+      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
+      this.emitAutoModeEvent('auto_mode_feature_complete', {
+        featureId,
+        featureName: feature.title,
+        branchName: feature.branchName ?? null,
+        passes: true,
+        message,
+        projectPath,
+      });
+    } finally {
+      this.releaseRunningFeature(featureId);
+    }
+  }
+
+  /**
+   * Resume pipeline execution from a specific step index.
+   * Re-executes the step that crashed (to handle partial completion),
+   * then continues executing all remaining pipeline steps in order.
+   *
+   * This method handles the complete pipeline resume workflow:
+   * - Validates feature and step index
+   * - Locates or creates git worktree if needed
+   * - Executes remaining steps starting from the crashed step
+   * - Updates feature status to verified/waiting_approval when complete
+   * - Emits progress events throughout execution
+   *
+   * @param {string} projectPath - Absolute path to the project directory
+   * @param {Feature} feature - The feature object (already loaded to avoid redundant reads)
+   * @param {boolean} useWorktrees - Whether to use git worktrees for isolation
+   * @param {number} startFromStepIndex - Zero-based index of the step to resume from
+   * @param {PipelineConfig} pipelineConfig - Pipeline config passed from detectPipelineStatus to avoid re-reading
+   * @returns {Promise<void>} Resolves when pipeline execution completes successfully
+   * @throws {Error} If feature not found, step index invalid, or pipeline execution fails
+   * @private
+   */
+  private async resumeFromPipelineStep(
+    projectPath: string,
+    feature: Feature,
+    useWorktrees: boolean,
+    startFromStepIndex: number,
+    pipelineConfig: PipelineConfig
+  ): Promise<void> {
+    const featureId = feature.id;
+
+    // Sort all steps first
+    const allSortedSteps = [...pipelineConfig.steps].sort((a, b) => a.order - b.order);
+
+    // Get the current step we're resuming from (using the index from unfiltered list)
+    if (startFromStepIndex < 0 || startFromStepIndex >= allSortedSteps.length) {
+      throw new Error(`Invalid step index: ${startFromStepIndex}`);
+    }
+    const currentStep = allSortedSteps[startFromStepIndex];
+
+    // Filter out excluded pipeline steps
+    const excludedStepIds = new Set(feature.excludedPipelineSteps || []);
+
+    // Check if the current step is excluded
+    // If so, use getNextStatus to find the appropriate next step
+    if (excludedStepIds.has(currentStep.id)) {
+      logger.info(
+        `Current step ${currentStep.id} is excluded for feature ${featureId}, finding next valid step`
+      );
+      const nextStatus = pipelineService.getNextStatus(
+        `pipeline_${currentStep.id}`,
+        pipelineConfig,
+        feature.skipTests ?? false,
+        feature.excludedPipelineSteps
+      );
+
+      // If next status is not a pipeline step, feature is done
+      if (!pipelineService.isPipelineStatus(nextStatus)) {
+        return this.completeResumedPipeline(
+          projectPath,
+          feature,
+          useWorktrees,
+          'Pipeline completed (remaining steps excluded)'
+        );
+      }
+
+      // Find the next step and update the start index
+      const nextStepId = pipelineService.getStepIdFromStatus(nextStatus);
+      const nextStepIndex = allSortedSteps.findIndex((s) => s.id === nextStepId);
+      if (nextStepIndex === -1) {
+        throw new Error(`Next step ${nextStepId} not found in pipeline config`);
+      }
+      startFromStepIndex = nextStepIndex;
+    }
+
+    // Get steps to execute (from startFromStepIndex onwards, excluding excluded steps)
+    const stepsToExecute = allSortedSteps
+      .slice(startFromStepIndex)
+      .filter((step) => !excludedStepIds.has(step.id));
+
+    // If no steps left to execute, complete the feature
+    if (stepsToExecute.length === 0) {
+      return this.completeResumedPipeline(
+        projectPath,
+        feature,
+        useWorktrees,
+        'Pipeline completed (all remaining steps excluded)'
+      );
+    }
+
+    // Use the filtered steps for counting
+    const sortedSteps = allSortedSteps.filter((step) => !excludedStepIds.has(step.id));
+
+    logger.info(
+      `Resuming pipeline for feature ${featureId} from step ${startFromStepIndex + 1}/${sortedSteps.length}`
+    );
+
+    const runningEntry = this.acquireRunningFeature({
+      featureId,
+      projectPath,
+      isAutoMode: false,
+      allowReuse: true,
+    });
+    const abortController = runningEntry.abortController;
+    runningEntry.branchName = feature.branchName ?? null;
+
+    try {
+      // Validate project path
+      validateWorkingDirectory(projectPath);
+
+      // Derive workDir from feature.branchName
+      let worktreePath: string | null = null;
+      const branchName = feature.branchName;
+
+      if (useWorktrees && branchName) {
+        worktreePath = await this.findExistingWorktreeForBranch(projectPath, branchName);
+        if (worktreePath) {
+          logger.info(`Using worktree for branch "${branchName}": ${worktreePath}`);
+        } else {
+          logger.warn(`Worktree for branch "${branchName}" not found, using project path`);
+        }
+      }
+
+      const workDir = worktreePath ? path.resolve(worktreePath) : path.resolve(projectPath);
+      validateWorkingDirectory(workDir);
+
+      // Update running feature with worktree info
+      runningEntry.worktreePath = worktreePath;
+      runningEntry.branchName = branchName ?? null;
+
+      // Emit resume event
+      this.emitAutoModeEvent('auto_mode_feature_start', {
+        featureId,
+        projectPath,
+        branchName: branchName ?? null,
+        feature: {
+          id: featureId,
+          title: feature.title || 'Resuming Pipeline',
+          description: feature.description,
+        },
+      });
+
+      this.emitAutoModeEvent('auto_mode_progress', {
+        featureId,
+        projectPath,
+        branchName: branchName ?? null,
+        content: `Resuming from pipeline step ${startFromStepIndex + 1}/${sortedSteps.length}`,
+      });
+
+      // Load autoLoadClaudeMd setting
+      const autoLoadClaudeMd = await getAutoLoadClaudeMdSetting(
+        projectPath,
+        this.settingsService,
+        '[AutoMode]'
+      );
+
+      // Execute remaining pipeline steps (starting from crashed step)
+      const failedStep = await this.executePipelineSteps(
+        projectPath,
+        featureId,
+        feature,
+        stepsToExecute,
+        workDir,
+        abortController,
+        autoLoadClaudeMd
+      );
+      if (failedStep) {
+        await this.handlePipelineStepFailed(projectPath, feature, failedStep);
+        return;
+      }
+
+      // Determine final status, judging acceptance criteria first
+      const finalStatus = await this.getCompletionStatus(
+        projectPath,
+        feature,
+        workDir,
+        abortController
+      );
+      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
+
+      logger.info(`Pipeline resume completed successfully for feature ${featureId}`);
+
+      this.emitAutoModeEvent('auto_mode_feature_complete', {
+        featureId,
+        featureName: feature.title,
+        branchName: feature.branchName ?? null,
+        passes: true,
+        message: 'Pipeline resumed and completed successfully',
+        projectPath,
+      });
+    } catch (error) {
+      const errorInfo = classifyError(error);
+      const runningEntry = this.runningFeatures.get(featureId);
+
+      if (runningEntry?.budgetExceeded) {
+        await this.handleFeatureBudgetExceeded(projectPath, feature, runningEntry);
+      } else if (errorInfo.isAbort) {
+        this.emitAutoModeEvent('auto_mode_feature_complete', {
+          featureId,
+          featureName: feature.title,
+          branchName: feature.branchName ?? null,
+          passes: false,
+          message: 'Pipeline resume stopped by user',
+          projectPath,
+        });
+      } else {
+        logger.error(`Pipeline resume failed for feature ${featureId}:`, error);
+        await this.updateFeatureStatus(projectPath, featureId, 'backlog');
+        this.emitAutoModeEvent('auto_mode_error', {
+          featureId,
+          featureName: feature.title,
+          branchName: feature.branchName ?? null,
+          error: errorInfo.message,
+          errorType: errorInfo.type,
+          projectPath,
+        });
+        await this.notifyFeatureFailed(projectPath, featureId, feature.title, errorInfo.message);
+      }
+    } finally {
+      this.releaseRunningFeature(featureId);
+    }
+  }
+
+  /**
+   * Follow up on a feature with additional instructions
+   */
+  async followUpFeature(
+    projectPath: string,
+    featureId: string,
+    prompt: string,
+    imagePaths?: string[],
+    useWorktrees = true
+  ): Promise<void> {
+    // Validate project path early for fast failure
+    validateWorkingDirectory(projectPath);
+
+    const runningEntry = this.acquireRunningFeature({
+      featureId,
+      projectPath,
+      isAutoMode: false,
+    });
+    const abortController = runningEntry.abortController;
+
+    // Load feature info for context FIRST to get branchName
+    const feature = await this.loadFeature(projectPath, featureId);
+
+    // Derive workDir from feature.branchName
+    // If no branchName, derive from feature ID: feature/{featureId}
+    let workDir = path.resolve(projectPath);
+    let worktreePath: string | null = null;
+    const branchName = feature?.branchName || `feature/${featureId}`;
+
+    if (useWorktrees && branchName) {
+      // Try to find existing worktree for this branch
+      worktreePath = await this.findExistingWorktreeForBranch(projectPath, branchName);
+
+      if (worktreePath) {
+        workDir = worktreePath;
+        logger.info(`Follow-up using worktree for branch "${branchName}": ${workDir}`);
+      }
+    }
+
+    // Load previous agent output if it exists
+    const featureDir = getFeatureDir(projectPath, featureId);
+    const contextPath = path.join(featureDir, 'agent-output.md');
+    let previousContext = '';
+    try {
+      previousContext = (await secureFs.readFile(contextPath, 'utf-8')) as string;
+    } catch {
+      // No previous context
+    }
+
+    // Load autoLoadClaudeMd setting to determine context loading strategy
+    const autoLoadClaudeMd = await getAutoLoadClaudeMdSetting(
+      projectPath,
+      this.settingsService,
+      '[AutoMode]'
     );
 
-    // Get customized prompts from settings
-    const prompts = await getPromptCustomization(this.settingsService, '[AutoMode]');
+    // Get customized prompts from settings
+    const prompts = await getPromptCustomization(this.settingsService, '[AutoMode]');
+
+    // Load project context files (CLAUDE.md, CODE_QUALITY.md, etc.) - passed as system prompt
+    const contextResult = await loadContextFiles({
+      projectPath,
+      fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
+      taskContext: {
+        title: feature?.title ?? prompt.substring(0, 200),
+        description: feature?.description ?? prompt,
+        category: feature?.category,
+        agentTypes: ['follow-up'],
+        changedPaths: [
+          ...(feature
+            ? await this.getFeaturePaths(feature, workDir)
+            : await this.getChangedFiles(workDir)),
+          ...extractPathMentions(prompt),
+        ],
+      },
+    });
+
+    // When autoLoadClaudeMd is enabled, filter out CLAUDE.md to avoid duplication
+    // (SDK handles CLAUDE.md via settingSources), but keep other context files like CODE_QUALITY.md
+    const contextFilesPrompt = filterClaudeMdFromContext(contextResult, autoLoadClaudeMd);
+
+    // Get model from feature and determine provider early for tracking
+    const model = resolveModelString(feature?.model, DEFAULT_MODELS.claude);
+
+    // Fit context files, the feature and previous work into the model's context window;
+    // the follow-up instructions are always sent in full
+    const { contents: promptContents, budget: promptBudget } = fitPromptToModel(model, [
+      contextFilesSection(contextFilesPrompt),
+      featureSection(
+        feature
+          ? this.buildFeaturePrompt(feature, prompts.taskExecution)
+          : `**Feature ID:** ${featureId}`
+      ),
+      previousWorkSection(previousContext),
+      instructionsSection('follow-up', 'Follow-up instructions', prompt),
+    ]);
+
+    // Build complete prompt with feature info, previous context, and follow-up instructions
+    let fullPrompt = `## Follow-up on Feature Implementation
+
+${promptContents['feature']}
+`;
+
+    if (promptContents['previous-work']) {
+      fullPrompt += `
+## Previous Agent Work
+The following is the output from the previous implementation attempt:
+
+${promptContents['previous-work']}
+`;
+    }
+
+    fullPrompt += `
+## Follow-up Instructions
+${prompt}
+
+## Task
+Address the follow-up instructions above. Review the previous work and make the requested changes or fixes.`;
+
+    const provider = ProviderFactory.getProviderNameForModel(model);
+    logger.info(`Follow-up for feature ${featureId} using model: ${model}, provider: ${provider}`);
+
+    runningEntry.worktreePath = worktreePath;
+    runningEntry.branchName = branchName;
+    runningEntry.model = model;
+    runningEntry.provider = provider;
+
+    try {
+      await this.createFeatureCheckpoint(projectPath, featureId, workDir, {
+        kind: 'follow_up',
+        label: `Before follow-up: ${prompt.substring(0, 80)}`,
+        featureStatus: feature?.status || 'waiting_approval',
+        agentOutput: previousContext,
+      });
+
+      // Update feature status to in_progress BEFORE emitting event
+      // This ensures the frontend sees the updated status when it reloads features
+      await this.updateFeatureStatus(projectPath, featureId, 'in_progress');
+
+      // Emit feature start event AFTER status update so frontend sees correct status
+      this.emitAutoModeEvent('auto_mode_feature_start', {
+        featureId,
+        projectPath,
+        branchName,
+        feature: feature || {
+          id: featureId,
+          title: 'Follow-up',
+          description: prompt.substring(0, 100),
+        },
+        model,
+        provider,
+      });
+
+      // Copy follow-up images to feature folder
+      const copiedImagePaths: string[] = [];
+      if (imagePaths && imagePaths.length > 0) {
+        const featureDirForImages = getFeatureDir(projectPath, featureId);
+        const featureImagesDir = path.join(featureDirForImages, 'images');
+
+        await secureFs.mkdir(featureImagesDir, { recursive: true });
+
+        for (const imagePath of imagePaths) {
+          try {
+            // Get the filename from the path
+            const filename = path.basename(imagePath);
+            const destPath = path.join(featureImagesDir, filename);
+
+            // Copy the image
+            await secureFs.copyFile(imagePath, destPath);
+
+            // Store the absolute path (external storage uses absolute paths)
+            copiedImagePaths.push(destPath);
+          } catch (error) {
+            logger.error(`Failed to copy follow-up image ${imagePath}:`, error);
+          }
+        }
+      }
+
+      // Update feature object with new follow-up images BEFORE building prompt
+      if (copiedImagePaths.length > 0 && feature) {
+        const currentImagePaths = feature.imagePaths || [];
+        const newImagePaths = copiedImagePaths.map((p) => ({
+          path: p,
+          filename: path.basename(p),
+          mimeType: 'image/png', // Default, could be improved
+        }));
+
+        feature.imagePaths = [...currentImagePaths, ...newImagePaths];
+      }
+
+      // Combine original feature images with new follow-up images
+      const allImagePaths: string[] = [];
+
+      // Add all images from feature (now includes both original and new)
+      if (feature?.imagePaths) {
+        const allPaths = feature.imagePaths.map((img) =>
+          typeof img === 'string' ? img : img.path
+        );
+        allImagePaths.push(...allPaths);
+      }
+
+      // Save updated feature.json with new images (atomic write with backup)
+      if (copiedImagePaths.length > 0 && feature) {
+        const featureDirForSave = getFeatureDir(projectPath, featureId);
+        const featurePath = path.join(featureDirForSave, 'feature.json');
+
+        try {
+          await atomicWriteJson(featurePath, feature, { backupCount: DEFAULT_BACKUP_COUNT });
+        } catch (error) {
+          logger.error(`Failed to save feature.json:`, error);
+        }
+      }
+
+      // Use fullPrompt (already built above) with model and all images
+      // Note: Follow-ups skip planning mode - they continue from previous work
+      // Pass previousContext so the history is preserved in the output file
+      // Context files are passed as system prompt for higher priority
+      // Retried and falling back to other models as configured by the retry policy
+      await this.runAgentWithFallback(
+        projectPath,
+        feature ?? { id: featureId, branchName },
+        runningEntry,
+        async (attemptModel, attempt) =>
+          this.runAgent(
+            workDir,
+            featureId,
+            fullPrompt,
+            abortController,
+            projectPath,
+            allImagePaths.length > 0 ? allImagePaths : imagePaths,
+            attemptModel,
+            {
+              projectPath,
+              planningMode: 'skip', // Follow-ups don't require approval
+              // Later attempts continue the log of the failed ones
+              previousContent:
+                attempt > 0
+                  ? await this.readAgentOutput(contextPath)
+                  : previousContext || undefined,
+              systemPrompt: promptContents['context-files'] || undefined,
+              autoLoadClaudeMd,
+              thinkingLevel: feature?.thinkingLevel,
+              usageSource: 'follow_up',
+              promptBudget,
+            }
+          ),
+        model
+      );
+
+      // Check which submitted review comments the follow-up addressed
+      await this.resolveFeatureReviewComments(projectPath, featureId, workDir);
+
+      // Determine final status based on testing mode:
+      // - skipTests=false (automated testing): go directly to 'verified' (no manual verify needed)
+      // - skipTests=true (manual verification): go to 'waiting_approval' for manual review
+      // A follow-up doesn't re-run the pipeline, so a feature that failed a pipeline step
+      // also goes to 'waiting_approval' rather than skipping the gate
+      // Acceptance criteria are judged again against the updated work
+      const failedPipelineStep = feature?.pipelineResults?.some((r) => r.verdict === 'fail');
+      const finalStatus = feature
+        ? await this.getCompletionStatus(
+            projectPath,
+            feature,
+            workDir,
+            abortController,
+            failedPipelineStep
+          )
+        : 'verified';
+      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
+
+      // Record success to reset consecutive failure tracking
+      this.recordSuccess();
+
+      this.emitAutoModeEvent('auto_mode_feature_complete', {
+        featureId,
+        featureName: feature?.title,
+        branchName: branchName ?? null,
+        passes: true,
+        message: `Follow-up completed successfully${finalStatus === 'verified' ? ' - auto-verified' : ''}`,
+        projectPath,
+        model,
+        provider,
+      });
+    } catch (error) {
+      const errorInfo = classifyError(error);
+      // Review comments this follow-up was addressing weren't handled
+      await this.resetSubmittedReviewComments(projectPath, featureId);
+      if (runningEntry.budgetExceeded && feature) {
+        await this.handleFeatureBudgetExceeded(projectPath, feature, runningEntry);
+      } else if (!errorInfo.isCancellation) {
+        this.emitAutoModeEvent('auto_mode_error', {
+          featureId,
+          featureName: feature?.title,
+          branchName: branchName ?? null,
+          error: errorInfo.message,
+          errorType: errorInfo.type,
+          projectPath,
+        });
+        await this.notifyFeatureFailed(projectPath, featureId, feature?.title, errorInfo.message);
+
+        // Track this failure and check if we should pause auto mode
+        const shouldPause = this.trackFailureAndCheckPause({
+          type: errorInfo.type,
+          message: errorInfo.message,
+        });
+
+        if (shouldPause) {
+          this.signalShouldPause({
+            type: errorInfo.type,
+            message: errorInfo.message,
+          });
+        }
+      }
+    } finally {
+      this.releaseRunningFeature(featureId);
+    }
+  }
+
+  /**
+   * Submit inline diff review comments as a follow-up
+   *
+   * The comments are saved on the feature as submitted, turned into a
+   * structured follow-up prompt and run through followUpFeature. Once the
+   * follow-up finishes, each comment is marked resolved or unresolved from the
+   * new diff. Comments that were submitted before are sent again. If the
+   * follow-up fails or can't start, the comments go back to draft.
+   */
+  async submitReview(
+    projectPath: string,
+    featureId: string,
+    comments: ReviewComment[],
+    useWorktrees = true
+  ): Promise<void> {
+    const feature = await this.loadFeature(projectPath, featureId);
+    if (!feature) {
+      throw new Error(`Feature ${featureId} not found`);
+    }
+
+    const submittedAt = new Date().toISOString();
+    const submitted: ReviewComment[] = comments.map((comment) => ({
+      ...comment,
+      status: 'submitted',
+      submittedAt,
+      resolvedAt: undefined,
+    }));
+    const submittedIds = new Set(submitted.map((comment) => comment.id));
+    await this.updateFeaturePipelineState(projectPath, featureId, {
+      reviewComments: [
+        ...(feature.reviewComments ?? []).filter((comment) => !submittedIds.has(comment.id)),
+        ...submitted,
+      ],
+    });
+
+    try {
+      await this.followUpFeature(
+        projectPath,
+        featureId,
+        buildReviewPrompt(submitted),
+        undefined,
+        useWorktrees
+      );
+    } catch (error) {
+      await this.resetSubmittedReviewComments(projectPath, featureId);
+      throw error;
+    }
+  }
+
+  /**
+   * Return a feature's submitted review comments to draft after the follow-up
+   * addressing them failed, so they can be submitted again
+   */
+  private async resetSubmittedReviewComments(
+    projectPath: string,
+    featureId: string
+  ): Promise<void> {
+    const feature = await this.loadFeature(projectPath, featureId);
+    const comments = feature?.reviewComments;
+    if (!comments?.some((comment) => comment.status === 'submitted')) {
+      return;
+    }
+
+    try {
+      await this.updateFeaturePipelineState(projectPath, featureId, {
+        reviewComments: comments.map(
+          (comment): ReviewComment =>
+            comment.status === 'submitted'
+              ? { ...comment, status: 'draft', submittedAt: undefined }
+              : comment
+        ),
+      });
+    } catch (error) {
+      logger.error(`Failed to reset review comments for ${featureId}:`, error);
+    }
+  }
+
+  /**
+   * Mark a feature's submitted review comments resolved or unresolved
+   * based on the diff of its working directory from the base branch, so
+   * lines the follow-up committed still count as part of the feature
+   */
+  private async resolveFeatureReviewComments(
+    projectPath: string,
+    featureId: string,
+    workDir: string
+  ): Promise<void> {
+    const feature = await this.loadFeature(projectPath, featureId);
+    const comments = feature?.reviewComments;
+    if (!comments?.some((comment) => comment.status === 'submitted')) {
+      return;
+    }
+
+    try {
+      const { diff } = await getGitRepositoryDiffs(workDir, await this.getMergeBase(workDir));
+      const reviewComments = resolveReviewComments(comments, diff);
+      await this.updateFeaturePipelineState(projectPath, featureId, { reviewComments });
+
+      const wasSubmitted = new Set(
+        comments.filter((comment) => comment.status === 'submitted').map((comment) => comment.id)
+      );
+      const updated = reviewComments.filter((comment) => wasSubmitted.has(comment.id));
+      this.emitAutoModeEvent('review_comments_resolved', {
+        featureId,
+        projectPath,
+        resolved: updated.filter((comment) => comment.status === 'resolved').length,
+        unresolved: updated.filter((comment) => comment.status === 'unresolved').length,
+      });
+    } catch (error) {
+      logger.error(`Failed to resolve review comments for ${featureId}:`, error);
+    }
+  }
+
+  /**
+   * Verify a feature's implementation
+   */
+  async verifyFeature(projectPath: string, featureId: string): Promise<boolean> {
+    // Load feature to get the name for event reporting
+    const feature = await this.loadFeature(projectPath, featureId);
 
-    // Load project context files (CLAUDE.md, CODE_QUALITY.md, etc.) - passed as system prompt
-    const contextResult = await loadContextFiles({
-      projectPath,
-      fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
-      taskContext: {
-        title: feature?.title ?? prompt.substring(0, 200),
-        description: feature?.description ?? prompt,
-      },
-    });
+    // Worktrees are in project dir
+    // Sanitize featureId the same way it's sanitized when creating worktrees
+    const sanitizedFeatureId = featureId.replace(/[^a-zA-Z0-9_-]/g, '-');
+    const worktreePath = path.join(projectPath, '.worktrees', sanitizedFeatureId);
+    let workDir = projectPath;
 
-    // When autoLoadClaudeMd is enabled, filter out CLAUDE.md to avoid duplication
-    // (SDK handles CLAUDE.md via settingSources), but keep other context files like CODE_QUALITY.md
-    const contextFilesPrompt = filterClaudeMdFromContext(contextResult, autoLoadClaudeMd);
+    try {
+      await secureFs.access(worktreePath);
+      workDir = worktreePath;
+    } catch {
+      // No worktree
+    }
 
-    // Build complete prompt with feature info, previous context, and follow-up instructions
-    let fullPrompt = `## Follow-up on Feature Implementation
+    // Run verification - check if tests pass, build works, etc.
+    const verificationChecks = [
+      { cmd: 'npm run lint', name: 'Lint' },
+      { cmd: 'npm run typecheck', name: 'Type check' },
+      { cmd: 'npm test', name: 'Tests' },
+      { cmd: 'npm run build', name: 'Build' },
+    ];
 
-${feature ? this.buildFeaturePrompt(feature, prompts.taskExecution) : `**Feature ID:** ${featureId}`}
-`;
+    let allPassed = true;
+    const results: Array<{ check: string; passed: boolean; output?: string }> = [];
 
-    if (previousContext) {
-      fullPrompt += `
-## Previous Agent Work
-The following is the output from the previous implementation attempt:
+    for (const check of verificationChecks) {
+      try {
+        const { stdout, stderr } = await execAsync(check.cmd, {
+          cwd: workDir,
+          timeout: 120000,
+        });
+        results.push({
+          check: check.name,
+          passed: true,
+          output: stdout || stderr,
+        });
+      } catch (error) {
+        allPassed = false;
+        results.push({
+          check: check.name,
+          passed: false,
+          output: (error as Error).message,
+        });
+        break; // Stop on first failure
+      }
+    }
 
-${previousContext}
-`;
+    // Once the checks pass, the acceptance criteria must pass too
+    if (allPassed) {
+      const judgement = await this.judgeAcceptanceCriteria(
+        projectPath,
+        featureId,
+        workDir,
+        new AbortController()
+      );
+      if (judgement && !judgement.passed) {
+        allPassed = false;
+        results.push({ check: 'Acceptance criteria', passed: false, output: judgement.summary });
+      }
     }
 
-    fullPrompt += `
-## Follow-up Instructions
-${prompt}
+    this.emitAutoModeEvent('auto_mode_feature_complete', {
+      featureId,
+      featureName: feature?.title,
+      branchName: feature?.branchName ?? null,
+      passes: allPassed,
+      message: allPassed
+        ? 'All verification checks passed'
+        : `Verification failed: ${results.find((r) => !r.passed)?.check || 'Unknown'}`,
+      projectPath,
+    });
 
-## Task
-Address the follow-up instructions above. Review the previous work and make the requested changes or fixes.`;
+    return allPassed;
+  }
 
-    // Get model from feature and determine provider early for tracking
-    const model = resolveModelString(feature?.model, DEFAULT_MODELS.claude);
-    const provider = ProviderFactory.getProviderNameForModel(model);
-    logger.info(`Follow-up for feature ${featureId} using model: ${model}, provider: ${provider}`);
+  /**
+   * Commit feature changes
+   * @param projectPath - The main project path
+   * @param featureId - The feature ID to commit
+   * @param providedWorktreePath - Optional: the worktree path where the feature's changes are located
+   */
+  async commitFeature(
+    projectPath: string,
+    featureId: string,
+    providedWorktreePath?: string
+  ): Promise<string | null> {
+    let workDir = projectPath;
 
-    runningEntry.worktreePath = worktreePath;
-    runningEntry.branchName = branchName;
-    runningEntry.model = model;
-    runningEntry.provider = provider;
+    // Use the provided worktree path if given
+    if (providedWorktreePath) {
+      try {
+        await secureFs.access(providedWorktreePath);
+        workDir = providedWorktreePath;
+        logger.info(`Committing in provided worktree: ${workDir}`);
+      } catch {
+        logger.info(
+          `Provided worktree path doesn't exist: ${providedWorktreePath}, using project path`
+        );
+      }
+    } else {
+      // Fallback: try to find worktree at legacy location
+      // Sanitize featureId the same way it's sanitized when creating worktrees
+      const sanitizedFeatureId = featureId.replace(/[^a-zA-Z0-9_-]/g, '-');
+      const legacyWorktreePath = path.join(projectPath, '.worktrees', sanitizedFeatureId);
+      try {
+        await secureFs.access(legacyWorktreePath);
+        workDir = legacyWorktreePath;
+        logger.info(`Committing in legacy worktree: ${workDir}`);
+      } catch {
+        logger.info(`No worktree found, committing in project path: ${workDir}`);
+      }
+    }
 
     try {
-      // Update feature status to in_progress BEFORE emitting event
-      // This ensures the frontend sees the updated status when it reloads features
-      await this.updateFeatureStatus(projectPath, featureId, 'in_progress');
+      // Check for changes
+      const { stdout: status } = await execAsync('git status --porcelain', {
+        cwd: workDir,
+      });
+      if (!status.trim()) {
+        return null; // No changes
+      }
 
-      // Emit feature start event AFTER status update so frontend sees correct status
-      this.emitAutoModeEvent('auto_mode_feature_start', {
+      // Load feature for commit message
+      const feature = await this.loadFeature(projectPath, featureId);
+      const commitMessage = feature
+        ? await this.generateCommitMessage(feature, workDir)
+        : `feat: Feature ${featureId}\n\nImplemented by Automaker auto-mode`;
+
+      // Determine which files to stage
+      // For feature branches, only stage files changed on this branch to avoid committing unrelated changes
+      let filesToStage: string[] = [];
+
+      try {
+        // Get the current branch
+        const { stdout: currentBranch } = await execAsync('git rev-parse --abbrev-ref HEAD', {
+          cwd: workDir,
+        });
+        const branch = currentBranch.trim();
+
+        // Get the base branch (usually main/master)
+        const { stdout: baseBranchOutput } = await execAsync(
+          'git symbolic-ref refs/remotes/origin/HEAD 2>/dev/null || echo "refs/remotes/origin/main"',
+          { cwd: workDir }
+        );
+        const baseBranch = baseBranchOutput.trim().replace('refs/remotes/origin/', '');
+
+        // If we're on a feature branch (not the base branch), only stage files changed on this branch
+        if (branch !== baseBranch && feature?.branchName) {
+          try {
+            // Get files changed on this branch compared to base
+            const { stdout: branchFiles } = await execAsync(
+              `git diff --name-only ${baseBranch}...HEAD`,
+              { cwd: workDir }
+            );
+
+            if (branchFiles.trim()) {
+              filesToStage = branchFiles.trim().split('\n').filter(Boolean);
+              logger.info(`Staging ${filesToStage.length} files changed on branch ${branch}`);
+            }
+          } catch (diffError) {
+            // If diff fails (e.g., base branch doesn't exist), fall back to staging all changes
+            logger.warn(`Could not diff against base branch, staging all changes: ${diffError}`);
+            filesToStage = [];
+          }
+        }
+      } catch (error) {
+        logger.warn(`Could not determine branch-specific files: ${error}`);
+      }
+
+      // Stage files
+      if (filesToStage.length > 0) {
+        // Stage only the specific files changed on this branch
+        for (const file of filesToStage) {
+          try {
+            await execAsync(`git add "${file.replace(/"/g, '\\"')}"`, { cwd: workDir });
+          } catch (error) {
+            logger.warn(`Failed to stage file ${file}: ${error}`);
+          }
+        }
+      } else {
+        // Fallback: stage all changes (original behavior)
+        // This happens for main branch features or when branch detection fails
+        await execAsync('git add -A', { cwd: workDir });
+      }
+
+      // Commit
+      await execAsync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`, {
+        cwd: workDir,
+      });
+
+      // Get commit hash
+      const { stdout: hash } = await execAsync('git rev-parse HEAD', {
+        cwd: workDir,
+      });
+
+      this.emitAutoModeEvent('auto_mode_feature_complete', {
         featureId,
+        featureName: feature?.title,
+        branchName: feature?.branchName ?? null,
+        passes: true,
+        message: `Changes committed: ${hash.trim().substring(0, 8)}`,
         projectPath,
-        branchName,
-        feature: feature || {
-          id: featureId,
-          title: 'Follow-up',
-          description: prompt.substring(0, 100),
-        },
-        model,
-        provider,
       });
 
-      // Copy follow-up images to feature folder
-      const copiedImagePaths: string[] = [];
-      if (imagePaths && imagePaths.length > 0) {
-        const featureDirForImages = getFeatureDir(projectPath, featureId);
-        const featureImagesDir = path.join(featureDirForImages, 'images');
+      return hash.trim();
+    } catch (error) {
+      logger.error(`Commit failed for ${featureId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List the checkpoints taken while working on a feature, oldest first
+   */
+  async listCheckpoints(projectPath: string, featureId: string): Promise<FeatureCheckpoint[]> {
+    return getCheckpointService().listCheckpoints(projectPath, featureId);
+  }
+
+  /**
+   * Roll a feature back to a checkpoint
+   *
+   * Restores the working directory and agent output, and forgets progress
+   * made since: tasks from the checkpointed one onward go back to pending and
+   * pipeline results recorded afterwards are dropped. With `resume`, task and
+   * pipeline checkpoints continue from where the checkpoint was taken, in the
+   * status the feature had then; follow-up checkpoints are never resumed since
+   * a new follow-up is needed. Without resuming, a feature checkpointed while
+   * running waits for approval instead, as nothing is running it.
+   *
+   * Refused while another feature runs in the checkpoint's working directory,
+   * or when that directory has switched to a different branch.
+   *
+   * @returns The restored checkpoint and whether execution was resumed
+   */
+  async rollbackToCheckpoint(
+    projectPath: string,
+    featureId: string,
+    checkpointId: string,
+    options: { resume?: boolean; useWorktrees?: boolean } = {}
+  ): Promise<{ checkpoint: FeatureCheckpoint; resumed: boolean }> {
+    if (this.isFeatureRunning(featureId)) {
+      throw new Error(`Feature ${featureId} is running. Stop it before rolling back.`);
+    }
+
+    const checkpointService = getCheckpointService();
+    const checkpoint = await checkpointService.getCheckpoint(projectPath, featureId, checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint ${checkpointId} not found for feature ${featureId}`);
+    }
 
-        await secureFs.mkdir(featureImagesDir, { recursive: true });
+    // Restoring rewrites the whole working directory, so nothing else may be working in it
+    const sharing = [...this.runningFeatures.values()].find(
+      (running) =>
+        running.featureId !== featureId &&
+        path.resolve(running.worktreePath ?? running.projectPath) ===
+          path.resolve(checkpoint.workDir)
+    );
+    if (sharing) {
+      throw new Error(
+        `Feature ${sharing.featureId} is running in ${checkpoint.workDir}. Stop it before rolling back.`
+      );
+    }
 
-        for (const imagePath of imagePaths) {
-          try {
-            // Get the filename from the path
-            const filename = path.basename(imagePath);
-            const destPath = path.join(featureImagesDir, filename);
+    const { agentOutput } = await checkpointService.restoreCheckpoint(projectPath, checkpoint);
+    if (agentOutput !== null) {
+      await secureFs.writeFile(
+        path.join(getFeatureDir(projectPath, featureId), 'agent-output.md'),
+        agentOutput
+      );
+    }
 
-            // Copy the image
-            await secureFs.copyFile(imagePath, destPath);
+    const featurePath = path.join(getFeatureDir(projectPath, featureId), 'feature.json');
+    const result = await readJsonWithRecovery<Feature | null>(featurePath, null, {
+      maxBackups: DEFAULT_BACKUP_COUNT,
+      autoRestore: true,
+    });
+    logRecoveryWarning(result, `Feature ${featureId}`, logger);
+    const feature = result.data;
+    const resumed = options.resume === true && checkpoint.kind !== 'follow_up';
+    if (feature) {
+      const wasRunning =
+        checkpoint.featureStatus === 'in_progress' ||
+        pipelineService.isPipelineStatus(checkpoint.featureStatus as FeatureStatusWithPipeline);
+      feature.status = !resumed && wasRunning ? 'waiting_approval' : checkpoint.featureStatus;
+      feature.error = undefined;
+      feature.pipelineStage = undefined;
+      feature.pipelineResults = feature.pipelineResults?.filter(
+        (stepResult) => stepResult.completedAt < checkpoint.createdAt
+      );
 
-            // Store the absolute path (external storage uses absolute paths)
-            copiedImagePaths.push(destPath);
-          } catch (error) {
-            logger.error(`Failed to copy follow-up image ${imagePath}:`, error);
-          }
+      const tasks = feature.planSpec?.tasks;
+      const taskIndex = tasks?.findIndex((task) => task.id === checkpoint.taskId) ?? -1;
+      if (feature.planSpec && tasks && taskIndex >= 0) {
+        for (const task of tasks.slice(taskIndex)) {
+          task.status = 'pending';
         }
+        feature.planSpec.currentTaskId = checkpoint.taskId;
+        feature.planSpec.tasksCompleted = tasks.filter(
+          (task) => task.status === 'completed'
+        ).length;
       }
 
-      // Update feature object with new follow-up images BEFORE building prompt
-      if (copiedImagePaths.length > 0 && feature) {
-        const currentImagePaths = feature.imagePaths || [];
-        const newImagePaths = copiedImagePaths.map((p) => ({
-          path: p,
-          filename: path.basename(p),
-          mimeType: 'image/png', // Default, could be improved
-        }));
+      feature.updatedAt = new Date().toISOString();
+      await atomicWriteJson(featurePath, feature, { backupCount: DEFAULT_BACKUP_COUNT });
+    }
 
-        feature.imagePaths = [...currentImagePaths, ...newImagePaths];
-      }
+    this.emitAutoModeEvent('checkpoint_restored', {
+      featureId,
+      projectPath,
+      checkpointId: checkpoint.id,
+      checkpointLabel: checkpoint.label,
+      resumed,
+    });
 
-      // Combine original feature images with new follow-up images
-      const allImagePaths: string[] = [];
+    if (resumed) {
+      this.resumeFeature(projectPath, featureId, options.useWorktrees ?? false).catch((error) => {
+        logger.error(`Resume after rollback of feature ${featureId} failed:`, error);
+      });
+    }
 
-      // Add all images from feature (now includes both original and new)
-      if (feature?.imagePaths) {
-        const allPaths = feature.imagePaths.map((img) =>
-          typeof img === 'string' ? img : img.path
-        );
-        allImagePaths.push(...allPaths);
+    return { checkpoint, resumed };
+  }
+
+  /**
+   * Take a checkpoint of a feature's working directory
+   *
+   * Failures are logged and never interrupt the run being checkpointed.
+   */
+  private async createFeatureCheckpoint(
+    projectPath: string,
+    featureId: string,
+    workDir: string,
+    input: CreateCheckpointInput
+  ): Promise<void> {
+    try {
+      const checkpoint = await getCheckpointService().createCheckpoint(
+        projectPath,
+        featureId,
+        workDir,
+        input
+      );
+      if (checkpoint) {
+        this.emitAutoModeEvent('checkpoint_created', {
+          featureId,
+          projectPath,
+          checkpoint,
+        });
       }
+    } catch (error) {
+      logger.warn(`Failed to create checkpoint for feature ${featureId}:`, error);
+    }
+  }
 
-      // Save updated feature.json with new images (atomic write with backup)
-      if (copiedImagePaths.length > 0 && feature) {
-        const featureDirForSave = getFeatureDir(projectPath, featureId);
-        const featurePath = path.join(featureDirForSave, 'feature.json');
+  /**
+   * Run a feature in competition mode
+   *
+   * Each contender implements the feature in parallel on its own branch and
+   * worktree, created from the feature's branch (or the current HEAD). When a
+   * candidate finishes, its changes are measured and the project's test
+   * command is run in its worktree. The feature then waits in
+   * waiting_approval for a winner to be promoted. Stopping the feature stops
+   * every candidate.
+   *
+   * @param contenders - Replaces the contenders saved on the feature, if given
+   */
+  async runCompetition(
+    projectPath: string,
+    featureId: string,
+    contenders?: CompetitionContender[]
+  ): Promise<void> {
+    const runningFeature = this.acquireRunningFeature({
+      featureId,
+      projectPath,
+      isAutoMode: false,
+    });
+    const { abortController } = runningFeature;
+    let feature: Feature | null = null;
+    let competition: FeatureCompetition | null = null;
+    // Candidates finish concurrently, so writes are chained to keep them in order
+    let pendingSave: Promise<void> = Promise.resolve();
+    const saveCompetition = () => {
+      pendingSave = pendingSave.then(() =>
+        this.updateFeaturePipelineState(projectPath, featureId, {
+          competition: structuredClone(competition ?? undefined),
+        })
+      );
+      return pendingSave;
+    };
 
-        try {
-          await atomicWriteJson(featurePath, feature, { backupCount: DEFAULT_BACKUP_COUNT });
-        } catch (error) {
-          logger.error(`Failed to save feature.json:`, error);
+    try {
+      validateWorkingDirectory(projectPath);
+
+      feature = await this.loadFeature(projectPath, featureId);
+      if (!feature) {
+        throw new Error(`Feature ${featureId} not found`);
+      }
+      if (contenders) {
+        feature.contenders = contenders;
+        await this.updateFeaturePipelineState(projectPath, featureId, { contenders });
+      }
+      const activeContenders = (feature.contenders ?? []).slice(0, MAX_COMPETITION_CONTENDERS);
+      if (activeContenders.length < 2) {
+        throw new Error('Competition mode needs at least two contenders');
+      }
+
+      // Candidates of an earlier competition that was never promoted are replaced
+      const competitionService = getCompetitionService();
+      if (feature.competition && feature.competition.status !== 'promoted') {
+        for (const candidate of feature.competition.candidates) {
+          await competitionService.removeCandidateWorktree(
+            projectPath,
+            candidate.worktreePath,
+            candidate.branchName
+          );
         }
       }
 
-      // Use fullPrompt (already built above) with model and all images
-      // Note: Follow-ups skip planning mode - they continue from previous work
-      // Pass previousContext so the history is preserved in the output file
-      // Context files are passed as system prompt for higher priority
-      await this.runAgent(
-        workDir,
+      const baseBranch =
+        feature.branchName && (await this.getExistingBranches(projectPath)).has(feature.branchName)
+          ? feature.branchName
+          : null;
+      // Candidate IDs are unique per run so a promoted winner's branch is never reused
+      const runId = Date.now().toString(36);
+      competition = {
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        baseBranch,
+        candidates: activeContenders.map((contender, index) => {
+          const id = `${runId}-c${index + 1}`;
+          const branchName = competitionService.getCandidateBranchName(featureId, id);
+          return {
+            ...contender,
+            id,
+            branchName,
+            worktreePath: competitionService.getCandidateWorktreePath(projectPath, branchName),
+            status: 'pending',
+          };
+        }),
+      };
+      await saveCompetition();
+      await this.updateFeatureStatus(projectPath, featureId, 'in_progress');
+
+      this.emitAutoModeEvent('auto_mode_feature_start', {
         featureId,
-        fullPrompt,
-        abortController,
         projectPath,
-        allImagePaths.length > 0 ? allImagePaths : imagePaths,
-        model,
-        {
-          projectPath,
-          planningMode: 'skip', // Follow-ups don't require approval
-          previousContent: previousContext || undefined,
-          systemPrompt: contextFilesPrompt || undefined,
-          autoLoadClaudeMd,
-          thinkingLevel: feature?.thinkingLevel,
-        }
+        branchName: feature.branchName ?? null,
+        feature: {
+          id: featureId,
+          title: feature.title || 'Loading...',
+          description: feature.description || 'Feature is starting',
+        },
+      });
+      this.emitAutoModeEvent('competition_started', {
+        featureId,
+        projectPath,
+        candidates: competition.candidates,
+      });
+
+      const autoLoadClaudeMd = await getAutoLoadClaudeMdSetting(
+        projectPath,
+        this.settingsService,
+        '[AutoMode]'
       );
+      const prompts = await getPromptCustomization(this.settingsService, '[AutoMode]');
+      const contextResult = await loadContextFiles({
+        projectPath,
+        fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
+        taskContext: {
+          title: feature.title ?? '',
+          description: feature.description ?? '',
+          category: feature.category,
+          agentTypes: ['implementation'],
+        },
+      });
+      const projectSettings = await this.settingsService?.getProjectSettings(projectPath);
 
-      // Determine final status based on testing mode:
-      // - skipTests=false (automated testing): go directly to 'verified' (no manual verify needed)
-      // - skipTests=true (manual verification): go to 'waiting_approval' for manual review
-      const finalStatus = feature?.skipTests ? 'waiting_approval' : 'verified';
-      await this.updateFeatureStatus(projectPath, featureId, finalStatus);
+      const run: CompetitionRunContext = {
+        projectPath,
+        feature,
+        competition,
+        abortController,
+        autoLoadClaudeMd,
+        contextFilesPrompt: filterClaudeMdFromContext(contextResult, autoLoadClaudeMd),
+        featurePrompt: this.buildFeaturePrompt(feature, prompts.taskExecution),
+        imagePaths: feature.imagePaths?.map((img) => (typeof img === 'string' ? img : img.path)),
+        testCommand: projectSettings?.testCommand,
+        saveCompetition,
+      };
+      await Promise.all(
+        competition.candidates.map((candidate) => this.runCompetitionCandidate(run, candidate))
+      );
 
-      // Record success to reset consecutive failure tracking
-      this.recordSuccess();
+      competition.completedAt = new Date().toISOString();
+      if (abortController.signal.aborted) {
+        competition.status = 'cancelled';
+        await saveCompetition();
+        throw new Error('Competition aborted');
+      }
+      competition.status = 'completed';
+      await saveCompetition();
+
+      const completedCount = competition.candidates.filter(
+        (candidate) => candidate.status === 'completed'
+      ).length;
+      if (completedCount === 0) {
+        throw new Error('Every competition candidate failed');
+      }
 
+      await this.updateFeatureStatus(projectPath, featureId, 'waiting_approval');
+      this.emitAutoModeEvent('competition_completed', {
+        featureId,
+        projectPath,
+        candidates: competition.candidates,
+      });
       this.emitAutoModeEvent('auto_mode_feature_complete', {
         featureId,
-        featureName: feature?.title,
-        branchName: branchName ?? null,
+        featureName: feature.title,
+        branchName: feature.branchName ?? null,
         passes: true,
-        message: `Follow-up completed successfully${finalStatus === 'verified' ? ' - auto-verified' : ''}`,
+        message: `Competition finished: ${completedCount} of ${competition.candidates.length} candidates ready to compare`,
         projectPath,
-        model,
-        provider,
       });
     } catch (error) {
       const errorInfo = classifyError(error);
-      if (!errorInfo.isCancellation) {
+
+      if (errorInfo.isAbort) {
+        await this.updateFeatureStatus(projectPath, featureId, 'backlog');
+        this.emitAutoModeEvent('auto_mode_feature_complete', {
+          featureId,
+          featureName: feature?.title,
+          branchName: feature?.branchName ?? null,
+          passes: false,
+          message: 'Competition stopped by user',
+          projectPath,
+        });
+      } else {
+        logger.error(`Competition for feature ${featureId} failed:`, error);
+        await this.updateFeatureStatus(projectPath, featureId, 'backlog');
         this.emitAutoModeEvent('auto_mode_error', {
           featureId,
           featureName: feature?.title,
-          branchName: branchName ?? null,
+          branchName: feature?.branchName ?? null,
           error: errorInfo.message,
           errorType: errorInfo.type,
           projectPath,
         });
-
-        // Track this failure and check if we should pause auto mode
-        const shouldPause = this.trackFailureAndCheckPause({
-          type: errorInfo.type,
-          message: errorInfo.message,
-        });
-
-        if (shouldPause) {
-          this.signalShouldPause({
-            type: errorInfo.type,
-            message: errorInfo.message,
-          });
-        }
-      }
-    } finally {
-      this.releaseRunningFeature(featureId);
-    }
-  }
-
-  /**
-   * Verify a feature's implementation
-   */
-  async verifyFeature(projectPath: string, featureId: string): Promise<boolean> {
-    // Load feature to get the name for event reporting
-    const feature = await this.loadFeature(projectPath, featureId);
-
-    // Worktrees are in project dir
-    // Sanitize featureId the same way it's sanitized when creating worktrees
-    const sanitizedFeatureId = featureId.replace(/[^a-zA-Z0-9_-]/g, '-');
-    const worktreePath = path.join(projectPath, '.worktrees', sanitizedFeatureId);
-    let workDir = projectPath;
-
-    try {
-      await secureFs.access(worktreePath);
-      workDir = worktreePath;
-    } catch {
-      // No worktree
-    }
-
-    // Run verification - check if tests pass, build works, etc.
-    const verificationChecks = [
-      { cmd: 'npm run lint', name: 'Lint' },
-      { cmd: 'npm run typecheck', name: 'Type check' },
-      { cmd: 'npm test', name: 'Tests' },
-      { cmd: 'npm run build', name: 'Build' },
-    ];
-
-    let allPassed = true;
-    const results: Array<{ check: string; passed: boolean; output?: string }> = [];
-
-    for (const check of verificationChecks) {
-      try {
-        const { stdout, stderr } = await execAsync(check.cmd, {
-          cwd: workDir,
-          timeout: 120000,
-        });
-        results.push({
-          check: check.name,
-          passed: true,
-          output: stdout || stderr,
-        });
-      } catch (error) {
-        allPassed = false;
-        results.push({
-          check: check.name,
-          passed: false,
-          output: (error as Error).message,
-        });
-        break; // Stop on first failure
+        await this.notifyFeatureFailed(projectPath, featureId, feature?.title, errorInfo.message);
       }
+    } finally {
+      await pendingSave;
+      this.releaseRunningFeature(featureId);
     }
+  }
 
-    this.emitAutoModeEvent('auto_mode_feature_complete', {
-      featureId,
-      featureName: feature?.title,
-      branchName: feature?.branchName ?? null,
-      passes: allPassed,
-      message: allPassed
-        ? 'All verification checks passed'
-        : `Verification failed: ${results.find((r) => !r.passed)?.check || 'Unknown'}`,
+  /**
+   * Implement, measure and test a single competition candidate
+   *
+   * Failures are recorded on the candidate and never stop the other candidates.
+   */
+  private async runCompetitionCandidate(
+    run: CompetitionRunContext,
+    candidate: CompetitionCandidate
+  ): Promise<void> {
+    const { projectPath, feature, competition, abortController } = run;
+    const competitionService = getCompetitionService();
+
+    try {
+      await competitionService.createCandidateWorktree(
+        projectPath,
+        candidate.branchName,
+        competition.baseBranch
+      );
+      candidate.status = 'running';
+      candidate.startedAt = new Date().toISOString();
+      await run.saveCompetition();
+
+      // Candidates can use models with different context windows, so each is fitted separately
+      const model = resolveModelString(candidate.model, DEFAULT_MODELS.claude);
+      const instructions = candidate.instructions?.trim() ?? '';
+      const { contents, budget } = fitPromptToModel(model, [
+        contextFilesSection(run.contextFilesPrompt),
+        featureSection(run.featurePrompt),
+        instructionsSection('candidate-instructions', 'Candidate instructions', instructions),
+      ]);
+      const prompt = instructions
+        ? `${contents['feature']}\n\n## Additional Instructions\n\n${instructions}`
+        : contents['feature'];
+      logger.info(
+        `Running competition candidate ${candidate.id} for feature ${feature.id} with model ${model}`
+      );
+      await this.runAgent(
+        candidate.worktreePath,
+        feature.id,
+        prompt,
+        abortController,
+        projectPath,
+        run.imagePaths,
+        model,
+        {
+          projectPath,
+          planningMode: 'skip',
+          systemPrompt: contents['context-files'] || undefined,
+          autoLoadClaudeMd: run.autoLoadClaudeMd,
+          thinkingLevel: candidate.thinkingLevel,
+          branchName: candidate.branchName,
+          usageSource: 'competition',
+          candidateId: candidate.id,
+          outputPath: this.getCompetitionOutputPath(projectPath, feature.id, candidate.id),
+          promptLabel: `Competition candidate ${candidate.id}`,
+          promptBudget: budget,
+        }
+      );
+      if (abortController.signal.aborted) {
+        throw new Error('Competition aborted');
+      }
+
+      candidate.diffStats = await competitionService.getDiffStats(candidate.worktreePath);
+      candidate.tests = await competitionService.runTests(candidate.worktreePath, run.testCommand);
+      candidate.status = 'completed';
+    } catch (error) {
+      const errorInfo = classifyError(error);
+      logger.warn(`Competition candidate ${candidate.id} for feature ${feature.id} failed:`, error);
+      candidate.status = 'failed';
+      candidate.error = errorInfo.isAbort ? 'Stopped' : errorInfo.message;
+    }
+
+    candidate.completedAt = new Date().toISOString();
+    await run.saveCompetition();
+    this.emitAutoModeEvent('competition_candidate_complete', {
+      featureId: feature.id,
       projectPath,
+      candidate,
     });
-
-    return allPassed;
   }
 
   /**
-   * Commit feature changes
-   * @param projectPath - The main project path
-   * @param featureId - The feature ID to commit
-   * @param providedWorktreePath - Optional: the worktree path where the feature's changes are located
+   * Promote the winner of a feature's competition
+   *
+   * The winner's branch becomes the feature's branch and its log becomes the
+   * feature's agent output. The other candidates' worktrees and branches are
+   * removed, as is the worktree of the branch the winner replaces (the
+   * winner was based on it). The feature stays in waiting_approval to be reviewed and verified
+   * as usual.
+   *
+   * @returns The promoted candidate
    */
-  async commitFeature(
+  async promoteCompetitionWinner(
     projectPath: string,
     featureId: string,
-    providedWorktreePath?: string
-  ): Promise<string | null> {
-    let workDir = projectPath;
+    candidateId: string
+  ): Promise<CompetitionCandidate> {
+    if (this.isFeatureRunning(featureId)) {
+      throw new Error(`Feature ${featureId} is running. Wait for the competition to finish.`);
+    }
 
-    // Use the provided worktree path if given
-    if (providedWorktreePath) {
-      try {
-        await secureFs.access(providedWorktreePath);
-        workDir = providedWorktreePath;
-        logger.info(`Committing in provided worktree: ${workDir}`);
-      } catch {
-        logger.info(
-          `Provided worktree path doesn't exist: ${providedWorktreePath}, using project path`
+    const featurePath = path.join(getFeatureDir(projectPath, featureId), 'feature.json');
+    const result = await readJsonWithRecovery<Feature | null>(featurePath, null, {
+      maxBackups: DEFAULT_BACKUP_COUNT,
+      autoRestore: true,
+    });
+    logRecoveryWarning(result, `Feature ${featureId}`, logger);
+    const feature = result.data;
+    const competition = feature?.competition;
+    if (!feature || competition?.status !== 'completed') {
+      throw new Error(`Feature ${featureId} has no finished competition to promote from`);
+    }
+    const winner = competition.candidates.find((candidate) => candidate.id === candidateId);
+    if (winner?.status !== 'completed') {
+      throw new Error(`Candidate ${candidateId} did not complete and cannot be promoted`);
+    }
+
+    const competitionService = getCompetitionService();
+    for (const candidate of competition.candidates) {
+      if (candidate.id !== winner.id) {
+        await competitionService.removeCandidateWorktree(
+          projectPath,
+          candidate.worktreePath,
+          candidate.branchName
         );
       }
-    } else {
-      // Fallback: try to find worktree at legacy location
-      // Sanitize featureId the same way it's sanitized when creating worktrees
-      const sanitizedFeatureId = featureId.replace(/[^a-zA-Z0-9_-]/g, '-');
-      const legacyWorktreePath = path.join(projectPath, '.worktrees', sanitizedFeatureId);
-      try {
-        await secureFs.access(legacyWorktreePath);
-        workDir = legacyWorktreePath;
-        logger.info(`Committing in legacy worktree: ${workDir}`);
-      } catch {
-        logger.info(`No worktree found, committing in project path: ${workDir}`);
-      }
     }
 
-    try {
-      // Check for changes
-      const { stdout: status } = await execAsync('git status --porcelain', {
-        cwd: workDir,
-      });
-      if (!status.trim()) {
-        return null; // No changes
+    const previousBranch = feature.branchName;
+    if (previousBranch && previousBranch !== winner.branchName) {
+      const previousWorktree = await this.findExistingWorktreeForBranch(
+        projectPath,
+        previousBranch
+      );
+      // Leave the branch alone when it is checked out in the project itself
+      if (previousWorktree && path.resolve(previousWorktree) !== path.resolve(projectPath)) {
+        await competitionService.removeCandidateWorktree(
+          projectPath,
+          previousWorktree,
+          previousBranch
+        );
       }
+    }
 
-      // Load feature for commit message
-      const feature = await this.loadFeature(projectPath, featureId);
-      const commitMessage = feature
-        ? await this.generateCommitMessage(feature, workDir)
-        : `feat: Feature ${featureId}\n\nImplemented by Automaker auto-mode`;
+    const winnerOutput = await this.readAgentOutput(
+      this.getCompetitionOutputPath(projectPath, featureId, winner.id)
+    );
+    if (winnerOutput) {
+      await secureFs.writeFile(
+        path.join(getFeatureDir(projectPath, featureId), 'agent-output.md'),
+        winnerOutput
+      );
+    }
 
-      // Determine which files to stage
-      // For feature branches, only stage files changed on this branch to avoid committing unrelated changes
-      let filesToStage: string[] = [];
+    competition.status = 'promoted';
+    competition.winnerId = winner.id;
+    competition.promotedAt = new Date().toISOString();
+    feature.branchName = winner.branchName;
+    feature.completedModel = resolveModelString(winner.model, DEFAULT_MODELS.claude);
+    feature.updatedAt = new Date().toISOString();
+    await atomicWriteJson(featurePath, feature, { backupCount: DEFAULT_BACKUP_COUNT });
 
-      try {
-        // Get the current branch
-        const { stdout: currentBranch } = await execAsync('git rev-parse --abbrev-ref HEAD', {
-          cwd: workDir,
-        });
-        const branch = currentBranch.trim();
+    this.emitAutoModeEvent('competition_promoted', {
+      featureId,
+      projectPath,
+      candidateId: winner.id,
+      branchName: winner.branchName,
+    });
 
-        // Get the base branch (usually main/master)
-        const { stdout: baseBranchOutput } = await execAsync(
-          'git symbolic-ref refs/remotes/origin/HEAD 2>/dev/null || echo "refs/remotes/origin/main"',
-          { cwd: workDir }
-        );
-        const baseBranch = baseBranchOutput.trim().replace('refs/remotes/origin/', '');
+    return winner;
+  }
 
-        // If we're on a feature branch (not the base branch), only stage files changed on this branch
-        if (branch !== baseBranch && feature?.branchName) {
-          try {
-            // Get files changed on this branch compared to base
-            const { stdout: branchFiles } = await execAsync(
-              `git diff --name-only ${baseBranch}...HEAD`,
-              { cwd: workDir }
-            );
+  /**
+   * Discard a feature's competition without promoting a winner
+   *
+   * Removes every candidate's worktree and branch and returns the feature to
+   * the backlog. A promoted competition only loses its record, since the
+   * winner's branch now belongs to the feature.
+   */
+  async discardCompetition(projectPath: string, featureId: string): Promise<void> {
+    if (this.isFeatureRunning(featureId)) {
+      throw new Error(
+        `Feature ${featureId} is running. Stop it before discarding the competition.`
+      );
+    }
 
-            if (branchFiles.trim()) {
-              filesToStage = branchFiles.trim().split('\n').filter(Boolean);
-              logger.info(`Staging ${filesToStage.length} files changed on branch ${branch}`);
-            }
-          } catch (diffError) {
-            // If diff fails (e.g., base branch doesn't exist), fall back to staging all changes
-            logger.warn(`Could not diff against base branch, staging all changes: ${diffError}`);
-            filesToStage = [];
-          }
-        }
-      } catch (error) {
-        logger.warn(`Could not determine branch-specific files: ${error}`);
-      }
+    const feature = await this.loadFeature(projectPath, featureId);
+    const competition = feature?.competition;
+    if (!competition) {
+      return;
+    }
 
-      // Stage files
-      if (filesToStage.length > 0) {
-        // Stage only the specific files changed on this branch
-        for (const file of filesToStage) {
-          try {
-            await execAsync(`git add "${file.replace(/"/g, '\\"')}"`, { cwd: workDir });
-          } catch (error) {
-            logger.warn(`Failed to stage file ${file}: ${error}`);
-          }
-        }
-      } else {
-        // Fallback: stage all changes (original behavior)
-        // This happens for main branch features or when branch detection fails
-        await execAsync('git add -A', { cwd: workDir });
+    if (competition.status !== 'promoted') {
+      const competitionService = getCompetitionService();
+      for (const candidate of competition.candidates) {
+        await competitionService.removeCandidateWorktree(
+          projectPath,
+          candidate.worktreePath,
+          candidate.branchName
+        );
       }
+      await this.updateFeatureStatus(projectPath, featureId, 'backlog');
+    }
+    await this.updateFeaturePipelineState(projectPath, featureId, { competition: undefined });
 
-      // Commit
-      await execAsync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`, {
-        cwd: workDir,
-      });
-
-      // Get commit hash
-      const { stdout: hash } = await execAsync('git rev-parse HEAD', {
-        cwd: workDir,
-      });
-
-      this.emitAutoModeEvent('auto_mode_feature_complete', {
-        featureId,
-        featureName: feature?.title,
-        branchName: feature?.branchName ?? null,
-        passes: true,
-        message: `Changes committed: ${hash.trim().substring(0, 8)}`,
-        projectPath,
-      });
+    this.emitAutoModeEvent('competition_discarded', { featureId, projectPath });
+  }
 
-      return hash.trim();
-    } catch (error) {
-      logger.error(`Commit failed for ${featureId}:`, error);
-      return null;
-    }
+  /**
+   * Get the path a competition candidate's agent output is written to
+   */
+  private getCompetitionOutputPath(
+    projectPath: string,
+    featureId: string,
+    candidateId: string
+  ): string {
+    return path.join(getFeatureDir(projectPath, featureId), 'competition', `${candidateId}.md`);
   }
 
   /**
@@ -3303,6 +5782,7 @@ Format your response as a structured markdown document.`;
         return;
       }
 
+      const previousStatus = feature.status;
       feature.status = status;
       feature.updatedAt = new Date().toISOString();
       // Set justFinishedAt timestamp when moving to waiting_approval (agent just completed)
@@ -3317,6 +5797,15 @@ Format your response as a structured markdown document.`;
       // Use atomic write with backup support
       await atomicWriteJson(featurePath, feature, { backupCount: DEFAULT_BACKUP_COUNT });
 
+      if (previousStatus !== status) {
+        this.events.emit('feature:status-changed', {
+          projectPath,
+          featureId,
+          status,
+          previousStatus,
+        });
+      }
+
       // Create notifications for important status changes
       const notificationService = getNotificationService();
       if (status === 'waiting_approval') {
@@ -3730,6 +6219,11 @@ Format your response as a structured markdown document.`;
               (feature.planSpec.tasksCompleted ?? 0) < (feature.planSpec.tasksTotal ?? 0)) ||
             feature.planSpec?.status === 'generating'; // Recover interrupted spec generation
 
+          // Features stopped for exceeding their budget wait for the user
+          if (feature.status === 'budget_exceeded') {
+            continue;
+          }
+
           if (needsRecovery) {
             // Filter by branchName:
             // - If branchName is null (main worktree), include features with:
@@ -4037,6 +6531,27 @@ You can use the Read tool to view these images at any time during implementation
     return prompt;
   }
 
+  /**
+   * Default prompt inspector label for an agent run
+   */
+  private getPromptLabel(
+    source: FeatureUsageSource | undefined,
+    step: Pick<PipelineStep, 'id' | 'name'> | undefined
+  ): string {
+    switch (source) {
+      case 'pipeline_step':
+        return `Pipeline step: ${step?.name ?? 'unknown'}`;
+      case 'follow_up':
+        return 'Follow-up';
+      case 'acceptance_judge':
+        return 'Acceptance judge';
+      case 'competition':
+        return 'Competition candidate';
+      default:
+        return 'Implementation';
+    }
+  }
+
   private async runAgent(
     workDir: string,
     featureId: string,
@@ -4054,6 +6569,20 @@ You can use the Read tool to view these images at any time during implementation
       autoLoadClaudeMd?: boolean;
       thinkingLevel?: ThinkingLevel;
       branchName?: string | null;
+      /** Lifecycle phase to attribute token usage to (defaults to 'implementation') */
+      usageSource?: FeatureUsageSource;
+      /** Pipeline step being executed (for usage attribution) */
+      pipelineStep?: Pick<PipelineStep, 'id' | 'name'>;
+      /** Restrict the agent to read-only tools (used by review steps) */
+      readOnly?: boolean;
+      /** Write output here instead of agent-output.md (steps of parallel pipeline stages) */
+      outputPath?: string;
+      /** What the run is for, shown in the prompt inspector (defaults to the usage source) */
+      promptLabel?: string;
+      /** How the prompt was fitted to the model's context window */
+      promptBudget?: PromptBudgetReport;
+      /** Competition candidate being run (for usage attribution and its own raw output log) */
+      candidateId?: string;
     }
   ): Promise<void> {
     const finalProjectPath = options?.projectPath || projectPath;
@@ -4133,7 +6662,7 @@ You can use the Read tool to view these images at any time during implementation
 
       // Save mock agent output
       const featureDirForOutput = getFeatureDir(projectPath, featureId);
-      const outputPath = path.join(featureDirForOutput, 'agent-output.md');
+      const outputPath = options?.outputPath ?? path.join(featureDirForOutput, 'agent-output.md');
 
       const mockOutput = `# Mock Agent Output
 
@@ -4145,7 +6674,7 @@ This is a mock agent response for CI/CD testing.
 
 ## Notes
 This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
-`;
+${options?.readOnly ? '\nVERDICT: PASS\n' : ''}`;
 
       await secureFs.mkdir(path.dirname(outputPath), { recursive: true });
       await secureFs.writeFile(outputPath, mockOutput);
@@ -4171,6 +6700,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
       cwd: workDir,
       model: model,
       abortController,
+      systemPrompt: options?.systemPrompt,
       autoLoadClaudeMd,
       mcpServers: Object.keys(mcpServers).length > 0 ? mcpServers : undefined,
       thinkingLevel: options?.thinkingLevel,
@@ -4179,7 +6709,9 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
     // Extract model, maxTurns, and allowedTools from SDK options
     const finalModel = sdkOptions.model!;
     const maxTurns = sdkOptions.maxTurns;
-    const allowedTools = sdkOptions.allowedTools as string[] | undefined;
+    const allowedTools = options?.readOnly
+      ? [...TOOL_PRESETS.readOnly]
+      : (sdkOptions.allowedTools as string[] | undefined);
 
     logger.info(
       `runAgent called for feature ${featureId} with model: ${finalModel}, planningMode: ${planningMode}, requiresApproval: ${requiresApproval}`
@@ -4244,6 +6776,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
       maxTurns: maxTurns,
       cwd: workDir,
       allowedTools: allowedTools,
+      readOnly: options?.readOnly,
       abortController,
       systemPrompt: sdkOptions.systemPrompt,
       settingSources: sdkOptions.settingSources,
@@ -4253,8 +6786,68 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
       claudeCompatibleProvider, // Pass provider for alternative endpoint configuration (GLM, MiniMax, etc.)
     };
 
+    // Record usage reported on result messages against the feature.
+    // Failures are logged and never interrupt the agent run.
+    const recordUsage = async (msg: ProviderMessage): Promise<void> => {
+      if (!msg.usage) return;
+      try {
+        const featureUsage = await getFeatureUsageService().recordUsage(projectPath, featureId, {
+          source: options?.usageSource ?? 'implementation',
+          stepId: options?.pipelineStep?.id,
+          stepName: options?.pipelineStep?.name,
+          candidateId: options?.candidateId,
+          model: finalModel,
+          provider: provider.getName(),
+          usage: msg.usage,
+        });
+        this.emitAutoModeEvent('feature_usage_updated', {
+          featureId,
+          projectPath,
+          usage: featureUsage.totals,
+        });
+        await this.enforceFeatureBudget(projectPath, featureId, featureUsage.totals);
+      } catch (error) {
+        logger.warn(`Failed to record usage for feature ${featureId}:`, error);
+      }
+    };
+
+    // Record each prompt exactly as sent, for the prompt inspector.
+    // Failures are logged and never interrupt the agent run.
+    const recordPrompt = async (
+      label: string,
+      promptText: string,
+      systemPrompt?: ExecuteOptions['systemPrompt'],
+      budget?: PromptBudgetReport
+    ): Promise<void> => {
+      try {
+        await getFeaturePromptService().recordPrompt(projectPath, featureId, {
+          source: options?.usageSource ?? 'implementation',
+          label,
+          stepId: options?.pipelineStep?.id,
+          candidateId: options?.candidateId,
+          model: finalModel,
+          budget,
+          ...(typeof systemPrompt === 'string'
+            ? { systemPrompt }
+            : systemPrompt && {
+                systemPromptPreset: systemPrompt.preset,
+                systemPrompt: systemPrompt.append,
+              }),
+          prompt: promptText,
+        });
+      } catch (error) {
+        logger.warn(`Failed to record prompt for feature ${featureId}:`, error);
+      }
+    };
+
     // Execute via provider
     logger.info(`Starting stream for feature ${featureId}...`);
+    await recordPrompt(
+      options?.promptLabel ?? this.getPromptLabel(options?.usageSource, options?.pipelineStep),
+      prompt,
+      executeOptions.systemPrompt,
+      options?.promptBudget
+    );
     const stream = provider.executeQuery(executeOptions);
     logger.info(`Stream created, starting to iterate...`);
     // Initialize with previous content if this is a follow-up, with a separator
@@ -4267,8 +6860,11 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
     // Agent output goes to .automaker directory
     // Note: We use projectPath here, not workDir, because workDir might be a worktree path
     const featureDirForOutput = getFeatureDir(projectPath, featureId);
-    const outputPath = path.join(featureDirForOutput, 'agent-output.md');
-    const rawOutputPath = path.join(featureDirForOutput, 'raw-output.jsonl');
+    const outputPath = options?.outputPath ?? path.join(featureDirForOutput, 'agent-output.md');
+    // Competition candidates run side by side, so each logs to its own file
+    const rawOutputPath = options?.candidateId
+      ? path.join(featureDirForOutput, 'competition', `${options.candidateId}-raw-output.jsonl`)
+      : path.join(featureDirForOutput, 'raw-output.jsonl');
 
     // Raw output logging is configurable via environment variable
     // Set AUTOMAKER_DEBUG_RAW_OUTPUT=true to enable raw stream event logging
@@ -4371,6 +6967,14 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
           throw new Error('Feature execution aborted');
         }
 
+        await this.createFeatureCheckpoint(projectPath, featureId, workDir, {
+          kind: 'task',
+          label: `Before task ${task.id}: ${task.description}`,
+          taskId: task.id,
+          featureStatus: 'in_progress',
+          agentOutput: responseText,
+        });
+
         // Mark task as in_progress immediately (even without TASK_START marker)
         await this.updateTaskStatus(projectPath, featureId, task.id, 'in_progress');
 
@@ -4402,6 +7006,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
         );
 
         // Execute task with dedicated agent
+        await recordPrompt(`Task ${task.id}: ${task.description}`, taskPrompt);
         const taskStream = provider.executeQuery({
           prompt: taskPrompt,
           model: effectiveBareModel,
@@ -4419,6 +7024,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
 
         // Process task stream
         for await (const msg of taskStream) {
+          await recordUsage(msg);
           if (msg.type === 'assistant' && msg.message?.content) {
             for (const block of msg.message.content) {
               if (block.type === 'text') {
@@ -4507,6 +7113,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
     try {
       streamLoop: for await (const msg of stream) {
         receivedAnyStreamMessage = true;
+        await recordUsage(msg);
         // Log raw stream event for debugging
         appendRawEvent(msg);
 
@@ -4642,6 +7249,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
                       planningMode,
                       planVersion,
                     });
+                    await this.notifyPlanApprovalRequired(finalProjectPath, featureId, planVersion);
 
                     // Wait for user response
                     try {
@@ -4760,6 +7368,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
                         });
 
                         // Make revision call
+                        await recordPrompt('Plan revision', revisionPrompt);
                         const revisionStream = provider.executeQuery({
                           prompt: revisionPrompt,
                           model: effectiveBareModel,
@@ -4774,6 +7383,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
 
                         let revisionText = '';
                         for await (const msg of revisionStream) {
+                          await recordUsage(msg);
                           if (msg.type === 'assistant' && msg.message?.content) {
                             for (const block of msg.message.content) {
                               if (block.type === 'text') {
@@ -4907,6 +7517,14 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
                       throw new Error('Feature execution aborted');
                     }
 
+                    await this.createFeatureCheckpoint(projectPath, featureId, workDir, {
+                      kind: 'task',
+                      label: `Before task ${task.id}: ${task.description}`,
+                      taskId: task.id,
+                      featureStatus: 'in_progress',
+                      agentOutput: responseText,
+                    });
+
                     // Mark task as in_progress immediately (even without TASK_START marker)
                     await this.updateTaskStatus(projectPath, featureId, task.id, 'in_progress');
 
@@ -4938,6 +7556,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
                     );
 
                     // Execute task with dedicated agent
+                    await recordPrompt(`Task ${task.id}: ${task.description}`, taskPrompt);
                     const taskStream = provider.executeQuery({
                       prompt: taskPrompt,
                       model: effectiveBareModel,
@@ -4956,6 +7575,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
 
                     // Process task stream
                     for await (const msg of taskStream) {
+                      await recordUsage(msg);
                       if (msg.type === 'assistant' && msg.message?.content) {
                         for (const block of msg.message.content) {
                           if (block.type === 'text') {
@@ -5100,6 +7720,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
                     approvedPlanContent
                   );
 
+                  await recordPrompt('Implementation after plan approval', continuationPrompt);
                   const continuationStream = provider.executeQuery({
                     prompt: continuationPrompt,
                     model: effectiveBareModel,
@@ -5113,6 +7734,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
                   });
 
                   for await (const msg of continuationStream) {
+                    await recordUsage(msg);
                     if (msg.type === 'assistant' && msg.message?.content) {
                       for (const block of msg.message.content) {
                         if (block.type === 'text') {
@@ -5231,19 +7853,9 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
       throw new Error(`Feature ${featureId} not found`);
     }
 
-    // Get customized prompts from settings
-    const prompts = await getPromptCustomization(this.settingsService, '[AutoMode]');
-
-    // Build the feature prompt
-    const featurePrompt = this.buildFeaturePrompt(feature, prompts.taskExecution);
-
-    // Use the resume feature template with variable substitution
-    let prompt = prompts.taskExecution.resumeFeatureTemplate;
-    prompt = prompt.replace(/\{\{featurePrompt\}\}/g, featurePrompt);
-    prompt = prompt.replace(/\{\{previousContext\}\}/g, context);
-
+    // executeFeature fits the context into the model's budget and builds the resume prompt
     return this.executeFeature(projectPath, featureId, useWorktrees, false, undefined, {
-      continuationPrompt: prompt,
+      resumeContext: context,
       _calledInternally: true,
     });
   }
@@ -5451,6 +8063,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
     try {
       await ensureAutomakerDir(projectPath);
       const statePath = getExecutionStatePath(projectPath);
+      const { scheduler } = await this.loadExecutionState(projectPath);
       const state: ExecutionState = {
         version: 1,
         autoLoopWasRunning: this.autoLoopRunning,
@@ -5459,6 +8072,7 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
         branchName: null, // Legacy global auto mode uses main worktree
         runningFeatureIds: Array.from(this.runningFeatures.keys()),
         savedAt: new Date().toISOString(),
+        scheduler,
       };
       await secureFs.writeFile(statePath, JSON.stringify(state, null, 2), 'utf-8');
       logger.info(`Saved execution state: ${state.runningFeatureIds.length} running features`);
@@ -5493,7 +8107,19 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
   ): Promise<void> {
     try {
       const statePath = getExecutionStatePath(projectPath);
-      await secureFs.unlink(statePath);
+      const { scheduler } = await this.loadExecutionState(projectPath);
+      if (scheduler) {
+        // Keep the scheduler's bookkeeping, only the run itself is over
+        const state: ExecutionState = {
+          ...DEFAULT_EXECUTION_STATE,
+          projectPath,
+          savedAt: new Date().toISOString(),
+          scheduler,
+        };
+        await secureFs.writeFile(statePath, JSON.stringify(state, null, 2), 'utf-8');
+      } else {
+        await secureFs.unlink(statePath);
+      }
       const worktreeDesc = branchName ? `worktree ${branchName}` : 'main worktree';
       logger.info(`Cleared execution state for ${worktreeDesc}`);
     } catch (error) {
@@ -5503,6 +8129,38 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
     }
   }
 
+  /**
+   * Get the scheduler's bookkeeping stored with a project's execution state
+   */
+  async getSchedulerState(projectPath: string): Promise<SchedulerState> {
+    const { scheduler } = await this.loadExecutionState(projectPath);
+    return scheduler ?? { activeRuns: [], lastJobRuns: {} };
+  }
+
+  /**
+   * Store the scheduler's bookkeeping with a project's execution state,
+   * leaving the auto loop fields as they are
+   */
+  async saveSchedulerState(projectPath: string, scheduler: SchedulerState): Promise<void> {
+    try {
+      await ensureAutomakerDir(projectPath);
+      const existing = await this.loadExecutionState(projectPath);
+      const state: ExecutionState = {
+        ...existing,
+        projectPath,
+        savedAt: new Date().toISOString(),
+        scheduler,
+      };
+      await secureFs.writeFile(
+        getExecutionStatePath(projectPath),
+        JSON.stringify(state, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      logger.error(`Failed to save scheduler state for ${projectPath}:`, error);
+    }
+  }
+
   /**
    * Check for and resume interrupted features after server restart
    * This should be called during server initialization
@@ -5644,8 +8302,13 @@ This mock response was generated because AUTOMAKER_MOCK_AGENT=true was set.
       `[AutoMode] Extracting learnings from feature "${feature.title}" (${agentOutput.length} chars)`
     );
 
-    // Limit output to avoid token limits
-    const truncatedOutput = agentOutput.length > 10000 ? agentOutput.slice(-10000) : agentOutput;
+    // Keep the end of the log, where the outcome is, with an outline of what was cut
+    const truncatedOutput = truncateToTokens(
+      agentOutput,
+      LEARNING_EXTRACTION_OUTPUT_TOKENS,
+      'tail',
+      true
+    ).text;
 
     // Get customized prompts from settings
     const prompts = await getPromptCustomization(this.settingsService, '[AutoMode]');
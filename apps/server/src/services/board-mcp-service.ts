@@ -0,0 +1,407 @@
+/**
+ * Board MCP Service
+ *
+ * Exposes the Automaker board to external agents as an MCP server. Other
+ * coding assistants and chat tools can list, file and move features, read
+ * agent output, start auto mode and record learnings in project memory.
+ *
+ * The tools are served over streamable HTTP at /api/mcp/board, and over stdio
+ * through the mcp-stdio bridge, which forwards to that endpoint.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { validatePath } from '@automaker/platform';
+import {
+  appendLearning,
+  createLogger,
+  initializeMemoryFolder,
+  type LearningEntry,
+} from '@automaker/utils';
+import type { Feature } from '@automaker/types';
+import type { FeatureLoader } from './feature-loader.js';
+import type { AutoModeService } from './auto-mode-service.js';
+import type { EventEmitter } from '../lib/events.js';
+import * as secureFs from '../lib/secure-fs.js';
+import { getVersion } from '../lib/version.js';
+
+const logger = createLogger('BoardMCP');
+
+/**
+ * Statuses an external agent may move a feature to
+ *
+ * 'verified' is left out: features only get there through the acceptance
+ * judge. 'completed' (archived) is only allowed for verified features.
+ */
+export const BOARD_MCP_STATUSES = [
+  'backlog',
+  'in_progress',
+  'waiting_approval',
+  'completed',
+] as const;
+
+const LEARNING_TYPES: LearningEntry['type'][] = ['decision', 'learning', 'pattern', 'gotcha'];
+
+const PROJECT_PATH_PROPERTY = {
+  type: 'string',
+  description: 'Absolute path of the Automaker project',
+} as const;
+
+const FEATURE_ID_PROPERTY = { type: 'string', description: 'Feature ID' } as const;
+
+const BRANCH_NAME_PROPERTY = {
+  type: 'string',
+  description: 'Worktree branch to run auto mode for (omit for the main worktree)',
+} as const;
+
+/** Tools offered by the board MCP server */
+export const BOARD_MCP_TOOLS: Tool[] = [
+  {
+    name: 'list_features',
+    description: 'List the features on the board, optionally filtered by status or category',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: PROJECT_PATH_PROPERTY,
+        status: { type: 'string', description: 'Only list features with this status' },
+        category: { type: 'string', description: 'Only list features in this category' },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'get_feature',
+    description: 'Get a feature with all its fields',
+    inputSchema: {
+      type: 'object',
+      properties: { projectPath: PROJECT_PATH_PROPERTY, featureId: FEATURE_ID_PROPERTY },
+      required: ['projectPath', 'featureId'],
+    },
+  },
+  {
+    name: 'create_feature',
+    description: 'File a new feature in the backlog',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: PROJECT_PATH_PROPERTY,
+        description: { type: 'string', description: 'What should be built' },
+        title: { type: 'string' },
+        category: { type: 'string' },
+        priority: { type: 'number', description: '1 (high) to 3 (low)' },
+        dependencies: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of features that must be finished first',
+        },
+      },
+      required: ['projectPath', 'description'],
+    },
+  },
+  {
+    name: 'update_feature_status',
+    description:
+      'Move a feature to another column of the board. Features reach verified only through the acceptance check; only verified features can be completed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: PROJECT_PATH_PROPERTY,
+        featureId: FEATURE_ID_PROPERTY,
+        status: { type: 'string', enum: [...BOARD_MCP_STATUSES] },
+      },
+      required: ['projectPath', 'featureId', 'status'],
+    },
+  },
+  {
+    name: 'get_agent_output',
+    description: "Read the agent's output log for a feature",
+    inputSchema: {
+      type: 'object',
+      properties: { projectPath: PROJECT_PATH_PROPERTY, featureId: FEATURE_ID_PROPERTY },
+      required: ['projectPath', 'featureId'],
+    },
+  },
+  {
+    name: 'start_auto_mode',
+    description: 'Start auto mode, which picks up backlog features and implements them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: PROJECT_PATH_PROPERTY,
+        branchName: BRANCH_NAME_PROPERTY,
+        maxConcurrency: { type: 'number', description: 'Features to run at the same time' },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'stop_auto_mode',
+    description: 'Stop auto mode; running features are stopped too',
+    inputSchema: {
+      type: 'object',
+      properties: { projectPath: PROJECT_PATH_PROPERTY, branchName: BRANCH_NAME_PROPERTY },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'add_memory',
+    description:
+      "Record a learning in the project's memory (.automaker/memory) so future agents see it",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: PROJECT_PATH_PROPERTY,
+        category: {
+          type: 'string',
+          description: 'Memory file to add to, e.g. "testing" or "api"',
+        },
+        type: { type: 'string', enum: LEARNING_TYPES },
+        content: { type: 'string', description: 'The learning itself' },
+        context: { type: 'string', description: 'Problem being solved' },
+        why: { type: 'string', description: 'Reasoning behind the approach' },
+      },
+      required: ['projectPath', 'category', 'type', 'content'],
+    },
+  },
+];
+
+type ToolArgs = Record<string, unknown>;
+
+function requireString(args: ToolArgs, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${name} is required`);
+  }
+  return value;
+}
+
+function optionalString(args: ToolArgs, name: string): string | undefined {
+  const value = args[name];
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function optionalNumber(args: ToolArgs, name: string): number | undefined {
+  const value = args[name];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function textResult(value: unknown): CallToolResult {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return { content: [{ type: 'text', text }] };
+}
+
+/**
+ * Summarize a feature for listings, leaving out history and logs
+ */
+function summarizeFeature(feature: Feature) {
+  return {
+    id: feature.id,
+    title: feature.title,
+    description: feature.description,
+    category: feature.category,
+    status: feature.status ?? 'backlog',
+    priority: feature.priority,
+    branchName: feature.branchName,
+    dependencies: feature.dependencies,
+  };
+}
+
+export class BoardMcpService {
+  constructor(
+    private featureLoader: FeatureLoader,
+    private autoModeService: AutoModeService,
+    private events?: EventEmitter
+  ) {}
+
+  /**
+   * Create an MCP server serving the board tools
+   *
+   * Each transport needs its own server, so callers create one per connection.
+   */
+  createServer(): Server {
+    const server = new Server(
+      { name: 'automaker', version: getVersion() },
+      { capabilities: { tools: {} } }
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: BOARD_MCP_TOOLS }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      this.callTool(request.params.name, request.params.arguments ?? {})
+    );
+
+    return server;
+  }
+
+  /**
+   * Run a tool, reporting failures as tool errors rather than protocol errors
+   * so the calling agent can see what went wrong
+   */
+  async callTool(name: string, args: ToolArgs): Promise<CallToolResult> {
+    try {
+      const projectPath = requireString(args, 'projectPath');
+      validatePath(projectPath);
+
+      switch (name) {
+        case 'list_features':
+          return textResult(await this.listFeatures(projectPath, args));
+        case 'get_feature':
+          return textResult(await this.getFeature(projectPath, requireString(args, 'featureId')));
+        case 'create_feature':
+          return textResult(await this.createFeature(projectPath, args));
+        case 'update_feature_status':
+          return textResult(await this.updateFeatureStatus(projectPath, args));
+        case 'get_agent_output': {
+          const featureId = requireString(args, 'featureId');
+          await this.getFeature(projectPath, featureId);
+          const output = await this.featureLoader.getAgentOutput(projectPath, featureId);
+          return textResult(output ?? 'No agent output yet');
+        }
+        case 'start_auto_mode':
+          return textResult(await this.startAutoMode(projectPath, args));
+        case 'stop_auto_mode': {
+          const branchName = optionalString(args, 'branchName') ?? null;
+          await this.autoModeService.stopAutoLoopForProject(projectPath, branchName);
+          return textResult('Auto mode stopped');
+        }
+        case 'add_memory':
+          return textResult(await this.addMemory(projectPath, args));
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Tool ${name} failed: ${message}`);
+      return { content: [{ type: 'text', text: message }], isError: true };
+    }
+  }
+
+  private async listFeatures(projectPath: string, args: ToolArgs) {
+    const status = optionalString(args, 'status');
+    const category = optionalString(args, 'category');
+    const features = await this.featureLoader.getAll(projectPath);
+    return features
+      .filter(
+        (feature) =>
+          (!status || (feature.status ?? 'backlog') === status) &&
+          (!category || feature.category === category)
+      )
+      .map(summarizeFeature);
+  }
+
+  private async getFeature(projectPath: string, featureId: string): Promise<Feature> {
+    const feature = await this.featureLoader.get(projectPath, featureId);
+    if (!feature) {
+      throw new Error(`Feature ${featureId} not found`);
+    }
+    return feature;
+  }
+
+  private async createFeature(projectPath: string, args: ToolArgs) {
+    const title = optionalString(args, 'title');
+    if (title) {
+      const duplicate = await this.featureLoader.findDuplicateTitle(projectPath, title);
+      if (duplicate) {
+        throw new Error(`A feature with title "${title}" already exists (${duplicate.id})`);
+      }
+    }
+
+    const dependencies = Array.isArray(args.dependencies)
+      ? args.dependencies.filter((id): id is string => typeof id === 'string')
+      : undefined;
+    const feature = await this.featureLoader.create(projectPath, {
+      description: requireString(args, 'description'),
+      title,
+      category: optionalString(args, 'category') ?? 'Uncategorized',
+      priority: optionalNumber(args, 'priority'),
+      dependencies,
+      status: 'backlog',
+    });
+
+    this.events?.emit('feature:created', {
+      featureId: feature.id,
+      featureName: feature.title || 'Untitled Feature',
+      projectPath,
+    });
+    this.emitBoardUpdated(projectPath, feature.id);
+    return summarizeFeature(feature);
+  }
+
+  private async updateFeatureStatus(projectPath: string, args: ToolArgs) {
+    const featureId = requireString(args, 'featureId');
+    const status = requireString(args, 'status');
+    if (!(BOARD_MCP_STATUSES as readonly string[]).includes(status)) {
+      throw new Error(`status must be one of: ${BOARD_MCP_STATUSES.join(', ')}`);
+    }
+    if (this.autoModeService.isFeatureRunning(featureId)) {
+      throw new Error(`Feature ${featureId} is running; stop it before moving it`);
+    }
+
+    const previousStatus = (await this.getFeature(projectPath, featureId)).status;
+    if (status === 'completed' && previousStatus !== 'verified' && previousStatus !== 'completed') {
+      throw new Error(`Only verified features can be completed; ${featureId} is ${previousStatus}`);
+    }
+    const updated = await this.featureLoader.update(projectPath, featureId, { status });
+    if (previousStatus !== status) {
+      this.events?.emit('feature:status-changed', {
+        projectPath,
+        featureId,
+        status,
+        previousStatus,
+      });
+    }
+    this.emitBoardUpdated(projectPath, featureId);
+    return summarizeFeature(updated);
+  }
+
+  private async startAutoMode(projectPath: string, args: ToolArgs): Promise<string> {
+    const branchName = optionalString(args, 'branchName') ?? null;
+    if (this.autoModeService.isAutoLoopRunningForProject(projectPath, branchName)) {
+      return 'Auto mode is already running';
+    }
+    const maxConcurrency = await this.autoModeService.startAutoLoopForProject(
+      projectPath,
+      branchName,
+      optionalNumber(args, 'maxConcurrency')
+    );
+    return `Auto mode started with max ${maxConcurrency} concurrent features`;
+  }
+
+  private async addMemory(projectPath: string, args: ToolArgs): Promise<string> {
+    const type = requireString(args, 'type') as LearningEntry['type'];
+    if (!LEARNING_TYPES.includes(type)) {
+      throw new Error(`type must be one of: ${LEARNING_TYPES.join(', ')}`);
+    }
+    const category = requireString(args, 'category');
+    const memoryFs = secureFs as Parameters<typeof appendLearning>[2];
+
+    await initializeMemoryFolder(projectPath, memoryFs);
+    await appendLearning(
+      projectPath,
+      {
+        category,
+        type,
+        content: requireString(args, 'content').trim(),
+        context: optionalString(args, 'context'),
+        why: optionalString(args, 'why'),
+      },
+      memoryFs
+    );
+    return `Added ${type} to ${category} memory`;
+  }
+
+  /**
+   * Tell the UI the board changed, so it refreshes its feature list
+   */
+  private emitBoardUpdated(projectPath: string, featureId: string): void {
+    this.events?.emit('auto-mode:event', {
+      type: 'board_updated_externally',
+      featureId,
+      projectPath,
+    });
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Checkpoint Service - Git snapshots of a feature's working directory
+ *
+ * A checkpoint is a commit built from a temporary index, so taking one never
+ * touches the working tree, the real index or the checked-out branch. The
+ * commit is kept reachable by a ref under refs/automaker/checkpoints/ and
+ * described in {projectPath}/.automaker/features/{featureId}/checkpoints.json,
+ * together with a copy of agent-output.md at that moment
+ * (checkpoints/{checkpointId}.md) so the log can be rewound as well.
+ *
+ * Automaker's own directories (.automaker, .worktrees) are never captured or
+ * restored, so rolling back cannot clobber feature state stored in the repo.
+ */
+
+import path from 'path';
+import { createLogger, atomicWriteJson, readJsonFile } from '@automaker/utils';
+import { getFeatureDir, spawnProcess } from '@automaker/platform';
+import type { CheckpointKind, FeatureCheckpoint, FeatureCheckpoints } from '@automaker/types';
+import { FEATURE_CHECKPOINTS_VERSION, MAX_FEATURE_CHECKPOINTS } from '@automaker/types';
+import * as secureFs from '../lib/secure-fs.js';
+
+const logger = createLogger('CheckpointService');
+
+/** Paths that belong to Automaker and are left alone by snapshots and restores */
+const EXCLUDED_PATHS = ['.automaker', '.worktrees'];
+
+/** Identity used for checkpoint commits so they work without git user config */
+const CHECKPOINT_GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'Automaker',
+  GIT_AUTHOR_EMAIL: 'checkpoints@automaker.local',
+  GIT_COMMITTER_NAME: 'Automaker',
+  GIT_COMMITTER_EMAIL: 'checkpoints@automaker.local',
+};
+
+/**
+ * Input for taking a checkpoint
+ */
+export interface CreateCheckpointInput {
+  kind: CheckpointKind;
+  label: string;
+  taskId?: string;
+  stepId?: string;
+  /** Feature status at the time of the checkpoint */
+  featureStatus: string;
+  /** Agent output to restore along with the files */
+  agentOutput?: string;
+}
+
+/**
+ * CheckpointService - Takes, lists and restores feature checkpoints
+ */
+export class CheckpointService {
+  /** Pending writes per checkpoints file, so concurrent checkpoints don't clobber each other */
+  private writeQueues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Get the path to a feature's checkpoints.json file
+   */
+  getCheckpointsPath(projectPath: string, featureId: string): string {
+    return path.join(getFeatureDir(projectPath, featureId), 'checkpoints.json');
+  }
+
+  /**
+   * Get the path to the agent output saved with a checkpoint
+   */
+  getAgentOutputSnapshotPath(projectPath: string, featureId: string, checkpointId: string): string {
+    return path.join(getFeatureDir(projectPath, featureId), 'checkpoints', `${checkpointId}.md`);
+  }
+
+  /**
+   * Get the ref that keeps a checkpoint commit alive
+   */
+  getCheckpointRef(featureId: string, checkpointId: string): string {
+    const sanitizedFeatureId = featureId.replace(/[^a-zA-Z0-9_-]/g, '-');
+    return `refs/automaker/checkpoints/${sanitizedFeatureId}/${checkpointId}`;
+  }
+
+  /**
+   * List a feature's checkpoints, oldest first
+   */
+  async listCheckpoints(projectPath: string, featureId: string): Promise<FeatureCheckpoint[]> {
+    const record = await readJsonFile<FeatureCheckpoints | null>(
+      this.getCheckpointsPath(projectPath, featureId),
+      null
+    );
+    return record?.checkpoints ?? [];
+  }
+
+  /**
+   * Get a single checkpoint
+   *
+   * @returns The checkpoint, or null if it does not exist
+   */
+  async getCheckpoint(
+    projectPath: string,
+    featureId: string,
+    checkpointId: string
+  ): Promise<FeatureCheckpoint | null> {
+    const checkpoints = await this.listCheckpoints(projectPath, featureId);
+    return checkpoints.find((checkpoint) => checkpoint.id === checkpointId) ?? null;
+  }
+
+  /**
+   * Snapshot the working directory of a feature
+   *
+   * @param projectPath - Project the feature belongs to
+   * @param featureId - Feature being worked on
+   * @param workDir - Directory the agent works in (project root or worktree)
+   * @returns The new checkpoint, or null if workDir is not a git repository with commits
+   */
+  async createCheckpoint(
+    projectPath: string,
+    featureId: string,
+    workDir: string,
+    input: CreateCheckpointInput
+  ): Promise<FeatureCheckpoint | null> {
+    let head: string;
+    try {
+      head = (await this.git(['rev-parse', '--verify', 'HEAD'], workDir)).trim();
+    } catch {
+      logger.debug(`Skipping checkpoint for ${featureId}: ${workDir} has no commits`);
+      return null;
+    }
+
+    const id = `cp-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    const branch = await this.getBranch(workDir);
+
+    const commit = await this.withTemporaryIndex(projectPath, featureId, id, async (env) => {
+      await this.git(['read-tree', head], workDir, env);
+      // Exclude pathspecs would make `git add` fail when the directories are gitignored
+      await this.git(['add', '-A'], workDir, env);
+      await this.git(
+        ['rm', '-r', '-q', '-f', '--cached', '--ignore-unmatch', '--', ...EXCLUDED_PATHS],
+        workDir,
+        env
+      );
+      const tree = (await this.git(['write-tree'], workDir, env)).trim();
+      return (
+        await this.git(
+          ['commit-tree', tree, '-p', head, '-m', `automaker checkpoint: ${input.label}`],
+          workDir,
+          { ...env, ...CHECKPOINT_GIT_IDENTITY }
+        )
+      ).trim();
+    });
+
+    await this.git(['update-ref', this.getCheckpointRef(featureId, id), commit], workDir);
+
+    const checkpoint: FeatureCheckpoint = {
+      id,
+      featureId,
+      kind: input.kind,
+      label: input.label,
+      taskId: input.taskId,
+      stepId: input.stepId,
+      commit,
+      head,
+      branch,
+      workDir,
+      featureStatus: input.featureStatus,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (input.agentOutput !== undefined) {
+      const snapshotPath = this.getAgentOutputSnapshotPath(projectPath, featureId, id);
+      await secureFs.mkdir(path.dirname(snapshotPath), { recursive: true });
+      await secureFs.writeFile(snapshotPath, input.agentOutput);
+    }
+
+    const pruned = await this.updateCheckpoints(projectPath, featureId, (checkpoints) => {
+      checkpoints.push(checkpoint);
+      return checkpoints.splice(0, Math.max(0, checkpoints.length - MAX_FEATURE_CHECKPOINTS));
+    });
+    await Promise.all(pruned.map((old) => this.deleteCheckpointData(projectPath, old)));
+
+    logger.info(`Created checkpoint ${id} for feature ${featureId}: ${input.label}`);
+    return checkpoint;
+  }
+
+  /**
+   * Restore the working directory to a checkpoint
+   *
+   * The branch is reset to the commit that was checked out when the
+   * checkpoint was taken (discarding anything committed since), and the
+   * working tree is made to match the snapshot: changed files are rewritten
+   * and files that did not exist then are removed. Ignored files are kept.
+   *
+   * @returns The saved agent output, or null if none was saved with the checkpoint
+   * @throws If workDir no longer has the checkpoint's branch checked out
+   */
+  async restoreCheckpoint(
+    projectPath: string,
+    checkpoint: FeatureCheckpoint
+  ): Promise<{ agentOutput: string | null }> {
+    const { workDir, featureId } = checkpoint;
+
+    const branch = await this.getBranch(workDir);
+    if (branch !== checkpoint.branch) {
+      throw new Error(
+        `Checkpoint ${checkpoint.id} was taken on ${checkpoint.branch ?? 'a detached HEAD'}, ` +
+          `but ${workDir} has ${branch ?? 'a detached HEAD'} checked out`
+      );
+    }
+
+    await this.git(['reset', '-q', checkpoint.head], workDir);
+
+    // Snapshots never contain the excluded paths, so checking out all of it leaves them alone
+    await this.withTemporaryIndex(projectPath, featureId, checkpoint.id, async (env) => {
+      await this.git(['checkout', checkpoint.commit, '--', '.'], workDir, env);
+    });
+
+    const snapshotFiles = new Set(
+      this.splitNul(
+        await this.git(['ls-tree', '-r', '-z', '--name-only', checkpoint.commit], workDir)
+      )
+    );
+    const currentFiles = this.splitNul(
+      await this.git(['ls-files', '-z', '--cached', '--others', '--exclude-standard'], workDir)
+    );
+    for (const file of currentFiles) {
+      if (snapshotFiles.has(file) || this.isExcluded(file)) continue;
+      await secureFs.rm(path.join(workDir, file), { force: true });
+    }
+
+    logger.info(`Restored checkpoint ${checkpoint.id} for feature ${featureId} in ${workDir}`);
+
+    try {
+      const agentOutput = (await secureFs.readFile(
+        this.getAgentOutputSnapshotPath(projectPath, featureId, checkpoint.id),
+        'utf-8'
+      )) as string;
+      return { agentOutput };
+    } catch {
+      return { agentOutput: null };
+    }
+  }
+
+  /**
+   * Read-modify-write checkpoints.json, serialized per file
+   *
+   * @returns Whatever the updater returns
+   */
+  private async updateCheckpoints<T>(
+    projectPath: string,
+    featureId: string,
+    updater: (checkpoints: FeatureCheckpoint[]) => T
+  ): Promise<T> {
+    const checkpointsPath = this.getCheckpointsPath(projectPath, featureId);
+    const previous = this.writeQueues.get(checkpointsPath) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {
+        // A failed earlier write must not block later ones
+      })
+      .then(async () => {
+        const checkpoints = await this.listCheckpoints(projectPath, featureId);
+        const result = updater(checkpoints);
+        const record: FeatureCheckpoints = {
+          version: FEATURE_CHECKPOINTS_VERSION,
+          featureId,
+          checkpoints,
+        };
+        await atomicWriteJson(checkpointsPath, record, { createDirs: true });
+        return result;
+      });
+
+    this.writeQueues.set(checkpointsPath, write);
+    try {
+      return await write;
+    } finally {
+      if (this.writeQueues.get(checkpointsPath) === write) {
+        this.writeQueues.delete(checkpointsPath);
+      }
+    }
+  }
+
+  /**
+   * Remove the ref and agent output snapshot of a pruned checkpoint
+   */
+  private async deleteCheckpointData(
+    projectPath: string,
+    checkpoint: FeatureCheckpoint
+  ): Promise<void> {
+    try {
+      await this.git(
+        ['update-ref', '-d', this.getCheckpointRef(checkpoint.featureId, checkpoint.id)],
+        checkpoint.workDir
+      );
+    } catch (error) {
+      logger.warn(`Failed to delete ref for checkpoint ${checkpoint.id}:`, error);
+    }
+    await secureFs.rm(
+      this.getAgentOutputSnapshotPath(projectPath, checkpoint.featureId, checkpoint.id),
+      { force: true }
+    );
+  }
+
+  /**
+   * Run a callback with GIT_INDEX_FILE pointing at a scratch index
+   */
+  private async withTemporaryIndex<T>(
+    projectPath: string,
+    featureId: string,
+    checkpointId: string,
+    callback: (env: Record<string, string>) => Promise<T>
+  ): Promise<T> {
+    const indexPath = path.join(
+      getFeatureDir(projectPath, featureId),
+      'checkpoints',
+      `.index-${checkpointId}`
+    );
+    await secureFs.mkdir(path.dirname(indexPath), { recursive: true });
+    try {
+      return await callback({ GIT_INDEX_FILE: indexPath });
+    } finally {
+      await secureFs.rm(indexPath, { force: true });
+    }
+  }
+
+  /**
+   * Branch checked out in a directory, or null for a detached HEAD
+   */
+  private async getBranch(workDir: string): Promise<string | null> {
+    return this.git(['symbolic-ref', '--quiet', '--short', 'HEAD'], workDir)
+      .then((output) => output.trim() || null)
+      .catch(() => null);
+  }
+
+  private isExcluded(file: string): boolean {
+    return EXCLUDED_PATHS.some((excluded) => file === excluded || file.startsWith(`${excluded}/`));
+  }
+
+  private splitNul(output: string): string[] {
+    return output.split('\0').filter(Boolean);
+  }
+
+  private async git(args: string[], cwd: string, env?: Record<string, string>): Promise<string> {
+    const result = await spawnProcess({ command: 'git', args, cwd, env });
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr || `git ${args[0]} failed with code ${result.exitCode}`);
+    }
+    return result.stdout;
+  }
+}
+
+// Singleton instance
+let checkpointServiceInstance: CheckpointService | null = null;
+
+/**
+ * Get the singleton checkpoint service instance
+ */
+export function getCheckpointService(): CheckpointService {
+  if (!checkpointServiceInstance) {
+    checkpointServiceInstance = new CheckpointService();
+  }
+  return checkpointServiceInstance;
+}
@@ -0,0 +1,171 @@
+/**
+ * Competition Service - Worktrees, diffs and test runs for competing candidates
+ *
+ * Each candidate in a feature competition works on its own branch
+ * (competition/{featureId}/{candidateId}) checked out in its own worktree
+ * under .worktrees/, next to the worktrees created for feature branches.
+ * This service holds the git and test mechanics; AutoModeService runs the
+ * agents and records the results on the feature.
+ */
+
+import path from 'path';
+import { createLogger } from '@automaker/utils';
+import { spawnProcess } from '@automaker/platform';
+import { getGitRepositoryDiffs } from '@automaker/git-utils';
+import type { CompetitionDiffStats, CompetitionTestResult } from '@automaker/types';
+import * as secureFs from '../lib/secure-fs.js';
+import { getTestRunnerService } from './test-runner-service.js';
+
+const logger = createLogger('CompetitionService');
+
+/** How much of the end of a candidate's test output is kept on the feature */
+const TEST_OUTPUT_TAIL_CHARS = 4000;
+
+/**
+ * CompetitionService - Creates, measures, tests and removes candidate worktrees
+ */
+export class CompetitionService {
+  /**
+   * Get the branch a candidate works on
+   */
+  getCandidateBranchName(featureId: string, candidateId: string): string {
+    const sanitizedFeatureId = featureId.replace(/[^a-zA-Z0-9_-]/g, '-');
+    return `competition/${sanitizedFeatureId}/${candidateId}`;
+  }
+
+  /**
+   * Get the worktree path for a candidate branch, named like feature worktrees
+   */
+  getCandidateWorktreePath(projectPath: string, branchName: string): string {
+    const sanitizedName = branchName.replace(/[^a-zA-Z0-9_-]/g, '-');
+    return path.resolve(projectPath, '.worktrees', sanitizedName);
+  }
+
+  /**
+   * Create a fresh worktree for a candidate
+   *
+   * A worktree or branch left over from an earlier competition is replaced.
+   *
+   * @param baseBranch - Branch to start from, or null for the current HEAD
+   * @returns Absolute path to the new worktree
+   */
+  async createCandidateWorktree(
+    projectPath: string,
+    branchName: string,
+    baseBranch: string | null
+  ): Promise<string> {
+    const worktreePath = this.getCandidateWorktreePath(projectPath, branchName);
+    await this.removeCandidateWorktree(projectPath, worktreePath, branchName);
+
+    await secureFs.mkdir(path.dirname(worktreePath), { recursive: true });
+    await this.git(
+      ['worktree', 'add', '-B', branchName, worktreePath, baseBranch ?? 'HEAD'],
+      projectPath
+    );
+    logger.info(`Created competition worktree ${worktreePath} on branch ${branchName}`);
+    return worktreePath;
+  }
+
+  /**
+   * Measure the uncommitted changes in a candidate's worktree
+   */
+  async getDiffStats(worktreePath: string): Promise<CompetitionDiffStats> {
+    const { diff, files } = await getGitRepositoryDiffs(worktreePath);
+    let additions = 0;
+    let deletions = 0;
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('+') && !line.startsWith('+++')) {
+        additions++;
+      } else if (line.startsWith('-') && !line.startsWith('---')) {
+        deletions++;
+      }
+    }
+    return { filesChanged: files.length, additions, deletions };
+  }
+
+  /**
+   * Run the project's test command in a candidate's worktree and wait for it
+   *
+   * @param testCommand - The project's test command; tests are skipped without one
+   */
+  async runTests(
+    worktreePath: string,
+    testCommand: string | undefined
+  ): Promise<CompetitionTestResult> {
+    if (!testCommand?.trim()) {
+      return { status: 'skipped', finishedAt: new Date().toISOString() };
+    }
+
+    const testRunner = getTestRunnerService();
+    const started = await testRunner.startTests(worktreePath, { command: testCommand });
+    if (!started.success || !started.result) {
+      return {
+        status: 'error',
+        command: testCommand,
+        output: started.error,
+        finishedAt: new Date().toISOString(),
+      };
+    }
+
+    const session = await testRunner.waitForCompletion(started.result.sessionId);
+    const output = testRunner.getSessionOutput(started.result.sessionId).result?.output ?? '';
+    return {
+      status:
+        session?.status === 'passed' ? 'passed' : session?.status === 'failed' ? 'failed' : 'error',
+      command: testCommand,
+      exitCode: session?.exitCode ?? null,
+      output: output.slice(-TEST_OUTPUT_TAIL_CHARS),
+      finishedAt: (session?.finishedAt ?? new Date()).toISOString(),
+    };
+  }
+
+  /**
+   * Remove a candidate's worktree and branch
+   *
+   * Missing worktrees and branches are ignored, so this is safe to call on
+   * candidates that failed before their worktree was created.
+   */
+  async removeCandidateWorktree(
+    projectPath: string,
+    worktreePath: string,
+    branchName: string
+  ): Promise<void> {
+    try {
+      await this.git(['worktree', 'remove', '--force', worktreePath], projectPath);
+    } catch {
+      // Not a registered worktree (or already gone) - drop the directory and stale entries
+      await secureFs.rm(worktreePath, { recursive: true, force: true }).catch(() => {});
+      await this.git(['worktree', 'prune'], projectPath).catch(() => {});
+    }
+
+    try {
+      await this.git(['branch', '-D', branchName], projectPath);
+    } catch {
+      // Branch doesn't exist
+    }
+  }
+
+  /**
+   * Run a git command and return its stdout, throwing on a non-zero exit
+   */
+  private async git(args: string[], cwd: string): Promise<string> {
+    const result = await spawnProcess({ command: 'git', args, cwd });
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr || `git ${args[0]} failed with code ${result.exitCode}`);
+    }
+    return result.stdout;
+  }
+}
+
+// Singleton instance
+let competitionServiceInstance: CompetitionService | null = null;
+
+/**
+ * Get the singleton competition service instance
+ */
+export function getCompetitionService(): CompetitionService {
+  if (!competitionServiceInstance) {
+    competitionServiceInstance = new CompetitionService();
+  }
+  return competitionServiceInstance;
+}
@@ -25,6 +25,8 @@ const OUTPUT_BATCH_SIZE = 4096; // Smaller batches for lower latency
 
 export interface DevServerInfo {
   worktreePath: string;
+  // Project the worktree belongs to
+  projectPath?: string;
   port: number;
   url: string;
   process: ChildProcess | null;
@@ -498,6 +500,7 @@ class DevServerService {
     const hostname = process.env.HOSTNAME || 'localhost';
     const serverInfo: DevServerInfo = {
       worktreePath,
+      projectPath,
       port,
       url: `http://${hostname}:${port}`, // Initial URL, may be updated by detectUrlFromOutput
       process: devProcess,
@@ -534,9 +537,12 @@ class DevServerService {
       if (this.emitter && !serverInfo.stopping) {
         this.emitter.emit('dev-server:stopped', {
           worktreePath,
+          projectPath,
           port,
           exitCode,
           error: errorMessage,
+          // Not stopped by the user, so anything but a clean exit is a crash
+          crashed: exitCode !== 0 || !!errorMessage,
           timestamp: new Date().toISOString(),
         });
       }
@@ -639,6 +645,7 @@ class DevServerService {
     if (this.emitter) {
       this.emitter.emit('dev-server:stopped', {
         worktreePath,
+        projectPath: server.projectPath,
         port: server.port,
         exitCode: null, // Will be populated by exit handler if process exits normally
         timestamp: new Date().toISOString(),
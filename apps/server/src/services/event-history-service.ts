@@ -24,6 +24,7 @@ import type {
   StoredEventIndex,
   StoredEventSummary,
   EventHistoryFilter,
+  EventHookDelivery,
   EventHookTrigger,
 } from '@automaker/types';
 import { DEFAULT_EVENT_HISTORY_INDEX } from '@automaker/types';
@@ -197,6 +198,55 @@ export class EventHistoryService {
     }
   }
 
+  /**
+   * Record the outcome of the hooks that ran for an event
+   *
+   * @param projectPath - Absolute path to project directory
+   * @param eventId - Event identifier
+   * @param deliveries - Hook delivery results to append; a result with the
+   *   deliveryId of an earlier one (a webhook retried later) replaces it
+   * @returns Promise resolving to true if the event was found
+   */
+  async recordDeliveries(
+    projectPath: string,
+    eventId: string,
+    deliveries: EventHookDelivery[]
+  ): Promise<boolean> {
+    const event = await this.getEvent(projectPath, eventId);
+    if (!event) {
+      return false;
+    }
+
+    const recorded = [...(event.deliveries ?? [])];
+    for (const delivery of deliveries) {
+      const existing = delivery.deliveryId
+        ? recorded.findIndex((d) => d.deliveryId === delivery.deliveryId)
+        : -1;
+      if (existing >= 0) {
+        recorded[existing] = delivery;
+      } else {
+        recorded.push(delivery);
+      }
+    }
+    event.deliveries = recorded;
+    await atomicWriteJson(getEventPath(projectPath, eventId), event);
+
+    // Keep delivery counts in the index so the list can flag failures
+    const indexPath = getEventHistoryIndexPath(projectPath);
+    const index = await readJsonFile<StoredEventIndex>(indexPath, DEFAULT_EVENT_HISTORY_INDEX);
+    const summary = index.events.find((e) => e.id === eventId);
+    if (summary) {
+      summary.deliveries = {
+        total: event.deliveries.length,
+        failed: event.deliveries.filter((d) => !d.success && !d.pending).length,
+        pending: event.deliveries.filter((d) => d.pending).length,
+      };
+      await atomicWriteJson(indexPath, index);
+    }
+
+    return true;
+  }
+
   /**
    * Delete an event by ID
    *
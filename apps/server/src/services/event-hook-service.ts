@@ -3,9 +3,12 @@
  *
  * Listens to the event emitter and triggers configured hooks:
  * - Shell commands: Executed with configurable timeout
- * - HTTP webhooks: POST/GET/PUT/PATCH requests with variable substitution
+ * - HTTP webhooks: POST/GET/PUT/PATCH requests with variable substitution,
+ *   sent through the durable webhook outbox (signed, retried, dead-lettered)
  *
- * Also stores events to history for debugging and replay.
+ * Hooks can narrow what they react to with payload filters (category, branch,
+ * model, error type, ...). Events are stored to history along with the outcome
+ * of every hook that ran, for debugging and replay.
  *
  * Supported events:
  * - feature_created: A new feature was created
@@ -13,6 +16,16 @@
  * - feature_error: Feature failed with an error
  * - auto_mode_complete: Auto mode finished all features (idle state)
  * - auto_mode_error: Auto mode encountered a critical error
+ * - budget_exceeded: A feature or project hit its token, cost or time budget
+ * - pipeline_step_started / pipeline_step_completed: Pipeline step lifecycle
+ * - plan_generated / plan_approved: Plan lifecycle
+ * - worktree_created / worktree_merged / pr_created: Worktree lifecycle
+ * - test_run_failed: A test run finished with failures
+ * - dev_server_crashed: A dev server exited unexpectedly
+ *
+ * Hooks can also listen to any server event type directly (e.g.
+ * 'worktree:pushed'). Those events only reach history when a hook is
+ * subscribed to them, so streaming events don't flood it.
  */
 
 import { exec } from 'child_process';
@@ -22,11 +35,16 @@ import type { EventEmitter } from '../lib/events.js';
 import type { SettingsService } from './settings-service.js';
 import type { EventHistoryService } from './event-history-service.js';
 import type { FeatureLoader } from './feature-loader.js';
+import type { WebhookOutboxService } from './webhook-outbox-service.js';
 import type {
   EventHook,
+  EventHookDelivery,
+  EventHookFilter,
   EventHookTrigger,
   EventHookShellAction,
   EventHookHttpAction,
+  EventType,
+  WebhookOutboxEntry,
 } from '@automaker/types';
 
 const execAsync = promisify(exec);
@@ -35,80 +53,210 @@ const logger = createLogger('EventHooks');
 /** Default timeout for shell commands (30 seconds) */
 const DEFAULT_SHELL_TIMEOUT = 30000;
 
-/** Default timeout for HTTP requests (10 seconds) */
-const DEFAULT_HTTP_TIMEOUT = 10000;
+/** How long the set of event types hooks subscribe to is cached (5 seconds) */
+const SUBSCRIBED_TYPES_TTL_MS = 5000;
+
+/** Payload fields that are not exposed as hook variables (large or internal) */
+const OMITTED_PAYLOAD_FIELDS = new Set(['type', 'content', 'planContent', 'output']);
 
 /**
- * Context available for variable substitution in hooks
+ * Context available for variable substitution and filters in hooks
+ *
+ * Besides the named fields, every text, number or boolean field of the
+ * event payload is available under its own name.
  */
-interface HookContext {
+export interface HookContext {
   featureId?: string;
   featureName?: string;
   projectPath?: string;
   projectName?: string;
   error?: string;
   errorType?: string;
+  category?: string;
+  branchName?: string;
+  model?: string;
   timestamp: string;
   eventType: EventHookTrigger;
+  [field: string]: string | number | boolean | undefined;
 }
 
+/** Fields every stored event already has, so they are not repeated in metadata */
+const STORED_EVENT_FIELDS = new Set([
+  'featureId',
+  'featureName',
+  'projectPath',
+  'projectName',
+  'error',
+  'errorType',
+  'passes',
+  'timestamp',
+  'eventType',
+]);
+
+type EventPayload = Record<string, unknown>;
+
 /**
- * Auto-mode event payload structure
+ * Map a server event to the named hook triggers it fires (usually zero or one)
+ *
+ * Hooks subscribed to the event type itself are matched separately.
  */
-interface AutoModeEventPayload {
-  type?: string;
-  featureId?: string;
-  featureName?: string;
-  passes?: boolean;
-  message?: string;
-  error?: string;
-  errorType?: string;
-  projectPath?: string;
+export function getHookTriggers(type: EventType, payload: EventPayload): EventHookTrigger[] {
+  switch (type) {
+    case 'feature:created':
+      return ['feature_created'];
+    case 'worktree:created':
+      return ['worktree_created'];
+    case 'worktree:merged':
+      return ['worktree_merged'];
+    case 'worktree:pr-created':
+      return ['pr_created'];
+    case 'test-runner:completed':
+      return payload.status === 'failed' || payload.status === 'error' ? ['test_run_failed'] : [];
+    case 'dev-server:stopped':
+      return payload.crashed ? ['dev_server_crashed'] : [];
+    case 'auto-mode:event':
+      break;
+    default:
+      return [];
+  }
+
+  switch (payload.type) {
+    case 'auto_mode_feature_complete':
+      return [payload.passes ? 'feature_success' : 'feature_error'];
+    case 'auto_mode_error':
+      // Feature-level error (has featureId) vs auto-mode level error
+      return [payload.featureId ? 'feature_error' : 'auto_mode_error'];
+    case 'auto_mode_idle':
+      return ['auto_mode_complete'];
+    case 'auto_mode_budget_exceeded':
+      return ['budget_exceeded'];
+    case 'pipeline_step_started':
+      return ['pipeline_step_started'];
+    case 'pipeline_step_complete':
+      return ['pipeline_step_completed'];
+    case 'plan_approval_required':
+      return ['plan_generated'];
+    case 'plan_approved':
+      return ['plan_approved'];
+    case 'plan_auto_approved':
+      // No approval step, so the plan is generated and approved at once
+      return ['plan_generated', 'plan_approved'];
+    default:
+      // Other event types don't trigger hooks
+      return [];
+  }
 }
 
 /**
- * Feature created event payload structure
+ * Whether an event passes all of a hook's filters
+ *
+ * equals, not_equals and contains ignore case; matches is a regular
+ * expression. A missing field only satisfies not_equals.
  */
-interface FeatureCreatedPayload {
-  featureId: string;
-  featureName?: string;
-  projectPath: string;
+export function matchesEventHookFilters(
+  filters: EventHookFilter[] | undefined,
+  context: Record<string, string | number | boolean | undefined>
+): boolean {
+  if (!filters?.length) return true;
+
+  return filters.every((filter) => {
+    if (!filter.field) return true;
+    const raw = context[filter.field];
+    if (raw === undefined || raw === '') {
+      return filter.operator === 'not_equals';
+    }
+    const actual = String(raw).toLowerCase();
+    const expected = filter.value.toLowerCase();
+
+    switch (filter.operator) {
+      case 'equals':
+        return actual === expected;
+      case 'not_equals':
+        return actual !== expected;
+      case 'contains':
+        return actual.includes(expected);
+      case 'matches':
+        try {
+          return new RegExp(filter.value, 'i').test(String(raw));
+        } catch {
+          logger.warn(`Invalid event hook filter pattern: ${filter.value}`);
+          return false;
+        }
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Describe an outbox entry as a hook delivery for the event history
+ */
+export function toHookDelivery(entry: WebhookOutboxEntry): EventHookDelivery {
+  return {
+    hookId: entry.hookId,
+    hookName: entry.hookName,
+    actionType: 'http',
+    timestamp: entry.updatedAt,
+    success: entry.status === 'delivered',
+    attempts: entry.attempts,
+    statusCode: entry.lastStatusCode,
+    error: entry.lastError,
+    durationMs: new Date(entry.updatedAt).getTime() - new Date(entry.createdAt).getTime(),
+    deliveryId: entry.id,
+    pending: entry.status === 'pending' || undefined,
+  };
 }
 
 /**
  * Event Hook Service
  *
  * Manages execution of user-configured event hooks in response to system events.
- * Also stores events to history for debugging and replay.
+ * Also stores events and hook deliveries to history for debugging and replay.
  */
 export class EventHookService {
   private emitter: EventEmitter | null = null;
   private settingsService: SettingsService | null = null;
   private eventHistoryService: EventHistoryService | null = null;
   private featureLoader: FeatureLoader | null = null;
+  private webhookOutbox: WebhookOutboxService | null = null;
   private unsubscribe: (() => void) | null = null;
+  private unsubscribeOutbox: (() => void) | null = null;
+  private subscribedTypes: { loadedAt: number; types: Promise<Set<EventHookTrigger>> } | null =
+    null;
 
   /**
-   * Initialize the service with event emitter, settings service, event history service, and feature loader
+   * Initialize the service with event emitter, settings service, event history service,
+   * feature loader, and the outbox HTTP hooks are sent through
    */
   initialize(
     emitter: EventEmitter,
     settingsService: SettingsService,
     eventHistoryService?: EventHistoryService,
-    featureLoader?: FeatureLoader
+    featureLoader?: FeatureLoader,
+    webhookOutbox?: WebhookOutboxService
   ): void {
     this.emitter = emitter;
     this.settingsService = settingsService;
     this.eventHistoryService = eventHistoryService || null;
     this.featureLoader = featureLoader || null;
+    this.webhookOutbox = webhookOutbox || null;
+
+    // Update the event's delivery log when a background retry settles
+    this.unsubscribeOutbox =
+      webhookOutbox?.onSettled((entry) => {
+        if (!entry.projectPath || !entry.eventId || !this.eventHistoryService) return;
+        this.eventHistoryService
+          .recordDeliveries(entry.projectPath, entry.eventId, [toHookDelivery(entry)])
+          .catch((error) => logger.warn('Failed to record webhook delivery:', error));
+      }) ?? null;
 
     // Subscribe to events
     this.unsubscribe = emitter.subscribe((type, payload) => {
-      if (type === 'auto-mode:event') {
-        this.handleAutoModeEvent(payload as AutoModeEventPayload);
-      } else if (type === 'feature:created') {
-        this.handleFeatureCreatedEvent(payload as FeatureCreatedPayload);
+      const data = (payload ?? {}) as EventPayload;
+      for (const trigger of getHookTriggers(type, data)) {
+        void this.handleEvent(trigger, data);
       }
+      void this.handleEventType(type, data);
     });
 
     logger.info('Event hook service initialized');
@@ -122,83 +270,105 @@ export class EventHookService {
       this.unsubscribe();
       this.unsubscribe = null;
     }
+    this.unsubscribeOutbox?.();
+    this.unsubscribeOutbox = null;
     this.emitter = null;
     this.settingsService = null;
     this.eventHistoryService = null;
     this.featureLoader = null;
+    this.webhookOutbox = null;
+    this.subscribedTypes = null;
   }
 
   /**
-   * Handle auto-mode events and trigger matching hooks
+   * Run hooks subscribed to a server event type directly
    */
-  private async handleAutoModeEvent(payload: AutoModeEventPayload): Promise<void> {
-    if (!payload.type) return;
-
-    // Map internal event types to hook triggers
-    let trigger: EventHookTrigger | null = null;
-
-    switch (payload.type) {
-      case 'auto_mode_feature_complete':
-        trigger = payload.passes ? 'feature_success' : 'feature_error';
-        break;
-      case 'auto_mode_error':
-        // Feature-level error (has featureId) vs auto-mode level error
-        trigger = payload.featureId ? 'feature_error' : 'auto_mode_error';
-        break;
-      case 'auto_mode_idle':
-        trigger = 'auto_mode_complete';
-        break;
-      default:
-        // Other event types don't trigger hooks
-        return;
+  private async handleEventType(type: EventType, payload: EventPayload): Promise<void> {
+    const types = await this.getSubscribedTypes();
+    if (types.has(type)) {
+      await this.handleEvent(type, payload);
     }
+  }
 
-    if (!trigger) return;
+  /**
+   * Event types that enabled hooks listen to, cached briefly since every
+   * server event is checked against them
+   */
+  private getSubscribedTypes(): Promise<Set<EventHookTrigger>> {
+    if (
+      !this.subscribedTypes ||
+      Date.now() - this.subscribedTypes.loadedAt > SUBSCRIBED_TYPES_TTL_MS
+    ) {
+      this.subscribedTypes = { loadedAt: Date.now(), types: this.loadSubscribedTypes() };
+    }
+    return this.subscribedTypes.types;
+  }
 
-    // Load feature name if we have featureId but no featureName
-    let featureName: string | undefined = undefined;
-    if (payload.featureId && payload.projectPath && this.featureLoader) {
+  private async loadSubscribedTypes(): Promise<Set<EventHookTrigger>> {
+    if (!this.settingsService) return new Set();
+    try {
+      const settings = await this.settingsService.getGlobalSettings();
+      return new Set(
+        (settings.eventHooks || []).filter((hook) => hook.enabled).map((hook) => hook.trigger)
+      );
+    } catch (error) {
+      logger.error('Failed to load event hooks:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Build the hook context for an event and run matching hooks
+   */
+  private async handleEvent(trigger: EventHookTrigger, payload: EventPayload): Promise<void> {
+    // Expose the payload's simple fields as variables
+    const fields: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(payload)) {
+      if (OMITTED_PAYLOAD_FIELDS.has(key)) continue;
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        fields[key] = value;
+      }
+    }
+
+    const featureId = typeof payload.featureId === 'string' ? payload.featureId : undefined;
+    const projectPath = typeof payload.projectPath === 'string' ? payload.projectPath : undefined;
+
+    // Load feature details (name, category, branch, model) when the event is about a feature
+    const featureFields: Partial<HookContext> = {};
+    if (featureId && projectPath && this.featureLoader) {
       try {
-        const feature = await this.featureLoader.get(payload.projectPath, payload.featureId);
-        if (feature?.title) {
-          featureName = feature.title;
+        const feature = await this.featureLoader.get(projectPath, featureId);
+        if (feature) {
+          featureFields.featureName = feature.title || undefined;
+          featureFields.category = feature.category || undefined;
+          featureFields.branchName = feature.branchName || undefined;
+          featureFields.model = feature.model || undefined;
         }
       } catch (error) {
-        logger.warn(`Failed to load feature ${payload.featureId} for event hook:`, error);
+        logger.warn(`Failed to load feature ${featureId} for event hook:`, error);
       }
     }
 
-    // Build context for variable substitution
-    // Use loaded featureName (from feature.title) or fall back to payload.featureName
+    // Payload values win over the stored feature (e.g. the branch actually used)
     const context: HookContext = {
-      featureId: payload.featureId,
-      featureName: featureName || payload.featureName,
-      projectPath: payload.projectPath,
-      projectName: payload.projectPath ? this.extractProjectName(payload.projectPath) : undefined,
-      error: payload.error || payload.message,
-      errorType: payload.errorType,
+      ...fields,
+      featureId,
+      featureName: featureFields.featureName || (fields.featureName as string | undefined),
+      projectPath,
+      projectName: projectPath ? this.extractProjectName(projectPath) : undefined,
+      error: (fields.error ?? fields.message) as string | undefined,
+      errorType: fields.errorType as string | undefined,
+      category: (fields.category as string | undefined) ?? featureFields.category,
+      branchName: (fields.branchName as string | undefined) ?? featureFields.branchName,
+      model: (fields.model as string | undefined) ?? featureFields.model,
       timestamp: new Date().toISOString(),
       eventType: trigger,
     };
 
-    // Execute matching hooks (pass passes for feature completion events)
-    await this.executeHooksForTrigger(trigger, context, { passes: payload.passes });
-  }
-
-  /**
-   * Handle feature:created events and trigger matching hooks
-   */
-  private async handleFeatureCreatedEvent(payload: FeatureCreatedPayload): Promise<void> {
-    const context: HookContext = {
-      featureId: payload.featureId,
-      featureName: payload.featureName,
-      projectPath: payload.projectPath,
-      projectName: this.extractProjectName(payload.projectPath),
-      timestamp: new Date().toISOString(),
-      eventType: 'feature_created',
-    };
-
-    await this.executeHooksForTrigger('feature_created', context);
+    // Pass passes for feature completion events
+    await this.executeHooksForTrigger(trigger, context, {
+      passes: typeof payload.passes === 'boolean' ? payload.passes : undefined,
+    });
   }
 
   /**
@@ -210,9 +380,16 @@ export class EventHookService {
     additionalData?: { passes?: boolean }
   ): Promise<void> {
     // Store event to history (even if no hooks match)
+    let eventId: string | null = null;
     if (this.eventHistoryService && context.projectPath) {
+      const metadata: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(context)) {
+        if (value !== undefined && !STORED_EVENT_FIELDS.has(key)) {
+          metadata[key] = value;
+        }
+      }
       try {
-        await this.eventHistoryService.storeEvent({
+        const stored = await this.eventHistoryService.storeEvent({
           trigger,
           projectPath: context.projectPath,
           featureId: context.featureId,
@@ -220,7 +397,9 @@ export class EventHookService {
           error: context.error,
           errorType: context.errorType,
           passes: additionalData?.passes,
+          metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
         });
+        eventId = stored.id;
       } catch (error) {
         logger.error('Failed to store event to history:', error);
       }
@@ -235,8 +414,11 @@ export class EventHookService {
       const settings = await this.settingsService.getGlobalSettings();
       const hooks = settings.eventHooks || [];
 
-      // Filter to enabled hooks matching this trigger
-      const matchingHooks = hooks.filter((hook) => hook.enabled && hook.trigger === trigger);
+      // Filter to enabled hooks matching this trigger and the event payload
+      const matchingHooks = hooks.filter(
+        (hook) =>
+          hook.enabled && hook.trigger === trigger && matchesEventHookFilters(hook.filters, context)
+      );
 
       if (matchingHooks.length === 0) {
         return;
@@ -245,27 +427,53 @@ export class EventHookService {
       logger.info(`Executing ${matchingHooks.length} hook(s) for trigger: ${trigger}`);
 
       // Execute hooks in parallel (don't wait for one to finish before starting next)
-      await Promise.allSettled(matchingHooks.map((hook) => this.executeHook(hook, context)));
+      const deliveries = await Promise.all(
+        matchingHooks.map((hook) => this.executeHook(hook, context, eventId))
+      );
+
+      if (this.eventHistoryService && eventId && context.projectPath) {
+        await this.eventHistoryService.recordDeliveries(context.projectPath, eventId, deliveries);
+      }
     } catch (error) {
       logger.error('Error executing hooks:', error);
     }
   }
 
   /**
-   * Execute a single hook
+   * Execute a single hook and report how it went
    */
-  private async executeHook(hook: EventHook, context: HookContext): Promise<void> {
+  private async executeHook(
+    hook: EventHook,
+    context: HookContext,
+    eventId: string | null
+  ): Promise<EventHookDelivery> {
     const hookName = hook.name || hook.id;
+    const startTime = Date.now();
+    const delivery: EventHookDelivery = {
+      hookId: hook.id,
+      hookName: hook.name,
+      actionType: hook.action.type,
+      timestamp: '',
+      success: false,
+      attempts: 1,
+      durationMs: 0,
+    };
 
     try {
       if (hook.action.type === 'shell') {
         await this.executeShellHook(hook.action, context, hookName);
+        delivery.success = true;
       } else if (hook.action.type === 'http') {
-        await this.executeHttpHook(hook.action, context, hookName);
+        return await this.executeHttpHook(hook, hook.action, context, eventId);
       }
     } catch (error) {
       logger.error(`Hook "${hookName}" failed:`, error);
+      delivery.error = error instanceof Error ? error.message : String(error);
     }
+
+    delivery.timestamp = new Date().toISOString();
+    delivery.durationMs = Date.now() - startTime;
+    return delivery;
   }
 
   /**
@@ -304,13 +512,18 @@ export class EventHookService {
   }
 
   /**
-   * Execute an HTTP webhook hook
+   * Queue an HTTP webhook hook in the outbox, which makes the first attempt
    */
   private async executeHttpHook(
+    hook: EventHook,
     action: EventHookHttpAction,
     context: HookContext,
-    hookName: string
-  ): Promise<void> {
+    eventId: string | null
+  ): Promise<EventHookDelivery> {
+    if (!this.webhookOutbox) {
+      throw new Error('Webhook outbox not available');
+    }
+
     const url = this.substituteVariables(action.url, context);
     const method = action.method || 'POST';
 
@@ -330,43 +543,22 @@ export class EventHookService {
       body = this.substituteVariables(action.body, context);
     } else if (method !== 'GET') {
       // Default body with context information
-      body = JSON.stringify({
-        eventType: context.eventType,
-        timestamp: context.timestamp,
-        featureId: context.featureId,
-        featureName: context.featureName,
-        projectPath: context.projectPath,
-        projectName: context.projectName,
-        error: context.error,
-      });
+      body = JSON.stringify(context);
     }
 
-    logger.info(`Executing HTTP hook "${hookName}": ${method} ${url}`);
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), DEFAULT_HTTP_TIMEOUT);
-
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: method !== 'GET' ? body : undefined,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        logger.warn(`HTTP hook "${hookName}" received status ${response.status}`);
-      } else {
-        logger.info(`HTTP hook "${hookName}" completed successfully (status: ${response.status})`);
-      }
-    } catch (error) {
-      if ((error as Error).name === 'AbortError') {
-        logger.error(`HTTP hook "${hookName}" timed out after ${DEFAULT_HTTP_TIMEOUT}ms`);
-      }
-      throw error;
-    }
+    logger.info(`Executing HTTP hook "${hook.name || hook.id}": ${method} ${url}`);
+
+    const entry = await this.webhookOutbox.send({
+      hookId: hook.id,
+      hookName: hook.name,
+      trigger: context.eventType,
+      projectPath: context.projectPath,
+      eventId: eventId ?? undefined,
+      request: { url, method, headers, body: method !== 'GET' ? body : undefined },
+      secret: action.secret,
+      retry: action.retry,
+    });
+    return toHookDelivery(entry);
   }
 
   /**
@@ -374,7 +566,7 @@ export class EventHookService {
    */
   private substituteVariables(template: string, context: HookContext): string {
     return template.replace(/\{\{(\w+)\}\}/g, (match, variable) => {
-      const value = context[variable as keyof HookContext];
+      const value = context[variable];
       if (value === undefined || value === null) {
         return '';
       }
@@ -0,0 +1,140 @@
+/**
+ * Feature Prompt Service - Records the exact prompts sent for a feature
+ *
+ * Every agent query made while working on a feature (implementation, each
+ * plan task, pipeline steps, follow-ups) stores its final system prompt and
+ * prompt, with the budget report of how it was fitted to the model, in
+ * {projectPath}/.automaker/features/{featureId}/prompts/{id}.json. Only the
+ * most recent records are kept. The agent output modal shows them in its
+ * prompt inspector.
+ */
+
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createLogger, atomicWriteJson, readJsonFile, estimateTokens } from '@automaker/utils';
+import { getFeatureDir } from '@automaker/platform';
+import type { FeaturePromptRecord, FeaturePromptSummary } from '@automaker/types';
+import * as secureFs from '../lib/secure-fs.js';
+
+const logger = createLogger('FeaturePromptService');
+
+/** Records kept per feature; older ones are deleted */
+const MAX_PROMPT_RECORDS = 30;
+
+/**
+ * Input for recording a prompt (ID, timestamp and token estimate are added)
+ */
+export type RecordPromptInput = Omit<FeaturePromptRecord, 'id' | 'createdAt' | 'estimatedTokens'>;
+
+/**
+ * FeaturePromptService - Manages per-feature prompt records
+ */
+export class FeaturePromptService {
+  /** Time part of the last generated ID, so IDs stay ordered within a millisecond */
+  private lastIdTime = 0;
+
+  /**
+   * Get the directory holding a feature's prompt records
+   */
+  getPromptsDir(projectPath: string, featureId: string): string {
+    return path.join(getFeatureDir(projectPath, featureId), 'prompts');
+  }
+
+  /**
+   * List a feature's prompt records without their text, newest first
+   */
+  async listPrompts(projectPath: string, featureId: string): Promise<FeaturePromptSummary[]> {
+    const ids = await this.listRecordIds(projectPath, featureId);
+    const records = await Promise.all(ids.map((id) => this.getPrompt(projectPath, featureId, id)));
+    return records
+      .filter((record): record is FeaturePromptRecord => record !== null)
+      .map(({ systemPrompt: _systemPrompt, prompt: _prompt, ...summary }) => summary);
+  }
+
+  /**
+   * Get a single prompt record
+   *
+   * @returns The record, or null if it doesn't exist
+   */
+  async getPrompt(
+    projectPath: string,
+    featureId: string,
+    promptId: string
+  ): Promise<FeaturePromptRecord | null> {
+    // IDs are generated here; anything else could escape the prompts directory
+    if (!/^[\w-]+$/.test(promptId)) return null;
+    return readJsonFile<FeaturePromptRecord | null>(
+      path.join(this.getPromptsDir(projectPath, featureId), `${promptId}.json`),
+      null
+    );
+  }
+
+  /**
+   * Record a prompt that is about to be sent, and prune old records
+   */
+  async recordPrompt(
+    projectPath: string,
+    featureId: string,
+    input: RecordPromptInput
+  ): Promise<FeaturePromptRecord> {
+    const now = new Date();
+    this.lastIdTime = Math.max(now.getTime(), this.lastIdTime + 1);
+    const record: FeaturePromptRecord = {
+      // Time first, so IDs sort in the order prompts were sent
+      id: `${this.lastIdTime.toString(36).padStart(9, '0')}-${randomUUID().slice(0, 8)}`,
+      createdAt: now.toISOString(),
+      ...input,
+      estimatedTokens: estimateTokens((input.systemPrompt ?? '') + input.prompt),
+    };
+
+    const promptsDir = this.getPromptsDir(projectPath, featureId);
+    await atomicWriteJson(path.join(promptsDir, `${record.id}.json`), record, {
+      createDirs: true,
+    });
+
+    const stale = (await this.listRecordIds(projectPath, featureId)).slice(MAX_PROMPT_RECORDS);
+    for (const id of stale) {
+      try {
+        await secureFs.unlink(path.join(promptsDir, `${id}.json`));
+      } catch (error) {
+        logger.warn(`Failed to prune prompt record ${id} for feature ${featureId}:`, error);
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Record IDs, newest first
+   */
+  private async listRecordIds(projectPath: string, featureId: string): Promise<string[]> {
+    try {
+      const names = (await secureFs.readdir(
+        this.getPromptsDir(projectPath, featureId)
+      )) as string[];
+      return names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => name.slice(0, -'.json'.length))
+        .sort()
+        .reverse();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to list prompt records for feature ${featureId}:`, error);
+      }
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+let featurePromptServiceInstance: FeaturePromptService | null = null;
+
+/**
+ * Get the singleton feature prompt service instance
+ */
+export function getFeaturePromptService(): FeaturePromptService {
+  if (!featurePromptServiceInstance) {
+    featurePromptServiceInstance = new FeaturePromptService();
+  }
+  return featurePromptServiceInstance;
+}
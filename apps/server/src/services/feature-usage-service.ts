@@ -0,0 +1,187 @@
+/**
+ * Feature Usage Service - Token and cost accounting per feature
+ *
+ * Provides persistent storage for usage reported by providers while a feature
+ * is being worked on, in {projectPath}/.automaker/features/{featureId}/usage.json
+ *
+ * Every provider query that reports usage (implementation, each pipeline step,
+ * follow-ups) appends an entry; the file also keeps running totals so the
+ * board can show per-card cost without replaying entries.
+ */
+
+import path from 'path';
+import {
+  createLogger,
+  atomicWriteJson,
+  readJsonFile,
+  resolveUsageTotals,
+  addUsageTotals,
+  createEmptyUsageTotals,
+} from '@automaker/utils';
+import { getFeatureDir, getFeaturesDir } from '@automaker/platform';
+import type {
+  FeatureUsage,
+  FeatureUsageEntry,
+  FeatureUsageSource,
+  ProjectUsageSummary,
+  ProviderUsage,
+} from '@automaker/types';
+import { FEATURE_USAGE_VERSION } from '@automaker/types';
+import * as secureFs from '../lib/secure-fs.js';
+
+const logger = createLogger('FeatureUsageService');
+
+/**
+ * Input for recording a provider usage report against a feature
+ */
+export interface RecordUsageInput {
+  source: FeatureUsageSource;
+  stepId?: string;
+  stepName?: string;
+  candidateId?: string;
+  model: string;
+  provider: string;
+  usage: ProviderUsage;
+}
+
+/**
+ * FeatureUsageService - Manages per-feature usage.json files
+ */
+export class FeatureUsageService {
+  /** Pending writes per usage file, so concurrent records don't clobber each other */
+  private writeQueues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Get the path to a feature's usage.json file
+   */
+  getUsagePath(projectPath: string, featureId: string): string {
+    return path.join(getFeatureDir(projectPath, featureId), 'usage.json');
+  }
+
+  /**
+   * Get usage for a feature
+   *
+   * @returns The feature's usage, or null if nothing has been recorded yet
+   */
+  async getFeatureUsage(projectPath: string, featureId: string): Promise<FeatureUsage | null> {
+    return readJsonFile<FeatureUsage | null>(this.getUsagePath(projectPath, featureId), null);
+  }
+
+  /**
+   * Record a provider usage report against a feature
+   *
+   * Cost is taken from the provider when reported, otherwise estimated
+   * from list pricing for the model.
+   *
+   * @returns The updated feature usage
+   */
+  async recordUsage(
+    projectPath: string,
+    featureId: string,
+    input: RecordUsageInput
+  ): Promise<FeatureUsage> {
+    const usagePath = this.getUsagePath(projectPath, featureId);
+    const { usage, costSource } = resolveUsageTotals(input.model, input.usage);
+
+    const entry: FeatureUsageEntry = {
+      timestamp: new Date().toISOString(),
+      source: input.source,
+      stepId: input.stepId,
+      stepName: input.stepName,
+      candidateId: input.candidateId,
+      model: input.model,
+      provider: input.provider,
+      usage,
+      costSource,
+    };
+
+    const previous = this.writeQueues.get(usagePath) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {
+        // A failed earlier write must not block later ones
+      })
+      .then(async () => {
+        const existing = await this.getFeatureUsage(projectPath, featureId);
+        const record: FeatureUsage = existing ?? {
+          version: FEATURE_USAGE_VERSION,
+          featureId,
+          totals: createEmptyUsageTotals(),
+          bySource: {},
+          entries: [],
+          updatedAt: entry.timestamp,
+        };
+
+        record.entries.push(entry);
+        record.totals = addUsageTotals(record.totals, usage);
+        record.bySource[entry.source] = addUsageTotals(
+          record.bySource[entry.source] ?? createEmptyUsageTotals(),
+          usage
+        );
+        if (entry.candidateId) {
+          record.byCandidate = record.byCandidate ?? {};
+          record.byCandidate[entry.candidateId] = addUsageTotals(
+            record.byCandidate[entry.candidateId] ?? createEmptyUsageTotals(),
+            usage
+          );
+        }
+        record.updatedAt = entry.timestamp;
+
+        await atomicWriteJson(usagePath, record, { createDirs: true });
+        return record;
+      });
+
+    this.writeQueues.set(usagePath, write);
+    try {
+      return await write;
+    } finally {
+      if (this.writeQueues.get(usagePath) === write) {
+        this.writeQueues.delete(usagePath);
+      }
+    }
+  }
+
+  /**
+   * Get usage totals for every feature in a project
+   */
+  async getProjectUsage(projectPath: string): Promise<ProjectUsageSummary> {
+    const summary: ProjectUsageSummary = { totals: createEmptyUsageTotals(), features: {} };
+
+    let featureIds: string[];
+    try {
+      const entries = (await secureFs.readdir(getFeaturesDir(projectPath), {
+        withFileTypes: true,
+      })) as Array<{ name: string; isDirectory: () => boolean }>;
+      featureIds = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to list features for usage in ${projectPath}:`, error);
+      }
+      return summary;
+    }
+
+    const usages = await Promise.all(
+      featureIds.map((featureId) => this.getFeatureUsage(projectPath, featureId))
+    );
+
+    for (const usage of usages) {
+      if (!usage?.totals) continue;
+      summary.features[usage.featureId] = usage.totals;
+      summary.totals = addUsageTotals(summary.totals, usage.totals);
+    }
+
+    return summary;
+  }
+}
+
+// Singleton instance
+let featureUsageServiceInstance: FeatureUsageService | null = null;
+
+/**
+ * Get the singleton feature usage service instance
+ */
+export function getFeatureUsageService(): FeatureUsageService {
+  if (!featureUsageServiceInstance) {
+    featureUsageServiceInstance = new FeatureUsageService();
+  }
+  return featureUsageServiceInstance;
+}
@@ -24,6 +24,8 @@ import type {
   PromptCategory,
   IdeationPrompt,
   IdeationContextSources,
+  IdeaRoadmapLane,
+  SuggestionDuplicate,
 } from '@automaker/types';
 import { DEFAULT_IDEATION_CONTEXT_SOURCES } from '@automaker/types';
 import {
@@ -38,6 +40,9 @@ import {
   ensureIdeationDir,
 } from '@automaker/platform';
 import { extractXmlElements, extractImplementedFeatures } from '../lib/xml-extractor.js';
+import { extractJsonWithKey } from '../lib/json-extractor.js';
+import { findMostSimilar, type SimilarityCandidate } from '../lib/text-similarity.js';
+import { wouldCreateCircularDependency } from '@automaker/dependency-resolver';
 import { createLogger, loadContextFiles, isAbortError } from '@automaker/utils';
 import { ProviderFactory } from '../providers/provider-factory.js';
 import type { SettingsService } from './settings-service.js';
@@ -53,6 +58,19 @@ import {
 
 const logger = createLogger('IdeationService');
 
+/** Suggestions at least this similar to an existing idea or feature are dropped */
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.75;
+
+/** Feature priority for ideas converted from a roadmap lane */
+const LANE_PRIORITY: Record<IdeaRoadmapLane, number> = { now: 1, next: 2, later: 3 };
+
+const DEPENDENCY_INFERENCE_PROMPT = `You are planning the implementation order of new features for a software project.
+
+For each NEW feature, list the IDs of the features that must be finished before work on it can start. Only add a dependency when the feature genuinely builds on the other one; most features have none. Use only IDs from the lists below.
+
+Respond with ONLY a JSON object, no other text:
+{"dependencies": {"<new feature id>": ["<id of prerequisite>", ...]}}`;
+
 interface ActiveSession {
   session: IdeationSession;
   messages: IdeationMessage[];
@@ -199,6 +217,8 @@ export class IdeationService {
       const contextResult = await loadContextFiles({
         projectPath,
         fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
+        // No task text, so memory selection is unchanged; only scopes context files
+        taskContext: { title: '', agentTypes: ['ideation'] },
       });
 
       // Gather existing features and ideas to prevent duplicate suggestions
@@ -375,6 +395,9 @@ export class IdeationService {
       status: input.status || 'raw',
       impact: input.impact || 'medium',
       effort: input.effort || 'medium',
+      confidence: input.confidence,
+      reach: input.reach,
+      lane: input.lane,
       conversationId: input.conversationId,
       sourcePromptId: input.sourcePromptId,
       userStories: input.userStories,
@@ -456,19 +479,93 @@ export class IdeationService {
     const idea = await this.getIdea(projectPath, ideaId);
     if (!idea) return null;
 
+    // null clears the reach estimate and takes the idea off the roadmap
+    const { reach, lane, ...rest } = updates;
+    const updatedIdea: Idea = {
+      ...idea,
+      ...rest,
+      reach: reach === null ? undefined : (reach ?? idea.reach),
+      lane: lane === null ? undefined : (lane ?? idea.lane),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.saveIdea(projectPath, updatedIdea);
+    return updatedIdea;
+  }
+
+  /**
+   * Set a voter's vote on an idea. Each voter has one vote; 0 withdraws it.
+   */
+  async voteIdea(
+    projectPath: string,
+    ideaId: string,
+    voter: string,
+    value: 1 | -1 | 0
+  ): Promise<Idea | null> {
+    const idea = await this.getIdea(projectPath, ideaId);
+    if (!idea) return null;
+
+    const votes = (idea.votes ?? []).filter((vote) => vote.voter !== voter);
+    if (value !== 0) {
+      votes.push({ voter, value, votedAt: new Date().toISOString() });
+    }
+    const updatedIdea: Idea = { ...idea, votes, updatedAt: new Date().toISOString() };
+
+    await this.saveIdea(projectPath, updatedIdea);
+    return updatedIdea;
+  }
+
+  /**
+   * Add a comment to an idea
+   */
+  async addIdeaComment(
+    projectPath: string,
+    ideaId: string,
+    author: string,
+    body: string
+  ): Promise<Idea | null> {
+    const idea = await this.getIdea(projectPath, ideaId);
+    if (!idea) return null;
+
+    const now = new Date().toISOString();
+    const comment = { id: this.generateId('comment'), author, body, createdAt: now };
+    const updatedIdea: Idea = {
+      ...idea,
+      comments: [...(idea.comments ?? []), comment],
+      updatedAt: now,
+    };
+
+    await this.saveIdea(projectPath, updatedIdea);
+    return updatedIdea;
+  }
+
+  /**
+   * Remove a comment from an idea
+   */
+  async deleteIdeaComment(
+    projectPath: string,
+    ideaId: string,
+    commentId: string
+  ): Promise<Idea | null> {
+    const idea = await this.getIdea(projectPath, ideaId);
+    if (!idea) return null;
+
     const updatedIdea: Idea = {
       ...idea,
-      ...updates,
+      comments: (idea.comments ?? []).filter((comment) => comment.id !== commentId),
       updatedAt: new Date().toISOString(),
     };
 
+    await this.saveIdea(projectPath, updatedIdea);
+    return updatedIdea;
+  }
+
+  private async saveIdea(projectPath: string, idea: Idea): Promise<void> {
     await secureFs.writeFile(
-      getIdeaPath(projectPath, ideaId),
-      JSON.stringify(updatedIdea, null, 2),
+      getIdeaPath(projectPath, idea.id),
+      JSON.stringify(idea, null, 2),
       'utf-8'
     );
-
-    return updatedIdea;
   }
 
   /**
@@ -626,10 +723,119 @@ export class IdeationService {
       description,
       status: 'backlog',
     };
+    if (idea.lane) {
+      feature.priority = LANE_PRIORITY[idea.lane];
+    }
 
     return feature;
   }
 
+  /**
+   * Ask the backlog planning model which new features depend on each other
+   * or on features already on the board.
+   *
+   * Only dependencies of the new features are returned, limited to known
+   * feature IDs, and any that would form a cycle are dropped.
+   */
+  async inferFeatureDependencies(
+    projectPath: string,
+    newFeatures: Feature[]
+  ): Promise<Record<string, string[]>> {
+    if (newFeatures.length === 0) return {};
+
+    const newIds = new Set(newFeatures.map((feature) => feature.id));
+    const existingFeatures = this.featureLoader
+      ? (await this.featureLoader.getAll(projectPath)).filter(
+          (feature) => !newIds.has(feature.id) && feature.status !== 'completed'
+        )
+      : [];
+    const describe = (feature: Feature) =>
+      `- ID: ${feature.id}\n  Title: ${feature.title || 'Untitled'}\n  Description: ${feature.description.slice(0, 500)}`;
+    const prompt = [
+      '## New features',
+      newFeatures.map(describe).join('\n'),
+      '## Existing features',
+      existingFeatures.length > 0 ? existingFeatures.map(describe).join('\n') : 'None.',
+    ].join('\n\n');
+
+    const phaseResult = await getPhaseModelWithOverrides(
+      'backlogPlanningModel',
+      this.settingsService,
+      projectPath,
+      '[IdeationService]'
+    );
+    const resolved = resolvePhaseModel(phaseResult.phaseModel);
+    const provider = ProviderFactory.getProviderForModel(resolved.model);
+
+    const stream = provider.executeQuery({
+      prompt,
+      model: stripProviderPrefix(resolved.model),
+      originalModel: resolved.model,
+      cwd: projectPath,
+      systemPrompt: DEPENDENCY_INFERENCE_PROMPT,
+      maxTurns: 1,
+      allowedTools: [],
+      abortController: new AbortController(),
+      readOnly: true,
+      thinkingLevel: resolved.thinkingLevel,
+      claudeCompatibleProvider: phaseResult.provider,
+      credentials: phaseResult.credentials,
+    });
+
+    let responseText = '';
+    for await (const msg of stream) {
+      if (msg.type === 'assistant' && msg.message?.content) {
+        for (const block of msg.message.content) {
+          if (block.type === 'text') {
+            responseText += block.text;
+          }
+        }
+      } else if (msg.type === 'result' && msg.subtype === 'success' && msg.result) {
+        responseText = msg.result;
+      }
+    }
+
+    const parsed = extractJsonWithKey<{ dependencies: Record<string, unknown> }>(
+      responseText,
+      'dependencies',
+      { logger }
+    );
+    if (!parsed || typeof parsed.dependencies !== 'object' || parsed.dependencies === null) {
+      logger.warn('Could not parse inferred dependencies');
+      return {};
+    }
+
+    // Add edges one at a time so a cycle in the model's answer can't get through
+    const knownIds = new Set([...newIds, ...existingFeatures.map((feature) => feature.id)]);
+    const graph: Feature[] = [
+      ...existingFeatures,
+      ...newFeatures.map((feature) => ({ ...feature, dependencies: [] })),
+    ];
+    const byId = new Map(graph.map((feature) => [feature.id, feature]));
+    const result: Record<string, string[]> = {};
+
+    for (const feature of newFeatures) {
+      const candidates = parsed.dependencies[feature.id];
+      if (!Array.isArray(candidates)) continue;
+
+      for (const dependencyId of candidates) {
+        if (
+          typeof dependencyId !== 'string' ||
+          dependencyId === feature.id ||
+          !knownIds.has(dependencyId) ||
+          result[feature.id]?.includes(dependencyId) ||
+          wouldCreateCircularDependency(graph, dependencyId, feature.id)
+        ) {
+          continue;
+        }
+        byId.get(feature.id)!.dependencies!.push(dependencyId);
+        (result[feature.id] ??= []).push(dependencyId);
+      }
+    }
+
+    return result;
+  }
+
   // ============================================================================
   // Generate Suggestions
   // ============================================================================
@@ -670,6 +876,7 @@ export class IdeationService {
         fsModule: secureFs as Parameters<typeof loadContextFiles>[0]['fsModule'],
         includeContextFiles: sources.useContextFiles,
         includeMemory: sources.useMemoryFiles,
+        taskContext: { title: '', agentTypes: ['ideation'] },
       });
 
       // Build context from multiple sources
@@ -771,11 +978,11 @@ export class IdeationService {
         }
       }
 
-      // Parse the response into structured suggestions
-      const suggestions = this.parseSuggestionsFromResponse(
-        responseText,
-        category,
-        suggestionCount
+      // Parse the response into structured suggestions, dropping any that
+      // repeat an existing idea or feature despite the prompt
+      const { suggestions, duplicates } = await this.dedupeSuggestions(
+        projectPath,
+        this.parseSuggestionsFromResponse(responseText, category, suggestionCount)
       );
 
       // Emit complete event
@@ -784,6 +991,7 @@ export class IdeationService {
         promptId,
         category,
         suggestions,
+        duplicates,
       });
 
       return suggestions;
@@ -798,6 +1006,66 @@ export class IdeationService {
     }
   }
 
+  /**
+   * Drop suggestions that are near-duplicates of an active idea, a feature on
+   * the board, or an earlier suggestion in the same batch
+   */
+  async dedupeSuggestions(
+    projectPath: string,
+    suggestions: AnalysisSuggestion[]
+  ): Promise<{ suggestions: AnalysisSuggestion[]; duplicates: SuggestionDuplicate[] }> {
+    type Existing = SimilarityCandidate & { type: SuggestionDuplicate['similarTo']['type'] };
+
+    const ideas = (await this.getIdeas(projectPath)).filter((idea) => idea.status !== 'archived');
+    let features: Feature[] = [];
+    if (this.featureLoader) {
+      try {
+        features = await this.featureLoader.getAll(projectPath);
+      } catch (error) {
+        logger.warn('Failed to load features for deduplication:', error);
+      }
+    }
+    const existing: Existing[] = [
+      ...ideas.map((idea) => ({
+        type: 'idea' as const,
+        id: idea.id,
+        title: idea.title,
+        description: idea.description,
+      })),
+      ...features.map((feature) => ({
+        type: 'feature' as const,
+        id: feature.id,
+        title: feature.title || '',
+        description: feature.description,
+      })),
+    ];
+
+    const unique: AnalysisSuggestion[] = [];
+    const duplicates: SuggestionDuplicate[] = [];
+    for (const suggestion of suggestions) {
+      const match = findMostSimilar(suggestion, existing, DUPLICATE_SIMILARITY_THRESHOLD);
+      if (match) {
+        duplicates.push({
+          title: suggestion.title,
+          similarTo: {
+            type: match.candidate.type,
+            id: match.candidate.id,
+            title: match.candidate.title,
+          },
+          similarity: Math.round(match.similarity * 100) / 100,
+        });
+        continue;
+      }
+      unique.push(suggestion);
+      existing.push({ type: 'suggestion', ...suggestion });
+    }
+
+    if (duplicates.length > 0) {
+      logger.info(`Dropped ${duplicates.length} duplicate suggestion(s)`);
+    }
+    return { suggestions: unique, duplicates };
+  }
+
   /**
    * Build system prompt for structured suggestion generation
    * @param basePrompt - The base system prompt from settings
@@ -0,0 +1,371 @@
+/**
+ * Inbound Hook Service - Lets external systems create and drive features
+ *
+ * Projects configure inbound hooks in ProjectSettings.inboundHooks. A POST to
+ * /api/inbound/:hookId is authenticated with the hook's secret, its filters
+ * are checked, and the request is mapped onto the hook's action:
+ * - create_feature: files a backlog feature from the title/description/...
+ *   templates (e.g. a failing CI job queues "Fix the build" on its branch)
+ * - start_auto_mode: starts the auto loop for a worktree
+ * - add_follow_up: sends a follow-up prompt to an existing feature
+ *
+ * Senders may retry; requests repeating an Idempotency-Key (or GitHub's
+ * X-GitHub-Delivery) get the first request's result without acting again.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { createLogger, expandEnvVars } from '@automaker/utils';
+import type { Feature, InboundHook, InboundHookResult } from '@automaker/types';
+import { INBOUND_HOOK_ENV_PREFIX } from '@automaker/types';
+import type { EventEmitter } from '../lib/events.js';
+import type { SettingsService } from './settings-service.js';
+import type { FeatureLoader } from './feature-loader.js';
+import type { AutoModeService } from './auto-mode-service.js';
+import { matchesEventHookFilters } from './event-hook-service.js';
+import { signWebhookPayload } from './webhook-outbox-service.js';
+import { getPath } from './issue-sources/rest-issue-source.js';
+
+const logger = createLogger('InboundHooks');
+
+/** How far X-Automaker-Timestamp may be from the server clock */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** How long, and how many, idempotency keys are remembered */
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_IDEMPOTENCY_KEYS = 1000;
+
+/**
+ * An inbound request as seen by templates and filters
+ */
+export interface InboundRequest {
+  /** Parsed JSON body */
+  body: unknown;
+  /** Body exactly as received, for signature checks */
+  rawBody: string;
+  /** Header names in lower case, as Node provides them */
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+}
+
+/** A hook together with the project it belongs to */
+export interface ResolvedInboundHook {
+  projectPath: string;
+  hook: InboundHook;
+}
+
+/**
+ * Compare secrets without leaking their length or content through timing
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+function headerValue(request: InboundRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read a template source such as "body.workflow_run.head_branch",
+ * "headers.x-github-event" or "query.branch" from a request
+ */
+export function resolveInboundSource(request: InboundRequest, source: string): unknown {
+  const [root, ...rest] = source.trim().split('.');
+  const path = rest.join('.');
+  switch (root) {
+    case 'body':
+      return getPath(request.body, path);
+    case 'headers':
+      return path ? headerValue(request, path.toLowerCase()) : undefined;
+    case 'query':
+      return getPath(request.query, path);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Fill {{body.*}}, {{headers.*}} and {{query.*}} placeholders in a mapping
+ * template. Objects and arrays are inserted as JSON; missing values as ''.
+ */
+export function renderInboundTemplate(template: string, request: InboundRequest): string {
+  return template.replace(
+    /\{\{\s*((?:body|headers|query)(?:\.[\w.-]+)?)\s*\}\}/g,
+    (_match, source: string) => {
+      const value = resolveInboundSource(request, source);
+      if (value === undefined || value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  );
+}
+
+/**
+ * Check a request against a hook's secret. Accepted proofs:
+ * - Authorization: Bearer <secret>
+ * - X-Automaker-Signature: sha256=HMAC(secret, "<timestamp>.<raw body>") with
+ *   a recent X-Automaker-Timestamp (the outgoing webhook scheme)
+ * - X-Hub-Signature-256: sha256=HMAC(secret, raw body) (GitHub webhooks)
+ *
+ * Hooks without a secret accept nothing.
+ */
+export function verifyInboundRequest(
+  secret: string,
+  request: InboundRequest,
+  now: number = Date.now()
+): boolean {
+  if (!secret) return false;
+
+  const authorization = headerValue(request, 'authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return safeEqual(authorization.slice('Bearer '.length).trim(), secret);
+  }
+
+  const signature = headerValue(request, 'x-automaker-signature');
+  const timestamp = headerValue(request, 'x-automaker-timestamp');
+  if (signature && timestamp) {
+    const age = Math.abs(now / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) return false;
+    return safeEqual(signature, `sha256=${signWebhookPayload(secret, timestamp, request.rawBody)}`);
+  }
+
+  const githubSignature = headerValue(request, 'x-hub-signature-256');
+  if (githubSignature) {
+    const expected = createHmac('sha256', secret).update(request.rawBody).digest('hex');
+    return safeEqual(githubSignature, `sha256=${expected}`);
+  }
+
+  return false;
+}
+
+export class InboundHookService {
+  private handled = new Map<string, { result: InboundHookResult; at: number }>();
+  /** Deliveries being processed, so a retry arriving meanwhile waits for them */
+  private inFlight = new Map<string, Promise<InboundHookResult>>();
+
+  constructor(
+    private events: EventEmitter,
+    private settingsService: SettingsService,
+    private featureLoader: FeatureLoader,
+    private autoModeService: AutoModeService,
+    private env: NodeJS.ProcessEnv = process.env
+  ) {}
+
+  /**
+   * Find a hook by ID across all known projects
+   */
+  async findHook(hookId: string): Promise<ResolvedInboundHook | null> {
+    const { projects } = await this.settingsService.getGlobalSettings();
+    for (const project of projects ?? []) {
+      const { inboundHooks } = await this.settingsService.getProjectSettings(project.path);
+      const hook = inboundHooks?.find((candidate) => candidate.id === hookId);
+      if (hook) {
+        return { projectPath: project.path, hook };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether a request carries valid proof of the hook's secret. A secret that
+   * names a variable without INBOUND_HOOK_ENV_PREFIX rejects every request.
+   */
+  verify(hook: InboundHook, request: InboundRequest): boolean {
+    let secret: string;
+    try {
+      secret = expandEnvVars(hook.secret ?? '', this.env, INBOUND_HOOK_ENV_PREFIX);
+    } catch (error) {
+      logger.warn(`Inbound hook ${hook.id}: ${(error as Error).message}`);
+      return false;
+    }
+    return verifyInboundRequest(secret, request);
+  }
+
+  /**
+   * Apply a hook's filters and run its action for an authenticated request
+   */
+  async handle(
+    projectPath: string,
+    hook: InboundHook,
+    request: InboundRequest
+  ): Promise<InboundHookResult> {
+    const deliveryKey =
+      headerValue(request, 'idempotency-key') ?? headerValue(request, 'x-github-delivery');
+    const cacheKey = deliveryKey ? `${hook.id}:${deliveryKey}` : null;
+    const previous = cacheKey ? this.handled.get(cacheKey) : undefined;
+    if (previous && Date.now() - previous.at < IDEMPOTENCY_TTL_MS) {
+      logger.info(`Inbound hook ${hook.id}: delivery ${deliveryKey} already handled`);
+      return previous.result;
+    }
+    const pending = cacheKey ? this.inFlight.get(cacheKey) : undefined;
+    if (pending) {
+      logger.info(`Inbound hook ${hook.id}: delivery ${deliveryKey} already in progress`);
+      return pending;
+    }
+
+    const running = this.runAction(projectPath, hook, request);
+    if (cacheKey) this.inFlight.set(cacheKey, running);
+    let result: InboundHookResult;
+    try {
+      result = await running;
+    } finally {
+      if (cacheKey) this.inFlight.delete(cacheKey);
+    }
+    if (cacheKey && result.status !== 'rejected') {
+      this.remember(cacheKey, result);
+    }
+    logger.info(
+      `Inbound hook ${hook.name || hook.id} (${hook.action}): ${result.status}` +
+        (result.reason ? ` - ${result.reason}` : '')
+    );
+    return result;
+  }
+
+  private async runAction(
+    projectPath: string,
+    hook: InboundHook,
+    request: InboundRequest
+  ): Promise<InboundHookResult> {
+    const filterContext: Record<string, string | number | boolean | undefined> = {};
+    for (const filter of hook.filters ?? []) {
+      const value = resolveInboundSource(request, filter.field);
+      filterContext[filter.field] =
+        value === undefined || value === null
+          ? undefined
+          : typeof value === 'object'
+            ? JSON.stringify(value)
+            : (value as string | number | boolean);
+    }
+    if (!matchesEventHookFilters(hook.filters, filterContext)) {
+      return { status: 'ignored', reason: 'Request did not match the hook filters' };
+    }
+
+    const render = (template: string | undefined): string | undefined =>
+      template ? renderInboundTemplate(template, request).trim() || undefined : undefined;
+
+    switch (hook.action) {
+      case 'create_feature':
+        return this.createFeature(projectPath, hook, render);
+      case 'start_auto_mode':
+        return this.startAutoMode(projectPath, render(hook.mapping.branchName) ?? null);
+      case 'add_follow_up':
+        return this.addFollowUp(
+          projectPath,
+          render(hook.mapping.featureId),
+          render(hook.mapping.prompt)
+        );
+      default:
+        return { status: 'rejected', reason: `Unknown action: ${String(hook.action)}` };
+    }
+  }
+
+  private async createFeature(
+    projectPath: string,
+    hook: InboundHook,
+    render: (template: string | undefined) => string | undefined
+  ): Promise<InboundHookResult> {
+    const { mapping } = hook;
+    const title = render(mapping.title);
+    if (!title) {
+      return { status: 'rejected', reason: 'The title template resolved to an empty string' };
+    }
+
+    const duplicate = await this.featureLoader.findDuplicateTitle(projectPath, title);
+    if (duplicate) {
+      return {
+        status: 'duplicate',
+        featureId: duplicate.id,
+        reason: `A feature with title "${title}" already exists`,
+      };
+    }
+
+    const priority = Number(render(mapping.priority));
+    const featureData: Partial<Feature> = {
+      title,
+      description: render(mapping.description) ?? title,
+      category: render(mapping.category) ?? 'Uncategorized',
+      branchName: render(mapping.branchName),
+      model: render(mapping.model),
+      priority: [1, 2, 3].includes(priority) ? priority : undefined,
+      status: 'backlog',
+    };
+    const feature = await this.featureLoader.create(projectPath, featureData);
+
+    this.events.emit('feature:created', {
+      featureId: feature.id,
+      featureName: feature.title || 'Untitled Feature',
+      projectPath,
+    });
+    this.emitBoardUpdated(projectPath, feature.id);
+    return { status: 'created', featureId: feature.id };
+  }
+
+  private async startAutoMode(
+    projectPath: string,
+    branchName: string | null
+  ): Promise<InboundHookResult> {
+    if (this.autoModeService.isAutoLoopRunningForProject(projectPath, branchName)) {
+      return { status: 'already_running' };
+    }
+    await this.autoModeService.startAutoLoopForProject(projectPath, branchName);
+    return { status: 'started' };
+  }
+
+  private async addFollowUp(
+    projectPath: string,
+    featureId: string | undefined,
+    prompt: string | undefined
+  ): Promise<InboundHookResult> {
+    if (!featureId || !prompt) {
+      return {
+        status: 'rejected',
+        reason: 'The featureId and prompt templates must both resolve to a value',
+      };
+    }
+    const feature = await this.featureLoader.get(projectPath, featureId);
+    if (!feature) {
+      return { status: 'rejected', featureId, reason: `Feature ${featureId} not found` };
+    }
+    if (this.autoModeService.isFeatureRunning(featureId)) {
+      return { status: 'rejected', featureId, reason: `Feature ${featureId} is already running` };
+    }
+
+    const [globalSettings, projectSettings] = await Promise.all([
+      this.settingsService.getGlobalSettings(),
+      this.settingsService.getProjectSettings(projectPath),
+    ]);
+    const useWorktrees = projectSettings.useWorktrees ?? globalSettings.useWorktrees ?? false;
+
+    // The follow-up runs in the background; progress is reported via auto mode events
+    this.autoModeService
+      .followUpFeature(projectPath, featureId, prompt, undefined, useWorktrees)
+      .catch((error) => {
+        logger.error(`Inbound follow-up for feature ${featureId} error:`, error);
+      });
+    return { status: 'follow_up_started', featureId };
+  }
+
+  private remember(key: string, result: InboundHookResult): void {
+    const now = Date.now();
+    for (const [existing, entry] of this.handled) {
+      if (now - entry.at >= IDEMPOTENCY_TTL_MS || this.handled.size >= MAX_IDEMPOTENCY_KEYS) {
+        this.handled.delete(existing);
+      } else {
+        break;
+      }
+    }
+    this.handled.set(key, { result, at: now });
+  }
+
+  /**
+   * Tell the UI the board changed, so it refreshes its feature list
+   */
+  private emitBoardUpdated(projectPath: string, featureId: string): void {
+    this.events.emit('auto-mode:event', {
+      type: 'board_updated_externally',
+      featureId,
+      projectPath,
+    });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * GitHub issue source - GitHub issues through the gh CLI
+ *
+ * Listing and comments reuse the GitHub routes' queries; writes run
+ * `gh issue comment/close/reopen` in the project directory.
+ */
+
+import { spawnProcess } from '@automaker/platform';
+import type { IssueCommentsResult, IssueSourceInfo, SourceIssue } from '@automaker/types';
+import { extendedPath } from '../../routes/github/routes/common.js';
+import { checkGitHubRemote } from '../../routes/github/routes/check-github-remote.js';
+import { listGitHubIssues } from '../../routes/github/routes/list-issues.js';
+import { fetchIssueComments } from '../../routes/github/routes/list-comments.js';
+import type { IssueListResult, IssueRef, IssueSource, LinkedPullRequestInput } from './types.js';
+
+const ISSUE_VIEW_FIELDS = 'number,title,state,author,createdAt,labels,url,body,assignees';
+
+export class GitHubIssueSource implements IssueSource {
+  readonly type = 'github' as const;
+  readonly name = 'GitHub';
+
+  constructor(private projectPath: string) {}
+
+  async getInfo(): Promise<IssueSourceInfo> {
+    const remote = await checkGitHubRemote(this.projectPath);
+    return {
+      type: this.type,
+      name: this.name,
+      available: remote.hasGitHubRemote,
+      reason: remote.hasGitHubRemote ? undefined : 'Project does not have a GitHub remote',
+      supportsComments: true,
+    };
+  }
+
+  async listIssues(): Promise<IssueListResult> {
+    const remote = await this.requireRemote();
+    const { openIssues, closedIssues } = await listGitHubIssues(this.projectPath, remote);
+    return { openIssues, closedIssues };
+  }
+
+  async getIssue(issue: IssueRef): Promise<SourceIssue | null> {
+    const result = await spawnProcess({
+      command: 'gh',
+      args: ['issue', 'view', String(issue.number), '--json', ISSUE_VIEW_FIELDS],
+      cwd: this.projectPath,
+      env: { PATH: extendedPath },
+    });
+    if (result.exitCode !== 0) {
+      return null;
+    }
+    return JSON.parse(result.stdout) as SourceIssue;
+  }
+
+  async listComments(issue: IssueRef, cursor?: string): Promise<IssueCommentsResult> {
+    const remote = await this.requireRemote();
+    return fetchIssueComments(this.projectPath, remote.owner!, remote.repo!, issue.number, cursor);
+  }
+
+  async addComment(issue: IssueRef, body: string): Promise<void> {
+    await this.gh(['issue', 'comment', String(issue.number), '--body-file', '-'], body);
+  }
+
+  async transition(issue: IssueRef, state: string): Promise<void> {
+    const normalized = state.toLowerCase();
+    if (normalized !== 'open' && normalized !== 'closed') {
+      throw new Error(`GitHub issues can only be "open" or "closed", not "${state}"`);
+    }
+    await this.gh(['issue', normalized === 'closed' ? 'close' : 'reopen', String(issue.number)]);
+  }
+
+  async linkPullRequest(issue: IssueRef, pullRequest: LinkedPullRequestInput): Promise<void> {
+    // GitHub links the PR from the timeline once the issue mentions it
+    const label = pullRequest.title ? `${pullRequest.title} - ` : '';
+    await this.addComment(issue, `Linked pull request: ${label}${pullRequest.url}`);
+  }
+
+  async updateLabels(issue: IssueRef, add: string[], remove: string[]): Promise<void> {
+    if (add.length === 0 && remove.length === 0) return;
+    const args = ['issue', 'edit', String(issue.number)];
+    if (add.length > 0) args.push('--add-label', add.join(','));
+    if (remove.length > 0) args.push('--remove-label', remove.join(','));
+    await this.gh(args);
+  }
+
+  private async requireRemote() {
+    const remote = await checkGitHubRemote(this.projectPath);
+    if (!remote.hasGitHubRemote || !remote.owner || !remote.repo) {
+      throw new Error('Project does not have a GitHub remote');
+    }
+    return remote;
+  }
+
+  private async gh(args: string[], stdinData?: string): Promise<void> {
+    const result = await spawnProcess({
+      command: 'gh',
+      args,
+      cwd: this.projectPath,
+      env: { PATH: extendedPath },
+      stdinData,
+    });
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `gh ${args.slice(0, 2).join(' ')} failed`);
+    }
+  }
+}
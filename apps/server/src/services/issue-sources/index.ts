@@ -0,0 +1,37 @@
+/**
+ * Issue sources - pluggable issue trackers
+ *
+ * A project's ProjectSettings.issueSource picks the adapter; projects without
+ * one use GitHub.
+ */
+
+import type { IssueSourceConfig } from '@automaker/types';
+import type { SettingsService } from '../settings-service.js';
+import { GitHubIssueSource } from './github-issue-source.js';
+import { RestIssueSource } from './rest-issue-source.js';
+import type { IssueSource } from './types.js';
+
+export type { IssueSource, IssueRef, IssueListResult, LinkedPullRequestInput } from './types.js';
+export { GitHubIssueSource } from './github-issue-source.js';
+export { RestIssueSource } from './rest-issue-source.js';
+
+/**
+ * Create the adapter for an issue source configuration
+ */
+export function createIssueSource(projectPath: string, config?: IssueSourceConfig): IssueSource {
+  if (config?.type === 'rest') {
+    return new RestIssueSource(config);
+  }
+  return new GitHubIssueSource(projectPath);
+}
+
+/**
+ * Get the issue source configured for a project
+ */
+export async function getIssueSource(
+  projectPath: string,
+  settingsService?: SettingsService
+): Promise<IssueSource> {
+  const projectSettings = await settingsService?.getProjectSettings(projectPath);
+  return createIssueSource(projectPath, projectSettings?.issueSource);
+}
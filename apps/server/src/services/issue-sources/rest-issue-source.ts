@@ -0,0 +1,299 @@
+/**
+ * REST issue source - any tracker with a JSON API
+ *
+ * Endpoints, request bodies and field mappings come from the project's
+ * RestIssueSourceConfig, so Jira- or Linear-like trackers (or a local mock)
+ * can be used without a dedicated adapter.
+ */
+
+import { expandEnvVars } from '@automaker/utils';
+import type {
+  GitHubComment,
+  IssueCommentsResult,
+  IssueSourceInfo,
+  RestIssueSourceConfig,
+  SourceIssue,
+  SourceIssueUser,
+} from '@automaker/types';
+import { DEFAULT_CLOSED_ISSUE_STATES, getIssueId, ISSUE_SOURCE_ENV_PREFIX } from '@automaker/types';
+import type { IssueListResult, IssueRef, IssueSource, LinkedPullRequestInput } from './types.js';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+const DEFAULT_BODIES = {
+  addComment: { body: '{{body}}' },
+  transition: { state: '{{state}}' },
+  linkPullRequest: { url: '{{url}}', title: '{{title}}' },
+  labels: { add: '{{add}}', remove: '{{remove}}' },
+};
+
+/**
+ * Read a dot path ("fields.status.name", "items.0.id") from a JSON value
+ */
+export function getPath(value: unknown, path: string | undefined): unknown {
+  if (!path) return value;
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Fill {{placeholder}} values in a request body template. A string that is
+ * exactly one placeholder for a list value becomes the list.
+ */
+export function fillTemplate(
+  template: unknown,
+  values: Record<string, string | string[]>
+): unknown {
+  if (typeof template === 'string') {
+    const whole = template.match(/^\{\{(\w+)\}\}$/);
+    if (whole && Array.isArray(values[whole[1]])) {
+      return values[whole[1]];
+    }
+    return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+      const value = values[name] ?? '';
+      return Array.isArray(value) ? value.join(',') : value;
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => fillTemplate(item, values));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, item]) => [key, fillTemplate(item, values)])
+    );
+  }
+  return template;
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+/**
+ * Read a name from a string, or from an object's name/login/displayName
+ */
+function asName(value: unknown): string | undefined {
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return asText(record.login ?? record.name ?? record.displayName);
+  }
+  return asText(value);
+}
+
+function asUser(value: unknown): SourceIssueUser {
+  const avatarUrl =
+    value && typeof value === 'object'
+      ? asText((value as Record<string, unknown>).avatarUrl)
+      : undefined;
+  return { login: asName(value) ?? 'unknown', avatarUrl };
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Get an issue number from a number or a key like "ENG-42". Numbers of
+ * different keys can be equal, so keyed issues are told apart by their key.
+ */
+export function parseIssueNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string') {
+    const match = value.match(/(\d+)\D*$/);
+    if (match) return Number(match[1]);
+  }
+  return null;
+}
+
+export class RestIssueSource implements IssueSource {
+  readonly type = 'rest' as const;
+
+  constructor(
+    private config: RestIssueSourceConfig,
+    private env: NodeJS.ProcessEnv = process.env,
+    private fetchImpl: typeof fetch = fetch
+  ) {}
+
+  get name(): string {
+    return this.config.name || 'Issue tracker';
+  }
+
+  async getInfo(): Promise<IssueSourceInfo> {
+    const missing = !this.config.baseUrl || !this.config.endpoints?.list;
+    return {
+      type: this.type,
+      name: this.name,
+      available: !missing,
+      reason: missing ? 'Issue source needs a baseUrl and a list endpoint' : undefined,
+      supportsComments: Boolean(this.config.endpoints?.comments),
+    };
+  }
+
+  async listIssues(): Promise<IssueListResult> {
+    const response = await this.request('GET', this.config.endpoints.list);
+    const issues = asArray(getPath(response, this.config.fields.items))
+      .map((item) => this.mapIssue(item))
+      .filter((issue): issue is SourceIssue => issue !== null);
+
+    return {
+      openIssues: issues.filter((issue) => issue.state === 'OPEN'),
+      closedIssues: issues.filter((issue) => issue.state === 'CLOSED'),
+    };
+  }
+
+  async getIssue(issue: IssueRef): Promise<SourceIssue | null> {
+    const endpoint = this.config.endpoints.get;
+    if (!endpoint) {
+      const { openIssues, closedIssues } = await this.listIssues();
+      const id = getIssueId(issue);
+      return [...openIssues, ...closedIssues].find((i) => getIssueId(i) === id) ?? null;
+    }
+    return this.mapIssue(await this.request('GET', this.resolveEndpoint(endpoint, issue)));
+  }
+
+  async listComments(issue: IssueRef): Promise<IssueCommentsResult> {
+    const endpoint = this.config.endpoints.comments;
+    if (!endpoint) {
+      return { comments: [], totalCount: 0, hasNextPage: false };
+    }
+
+    const fields = this.config.fields;
+    const response = await this.request('GET', this.resolveEndpoint(endpoint, issue));
+    const comments: GitHubComment[] = asArray(getPath(response, fields.commentItems)).map(
+      (item, index) => ({
+        id: asText(getPath(item, fields.commentId ?? 'id')) ?? String(index),
+        author: asUser(getPath(item, fields.commentAuthor ?? 'author')),
+        body: asText(getPath(item, fields.commentBody ?? 'body')) ?? '',
+        createdAt: asText(getPath(item, fields.commentCreatedAt ?? 'createdAt')) ?? '',
+      })
+    );
+    return { comments, totalCount: comments.length, hasNextPage: false };
+  }
+
+  async addComment(issue: IssueRef, body: string): Promise<void> {
+    const endpoint = this.requireEndpoint('addComment');
+    await this.request('POST', this.resolveEndpoint(endpoint, issue), {
+      template: this.config.bodies?.addComment ?? DEFAULT_BODIES.addComment,
+      values: { body },
+    });
+  }
+
+  async transition(issue: IssueRef, state: string): Promise<void> {
+    const endpoint = this.requireEndpoint('transition');
+    await this.request('POST', this.resolveEndpoint(endpoint, issue), {
+      template: this.config.bodies?.transition ?? DEFAULT_BODIES.transition,
+      values: { state },
+    });
+  }
+
+  async linkPullRequest(issue: IssueRef, pullRequest: LinkedPullRequestInput): Promise<void> {
+    const endpoint = this.config.endpoints.linkPullRequest;
+    if (!endpoint) {
+      const label = pullRequest.title ? `${pullRequest.title} - ` : '';
+      await this.addComment(issue, `Linked pull request: ${label}${pullRequest.url}`);
+      return;
+    }
+    await this.request('POST', this.resolveEndpoint(endpoint, issue), {
+      template: this.config.bodies?.linkPullRequest ?? DEFAULT_BODIES.linkPullRequest,
+      values: { url: pullRequest.url, title: pullRequest.title ?? '' },
+    });
+  }
+
+  async updateLabels(issue: IssueRef, add: string[], remove: string[]): Promise<void> {
+    if (add.length === 0 && remove.length === 0) return;
+    const endpoint = this.requireEndpoint('labels');
+    await this.request('POST', this.resolveEndpoint(endpoint, issue), {
+      template: this.config.bodies?.labels ?? DEFAULT_BODIES.labels,
+      values: { add, remove },
+    });
+  }
+
+  /**
+   * Map a tracker issue to a SourceIssue; items without a usable number are skipped
+   */
+  private mapIssue(item: unknown): SourceIssue | null {
+    const fields = this.config.fields;
+    const rawNumber = getPath(item, fields.number);
+    const number = parseIssueNumber(rawNumber);
+    if (number === null) return null;
+
+    const status = asName(getPath(item, fields.state)) ?? '';
+    const closedStates = (this.config.closedStates ?? DEFAULT_CLOSED_ISSUE_STATES).map((s) =>
+      s.toLowerCase()
+    );
+    const key =
+      asText(getPath(item, fields.key)) ??
+      (typeof rawNumber === 'string' && !/^\d+$/.test(rawNumber) ? rawNumber : undefined);
+
+    return {
+      number,
+      key,
+      title: asText(getPath(item, fields.title)) ?? '',
+      body: asText(getPath(item, fields.body)) ?? '',
+      state: closedStates.includes(status.toLowerCase()) ? 'CLOSED' : 'OPEN',
+      status,
+      url: asText(getPath(item, fields.url)) ?? '',
+      author: asUser(getPath(item, fields.author)),
+      createdAt: asText(getPath(item, fields.createdAt)) ?? '',
+      labels: asArray(getPath(item, fields.labels))
+        .map((label) => asName(label))
+        .filter((name): name is string => Boolean(name))
+        .map((name) => ({ name })),
+      assignees: asArray(getPath(item, fields.assignees)).map(asUser),
+    };
+  }
+
+  private requireEndpoint(name: 'addComment' | 'transition' | 'labels'): string {
+    const endpoint = this.config.endpoints[name];
+    if (!endpoint) {
+      throw new Error(`${this.name} has no ${name} endpoint configured`);
+    }
+    return endpoint;
+  }
+
+  private resolveEndpoint(endpoint: string, issue: IssueRef): string {
+    return endpoint
+      .replace(/\{number\}/g, String(issue.number))
+      .replace(/\{key\}/g, encodeURIComponent(issue.key ?? String(issue.number)));
+  }
+
+  private async request(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    body?: { template: unknown; values: Record<string, string | string[]> }
+  ): Promise<unknown> {
+    const url = `${this.config.baseUrl.replace(/\/$/, '')}/${endpoint.replace(/^\//, '')}`;
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    for (const [name, value] of Object.entries(this.config.headers ?? {})) {
+      headers[name] = expandEnvVars(value, this.env, ISSUE_SOURCE_ENV_PREFIX);
+    }
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await this.fetchImpl(url, {
+      method,
+      headers,
+      body: body ? JSON.stringify(fillTemplate(body.template, body.values)) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `${this.name} ${method} ${endpoint} failed (HTTP ${response.status}): ${text.slice(0, 200)}`
+      );
+    }
+    if (!text) return null;
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${this.name} ${method} ${endpoint} returned invalid JSON`);
+    }
+  }
+}
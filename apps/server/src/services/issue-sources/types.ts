@@ -0,0 +1,58 @@
+/**
+ * Issue source contract - what every issue tracker adapter implements
+ *
+ * Adapters are created per project. Issues are addressed by number, plus the
+ * tracker's key where it has one (REST trackers often address issues by key).
+ */
+
+import type {
+  IssueCommentsResult,
+  IssueSourceInfo,
+  IssueSourceType,
+  SourceIssue,
+} from '@automaker/types';
+
+/** Identifies an issue within a source */
+export interface IssueRef {
+  number: number;
+  key?: string;
+}
+
+export interface IssueListResult {
+  openIssues: SourceIssue[];
+  closedIssues: SourceIssue[];
+}
+
+export interface LinkedPullRequestInput {
+  url: string;
+  title?: string;
+}
+
+export interface IssueSource {
+  readonly type: IssueSourceType;
+  /** Display name, e.g. "GitHub" */
+  readonly name: string;
+
+  /** Whether the source can be used for this project */
+  getInfo(): Promise<IssueSourceInfo>;
+
+  /** Open and closed issues to show in the issues view */
+  listIssues(): Promise<IssueListResult>;
+
+  /** One issue, or null if the tracker doesn't have it */
+  getIssue(issue: IssueRef): Promise<SourceIssue | null>;
+
+  /** A page of an issue's comments */
+  listComments(issue: IssueRef, cursor?: string): Promise<IssueCommentsResult>;
+
+  addComment(issue: IssueRef, body: string): Promise<void>;
+
+  /** Move an issue to a tracker state, e.g. "closed" or "In Review" */
+  transition(issue: IssueRef, state: string): Promise<void>;
+
+  /** Record that a pull request implements the issue */
+  linkPullRequest(issue: IssueRef, pullRequest: LinkedPullRequestInput): Promise<void>;
+
+  /** Add and remove labels; removing a label the issue doesn't have is not an error */
+  updateLabels(issue: IssueRef, add: string[], remove: string[]): Promise<void>;
+}
@@ -0,0 +1,356 @@
+/**
+ * Issue Sync Service - Keeps features, their issues and their PRs in step
+ *
+ * Features converted from an issue carry a FeatureIssueLink. Every few
+ * minutes features whose branch has a pull request on GitHub (or, without
+ * GitHub, in worktree metadata) get its WorktreePRInfo. With
+ * issueSource.statusSync enabled:
+ * - When a linked feature changes status (feature:status-changed), the issue
+ *   is moved to the mapped tracker state, relabelled and commented on.
+ * - A merged or closed PR moves the card, and an issue closed upstream
+ *   archives the feature.
+ *
+ * A PR seen open on an earlier poll and now merged raises a pr_merged
+ * notification. Polling leaves running features, and features in a worktree
+ * whose auto loop is running, alone until a later poll.
+ */
+
+import { createLogger } from '@automaker/utils';
+import type {
+  Feature,
+  FeatureIssueLink,
+  IssueSourceConfig,
+  IssueStatusSync,
+  WorktreePRInfo,
+} from '@automaker/types';
+import { DEFAULT_PR_CLOSED_STATUS, DEFAULT_PR_MERGED_STATUS } from '@automaker/types';
+import type { EventEmitter } from '../lib/events.js';
+import { readAllWorktreeMetadata, updateWorktreePRInfo } from '../lib/worktree-metadata.js';
+import { fetchGitHubPRs } from '../routes/worktree/routes/list.js';
+import type { AutoModeService } from './auto-mode-service.js';
+import type { SettingsService } from './settings-service.js';
+import type { FeatureLoader } from './feature-loader.js';
+import { createIssueSource, type IssueSource } from './issue-sources/index.js';
+import { getNotificationService } from './notification-service.js';
+
+const logger = createLogger('IssueSync');
+
+/** How often linked PRs and issues are checked; matches the worktree PR cache TTL */
+const POLL_INTERVAL_MS = 2 * 60 * 1000;
+
+/** Payload of feature:status-changed events */
+export interface FeatureStatusChangedPayload {
+  projectPath: string;
+  featureId: string;
+  status: string;
+  previousStatus?: string;
+}
+
+/** What polling needs to know about auto mode */
+export type AutoModeActivity = Pick<
+  AutoModeService,
+  'isFeatureRunning' | 'isAutoLoopRunningForProject'
+>;
+
+export class IssueSyncService {
+  private unsubscribe: (() => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private events: EventEmitter,
+    private settingsService: SettingsService,
+    private featureLoader: FeatureLoader,
+    private autoMode: AutoModeActivity,
+    private createSource: typeof createIssueSource = createIssueSource,
+    private fetchPullRequests: typeof fetchGitHubPRs = fetchGitHubPRs
+  ) {}
+
+  /**
+   * Start listening for feature status changes and polling PRs and issues
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.events.subscribe((type, payload) => {
+      if (type === 'feature:status-changed') {
+        const { projectPath, featureId, status } = payload as FeatureStatusChangedPayload;
+        this.syncFeatureStatus(projectPath, featureId, status).catch((error) => {
+          logger.warn(`Failed to sync issue for feature ${featureId}:`, error);
+        });
+      }
+    });
+    this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Update a feature's linked issue for its new status: move it to the mapped
+   * tracker state, swap its status label and comment on it
+   *
+   * @returns Whether the issue was updated
+   */
+  async syncFeatureStatus(
+    projectPath: string,
+    featureId: string,
+    status: string
+  ): Promise<boolean> {
+    const feature = await this.featureLoader.get(projectPath, featureId);
+    const link = feature?.issueLink;
+    if (!feature || !link || link.lastSyncedStatus === status) return false;
+
+    const config = await this.getConfig(projectPath);
+    const sync = config.statusSync;
+    if (!sync?.enabled) return false;
+
+    const state = sync.statusMap?.[status];
+    const label = sync.labels?.[status];
+    if (!state && !sync.labels && !sync.comment) return false;
+
+    if (link.source !== config.type) {
+      logger.warn(
+        `Feature ${featureId} links a ${link.source} issue but the project uses ${config.type}; not syncing`
+      );
+      return false;
+    }
+
+    const source = this.createSource(projectPath, config);
+    const issue = { number: link.number, key: link.key };
+    if (state && state !== link.lastSyncedState) {
+      await source.transition(issue, state);
+      logger.info(`Moved ${source.name} issue ${this.getIssueLabel(link)} to "${state}"`);
+    }
+    if (sync.labels) {
+      const remove = Object.values(sync.labels).filter((name) => name !== label);
+      await source.updateLabels(issue, label ? [label] : [], remove);
+    }
+    if (sync.comment) {
+      await source.addComment(issue, this.getStatusComment(feature, status));
+    }
+
+    await this.featureLoader.update(projectPath, featureId, {
+      issueLink: {
+        ...link,
+        lastSyncedState: state ?? link.lastSyncedState,
+        lastSyncedStatus: status,
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Check every project's features against their PRs and issues once
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const { projects } = await this.settingsService.getGlobalSettings();
+      for (const project of projects ?? []) {
+        try {
+          await this.pollProject(project.path);
+        } catch (error) {
+          logger.warn(`Failed to sync features for ${project.path}:`, error);
+        }
+      }
+    } catch (error) {
+      logger.error('Issue sync poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Record a project's PRs on their features and, with status sync enabled,
+   * move features whose PR was merged or closed, or whose issue was closed
+   * upstream
+   */
+  async pollProject(projectPath: string): Promise<void> {
+    const config = await this.getConfig(projectPath);
+    const sync = config.statusSync?.enabled ? config.statusSync : null;
+
+    const features = (await this.featureLoader.getAll(projectPath)).filter(
+      (feature) =>
+        feature.status !== 'completed' && (feature.branchName || (sync && feature.issueLink))
+    );
+    if (features.length === 0) return;
+
+    // Worktree metadata only gets new PR states when the worktree panel
+    // refreshes, so ask GitHub and keep the metadata up to date
+    const metadata = await readAllWorktreeMetadata(projectPath);
+    const githubPRs = await this.fetchPullRequests(projectPath);
+    let source: IssueSource | null = null;
+    const getSource = () => (source ??= this.createSource(projectPath, config));
+
+    for (const feature of features) {
+      if (this.isInUse(projectPath, feature)) {
+        logger.debug(`Feature ${feature.id} is in use by auto mode; syncing it later`);
+        continue;
+      }
+      try {
+        const branch = feature.branchName;
+        const githubPR = branch ? githubPRs.get(branch) : undefined;
+        const storedPR = branch ? metadata.get(branch)?.pr : undefined;
+        if (branch && githubPR && githubPR.state !== storedPR?.state) {
+          await updateWorktreePRInfo(projectPath, branch, githubPR);
+        }
+        const pr = githubPR ?? storedPR;
+        if (pr) {
+          await this.syncPullRequest(projectPath, feature, pr, config, sync, getSource);
+        }
+        if (sync) {
+          await this.syncIssueState(projectPath, feature, config, sync, getSource);
+        }
+      } catch (error) {
+        logger.warn(`Failed to sync feature ${feature.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether auto mode is running the feature, or may pick it up: polling
+   * must not move a card the agent is working on
+   */
+  private isInUse(projectPath: string, feature: Feature): boolean {
+    return (
+      this.autoMode.isFeatureRunning(feature.id) ||
+      this.autoMode.isAutoLoopRunningForProject(projectPath, feature.branchName ?? null)
+    );
+  }
+
+  /**
+   * Record a feature's PR and, with status sync, link it to the feature's
+   * issue and move the card when the PR is merged or closed
+   */
+  private async syncPullRequest(
+    projectPath: string,
+    feature: Feature,
+    pr: WorktreePRInfo,
+    config: IssueSourceConfig,
+    sync: IssueStatusSync | null,
+    getSource: () => IssueSource
+  ): Promise<void> {
+    const previous = feature.pullRequest;
+    if (previous?.number === pr.number && previous.state === pr.state) return;
+
+    const link = feature.issueLink;
+    if (sync && previous?.number !== pr.number && link?.source === config.type) {
+      await getSource()
+        .linkPullRequest({ number: link.number, key: link.key }, { url: pr.url, title: pr.title })
+        .catch((error) => logger.warn(`Failed to link PR #${pr.number} to its issue:`, error));
+    }
+
+    const status = sync ? this.getPullRequestStatus(pr, sync) : null;
+
+    if (status && status !== feature.status) {
+      logger.info(`PR #${pr.number} is ${pr.state.toLowerCase()}; moving feature ${feature.id}`);
+      await this.moveFeature(projectPath, feature, status, { pullRequest: pr });
+    } else {
+      await this.featureLoader.update(projectPath, feature.id, { pullRequest: pr });
+      this.emitBoardUpdated(projectPath, feature.id);
+    }
+
+    // PRs first seen already merged were merged before they were tracked
+    if (pr.state === 'MERGED' && previous?.number === pr.number) {
+      await this.notifyMerged(projectPath, feature, pr);
+    }
+  }
+
+  private async notifyMerged(
+    projectPath: string,
+    feature: Feature,
+    pr: WorktreePRInfo
+  ): Promise<void> {
+    try {
+      await getNotificationService().createNotification({
+        type: 'pr_merged',
+        title: 'Pull Request Merged',
+        message: `PR #${pr.number} "${pr.title}" for "${feature.title || feature.id}" was merged.`,
+        featureId: feature.id,
+        projectPath,
+      });
+    } catch (error) {
+      logger.warn(`Failed to create merge notification for PR #${pr.number}:`, error);
+    }
+  }
+
+  /**
+   * Archive a feature whose issue was closed by someone other than status sync
+   */
+  private async syncIssueState(
+    projectPath: string,
+    feature: Feature,
+    config: IssueSourceConfig,
+    sync: IssueStatusSync,
+    getSource: () => IssueSource
+  ): Promise<void> {
+    const link = feature.issueLink;
+    if (!link || link.source !== config.type || sync.archiveOnIssueClosed === false) return;
+
+    const issue = await getSource().getIssue({ number: link.number, key: link.key });
+    if (issue?.state !== 'CLOSED') return;
+
+    // Status sync closed it itself, e.g. when the feature was verified
+    const trackerState = (issue.status ?? issue.state).toLowerCase();
+    if (link.lastSyncedState?.toLowerCase() === trackerState) return;
+
+    logger.info(`Issue ${this.getIssueLabel(link)} was closed; archiving feature ${feature.id}`);
+    await this.moveFeature(projectPath, feature, 'completed', {
+      // The issue is already closed, so there is nothing to sync back
+      issueLink: { ...link, lastSyncedStatus: 'completed' },
+    });
+  }
+
+  private async moveFeature(
+    projectPath: string,
+    feature: Feature,
+    status: string,
+    updates: Partial<Feature>
+  ): Promise<void> {
+    await this.featureLoader.update(projectPath, feature.id, { ...updates, status });
+    this.events.emit('feature:status-changed', {
+      projectPath,
+      featureId: feature.id,
+      status,
+      previousStatus: feature.status,
+    });
+    this.emitBoardUpdated(projectPath, feature.id);
+  }
+
+  private emitBoardUpdated(projectPath: string, featureId: string): void {
+    this.events.emit('auto-mode:event', {
+      type: 'board_updated_externally',
+      featureId,
+      projectPath,
+    });
+  }
+
+  /** Feature status for a merged or closed PR, or null while it is open */
+  private getPullRequestStatus(pr: WorktreePRInfo, sync: IssueStatusSync): string | null {
+    if (pr.state === 'MERGED') return sync.pullRequestMergedStatus ?? DEFAULT_PR_MERGED_STATUS;
+    if (pr.state === 'CLOSED') return sync.pullRequestClosedStatus ?? DEFAULT_PR_CLOSED_STATUS;
+    return null;
+  }
+
+  private async getConfig(projectPath: string): Promise<IssueSourceConfig> {
+    const projectSettings = await this.settingsService.getProjectSettings(projectPath);
+    return projectSettings.issueSource ?? { type: 'github' };
+  }
+
+  private getIssueLabel(link: FeatureIssueLink): string {
+    return link.key ?? `#${link.number}`;
+  }
+
+  private getStatusComment(feature: Feature, status: string): string {
+    const title = feature.title || feature.description.split('\n')[0];
+    return `Automaker: "${title}" moved to ${status.replace(/_/g, ' ')}.`;
+  }
+}
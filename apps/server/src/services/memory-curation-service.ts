@@ -0,0 +1,384 @@
+/**
+ * Memory Curation Service - Proposes clean-ups of memory files for review
+ *
+ * A curation run plans changes for every file in .automaker/memory (see
+ * planMemoryCuration in @automaker/utils) and asks the memory extraction
+ * model to rewrite bloated files as concise summaries. The changes are
+ * stored as proposals in .automaker/memory/.curation/proposals.json; memory
+ * files are only written when a proposal is applied from the Memory view.
+ * Dismissed proposals are remembered by fingerprint, so scheduled runs
+ * don't propose them again.
+ */
+
+import path from 'path';
+import { randomUUID } from 'crypto';
+import * as secureFs from '../lib/secure-fs.js';
+import type { MemoryCurationProposal, MemoryCurationState } from '@automaker/types';
+import { stripProviderPrefix } from '@automaker/types';
+import {
+  createLogger,
+  diffLines,
+  getMemoryCurationPath,
+  getMemoryDir,
+  parseFrontmatter,
+  planMemoryCuration,
+  serializeFrontmatter,
+  withFileLock,
+} from '@automaker/utils';
+import { resolvePhaseModel } from '@automaker/model-resolver';
+import { ProviderFactory } from '../providers/provider-factory.js';
+import { extractJsonWithKey } from '../lib/json-extractor.js';
+import { getPhaseModelWithOverrides } from '../lib/settings-helpers.js';
+import type { SettingsService } from './settings-service.js';
+
+const logger = createLogger('MemoryCuration');
+
+const MEMORY_SUMMARY_PROMPT = `You maintain the memory files that AI coding agents read before working on a project. Each file is a list of learnings: decisions (### headings) and gotchas, patterns and lessons (#### headings), each with detail bullets.
+
+Rewrite the file you are given into a concise summary:
+- Merge entries that say the same thing and drop ones that are obsolete or trivial
+- When decisions contradict each other, keep the most recent one
+- Keep every gotcha and decision that would still change how an agent writes code
+- Keep the ### and #### heading format and the "- **Label:** text" bullets
+- Keep the file's top-level # title
+
+Respond with ONLY a JSON object, no other text:
+{"content": "<the rewritten markdown, without frontmatter>"}`;
+
+export type ApplyProposalResult = 'applied' | 'not_found' | 'stale';
+
+/**
+ * MemoryCurationService - Plans, stores and applies memory file clean-ups
+ */
+export class MemoryCurationService {
+  /** Projects with a curation run in progress */
+  private running = new Set<string>();
+
+  constructor(private settingsService?: SettingsService) {}
+
+  /**
+   * Check whether a run is in progress for a project
+   */
+  isRunning(projectPath: string): boolean {
+    return this.running.has(projectPath);
+  }
+
+  /**
+   * Get the pending proposals for a project
+   */
+  async getState(projectPath: string): Promise<MemoryCurationState> {
+    try {
+      const content = (await secureFs.readFile(
+        getMemoryCurationPath(getMemoryDir(projectPath)),
+        'utf-8'
+      )) as string;
+      const state = JSON.parse(content) as MemoryCurationState;
+      return { ...state, proposals: state.proposals ?? [], dismissed: state.dismissed ?? [] };
+    } catch {
+      return { proposals: [], dismissed: [] };
+    }
+  }
+
+  /**
+   * Scan every memory file and replace the pending proposals with fresh ones
+   *
+   * @param options.summarize - Ask the model to summarize bloated files (default true)
+   */
+  async runCuration(
+    projectPath: string,
+    options: { summarize?: boolean } = {}
+  ): Promise<MemoryCurationState> {
+    if (this.running.has(projectPath)) {
+      throw new Error('Memory curation is already running for this project');
+    }
+    this.running.add(projectPath);
+
+    try {
+      const state = await this.getState(projectPath);
+      const dismissed = new Set(state.dismissed);
+      const proposals: MemoryCurationProposal[] = [];
+
+      for (const [fileName, content] of await this.readMemoryFiles(projectPath)) {
+        const { proposals: planned, bloated } = this.planFile(fileName, content);
+        proposals.push(...planned);
+
+        if (bloated && options.summarize !== false) {
+          const summary = await this.summarizeFile(projectPath, fileName, content);
+          if (summary) proposals.push(summary);
+        }
+      }
+
+      // Summaries can take minutes; keep proposals dismissed in the meantime
+      for (const fingerprint of (await this.getState(projectPath)).dismissed) {
+        dismissed.add(fingerprint);
+      }
+      const next: MemoryCurationState = {
+        proposals: proposals.filter((proposal) => !dismissed.has(proposal.fingerprint)),
+        dismissed: [...dismissed],
+        generatedAt: new Date().toISOString(),
+      };
+      await this.saveState(projectPath, next);
+      logger.info(`Memory curation proposed ${next.proposals.length} changes for ${projectPath}`);
+      return next;
+    } finally {
+      this.running.delete(projectPath);
+    }
+  }
+
+  /**
+   * Write a proposal's content to its memory file
+   *
+   * Fails as 'stale' (and drops the proposal) if the file's entries changed
+   * since the proposal was made. Frontmatter changes don't count: agent runs
+   * update the usage stats all the time, and the proposal is applied on top
+   * of the current frontmatter, keeping them. Other proposals for the same
+   * file are re-planned against the new content.
+   *
+   * @param resolutionIndex - For conflicts, which resolution to apply
+   */
+  async applyProposal(
+    projectPath: string,
+    proposalId: string,
+    resolutionIndex?: number
+  ): Promise<{ result: ApplyProposalResult; state: MemoryCurationState }> {
+    const state = await this.getState(projectPath);
+    const proposal = state.proposals.find((candidate) => candidate.id === proposalId);
+    const after =
+      proposal?.kind === 'conflict'
+        ? proposal.resolutions?.[resolutionIndex ?? -1]?.after
+        : proposal?.after;
+    if (!proposal || after === undefined) {
+      return { result: 'not_found', state };
+    }
+
+    const filePath = path.join(getMemoryDir(projectPath), proposal.fileName);
+    const written = await withFileLock(filePath, async () => {
+      let current: string;
+      try {
+        current = (await secureFs.readFile(filePath, 'utf-8')) as string;
+      } catch {
+        // Deleted since the proposal was made
+        return null;
+      }
+      if (parseFrontmatter(current).body !== parseFrontmatter(proposal.before).body) {
+        return null;
+      }
+      const content = this.rebaseOntoFrontmatter(proposal.before, after, current);
+      await secureFs.writeFile(filePath, content);
+      return content;
+    });
+
+    if (written === null) {
+      const next = {
+        ...state,
+        proposals: state.proposals.filter((candidate) => candidate.id !== proposalId),
+      };
+      await this.saveState(projectPath, next);
+      return { result: 'stale', state: next };
+    }
+    logger.info(`Applied ${proposal.kind} proposal to ${proposal.fileName}`);
+
+    // Proposals for this file were made against the old content
+    const dismissed = new Set(state.dismissed);
+    const replanned = this.planFile(proposal.fileName, written).proposals.filter(
+      (candidate) => !dismissed.has(candidate.fingerprint)
+    );
+    const next: MemoryCurationState = {
+      ...state,
+      proposals: [
+        ...state.proposals.filter((candidate) => candidate.fileName !== proposal.fileName),
+        ...replanned,
+      ],
+    };
+    await this.saveState(projectPath, next);
+    return { result: 'applied', state: next };
+  }
+
+  /**
+   * Drop a proposal without applying it, and don't propose it again
+   *
+   * @returns The updated state, or null if the proposal doesn't exist
+   */
+  async dismissProposal(
+    projectPath: string,
+    proposalId: string
+  ): Promise<MemoryCurationState | null> {
+    const state = await this.getState(projectPath);
+    const proposal = state.proposals.find((candidate) => candidate.id === proposalId);
+    if (!proposal) return null;
+
+    const next: MemoryCurationState = {
+      ...state,
+      proposals: state.proposals.filter((candidate) => candidate.id !== proposalId),
+      dismissed: [...new Set([...state.dismissed, proposal.fingerprint])],
+    };
+    await this.saveState(projectPath, next);
+    return next;
+  }
+
+  /**
+   * Apply a proposal made against `before` to a file whose frontmatter has
+   * changed since: the metadata the proposal changed is taken from `after`,
+   * everything else (usage stats included) from `current`
+   */
+  private rebaseOntoFrontmatter(before: string, after: string, current: string): string {
+    if (current === before) return after;
+
+    const beforeMeta = parseFrontmatter(before).metadata;
+    const { metadata: afterMeta, body: afterBody } = parseFrontmatter(after);
+    const metadata = { ...parseFrontmatter(current).metadata };
+    for (const key of Object.keys(afterMeta) as Array<keyof typeof afterMeta>) {
+      if (
+        key !== 'usageStats' &&
+        JSON.stringify(afterMeta[key]) !== JSON.stringify(beforeMeta[key])
+      ) {
+        Object.assign(metadata, { [key]: afterMeta[key] });
+      }
+    }
+    return serializeFrontmatter(metadata) + '\n' + afterBody;
+  }
+
+  /**
+   * Read every memory file except the index, by file name
+   */
+  private async readMemoryFiles(projectPath: string): Promise<Map<string, string>> {
+    const memoryDir = getMemoryDir(projectPath);
+    const files = new Map<string, string>();
+    let names: string[];
+    try {
+      names = (await secureFs.readdir(memoryDir)) as string[];
+    } catch {
+      return files;
+    }
+
+    for (const name of names.sort()) {
+      if (!name.endsWith('.md') || name === '_index.md') continue;
+      try {
+        files.set(name, (await secureFs.readFile(path.join(memoryDir, name), 'utf-8')) as string);
+      } catch (error) {
+        logger.warn(`Skipping unreadable memory file ${name}:`, error);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Turn the planner's changes for a file into proposals
+   */
+  private planFile(
+    fileName: string,
+    content: string
+  ): { proposals: MemoryCurationProposal[]; bloated: boolean } {
+    const { changes, bloated } = planMemoryCuration(fileName, content);
+    const createdAt = new Date().toISOString();
+    return {
+      bloated,
+      proposals: changes.map((change) => ({
+        id: randomUUID(),
+        kind: change.kind,
+        fileName,
+        title: change.title,
+        reason: change.reason,
+        fingerprint: change.fingerprint,
+        before: content,
+        ...(change.after !== undefined && {
+          after: change.after,
+          diff: diffLines(content, change.after),
+        }),
+        ...(change.resolutions && {
+          resolutions: change.resolutions.map((resolution) => ({
+            ...resolution,
+            diff: diffLines(content, resolution.after),
+          })),
+        }),
+        createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Ask the memory extraction model for a concise rewrite of a file
+   *
+   * @returns A summarize proposal, or null if the model gave no usable answer
+   */
+  private async summarizeFile(
+    projectPath: string,
+    fileName: string,
+    content: string
+  ): Promise<MemoryCurationProposal | null> {
+    const { body } = parseFrontmatter(content);
+    const frontmatter = content.slice(0, content.length - body.length);
+
+    try {
+      const phaseResult = await getPhaseModelWithOverrides(
+        'memoryExtractionModel',
+        this.settingsService,
+        projectPath,
+        '[MemoryCuration]'
+      );
+      const resolved = resolvePhaseModel(phaseResult.phaseModel);
+      const provider = ProviderFactory.getProviderForModel(resolved.model);
+
+      const stream = provider.executeQuery({
+        prompt: `## ${fileName}\n\n${body}`,
+        model: stripProviderPrefix(resolved.model),
+        originalModel: resolved.model,
+        cwd: projectPath,
+        systemPrompt: MEMORY_SUMMARY_PROMPT,
+        maxTurns: 1,
+        allowedTools: [],
+        abortController: new AbortController(),
+        readOnly: true,
+        thinkingLevel: resolved.thinkingLevel,
+        claudeCompatibleProvider: phaseResult.provider,
+        credentials: phaseResult.credentials,
+      });
+
+      let responseText = '';
+      for await (const msg of stream) {
+        if (msg.type === 'assistant' && msg.message?.content) {
+          for (const block of msg.message.content) {
+            if (block.type === 'text') {
+              responseText += block.text;
+            }
+          }
+        } else if (msg.type === 'result' && msg.subtype === 'success' && msg.result) {
+          responseText = msg.result;
+        }
+      }
+
+      const parsed = extractJsonWithKey<{ content: unknown }>(responseText, 'content', {
+        logger,
+      });
+      if (typeof parsed?.content !== 'string' || !parsed.content.trim()) {
+        logger.warn(`Could not parse summary of ${fileName}`);
+        return null;
+      }
+
+      const after = frontmatter + parsed.content.trim() + '\n';
+      if (after.length >= content.length) return null;
+
+      return {
+        id: randomUUID(),
+        kind: 'summarize',
+        fileName,
+        title: 'Rewrite as a concise summary',
+        reason: `${fileName} is ${content.length} characters long; the summary is ${after.length}.`,
+        fingerprint: `summarize:${fileName}:${content.length}`,
+        before: content,
+        after,
+        diff: diffLines(content, after),
+        createdAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      logger.warn(`Failed to summarize memory file ${fileName}:`, error);
+      return null;
+    }
+  }
+
+  private async saveState(projectPath: string, state: MemoryCurationState): Promise<void> {
+    const statePath = getMemoryCurationPath(getMemoryDir(projectPath));
+    await secureFs.mkdir(path.dirname(statePath), { recursive: true });
+    await secureFs.writeFile(statePath, JSON.stringify(state, null, 2));
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Notification Channel Service - Delivers notifications outside the app
+ *
+ * Every notification created by NotificationService is routed to the
+ * channels configured in GlobalSettings.notificationChannels:
+ * - Desktop: broadcast as notification:desktop for the desktop app to show
+ * - Email: sent through the channel's SMTP server
+ * - Webhook: posted to a Slack, Discord or Microsoft Teams incoming webhook
+ *
+ * Channels can limit which notification types they receive and override the
+ * title/body template. Delivery failures are logged and never affect the
+ * in-app notification.
+ */
+
+import { createLogger, expandEnvVars } from '@automaker/utils';
+import type {
+  DesktopNotificationPayload,
+  EmailNotificationChannel,
+  Notification,
+  NotificationChannel,
+  WebhookNotificationChannel,
+} from '@automaker/types';
+import { NOTIFICATION_ENV_PREFIX } from '@automaker/types';
+import type { EventEmitter } from '../lib/events.js';
+import type { SettingsService } from './settings-service.js';
+import { sendMail as sendSmtpMail } from './notification-channels/smtp-client.js';
+import {
+  renderNotification,
+  type RenderedNotification,
+} from './notification-channels/templates.js';
+import { formatChatWebhook } from './notification-channels/webhook-formatters.js';
+
+const logger = createLogger('NotificationChannels');
+
+/** Timeout for webhook requests (10 seconds) */
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/** Transports used for delivery, replaceable in tests */
+export interface NotificationChannelTransports {
+  sendMail: typeof sendSmtpMail;
+  fetch: typeof fetch;
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Whether a channel receives a notification
+ */
+export function channelAccepts(channel: NotificationChannel, notification: Notification): boolean {
+  if (!channel.enabled) return false;
+  return !channel.types?.length || channel.types.includes(notification.type);
+}
+
+export class NotificationChannelService {
+  private transports: NotificationChannelTransports;
+
+  constructor(
+    private events: EventEmitter,
+    private settingsService: SettingsService,
+    transports: Partial<NotificationChannelTransports> = {}
+  ) {
+    this.transports = { sendMail: sendSmtpMail, fetch, env: process.env, ...transports };
+  }
+
+  /**
+   * Deliver a notification to every channel that accepts it
+   */
+  async deliver(notification: Notification): Promise<void> {
+    let channels: NotificationChannel[];
+    try {
+      const settings = await this.settingsService.getGlobalSettings();
+      channels = (settings.notificationChannels ?? []).filter((channel) =>
+        channelAccepts(channel, notification)
+      );
+    } catch (error) {
+      logger.error('Failed to load notification channels:', error);
+      return;
+    }
+
+    await Promise.all(
+      channels.map(async (channel) => {
+        try {
+          await this.send(channel, notification);
+        } catch (error) {
+          logger.warn(
+            `Notification channel "${channel.name || channel.id}" failed:`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Send a sample notification to a channel, throwing on failure
+   */
+  async testChannel(channel: NotificationChannel, projectPath = process.cwd()): Promise<void> {
+    await this.send(channel, {
+      id: `test-${Date.now()}`,
+      type: channel.types?.[0] ?? 'feature_verified',
+      title: 'Test notification',
+      message: `This is a test of the "${channel.name || channel.type}" notification channel.`,
+      createdAt: new Date().toISOString(),
+      read: false,
+      dismissed: false,
+      projectPath,
+    });
+  }
+
+  private async send(channel: NotificationChannel, notification: Notification): Promise<void> {
+    const rendered = renderNotification(notification, channel.template);
+    switch (channel.type) {
+      case 'desktop':
+        this.events.emit('notification:desktop', {
+          channelId: channel.id,
+          title: rendered.title,
+          body: rendered.body,
+          notification,
+        } satisfies DesktopNotificationPayload);
+        return;
+      case 'email':
+        return this.sendEmail(channel, rendered);
+      case 'webhook':
+        return this.sendWebhook(channel, rendered, notification);
+    }
+  }
+
+  private async sendEmail(
+    channel: EmailNotificationChannel,
+    rendered: RenderedNotification
+  ): Promise<void> {
+    const { smtp } = channel;
+    if (!smtp?.host || !channel.from) {
+      throw new Error('Email channel needs an SMTP host and a from address');
+    }
+    await this.transports.sendMail(
+      {
+        ...smtp,
+        password: smtp.password
+          ? expandEnvVars(smtp.password, this.transports.env, NOTIFICATION_ENV_PREFIX)
+          : undefined,
+      },
+      {
+        from: channel.from,
+        to: channel.to.filter((address) => address.trim()),
+        subject: rendered.title,
+        text: rendered.body,
+      }
+    );
+  }
+
+  private async sendWebhook(
+    channel: WebhookNotificationChannel,
+    rendered: RenderedNotification,
+    notification: Notification
+  ): Promise<void> {
+    if (!channel.url) {
+      throw new Error('Webhook channel has no URL');
+    }
+    const url = expandEnvVars(channel.url, this.transports.env, NOTIFICATION_ENV_PREFIX);
+    const response = await this.transports.fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(formatChatWebhook(channel.format, rendered, notification)),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Webhook returned HTTP ${response.status}: ${text.slice(0, 200)}`);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Minimal SMTP client for email notification channels
+ *
+ * Speaks just enough SMTP to hand a plain-text message to a relay: EHLO,
+ * STARTTLS when offered, AUTH PLAIN, MAIL/RCPT/DATA. Connects over TLS when
+ * SmtpSettings.secure is set. Credentials are only sent over an encrypted
+ * connection unless SmtpSettings.allowInsecureAuth is set.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import type { SmtpSettings } from '@automaker/types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** A plain-text email */
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Get the address from "Name <user@example.com>" or a bare address
+ */
+export function getMailAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 word when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * Build the DATA section: headers, CRLF line endings and dot-stuffing
+ */
+export function buildMailData(message: MailMessage, date = new Date()): string {
+  const domain = getMailAddress(message.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+/**
+ * One SMTP session over a socket that can be upgraded with STARTTLS
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: {
+    resolve: (response: SmtpResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf-8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line);
+      // The last line of a reply has a space after the code; others have "-"
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const response = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        const waiting = this.waiting;
+        this.waiting = null;
+        waiting?.resolve(response);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.reject(error);
+  }
+
+  read(): Promise<SmtpResponse> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(
+    line: string,
+    expected: number[],
+    label = line.split(' ')[0]
+  ): Promise<SmtpResponse> {
+    const reply = this.read();
+    this.socket.write(`${line}\r\n`);
+    return this.expect(await reply, expected, label);
+  }
+
+  expect(response: SmtpResponse, expected: number[], label: string): SmtpResponse {
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${label} failed: ${response.lines.join(' ')}`);
+    }
+    return response;
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('close');
+    this.socket.removeAllListeners('error');
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+/**
+ * Send a plain-text email through an SMTP server
+ */
+export async function sendMail(
+  smtp: SmtpSettings,
+  message: MailMessage,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<void> {
+  if (message.to.length === 0) {
+    throw new Error('Email has no recipients');
+  }
+
+  const socket = smtp.secure
+    ? tls.connect({ host: smtp.host, port: smtp.port, servername: smtp.host })
+    : net.connect({ host: smtp.host, port: smtp.port });
+  socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+
+  const session = new SmtpSession(socket);
+  try {
+    session.expect(await session.read(), [220], 'greeting');
+    const hello = await session.command('EHLO automaker', [250]);
+
+    let encrypted = Boolean(smtp.secure);
+    const offersStartTls = hello.lines.some((line) => /^250[- ]STARTTLS\b/i.test(line));
+    if (!encrypted && offersStartTls) {
+      await session.command('STARTTLS', [220]);
+      await session.startTls(smtp.host);
+      await session.command('EHLO automaker', [250]);
+      encrypted = true;
+    }
+
+    if (smtp.username) {
+      if (!encrypted && !smtp.allowInsecureAuth) {
+        throw new Error(
+          `SMTP server ${smtp.host} offers no TLS; refusing to send the password unencrypted`
+        );
+      }
+      const credentials = Buffer.from(`\0${smtp.username}\0${smtp.password ?? ''}`).toString(
+        'base64'
+      );
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await session.command(`MAIL FROM:<${getMailAddress(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${getMailAddress(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+    await session.command('DATA', [354]);
+    await session.command(buildMailData(message).replace(/\r\n$/, ''), [250], 'message');
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
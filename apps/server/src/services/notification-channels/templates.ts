@@ -0,0 +1,62 @@
+/**
+ * Notification templates - Render a notification for a channel
+ */
+
+import path from 'path';
+import type { Notification, NotificationTemplate } from '@automaker/types';
+import { NOTIFICATION_TYPE_LABELS } from '@automaker/types';
+
+/** Template used for fields a channel does not override */
+export const DEFAULT_NOTIFICATION_TEMPLATE: Required<NotificationTemplate> = {
+  title: '{{title}}',
+  body: '{{message}}\n\nProject: {{projectName}}',
+};
+
+/** A notification rendered with a channel's template */
+export interface RenderedNotification {
+  title: string;
+  body: string;
+}
+
+/**
+ * Values available to {{placeholders}} in notification templates
+ */
+export function getTemplateValues(notification: Notification): Record<string, string> {
+  return {
+    title: notification.title,
+    message: notification.message,
+    type: notification.type,
+    typeLabel: NOTIFICATION_TYPE_LABELS[notification.type] ?? notification.type,
+    featureId: notification.featureId ?? '',
+    projectName: path.basename(notification.projectPath),
+    projectPath: notification.projectPath,
+    createdAt: notification.createdAt,
+  };
+}
+
+/**
+ * Replace {{placeholders}}; unknown placeholders become empty
+ */
+export function fillNotificationTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Render a notification's title and body with a channel template
+ */
+export function renderNotification(
+  notification: Notification,
+  template?: NotificationTemplate
+): RenderedNotification {
+  const values = getTemplateValues(notification);
+  return {
+    title: fillNotificationTemplate(
+      template?.title || DEFAULT_NOTIFICATION_TEMPLATE.title,
+      values
+    ).trim(),
+    body: fillNotificationTemplate(
+      template?.body || DEFAULT_NOTIFICATION_TEMPLATE.body,
+      values
+    ).trim(),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Chat webhook formatters - Slack, Discord and Microsoft Teams payloads
+ *
+ * Each formatter turns a rendered notification into the JSON its incoming
+ * webhook expects, colour-coded by how urgent the notification type is.
+ */
+
+import type { ChatWebhookFormat, Notification, NotificationType } from '@automaker/types';
+import { getTemplateValues, type RenderedNotification } from './templates.js';
+
+const COLORS = {
+  danger: '#dc2626',
+  warning: '#d97706',
+  success: '#16a34a',
+  info: '#2563eb',
+};
+
+const TYPE_COLORS: Partial<Record<NotificationType, string>> = {
+  feature_failed: COLORS.danger,
+  budget_exceeded: COLORS.danger,
+  budget_warning: COLORS.warning,
+  plan_approval_required: COLORS.warning,
+  feature_waiting_approval: COLORS.warning,
+  feature_verified: COLORS.success,
+  pr_merged: COLORS.success,
+};
+
+/** Discord limits embed titles to 256 and descriptions to 4096 characters */
+const DISCORD_TITLE_LIMIT = 256;
+const DISCORD_DESCRIPTION_LIMIT = 4096;
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 3)}...` : text;
+}
+
+/**
+ * Colour for a notification type as "#rrggbb"
+ */
+export function getNotificationColor(type: NotificationType): string {
+  return TYPE_COLORS[type] ?? COLORS.info;
+}
+
+function formatSlack(rendered: RenderedNotification, notification: Notification): unknown {
+  const { typeLabel, projectName } = getTemplateValues(notification);
+  return {
+    text: rendered.title,
+    attachments: [
+      {
+        color: getNotificationColor(notification.type),
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: rendered.title } },
+          { type: 'section', text: { type: 'mrkdwn', text: rendered.body || rendered.title } },
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `${typeLabel} · ${projectName}` }],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function formatDiscord(rendered: RenderedNotification, notification: Notification): unknown {
+  const { typeLabel, projectName } = getTemplateValues(notification);
+  return {
+    embeds: [
+      {
+        title: truncate(rendered.title, DISCORD_TITLE_LIMIT),
+        description: truncate(rendered.body, DISCORD_DESCRIPTION_LIMIT),
+        color: parseInt(getNotificationColor(notification.type).slice(1), 16),
+        footer: { text: `${typeLabel} · ${projectName}` },
+        timestamp: notification.createdAt,
+      },
+    ],
+  };
+}
+
+function formatTeams(rendered: RenderedNotification, notification: Notification): unknown {
+  const { typeLabel, projectName } = getTemplateValues(notification);
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    summary: rendered.title,
+    themeColor: getNotificationColor(notification.type).slice(1),
+    title: rendered.title,
+    // Teams collapses single newlines, so keep lines as separate paragraphs
+    text: rendered.body
+      .split('\n')
+      .filter((line) => line.trim())
+      .join('\n\n'),
+    sections: [
+      {
+        facts: [
+          { name: 'Type', value: typeLabel },
+          { name: 'Project', value: projectName },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Build the webhook payload for a chat service
+ */
+export function formatChatWebhook(
+  format: ChatWebhookFormat,
+  rendered: RenderedNotification,
+  notification: Notification
+): unknown {
+  switch (format) {
+    case 'slack':
+      return formatSlack(rendered, notification);
+    case 'discord':
+      return formatDiscord(rendered, notification);
+    case 'teams':
+      return formatTeams(rendered, notification);
+  }
+}
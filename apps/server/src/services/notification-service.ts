@@ -7,6 +7,9 @@
  * Notifications alert users when:
  * - Features reach specific statuses (waiting_approval, verified)
  * - Long-running operations complete (spec generation)
+ *
+ * New notifications are also handed to NotificationChannelService for
+ * desktop, email and chat webhook delivery.
  */
 
 import { createLogger } from '@automaker/utils';
@@ -15,6 +18,7 @@ import { getNotificationsPath, ensureAutomakerDir } from '@automaker/platform';
 import type { Notification, NotificationsFile, NotificationType } from '@automaker/types';
 import { DEFAULT_NOTIFICATIONS_FILE } from '@automaker/types';
 import type { EventEmitter } from '../lib/events.js';
+import type { NotificationChannelService } from './notification-channel-service.js';
 import { randomUUID } from 'crypto';
 
 const logger = createLogger('NotificationService');
@@ -75,6 +79,7 @@ export interface CreateNotificationInput {
  */
 export class NotificationService {
   private events: EventEmitter | null = null;
+  private channelService: NotificationChannelService | null = null;
 
   /**
    * Set the event emitter for broadcasting notification events
@@ -83,6 +88,13 @@ export class NotificationService {
     this.events = events;
   }
 
+  /**
+   * Set the service that delivers notifications to external channels
+   */
+  setChannelService(channelService: NotificationChannelService): void {
+    this.channelService = channelService;
+  }
+
   /**
    * Get all notifications for a project
    *
@@ -152,6 +164,11 @@ export class NotificationService {
       this.events.emit('notification:created', notification);
     }
 
+    // Deliver to desktop/email/webhook channels without blocking the caller
+    if (this.channelService) {
+      void this.channelService.deliver(notification);
+    }
+
     return notification;
   }
 
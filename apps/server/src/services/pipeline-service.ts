@@ -6,10 +6,17 @@
  */
 
 import path from 'path';
-import { createLogger } from '@automaker/utils';
+import { createLogger, matchesGlob } from '@automaker/utils';
 import * as secureFs from '../lib/secure-fs.js';
 import { ensureAutomakerDir } from '@automaker/platform';
-import type { PipelineConfig, PipelineStep, FeatureStatusWithPipeline } from '@automaker/types';
+import type {
+  PipelineConfig,
+  PipelineStep,
+  PipelineStepType,
+  PipelineStepFailurePolicy,
+  PipelineStage,
+  FeatureStatusWithPipeline,
+} from '@automaker/types';
 
 const logger = createLogger('PipelineService');
 
@@ -56,6 +63,24 @@ async function readJsonFile<T>(filePath: string, defaultValue: T): Promise<T> {
   }
 }
 
+/** Failure policy for steps that don't configure one */
+const DEFAULT_FAILURE_POLICY: PipelineStepFailurePolicy = { action: 'stop', maxAttempts: 1 };
+
+/**
+ * Matches a verdict line such as "VERDICT: PASS" or "**Verdict:** fail"
+ */
+const VERDICT_PATTERN = /^[\s>*_#-]*verdict[\s*_]*:[\s*_]*(pass|fail)\b[\s*_]*(.*)$/gim;
+
+/**
+ * Facts about a feature that pipeline step conditions are matched against
+ */
+export interface PipelineStepConditionContext {
+  category?: string;
+  labels?: string[];
+  /** Files changed in the feature's working directory (relative paths) */
+  changedFiles: string[];
+}
+
 /**
  * Generate a unique ID for pipeline steps
  */
@@ -322,6 +347,128 @@ export class PipelineService {
     return config.steps.find((s) => s.id === stepId) || null;
   }
 
+  /**
+   * Get the type of a pipeline step (steps saved before types existed are agent prompts)
+   */
+  getStepType(step: PipelineStep): PipelineStepType {
+    return step.type ?? 'agent-prompt';
+  }
+
+  /**
+   * Get the failure policy for a step, filling in defaults
+   */
+  getFailurePolicy(step: PipelineStep): Required<PipelineStepFailurePolicy> {
+    const policy = step.onFailure ?? DEFAULT_FAILURE_POLICY;
+    const maxAttempts =
+      typeof policy.maxAttempts === 'number' && policy.maxAttempts >= 1
+        ? Math.floor(policy.maxAttempts)
+        : 1;
+    return { action: policy.action, maxAttempts };
+  }
+
+  /**
+   * Group ordered steps into stages
+   *
+   * Consecutive steps with the same (non-empty) stage name form one stage whose
+   * members run in parallel; every other step is a stage of its own.
+   *
+   * @param steps - Steps sorted by order
+   */
+  groupStepsIntoStages(steps: PipelineStep[]): PipelineStage[] {
+    const stages: PipelineStage[] = [];
+
+    for (const step of steps) {
+      const stageName = step.stage?.trim();
+      const current = stages[stages.length - 1];
+      if (stageName && current && current.steps[0].stage?.trim() === stageName) {
+        current.steps.push(step);
+        continue;
+      }
+      stages.push({ id: step.id, name: stageName || step.name, steps: [step] });
+    }
+
+    return stages;
+  }
+
+  /**
+   * Check whether a step's conditions match a feature
+   *
+   * Every condition that is set must match; within a condition any entry may match.
+   *
+   * @param step - The pipeline step
+   * @param context - Feature category, labels and changed files
+   * @returns Whether the step applies, with the reason when it doesn't
+   */
+  evaluateStepConditions(
+    step: PipelineStep,
+    context: PipelineStepConditionContext
+  ): { applies: boolean; reason?: string } {
+    const conditions = step.conditions;
+    if (!conditions) {
+      return { applies: true };
+    }
+
+    const categories = (conditions.categories ?? []).filter((c) => c.trim());
+    if (categories.length > 0) {
+      const category = context.category?.trim().toLowerCase();
+      if (!category || !categories.some((c) => c.trim().toLowerCase() === category)) {
+        return {
+          applies: false,
+          reason: `category "${context.category ?? ''}" is not one of: ${categories.join(', ')}`,
+        };
+      }
+    }
+
+    const labels = (conditions.labels ?? []).filter((l) => l.trim());
+    if (labels.length > 0) {
+      const featureLabels = new Set((context.labels ?? []).map((l) => l.trim().toLowerCase()));
+      if (!labels.some((l) => featureLabels.has(l.trim().toLowerCase()))) {
+        return { applies: false, reason: `feature has none of the labels: ${labels.join(', ')}` };
+      }
+    }
+
+    const patterns = (conditions.changedFiles ?? []).filter((p) => p.trim());
+    if (patterns.length > 0) {
+      const matched = context.changedFiles.some((file) =>
+        patterns.some((pattern) => matchesGlob(file, pattern))
+      );
+      if (!matched) {
+        return { applies: false, reason: `no changed files match: ${patterns.join(', ')}` };
+      }
+    }
+
+    return { applies: true };
+  }
+
+  /**
+   * Parse the verdict from a review step's output
+   *
+   * The last "VERDICT: PASS" / "VERDICT: FAIL" line wins. Anything after the
+   * verdict on the same line and the text that follows it is used as the summary.
+   *
+   * @param output - Agent output for the review step
+   * @returns The verdict, or null if the output doesn't contain one
+   */
+  parseReviewVerdict(output: string): { verdict: 'pass' | 'fail'; summary: string } | null {
+    let lastMatch: RegExpExecArray | null = null;
+    for (const match of output.matchAll(VERDICT_PATTERN)) {
+      lastMatch = match;
+    }
+    if (!lastMatch) {
+      return null;
+    }
+
+    const verdict = lastMatch[1].toLowerCase() as 'pass' | 'fail';
+    const trailing = output.slice((lastMatch.index ?? 0) + lastMatch[0].length);
+    const summary = [lastMatch[2], trailing]
+      .map((part) => part.replace(/^[\s*_:\-–—]+/, '').trim())
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, 2000);
+
+    return { verdict, summary };
+  }
+
   /**
    * Check if a status is a pipeline status
    */
@@ -0,0 +1,355 @@
+/**
+ * PR Review Service - Turns review threads on a feature's PR into follow-ups
+ *
+ * Unresolved review threads are fetched through the gh CLI for the PR of a
+ * branch (found the way pr-info does). Selected threads are sent to
+ * followUpFeature as a structured prompt and recorded on the feature as its
+ * PRReviewFollowUp. When the follow-up completes its summary is saved, and the
+ * next push of the feature's branch replies to each thread with it.
+ */
+
+import path from 'path';
+import { spawnProcess } from '@automaker/platform';
+import { buildPRReviewPrompt, createLogger } from '@automaker/utils';
+import type { Feature, PRReviewFollowUp, PRReviewThread } from '@automaker/types';
+import type { EventEmitter } from '../lib/events.js';
+import { extendedPath } from '../routes/github/routes/common.js';
+import { execGitCommand } from '../routes/worktree/common.js';
+import { resolvePRRepository } from '../routes/worktree/routes/pr-info.js';
+import { extractSummary, type AutoModeService } from './auto-mode-service.js';
+import type { FeatureLoader } from './feature-loader.js';
+
+const logger = createLogger('PRReview');
+
+/** Reply posted when a follow-up finished without a summary */
+const DEFAULT_REPLY = 'Addressed in the latest push.';
+
+const REVIEW_THREADS_QUERY = `query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100) {
+        nodes {
+          id
+          isResolved
+          isOutdated
+          path
+          line
+          startLine
+          comments(first: 50) {
+            nodes { databaseId author { login } body createdAt diffHunk }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+interface ReviewThreadNode {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  path: string;
+  line: number | null;
+  startLine: number | null;
+  comments: {
+    nodes: Array<{
+      databaseId: number;
+      author: { login: string } | null;
+      body: string;
+      createdAt: string;
+      diffHunk?: string;
+    }>;
+  };
+}
+
+/** Run gh with arguments and return its stdout */
+export type GhRunner = (args: string[], cwd: string) => Promise<string>;
+
+async function runGh(args: string[], cwd: string): Promise<string> {
+  const result = await spawnProcess({
+    command: 'gh',
+    args,
+    cwd,
+    env: { PATH: extendedPath },
+  });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || `gh ${args.slice(0, 2).join(' ')} failed`);
+  }
+  return result.stdout;
+}
+
+/** A branch's pull request and its review threads */
+export interface PRReviewThreadsResult {
+  pr: { number: number; title: string; url: string; repo: string } | null;
+  threads: PRReviewThread[];
+}
+
+/** Payload of worktree:pushed events */
+export interface WorktreePushedPayload {
+  worktreePath: string;
+  branch: string;
+  projectPath?: string;
+}
+
+export class PRReviewService {
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private events: EventEmitter,
+    private autoModeService: AutoModeService,
+    private featureLoader: FeatureLoader,
+    private gh: GhRunner = runGh
+  ) {}
+
+  /**
+   * Start recording follow-up summaries and replying to threads on push
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.events.subscribe((type, payload) => {
+      if (type === 'auto-mode:event') {
+        const event = payload as {
+          type: string;
+          featureId?: string;
+          projectPath?: string;
+          passes?: boolean;
+        };
+        if (event.type === 'auto_mode_feature_complete' && event.passes && event.featureId) {
+          const { featureId, projectPath } = event;
+          if (!projectPath) {
+            logger.warn(`Feature ${featureId} completed without a project path; no PR summary`);
+            return;
+          }
+          this.recordSummary(projectPath, featureId).catch((error) => {
+            logger.warn(`Failed to record PR review summary for ${featureId}:`, error);
+          });
+        }
+      } else if (type === 'worktree:pushed') {
+        this.handlePush(payload as WorktreePushedPayload).catch((error) => {
+          logger.warn('Failed to reply to PR review threads:', error);
+        });
+      }
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Fetch the review threads of a branch's pull request
+   */
+  async getThreads(projectPath: string, branchName: string): Promise<PRReviewThreadsResult> {
+    const { targetRepo, headRef } = await resolvePRRepository(projectPath, branchName);
+    if (!targetRepo) {
+      throw new Error('Could not determine the GitHub repository from the git remotes');
+    }
+
+    const prs = JSON.parse(
+      await this.gh(
+        [
+          'pr',
+          'list',
+          '--repo',
+          targetRepo,
+          '--head',
+          headRef,
+          '--json',
+          'number,title,url',
+          '--limit',
+          '1',
+        ],
+        projectPath
+      )
+    ) as Array<{ number: number; title: string; url: string }>;
+    if (prs.length === 0) {
+      return { pr: null, threads: [] };
+    }
+
+    const pr = { ...prs[0], repo: targetRepo };
+    const [owner, name] = targetRepo.split('/');
+    const response = JSON.parse(
+      await this.gh(
+        [
+          'api',
+          'graphql',
+          '-f',
+          `query=${REVIEW_THREADS_QUERY}`,
+          '-f',
+          `owner=${owner}`,
+          '-f',
+          `name=${name}`,
+          '-F',
+          `number=${pr.number}`,
+        ],
+        projectPath
+      )
+    );
+    const nodes: ReviewThreadNode[] =
+      response?.data?.repository?.pullRequest?.reviewThreads?.nodes ?? [];
+
+    return {
+      pr,
+      threads: nodes.map((node) => ({
+        id: node.id,
+        path: node.path,
+        line: node.line ?? undefined,
+        startLine: node.startLine ?? undefined,
+        isResolved: node.isResolved,
+        isOutdated: node.isOutdated,
+        diffHunk: node.comments.nodes[0]?.diffHunk,
+        comments: node.comments.nodes.map((comment) => ({
+          id: comment.databaseId,
+          author: comment.author?.login ?? 'ghost',
+          body: comment.body,
+          createdAt: comment.createdAt,
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Send a feature's selected unresolved review threads to followUpFeature
+   *
+   * Resolves once the follow-up has started; it runs in the background and
+   * reports progress through auto mode events.
+   */
+  async addressThreads(
+    projectPath: string,
+    featureId: string,
+    threadIds: string[],
+    useWorktrees = true
+  ): Promise<void> {
+    const feature = await this.featureLoader.get(projectPath, featureId);
+    if (!feature) {
+      throw new Error(`Feature ${featureId} not found`);
+    }
+    if (!feature.branchName) {
+      throw new Error(`Feature ${featureId} has no branch`);
+    }
+
+    const { pr, threads } = await this.getThreads(projectPath, feature.branchName);
+    if (!pr) {
+      throw new Error(`No pull request found for branch ${feature.branchName}`);
+    }
+
+    const selected = threads.filter(
+      (thread) => threadIds.includes(thread.id) && !thread.isResolved && thread.comments.length > 0
+    );
+    if (selected.length === 0) {
+      throw new Error('None of the selected review threads are open');
+    }
+
+    const followUp: PRReviewFollowUp = {
+      prNumber: pr.number,
+      repo: pr.repo,
+      threads: selected.map((thread) => ({
+        id: thread.id,
+        path: thread.path,
+        line: thread.line,
+        replyToCommentId: thread.comments[0].id,
+      })),
+      submittedAt: new Date().toISOString(),
+    };
+    await this.featureLoader.update(projectPath, featureId, { prReviewFollowUp: followUp });
+
+    this.autoModeService
+      .followUpFeature(
+        projectPath,
+        featureId,
+        buildPRReviewPrompt(pr.number, selected),
+        undefined,
+        useWorktrees
+      )
+      .catch((error) => {
+        logger.error(`PR review follow-up for feature ${featureId} error:`, error);
+      });
+  }
+
+  /**
+   * Save the summary of a completed PR review follow-up
+   */
+  async recordSummary(projectPath: string, featureId: string): Promise<void> {
+    const feature = await this.featureLoader.get(projectPath, featureId);
+    const followUp = feature?.prReviewFollowUp;
+    if (!followUp || followUp.addressedAt) return;
+
+    const output = await this.featureLoader.getAgentOutput(projectPath, featureId);
+    await this.featureLoader.update(projectPath, featureId, {
+      prReviewFollowUp: {
+        ...followUp,
+        addressedAt: new Date().toISOString(),
+        summary: (output && extractSummary(output)) || undefined,
+      },
+    });
+  }
+
+  /**
+   * Reply to the addressed review threads of features on a pushed branch
+   */
+  async handlePush({ worktreePath, branch, projectPath }: WorktreePushedPayload): Promise<void> {
+    const mainPath = projectPath ?? (await this.getMainProjectPath(worktreePath));
+    const features = (await this.featureLoader.getAll(mainPath)).filter(
+      (feature) =>
+        feature.branchName === branch &&
+        feature.prReviewFollowUp?.addressedAt &&
+        !feature.prReviewFollowUp.repliedAt
+    );
+
+    for (const feature of features) {
+      await this.replyToThreads(mainPath, feature);
+    }
+  }
+
+  /**
+   * Reply to each thread not replied to yet, recording every reply as it is
+   * posted so a failed push retries only the remaining threads
+   */
+  private async replyToThreads(projectPath: string, feature: Feature): Promise<void> {
+    let followUp = feature.prReviewFollowUp!;
+    const body = followUp.summary || DEFAULT_REPLY;
+
+    for (const [index, thread] of followUp.threads.entries()) {
+      if (thread.repliedAt) continue;
+      await this.gh(
+        [
+          'api',
+          '--method',
+          'POST',
+          `repos/${followUp.repo}/pulls/${followUp.prNumber}/comments/${thread.replyToCommentId}/replies`,
+          '-f',
+          `body=${body}`,
+        ],
+        projectPath
+      );
+      const threads = [...followUp.threads];
+      threads[index] = { ...thread, repliedAt: new Date().toISOString() };
+      followUp = { ...followUp, threads };
+      await this.featureLoader.update(projectPath, feature.id, { prReviewFollowUp: followUp });
+    }
+
+    logger.info(
+      `Replied to ${followUp.threads.length} review thread(s) on PR #${followUp.prNumber} for feature ${feature.id}`
+    );
+    await this.featureLoader.update(projectPath, feature.id, {
+      prReviewFollowUp: { ...followUp, repliedAt: new Date().toISOString() },
+    });
+    this.events.emit('auto-mode:event', {
+      type: 'board_updated_externally',
+      featureId: feature.id,
+      projectPath,
+    });
+  }
+
+  /**
+   * Get the main repository path of a worktree, where features are stored
+   */
+  private async getMainProjectPath(worktreePath: string): Promise<string> {
+    const commonDir = await execGitCommand(
+      ['rev-parse', '--path-format=absolute', '--git-common-dir'],
+      worktreePath
+    );
+    return path.dirname(commonDir.trim());
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Scheduler Service - Time-based auto mode runs and recurring jobs
+ *
+ * Once a minute the scheduler walks the projects in global settings and
+ * evaluates their ProjectSettings.schedules:
+ * - Auto mode schedules start the auto loop for their worktree when a time
+ *   window opens or a cron expression fires, and stop it when the window
+ *   closes or the run's duration is up. Loops that were already running when
+ *   a schedule fired are left alone.
+ * - Scheduled jobs (ideation analysis, issue validation, memory curation)
+ *   run in the background when their cron expression fires.
+ *
+ * What the scheduler started is stored with the project's execution state
+ * (see AutoModeService.saveSchedulerState), so after a restart it resumes
+ * runs whose window is still open and never runs a job twice for the same
+ * minute.
+ */
+
+import { createLogger, getActiveOccurrence, matchesCron, floorToMinute } from '@automaker/utils';
+import type {
+  AutoModeSchedule,
+  ScheduledAutoModeRun,
+  ScheduledJob,
+  SchedulerState,
+} from '@automaker/types';
+import { DEFAULT_SCHEDULED_VALIDATION_MAX_ISSUES } from '@automaker/types';
+import type { EventEmitter } from '../lib/events.js';
+import type { SettingsService } from './settings-service.js';
+import type { AutoModeService } from './auto-mode-service.js';
+import type { IdeationService } from './ideation-service.js';
+import type { MemoryCurationService } from './memory-curation-service.js';
+import { readValidation } from '../lib/validation-storage.js';
+import { getIssueSource } from './issue-sources/index.js';
+import { runValidation } from '../routes/github/routes/validate-issue.js';
+import {
+  trySetValidationRunning,
+  clearValidationStatus,
+} from '../routes/github/routes/validation-common.js';
+
+const logger = createLogger('Scheduler');
+
+/** Delay past the minute boundary before a tick, so the tick lands inside the minute */
+const TICK_OFFSET_MS = 1000;
+const MINUTE_MS = 60_000;
+
+/**
+ * SchedulerService - Fires auto mode schedules and scheduled jobs
+ */
+export class SchedulerService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  /** Runs this process has started or resumed, keyed by project/schedule/occurrence */
+  private knownRuns = new Set<string>();
+  /** Jobs currently running, keyed by project/job, so a slow job never overlaps itself */
+  private runningJobs = new Set<string>();
+  /** Schedules already reported as invalid, so the log is not flooded every minute */
+  private invalidSchedules = new Set<string>();
+  private ticking = false;
+
+  constructor(
+    private events: EventEmitter,
+    private settingsService: SettingsService,
+    private autoModeService: AutoModeService,
+    private ideationService: IdeationService,
+    private memoryCurationService: MemoryCurationService
+  ) {}
+
+  /**
+   * Start ticking at the top of every minute
+   */
+  start(): void {
+    if (this.timer) return;
+    logger.info('Scheduler started');
+    void this.tick();
+    this.scheduleNextTick();
+  }
+
+  /**
+   * Stop ticking. Loops and jobs already started keep running.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      logger.info('Scheduler stopped');
+    }
+  }
+
+  /**
+   * Evaluate every project's schedules once
+   *
+   * @param now - Time to evaluate schedules at (defaults to the current time)
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const { projects } = await this.settingsService.getGlobalSettings();
+      for (const project of projects ?? []) {
+        try {
+          await this.checkProject(project.path, now);
+        } catch (error) {
+          logger.error(`Failed to check schedules for ${project.path}:`, error);
+        }
+      }
+    } catch (error) {
+      logger.error('Scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private scheduleNextTick(): void {
+    const delay = MINUTE_MS - (Date.now() % MINUTE_MS) + TICK_OFFSET_MS;
+    this.timer = setTimeout(() => {
+      void this.tick();
+      this.scheduleNextTick();
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private async checkProject(projectPath: string, now: Date): Promise<void> {
+    const { schedules } = await this.settingsService.getProjectSettings(projectPath);
+    const autoModeSchedules = schedules?.autoMode ?? [];
+    const jobs = schedules?.jobs ?? [];
+    const state = await this.autoModeService.getSchedulerState(projectPath);
+    if (autoModeSchedules.length === 0 && jobs.length === 0 && state.activeRuns.length === 0) {
+      return;
+    }
+
+    let changed = await this.updateAutoModeRuns(projectPath, autoModeSchedules, state, now);
+
+    const minute = floorToMinute(now).toISOString();
+    for (const job of jobs) {
+      if (!job.enabled || state.lastJobRuns[job.id] === minute) continue;
+      if (!this.evaluate(projectPath, job.id, () => matchesCron(job.cron, now), false)) continue;
+
+      state.lastJobRuns[job.id] = minute;
+      changed = true;
+      this.startJob(projectPath, job);
+    }
+
+    // Forget jobs that were removed from settings
+    for (const jobId of Object.keys(state.lastJobRuns)) {
+      if (!jobs.some((job) => job.id === jobId)) {
+        delete state.lastJobRuns[jobId];
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.autoModeService.saveSchedulerState(projectPath, state);
+    }
+  }
+
+  /**
+   * Start, stop and resume scheduled auto mode runs for a project
+   *
+   * @returns Whether the scheduler state changed
+   */
+  private async updateAutoModeRuns(
+    projectPath: string,
+    schedules: AutoModeSchedule[],
+    state: SchedulerState,
+    now: Date
+  ): Promise<boolean> {
+    let changed = false;
+
+    // End runs that are over, or whose schedule was disabled or removed
+    for (const run of [...state.activeRuns]) {
+      const schedule = schedules.find((candidate) => candidate.id === run.scheduleId);
+      const isOver = run.stopAt !== null && now.getTime() >= new Date(run.stopAt).getTime();
+      if (schedule?.enabled && !isOver) continue;
+
+      state.activeRuns = state.activeRuns.filter((active) => active !== run);
+      this.knownRuns.delete(this.getRunKey(projectPath, run));
+      changed = true;
+      if (run.startedLoop) {
+        await this.stopLoop(projectPath, run, schedule);
+      }
+    }
+
+    for (const schedule of schedules) {
+      if (!schedule.enabled) continue;
+
+      const occurrence = this.evaluate(
+        projectPath,
+        schedule.id,
+        () => getActiveOccurrence(schedule.trigger, now),
+        null
+      );
+      const existing = state.activeRuns.find((run) => run.scheduleId === schedule.id);
+
+      if (occurrence && existing?.occurrence !== occurrence.start.toISOString()) {
+        // A new occurrence: start the loop unless it is already running
+        const branchName = schedule.branchName ?? null;
+        const alreadyRunning = this.autoModeService.isAutoLoopRunningForProject(
+          projectPath,
+          branchName
+        );
+        const run: ScheduledAutoModeRun = {
+          scheduleId: schedule.id,
+          branchName,
+          occurrence: occurrence.start.toISOString(),
+          stopAt: occurrence.end ? occurrence.end.toISOString() : null,
+          startedLoop: !alreadyRunning,
+        };
+        if (existing) {
+          state.activeRuns = state.activeRuns.filter((active) => active !== existing);
+          this.knownRuns.delete(this.getRunKey(projectPath, existing));
+        }
+        state.activeRuns.push(run);
+        this.knownRuns.add(this.getRunKey(projectPath, run));
+        changed = true;
+        if (!alreadyRunning) {
+          await this.startLoop(projectPath, run, schedule);
+        }
+        continue;
+      }
+
+      if (existing && !this.knownRuns.has(this.getRunKey(projectPath, existing))) {
+        // First look at a run started before a restart: pick it back up
+        this.knownRuns.add(this.getRunKey(projectPath, existing));
+        if (
+          existing.startedLoop &&
+          !this.autoModeService.isAutoLoopRunningForProject(projectPath, existing.branchName)
+        ) {
+          logger.info(`Resuming scheduled auto mode run "${this.getName(schedule)}"`);
+          await this.startLoop(projectPath, existing, schedule);
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  private async startLoop(
+    projectPath: string,
+    run: ScheduledAutoModeRun,
+    schedule: AutoModeSchedule
+  ): Promise<void> {
+    try {
+      await this.autoModeService.startAutoLoopForProject(
+        projectPath,
+        run.branchName,
+        schedule.maxConcurrency
+      );
+      logger.info(
+        `Schedule "${this.getName(schedule)}" started auto mode for ${this.describeWorktree(run.branchName)} in ${projectPath}`
+      );
+      this.emitSchedulerEvent('schedule_started', {
+        projectPath,
+        scheduleId: schedule.id,
+        scheduleName: this.getName(schedule),
+        branchName: run.branchName,
+        stopAt: run.stopAt,
+      });
+    } catch (error) {
+      logger.error(`Schedule "${this.getName(schedule)}" failed to start auto mode:`, error);
+    }
+  }
+
+  private async stopLoop(
+    projectPath: string,
+    run: ScheduledAutoModeRun,
+    schedule: AutoModeSchedule | undefined
+  ): Promise<void> {
+    if (!this.autoModeService.isAutoLoopRunningForProject(projectPath, run.branchName)) {
+      return;
+    }
+    try {
+      await this.autoModeService.stopAutoLoopForProject(projectPath, run.branchName);
+      logger.info(
+        `Schedule ${schedule ? `"${this.getName(schedule)}"` : run.scheduleId} stopped auto mode for ${this.describeWorktree(run.branchName)} in ${projectPath}`
+      );
+      this.emitSchedulerEvent('schedule_stopped', {
+        projectPath,
+        scheduleId: run.scheduleId,
+        scheduleName: schedule ? this.getName(schedule) : undefined,
+        branchName: run.branchName,
+      });
+    } catch (error) {
+      logger.error(`Failed to stop scheduled auto mode run ${run.scheduleId}:`, error);
+    }
+  }
+
+  /**
+   * Run a job in the background, skipping it if the previous run is still going
+   */
+  private startJob(projectPath: string, job: ScheduledJob): void {
+    const jobKey = `${projectPath}::${job.id}`;
+    if (this.runningJobs.has(jobKey)) {
+      logger.warn(`Skipping scheduled job "${this.getName(job)}": previous run still in progress`);
+      return;
+    }
+
+    this.runningJobs.add(jobKey);
+    logger.info(`Running scheduled job "${this.getName(job)}" for ${projectPath}`);
+    this.emitSchedulerEvent('job_started', {
+      projectPath,
+      jobId: job.id,
+      jobName: this.getName(job),
+      jobType: job.type,
+    });
+
+    this.runJob(projectPath, job)
+      .then((summary) => {
+        this.emitSchedulerEvent('job_completed', {
+          projectPath,
+          jobId: job.id,
+          jobName: this.getName(job),
+          jobType: job.type,
+          summary,
+        });
+      })
+      .catch((error) => {
+        logger.error(`Scheduled job "${this.getName(job)}" failed:`, error);
+        this.emitSchedulerEvent('job_failed', {
+          projectPath,
+          jobId: job.id,
+          jobName: this.getName(job),
+          jobType: job.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.runningJobs.delete(jobKey);
+      });
+  }
+
+  /**
+   * Run a job to completion
+   *
+   * @returns A short summary of what the job did
+   */
+  private async runJob(projectPath: string, job: ScheduledJob): Promise<string> {
+    switch (job.type) {
+      case 'ideation_analysis': {
+        const result = await this.ideationService.analyzeProject(projectPath);
+        return `Analysis produced ${result.suggestions?.length ?? 0} suggestions`;
+      }
+      case 'issue_validation':
+        return this.validateOpenIssues(projectPath, job);
+      case 'memory_curation': {
+        const state = await this.memoryCurationService.runCuration(projectPath);
+        return `Curation proposed ${state.proposals.length} memory changes for review`;
+      }
+      default:
+        throw new Error(`Unknown scheduled job type: ${(job as ScheduledJob).type}`);
+    }
+  }
+
+  /**
+   * Validate open issues that have not been validated yet, oldest first
+   */
+  private async validateOpenIssues(projectPath: string, job: ScheduledJob): Promise<string> {
+    const source = await getIssueSource(projectPath, this.settingsService);
+    const { openIssues } = await source.listIssues();
+    const issues = [...openIssues].sort((a, b) => a.number - b.number);
+    const maxIssues = job.maxIssues ?? DEFAULT_SCHEDULED_VALIDATION_MAX_ISSUES;
+
+    const validated: string[] = [];
+    for (const issue of issues) {
+      if (validated.length >= maxIssues) break;
+      const issueId = issue.key ?? issue.number;
+      const issueLabel = issue.key ?? `#${issue.number}`;
+      if (await readValidation(projectPath, issueId)) continue;
+
+      const abortController = new AbortController();
+      if (!trySetValidationRunning(projectPath, issueId, abortController)) continue;
+      try {
+        await runValidation(
+          projectPath,
+          issue.number,
+          issue.key,
+          issue.title,
+          issue.body,
+          issue.labels.map((label) => label.name),
+          job.model ?? 'opus',
+          this.events,
+          abortController,
+          this.settingsService
+        );
+        validated.push(issueLabel);
+      } catch (error) {
+        // runValidation already emitted an error event for the issue
+        logger.warn(`Scheduled validation of issue ${issueLabel} failed:`, error);
+      } finally {
+        clearValidationStatus(projectPath, issueId);
+      }
+    }
+
+    return validated.length > 0
+      ? `Validated issues ${validated.join(', ')}`
+      : 'No unvalidated open issues';
+  }
+
+  /**
+   * Evaluate a schedule's trigger, logging malformed schedules once instead of throwing
+   *
+   * @returns The result of the check, or the fallback if the schedule is malformed
+   */
+  private evaluate<T>(projectPath: string, id: string, check: () => T, fallback: T): T {
+    const key = `${projectPath}::${id}`;
+    try {
+      const result = check();
+      this.invalidSchedules.delete(key);
+      return result;
+    } catch (error) {
+      if (!this.invalidSchedules.has(key)) {
+        this.invalidSchedules.add(key);
+        logger.warn(`Ignoring invalid schedule ${id} in ${projectPath}:`, error);
+      }
+      return fallback;
+    }
+  }
+
+  private getRunKey(projectPath: string, run: ScheduledAutoModeRun): string {
+    return `${projectPath}::${run.scheduleId}::${run.occurrence}`;
+  }
+
+  private getName(item: { id: string; name?: string }): string {
+    return item.name || item.id;
+  }
+
+  private describeWorktree(branchName: string | null): string {
+    return branchName ? `worktree ${branchName}` : 'main worktree';
+  }
+
+  private emitSchedulerEvent(type: string, data: Record<string, unknown>): void {
+    this.events.emit('scheduler:event', { type, ...data });
+  }
+}
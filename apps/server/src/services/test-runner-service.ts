@@ -54,6 +54,8 @@ export interface TestRunSession {
   exitCode: number | null;
   /** Specific test file being run (optional) */
   testFile?: string;
+  /** Project the worktree belongs to (optional) */
+  projectPath?: string;
   /** Scrollback buffer for log history (replay on reconnect) */
   scrollbackBuffer: string;
   /** Pending output to be flushed to subscribers */
@@ -87,6 +89,8 @@ export interface TestRunResult {
 class TestRunnerService {
   private sessions: Map<string, TestRunSession> = new Map();
   private emitter: EventEmitter | null = null;
+  /** Callers waiting for a session to finish, keyed by session ID */
+  private completionWaiters: Map<string, Array<(session: TestRunSession) => void>> = new Map();
 
   /**
    * Set the event emitter for streaming log events
@@ -231,9 +235,10 @@ class TestRunnerService {
     options: {
       command: string;
       testFile?: string;
+      projectPath?: string;
     }
   ): Promise<TestRunResult> {
-    const { command, testFile } = options;
+    const { command, testFile, projectPath } = options;
 
     // Check if already running
     const existingSession = this.getActiveSession(worktreePath);
@@ -286,6 +291,7 @@ class TestRunnerService {
       status: 'pending',
       exitCode: null,
       testFile,
+      projectPath,
       scrollbackBuffer: '',
       outputBuffer: '',
       flushTimeout: null,
@@ -324,6 +330,7 @@ class TestRunnerService {
       session.finishedAt = new Date();
       session.exitCode = exitCode;
       session.status = finalStatus;
+      this.notifyCompletion(session);
 
       if (session.flushTimeout) {
         clearTimeout(session.flushTimeout);
@@ -346,6 +353,7 @@ class TestRunnerService {
         this.emitter.emit('test-runner:completed', {
           sessionId: session.id,
           worktreePath: session.worktreePath,
+          projectPath: session.projectPath,
           command: session.command,
           status: finalStatus,
           exitCode,
@@ -489,6 +497,7 @@ class TestRunnerService {
 
     session.status = 'cancelled';
     session.finishedAt = new Date();
+    this.notifyCompletion(session);
 
     // Emit cancelled event
     if (this.emitter) {
@@ -531,6 +540,36 @@ class TestRunnerService {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Wait for a test session to finish
+   *
+   * @param sessionId - The ID of the test session
+   * @returns The finished session, or undefined if the session doesn't exist
+   */
+  waitForCompletion(sessionId: string): Promise<TestRunSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.finishedAt) {
+      return Promise.resolve(session);
+    }
+
+    return new Promise((resolve) => {
+      const waiters = this.completionWaiters.get(sessionId) ?? [];
+      waiters.push(resolve);
+      this.completionWaiters.set(sessionId, waiters);
+    });
+  }
+
+  /**
+   * Resolve everyone waiting for a session to finish
+   */
+  private notifyCompletion(session: TestRunSession): void {
+    const waiters = this.completionWaiters.get(session.id);
+    this.completionWaiters.delete(session.id);
+    for (const resolve of waiters ?? []) {
+      resolve(session);
+    }
+  }
+
   /**
    * Get buffered output for a test session
    */
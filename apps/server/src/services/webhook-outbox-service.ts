@@ -0,0 +1,399 @@
+/**
+ * Webhook Outbox Service - Durable delivery queue for HTTP event hooks
+ *
+ * Every HTTP hook request is written to {DATA_DIR}/webhook-outbox.json before
+ * it is sent, so deliveries survive receiver outages and server restarts:
+ * - Each attempt is signed with the hook's secret (HMAC-SHA256) and carries
+ *   the delivery ID as an idempotency key so receivers can verify and dedupe
+ * - Network errors, timeouts, 408, 429 and 5xx responses are retried with
+ *   exponential backoff
+ * - Deliveries that run out of attempts, or get another 4xx, become dead
+ *   letters that can be redelivered or discarded
+ *
+ * Delivered entries are removed from the outbox; their outcome is kept in
+ * the event history.
+ */
+
+import path from 'path';
+import { createHmac, randomUUID } from 'crypto';
+import { createLogger, expandEnvVars } from '@automaker/utils';
+import type { EventHookRetryPolicy, EventHookTrigger, WebhookOutboxEntry } from '@automaker/types';
+import { DEFAULT_EVENT_HOOK_RETRY_POLICY, EVENT_HOOK_ENV_PREFIX } from '@automaker/types';
+import * as secureFs from '../lib/secure-fs.js';
+
+const logger = createLogger('WebhookOutbox');
+
+/** Timeout for each request (10 seconds) */
+const REQUEST_TIMEOUT_MS = 10000;
+
+/** Longest wait between attempts (1 hour) */
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/** Upper bound on attempts, whatever the hook asks for */
+const MAX_ATTEMPTS = 10;
+
+/** Dead letters kept before the oldest are dropped */
+const MAX_DEAD_LETTERS = 200;
+
+const OUTBOX_VERSION = 1;
+
+interface OutboxFile {
+  version: number;
+  entries: WebhookOutboxEntry[];
+}
+
+/** Transports used for delivery, replaceable in tests */
+export interface WebhookOutboxTransports {
+  fetch: typeof fetch;
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Input for queueing a webhook
+ */
+export interface EnqueueWebhookInput {
+  hookId: string;
+  hookName?: string;
+  trigger: EventHookTrigger;
+  projectPath?: string;
+  eventId?: string;
+  request: WebhookOutboxEntry['request'];
+  secret?: string;
+  retry?: EventHookRetryPolicy;
+}
+
+/**
+ * Sign a webhook body the way receivers are expected to verify it:
+ * hex HMAC-SHA256 of "{timestamp}.{body}"
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Whether a failed response is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export class WebhookOutboxService {
+  private filePath: string;
+  private transports: WebhookOutboxTransports;
+  private entries: WebhookOutboxEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private inFlight = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private settledListeners = new Set<(entry: WebhookOutboxEntry) => void>();
+  private started = false;
+
+  constructor(dataDir: string, transports: Partial<WebhookOutboxTransports> = {}) {
+    this.filePath = path.join(dataDir, 'webhook-outbox.json');
+    this.transports = { fetch, env: process.env, ...transports };
+  }
+
+  /**
+   * Load the outbox and resume pending deliveries
+   */
+  async start(): Promise<void> {
+    this.started = true;
+    await this.load();
+    const pending = this.entries.filter((entry) => entry.status === 'pending').length;
+    if (pending > 0) {
+      logger.info(`Resuming ${pending} pending webhook deliveries`);
+    }
+    this.schedule();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Listen for background retries that end in delivery or a dead letter
+   */
+  onSettled(listener: (entry: WebhookOutboxEntry) => void): () => void {
+    this.settledListeners.add(listener);
+    return () => this.settledListeners.delete(listener);
+  }
+
+  /**
+   * Queue a webhook and make the first attempt
+   *
+   * @returns The entry after the first attempt (pending if a retry is scheduled)
+   */
+  async send(input: EnqueueWebhookInput): Promise<WebhookOutboxEntry> {
+    await this.load();
+    const now = new Date().toISOString();
+    const policy = { ...DEFAULT_EVENT_HOOK_RETRY_POLICY, ...input.retry };
+    const entry: WebhookOutboxEntry = {
+      id: `whd-${randomUUID()}`,
+      hookId: input.hookId,
+      hookName: input.hookName,
+      trigger: input.trigger,
+      projectPath: input.projectPath,
+      eventId: input.eventId,
+      request: input.request,
+      secret: input.secret,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: Math.min(Math.max(1, policy.maxAttempts), MAX_ATTEMPTS),
+      backoffMs: Math.max(0, policy.backoffMs),
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Persist before sending so a crash mid-request doesn't lose the delivery
+    this.entries.push(entry);
+    this.inFlight.add(entry.id);
+    await this.save();
+
+    await this.attempt(entry);
+    await this.save();
+    this.schedule();
+    return entry;
+  }
+
+  /**
+   * Get pending deliveries and dead letters, newest first
+   */
+  async list(projectPath?: string): Promise<WebhookOutboxEntry[]> {
+    await this.load();
+    return this.entries
+      .filter((entry) => !projectPath || entry.projectPath === projectPath)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Send a dead letter (or a pending entry, early) again with the same
+   * delivery ID and a fresh set of attempts
+   *
+   * @returns The entry after the attempt, or null if not found
+   */
+  async redeliver(id: string): Promise<WebhookOutboxEntry | null> {
+    await this.load();
+    const entry = this.entries.find((e) => e.id === id);
+    if (!entry || this.inFlight.has(id)) return entry ?? null;
+
+    entry.status = 'pending';
+    entry.attempts = 0;
+    entry.lastError = undefined;
+    entry.lastStatusCode = undefined;
+    await this.attempt(entry);
+    await this.save();
+    this.schedule();
+    return entry;
+  }
+
+  /**
+   * Drop an entry from the outbox
+   */
+  async discard(id: string): Promise<boolean> {
+    await this.load();
+    const before = this.entries.length;
+    this.entries = this.entries.filter((e) => e.id !== id);
+    if (this.entries.length === before) return false;
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Make one attempt and update the entry's status
+   */
+  private async attempt(entry: WebhookOutboxEntry): Promise<void> {
+    this.inFlight.add(entry.id);
+    entry.attempts++;
+
+    const { url, method, body } = entry.request;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      ...entry.request.headers,
+      'X-Automaker-Event': entry.trigger,
+      'X-Automaker-Delivery': entry.id,
+      'X-Automaker-Timestamp': timestamp,
+      'Idempotency-Key': entry.id,
+    };
+
+    let retryable = true;
+    try {
+      if (entry.secret) {
+        let secret: string;
+        try {
+          secret = expandEnvVars(entry.secret, this.transports.env, EVENT_HOOK_ENV_PREFIX);
+        } catch (error) {
+          // The secret is stored on the entry, so a retry would fail the same way
+          retryable = false;
+          throw error;
+        }
+        if (secret) {
+          headers['X-Automaker-Signature'] =
+            `sha256=${signWebhookPayload(secret, timestamp, body ?? '')}`;
+        }
+      }
+      const response = await this.transports.fetch(url, {
+        method,
+        headers,
+        body: method !== 'GET' ? body : undefined,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      entry.lastStatusCode = response.status;
+
+      if (response.ok) {
+        entry.status = 'delivered';
+        entry.deliveredAt = new Date().toISOString();
+        entry.lastError = undefined;
+        logger.info(`Delivered webhook ${entry.id} (status: ${response.status})`);
+      } else {
+        entry.lastError = `HTTP ${response.status}${
+          response.statusText ? `: ${response.statusText}` : ''
+        }`;
+        retryable = isRetryableStatus(response.status);
+      }
+    } catch (error) {
+      entry.lastStatusCode = undefined;
+      entry.lastError =
+        (error as Error).name === 'TimeoutError'
+          ? `Request timed out after ${REQUEST_TIMEOUT_MS}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+    } finally {
+      this.inFlight.delete(entry.id);
+    }
+
+    const now = Date.now();
+    entry.updatedAt = new Date(now).toISOString();
+    if (entry.status === 'delivered') return;
+
+    if (retryable && entry.attempts < entry.maxAttempts) {
+      const delay = Math.min(entry.backoffMs * 2 ** (entry.attempts - 1), MAX_BACKOFF_MS);
+      entry.nextAttemptAt = new Date(now + delay).toISOString();
+      logger.warn(
+        `Webhook ${entry.id} attempt ${entry.attempts} failed (${entry.lastError}), retrying in ${delay}ms`
+      );
+    } else {
+      entry.status = 'dead';
+      logger.warn(
+        `Webhook ${entry.id} dead-lettered after ${entry.attempts} attempt(s): ${entry.lastError}`
+      );
+    }
+  }
+
+  /**
+   * Retry every pending entry that is due
+   */
+  private async processDue(): Promise<void> {
+    this.timer = null;
+    const now = Date.now();
+    const due = this.entries.filter(
+      (entry) =>
+        entry.status === 'pending' &&
+        !this.inFlight.has(entry.id) &&
+        new Date(entry.nextAttemptAt).getTime() <= now
+    );
+
+    for (const entry of due) {
+      await this.attempt(entry);
+      if (entry.status !== 'pending') {
+        for (const listener of this.settledListeners) {
+          try {
+            listener(entry);
+          } catch (error) {
+            logger.error('Webhook outbox listener failed:', error);
+          }
+        }
+      }
+    }
+
+    if (due.length > 0) {
+      await this.save();
+    }
+    this.schedule();
+  }
+
+  /**
+   * Set a timer for the next pending entry
+   */
+  private schedule(): void {
+    if (!this.started) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const next = this.entries
+      .filter((entry) => entry.status === 'pending' && !this.inFlight.has(entry.id))
+      .reduce<number | null>((earliest, entry) => {
+        const at = new Date(entry.nextAttemptAt).getTime();
+        return earliest === null || at < earliest ? at : earliest;
+      }, null);
+    if (next === null) return;
+
+    this.timer = setTimeout(
+      () => {
+        this.processDue().catch((error) => logger.error('Webhook outbox retry failed:', error));
+      },
+      Math.max(0, next - Date.now())
+    );
+    this.timer.unref?.();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const content = (await secureFs.readFile(this.filePath, 'utf-8')) as string;
+          const data = JSON.parse(content) as OutboxFile;
+          this.entries = Array.isArray(data.entries) ? data.entries : [];
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            logger.error('Failed to read webhook outbox:', error);
+          }
+          this.entries = [];
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Write pending entries and dead letters (atomic, one write at a time)
+   */
+  private save(): Promise<void> {
+    this.entries = this.entries.filter((entry) => entry.status !== 'delivered');
+    const dead = this.entries.filter((entry) => entry.status === 'dead');
+    if (dead.length > MAX_DEAD_LETTERS) {
+      const dropped = new Set(
+        dead
+          .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+          .slice(0, dead.length - MAX_DEAD_LETTERS)
+          .map((entry) => entry.id)
+      );
+      this.entries = this.entries.filter((entry) => !dropped.has(entry.id));
+    }
+
+    const data: OutboxFile = { version: OUTBOX_VERSION, entries: this.entries };
+    this.saving = this.saving.then(async () => {
+      const tempPath = `${this.filePath}.tmp.${Date.now()}`;
+      try {
+        await secureFs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await secureFs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+        await secureFs.rename(tempPath, this.filePath);
+      } catch (error) {
+        logger.error('Failed to save webhook outbox:', error);
+        try {
+          await secureFs.unlink(tempPath);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    });
+    return this.saving;
+  }
+}
@@ -6,6 +6,7 @@ import {
   APP_SPEC_XML_FORMAT,
   type SpecOutput,
 } from '@/lib/app-spec-format.js';
+import { extractImplementedFeatures, extractRoadmapPhases } from '@/lib/xml-extractor.js';
 
 describe('app-spec-format.ts', () => {
   describe('specToXml', () => {
@@ -144,6 +145,52 @@ describe('app-spec-format.ts', () => {
       expect(xml).not.toContain('<development_guidelines>');
       expect(xml).not.toContain('<implementation_roadmap>');
     });
+
+    it('should round-trip feature_ids and file_locations through the XML extractor', () => {
+      const spec: SpecOutput = {
+        project_name: 'Test',
+        overview: 'Test',
+        technology_stack: ['TS'],
+        core_capabilities: ['Cap'],
+        implemented_features: [
+          {
+            name: 'Login',
+            description: 'Sign in & out',
+            file_locations: ['src/auth/login.ts'],
+            feature_ids: ['feature-1'],
+          },
+        ],
+        implementation_roadmap: [
+          {
+            phase: 'Phase 1',
+            status: 'in_progress',
+            description: 'Auth',
+            feature_ids: ['feature-1', 'feature-2'],
+            file_locations: ['src/auth'],
+          },
+        ],
+      };
+
+      const xml = specToXml(spec);
+
+      expect(extractImplementedFeatures(xml)).toEqual([
+        {
+          name: 'Login',
+          description: 'Sign in & out',
+          file_locations: ['src/auth/login.ts'],
+          feature_ids: ['feature-1'],
+        },
+      ]);
+      expect(extractRoadmapPhases(xml)).toEqual([
+        {
+          name: 'Phase 1',
+          status: 'in_progress',
+          description: 'Auth',
+          feature_ids: ['feature-1', 'feature-2'],
+          file_locations: ['src/auth'],
+        },
+      ]);
+    });
   });
 
   describe('getStructuredSpecPromptInstruction', () => {
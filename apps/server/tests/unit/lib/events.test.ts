@@ -1,4 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { EVENT_TYPES } from '@automaker/types';
 import { createEventEmitter, type EventType } from '@/lib/events.js';
 
 describe('events.ts', () => {
@@ -127,4 +131,20 @@ describe('events.ts', () => {
       expect(callback3).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('EVENT_TYPES', () => {
+    it('should list exactly the event types the server emits', () => {
+      const srcDir = fileURLToPath(new URL('../../../src', import.meta.url));
+      const emitted = new Set<string>();
+      for (const file of fs.readdirSync(srcDir, { recursive: true, encoding: 'utf-8' })) {
+        if (!file.endsWith('.ts')) continue;
+        const source = fs.readFileSync(path.join(srcDir, file), 'utf-8');
+        for (const match of source.matchAll(/\.emit\(\s*'([a-z-]+:[a-z-]+)'/g)) {
+          emitted.add(match[1]);
+        }
+      }
+
+      expect([...EVENT_TYPES].sort()).toEqual([...emitted].sort());
+    });
+  });
 });
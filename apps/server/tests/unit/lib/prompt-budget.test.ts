@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fitPromptToModel,
+  contextFilesSection,
+  featureSection,
+  previousWorkSection,
+  instructionsSection,
+  DEFAULT_CONTEXT_WINDOW,
+  PROMPT_BUDGET_SHARE,
+} from '@/lib/prompt-budget.js';
+
+describe('prompt-budget.ts', () => {
+  it('should fall back to the default context window for unknown models', () => {
+    const { budget } = fitPromptToModel('unknown-model', [featureSection('Add a button')]);
+
+    expect(budget.contextWindow).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(budget.budgetTokens).toBe(DEFAULT_CONTEXT_WINDOW * PROMPT_BUDGET_SHARE);
+    expect(budget.sections).toEqual([
+      expect.objectContaining({ id: 'feature', action: 'kept', target: 'prompt' }),
+    ]);
+  });
+
+  it('should shorten previous work before context files and never cut instructions', () => {
+    const instructions = 'x'.repeat(300_000);
+    const { contents, budget } = fitPromptToModel('unknown-model', [
+      contextFilesSection('c'.repeat(40_000)),
+      featureSection('Add a button'),
+      previousWorkSection('## Earlier\n' + 'p\n'.repeat(100_000)),
+      instructionsSection('instructions', 'Instructions', instructions),
+    ]);
+
+    const byId = Object.fromEntries(budget.sections.map((section) => [section.id, section]));
+    expect(byId['instructions'].action).toBe('kept');
+    expect(contents['instructions']).toBe(instructions);
+    expect(byId['previous-work'].action).toBe('summarized');
+    expect(contents['previous-work']).toContain('## Earlier');
+    expect(byId['context-files']).toMatchObject({ target: 'system', action: 'kept' });
+    expect(budget.sections.reduce((sum, section) => sum + section.tokens, 0)).toBeLessThanOrEqual(
+      budget.budgetTokens
+    );
+    expect(byId['feature'].action).toBe('kept');
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Feature } from '@automaker/types';
+import {
+  assessSpecCoverage,
+  buildGapFeature,
+  getSpecFileLocations,
+  inspectSpecFiles,
+  type SpecFileState,
+} from '@/lib/spec-coverage.js';
+
+const spec = `<project_specification>
+  <core_capabilities>
+    <capability>User authentication with email and password</capability>
+    <capability>Export reports to PDF</capability>
+    <capability>Realtime chat between users</capability>
+  </core_capabilities>
+  <implemented_features>
+    <feature>
+      <name>Login</name>
+      <description>Email and password authentication for users</description>
+      <file_locations>
+        <location>src/auth/login.ts</location>
+        <location>src/auth/session.ts</location>
+        <location>src/auth/**/*.test.ts</location>
+      </file_locations>
+      <feature_ids>
+        <feature_id>feature-login</feature_id>
+      </feature_ids>
+    </feature>
+  </implemented_features>
+  <implementation_roadmap>
+    <phase>
+      <name>Foundation</name>
+      <status>completed</status>
+      <description>Project setup</description>
+    </phase>
+    <phase>
+      <name>Reporting</name>
+      <status>pending</status>
+      <description>Reports and exports</description>
+      <file_locations>
+        <location>src/reports</location>
+      </file_locations>
+    </phase>
+  </implementation_roadmap>
+</project_specification>`;
+
+function makeFeature(id: string, specLink?: Feature['specLink']): Feature {
+  return { id, category: 'Spec', description: id, specLink } as Feature;
+}
+
+const fileState = (exists: boolean, linesChanged = 0, lineCount = 0): SpecFileState => ({
+  exists,
+  linesChanged,
+  lineCount,
+});
+
+describe('spec-coverage.ts', () => {
+  describe('assessSpecCoverage', () => {
+    it('matches capabilities to implemented features and flags the rest', () => {
+      const items = assessSpecCoverage(spec, [], new Map());
+      const capabilities = items.filter((item) => item.kind === 'capability');
+
+      expect(capabilities[0].implementedBy).toEqual(['Login']);
+      expect(capabilities[0].featureIds).toEqual(['feature-login']);
+      expect(capabilities[0].drift).toEqual([]);
+      expect(capabilities[1].drift).toEqual(['no_feature']);
+      expect(capabilities[2].drift).toEqual(['no_feature']);
+    });
+
+    it('counts features linked through their specLink', () => {
+      const items = assessSpecCoverage(
+        spec,
+        [
+          makeFeature('feature-pdf', { kind: 'capability', name: 'export reports to pdf' }),
+          makeFeature('feature-reports', { kind: 'roadmap_phase', name: 'Reporting' }),
+          makeFeature('feature-other', { kind: 'implemented_feature', name: 'Reporting' }),
+        ],
+        new Map()
+      );
+
+      const pdf = items.find((item) => item.name === 'Export reports to PDF');
+      const reporting = items.find((item) => item.name === 'Reporting');
+      expect(pdf?.featureIds).toEqual(['feature-pdf']);
+      expect(pdf?.drift).toEqual([]);
+      expect(reporting?.featureIds).toEqual(['feature-reports']);
+      expect(reporting?.drift).toEqual([]);
+    });
+
+    it('flags pending roadmap phases without features, but not completed ones', () => {
+      const items = assessSpecCoverage(spec, [], new Map());
+      const foundation = items.find((item) => item.name === 'Foundation');
+      const reporting = items.find((item) => item.name === 'Reporting');
+
+      expect(foundation?.status).toBe('completed');
+      expect(foundation?.drift).toEqual([]);
+      expect(reporting?.status).toBe('pending');
+      expect(reporting?.drift).toEqual(['no_feature']);
+    });
+
+    it('reports missing and heavily changed files', () => {
+      const items = assessSpecCoverage(
+        spec,
+        [],
+        new Map([
+          ['src/auth/login.ts', fileState(false)],
+          ['src/auth/session.ts', fileState(true, 120, 150)],
+          ['src/reports', fileState(true)],
+        ])
+      );
+      const login = items.find((item) => item.name === 'Login');
+
+      expect(login?.featureIds).toEqual(['feature-login']);
+      expect(login?.missingFiles).toEqual(['src/auth/login.ts']);
+      expect(login?.changedFiles).toEqual([
+        { path: 'src/auth/session.ts', linesChanged: 120, lineCount: 150 },
+      ]);
+      expect(login?.drift).toEqual(['missing_files', 'heavily_changed']);
+    });
+
+    it('ignores small changes and changes that are a small share of the file', () => {
+      const items = assessSpecCoverage(
+        spec,
+        [],
+        new Map([
+          ['src/auth/login.ts', fileState(true, 30, 40)],
+          ['src/auth/session.ts', fileState(true, 200, 1000)],
+        ])
+      );
+
+      expect(items.find((item) => item.name === 'Login')?.drift).toEqual([]);
+    });
+  });
+
+  describe('getSpecFileLocations', () => {
+    it('lists feature and phase locations without globs', () => {
+      expect(getSpecFileLocations(spec)).toEqual([
+        'src/auth/login.ts',
+        'src/auth/session.ts',
+        'src/reports',
+      ]);
+    });
+  });
+
+  describe('inspectSpecFiles', () => {
+    let projectPath: string;
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-coverage-'));
+      await fs.mkdir(path.join(projectPath, 'src', 'reports'), { recursive: true });
+      await fs.writeFile(path.join(projectPath, 'src', 'session.ts'), 'a\nb\nc');
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('checks existence and line counts outside a git repository', async () => {
+      const states = await inspectSpecFiles(
+        projectPath,
+        ['src/session.ts', 'src/reports', 'src/missing.ts'],
+        new Date(0)
+      );
+
+      expect(states.get('src/session.ts')).toEqual(fileState(true, 0, 3));
+      expect(states.get('src/reports')).toEqual(fileState(true));
+      expect(states.get('src/missing.ts')).toEqual(fileState(false));
+    });
+  });
+
+  describe('buildGapFeature', () => {
+    it('returns null for items without drift', () => {
+      const [login] = assessSpecCoverage(spec, [], new Map()).filter(
+        (item) => item.kind === 'implemented_feature'
+      );
+      expect(buildGapFeature(login)).toBeNull();
+    });
+
+    it('builds a backlog feature linked to an unimplemented item', () => {
+      const reporting = assessSpecCoverage(spec, [], new Map()).find(
+        (item) => item.name === 'Reporting'
+      )!;
+      const feature = buildGapFeature(reporting);
+
+      expect(feature).toMatchObject({
+        title: 'Reporting',
+        status: 'backlog',
+        specLink: { kind: 'roadmap_phase', name: 'Reporting' },
+      });
+      expect(feature?.description).toContain('Reports and exports');
+    });
+
+    it('describes file drift', () => {
+      const login = assessSpecCoverage(
+        spec,
+        [],
+        new Map([
+          ['src/auth/login.ts', fileState(false)],
+          ['src/auth/session.ts', fileState(true, 120, 150)],
+        ])
+      ).find((item) => item.name === 'Login')!;
+      const feature = buildGapFeature(login);
+
+      expect(feature?.title).toBe('Fix missing files: Login');
+      expect(feature?.description).toContain('- src/auth/login.ts');
+      expect(feature?.description).toContain('- src/auth/session.ts (120 of 150 lines)');
+    });
+  });
+});
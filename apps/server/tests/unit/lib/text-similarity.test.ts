@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, textSimilarity, findMostSimilar } from '@/lib/text-similarity.js';
+
+describe('text-similarity.ts', () => {
+  describe('tokenize', () => {
+    it('drops stop words and generic verbs and folds plurals', () => {
+      expect(tokenize('Add support for the Dark Themes!')).toEqual(['dark', 'theme']);
+      expect(tokenize('Access class')).toEqual(['access', 'class']);
+    });
+  });
+
+  describe('textSimilarity', () => {
+    it('scores identical wording as 1 and unrelated wording as 0', () => {
+      expect(textSimilarity('Dark mode theme', 'Implement dark themes mode')).toBeCloseTo(1);
+      expect(textSimilarity('Dark mode', 'CSV export')).toBe(0);
+      expect(textSimilarity('', 'CSV export')).toBe(0);
+    });
+  });
+
+  describe('findMostSimilar', () => {
+    const candidates = [
+      { id: 'a', title: 'Export board to CSV' },
+      { id: 'b', title: 'Dark mode', description: 'A dark theme for the whole app' },
+    ];
+
+    it('returns the best candidate above the threshold', () => {
+      const match = findMostSimilar({ id: 'x', title: 'Add a dark mode' }, candidates, 0.75);
+      expect(match?.candidate.id).toBe('b');
+      expect(match?.similarity).toBeCloseTo(1);
+      expect(findMostSimilar({ id: 'x', title: 'Slack notifications' }, candidates, 0.75)).toBe(
+        null
+      );
+    });
+  });
+});
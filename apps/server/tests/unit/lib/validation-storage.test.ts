@@ -132,6 +132,19 @@ describe('validation-storage.ts', () => {
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual(validation);
     });
+
+    it('should keep keyed issues with the same number apart', async () => {
+      const eng = createMockValidation({ issueNumber: 42, issueKey: 'ENG-42', issueTitle: 'Eng' });
+      const ops = createMockValidation({ issueNumber: 42, issueKey: 'OPS-42', issueTitle: 'Ops' });
+      await writeValidation(testProjectPath, 'ENG-42', eng);
+      await writeValidation(testProjectPath, 'OPS-42', ops);
+
+      const result = await getAllValidations(testProjectPath);
+
+      expect(result.map((v) => v.issueKey).sort()).toEqual(['ENG-42', 'OPS-42']);
+      expect(await readValidation(testProjectPath, 'ENG-42')).toEqual(eng);
+      expect(await readValidation(testProjectPath, 42)).toBeNull();
+    });
   });
 
   describe('deleteValidation', () => {
@@ -15,6 +15,8 @@ import {
   hasImplementedFeature,
   toSpecOutputFeatures,
   fromSpecOutputFeatures,
+  extractRoadmapPhases,
+  updateRoadmapPhaseFeatureIds,
   type ImplementedFeature,
   type XmlExtractorLogger,
 } from '@/lib/xml-extractor.js';
@@ -578,6 +580,73 @@ describe('xml-extractor.ts', () => {
     });
   });
 
+  describe('feature IDs', () => {
+    const roadmapSpec = `<project_specification>
+  <implementation_roadmap>
+    <phase>
+      <name>Foundation</name>
+      <status>completed</status>
+      <description>Project setup</description>
+    </phase>
+    <phase>
+      <name>Sharing</name>
+      <status>in_progress</status>
+      <description>Share boards</description>
+      <feature_ids>
+        <feature_id>feature-old</feature_id>
+      </feature_ids>
+      <file_locations>
+        <location>src/share.ts</location>
+      </file_locations>
+    </phase>
+  </implementation_roadmap>
+</project_specification>`;
+
+    it('should roundtrip implemented feature IDs', () => {
+      const xml = updateImplementedFeaturesSection(
+        '<project_specification>\n  <implemented_features>\n  </implemented_features>\n</project_specification>',
+        [{ name: 'Login', description: 'Sign in', feature_ids: ['feature-1', 'feature-2'] }]
+      );
+
+      expect(xml).toContain('<feature_id>feature-1</feature_id>');
+      expect(extractImplementedFeatures(xml)[0].feature_ids).toEqual(['feature-1', 'feature-2']);
+      expect(fromSpecOutputFeatures(toSpecOutputFeatures(extractImplementedFeatures(xml)))).toEqual(
+        extractImplementedFeatures(xml)
+      );
+    });
+
+    it('should extract roadmap phase feature IDs and file locations', () => {
+      const phases = extractRoadmapPhases(roadmapSpec);
+      expect(phases[0].feature_ids).toBeUndefined();
+      expect(phases[1].feature_ids).toEqual(['feature-old']);
+      expect(phases[1].file_locations).toEqual(['src/share.ts']);
+    });
+
+    it('should add feature IDs to a phase without any', () => {
+      const result = updateRoadmapPhaseFeatureIds(roadmapSpec, 'foundation', ['feature-1']);
+      const phases = extractRoadmapPhases(result);
+      expect(phases[0].feature_ids).toEqual(['feature-1']);
+      expect(phases[0].description).toBe('Project setup');
+      expect(phases[1].feature_ids).toEqual(['feature-old']);
+    });
+
+    it('should replace or remove the feature IDs of a phase', () => {
+      const replaced = updateRoadmapPhaseFeatureIds(roadmapSpec, 'Sharing', [
+        'feature-a',
+        'feature-b',
+      ]);
+      expect(extractRoadmapPhases(replaced)[1].feature_ids).toEqual(['feature-a', 'feature-b']);
+      expect(extractRoadmapPhases(replaced)[1].file_locations).toEqual(['src/share.ts']);
+
+      const removed = updateRoadmapPhaseFeatureIds(roadmapSpec, 'Sharing', []);
+      expect(removed).not.toContain('<feature_ids>');
+    });
+
+    it('should leave the spec unchanged for an unknown phase', () => {
+      expect(updateRoadmapPhaseFeatureIds(roadmapSpec, 'Missing', ['feature-1'])).toBe(roadmapSpec);
+    });
+  });
+
   describe('custom logger', () => {
     it('should use custom logger for extractXmlSection', () => {
       const mockLogger = createMockLogger();
@@ -50,6 +50,41 @@ describe('claude-provider.ts', () => {
       expect(results[1]).toEqual({ type: 'text', text: 'Response 2' });
     });
 
+    it('should normalize result usage and cost', async () => {
+      vi.mocked(sdk.query).mockReturnValue(
+        (async function* () {
+          yield {
+            type: 'result',
+            subtype: 'success',
+            result: 'Done',
+            total_cost_usd: 0.0123,
+            usage: {
+              input_tokens: 100,
+              output_tokens: 40,
+              cache_read_input_tokens: 500,
+              cache_creation_input_tokens: 20,
+            },
+          };
+        })()
+      );
+
+      const generator = provider.executeQuery({
+        prompt: 'Hello',
+        model: 'claude-opus-4-5-20251101',
+        cwd: '/test',
+      });
+
+      const results = await collectAsyncGenerator(generator);
+
+      expect(results[0].usage).toEqual({
+        inputTokens: 100,
+        outputTokens: 40,
+        cacheReadTokens: 500,
+        cacheWriteTokens: 20,
+        costUsd: 0.0123,
+      });
+    });
+
     it('should pass correct options to SDK', async () => {
       vi.mocked(sdk.query).mockReturnValue(
         (async function* () {
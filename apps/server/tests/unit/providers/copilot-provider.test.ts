@@ -356,6 +356,15 @@ describe('copilot-provider.ts', () => {
       });
     });
 
+    it('should skip assistant.usage events (summed onto the result by executeQuery)', () => {
+      const event = {
+        type: 'assistant.usage',
+        data: { model: 'claude-sonnet-4.5', inputTokens: 10, outputTokens: 5 },
+      };
+
+      expect(provider.normalizeEvent(event)).toBeNull();
+    });
+
     it('should normalize session.error to error event', () => {
       const event = {
         type: 'session.error',
@@ -464,6 +464,29 @@ describe('opencode-provider.ts', () => {
         });
       });
 
+      it('should include token usage and cost from step_finish', () => {
+        const event = {
+          type: 'step_finish',
+          part: {
+            type: 'step-finish',
+            reason: 'stop',
+            cost: 0.002,
+            tokens: { input: 120, output: 30, reasoning: 10, cache: { read: 400, write: 0 } },
+          },
+          sessionID: 'test-session',
+        };
+
+        const result = provider.normalizeEvent(event);
+
+        expect(result?.usage).toEqual({
+          inputTokens: 120,
+          outputTokens: 40,
+          cacheReadTokens: 400,
+          cacheWriteTokens: 0,
+          costUsd: 0.002,
+        });
+      });
+
       it('should convert step_finish with error to error message', () => {
         const event = {
           type: 'step_finish',
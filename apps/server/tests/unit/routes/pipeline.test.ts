@@ -243,6 +243,19 @@ describe('pipeline routes', () => {
       });
     });
 
+    it('should return 400 if a shell step has no command', async () => {
+      req.body = {
+        projectPath: '/test/project',
+        step: { name: 'Tests', order: 0, instructions: '', type: 'shell-command', command: ' ' },
+      };
+
+      const handler = createAddStepHandler(mockPipelineService);
+      await handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockPipelineService.addStep).not.toHaveBeenCalled();
+    });
+
     it('should handle errors gracefully', async () => {
       const error = new Error('Add failed');
       vi.mocked(mockPipelineService.addStep).mockRejectedValue(error);
@@ -1,9 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AutoModeService } from '@/services/auto-mode-service.js';
-import type { Feature } from '@automaker/types';
+import { resolveRetryPolicy } from '@automaker/utils';
+import type { Feature, PipelineStep, ReviewComment } from '@automaker/types';
 import fs from 'fs/promises';
 import os from 'os';
 import path from 'path';
+import { execSync } from 'child_process';
 
 describe('auto-mode-service.ts', () => {
   let service: AutoModeService;
@@ -917,4 +919,1257 @@ describe('auto-mode-service.ts', () => {
       }
     });
   });
+
+  describe('budget limits', () => {
+    let projectPath: string;
+
+    const createService = (budget: unknown) =>
+      new AutoModeService(
+        mockEvents as any,
+        { getProjectSettings: vi.fn().mockResolvedValue({ budget }) } as any
+      );
+
+    const writeFeature = async (feature: Partial<Feature> & Pick<Feature, 'id'>) => {
+      const featureDir = path.join(projectPath, '.automaker', 'features', feature.id);
+      await fs.mkdir(featureDir, { recursive: true });
+      await fs.writeFile(
+        path.join(featureDir, 'feature.json'),
+        JSON.stringify({ title: 'Feature', description: 'Feature description', ...feature })
+      );
+      return featureDir;
+    };
+
+    const writeUsage = async (featureId: string, costUsd: number) => {
+      await fs.writeFile(
+        path.join(projectPath, '.automaker', 'features', featureId, 'usage.json'),
+        JSON.stringify({
+          version: 1,
+          featureId,
+          totals: {
+            inputTokens: 1000,
+            outputTokens: 500,
+            cacheReadTokens: 0,
+            cacheWriteTokens: 0,
+            costUsd,
+          },
+          bySource: {},
+          entries: [],
+          updatedAt: new Date().toISOString(),
+        })
+      );
+    };
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'automaker-budget-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('should not pick up budget_exceeded features in auto mode', async () => {
+      await writeFeature({ id: 'feature-backlog', status: 'backlog' });
+      await writeFeature({
+        id: 'feature-over-budget',
+        status: 'budget_exceeded',
+        planSpec: {
+          status: 'approved',
+          version: 1,
+          reviewedByUser: true,
+          tasksCompleted: 1,
+          tasksTotal: 3,
+        },
+      });
+
+      const pendingFeatures = await (service as any).loadPendingFeatures(projectPath, null);
+      const pendingIds = pendingFeatures.map((feature: Feature) => feature.id);
+
+      expect(pendingIds).toContain('feature-backlog');
+      expect(pendingIds).not.toContain('feature-over-budget');
+    });
+
+    it('should not start a feature that has already spent its budget', async () => {
+      const budgetService = createService({ feature: { maxCostUsd: 1 } });
+      await writeFeature({ id: 'feature-1', status: 'backlog' });
+      await writeUsage('feature-1', 1.5);
+      const runAgentMock = vi.fn();
+      (budgetService as any).runAgent = runAgentMock;
+
+      await budgetService.executeFeature(projectPath, 'feature-1');
+
+      expect(runAgentMock).not.toHaveBeenCalled();
+      const stored = JSON.parse(
+        await fs.readFile(
+          path.join(projectPath, '.automaker', 'features', 'feature-1', 'feature.json'),
+          'utf-8'
+        )
+      );
+      expect(stored.status).toBe('budget_exceeded');
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({
+          type: 'auto_mode_budget_exceeded',
+          featureId: 'feature-1',
+          scope: 'feature',
+          limit: 'cost',
+        })
+      );
+      expect(budgetService.isFeatureRunning('feature-1')).toBe(false);
+    });
+
+    it('should abort the running agent when usage exceeds the feature budget', async () => {
+      const budgetService = createService({ feature: { maxTokens: 1000 } });
+      const abortController = new AbortController();
+      (budgetService as any).runningFeatures.set('feature-1', {
+        featureId: 'feature-1',
+        projectPath,
+        abortController,
+        isAutoMode: true,
+        startTime: Date.now(),
+        leaseCount: 1,
+      });
+
+      await (budgetService as any).enforceFeatureBudget(projectPath, 'feature-1', {
+        inputTokens: 800,
+        outputTokens: 400,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0,
+      });
+
+      expect(abortController.signal.aborted).toBe(true);
+      expect((budgetService as any).runningFeatures.get('feature-1').budgetExceeded).toEqual({
+        scope: 'feature',
+        exceeded: { limit: 'tokens', limitValue: 1000, actual: 1200 },
+      });
+    });
+
+    it('should leave the agent running while within budget', async () => {
+      const budgetService = createService({ feature: { maxCostUsd: 5 } });
+      const abortController = new AbortController();
+      (budgetService as any).runningFeatures.set('feature-1', {
+        featureId: 'feature-1',
+        projectPath,
+        abortController,
+        isAutoMode: true,
+        startTime: Date.now(),
+        leaseCount: 1,
+      });
+
+      await (budgetService as any).enforceFeatureBudget(projectPath, 'feature-1', {
+        inputTokens: 800,
+        outputTokens: 400,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 1,
+      });
+
+      expect(abortController.signal.aborted).toBe(false);
+    });
+
+    it('should only abort features of the worktree whose loop exceeded its budget', async () => {
+      const budgetService = createService({ project: { maxCostUsd: 2 } });
+      (budgetService as any).stopAutoLoopForProject = vi.fn().mockResolvedValue(0);
+      const controllers = { a: new AbortController(), b: new AbortController() };
+      for (const [id, branchName] of [
+        ['a', 'feature/a'],
+        ['b', 'feature/b'],
+      ] as const) {
+        (budgetService as any).runningFeatures.set(`feature-${id}`, {
+          featureId: `feature-${id}`,
+          projectPath,
+          branchName,
+          abortController: controllers[id],
+          isAutoMode: true,
+          startTime: Date.now(),
+          leaseCount: 1,
+        });
+      }
+
+      await (budgetService as any).handleProjectBudgetExceeded(
+        { config: { projectPath, branchName: 'feature/a' } },
+        { limit: 'cost', limitValue: 2, actual: 2.5 }
+      );
+
+      expect(controllers.a.signal.aborted).toBe(true);
+      expect(controllers.b.signal.aborted).toBe(false);
+      expect((budgetService as any).stopAutoLoopForProject).toHaveBeenCalledWith(
+        projectPath,
+        'feature/a'
+      );
+    });
+
+    it('should measure the project budget from when the loop started', async () => {
+      const budgetService = createService({ project: { maxCostUsd: 2 } });
+      await writeFeature({ id: 'feature-1', status: 'verified' });
+      await writeUsage('feature-1', 10);
+      const projectState = {
+        config: { projectPath, branchName: null },
+        startTime: Date.now(),
+        usageAtStart: {
+          inputTokens: 1000,
+          outputTokens: 500,
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+          costUsd: 9,
+        },
+      };
+
+      expect(await (budgetService as any).checkProjectBudget(projectState)).toBeNull();
+
+      await writeUsage('feature-1', 11.5);
+      expect(await (budgetService as any).checkProjectBudget(projectState)).toEqual({
+        limit: 'cost',
+        limitValue: 2,
+        actual: 2.5,
+      });
+    });
+  });
+
+  describe('pipeline step gating', () => {
+    let projectPath: string;
+
+    const featurePath = () =>
+      path.join(projectPath, '.automaker', 'features', 'feature-1', 'feature.json');
+    const outputPath = () =>
+      path.join(projectPath, '.automaker', 'features', 'feature-1', 'agent-output.md');
+    const readFeature = async (): Promise<Feature> =>
+      JSON.parse(await fs.readFile(featurePath(), 'utf-8'));
+
+    const feature = {
+      id: 'feature-1',
+      title: 'Feature',
+      description: 'Feature description',
+      category: 'Backend',
+      status: 'in_progress',
+    } as Feature;
+
+    const step = (overrides: Partial<PipelineStep>): PipelineStep => ({
+      id: 'step-1',
+      name: 'Run tests',
+      order: 0,
+      instructions: '',
+      colorClass: 'blue',
+      createdAt: '',
+      updatedAt: '',
+      ...overrides,
+    });
+
+    const runSteps = (steps: PipelineStep[]) =>
+      (service as any).executePipelineSteps(
+        projectPath,
+        'feature-1',
+        feature,
+        steps,
+        projectPath,
+        new AbortController(),
+        false
+      );
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'automaker-pipeline-'));
+      await fs.mkdir(path.dirname(featurePath()), { recursive: true });
+      await fs.writeFile(featurePath(), JSON.stringify(feature));
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('should stop the pipeline when a shell step fails', async () => {
+      const runAgentMock = vi.fn();
+      (service as any).runAgent = runAgentMock;
+
+      const failed = await runSteps([
+        step({ type: 'shell-command', command: 'echo broken && exit 3' }),
+        step({ id: 'step-2', name: 'Polish', order: 1, instructions: 'Polish the code' }),
+      ]);
+
+      expect(failed).toMatchObject({ stepId: 'step-1', verdict: 'fail', attempts: 1 });
+      expect(failed.summary).toBe('Exited with code 3');
+      expect(runAgentMock).not.toHaveBeenCalled();
+      expect((await readFeature()).pipelineResults).toHaveLength(1);
+      expect(await fs.readFile(outputPath(), 'utf-8')).toContain('broken');
+    });
+
+    it('should skip steps whose conditions do not match', async () => {
+      const runAgentMock = vi.fn();
+      (service as any).runAgent = runAgentMock;
+
+      const failed = await runSteps([
+        step({ instructions: 'Review the UI', conditions: { categories: ['Frontend'] } }),
+      ]);
+
+      expect(failed).toBeNull();
+      expect(runAgentMock).not.toHaveBeenCalled();
+      expect((await readFeature()).pipelineResults?.[0]).toMatchObject({
+        stepId: 'step-1',
+        verdict: 'skipped',
+      });
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({ type: 'pipeline_step_skipped', stepId: 'step-1' })
+      );
+    });
+
+    it('should loop back to implementation with the failure output', async () => {
+      const runAgentMock = vi.fn(async (workDir: string) => {
+        await fs.writeFile(path.join(workDir, 'fixed.txt'), 'yes');
+      });
+      (service as any).runAgent = runAgentMock;
+
+      const failed = await runSteps([
+        step({
+          type: 'shell-command',
+          command: 'test -f fixed.txt || (echo missing fix && exit 1)',
+          onFailure: { action: 'loop-back', maxAttempts: 2 },
+        }),
+      ]);
+
+      expect(failed).toBeNull();
+      expect(runAgentMock).toHaveBeenCalledTimes(1);
+      expect(runAgentMock.mock.calls[0][2]).toContain('missing fix');
+      expect(runAgentMock.mock.calls[0][7]).toMatchObject({ usageSource: 'implementation' });
+      expect((await readFeature()).pipelineResults?.[0]).toMatchObject({
+        verdict: 'pass',
+        attempts: 2,
+      });
+    });
+
+    it('should fall back to the next model when a step runs out of quota', async () => {
+      (service as any).getRetryPolicy = vi
+        .fn()
+        .mockResolvedValue(resolveRetryPolicy({ fallbackModels: ['sonnet'] }));
+      const runAgentMock = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Usage limit reached'))
+        .mockResolvedValue(undefined);
+      (service as any).runAgent = runAgentMock;
+
+      const failed = await runSteps([
+        step({ instructions: 'Polish the code' }),
+        step({ id: 'step-2', name: 'Document', order: 1, instructions: 'Write the docs' }),
+      ]);
+
+      expect(failed).toBeNull();
+      const models = runAgentMock.mock.calls.map((call) => call[6]);
+      expect(models).toHaveLength(3);
+      expect(models[0]).toContain('opus');
+      // The fallback model takes over for the rest of the pipeline
+      expect(models[1]).toContain('sonnet');
+      expect(models[2]).toBe(models[1]);
+      expect((await readFeature()).pipelineResults?.map((r) => r.verdict)).toEqual([
+        'pass',
+        'pass',
+      ]);
+    });
+
+    it('should re-run earlier checks after a fix pass', async () => {
+      // The fix makes lint pass but breaks the tests that passed before it
+      const runAgentMock = vi.fn(async (workDir: string) => {
+        await fs.writeFile(path.join(workDir, 'fixed.txt'), 'yes');
+        await fs.writeFile(path.join(workDir, 'broken.txt'), 'yes');
+      });
+      (service as any).runAgent = runAgentMock;
+
+      const failed = await runSteps([
+        step({
+          type: 'shell-command',
+          command: 'test ! -f broken.txt || (echo tests broken && exit 1)',
+        }),
+        step({
+          id: 'step-2',
+          name: 'Lint',
+          order: 1,
+          type: 'shell-command',
+          command: 'test -f fixed.txt || (echo lint failed && exit 1)',
+          onFailure: { action: 'loop-back', maxAttempts: 2 },
+        }),
+      ]);
+
+      expect(runAgentMock).toHaveBeenCalledTimes(1);
+      expect(failed).toMatchObject({ stepId: 'step-1', verdict: 'fail', attempts: 2 });
+    });
+
+    it('should match changed-file conditions against commits on the feature branch', async () => {
+      const git = (command: string) => execSync(`git ${command}`, { cwd: projectPath });
+      git('init -q -b main');
+      git('config user.email test@example.com');
+      git('config user.name Test');
+      await fs.writeFile(path.join(projectPath, '.gitignore'), '.automaker/\n');
+      git('add -A');
+      git('commit -q -m initial');
+      git('checkout -q -b feature/api');
+      await fs.mkdir(path.join(projectPath, 'src'));
+      await fs.writeFile(path.join(projectPath, 'src', 'api.ts'), 'export {}');
+      git('add -A');
+      git('commit -q -m api');
+
+      const failed = await runSteps([
+        step({
+          type: 'shell-command',
+          command: 'echo api changed',
+          conditions: { changedFiles: ['src/**'] },
+        }),
+      ]);
+
+      expect(failed).toBeNull();
+      expect((await readFeature()).pipelineResults?.[0]).toMatchObject({ verdict: 'pass' });
+    });
+
+    it('should run review steps read-only and continue past a failed verdict when allowed', async () => {
+      const runAgentMock = vi.fn(async () => {
+        await fs.writeFile(outputPath(), 'Found issues.\nVERDICT: FAIL - no input validation');
+      });
+      (service as any).runAgent = runAgentMock;
+
+      const failed = await runSteps([
+        step({
+          type: 'review',
+          instructions: 'All inputs are validated',
+          onFailure: { action: 'continue' },
+        }),
+      ]);
+
+      expect(failed).toBeNull();
+      expect(runAgentMock.mock.calls[0][7]).toMatchObject({ readOnly: true });
+      expect((await readFeature()).pipelineResults?.[0]).toMatchObject({
+        verdict: 'fail',
+        summary: 'no input validation',
+      });
+    });
+
+    it('should run steps of the same stage in parallel and merge their outputs', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const runAgentMock = vi.fn(
+        async (
+          _workDir: string,
+          _featureId: string,
+          _prompt: string,
+          _abortController: AbortController,
+          _projectPath: string,
+          _imagePaths: undefined,
+          _model: string,
+          options: { outputPath?: string; pipelineStep?: PipelineStep }
+        ) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          active--;
+          await fs.mkdir(path.dirname(options.outputPath!), { recursive: true });
+          await fs.writeFile(options.outputPath!, `${options.pipelineStep?.name} findings`);
+        }
+      );
+      (service as any).runAgent = runAgentMock;
+      await fs.writeFile(outputPath(), 'Implementation output');
+
+      const failed = await runSteps([
+        step({ id: 'security', name: 'Security', instructions: 'x', stage: 'Reviews' }),
+        step({ id: 'docs', name: 'Docs', order: 1, instructions: 'x', stage: 'Reviews' }),
+        step({
+          id: 'lint',
+          name: 'Lint',
+          order: 2,
+          type: 'shell-command',
+          command: 'echo lint failed && exit 1',
+          stage: 'Reviews',
+          onFailure: { action: 'continue' },
+        }),
+      ]);
+
+      expect(failed).toBeNull();
+      expect(maxActive).toBe(2);
+      expect(runAgentMock.mock.calls[0][7]).toMatchObject({ previousContent: undefined });
+
+      const output = await fs.readFile(outputPath(), 'utf-8');
+      expect(output.startsWith('Implementation output')).toBe(true);
+      expect(output).toContain('## Pipeline Stage: Reviews');
+      expect(output).toContain('### Security\n\nSecurity findings');
+      expect(output).toContain('lint failed');
+
+      const stored = await readFeature();
+      expect(stored.pipelineStage).toBeUndefined();
+      expect(stored.pipelineResults?.map((r) => [r.stepId, r.verdict, r.stage])).toEqual(
+        expect.arrayContaining([
+          ['security', 'pass', 'Reviews'],
+          ['docs', 'pass', 'Reviews'],
+          ['lint', 'fail', 'Reviews'],
+        ])
+      );
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({ type: 'pipeline_stage_complete', passed: false })
+      );
+    });
+  });
+
+  describe('rollbackToCheckpoint', () => {
+    let projectPath: string;
+
+    const featureDir = () => path.join(projectPath, '.automaker', 'features', 'feature-1');
+    const readFeature = async (): Promise<Feature> =>
+      JSON.parse(await fs.readFile(path.join(featureDir(), 'feature.json'), 'utf-8'));
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'automaker-rollback-'));
+      const git = (command: string) => execSync(`git ${command}`, { cwd: projectPath });
+      git('init -q');
+      git('config user.email test@example.com');
+      git('config user.name Test');
+      await fs.writeFile(path.join(projectPath, 'app.ts'), 'v1');
+      git('add -A');
+      git('commit -q -m initial');
+
+      await fs.mkdir(featureDir(), { recursive: true });
+      await fs.writeFile(
+        path.join(featureDir(), 'feature.json'),
+        JSON.stringify({
+          id: 'feature-1',
+          title: 'Feature',
+          description: 'Feature description',
+          status: 'in_progress',
+          planSpec: {
+            status: 'approved',
+            version: 1,
+            reviewedByUser: true,
+            tasks: [
+              { id: 'T001', description: 'First', status: 'completed' },
+              { id: 'T002', description: 'Second', status: 'pending' },
+            ],
+          },
+        })
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('should restore files and reset tasks from the checkpointed one onward', async () => {
+      await (service as any).createFeatureCheckpoint(projectPath, 'feature-1', projectPath, {
+        kind: 'task',
+        label: 'Before task T002: Second',
+        taskId: 'T002',
+        featureStatus: 'in_progress',
+        agentOutput: 'after T001',
+      });
+      const [checkpoint] = await service.listCheckpoints(projectPath, 'feature-1');
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({ type: 'checkpoint_created' })
+      );
+
+      await fs.writeFile(path.join(projectPath, 'app.ts'), 'v2');
+      const stored = await readFeature();
+      stored.status = 'waiting_approval';
+      stored.planSpec!.tasks![1].status = 'completed';
+      await fs.writeFile(path.join(featureDir(), 'feature.json'), JSON.stringify(stored));
+
+      const result = await service.rollbackToCheckpoint(projectPath, 'feature-1', checkpoint.id);
+
+      expect(result.resumed).toBe(false);
+      expect(await fs.readFile(path.join(projectPath, 'app.ts'), 'utf-8')).toBe('v1');
+      expect(await fs.readFile(path.join(featureDir(), 'agent-output.md'), 'utf-8')).toBe(
+        'after T001'
+      );
+      const feature = await readFeature();
+      // Nothing resumes the feature, so it must not be left in progress
+      expect(feature.status).toBe('waiting_approval');
+      expect(feature.planSpec?.tasks?.map((task) => task.status)).toEqual(['completed', 'pending']);
+      expect(feature.planSpec?.tasksCompleted).toBe(1);
+    });
+
+    it('should restore the running status when resuming', async () => {
+      await (service as any).createFeatureCheckpoint(projectPath, 'feature-1', projectPath, {
+        kind: 'task',
+        label: 'Before task T002: Second',
+        taskId: 'T002',
+        featureStatus: 'in_progress',
+        agentOutput: 'after T001',
+      });
+      const [checkpoint] = await service.listCheckpoints(projectPath, 'feature-1');
+      const resumeFeature = vi.spyOn(service, 'resumeFeature').mockResolvedValue(undefined);
+
+      const result = await service.rollbackToCheckpoint(projectPath, 'feature-1', checkpoint.id, {
+        resume: true,
+      });
+
+      expect(result.resumed).toBe(true);
+      expect(resumeFeature).toHaveBeenCalledWith(projectPath, 'feature-1', false);
+      expect((await readFeature()).status).toBe('in_progress');
+    });
+
+    it('should refuse while another feature runs in the same directory', async () => {
+      await (service as any).createFeatureCheckpoint(projectPath, 'feature-1', projectPath, {
+        kind: 'task',
+        label: 'Before task T002: Second',
+        taskId: 'T002',
+        featureStatus: 'in_progress',
+      });
+      const [checkpoint] = await service.listCheckpoints(projectPath, 'feature-1');
+      (service as any).runningFeatures.set('feature-2', {
+        featureId: 'feature-2',
+        projectPath,
+        worktreePath: null,
+        branchName: null,
+      });
+      await fs.writeFile(path.join(projectPath, 'app.ts'), 'work of feature-2');
+
+      await expect(
+        service.rollbackToCheckpoint(projectPath, 'feature-1', checkpoint.id)
+      ).rejects.toThrow('Feature feature-2 is running');
+      expect(await fs.readFile(path.join(projectPath, 'app.ts'), 'utf-8')).toBe(
+        'work of feature-2'
+      );
+    });
+
+    it('should reject unknown checkpoints', async () => {
+      await expect(
+        service.rollbackToCheckpoint(projectPath, 'feature-1', 'cp-missing')
+      ).rejects.toThrow('Checkpoint cp-missing not found');
+    });
+  });
+
+  describe('runAgentWithFallback', () => {
+    const feature = { id: 'feature-1', model: 'opus', category: '', description: '' } as Feature;
+
+    const createService = (retryPolicy: Record<string, unknown>) => {
+      const settingsService = {
+        getGlobalSettings: vi.fn().mockResolvedValue({ retryPolicy }),
+        getProjectSettings: vi.fn().mockResolvedValue({}),
+      };
+      const retryService = new AutoModeService(mockEvents as any, settingsService as any);
+      (retryService as any).sleep = vi.fn().mockResolvedValue(undefined);
+      return retryService;
+    };
+    const runningFeature = () => ({ abortController: new AbortController() }) as any;
+
+    it('should retry rate limits on the same model with backoff', async () => {
+      const retryService = createService({ maxRetries: 2, initialBackoffSeconds: 5 });
+      const attempt = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('429 rate_limit retry-after: 20'))
+        .mockResolvedValueOnce(undefined);
+
+      const model = await (retryService as any).runAgentWithFallback(
+        '/project',
+        feature,
+        runningFeature(),
+        attempt
+      );
+
+      expect(model).toBe('claude-opus-4-5-20251101');
+      expect(attempt).toHaveBeenNthCalledWith(2, 'claude-opus-4-5-20251101', 1);
+      expect((retryService as any).sleep).toHaveBeenCalledWith(20000, expect.anything());
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({ type: 'auto_mode_retry', retry: 1 })
+      );
+    });
+
+    it('should move to the next model when quota is exhausted', async () => {
+      const retryService = createService({ fallbackModels: ['sonnet', 'codex-gpt-5.2'] });
+      const attempt = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Usage limit reached'))
+        .mockRejectedValueOnce(new Error('Authentication failed'))
+        .mockResolvedValueOnce(undefined);
+      const entry = runningFeature();
+
+      const model = await (retryService as any).runAgentWithFallback(
+        '/project',
+        feature,
+        entry,
+        attempt
+      );
+
+      expect(model).toBe('codex-gpt-5.2');
+      expect(entry.model).toBe('codex-gpt-5.2');
+      expect(entry.provider).toBe('codex');
+      expect(attempt).toHaveBeenCalledTimes(3);
+      expect((retryService as any).sleep).not.toHaveBeenCalled();
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({ type: 'auto_mode_model_fallback', toModel: 'codex-gpt-5.2' })
+      );
+    });
+
+    it('should rethrow errors that are not retryable', async () => {
+      const retryService = createService({ fallbackModels: ['sonnet'] });
+      const attempt = vi.fn().mockRejectedValue(new Error('Build broke'));
+
+      await expect(
+        (retryService as any).runAgentWithFallback('/project', feature, runningFeature(), attempt)
+      ).rejects.toThrow('Build broke');
+      expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow once the last model gives up', async () => {
+      const retryService = createService({ maxRetries: 0, fallbackModels: ['sonnet'] });
+      const attempt = vi.fn().mockRejectedValue(new Error('Usage limit reached'));
+
+      await expect(
+        (retryService as any).runAgentWithFallback('/project', feature, runningFeature(), attempt)
+      ).rejects.toThrow('Usage limit reached');
+      expect(attempt).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('acceptance judge', () => {
+    let projectPath: string;
+
+    const featureDir = () => path.join(projectPath, '.automaker', 'features', 'feature-1');
+    const readFeature = async (): Promise<Feature> =>
+      JSON.parse(await fs.readFile(path.join(featureDir(), 'feature.json'), 'utf-8'));
+    const writeFeature = (overrides: Partial<Feature>) =>
+      fs.writeFile(
+        path.join(featureDir(), 'feature.json'),
+        JSON.stringify({
+          id: 'feature-1',
+          title: 'Form',
+          description: 'Validate the signup form',
+          category: 'Frontend',
+          status: 'in_progress',
+          ...overrides,
+        })
+      );
+    const criteria = [
+      { id: 'AC1', description: 'Rejects empty email', status: 'pending' as const },
+      { id: 'AC2', description: 'Saves valid input', status: 'pending' as const },
+    ];
+    const judgeWith = (output: string) => {
+      const runAgentMock = vi.fn(async (...args: any[]) => {
+        await fs.writeFile(args[7].outputPath, output);
+      });
+      (service as any).runAgent = runAgentMock;
+      return runAgentMock;
+    };
+    const completionStatus = async () =>
+      (service as any).getCompletionStatus(
+        projectPath,
+        await readFeature(),
+        projectPath,
+        new AbortController()
+      );
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'automaker-acceptance-'));
+      await fs.mkdir(featureDir(), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('should verify features without acceptance criteria without running the judge', async () => {
+      await writeFeature({});
+      const runAgentMock = judgeWith('');
+
+      expect(await completionStatus()).toBe('verified');
+      expect(runAgentMock).not.toHaveBeenCalled();
+    });
+
+    it('should run the judge read-only and store its scores and evidence', async () => {
+      await writeFeature({ acceptanceCriteria: criteria });
+      const runAgentMock = judgeWith(
+        'CRITERION AC1: PASS | score: 95 | evidence: form.test.ts\n' +
+          'CRITERION AC2: PASS | score: 90 | evidence: save() in form.ts\n' +
+          'VERDICT: PASS - all met'
+      );
+
+      expect(await completionStatus()).toBe('verified');
+      expect(runAgentMock.mock.calls[0][2]).toContain('AC2: Saves valid input');
+      expect(runAgentMock.mock.calls[0][7]).toMatchObject({
+        readOnly: true,
+        usageSource: 'acceptance_judge',
+      });
+      const feature = await readFeature();
+      expect(feature.acceptanceCriteria?.[1]).toMatchObject({
+        status: 'pass',
+        score: 90,
+        evidence: 'save() in form.ts',
+      });
+      expect(feature.acceptanceJudgement).toMatchObject({ passed: true, summary: 'all met' });
+    });
+
+    it('should hold features for review when a criterion fails', async () => {
+      await writeFeature({ acceptanceCriteria: criteria });
+      judgeWith('CRITERION AC1: PASS\nCRITERION AC2: FAIL | evidence: nothing is saved');
+
+      expect(await completionStatus()).toBe('waiting_approval');
+      expect((await readFeature()).acceptanceJudgement?.passed).toBe(false);
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({
+          type: 'auto_mode_acceptance_judged',
+          passed: false,
+          passedCount: 1,
+          totalCount: 2,
+        })
+      );
+    });
+
+    it('should fail every criterion when the judge cannot run', async () => {
+      await writeFeature({ acceptanceCriteria: criteria });
+      (service as any).runAgent = vi.fn().mockRejectedValue(new Error('Authentication failed'));
+
+      expect(await completionStatus()).toBe('waiting_approval');
+      const feature = await readFeature();
+      expect(feature.acceptanceCriteria?.every((c) => c.status === 'fail')).toBe(true);
+      expect(feature.acceptanceJudgement?.summary).toContain('Authentication failed');
+    });
+
+    it('should judge resumed pipeline features with no steps left to run', async () => {
+      await writeFeature({
+        status: 'pipeline_lint',
+        acceptanceCriteria: criteria,
+        excludedPipelineSteps: ['lint'],
+      });
+      const runAgentMock = judgeWith(
+        'CRITERION AC1: PASS\nCRITERION AC2: PASS\nVERDICT: PASS - all met'
+      );
+      const lint = {
+        id: 'lint',
+        name: 'Lint',
+        order: 0,
+        instructions: '',
+        colorClass: '',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      };
+
+      await (service as any).resumeFromPipelineStep(projectPath, await readFeature(), false, 0, {
+        version: 1,
+        steps: [lint],
+      });
+
+      expect(runAgentMock.mock.calls[0][7]).toMatchObject({ usageSource: 'acceptance_judge' });
+      const feature = await readFeature();
+      expect(feature.status).toBe('verified');
+      expect(feature.acceptanceJudgement?.passed).toBe(true);
+    });
+  });
+
+  describe('competition mode', () => {
+    let projectPath: string;
+
+    const featureDir = () => path.join(projectPath, '.automaker', 'features', 'feature-1');
+    const readFeature = async (): Promise<Feature> =>
+      JSON.parse(await fs.readFile(path.join(featureDir(), 'feature.json'), 'utf-8'));
+    const git = (command: string) =>
+      execSync(`git ${command}`, { cwd: projectPath, encoding: 'utf-8' }).trim();
+    const contenders = [
+      { model: 'opus' },
+      { model: 'sonnet', instructions: 'Keep the change minimal' },
+    ];
+
+    beforeEach(async () => {
+      projectPath = await fs.realpath(
+        await fs.mkdtemp(path.join(os.tmpdir(), 'automaker-competition-'))
+      );
+      git('init -q');
+      git('config user.email test@example.com');
+      git('config user.name Test');
+      await fs.writeFile(path.join(projectPath, '.gitignore'), '.automaker/\n.worktrees/\n');
+      git('add -A');
+      git('commit -q -m initial');
+
+      await fs.mkdir(featureDir(), { recursive: true });
+      await fs.writeFile(
+        path.join(featureDir(), 'feature.json'),
+        JSON.stringify({
+          id: 'feature-1',
+          title: 'Form',
+          description: 'Validate the signup form',
+          category: 'Frontend',
+          status: 'backlog',
+        })
+      );
+
+      // Each candidate writes a file named after its model into its own worktree
+      (service as any).runAgent = vi.fn(async (...args: any[]) => {
+        await fs.writeFile(path.join(args[0], `${args[6]}.ts`), 'done\n');
+        await fs.mkdir(path.dirname(args[7].outputPath), { recursive: true });
+        await fs.writeFile(args[7].outputPath, `Output from ${args[6]}`);
+      });
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('should run each contender in its own worktree and wait for a winner', async () => {
+      await service.runCompetition(projectPath, 'feature-1', contenders);
+
+      const runAgentMock = (service as any).runAgent as ReturnType<typeof vi.fn>;
+      expect(runAgentMock).toHaveBeenCalledTimes(2);
+      // Candidates start side by side, so their calls can come in either order
+      const promptFor = (model: string) =>
+        runAgentMock.mock.calls.find((call) => call[6].includes(model))![2];
+      expect(promptFor('sonnet')).toContain('Keep the change minimal');
+      expect(promptFor('opus')).not.toContain('Keep the change minimal');
+
+      const feature = await readFeature();
+      expect(feature.status).toBe('waiting_approval');
+      expect(feature.contenders).toEqual(contenders);
+      expect(feature.competition?.status).toBe('completed');
+      const candidates = feature.competition!.candidates;
+      expect(candidates).toHaveLength(2);
+      expect(new Set(candidates.map((c) => c.worktreePath)).size).toBe(2);
+      for (const candidate of candidates) {
+        expect(candidate).toMatchObject({
+          status: 'completed',
+          diffStats: { filesChanged: 1, additions: 1, deletions: 0 },
+          tests: { status: 'skipped' },
+        });
+        expect(candidate.worktreePath.startsWith(path.join(projectPath, '.worktrees'))).toBe(true);
+      }
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({ type: 'competition_completed', featureId: 'feature-1' })
+      );
+    });
+
+    it('should give each candidate its own usage and output scope', async () => {
+      await service.runCompetition(projectPath, 'feature-1', contenders);
+
+      const runAgentMock = (service as any).runAgent as ReturnType<typeof vi.fn>;
+      const { candidates } = (await readFeature()).competition!;
+      expect(runAgentMock).toHaveBeenCalledTimes(2);
+      expect(runAgentMock.mock.calls.map((call) => call[7])).toEqual(
+        expect.arrayContaining(
+          candidates.map((candidate) =>
+            expect.objectContaining({
+              usageSource: 'competition',
+              candidateId: candidate.id,
+              outputPath: path.join(featureDir(), 'competition', `${candidate.id}.md`),
+            })
+          )
+        )
+      );
+    });
+
+    it('should promote the winner and remove the other worktrees', async () => {
+      await service.runCompetition(projectPath, 'feature-1', contenders);
+      const [loser, winner] = (await readFeature()).competition!.candidates;
+
+      await service.promoteCompetitionWinner(projectPath, 'feature-1', winner.id);
+
+      const feature = await readFeature();
+      expect(feature.branchName).toBe(winner.branchName);
+      expect(feature.competition).toMatchObject({ status: 'promoted', winnerId: winner.id });
+      expect(await fs.readFile(path.join(featureDir(), 'agent-output.md'), 'utf-8')).toContain(
+        'Output from'
+      );
+      await expect(fs.access(loser.worktreePath)).rejects.toThrow();
+      expect(git(`branch --list ${loser.branchName}`)).toBe('');
+      await expect(fs.access(winner.worktreePath)).resolves.toBeUndefined();
+    });
+
+    it('should remove the worktree of the branch the winner replaces', async () => {
+      const previousWorktree = path.join(projectPath, '.worktrees', 'feature-form');
+      git(`worktree add -q -b feature/form ${previousWorktree}`);
+      const stored = await readFeature();
+      await fs.writeFile(
+        path.join(featureDir(), 'feature.json'),
+        JSON.stringify({ ...stored, branchName: 'feature/form' })
+      );
+
+      await service.runCompetition(projectPath, 'feature-1', contenders);
+      const [, winner] = (await readFeature()).competition!.candidates;
+      await service.promoteCompetitionWinner(projectPath, 'feature-1', winner.id);
+
+      expect((await readFeature()).branchName).toBe(winner.branchName);
+      await expect(fs.access(previousWorktree)).rejects.toThrow();
+      expect(git('branch --list feature/form')).toBe('');
+      await expect(fs.access(winner.worktreePath)).resolves.toBeUndefined();
+    });
+
+    it('should record failed candidates without stopping the others', async () => {
+      const runAgent = (service as any).runAgent;
+      (service as any).runAgent = vi.fn(async (...args: any[]) => {
+        if (args[6].includes('opus')) {
+          throw new Error('Model overloaded');
+        }
+        return runAgent(...args);
+      });
+
+      await service.runCompetition(projectPath, 'feature-1', contenders);
+
+      const feature = await readFeature();
+      expect(feature.competition?.candidates.map((c) => c.status)).toEqual(['failed', 'completed']);
+      expect(feature.competition?.candidates[0].error).toContain('Model overloaded');
+      await expect(
+        service.promoteCompetitionWinner(
+          projectPath,
+          'feature-1',
+          feature.competition!.candidates[0].id
+        )
+      ).rejects.toThrow('cannot be promoted');
+    });
+
+    it('should refuse to start with fewer than two contenders', async () => {
+      await service.runCompetition(projectPath, 'feature-1', [{ model: 'opus' }]);
+
+      expect((service as any).runAgent).not.toHaveBeenCalled();
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({
+          type: 'auto_mode_error',
+          error: expect.stringContaining('at least two contenders'),
+        })
+      );
+    });
+
+    it('should remove every candidate when the competition is discarded', async () => {
+      await service.runCompetition(projectPath, 'feature-1', contenders);
+      const { candidates } = (await readFeature()).competition!;
+
+      await service.discardCompetition(projectPath, 'feature-1');
+
+      const feature = await readFeature();
+      expect(feature.competition).toBeUndefined();
+      expect(feature.status).toBe('backlog');
+      for (const candidate of candidates) {
+        await expect(fs.access(candidate.worktreePath)).rejects.toThrow();
+      }
+    });
+  });
+
+  describe('review follow-ups', () => {
+    let projectPath: string;
+
+    const featureDir = () => path.join(projectPath, '.automaker', 'features', 'feature-1');
+    const readFeature = async (): Promise<Feature> =>
+      JSON.parse(await fs.readFile(path.join(featureDir(), 'feature.json'), 'utf-8'));
+    const git = (command: string) =>
+      execSync(`git ${command}`, { cwd: projectPath, encoding: 'utf-8' }).trim();
+    const comment = (overrides: Partial<ReviewComment>): ReviewComment => ({
+      id: 'RC1',
+      filePath: 'app.ts',
+      side: 'new',
+      startLine: 1,
+      endLine: 1,
+      lines: ['const retries = 3;'],
+      body: 'Read this from config',
+      status: 'draft',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      ...overrides,
+    });
+
+    beforeEach(async () => {
+      projectPath = await fs.realpath(
+        await fs.mkdtemp(path.join(os.tmpdir(), 'automaker-review-'))
+      );
+      git('init -q');
+      git('config user.email test@example.com');
+      git('config user.name Test');
+      await fs.writeFile(path.join(projectPath, '.gitignore'), '.automaker/\n');
+      await fs.writeFile(path.join(projectPath, 'app.ts'), 'run();\n');
+      git('add -A');
+      git('commit -q -m initial');
+      // The feature's uncommitted changes that the reviewer commented on
+      await fs.writeFile(
+        path.join(projectPath, 'app.ts'),
+        'const retries = 3;\nconst delay = 100;\nrun();\n'
+      );
+
+      await fs.mkdir(featureDir(), { recursive: true });
+      await fs.writeFile(
+        path.join(featureDir(), 'feature.json'),
+        JSON.stringify({
+          id: 'feature-1',
+          title: 'Retries',
+          description: 'Retry failed runs',
+          category: 'Core',
+          status: 'waiting_approval',
+        })
+      );
+
+      // The follow-up addresses the retries comment but leaves the delay alone
+      (service as any).runAgent = vi.fn(async () => {
+        await fs.writeFile(
+          path.join(projectPath, 'app.ts'),
+          'const retries = config.retries;\nconst delay = 100;\nrun();\n'
+        );
+      });
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('should send each comment to the follow-up and resolve them from the new diff', async () => {
+      await service.submitReview(
+        projectPath,
+        'feature-1',
+        [
+          comment({}),
+          comment({
+            id: 'RC2',
+            startLine: 2,
+            endLine: 2,
+            lines: ['const delay = 100;'],
+            body: 'Use a constant',
+          }),
+        ],
+        false
+      );
+
+      const runAgentMock = (service as any).runAgent as ReturnType<typeof vi.fn>;
+      expect(runAgentMock).toHaveBeenCalledTimes(1);
+      const prompt = runAgentMock.mock.calls[0][2] as string;
+      expect(prompt).toContain('### RC1: app.ts, line 1');
+      expect(prompt).toContain('> const delay = 100;\n\nUse a constant');
+
+      const feature = await readFeature();
+      expect(feature.status).toBe('verified');
+      expect(feature.reviewComments?.map((c) => [c.id, c.status])).toEqual([
+        ['RC1', 'resolved'],
+        ['RC2', 'unresolved'],
+      ]);
+      expect(feature.reviewComments?.[0].resolvedAt).toBeDefined();
+      expect(mockEvents.emit).toHaveBeenCalledWith(
+        'auto-mode:event',
+        expect.objectContaining({
+          type: 'review_comments_resolved',
+          featureId: 'feature-1',
+          resolved: 1,
+          unresolved: 1,
+        })
+      );
+    });
+
+    it('should fall back to the next model when the follow-up runs out of quota', async () => {
+      (service as any).getRetryPolicy = vi
+        .fn()
+        .mockResolvedValue(resolveRetryPolicy({ fallbackModels: ['sonnet'] }));
+      const runAgent = (service as any).runAgent;
+      (service as any).runAgent = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Usage limit reached'))
+        .mockImplementation(runAgent);
+
+      await service.submitReview(projectPath, 'feature-1', [comment({})], false);
+
+      const runAgentMock = (service as any).runAgent as ReturnType<typeof vi.fn>;
+      expect(runAgentMock).toHaveBeenCalledTimes(2);
+      expect(runAgentMock.mock.calls[1][6]).toContain('sonnet');
+      const feature = await readFeature();
+      expect(feature.status).toBe('verified');
+      expect(feature.reviewComments?.[0].status).toBe('resolved');
+    });
+
+    it('should replace resubmitted comments and keep earlier resolved ones', async () => {
+      await service.submitReview(projectPath, 'feature-1', [comment({})], false);
+
+      const resubmitted = comment({ id: 'RC2', lines: ['const delay = 100;'] });
+      await service.submitReview(
+        projectPath,
+        'feature-1',
+        [{ ...resubmitted, status: 'unresolved' }],
+        false
+      );
+
+      const feature = await readFeature();
+      expect(feature.reviewComments?.map((c) => [c.id, c.status])).toEqual([
+        ['RC1', 'resolved'],
+        ['RC2', 'unresolved'],
+      ]);
+    });
+
+    it('should resolve against the branch diff when the follow-up commits', async () => {
+      git('checkout -q -b feature/retries');
+      (service as any).runAgent = vi.fn(async () => {
+        await fs.writeFile(
+          path.join(projectPath, 'app.ts'),
+          'const retries = config.retries;\nconst delay = 100;\nrun();\n'
+        );
+        git('add -A');
+        git('commit -q -m retries');
+      });
+
+      await service.submitReview(
+        projectPath,
+        'feature-1',
+        [comment({}), comment({ id: 'RC2', lines: ['const delay = 100;'] })],
+        false
+      );
+
+      const feature = await readFeature();
+      expect(feature.reviewComments?.map((c) => [c.id, c.status])).toEqual([
+        ['RC1', 'resolved'],
+        ['RC2', 'unresolved'],
+      ]);
+    });
+
+    it('should return comments to draft when the follow-up fails', async () => {
+      (service as any).runAgent = vi.fn(async () => {
+        throw new Error('Agent crashed');
+      });
+
+      await service.submitReview(projectPath, 'feature-1', [comment({})], false);
+
+      const feature = await readFeature();
+      expect(feature.reviewComments?.map((c) => [c.id, c.status])).toEqual([['RC1', 'draft']]);
+      expect(feature.reviewComments?.[0].submittedAt).toBeUndefined();
+    });
+  });
+
+  describe('scheduler state', () => {
+    let projectPath: string;
+    const scheduler = {
+      activeRuns: [
+        {
+          scheduleId: 'nightly',
+          branchName: null,
+          occurrence: '2026-03-02T22:00:00.000Z',
+          stopAt: '2026-03-03T06:00:00.000Z',
+          startedLoop: true,
+        },
+      ],
+      lastJobRuns: { analysis: '2026-03-02T03:00:00.000Z' },
+    };
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'automaker-scheduler-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('should return empty state when nothing was saved', async () => {
+      expect(await service.getSchedulerState(projectPath)).toEqual({
+        activeRuns: [],
+        lastJobRuns: {},
+      });
+    });
+
+    it('should keep scheduler state across auto loop saves and clears', async () => {
+      await service.saveSchedulerState(projectPath, scheduler);
+
+      const svc = service as any;
+      await svc.saveExecutionStateForProject(projectPath, null, 2);
+      expect(await service.getSchedulerState(projectPath)).toEqual(scheduler);
+
+      await svc.clearExecutionState(projectPath, null);
+      expect(await service.getSchedulerState(projectPath)).toEqual(scheduler);
+      const state = JSON.parse(
+        await fs.readFile(path.join(projectPath, '.automaker', 'execution-state.json'), 'utf-8')
+      );
+      expect(state.autoLoopWasRunning).toBe(false);
+    });
+
+    it('should still delete execution state without scheduler state', async () => {
+      const svc = service as any;
+      await svc.saveExecutionStateForProject(projectPath, null, 2);
+      await svc.clearExecutionState(projectPath, null);
+
+      await expect(
+        fs.access(path.join(projectPath, '.automaker', 'execution-state.json'))
+      ).rejects.toThrow();
+    });
+  });
 });
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Feature } from '@automaker/types';
+import { BoardMcpService, BOARD_MCP_TOOLS } from '@/services/board-mcp-service.js';
+import type { FeatureLoader } from '@/services/feature-loader.js';
+import type { AutoModeService } from '@/services/auto-mode-service.js';
+import type { EventEmitter } from '@/lib/events.js';
+
+describe('board-mcp-service.ts', () => {
+  let projectPath: string;
+  let features: Map<string, Feature>;
+  let featureLoader: FeatureLoader;
+  let autoModeService: AutoModeService;
+  let events: EventEmitter;
+  let service: BoardMcpService;
+
+  const textOf = (result: CallToolResult) =>
+    result.content.map((item) => (item.type === 'text' ? item.text : '')).join('');
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'board-mcp-'));
+    features = new Map([
+      ['f1', { id: 'f1', title: 'Login', description: 'Add login', category: 'Auth' }],
+      [
+        'f2',
+        {
+          id: 'f2',
+          title: 'Docs',
+          description: 'Write docs',
+          category: 'Docs',
+          status: 'verified',
+        },
+      ],
+    ]);
+
+    featureLoader = {
+      getAll: vi.fn(async () => [...features.values()]),
+      get: vi.fn(async (_path: string, id: string) => features.get(id) ?? null),
+      findDuplicateTitle: vi.fn(
+        async (_path: string, title: string) =>
+          [...features.values()].find((f) => f.title === title) ?? null
+      ),
+      create: vi.fn(async (_path: string, data: Partial<Feature>) => {
+        const feature = { ...data, id: 'f3' } as Feature;
+        features.set(feature.id, feature);
+        return feature;
+      }),
+      update: vi.fn(async (_path: string, id: string, updates: Partial<Feature>) => {
+        const feature = { ...features.get(id)!, ...updates };
+        features.set(id, feature);
+        return feature;
+      }),
+      getAgentOutput: vi.fn(async () => '## Done'),
+    } as unknown as FeatureLoader;
+    autoModeService = {
+      isFeatureRunning: vi.fn(() => false),
+      isAutoLoopRunningForProject: vi.fn(() => false),
+      startAutoLoopForProject: vi.fn(async () => 2),
+      stopAutoLoopForProject: vi.fn(async () => 0),
+    } as unknown as AutoModeService;
+    events = { emit: vi.fn(), subscribe: vi.fn() };
+    service = new BoardMcpService(featureLoader, autoModeService, events);
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should serve the board tools to MCP clients', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await service.createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(BOARD_MCP_TOOLS.map((tool) => tool.name));
+
+    const result = (await client.callTool({
+      name: 'list_features',
+      arguments: { projectPath, status: 'verified' },
+    })) as CallToolResult;
+    expect(JSON.parse(textOf(result))).toEqual([
+      expect.objectContaining({ id: 'f2', status: 'verified' }),
+    ]);
+
+    await client.close();
+  });
+
+  it('should create backlog features and tell the UI', async () => {
+    const result = await service.callTool('create_feature', {
+      projectPath,
+      title: 'Search',
+      description: 'Add search',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(featureLoader.create).toHaveBeenCalledWith(
+      projectPath,
+      expect.objectContaining({ description: 'Add search', status: 'backlog' })
+    );
+    expect(events.emit).toHaveBeenCalledWith('feature:created', expect.anything());
+    expect(events.emit).toHaveBeenCalledWith('auto-mode:event', {
+      type: 'board_updated_externally',
+      featureId: 'f3',
+      projectPath,
+    });
+  });
+
+  it('should reject duplicate titles', async () => {
+    const result = await service.callTool('create_feature', {
+      projectPath,
+      title: 'Login',
+      description: 'Again',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('already exists');
+    expect(featureLoader.create).not.toHaveBeenCalled();
+  });
+
+  it('should update status, refusing unknown statuses and running features', async () => {
+    const moved = await service.callTool('update_feature_status', {
+      projectPath,
+      featureId: 'f1',
+      status: 'waiting_approval',
+    });
+    expect(JSON.parse(textOf(moved))).toMatchObject({ id: 'f1', status: 'waiting_approval' });
+
+    const invalid = await service.callTool('update_feature_status', {
+      projectPath,
+      featureId: 'f1',
+      status: 'done',
+    });
+    expect(invalid.isError).toBe(true);
+
+    vi.mocked(autoModeService.isFeatureRunning).mockReturnValue(true);
+    const running = await service.callTool('update_feature_status', {
+      projectPath,
+      featureId: 'f1',
+      status: 'backlog',
+    });
+    expect(running.isError).toBe(true);
+    expect(featureLoader.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let clients skip the acceptance judge', async () => {
+    const verified = await service.callTool('update_feature_status', {
+      projectPath,
+      featureId: 'f1',
+      status: 'verified',
+    });
+    expect(verified.isError).toBe(true);
+
+    const completedEarly = await service.callTool('update_feature_status', {
+      projectPath,
+      featureId: 'f1',
+      status: 'completed',
+    });
+    expect(completedEarly.isError).toBe(true);
+    expect(textOf(completedEarly)).toContain('Only verified features can be completed');
+
+    const archived = await service.callTool('update_feature_status', {
+      projectPath,
+      featureId: 'f2',
+      status: 'completed',
+    });
+    expect(JSON.parse(textOf(archived))).toMatchObject({ id: 'f2', status: 'completed' });
+    expect(featureLoader.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report missing features and arguments as tool errors', async () => {
+    const missing = await service.callTool('get_agent_output', { projectPath, featureId: 'nope' });
+    expect(textOf(missing)).toBe('Feature nope not found');
+
+    const noPath = await service.callTool('list_features', {});
+    expect(textOf(noPath)).toBe('projectPath is required');
+  });
+
+  it('should start auto mode unless it is already running', async () => {
+    const started = await service.callTool('start_auto_mode', { projectPath, maxConcurrency: 2 });
+    expect(textOf(started)).toBe('Auto mode started with max 2 concurrent features');
+    expect(autoModeService.startAutoLoopForProject).toHaveBeenCalledWith(projectPath, null, 2);
+
+    vi.mocked(autoModeService.isAutoLoopRunningForProject).mockReturnValue(true);
+    const again = await service.callTool('start_auto_mode', { projectPath });
+    expect(textOf(again)).toBe('Auto mode is already running');
+    expect(autoModeService.startAutoLoopForProject).toHaveBeenCalledTimes(1);
+  });
+
+  it('should append learnings to project memory', async () => {
+    const result = await service.callTool('add_memory', {
+      projectPath,
+      category: 'testing',
+      type: 'gotcha',
+      content: 'Run the e2e suite serially',
+    });
+
+    expect(result.isError).toBeUndefined();
+    const memory = await fs.readFile(
+      path.join(projectPath, '.automaker', 'memory', 'testing.md'),
+      'utf-8'
+    );
+    expect(memory).toContain('Run the e2e suite serially');
+  });
+});
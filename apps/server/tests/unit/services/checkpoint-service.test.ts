@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { execSync } from 'child_process';
+import { CheckpointService } from '@/services/checkpoint-service.js';
+
+describe('checkpoint-service.ts', () => {
+  let repoDir: string;
+  let service: CheckpointService;
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, { cwd: repoDir, encoding: 'utf-8' }).trim();
+  const read = (file: string) => fs.readFile(path.join(repoDir, file), 'utf-8');
+  const exists = (file: string) =>
+    fs.access(path.join(repoDir, file)).then(
+      () => true,
+      () => false
+    );
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoint-test-'));
+    git('init -q');
+    git('config user.email test@example.com');
+    git('config user.name Test');
+    await fs.writeFile(path.join(repoDir, 'app.ts'), 'v1');
+    git('add -A');
+    git('commit -q -m initial');
+    service = new CheckpointService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  describe('createCheckpoint', () => {
+    it('should return null when the directory has no commits', async () => {
+      const emptyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoint-empty-'));
+      try {
+        const checkpoint = await service.createCheckpoint(emptyDir, 'feature-1', emptyDir, {
+          kind: 'task',
+          label: 'Before task T001',
+          featureStatus: 'in_progress',
+        });
+        expect(checkpoint).toBeNull();
+      } finally {
+        await fs.rm(emptyDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should snapshot uncommitted changes without touching the index or branch', async () => {
+      await fs.writeFile(path.join(repoDir, 'app.ts'), 'v2');
+      await fs.writeFile(path.join(repoDir, 'new.ts'), 'new');
+      const headBefore = git('rev-parse HEAD');
+
+      const checkpoint = await service.createCheckpoint(repoDir, 'feature-1', repoDir, {
+        kind: 'task',
+        label: 'Before task T001',
+        taskId: 'T001',
+        featureStatus: 'in_progress',
+        agentOutput: 'output so far',
+      });
+
+      expect(checkpoint).toMatchObject({
+        kind: 'task',
+        taskId: 'T001',
+        head: headBefore,
+        workDir: repoDir,
+        featureStatus: 'in_progress',
+      });
+      expect(git('rev-parse HEAD')).toBe(headBefore);
+      expect(git('status --porcelain')).toContain('?? new.ts');
+      expect(git(`show ${checkpoint!.commit}:app.ts`)).toBe('v2');
+      expect(git(`show ${checkpoint!.commit}:new.ts`)).toBe('new');
+      expect(git(`rev-parse ${service.getCheckpointRef('feature-1', checkpoint!.id)}`)).toBe(
+        checkpoint!.commit
+      );
+    });
+
+    it('should leave Automaker data out of the snapshot', async () => {
+      const checkpoint = await service.createCheckpoint(repoDir, 'feature-1', repoDir, {
+        kind: 'follow_up',
+        label: 'Before follow-up',
+        featureStatus: 'waiting_approval',
+        agentOutput: 'previous output',
+      });
+
+      const files = git(`ls-tree -r --name-only ${checkpoint!.commit}`).split('\n');
+      expect(files).toEqual(['app.ts']);
+      expect(await service.listCheckpoints(repoDir, 'feature-1')).toHaveLength(1);
+    });
+
+    it('should snapshot a project whose Automaker data is gitignored', async () => {
+      await fs.writeFile(path.join(repoDir, '.gitignore'), '.automaker/\n.worktrees/\n');
+      await fs.mkdir(path.join(repoDir, '.worktrees'));
+      await fs.writeFile(path.join(repoDir, 'app.ts'), 'v2');
+
+      const checkpoint = await service.createCheckpoint(repoDir, 'feature-1', repoDir, {
+        kind: 'task',
+        label: 'Before task T001',
+        featureStatus: 'in_progress',
+        agentOutput: 'output so far',
+      });
+
+      expect(git(`show ${checkpoint!.commit}:app.ts`)).toBe('v2');
+      expect(git(`ls-tree -r --name-only ${checkpoint!.commit}`).split('\n')).toEqual([
+        '.gitignore',
+        'app.ts',
+      ]);
+    });
+  });
+
+  describe('restoreCheckpoint', () => {
+    it('should restore files, remove new ones and keep Automaker data', async () => {
+      await fs.writeFile(path.join(repoDir, 'app.ts'), 'v2');
+      const checkpoint = await service.createCheckpoint(repoDir, 'feature-1', repoDir, {
+        kind: 'pipeline_step',
+        label: 'Before pipeline step "Review"',
+        stepId: 'step-1',
+        featureStatus: 'pipeline_step-1',
+        agentOutput: 'before review',
+      });
+
+      await fs.writeFile(path.join(repoDir, 'app.ts'), 'v3');
+      await fs.writeFile(path.join(repoDir, 'later.ts'), 'later');
+      git('add -A');
+      git('commit -q -m later');
+
+      const { agentOutput } = await service.restoreCheckpoint(repoDir, checkpoint!);
+
+      expect(agentOutput).toBe('before review');
+      expect(git('rev-parse HEAD')).toBe(checkpoint!.head);
+      expect(await read('app.ts')).toBe('v2');
+      expect(await exists('later.ts')).toBe(false);
+      expect(await exists('.automaker/features/feature-1/checkpoints.json')).toBe(true);
+    });
+
+    it('should refuse to restore onto another branch', async () => {
+      const checkpoint = await service.createCheckpoint(repoDir, 'feature-1', repoDir, {
+        kind: 'task',
+        label: 'Before task T001',
+        featureStatus: 'in_progress',
+      });
+      git('checkout -q -b other');
+      await fs.writeFile(path.join(repoDir, 'other.ts'), 'other work');
+
+      await expect(service.restoreCheckpoint(repoDir, checkpoint!)).rejects.toThrow(
+        'has other checked out'
+      );
+      expect(await read('other.ts')).toBe('other work');
+    });
+
+    it('should return null agent output when none was saved', async () => {
+      const checkpoint = await service.createCheckpoint(repoDir, 'feature-1', repoDir, {
+        kind: 'task',
+        label: 'Before task T001',
+        featureStatus: 'in_progress',
+      });
+
+      const { agentOutput } = await service.restoreCheckpoint(repoDir, checkpoint!);
+      expect(agentOutput).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { execSync } from 'child_process';
+import { CompetitionService } from '@/services/competition-service.js';
+
+describe('competition-service.ts', () => {
+  let repoDir: string;
+  let service: CompetitionService;
+
+  const git = (command: string, cwd = repoDir) =>
+    execSync(`git ${command}`, { cwd, encoding: 'utf-8' }).trim();
+  const exists = (target: string) =>
+    fs.access(target).then(
+      () => true,
+      () => false
+    );
+
+  beforeEach(async () => {
+    repoDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'competition-test-')));
+    git('init -q');
+    git('config user.email test@example.com');
+    git('config user.name Test');
+    await fs.writeFile(path.join(repoDir, 'app.ts'), 'line 1\nline 2\n');
+    git('add -A');
+    git('commit -q -m initial');
+    service = new CompetitionService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  describe('getCandidateBranchName', () => {
+    it('should namespace candidate branches by sanitized feature ID', () => {
+      expect(service.getCandidateBranchName('feature/1 a', 'c1')).toBe(
+        'competition/feature-1-a/c1'
+      );
+    });
+  });
+
+  describe('createCandidateWorktree', () => {
+    it('should create a worktree under .worktrees on a new branch', async () => {
+      const worktreePath = await service.createCandidateWorktree(
+        repoDir,
+        'competition/f1/c1',
+        null
+      );
+
+      expect(worktreePath).toBe(path.join(repoDir, '.worktrees', 'competition-f1-c1'));
+      expect(git('rev-parse --abbrev-ref HEAD', worktreePath)).toBe('competition/f1/c1');
+      expect(await fs.readFile(path.join(worktreePath, 'app.ts'), 'utf-8')).toBe(
+        'line 1\nline 2\n'
+      );
+    });
+
+    it('should start from the base branch', async () => {
+      git('checkout -q -b feature/base');
+      await fs.writeFile(path.join(repoDir, 'base.ts'), 'base');
+      git('add -A');
+      git('commit -q -m base');
+      git('checkout -q -');
+
+      const worktreePath = await service.createCandidateWorktree(
+        repoDir,
+        'competition/f1/c1',
+        'feature/base'
+      );
+
+      expect(await exists(path.join(worktreePath, 'base.ts'))).toBe(true);
+    });
+
+    it('should replace a leftover worktree for the same branch', async () => {
+      const first = await service.createCandidateWorktree(repoDir, 'competition/f1/c1', null);
+      await fs.writeFile(path.join(first, 'stale.ts'), 'stale');
+
+      const second = await service.createCandidateWorktree(repoDir, 'competition/f1/c1', null);
+
+      expect(second).toBe(first);
+      expect(await exists(path.join(second, 'stale.ts'))).toBe(false);
+    });
+  });
+
+  describe('getDiffStats', () => {
+    it('should count changed files and lines including untracked files', async () => {
+      const worktreePath = await service.createCandidateWorktree(
+        repoDir,
+        'competition/f1/c1',
+        null
+      );
+      await fs.writeFile(path.join(worktreePath, 'app.ts'), 'line 1\nline 2 changed\nline 3\n');
+      await fs.writeFile(path.join(worktreePath, 'new.ts'), 'new\n');
+
+      expect(await service.getDiffStats(worktreePath)).toEqual({
+        filesChanged: 2,
+        additions: 3,
+        deletions: 1,
+      });
+    });
+  });
+
+  describe('runTests', () => {
+    it('should skip tests without a test command', async () => {
+      const result = await service.runTests(repoDir, undefined);
+
+      expect(result.status).toBe('skipped');
+    });
+
+    it('should report passing and failing test commands with their output', async () => {
+      const passed = await service.runTests(repoDir, 'echo all good');
+      expect(passed).toMatchObject({ status: 'passed', exitCode: 0, command: 'echo all good' });
+      expect(passed.output).toContain('all good');
+
+      const failed = await service.runTests(repoDir, 'sleep 0.3; exit 3');
+      expect(failed).toMatchObject({ status: 'failed', exitCode: 3 });
+    });
+  });
+
+  describe('removeCandidateWorktree', () => {
+    it('should remove the worktree and its branch', async () => {
+      const worktreePath = await service.createCandidateWorktree(
+        repoDir,
+        'competition/f1/c1',
+        null
+      );
+      await fs.writeFile(path.join(worktreePath, 'dirty.ts'), 'dirty');
+
+      await service.removeCandidateWorktree(repoDir, worktreePath, 'competition/f1/c1');
+
+      expect(await exists(worktreePath)).toBe(false);
+      expect(git('branch --list competition/f1/c1')).toBe('');
+    });
+
+    it('should ignore candidates that have no worktree', async () => {
+      await expect(
+        service.removeCandidateWorktree(
+          repoDir,
+          path.join(repoDir, '.worktrees', 'missing'),
+          'competition/f1/missing'
+        )
+      ).resolves.toBeUndefined();
+    });
+  });
+});
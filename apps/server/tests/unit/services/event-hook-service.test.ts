@@ -0,0 +1,315 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import type { EventHook, EventHookDelivery, Feature } from '@automaker/types';
+import {
+  EventHookService,
+  getHookTriggers,
+  matchesEventHookFilters,
+  type HookContext,
+} from '@/services/event-hook-service.js';
+import { EventHistoryService } from '@/services/event-history-service.js';
+import { WebhookOutboxService } from '@/services/webhook-outbox-service.js';
+import type { FeatureLoader } from '@/services/feature-loader.js';
+import type { SettingsService } from '@/services/settings-service.js';
+import { createEventEmitter } from '@/lib/events.js';
+
+describe('event-hook-service.ts', () => {
+  describe('getHookTriggers', () => {
+    it('maps auto mode events to triggers', () => {
+      expect(getHookTriggers('auto-mode:event', { type: 'pipeline_step_complete' })).toEqual([
+        'pipeline_step_completed',
+      ]);
+      expect(getHookTriggers('auto-mode:event', { type: 'plan_auto_approved' })).toEqual([
+        'plan_generated',
+        'plan_approved',
+      ]);
+      expect(getHookTriggers('auto-mode:event', { type: 'auto_mode_progress' })).toEqual([]);
+    });
+
+    it('only fires for failed test runs and crashed dev servers', () => {
+      expect(getHookTriggers('test-runner:completed', { status: 'failed' })).toEqual([
+        'test_run_failed',
+      ]);
+      expect(getHookTriggers('test-runner:completed', { status: 'passed' })).toEqual([]);
+      expect(getHookTriggers('dev-server:stopped', { crashed: true })).toEqual([
+        'dev_server_crashed',
+      ]);
+      expect(getHookTriggers('dev-server:stopped', { exitCode: null })).toEqual([]);
+    });
+  });
+
+  describe('matchesEventHookFilters', () => {
+    const context: HookContext = {
+      eventType: 'feature_error',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      category: 'Backend',
+      branchName: 'feature/login',
+      errorType: 'rate_limit',
+    };
+
+    it('compares case-insensitively', () => {
+      expect(
+        matchesEventHookFilters(
+          [
+            { field: 'category', operator: 'equals', value: 'backend' },
+            { field: 'branchName', operator: 'contains', value: 'LOGIN' },
+            { field: 'errorType', operator: 'not_equals', value: 'authentication' },
+          ],
+          context
+        )
+      ).toBe(true);
+      expect(
+        matchesEventHookFilters([{ field: 'category', operator: 'equals', value: 'ui' }], context)
+      ).toBe(false);
+    });
+
+    it('supports regular expressions and missing fields', () => {
+      expect(
+        matchesEventHookFilters(
+          [{ field: 'branchName', operator: 'matches', value: '^feature/' }],
+          context
+        )
+      ).toBe(true);
+      expect(
+        matchesEventHookFilters([{ field: 'model', operator: 'equals', value: 'opus' }], context)
+      ).toBe(false);
+      expect(
+        matchesEventHookFilters(
+          [{ field: 'model', operator: 'not_equals', value: 'opus' }],
+          context
+        )
+      ).toBe(true);
+      expect(
+        matchesEventHookFilters([{ field: 'category', operator: 'matches', value: '(' }], context)
+      ).toBe(false);
+    });
+  });
+
+  describe('hook execution', () => {
+    let hooks: EventHook[];
+    let service: EventHookService;
+    let events: ReturnType<typeof createEventEmitter>;
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let recordDeliveries: ReturnType<typeof vi.fn>;
+    let storeEvent: ReturnType<typeof vi.fn>;
+    let dataDir: string;
+    let outbox: WebhookOutboxService;
+
+    beforeEach(async () => {
+      hooks = [];
+      events = createEventEmitter();
+      fetchMock = vi.fn(async () => new Response('ok'));
+      dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'event-hooks-outbox-'));
+      outbox = new WebhookOutboxService(dataDir, { fetch: fetchMock as unknown as typeof fetch });
+      await outbox.start();
+      storeEvent = vi.fn(async () => ({ id: 'evt-1' }));
+      recordDeliveries = vi.fn(async () => true);
+
+      const feature = {
+        id: 'f1',
+        title: 'Fix login',
+        category: 'Backend',
+        branchName: 'feature/login',
+        model: 'opus',
+      } as Feature;
+
+      service = new EventHookService();
+      service.initialize(
+        events,
+        {
+          getGlobalSettings: vi.fn(async () => ({ eventHooks: hooks })),
+        } as unknown as SettingsService,
+        { storeEvent, recordDeliveries } as unknown as EventHistoryService,
+        { get: vi.fn(async () => feature) } as unknown as FeatureLoader,
+        outbox
+      );
+    });
+
+    afterEach(async () => {
+      service.destroy();
+      outbox.stop();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    const httpHook = (overrides: Partial<EventHook> = {}): EventHook => ({
+      id: 'hook-1',
+      name: 'Webhook',
+      trigger: 'pipeline_step_completed',
+      enabled: true,
+      action: {
+        type: 'http',
+        url: 'https://hooks.test/{{stepName}}',
+        method: 'POST',
+        retry: { maxAttempts: 3, backoffMs: 1 },
+      },
+      ...overrides,
+    });
+
+    const emitStepComplete = () =>
+      events.emit('auto-mode:event', {
+        type: 'pipeline_step_complete',
+        featureId: 'f1',
+        stepName: 'review',
+        verdict: 'fail',
+        projectPath: '/work/my-app',
+      });
+
+    it('runs hooks whose filters match the feature and records the delivery', async () => {
+      hooks = [
+        httpHook({ filters: [{ field: 'category', operator: 'equals', value: 'backend' }] }),
+        httpHook({
+          id: 'hook-2',
+          filters: [{ field: 'model', operator: 'equals', value: 'sonnet' }],
+        }),
+      ];
+
+      emitStepComplete();
+
+      await vi.waitFor(() => expect(recordDeliveries).toHaveBeenCalled());
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://hooks.test/review');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        eventType: 'pipeline_step_completed',
+        featureName: 'Fix login',
+        branchName: 'feature/login',
+        verdict: 'fail',
+      });
+      expect(storeEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          trigger: 'pipeline_step_completed',
+          metadata: expect.objectContaining({ stepName: 'review', category: 'Backend' }),
+        })
+      );
+
+      const [, eventId, deliveries] = recordDeliveries.mock.calls[0];
+      expect(eventId).toBe('evt-1');
+      expect(deliveries).toEqual([
+        expect.objectContaining({
+          hookId: 'hook-1',
+          actionType: 'http',
+          success: true,
+          attempts: 1,
+          statusCode: 200,
+        }),
+      ]);
+    });
+
+    it('retries server errors through the outbox and records the final status', async () => {
+      fetchMock.mockImplementation(async () => new Response('down', { status: 503 }));
+      hooks = [httpHook()];
+
+      emitStepComplete();
+
+      await vi.waitFor(() => expect(recordDeliveries).toHaveBeenCalledTimes(2));
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const [first]: EventHookDelivery[] = recordDeliveries.mock.calls[0][2];
+      expect(first).toMatchObject({ success: false, attempts: 1, pending: true });
+      const [last]: EventHookDelivery[] = recordDeliveries.mock.calls[1][2];
+      expect(last).toMatchObject({
+        deliveryId: first.deliveryId,
+        success: false,
+        attempts: 3,
+        statusCode: 503,
+        error: expect.stringContaining('HTTP 503'),
+      });
+      expect(last.pending).toBeUndefined();
+    });
+
+    it('does not retry client errors', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('bad', { status: 400 }));
+      hooks = [httpHook()];
+
+      emitStepComplete();
+
+      await vi.waitFor(() => expect(recordDeliveries).toHaveBeenCalled());
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(recordDeliveries.mock.calls[0][2][0]).toMatchObject({
+        success: false,
+        attempts: 1,
+        statusCode: 400,
+      });
+    });
+
+    it('recovers after a network error', async () => {
+      fetchMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+      hooks = [httpHook()];
+
+      emitStepComplete();
+
+      await vi.waitFor(() => expect(recordDeliveries).toHaveBeenCalledTimes(2));
+      expect(recordDeliveries.mock.calls[1][2][0]).toMatchObject({
+        success: true,
+        attempts: 2,
+        statusCode: 200,
+      });
+    });
+
+    it('runs hooks subscribed to a server event type', async () => {
+      hooks = [
+        httpHook({
+          trigger: 'worktree:pushed',
+          action: { type: 'http', url: 'https://hooks.test/{{branch}}', method: 'POST' },
+        }),
+      ];
+
+      events.emit('worktree:pushed', { branch: 'feature-x', projectPath: '/work/my-app' });
+      events.emit('dev-server:output', { content: 'ready', projectPath: '/work/my-app' });
+
+      await vi.waitFor(() => expect(recordDeliveries).toHaveBeenCalled());
+      expect(fetchMock.mock.calls[0][0]).toBe('https://hooks.test/feature-x');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        eventType: 'worktree:pushed',
+      });
+      // Event types no hook listens to are not stored
+      expect(storeEvent).toHaveBeenCalledTimes(1);
+      expect(storeEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ trigger: 'worktree:pushed' })
+      );
+    });
+  });
+
+  describe('delivery history', () => {
+    let projectPath: string;
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'event-hooks-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('stores deliveries on the event and counts failures in the index', async () => {
+      const history = new EventHistoryService();
+      const event = await history.storeEvent({ trigger: 'test_run_failed', projectPath });
+      const delivery: EventHookDelivery = {
+        hookId: 'hook-1',
+        actionType: 'http',
+        timestamp: new Date().toISOString(),
+        success: false,
+        attempts: 3,
+        statusCode: 502,
+        error: 'HTTP 502',
+        durationMs: 12,
+      };
+
+      await expect(history.recordDeliveries(projectPath, event.id, [delivery])).resolves.toBe(true);
+
+      expect((await history.getEvent(projectPath, event.id))?.deliveries).toEqual([delivery]);
+      const [summary] = await history.getEvents(projectPath);
+      expect(summary.deliveries).toEqual({ total: 1, failed: 1, pending: 0 });
+
+      // A later result for the same outbox delivery replaces the earlier one
+      const queued = { ...delivery, deliveryId: 'whd-1', pending: true };
+      await history.recordDeliveries(projectPath, event.id, [queued]);
+      await history.recordDeliveries(projectPath, event.id, [
+        { ...queued, pending: undefined, success: true, statusCode: 200 },
+      ]);
+      const [updated] = await history.getEvents(projectPath);
+      expect(updated.deliveries).toEqual({ total: 2, failed: 1, pending: 0 });
+      await expect(history.recordDeliveries(projectPath, 'evt-missing', [])).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FeaturePromptService } from '@/services/feature-prompt-service.js';
+
+describe('feature-prompt-service.ts', () => {
+  let testProjectDir: string;
+  let service: FeaturePromptService;
+
+  beforeEach(async () => {
+    testProjectDir = path.join(os.tmpdir(), `feature-prompt-test-${Date.now()}`);
+    await fs.mkdir(path.join(testProjectDir, '.automaker', 'features'), { recursive: true });
+    service = new FeaturePromptService();
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testProjectDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('listPrompts', () => {
+    it('should return an empty list when nothing has been recorded', async () => {
+      expect(await service.listPrompts(testProjectDir, 'feature-1')).toEqual([]);
+    });
+
+    it('should list summaries without prompt text, newest first', async () => {
+      await service.recordPrompt(testProjectDir, 'feature-1', {
+        source: 'implementation',
+        label: 'Implementation',
+        model: 'claude-sonnet-4-5-20250929',
+        prompt: 'Build it',
+      });
+      await service.recordPrompt(testProjectDir, 'feature-1', {
+        source: 'follow_up',
+        label: 'Follow-up',
+        model: 'claude-sonnet-4-5-20250929',
+        systemPrompt: 'Context',
+        prompt: 'Fix it',
+      });
+
+      const prompts = await service.listPrompts(testProjectDir, 'feature-1');
+      expect(prompts.map((p) => p.label)).toEqual(['Follow-up', 'Implementation']);
+      expect(prompts[0]).not.toHaveProperty('prompt');
+      expect(prompts[0]).not.toHaveProperty('systemPrompt');
+    });
+  });
+
+  describe('recordPrompt', () => {
+    it('should store the full record with a token estimate', async () => {
+      const record = await service.recordPrompt(testProjectDir, 'feature-1', {
+        source: 'pipeline_step',
+        label: 'Pipeline step: Review',
+        stepId: 'step-1',
+        model: 'claude-sonnet-4-5-20250929',
+        systemPromptPreset: 'claude_code',
+        systemPrompt: 'a'.repeat(40),
+        prompt: 'b'.repeat(40),
+        budget: { contextWindow: 200000, budgetTokens: 100000, sections: [] },
+      });
+
+      expect(record.estimatedTokens).toBe(20);
+      expect(await service.getPrompt(testProjectDir, 'feature-1', record.id)).toEqual(record);
+    });
+
+    it('should keep only the most recent records', async () => {
+      for (let i = 0; i < 32; i++) {
+        await service.recordPrompt(testProjectDir, 'feature-1', {
+          source: 'implementation',
+          label: `Task ${i}`,
+          model: 'claude-sonnet-4-5-20250929',
+          prompt: `Prompt ${i}`,
+        });
+      }
+
+      const prompts = await service.listPrompts(testProjectDir, 'feature-1');
+      expect(prompts).toHaveLength(30);
+      expect(prompts[0].label).toBe('Task 31');
+      expect(prompts[29].label).toBe('Task 2');
+    });
+  });
+
+  describe('getPrompt', () => {
+    it('should return null for unknown or invalid IDs', async () => {
+      expect(await service.getPrompt(testProjectDir, 'feature-1', 'missing')).toBeNull();
+      expect(await service.getPrompt(testProjectDir, 'feature-1', '../feature')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FeatureUsageService } from '@/services/feature-usage-service.js';
+
+describe('feature-usage-service.ts', () => {
+  let testProjectDir: string;
+  let service: FeatureUsageService;
+
+  beforeEach(async () => {
+    testProjectDir = path.join(os.tmpdir(), `feature-usage-test-${Date.now()}`);
+    await fs.mkdir(path.join(testProjectDir, '.automaker', 'features'), { recursive: true });
+    service = new FeatureUsageService();
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testProjectDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('getUsagePath', () => {
+    it('should place usage.json next to feature.json', () => {
+      const result = service.getUsagePath(testProjectDir, 'feature-1');
+      expect(result).toBe(
+        path.join(testProjectDir, '.automaker', 'features', 'feature-1', 'usage.json')
+      );
+    });
+  });
+
+  describe('getFeatureUsage', () => {
+    it('should return null when nothing has been recorded', async () => {
+      expect(await service.getFeatureUsage(testProjectDir, 'feature-1')).toBeNull();
+    });
+  });
+
+  describe('recordUsage', () => {
+    it('should create usage.json with totals and entries', async () => {
+      const usage = await service.recordUsage(testProjectDir, 'feature-1', {
+        source: 'implementation',
+        model: 'claude-sonnet-4-5-20250929',
+        provider: 'claude',
+        usage: { inputTokens: 100, outputTokens: 50, costUsd: 0.01 },
+      });
+
+      expect(usage.featureId).toBe('feature-1');
+      expect(usage.entries).toHaveLength(1);
+      expect(usage.entries[0].costSource).toBe('provider');
+      expect(usage.totals).toEqual({
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0.01,
+      });
+
+      const stored = JSON.parse(
+        await fs.readFile(service.getUsagePath(testProjectDir, 'feature-1'), 'utf-8')
+      );
+      expect(stored.totals.inputTokens).toBe(100);
+    });
+
+    it('should accumulate totals per source across pipeline steps and follow-ups', async () => {
+      await service.recordUsage(testProjectDir, 'feature-1', {
+        source: 'implementation',
+        model: 'claude-sonnet-4-5-20250929',
+        provider: 'claude',
+        usage: { inputTokens: 100, outputTokens: 10, costUsd: 1 },
+      });
+      await service.recordUsage(testProjectDir, 'feature-1', {
+        source: 'pipeline_step',
+        stepId: 'step_review',
+        stepName: 'Review',
+        model: 'claude-sonnet-4-5-20250929',
+        provider: 'claude',
+        usage: { inputTokens: 200, outputTokens: 20, costUsd: 2 },
+      });
+      const usage = await service.recordUsage(testProjectDir, 'feature-1', {
+        source: 'follow_up',
+        model: 'claude-sonnet-4-5-20250929',
+        provider: 'claude',
+        usage: { inputTokens: 300, outputTokens: 30, costUsd: 3 },
+      });
+
+      expect(usage.entries).toHaveLength(3);
+      expect(usage.entries[1].stepId).toBe('step_review');
+      expect(usage.totals.inputTokens).toBe(600);
+      expect(usage.totals.costUsd).toBeCloseTo(6);
+      expect(usage.bySource.implementation?.costUsd).toBe(1);
+      expect(usage.bySource.pipeline_step?.outputTokens).toBe(20);
+      expect(usage.bySource.follow_up?.inputTokens).toBe(300);
+    });
+
+    it('should keep totals per competition candidate', async () => {
+      await Promise.all(
+        ['c1', 'c2', 'c1'].map((candidateId) =>
+          service.recordUsage(testProjectDir, 'feature-1', {
+            source: 'competition',
+            candidateId,
+            model: 'claude-sonnet-4-5-20250929',
+            provider: 'claude',
+            usage: { inputTokens: 100, outputTokens: 10, costUsd: 1 },
+          })
+        )
+      );
+
+      const usage = await service.getFeatureUsage(testProjectDir, 'feature-1');
+      expect(usage?.entries.map((entry) => entry.candidateId).sort()).toEqual(['c1', 'c1', 'c2']);
+      expect(usage?.bySource.competition?.costUsd).toBe(3);
+      expect(usage?.byCandidate?.c1.inputTokens).toBe(200);
+      expect(usage?.byCandidate?.c2.inputTokens).toBe(100);
+    });
+
+    it('should estimate cost when the provider does not report it', async () => {
+      const usage = await service.recordUsage(testProjectDir, 'feature-1', {
+        source: 'implementation',
+        model: 'codex-gpt-5.1-codex-mini',
+        provider: 'codex',
+        usage: { inputTokens: 1_000_000, outputTokens: 0 },
+      });
+
+      expect(usage.entries[0].costSource).toBe('estimated');
+      expect(usage.totals.costUsd).toBeCloseTo(0.25);
+    });
+
+    it('should not lose entries when records are written concurrently', async () => {
+      await Promise.all(
+        Array.from({ length: 5 }, () =>
+          service.recordUsage(testProjectDir, 'feature-1', {
+            source: 'implementation',
+            model: 'cursor-auto',
+            provider: 'cursor',
+            usage: { inputTokens: 10, outputTokens: 1 },
+          })
+        )
+      );
+
+      const usage = await service.getFeatureUsage(testProjectDir, 'feature-1');
+      expect(usage?.entries).toHaveLength(5);
+      expect(usage?.totals.inputTokens).toBe(50);
+      expect(usage?.totals.costUsd).toBe(0);
+    });
+  });
+
+  describe('getProjectUsage', () => {
+    it('should return empty totals when the features directory is missing', async () => {
+      const summary = await service.getProjectUsage(path.join(testProjectDir, 'missing'));
+      expect(summary.features).toEqual({});
+      expect(summary.totals.costUsd).toBe(0);
+    });
+
+    it('should sum totals across features and skip features without usage', async () => {
+      await fs.mkdir(path.join(testProjectDir, '.automaker', 'features', 'feature-empty'), {
+        recursive: true,
+      });
+      await service.recordUsage(testProjectDir, 'feature-1', {
+        source: 'implementation',
+        model: 'claude-sonnet-4-5-20250929',
+        provider: 'claude',
+        usage: { inputTokens: 10, outputTokens: 5, costUsd: 0.5 },
+      });
+      await service.recordUsage(testProjectDir, 'feature-2', {
+        source: 'implementation',
+        model: 'claude-sonnet-4-5-20250929',
+        provider: 'claude',
+        usage: { inputTokens: 20, outputTokens: 5, costUsd: 0.25 },
+      });
+
+      const summary = await service.getProjectUsage(testProjectDir);
+      expect(Object.keys(summary.features).sort()).toEqual(['feature-1', 'feature-2']);
+      expect(summary.totals.inputTokens).toBe(30);
+      expect(summary.totals.costUsd).toBeCloseTo(0.75);
+    });
+  });
+});
@@ -12,6 +12,7 @@ import type {
   Idea,
   IdeationSession,
   StartSessionOptions,
+  Feature,
 } from '@automaker/types';
 import { ProviderFactory } from '@/providers/provider-factory.js';
 
@@ -467,6 +468,89 @@ describe('IdeationService', () => {
       });
     });
 
+    describe('voting and comments', () => {
+      const baseIdea: Idea = {
+        id: 'idea-123',
+        title: 'Dark Mode',
+        description: 'Theme',
+        category: 'features',
+        status: 'raw',
+        impact: 'medium',
+        effort: 'medium',
+        lane: 'next',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      };
+
+      beforeEach(() => {
+        vi.mocked(secureFs.writeFile).mockResolvedValue(undefined);
+      });
+
+      it('should keep one vote per voter and withdraw it with 0', async () => {
+        vi.mocked(secureFs.readFile).mockResolvedValue(
+          JSON.stringify({
+            ...baseIdea,
+            votes: [
+              { voter: 'sam', value: 1, votedAt: '2024-01-01T00:00:00.000Z' },
+              { voter: 'alex', value: 1, votedAt: '2024-01-01T00:00:00.000Z' },
+            ],
+          })
+        );
+
+        const changed = await service.voteIdea(testProjectPath, 'idea-123', 'sam', -1);
+        expect(changed?.votes?.map(({ voter, value }) => ({ voter, value }))).toEqual([
+          { voter: 'alex', value: 1 },
+          { voter: 'sam', value: -1 },
+        ]);
+
+        const withdrawn = await service.voteIdea(testProjectPath, 'idea-123', 'alex', 0);
+        expect(withdrawn?.votes?.map((vote) => vote.voter)).toEqual(['sam']);
+      });
+
+      it('should add and delete comments', async () => {
+        vi.mocked(secureFs.readFile).mockResolvedValue(JSON.stringify(baseIdea));
+
+        const commented = await service.addIdeaComment(
+          testProjectPath,
+          'idea-123',
+          'sam',
+          'Users keep asking for this'
+        );
+        expect(commented?.comments).toHaveLength(1);
+        expect(commented?.comments?.[0]).toMatchObject({
+          id: expect.stringMatching(/^comment-/),
+          author: 'sam',
+          body: 'Users keep asking for this',
+        });
+
+        vi.mocked(secureFs.readFile).mockResolvedValue(JSON.stringify(commented));
+        const cleared = await service.deleteIdeaComment(
+          testProjectPath,
+          'idea-123',
+          commented!.comments![0].id
+        );
+        expect(cleared?.comments).toEqual([]);
+      });
+
+      it('should clear the lane and reach when updated with null', async () => {
+        vi.mocked(secureFs.readFile).mockResolvedValue(JSON.stringify({ ...baseIdea, reach: 50 }));
+
+        const updated = await service.updateIdea(testProjectPath, 'idea-123', {
+          lane: null,
+          reach: null,
+          confidence: 'high',
+        });
+
+        expect(updated?.lane).toBeUndefined();
+        expect(updated?.reach).toBeUndefined();
+        expect(updated?.confidence).toBe('high');
+
+        const kept = await service.updateIdea(testProjectPath, 'idea-123', { title: 'Dark' });
+        expect(kept?.lane).toBe('next');
+        expect(kept?.reach).toBe(50);
+      });
+    });
+
     describe('deleteIdea', () => {
       it('should delete idea directory', async () => {
         vi.mocked(secureFs.rm).mockResolvedValue(undefined);
@@ -589,6 +673,27 @@ describe('IdeationService', () => {
         expect(feature.description).toContain('Important implementation notes');
       });
 
+      it('should set the feature priority from the roadmap lane', async () => {
+        const mockIdea: Idea = {
+          id: 'idea-123',
+          title: 'Test',
+          description: 'Base description',
+          category: 'features',
+          status: 'ready',
+          impact: 'medium',
+          effort: 'medium',
+          lane: 'now',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        };
+
+        vi.mocked(secureFs.readFile).mockResolvedValue(JSON.stringify(mockIdea));
+
+        const feature = await service.convertToFeature(testProjectPath, 'idea-123');
+
+        expect(feature.priority).toBe(1);
+      });
+
       it('should throw error for non-existent idea', async () => {
         vi.mocked(secureFs.readFile).mockRejectedValue(new Error('ENOENT'));
 
@@ -599,6 +704,136 @@ describe('IdeationService', () => {
     });
   });
 
+  describe('Dependency Inference', () => {
+    const newFeature = (id: string, title: string): Feature => ({
+      id,
+      title,
+      category: 'ui',
+      description: title,
+      status: 'backlog',
+    });
+
+    function mockModelResponse(text: string) {
+      const mockProvider = {
+        executeQuery: vi.fn().mockReturnValue({
+          async *[Symbol.asyncIterator]() {
+            yield { type: 'result', subtype: 'success', result: text };
+          },
+        }),
+      };
+      vi.mocked(ProviderFactory.getProviderForModel).mockReturnValue(mockProvider as any);
+      return mockProvider;
+    }
+
+    it('should keep only known, acyclic dependencies of the new features', async () => {
+      vi.mocked(mockFeatureLoader.getAll).mockResolvedValue([
+        { ...newFeature('feature-db', 'Database schema'), status: 'in_progress' },
+        { ...newFeature('feature-done', 'Old work'), status: 'completed' },
+      ]);
+      const provider = mockModelResponse(
+        JSON.stringify({
+          dependencies: {
+            'feature-api': ['feature-db', 'feature-api', 'feature-unknown', 'feature-done'],
+            'feature-ui': ['feature-api'],
+            // Existing features keep their dependencies
+            'feature-db': ['feature-ui'],
+          },
+        })
+      );
+
+      const dependencies = await service.inferFeatureDependencies(testProjectPath, [
+        newFeature('feature-api', 'REST API'),
+        newFeature('feature-ui', 'Settings screen'),
+      ]);
+
+      expect(dependencies).toEqual({
+        'feature-api': ['feature-db'],
+        'feature-ui': ['feature-api'],
+      });
+      const prompt = provider.executeQuery.mock.calls[0][0].prompt as string;
+      expect(prompt).toContain('feature-db');
+      expect(prompt).not.toContain('feature-done');
+    });
+
+    it('should drop dependencies that would create a cycle', async () => {
+      mockModelResponse(
+        JSON.stringify({
+          dependencies: { 'feature-a': ['feature-b'], 'feature-b': ['feature-a'] },
+        })
+      );
+
+      const dependencies = await service.inferFeatureDependencies(testProjectPath, [
+        newFeature('feature-a', 'A'),
+        newFeature('feature-b', 'B'),
+      ]);
+
+      expect(dependencies).toEqual({ 'feature-a': ['feature-b'] });
+    });
+
+    it('should return nothing when the response cannot be parsed', async () => {
+      mockModelResponse('I could not decide.');
+
+      const dependencies = await service.inferFeatureDependencies(testProjectPath, [
+        newFeature('feature-a', 'A'),
+      ]);
+
+      expect(dependencies).toEqual({});
+    });
+  });
+
+  describe('Suggestion Deduplication', () => {
+    it('should drop suggestions repeating features, ideas or each other', async () => {
+      vi.mocked(secureFs.access).mockResolvedValue(undefined);
+      vi.mocked(secureFs.readdir).mockResolvedValue([
+        { name: 'idea-1', isDirectory: () => true } as any,
+      ]);
+      vi.mocked(secureFs.readFile).mockResolvedValue(
+        JSON.stringify({
+          id: 'idea-1',
+          title: 'Keyboard shortcuts for the board',
+          description: 'Navigate columns with the keyboard',
+          category: 'ux',
+          status: 'raw',
+          impact: 'medium',
+          effort: 'low',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        })
+      );
+      vi.mocked(mockFeatureLoader.getAll).mockResolvedValue([
+        {
+          id: 'feature-1',
+          title: 'Dark mode theme',
+          category: 'ui',
+          description: 'Add a dark theme to the app',
+          status: 'backlog',
+        },
+      ]);
+
+      const suggestion = (title: string, description: string) => ({
+        id: title,
+        category: 'feature' as const,
+        title,
+        description,
+        rationale: '',
+        priority: 'medium' as const,
+      });
+      const { suggestions, duplicates } = await service.dedupeSuggestions(testProjectPath, [
+        suggestion('Add dark mode themes', 'Support a dark theme'),
+        suggestion('Export board to CSV', 'Download features as a CSV file'),
+        suggestion('Implement keyboard shortcut for board', 'Keyboard navigation'),
+        suggestion('CSV export of the board', 'Export features to a CSV file download'),
+      ]);
+
+      expect(suggestions.map((s) => s.title)).toEqual(['Export board to CSV']);
+      expect(duplicates.map((d) => [d.title, d.similarTo.type, d.similarTo.id])).toEqual([
+        ['Add dark mode themes', 'feature', 'feature-1'],
+        ['Implement keyboard shortcut for board', 'idea', 'idea-1'],
+        ['CSV export of the board', 'suggestion', 'Export board to CSV'],
+      ]);
+    });
+  });
+
   // ============================================================================
   // Project Analysis Tests
   // ============================================================================
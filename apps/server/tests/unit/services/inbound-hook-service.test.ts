@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import type { Feature, InboundHook } from '@automaker/types';
+import {
+  InboundHookService,
+  renderInboundTemplate,
+  verifyInboundRequest,
+  type InboundRequest,
+} from '@/services/inbound-hook-service.js';
+import { signWebhookPayload } from '@/services/webhook-outbox-service.js';
+import type { SettingsService } from '@/services/settings-service.js';
+import type { FeatureLoader } from '@/services/feature-loader.js';
+import type { AutoModeService } from '@/services/auto-mode-service.js';
+import { createEventEmitter } from '@/lib/events.js';
+
+const ciFailure = {
+  repository: { full_name: 'acme/app' },
+  workflow_run: { head_branch: 'feature/login', conclusion: 'failure' },
+  log: 'error TS2322: Type string is not assignable to number',
+};
+
+function makeRequest(overrides: Partial<InboundRequest> = {}): InboundRequest {
+  const body = overrides.body ?? ciFailure;
+  return {
+    body,
+    rawBody: JSON.stringify(body),
+    headers: {},
+    query: {},
+    ...overrides,
+  };
+}
+
+describe('inbound-hook-service.ts', () => {
+  describe('renderInboundTemplate', () => {
+    it('fills body, header and query placeholders', () => {
+      const request = makeRequest({
+        headers: { 'x-github-event': 'workflow_run' },
+        query: { priority: '1' },
+      });
+
+      expect(
+        renderInboundTemplate(
+          'Fix the build on {{ body.workflow_run.head_branch }} ({{headers.X-GitHub-Event}}, p{{query.priority}})',
+          request
+        )
+      ).toBe('Fix the build on feature/login (workflow_run, p1)');
+      expect(renderInboundTemplate('{{body.repository}}|{{body.missing.path}}', request)).toBe(
+        '{"full_name":"acme/app"}|'
+      );
+    });
+  });
+
+  describe('verifyInboundRequest', () => {
+    const secret = 's3cret';
+
+    it('accepts a bearer token', () => {
+      expect(
+        verifyInboundRequest(secret, makeRequest({ headers: { authorization: 'Bearer s3cret' } }))
+      ).toBe(true);
+      expect(
+        verifyInboundRequest(secret, makeRequest({ headers: { authorization: 'Bearer nope' } }))
+      ).toBe(false);
+      expect(verifyInboundRequest('', makeRequest({ headers: { authorization: 'Bearer ' } }))).toBe(
+        false
+      );
+      expect(verifyInboundRequest(secret, makeRequest())).toBe(false);
+    });
+
+    it('accepts recent Automaker signatures over the raw body', () => {
+      const request = makeRequest();
+      const now = Date.now();
+      const timestamp = Math.floor(now / 1000).toString();
+      const signature = `sha256=${signWebhookPayload(secret, timestamp, request.rawBody)}`;
+      const signed = (ts: string) =>
+        makeRequest({
+          headers: { 'x-automaker-signature': signature, 'x-automaker-timestamp': ts },
+        });
+
+      expect(verifyInboundRequest(secret, signed(timestamp), now)).toBe(true);
+      expect(verifyInboundRequest(secret, signed(timestamp), now + 10 * 60 * 1000)).toBe(false);
+      expect(
+        verifyInboundRequest(secret, { ...signed(timestamp), rawBody: '{"tampered":true}' }, now)
+      ).toBe(false);
+    });
+
+    it('accepts GitHub webhook signatures', () => {
+      const request = makeRequest();
+      const digest = createHmac('sha256', secret).update(request.rawBody).digest('hex');
+
+      expect(
+        verifyInboundRequest(
+          secret,
+          makeRequest({ headers: { 'x-hub-signature-256': `sha256=${digest}` } })
+        )
+      ).toBe(true);
+      expect(
+        verifyInboundRequest(
+          'other',
+          makeRequest({ headers: { 'x-hub-signature-256': `sha256=${digest}` } })
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('InboundHookService', () => {
+    const projectPath = '/work/my-app';
+    let hooks: InboundHook[];
+    let features: Map<string, Feature>;
+    let events: ReturnType<typeof createEventEmitter>;
+    let autoMode: {
+      isAutoLoopRunningForProject: ReturnType<typeof vi.fn>;
+      startAutoLoopForProject: ReturnType<typeof vi.fn>;
+      isFeatureRunning: ReturnType<typeof vi.fn>;
+      followUpFeature: ReturnType<typeof vi.fn>;
+    };
+    let service: InboundHookService;
+
+    const ciHook: InboundHook = {
+      id: 'ih-ci',
+      name: 'CI failures',
+      enabled: true,
+      secret: '${AUTOMAKER_HOOKS_CI_SECRET}',
+      action: 'create_feature',
+      mapping: {
+        title: 'Fix the build on {{body.workflow_run.head_branch}}',
+        description: 'CI failed for {{body.repository.full_name}}:\n\n{{body.log}}',
+        category: 'CI',
+        branchName: '{{body.workflow_run.head_branch}}',
+        priority: '1',
+      },
+      filters: [{ field: 'body.workflow_run.conclusion', operator: 'equals', value: 'failure' }],
+    };
+
+    beforeEach(() => {
+      hooks = [ciHook];
+      features = new Map();
+      events = createEventEmitter();
+      autoMode = {
+        isAutoLoopRunningForProject: vi.fn(() => false),
+        startAutoLoopForProject: vi.fn(async () => 1),
+        isFeatureRunning: vi.fn(() => false),
+        followUpFeature: vi.fn(async () => undefined),
+      };
+
+      const featureLoader = {
+        findDuplicateTitle: vi.fn(
+          async (_path: string, title: string) =>
+            [...features.values()].find((feature) => feature.title === title) ?? null
+        ),
+        create: vi.fn(async (_path: string, data: Partial<Feature>) => {
+          const feature = { ...data, id: `feature-${features.size + 1}` } as Feature;
+          features.set(feature.id, feature);
+          return feature;
+        }),
+        get: vi.fn(async (_path: string, id: string) => features.get(id) ?? null),
+      };
+
+      service = new InboundHookService(
+        events,
+        {
+          getGlobalSettings: vi.fn(async () => ({
+            projects: [{ id: 'p0', name: 'Other', path: '/work/other' }, { path: projectPath }],
+            useWorktrees: true,
+          })),
+          getProjectSettings: vi.fn(async (path: string) =>
+            path === projectPath ? { inboundHooks: hooks } : {}
+          ),
+        } as unknown as SettingsService,
+        featureLoader as unknown as FeatureLoader,
+        autoMode as unknown as AutoModeService,
+        { AUTOMAKER_HOOKS_CI_SECRET: 'ci-secret' }
+      );
+    });
+
+    it('finds hooks across projects and verifies with the expanded secret', async () => {
+      const resolved = await service.findHook('ih-ci');
+      expect(resolved?.projectPath).toBe(projectPath);
+      await expect(service.findHook('ih-missing')).resolves.toBeNull();
+
+      const hook = resolved!.hook;
+      expect(
+        service.verify(hook, makeRequest({ headers: { authorization: 'Bearer ci-secret' } }))
+      ).toBe(true);
+      expect(
+        service.verify(
+          hook,
+          makeRequest({ headers: { authorization: 'Bearer ${AUTOMAKER_HOOKS_CI_SECRET}' } })
+        )
+      ).toBe(false);
+    });
+
+    it('rejects every request when the secret names another environment variable', () => {
+      const hook = { ...ciHook, secret: '${ANTHROPIC_API_KEY}' };
+
+      expect(service.verify(hook, makeRequest({ headers: { authorization: 'Bearer ' } }))).toBe(
+        false
+      );
+      expect(service.verify(hook, makeRequest())).toBe(false);
+    });
+
+    it('queues a feature for a failing CI run on its branch', async () => {
+      const created = vi.fn();
+      events.subscribe((type, payload) => {
+        if (type === 'feature:created') created(payload);
+      });
+
+      const result = await service.handle(projectPath, ciHook, makeRequest());
+
+      expect(result).toEqual({ status: 'created', featureId: 'feature-1' });
+      expect(features.get('feature-1')).toMatchObject({
+        title: 'Fix the build on feature/login',
+        description: expect.stringContaining('error TS2322'),
+        category: 'CI',
+        branchName: 'feature/login',
+        priority: 1,
+        status: 'backlog',
+      });
+      expect(created).toHaveBeenCalledWith(
+        expect.objectContaining({ featureId: 'feature-1', projectPath })
+      );
+
+      // The next failure on the same branch doesn't file a second feature
+      await expect(service.handle(projectPath, ciHook, makeRequest())).resolves.toMatchObject({
+        status: 'duplicate',
+        featureId: 'feature-1',
+      });
+    });
+
+    it('ignores requests that do not match the filters', async () => {
+      const result = await service.handle(
+        projectPath,
+        ciHook,
+        makeRequest({ body: { ...ciFailure, workflow_run: { conclusion: 'success' } } })
+      );
+
+      expect(result.status).toBe('ignored');
+      expect(features.size).toBe(0);
+    });
+
+    it('rejects requests whose title resolves to nothing', async () => {
+      const result = await service.handle(
+        projectPath,
+        { ...ciHook, filters: [], mapping: { title: '{{body.missing}}' } },
+        makeRequest()
+      );
+
+      expect(result.status).toBe('rejected');
+    });
+
+    it('answers repeated deliveries with the first result', async () => {
+      const request = makeRequest({ headers: { 'idempotency-key': 'delivery-1' } });
+
+      const first = await service.handle(projectPath, ciHook, request);
+      const second = await service.handle(projectPath, ciHook, request);
+
+      expect(second).toEqual(first);
+      expect(first.status).toBe('created');
+    });
+
+    it('answers a delivery retried while the first is in progress with its result', async () => {
+      const request = makeRequest({ headers: { 'idempotency-key': 'delivery-1' } });
+
+      const [first, second] = await Promise.all([
+        service.handle(projectPath, ciHook, request),
+        service.handle(projectPath, ciHook, request),
+      ]);
+
+      expect(first).toEqual({ status: 'created', featureId: 'feature-1' });
+      expect(second).toEqual(first);
+      expect(features.size).toBe(1);
+    });
+
+    it('starts auto mode for the mapped branch unless it is running', async () => {
+      const hook: InboundHook = {
+        ...ciHook,
+        action: 'start_auto_mode',
+        filters: [],
+        mapping: { branchName: '{{query.branch}}' },
+      };
+
+      await expect(
+        service.handle(projectPath, hook, makeRequest({ query: { branch: 'release' } }))
+      ).resolves.toEqual({ status: 'started' });
+      expect(autoMode.startAutoLoopForProject).toHaveBeenCalledWith(projectPath, 'release');
+
+      autoMode.isAutoLoopRunningForProject.mockReturnValue(true);
+      await expect(service.handle(projectPath, hook, makeRequest())).resolves.toEqual({
+        status: 'already_running',
+      });
+      expect(autoMode.isAutoLoopRunningForProject).toHaveBeenLastCalledWith(projectPath, null);
+    });
+
+    it('adds a follow-up to an existing feature', async () => {
+      features.set('feature-7', { id: 'feature-7', title: 'Login' } as Feature);
+      const hook: InboundHook = {
+        ...ciHook,
+        action: 'add_follow_up',
+        filters: [],
+        mapping: { featureId: '{{body.featureId}}', prompt: 'Reviewer said: {{body.comment}}' },
+      };
+      const request = (body: Record<string, unknown>) => makeRequest({ body });
+
+      await expect(
+        service.handle(projectPath, hook, request({ featureId: 'feature-7', comment: 'add tests' }))
+      ).resolves.toEqual({ status: 'follow_up_started', featureId: 'feature-7' });
+      expect(autoMode.followUpFeature).toHaveBeenCalledWith(
+        projectPath,
+        'feature-7',
+        'Reviewer said: add tests',
+        undefined,
+        true
+      );
+
+      await expect(
+        service.handle(projectPath, hook, request({ featureId: 'feature-9', comment: 'x' }))
+      ).resolves.toMatchObject({ status: 'rejected', reason: 'Feature feature-9 not found' });
+
+      autoMode.isFeatureRunning.mockReturnValue(true);
+      await expect(
+        service.handle(projectPath, hook, request({ featureId: 'feature-7', comment: 'x' }))
+      ).resolves.toMatchObject({ status: 'rejected' });
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import type { Feature, IssueSourceConfig, WorktreePRInfo } from '@automaker/types';
+import { IssueSyncService, type AutoModeActivity } from '@/services/issue-sync-service.js';
+import type { IssueSource } from '@/services/issue-sources/index.js';
+import type { FeatureLoader } from '@/services/feature-loader.js';
+import type { SettingsService } from '@/services/settings-service.js';
+import { createEventEmitter } from '@/lib/events.js';
+import { readWorktreeMetadata, updateWorktreePRInfo } from '@/lib/worktree-metadata.js';
+import { getNotificationService } from '@/services/notification-service.js';
+
+describe('issue-sync-service.ts', () => {
+  let feature: Feature;
+  let issueSource: IssueSourceConfig | undefined;
+  let featureLoader: FeatureLoader;
+  let settingsService: SettingsService;
+  let source: IssueSource;
+  let createSource: ReturnType<typeof vi.fn>;
+  let autoMode: AutoModeActivity;
+  let githubPRs: Map<string, WorktreePRInfo>;
+
+  beforeEach(() => {
+    feature = {
+      id: 'f1',
+      title: 'Fix login',
+      description: 'Fix login',
+      category: 'From Tracker',
+      issueLink: { source: 'rest', number: 42, key: 'ENG-42' },
+    };
+    issueSource = {
+      type: 'rest',
+      name: 'Tracker',
+      baseUrl: 'https://tracker.example.com',
+      endpoints: { list: '/issues' },
+      fields: { number: 'key', title: 'summary', state: 'status' },
+      statusSync: { enabled: true, statusMap: { verified: 'Done' }, comment: true },
+    };
+
+    featureLoader = {
+      get: vi.fn(async () => feature),
+      update: vi.fn(async (_path: string, _id: string, updates: Partial<Feature>) => {
+        feature = { ...feature, ...updates };
+        return feature;
+      }),
+    } as unknown as FeatureLoader;
+    settingsService = {
+      getProjectSettings: vi.fn(async () => ({ version: 1, issueSource })),
+      getGlobalSettings: vi.fn(async () => ({ projects: [{ path: '/project' }] })),
+    } as unknown as SettingsService;
+    source = {
+      type: 'rest',
+      name: 'Tracker',
+      transition: vi.fn(async () => undefined),
+      addComment: vi.fn(async () => undefined),
+      updateLabels: vi.fn(async () => undefined),
+      linkPullRequest: vi.fn(async () => undefined),
+      getIssue: vi.fn(async () => ({ number: 42, state: 'OPEN', status: 'In Progress' })),
+    } as unknown as IssueSource;
+    createSource = vi.fn(() => source);
+    autoMode = {
+      isFeatureRunning: vi.fn(() => false),
+      isAutoLoopRunningForProject: vi.fn(() => false),
+    };
+    githubPRs = new Map();
+  });
+
+  const createService = (events = createEventEmitter()) =>
+    new IssueSyncService(
+      events,
+      settingsService,
+      featureLoader,
+      autoMode,
+      createSource,
+      async () => githubPRs
+    );
+
+  it('moves the linked issue to the mapped state and records it', async () => {
+    const synced = await createService().syncFeatureStatus('/project', 'f1', 'verified');
+
+    expect(synced).toBe(true);
+    expect(source.transition).toHaveBeenCalledWith({ number: 42, key: 'ENG-42' }, 'Done');
+    expect(source.addComment).toHaveBeenCalledWith(
+      { number: 42, key: 'ENG-42' },
+      'Automaker: "Fix login" moved to verified.'
+    );
+    expect(feature.issueLink?.lastSyncedState).toBe('Done');
+    expect(feature.issueLink?.lastSyncedStatus).toBe('verified');
+  });
+
+  it('comments without moving the issue for unmapped statuses', async () => {
+    expect(await createService().syncFeatureStatus('/project', 'f1', 'in_progress')).toBe(true);
+
+    expect(source.transition).not.toHaveBeenCalled();
+    expect(source.addComment).toHaveBeenCalledTimes(1);
+  });
+
+  it('swaps status labels', async () => {
+    issueSource!.statusSync = {
+      enabled: true,
+      labels: { in_progress: 'in progress', verified: 'in review' },
+    };
+
+    await createService().syncFeatureStatus('/project', 'f1', 'verified');
+
+    expect(source.updateLabels).toHaveBeenCalledWith(
+      { number: 42, key: 'ENG-42' },
+      ['in review'],
+      ['in progress']
+    );
+    expect(source.addComment).not.toHaveBeenCalled();
+  });
+
+  it('skips statuses that were already synced', async () => {
+    feature.issueLink!.lastSyncedStatus = 'verified';
+
+    expect(await createService().syncFeatureStatus('/project', 'f1', 'verified')).toBe(false);
+    expect(source.transition).not.toHaveBeenCalled();
+  });
+
+  it('skips features linked to a different source', async () => {
+    feature.issueLink = { source: 'github', number: 3 };
+
+    expect(await createService().syncFeatureStatus('/project', 'f1', 'verified')).toBe(false);
+    expect(createSource).not.toHaveBeenCalled();
+  });
+
+  it('syncs when feature:status-changed is emitted', async () => {
+    const events = createEventEmitter();
+    const service = createService(events);
+    service.start();
+
+    events.emit('feature:status-changed', {
+      projectPath: '/project',
+      featureId: 'f1',
+      status: 'verified',
+    });
+
+    await vi.waitFor(() => expect(source.transition).toHaveBeenCalled());
+    service.stop();
+  });
+
+  describe('pollProject', () => {
+    let projectPath: string;
+    const pr: WorktreePRInfo = {
+      number: 9,
+      url: 'https://github.com/o/r/pull/9',
+      title: 'Fix login',
+      state: 'OPEN',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'issue-sync-'));
+      feature = { ...feature, status: 'in_progress', branchName: 'feature/login' };
+      featureLoader.getAll = vi.fn(async () => [feature]);
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('records the PR and links it to the issue', async () => {
+      await updateWorktreePRInfo(projectPath, 'feature/login', pr);
+
+      await createService().pollProject(projectPath);
+
+      expect(feature.pullRequest).toEqual(pr);
+      expect(feature.status).toBe('in_progress');
+      expect(source.linkPullRequest).toHaveBeenCalledWith(
+        { number: 42, key: 'ENG-42' },
+        { url: pr.url, title: pr.title }
+      );
+    });
+
+    it('moves the card when the PR is merged or closed', async () => {
+      const events = createEventEmitter();
+      const emitted: string[] = [];
+      events.subscribe((type, payload) => {
+        if (type === 'feature:status-changed') {
+          emitted.push((payload as { status: string }).status);
+        }
+      });
+      const service = createService(events);
+
+      await updateWorktreePRInfo(projectPath, 'feature/login', { ...pr, state: 'MERGED' });
+      await service.pollProject(projectPath);
+      expect(feature.status).toBe('verified');
+
+      await updateWorktreePRInfo(projectPath, 'feature/login', { ...pr, state: 'CLOSED' });
+      await service.pollProject(projectPath);
+      expect(feature.status).toBe('completed');
+      expect(emitted).toEqual(['verified', 'completed']);
+    });
+
+    it('notifies when a tracked PR is merged', async () => {
+      const service = createService();
+      await updateWorktreePRInfo(projectPath, 'feature/login', pr);
+      await service.pollProject(projectPath);
+      expect(await getNotificationService().getNotifications(projectPath)).toEqual([]);
+
+      await updateWorktreePRInfo(projectPath, 'feature/login', { ...pr, state: 'MERGED' });
+      await service.pollProject(projectPath);
+
+      const notifications = await getNotificationService().getNotifications(projectPath);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]).toMatchObject({ type: 'pr_merged', featureId: 'f1' });
+    });
+
+    it('only records the PR when status sync is off', async () => {
+      issueSource!.statusSync = { enabled: false };
+      await updateWorktreePRInfo(projectPath, 'feature/login', { ...pr, state: 'MERGED' });
+
+      await createService().pollProject(projectPath);
+
+      expect(feature.pullRequest?.state).toBe('MERGED');
+      expect(feature.status).toBe('in_progress');
+      expect(source.linkPullRequest).not.toHaveBeenCalled();
+    });
+
+    it('archives the feature when its issue is closed upstream', async () => {
+      vi.mocked(source.getIssue).mockResolvedValue({
+        number: 42,
+        state: 'CLOSED',
+        status: "Won't Do",
+      } as Awaited<ReturnType<IssueSource['getIssue']>>);
+
+      await createService().pollProject(projectPath);
+
+      expect(feature.status).toBe('completed');
+      expect(feature.issueLink?.lastSyncedStatus).toBe('completed');
+    });
+
+    it('uses the PR state on GitHub over stale worktree metadata', async () => {
+      await updateWorktreePRInfo(projectPath, 'feature/login', pr);
+      githubPRs.set('feature/login', { ...pr, state: 'MERGED' });
+
+      await createService().pollProject(projectPath);
+
+      expect(feature.status).toBe('verified');
+      const metadata = await readWorktreeMetadata(projectPath, 'feature/login');
+      expect(metadata?.pr?.state).toBe('MERGED');
+    });
+
+    it('leaves features that auto mode is working on alone', async () => {
+      githubPRs.set('feature/login', { ...pr, state: 'MERGED' });
+      vi.mocked(source.getIssue).mockResolvedValue({
+        number: 42,
+        state: 'CLOSED',
+        status: "Won't Do",
+      } as Awaited<ReturnType<IssueSource['getIssue']>>);
+
+      vi.mocked(autoMode.isFeatureRunning).mockReturnValue(true);
+      await createService().pollProject(projectPath);
+      expect(feature.status).toBe('in_progress');
+
+      vi.mocked(autoMode.isFeatureRunning).mockReturnValue(false);
+      vi.mocked(autoMode.isAutoLoopRunningForProject).mockReturnValue(true);
+      await createService().pollProject(projectPath);
+      expect(feature.status).toBe('in_progress');
+      expect(autoMode.isAutoLoopRunningForProject).toHaveBeenCalledWith(
+        projectPath,
+        'feature/login'
+      );
+      expect(source.getIssue).not.toHaveBeenCalled();
+    });
+
+    it('leaves issues closed by status sync alone', async () => {
+      feature.issueLink!.lastSyncedState = 'Done';
+      vi.mocked(source.getIssue).mockResolvedValue({
+        number: 42,
+        state: 'CLOSED',
+        status: 'Done',
+      } as Awaited<ReturnType<IssueSource['getIssue']>>);
+
+      await createService().pollProject(projectPath);
+
+      expect(feature.status).toBe('in_progress');
+    });
+  });
+});
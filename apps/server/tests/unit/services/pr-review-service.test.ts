@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Feature } from '@automaker/types';
+import { PRReviewService, type GhRunner } from '@/services/pr-review-service.js';
+import type { AutoModeService } from '@/services/auto-mode-service.js';
+import type { FeatureLoader } from '@/services/feature-loader.js';
+import { createEventEmitter } from '@/lib/events.js';
+
+vi.mock('@/routes/worktree/routes/pr-info.js', () => ({
+  resolvePRRepository: vi.fn(async (_path: string, branchName: string) => ({
+    targetRepo: 'o/r',
+    headRef: branchName,
+  })),
+}));
+
+const threadsResponse = {
+  data: {
+    repository: {
+      pullRequest: {
+        reviewThreads: {
+          nodes: [
+            {
+              id: 'T1',
+              isResolved: false,
+              isOutdated: false,
+              path: 'src/app.ts',
+              line: 12,
+              startLine: null,
+              comments: {
+                nodes: [
+                  {
+                    databaseId: 101,
+                    author: { login: 'sam' },
+                    body: 'Extract this',
+                    createdAt: '2026-01-01T00:00:00.000Z',
+                    diffHunk: '@@ -1 +1 @@\n+const x = 1;',
+                  },
+                ],
+              },
+            },
+            {
+              id: 'T2',
+              isResolved: true,
+              isOutdated: false,
+              path: 'src/db.ts',
+              line: null,
+              startLine: null,
+              comments: {
+                nodes: [
+                  {
+                    databaseId: 102,
+                    author: null,
+                    body: 'Done already',
+                    createdAt: '2026-01-01T00:00:00.000Z',
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      },
+    },
+  },
+};
+
+describe('pr-review-service.ts', () => {
+  let feature: Feature;
+  let featureLoader: FeatureLoader;
+  let autoModeService: AutoModeService;
+  let gh: ReturnType<typeof vi.fn<GhRunner>>;
+
+  beforeEach(() => {
+    feature = {
+      id: 'f1',
+      description: 'Fix login',
+      category: 'Bug',
+      branchName: 'feature/login',
+    };
+    featureLoader = {
+      get: vi.fn(async () => feature),
+      getAll: vi.fn(async () => [feature]),
+      getAgentOutput: vi.fn(async () => 'Working...\n<summary>Extracted the helper</summary>'),
+      update: vi.fn(async (_path: string, _id: string, updates: Partial<Feature>) => {
+        feature = { ...feature, ...updates };
+        return feature;
+      }),
+    } as unknown as FeatureLoader;
+    autoModeService = {
+      followUpFeature: vi.fn(async () => undefined),
+    } as unknown as AutoModeService;
+    gh = vi.fn<GhRunner>(async (args) => {
+      if (args[0] === 'pr') {
+        return JSON.stringify([{ number: 9, title: 'Fix login', url: 'https://x/pull/9' }]);
+      }
+      if (args[1] === 'graphql') {
+        return JSON.stringify(threadsResponse);
+      }
+      return '{}';
+    });
+  });
+
+  const createService = (events = createEventEmitter()) =>
+    new PRReviewService(events, autoModeService, featureLoader, gh);
+
+  it('maps review threads of the branch PR', async () => {
+    const { pr, threads } = await createService().getThreads('/project', 'feature/login');
+
+    expect(pr).toEqual({ number: 9, title: 'Fix login', url: 'https://x/pull/9', repo: 'o/r' });
+    expect(threads[0]).toEqual({
+      id: 'T1',
+      path: 'src/app.ts',
+      line: 12,
+      startLine: undefined,
+      isResolved: false,
+      isOutdated: false,
+      diffHunk: '@@ -1 +1 @@\n+const x = 1;',
+      comments: [
+        { id: 101, author: 'sam', body: 'Extract this', createdAt: '2026-01-01T00:00:00.000Z' },
+      ],
+    });
+    expect(threads[1]).toMatchObject({ line: undefined, isResolved: true });
+    expect(threads[1].comments[0].author).toBe('ghost');
+    expect(gh.mock.calls[0][0]).toContain('feature/login');
+  });
+
+  it('returns no threads when the branch has no PR', async () => {
+    gh.mockResolvedValueOnce('[]');
+
+    expect(await createService().getThreads('/project', 'feature/login')).toEqual({
+      pr: null,
+      threads: [],
+    });
+  });
+
+  it('sends selected unresolved threads as a follow-up', async () => {
+    await createService().addressThreads('/project', 'f1', ['T1', 'T2'], false);
+
+    expect(feature.prReviewFollowUp).toMatchObject({
+      prNumber: 9,
+      repo: 'o/r',
+      threads: [{ id: 'T1', path: 'src/app.ts', line: 12, replyToCommentId: 101 }],
+    });
+    const [, , prompt, , useWorktrees] = vi.mocked(autoModeService.followUpFeature).mock.calls[0];
+    expect(prompt).toContain('pull request #9');
+    expect(prompt).toContain('**sam:** Extract this');
+    expect(prompt).not.toContain('Done already');
+    expect(useWorktrees).toBe(false);
+  });
+
+  it('rejects selections without open threads', async () => {
+    await expect(createService().addressThreads('/project', 'f1', ['T2'])).rejects.toThrow(
+      'None of the selected review threads are open'
+    );
+    expect(autoModeService.followUpFeature).not.toHaveBeenCalled();
+  });
+
+  it('records the summary and replies to each thread after a push', async () => {
+    const events = createEventEmitter();
+    const service = createService(events);
+    service.start();
+    await service.addressThreads('/project', 'f1', ['T1']);
+
+    events.emit('auto-mode:event', {
+      type: 'auto_mode_feature_complete',
+      featureId: 'f1',
+      projectPath: '/project',
+      passes: true,
+    });
+    await vi.waitFor(() => expect(feature.prReviewFollowUp?.addressedAt).toBeDefined());
+    expect(feature.prReviewFollowUp?.summary).toBe('Extracted the helper');
+
+    events.emit('worktree:pushed', {
+      worktreePath: '/project/.worktrees/login',
+      branch: 'feature/login',
+      projectPath: '/project',
+    });
+    await vi.waitFor(() => expect(feature.prReviewFollowUp?.repliedAt).toBeDefined());
+
+    expect(gh).toHaveBeenCalledWith(
+      [
+        'api',
+        '--method',
+        'POST',
+        'repos/o/r/pulls/9/comments/101/replies',
+        '-f',
+        'body=Extracted the helper',
+      ],
+      '/project'
+    );
+    service.stop();
+  });
+
+  it('only retries threads that were not replied to', async () => {
+    feature.prReviewFollowUp = {
+      prNumber: 9,
+      repo: 'o/r',
+      threads: [
+        { id: 'T1', path: 'a.ts', replyToCommentId: 101 },
+        { id: 'T3', path: 'b.ts', replyToCommentId: 103 },
+      ],
+      submittedAt: '2026-01-01T00:00:00.000Z',
+      addressedAt: '2026-01-01T01:00:00.000Z',
+    };
+    gh.mockImplementation(async (args) => {
+      if (String(args[3]).includes('/103/')) throw new Error('HTTP 502');
+      return '{}';
+    });
+    const push = { worktreePath: '/project', branch: 'feature/login', projectPath: '/project' };
+
+    await expect(createService().handlePush(push)).rejects.toThrow('HTTP 502');
+    expect(feature.prReviewFollowUp?.threads[0].repliedAt).toBeDefined();
+    expect(feature.prReviewFollowUp?.threads[1].repliedAt).toBeUndefined();
+    expect(feature.prReviewFollowUp?.repliedAt).toBeUndefined();
+
+    gh.mockClear();
+    gh.mockResolvedValue('{}');
+    await createService().handlePush(push);
+
+    expect(gh).toHaveBeenCalledTimes(1);
+    expect(gh.mock.calls[0][0][3]).toBe('repos/o/r/pulls/9/comments/103/replies');
+    expect(feature.prReviewFollowUp?.repliedAt).toBeDefined();
+  });
+
+  it('does not reply before the follow-up is addressed', async () => {
+    await createService().addressThreads('/project', 'f1', ['T1']);
+    gh.mockClear();
+
+    await createService().handlePush({
+      worktreePath: '/project',
+      branch: 'feature/login',
+      projectPath: '/project',
+    });
+
+    expect(gh).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { RestIssueSourceConfig } from '@automaker/types';
+import {
+  RestIssueSource,
+  fillTemplate,
+  getPath,
+  parseIssueNumber,
+} from '@/services/issue-sources/rest-issue-source.js';
+
+const config: RestIssueSourceConfig = {
+  type: 'rest',
+  name: 'Tracker',
+  baseUrl: 'https://tracker.example.com/api/',
+  headers: { Authorization: 'Bearer ${AUTOMAKER_ISSUES_TRACKER_TOKEN}' },
+  endpoints: {
+    list: '/issues',
+    comments: '/issues/{key}/comments',
+    addComment: '/issues/{key}/comments',
+    transition: '/issues/{key}/transitions',
+  },
+  fields: {
+    items: 'data',
+    number: 'key',
+    title: 'fields.summary',
+    body: 'fields.description',
+    state: 'fields.status.name',
+    url: 'self',
+    author: 'fields.reporter',
+    labels: 'fields.labels',
+    commentItems: 'comments',
+  },
+  bodies: { transition: { transition: { name: '{{state}}' } } },
+};
+
+function createFetch(responses: Record<string, unknown>) {
+  return vi.fn(async (url: string | URL | Request) => {
+    const key = String(url);
+    const body = responses[key];
+    return new Response(body === undefined ? 'not found' : JSON.stringify(body), {
+      status: body === undefined ? 404 : 200,
+    });
+  });
+}
+
+describe('rest-issue-source.ts', () => {
+  describe('helpers', () => {
+    it('reads dot paths', () => {
+      expect(getPath({ a: { b: [{ c: 1 }] } }, 'a.b.0.c')).toBe(1);
+      expect(getPath({ a: null }, 'a.b')).toBeUndefined();
+      expect(getPath([1], undefined)).toEqual([1]);
+    });
+
+    it('fills nested templates', () => {
+      expect(fillTemplate({ a: ['{{state}}', 2], b: 'x {{missing}}' }, { state: 'Done' })).toEqual({
+        a: ['Done', 2],
+        b: 'x ',
+      });
+    });
+
+    it('fills list placeholders with arrays', () => {
+      const template = { add: '{{add}}', note: 'adding {{add}}' };
+
+      expect(fillTemplate(template, { add: ['a', 'b'] })).toEqual({
+        add: ['a', 'b'],
+        note: 'adding a,b',
+      });
+    });
+
+    it('parses numbers from keys', () => {
+      expect(parseIssueNumber(7)).toBe(7);
+      expect(parseIssueNumber('ENG-42')).toBe(42);
+      expect(parseIssueNumber('none')).toBeNull();
+    });
+  });
+
+  it('lists issues mapped through the field config', async () => {
+    const fetchImpl = createFetch({
+      'https://tracker.example.com/api/issues': {
+        data: [
+          {
+            key: 'ENG-42',
+            self: 'https://tracker.example.com/ENG-42',
+            fields: {
+              summary: 'Fix login',
+              description: 'Broken',
+              status: { name: 'In Progress' },
+              reporter: { displayName: 'Sam' },
+              labels: ['bug'],
+            },
+          },
+          { key: 'ENG-7', fields: { summary: 'Old', status: { name: 'Done' } } },
+          { fields: { summary: 'No key' } },
+        ],
+      },
+    });
+    const source = new RestIssueSource(
+      config,
+      { AUTOMAKER_ISSUES_TRACKER_TOKEN: 'secret' },
+      fetchImpl
+    );
+
+    const { openIssues, closedIssues } = await source.listIssues();
+
+    expect(openIssues).toHaveLength(1);
+    expect(openIssues[0]).toMatchObject({
+      number: 42,
+      key: 'ENG-42',
+      title: 'Fix login',
+      body: 'Broken',
+      state: 'OPEN',
+      status: 'In Progress',
+      author: { login: 'Sam' },
+      labels: [{ name: 'bug' }],
+    });
+    expect(closedIssues.map((issue) => issue.key)).toEqual(['ENG-7']);
+
+    const init = fetchImpl.mock.calls[0][1] as RequestInit;
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+  });
+
+  it('does not send other environment variables to the tracker', async () => {
+    const fetchImpl = createFetch({ 'https://tracker.example.com/api/issues': { data: [] } });
+    const source = new RestIssueSource(
+      { ...config, headers: { Authorization: 'Bearer ${GH_TOKEN}' } },
+      { GH_TOKEN: 'secret' },
+      fetchImpl
+    );
+
+    await expect(source.listIssues()).rejects.toThrow('GH_TOKEN');
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('tells keyed issues with the same number apart', async () => {
+    const fetchImpl = createFetch({
+      'https://tracker.example.com/api/issues': {
+        data: [
+          { key: 'ENG-42', fields: { summary: 'Eng', status: { name: 'Open' } } },
+          { key: 'OPS-42', fields: { summary: 'Ops', status: { name: 'Open' } } },
+        ],
+      },
+    });
+    const source = new RestIssueSource(config, {}, fetchImpl);
+
+    const issue = await source.getIssue({ number: 42, key: 'OPS-42' });
+
+    expect(issue?.title).toBe('Ops');
+  });
+
+  it('transitions issues with the configured body', async () => {
+    const fetchImpl = createFetch({
+      'https://tracker.example.com/api/issues/ENG-42/transitions': {},
+    });
+    const source = new RestIssueSource(config, {}, fetchImpl);
+
+    await source.transition({ number: 42, key: 'ENG-42' }, 'Done');
+
+    const init = fetchImpl.mock.calls[0][1] as RequestInit;
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body as string)).toEqual({ transition: { name: 'Done' } });
+  });
+
+  it('links pull requests with a comment when there is no link endpoint', async () => {
+    const fetchImpl = createFetch({
+      'https://tracker.example.com/api/issues/ENG-42/comments': {},
+    });
+    const source = new RestIssueSource(config, {}, fetchImpl);
+
+    await source.linkPullRequest(
+      { number: 42, key: 'ENG-42' },
+      { url: 'https://github.com/o/r/pull/1', title: 'Fix login' }
+    );
+
+    const init = fetchImpl.mock.calls[0][1] as RequestInit;
+    expect(JSON.parse(init.body as string)).toEqual({
+      body: 'Linked pull request: Fix login - https://github.com/o/r/pull/1',
+    });
+  });
+
+  it('reports HTTP failures', async () => {
+    const source = new RestIssueSource(config, {}, createFetch({}));
+
+    await expect(source.listIssues()).rejects.toThrow('HTTP 404');
+  });
+
+  it('is unavailable without a list endpoint', async () => {
+    const source = new RestIssueSource({ ...config, endpoints: { list: '' } });
+
+    const info = await source.getInfo();
+
+    expect(info.available).toBe(false);
+    expect(info.supportsComments).toBe(false);
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SchedulerService } from '@/services/scheduler-service.js';
+import type { EventEmitter } from '@/lib/events.js';
+import type { SettingsService } from '@/services/settings-service.js';
+import type { AutoModeService } from '@/services/auto-mode-service.js';
+import type { IdeationService } from '@/services/ideation-service.js';
+import type { MemoryCurationService } from '@/services/memory-curation-service.js';
+import type { ScheduleSettings, SchedulerState } from '@automaker/types';
+
+// Local-time dates; 2026-03-02 is a Monday
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 2, day, hours, minutes);
+
+describe('scheduler-service.ts', () => {
+  const projectPath = '/test/project';
+  let schedules: ScheduleSettings;
+  let savedState: SchedulerState;
+  let runningLoops: Set<string>;
+  let events: EventEmitter;
+  let settingsService: SettingsService;
+  let autoModeService: AutoModeService;
+  let ideationService: IdeationService;
+  let memoryCurationService: MemoryCurationService;
+
+  const weeknights: ScheduleSettings = {
+    autoMode: [
+      {
+        id: 'nightly',
+        name: 'Weeknights',
+        enabled: true,
+        branchName: null,
+        trigger: { type: 'window', days: [1, 2, 3, 4, 5], start: '22:00', end: '06:00' },
+      },
+    ],
+  };
+
+  const createService = () =>
+    new SchedulerService(
+      events,
+      settingsService,
+      autoModeService,
+      ideationService,
+      memoryCurationService
+    );
+
+  beforeEach(() => {
+    schedules = {};
+    savedState = { activeRuns: [], lastJobRuns: {} };
+    runningLoops = new Set();
+
+    events = { emit: vi.fn(), subscribe: vi.fn() };
+    settingsService = {
+      getGlobalSettings: vi.fn(async () => ({
+        projects: [{ id: 'p1', name: 'Project', path: projectPath }],
+      })),
+      getProjectSettings: vi.fn(async () => ({ schedules })),
+    } as unknown as SettingsService;
+    autoModeService = {
+      getSchedulerState: vi.fn(async () => structuredClone(savedState)),
+      saveSchedulerState: vi.fn(async (_path: string, state: SchedulerState) => {
+        savedState = structuredClone(state);
+      }),
+      isAutoLoopRunningForProject: vi.fn((_path: string, branchName: string | null) =>
+        runningLoops.has(branchName ?? 'main')
+      ),
+      startAutoLoopForProject: vi.fn(async (_path: string, branchName: string | null) => {
+        runningLoops.add(branchName ?? 'main');
+        return 1;
+      }),
+      stopAutoLoopForProject: vi.fn(async (_path: string, branchName: string | null) => {
+        runningLoops.delete(branchName ?? 'main');
+        return 0;
+      }),
+    } as unknown as AutoModeService;
+    ideationService = {
+      analyzeProject: vi.fn(async () => ({ suggestions: [{}, {}] })),
+    } as unknown as IdeationService;
+    memoryCurationService = {
+      runCuration: vi.fn(async () => ({ proposals: [{}, {}], dismissed: [] })),
+    } as unknown as MemoryCurationService;
+  });
+
+  describe('auto mode schedules', () => {
+    it('should start auto mode when a window opens and stop it when it closes', async () => {
+      schedules = weeknights;
+      const service = createService();
+
+      await service.tick(at(2, 21, 59));
+      expect(autoModeService.startAutoLoopForProject).not.toHaveBeenCalled();
+
+      await service.tick(at(2, 22));
+      expect(autoModeService.startAutoLoopForProject).toHaveBeenCalledWith(
+        projectPath,
+        null,
+        undefined
+      );
+      expect(savedState.activeRuns).toEqual([
+        {
+          scheduleId: 'nightly',
+          branchName: null,
+          occurrence: at(2, 22).toISOString(),
+          stopAt: at(3, 6).toISOString(),
+          startedLoop: true,
+        },
+      ]);
+
+      await service.tick(at(3, 6));
+      expect(autoModeService.stopAutoLoopForProject).toHaveBeenCalledWith(projectPath, null);
+      expect(savedState.activeRuns).toEqual([]);
+      expect(events.emit).toHaveBeenCalledWith(
+        'scheduler:event',
+        expect.objectContaining({ type: 'schedule_stopped', scheduleId: 'nightly' })
+      );
+    });
+
+    it('should not restart a loop that was stopped by hand during the window', async () => {
+      schedules = weeknights;
+      const service = createService();
+
+      await service.tick(at(2, 22));
+      runningLoops.clear();
+      await service.tick(at(2, 23));
+
+      expect(autoModeService.startAutoLoopForProject).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resume a run after a restart while its window is still open', async () => {
+      schedules = weeknights;
+      await createService().tick(at(2, 22));
+      runningLoops.clear();
+
+      // A fresh service instance stands in for a restarted server
+      await createService().tick(at(3, 1));
+
+      expect(autoModeService.startAutoLoopForProject).toHaveBeenCalledTimes(2);
+      expect(runningLoops.has('main')).toBe(true);
+    });
+
+    it('should leave loops that were already running alone', async () => {
+      schedules = weeknights;
+      runningLoops.add('main');
+      const service = createService();
+
+      await service.tick(at(2, 22));
+      await service.tick(at(3, 6));
+
+      expect(autoModeService.startAutoLoopForProject).not.toHaveBeenCalled();
+      expect(autoModeService.stopAutoLoopForProject).not.toHaveBeenCalled();
+      expect(savedState.activeRuns).toEqual([]);
+    });
+
+    it('should stop a run when its schedule is disabled', async () => {
+      schedules = weeknights;
+      const service = createService();
+      await service.tick(at(2, 22));
+
+      schedules = { autoMode: [{ ...weeknights.autoMode![0], enabled: false }] };
+      await service.tick(at(2, 23));
+
+      expect(autoModeService.stopAutoLoopForProject).toHaveBeenCalledWith(projectPath, null);
+    });
+
+    it('should run cron triggers for their duration on the configured worktree', async () => {
+      schedules = {
+        autoMode: [
+          {
+            id: 'cron',
+            enabled: true,
+            branchName: 'feature/nightly',
+            maxConcurrency: 2,
+            trigger: { type: 'cron', expression: '0 2 * * *', durationMinutes: 60 },
+          },
+        ],
+      };
+      const service = createService();
+
+      await service.tick(at(2, 2));
+      expect(autoModeService.startAutoLoopForProject).toHaveBeenCalledWith(
+        projectPath,
+        'feature/nightly',
+        2
+      );
+      await service.tick(at(2, 2, 59));
+      expect(autoModeService.stopAutoLoopForProject).not.toHaveBeenCalled();
+      await service.tick(at(2, 3));
+      expect(autoModeService.stopAutoLoopForProject).toHaveBeenCalledWith(
+        projectPath,
+        'feature/nightly'
+      );
+    });
+
+    it('should ignore schedules with malformed triggers', async () => {
+      schedules = {
+        autoMode: [
+          {
+            id: 'broken',
+            enabled: true,
+            branchName: null,
+            trigger: { type: 'cron', expression: 'every night' },
+          },
+        ],
+      };
+
+      await expect(createService().tick(at(2, 22))).resolves.toBeUndefined();
+      expect(autoModeService.startAutoLoopForProject).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduled jobs', () => {
+    it('should run a job once for the minute its cron matches', async () => {
+      schedules = {
+        jobs: [{ id: 'analysis', enabled: true, type: 'ideation_analysis', cron: '0 3 * * *' }],
+      };
+      const service = createService();
+
+      await service.tick(at(2, 3));
+      await service.tick(new Date(2026, 2, 2, 3, 0, 30));
+      await createService().tick(new Date(2026, 2, 2, 3, 0, 45));
+      await vi.waitFor(() =>
+        expect(events.emit).toHaveBeenCalledWith(
+          'scheduler:event',
+          expect.objectContaining({ type: 'job_completed', jobId: 'analysis' })
+        )
+      );
+
+      expect(ideationService.analyzeProject).toHaveBeenCalledTimes(1);
+      expect(ideationService.analyzeProject).toHaveBeenCalledWith(projectPath);
+      expect(savedState.lastJobRuns).toEqual({ analysis: at(2, 3).toISOString() });
+    });
+
+    it('should run memory curation jobs', async () => {
+      schedules = {
+        jobs: [{ id: 'curation', enabled: true, type: 'memory_curation', cron: '0 4 * * 0' }],
+      };
+
+      await createService().tick(at(1, 4));
+
+      await vi.waitFor(() =>
+        expect(events.emit).toHaveBeenCalledWith(
+          'scheduler:event',
+          expect.objectContaining({
+            type: 'job_completed',
+            jobId: 'curation',
+            summary: 'Curation proposed 2 memory changes for review',
+          })
+        )
+      );
+      expect(memoryCurationService.runCuration).toHaveBeenCalledWith(projectPath);
+    });
+
+    it('should not run disabled jobs', async () => {
+      schedules = {
+        jobs: [{ id: 'analysis', enabled: false, type: 'ideation_analysis', cron: '* * * * *' }],
+      };
+
+      await createService().tick(at(2, 3));
+
+      expect(ideationService.analyzeProject).not.toHaveBeenCalled();
+    });
+
+    it('should report failed jobs', async () => {
+      schedules = {
+        jobs: [{ id: 'analysis', enabled: true, type: 'ideation_analysis', cron: '* * * * *' }],
+      };
+      vi.mocked(ideationService.analyzeProject).mockRejectedValueOnce(new Error('boom'));
+
+      await createService().tick(at(2, 3));
+
+      await vi.waitFor(() =>
+        expect(events.emit).toHaveBeenCalledWith(
+          'scheduler:event',
+          expect.objectContaining({ type: 'job_failed', jobId: 'analysis', error: 'boom' })
+        )
+      );
+    });
+  });
+});
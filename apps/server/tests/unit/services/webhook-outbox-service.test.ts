@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import type { WebhookOutboxEntry } from '@automaker/types';
+import {
+  WebhookOutboxService,
+  signWebhookPayload,
+  type EnqueueWebhookInput,
+} from '@/services/webhook-outbox-service.js';
+
+describe('webhook-outbox-service.ts', () => {
+  let dataDir: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let outbox: WebhookOutboxService;
+
+  const input = (overrides: Partial<EnqueueWebhookInput> = {}): EnqueueWebhookInput => ({
+    hookId: 'hook-1',
+    trigger: 'feature_success',
+    projectPath: '/work/my-app',
+    eventId: 'evt-1',
+    request: {
+      url: 'https://hooks.test/done',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"ok":true}',
+    },
+    retry: { maxAttempts: 3, backoffMs: 1 },
+    ...overrides,
+  });
+
+  const readOutbox = async (): Promise<WebhookOutboxEntry[]> =>
+    JSON.parse(await fs.readFile(path.join(dataDir, 'webhook-outbox.json'), 'utf-8')).entries;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-outbox-'));
+    fetchMock = vi.fn(async () => new Response('ok'));
+    outbox = new WebhookOutboxService(dataDir, {
+      fetch: fetchMock as unknown as typeof fetch,
+      env: { AUTOMAKER_WEBHOOKS_SECRET: 's3cret' },
+    });
+  });
+
+  afterEach(async () => {
+    outbox.stop();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('signs requests and sends the delivery ID as idempotency key', async () => {
+    const entry = await outbox.send(input({ secret: '${AUTOMAKER_WEBHOOKS_SECRET}' }));
+
+    expect(entry.status).toBe('delivered');
+    const headers = fetchMock.mock.calls[0][1].headers as Record<string, string>;
+    expect(headers['Idempotency-Key']).toBe(entry.id);
+    expect(headers['X-Automaker-Delivery']).toBe(entry.id);
+    expect(headers['X-Automaker-Event']).toBe('feature_success');
+    expect(headers['X-Automaker-Signature']).toBe(
+      `sha256=${signWebhookPayload('s3cret', headers['X-Automaker-Timestamp'], '{"ok":true}')}`
+    );
+    // Delivered entries don't stay in the outbox
+    expect(await readOutbox()).toEqual([]);
+  });
+
+  it('leaves requests unsigned without a secret', async () => {
+    await outbox.send(input());
+
+    const headers = fetchMock.mock.calls[0][1].headers as Record<string, string>;
+    expect(headers['X-Automaker-Signature']).toBeUndefined();
+  });
+
+  it('dead-letters entries whose secret names another environment variable', async () => {
+    const entry = await outbox.send(input({ secret: '${ANTHROPIC_API_KEY}' }));
+
+    expect(entry).toMatchObject({ status: 'dead', attempts: 1 });
+    expect(entry.lastError).toContain('AUTOMAKER_WEBHOOKS_*');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries in the background with the same delivery ID until delivered', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('down', { status: 503 }))
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    const settled = vi.fn();
+    outbox.onSettled(settled);
+    await outbox.start();
+
+    const entry = await outbox.send(input());
+    expect(entry).toMatchObject({ status: 'pending', attempts: 1, lastStatusCode: 503 });
+    expect((await readOutbox())[0].id).toBe(entry.id);
+
+    await vi.waitFor(() => expect(settled).toHaveBeenCalled());
+    expect(settled.mock.calls[0][0]).toMatchObject({
+      id: entry.id,
+      status: 'delivered',
+      attempts: 3,
+    });
+    const keys = fetchMock.mock.calls.map(
+      ([, init]) => (init.headers as Record<string, string>)['Idempotency-Key']
+    );
+    expect(new Set(keys)).toEqual(new Set([entry.id]));
+  });
+
+  it('dead-letters after the last attempt and on client errors', async () => {
+    fetchMock.mockImplementation(async () => new Response('down', { status: 500 }));
+    await outbox.start();
+    const settled = vi.fn();
+    outbox.onSettled(settled);
+
+    await outbox.send(input());
+    await vi.waitFor(() => expect(settled).toHaveBeenCalled());
+    expect(settled.mock.calls[0][0]).toMatchObject({ status: 'dead', attempts: 3 });
+
+    fetchMock.mockImplementation(async () => new Response('nope', { status: 401 }));
+    const rejected = await outbox.send(input());
+    expect(rejected).toMatchObject({ status: 'dead', attempts: 1, lastStatusCode: 401 });
+
+    expect((await outbox.list('/work/my-app')).map((e) => e.status)).toEqual(['dead', 'dead']);
+    expect(await outbox.list('/elsewhere')).toEqual([]);
+  });
+
+  it('redelivers and discards dead letters', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('nope', { status: 404 }));
+    const dead = await outbox.send(input());
+    expect(dead.status).toBe('dead');
+
+    const redelivered = await outbox.redeliver(dead.id);
+    expect(redelivered).toMatchObject({ id: dead.id, status: 'delivered', attempts: 1 });
+    expect(await outbox.list()).toEqual([]);
+
+    fetchMock.mockResolvedValueOnce(new Response('nope', { status: 404 }));
+    const other = await outbox.send(input());
+    await expect(outbox.discard(other.id)).resolves.toBe(true);
+    await expect(outbox.discard(other.id)).resolves.toBe(false);
+    await expect(outbox.redeliver('whd-missing')).resolves.toBeNull();
+  });
+
+  it('resumes pending deliveries after a restart', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('down', { status: 502 }));
+    const entry = await outbox.send(input({ retry: { maxAttempts: 3, backoffMs: 1 } }));
+    expect(entry.status).toBe('pending');
+
+    const restarted = new WebhookOutboxService(dataDir, {
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+    const settled = vi.fn();
+    restarted.onSettled(settled);
+    await restarted.start();
+
+    await vi.waitFor(() => expect(settled).toHaveBeenCalled());
+    restarted.stop();
+    expect(settled.mock.calls[0][0]).toMatchObject({ id: entry.id, status: 'delivered' });
+  });
+});
@@ -3,10 +3,14 @@
  */
 
 import { useCallback } from 'react';
-import { Bell, Check, Trash2 } from 'lucide-react';
+import { Bell, Check, ClipboardList, GitMerge, Trash2, Wallet, XCircle } from 'lucide-react';
 import { useNavigate } from '@tanstack/react-router';
 import { useNotificationsStore } from '@/store/notifications-store';
-import { useLoadNotifications, useNotificationEvents } from '@/hooks/use-notification-events';
+import {
+  useDesktopNotifications,
+  useLoadNotifications,
+  useNotificationEvents,
+} from '@/hooks/use-notification-events';
 import { getHttpApiClient } from '@/lib/http-api-client';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
@@ -49,6 +53,7 @@ export function NotificationBell({ projectPath }: NotificationBellProps) {
   // Load notifications and subscribe to events
   useLoadNotifications(projectPath);
   useNotificationEvents(projectPath);
+  useDesktopNotifications();
 
   const handleMarkAsRead = useCallback(
     async (notificationId: string) => {
@@ -105,6 +110,16 @@ export function NotificationBell({ projectPath }: NotificationBellProps) {
         return <Check className="h-4 w-4 text-green-500" />;
       case 'spec_regeneration_complete':
         return <Check className="h-4 w-4 text-blue-500" />;
+      case 'feature_failed':
+        return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'plan_approval_required':
+        return <ClipboardList className="h-4 w-4 text-yellow-500" />;
+      case 'budget_warning':
+        return <Wallet className="h-4 w-4 text-yellow-500" />;
+      case 'budget_exceeded':
+        return <Wallet className="h-4 w-4 text-red-500" />;
+      case 'pr_merged':
+        return <GitMerge className="h-4 w-4 text-green-500" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -79,6 +79,8 @@ export function useNavigation({
 }: UseNavigationProps) {
   // Track if current project has a GitHub remote
   const [hasGitHubRemote, setHasGitHubRemote] = useState(false);
+  // Name of the project's issue source when it is usable (GitHub or a REST tracker)
+  const [issueSourceName, setIssueSourceName] = useState<string | null>(null);
 
   useEffect(() => {
     async function checkGitHubRemote() {
@@ -101,6 +103,29 @@ export function useNavigation({
     checkGitHubRemote();
   }, [currentProject?.path]);
 
+  useEffect(() => {
+    async function checkIssueSource() {
+      if (!currentProject?.path) {
+        setIssueSourceName(null);
+        return;
+      }
+
+      try {
+        const api = getElectronAPI();
+        if (api.issues) {
+          const result = await api.issues.getSource(currentProject.path);
+          setIssueSourceName(
+            result.success && result.source?.available ? result.source.name : null
+          );
+        }
+      } catch {
+        setIssueSourceName(null);
+      }
+    }
+
+    checkIssueSource();
+  }, [currentProject?.path]);
+
   // Build navigation sections
   const navSections: NavSection[] = useMemo(() => {
     const allToolsItems: NavItem[] = [
@@ -202,25 +227,30 @@ export function useNavigation({
       },
     ];
 
-    // Add GitHub section if project has a GitHub remote
-    if (hasGitHubRemote) {
+    // Add GitHub section if project has a GitHub remote or another issue tracker.
+    // Issues come from the issue source; pull requests always come from GitHub.
+    if (hasGitHubRemote || issueSourceName) {
+      const items: NavItem[] = [];
+      if (issueSourceName) {
+        items.push({
+          id: 'github-issues',
+          label: 'Issues',
+          icon: CircleDot,
+          shortcut: shortcuts.githubIssues,
+          count: unviewedValidationsCount,
+        });
+      }
+      if (hasGitHubRemote) {
+        items.push({
+          id: 'github-prs',
+          label: 'Pull Requests',
+          icon: GitPullRequest,
+          shortcut: shortcuts.githubPrs,
+        });
+      }
       sections.push({
-        label: 'GitHub',
-        items: [
-          {
-            id: 'github-issues',
-            label: 'Issues',
-            icon: CircleDot,
-            shortcut: shortcuts.githubIssues,
-            count: unviewedValidationsCount,
-          },
-          {
-            id: 'github-prs',
-            label: 'Pull Requests',
-            icon: GitPullRequest,
-            shortcut: shortcuts.githubPrs,
-          },
-        ],
+        label: hasGitHubRemote ? 'GitHub' : issueSourceName!,
+        items,
         collapsible: true,
         defaultCollapsed: true,
       });
@@ -253,6 +283,7 @@ export function useNavigation({
     hideContext,
     hideTerminal,
     hasGitHubRemote,
+    issueSourceName,
     unviewedValidationsCount,
     unreadNotificationsCount,
     isSpecGenerating,
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { History, ListTodo, MessageSquare, Play, RotateCcw, Workflow } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+import { useFeatureCheckpoints } from '@/hooks/queries';
+import { useRollbackToCheckpoint } from '@/hooks/mutations';
+import type { CheckpointKind, FeatureCheckpoint } from '@automaker/types';
+
+const KIND_ICONS: Record<CheckpointKind, typeof History> = {
+  task: ListTodo,
+  pipeline_step: Workflow,
+  follow_up: MessageSquare,
+};
+
+interface CheckpointTimelineProps {
+  featureId: string;
+  projectPath: string;
+  /** Whether restored task and pipeline checkpoints should resume in a worktree */
+  useWorktrees?: boolean;
+  className?: string;
+}
+
+/**
+ * Timeline of the git checkpoints taken while an agent worked on a feature,
+ * newest first, with actions to restore one and optionally resume from it.
+ */
+export function CheckpointTimeline({
+  featureId,
+  projectPath,
+  useWorktrees,
+  className,
+}: CheckpointTimelineProps) {
+  const {
+    data: checkpoints = [],
+    isLoading,
+    isError,
+  } = useFeatureCheckpoints(projectPath, featureId);
+  const rollback = useRollbackToCheckpoint(projectPath);
+  const [pending, setPending] = useState<{ checkpoint: FeatureCheckpoint; resume: boolean } | null>(
+    null
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground">
+        <Spinner size="lg" className="mr-2" />
+        Loading checkpoints...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-destructive">
+        Failed to load checkpoints.
+      </div>
+    );
+  }
+
+  if (checkpoints.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-2 text-muted-foreground text-sm text-center">
+        <History className="w-5 h-5" />
+        No checkpoints yet. One is taken before each planned task, pipeline step and follow-up.
+      </div>
+    );
+  }
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    rollback.mutate({
+      featureId,
+      checkpointId: pending.checkpoint.id,
+      resume: pending.resume,
+      useWorktrees,
+    });
+  };
+
+  return (
+    <div className={cn('space-y-0', className)} data-testid="checkpoint-timeline">
+      {[...checkpoints].reverse().map((checkpoint, index) => {
+        const Icon = KIND_ICONS[checkpoint.kind] ?? History;
+        const isRestoring =
+          rollback.isPending && rollback.variables?.checkpointId === checkpoint.id;
+        return (
+          <div key={checkpoint.id} className="flex gap-3">
+            <div className="flex flex-col items-center">
+              <div className="w-7 h-7 rounded-full bg-muted border border-border flex items-center justify-center shrink-0">
+                <Icon className="w-3.5 h-3.5 text-muted-foreground" />
+              </div>
+              {index < checkpoints.length - 1 && <div className="w-px flex-1 bg-border" />}
+            </div>
+            <div className="flex-1 min-w-0 pb-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground break-words">
+                    {checkpoint.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(checkpoint.createdAt).toLocaleString()} ·{' '}
+                    <span className="font-mono">{checkpoint.commit.substring(0, 8)}</span>
+                    {checkpoint.branch && <> · {checkpoint.branch}</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1.5 text-xs"
+                    disabled={rollback.isPending}
+                    onClick={() => setPending({ checkpoint, resume: false })}
+                    data-testid={`checkpoint-restore-${checkpoint.id}`}
+                  >
+                    {isRestoring ? <Spinner size="xs" /> : <RotateCcw className="w-3 h-3" />}
+                    Restore
+                  </Button>
+                  {checkpoint.kind !== 'follow_up' && (
+                    <Button
+                      size="sm"
+                      className="h-7 gap-1.5 text-xs"
+                      disabled={rollback.isPending}
+                      onClick={() => setPending({ checkpoint, resume: true })}
+                      data-testid={`checkpoint-resume-${checkpoint.id}`}
+                    >
+                      <Play className="w-3 h-3" />
+                      Restore & Resume
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <ConfirmDialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+        onConfirm={handleConfirm}
+        title={pending?.resume ? 'Restore and resume?' : 'Restore checkpoint?'}
+        description={`The working directory and agent output will be reset to "${
+          pending?.checkpoint.label ?? ''
+        }". Changes and commits made after this checkpoint will be discarded.`}
+        icon={RotateCcw}
+        iconClassName="text-destructive"
+        confirmText={pending?.resume ? 'Restore & Resume' : 'Restore'}
+        confirmVariant="destructive"
+      />
+    </div>
+  );
+}
@@ -11,11 +11,32 @@ import {
   RefreshCw,
   GitBranch,
   AlertCircle,
+  MessageSquare,
+  Trash2,
 } from 'lucide-react';
 import { Spinner } from '@/components/ui/spinner';
 import { Button } from './button';
+import { Badge } from './badge';
+import { Textarea } from './textarea';
 import { useWorktreeDiffs, useGitDiffs } from '@/hooks/queries';
 import type { FileStatus } from '@/types/electron';
+import type { ReviewComment, ReviewCommentStatus } from '@automaker/types';
+
+/** A new review comment, before it is given an ID and status */
+export type NewReviewComment = Pick<
+  ReviewComment,
+  'filePath' | 'side' | 'startLine' | 'endLine' | 'lines' | 'body'
+>;
+
+/**
+ * Review mode for the diff panel: clicking a line number starts a comment,
+ * shift-clicking extends it to a range
+ */
+export interface GitDiffReviewOptions {
+  comments: ReviewComment[];
+  onAddComment: (comment: NewReviewComment) => void;
+  onDeleteComment: (commentId: string) => void;
+}
 
 interface GitDiffPanelProps {
   projectPath: string;
@@ -25,15 +46,50 @@ interface GitDiffPanelProps {
   compact?: boolean;
   /** Whether worktrees are enabled - if false, shows diffs from main project */
   useWorktrees?: boolean;
+  /** Enables inline review comments on diff lines */
+  review?: GitDiffReviewOptions;
+}
+
+interface ParsedDiffLine {
+  type: 'context' | 'addition' | 'deletion' | 'header';
+  content: string;
+  lineNumber?: { old?: number; new?: number };
 }
 
 interface ParsedDiffHunk {
   header: string;
-  lines: {
-    type: 'context' | 'addition' | 'deletion' | 'header';
-    content: string;
-    lineNumber?: { old?: number; new?: number };
-  }[];
+  lines: ParsedDiffLine[];
+}
+
+/** Lines selected for a new review comment */
+interface LineSelection {
+  side: ReviewComment['side'];
+  start: number;
+  end: number;
+}
+
+const REVIEW_STATUS_BADGE: Record<
+  ReviewCommentStatus,
+  { label: string; variant: 'muted' | 'info' | 'success' | 'warning' }
+> = {
+  draft: { label: 'Draft', variant: 'muted' },
+  submitted: { label: 'Submitted', variant: 'info' },
+  resolved: { label: 'Resolved', variant: 'success' },
+  unresolved: { label: 'Unresolved', variant: 'warning' },
+};
+
+/**
+ * Get the side and line number a review comment on this diff line refers to.
+ * Removed lines are numbered in the old file, everything else in the new file.
+ */
+function getReviewLine(line: ParsedDiffLine): { side: ReviewComment['side']; line: number } | null {
+  if (line.type === 'deletion' && line.lineNumber?.old !== undefined) {
+    return { side: 'old', line: line.lineNumber.old };
+  }
+  if (line.type !== 'header' && line.lineNumber?.new !== undefined) {
+    return { side: 'new', line: line.lineNumber.new };
+  }
+  return null;
 }
 
 interface ParsedFileDiff {
@@ -213,14 +269,38 @@ function parseDiff(diffText: string): ParsedFileDiff[] {
   return files;
 }
 
+/**
+ * Get the content of the selected lines, as a snapshot stored on the comment
+ */
+function getSelectedLines(fileDiff: ParsedFileDiff, selection: LineSelection): string[] {
+  return fileDiff.hunks.flatMap((hunk) =>
+    hunk.lines
+      .filter((line) => {
+        const lineNumber = selection.side === 'old' ? line.lineNumber?.old : line.lineNumber?.new;
+        return (
+          line.type !== 'header' &&
+          line.type !== (selection.side === 'old' ? 'addition' : 'deletion') &&
+          lineNumber !== undefined &&
+          lineNumber >= selection.start &&
+          lineNumber <= selection.end
+        );
+      })
+      .map((line) => line.content)
+  );
+}
+
 function DiffLine({
   type,
   content,
   lineNumber,
+  isSelected,
+  onSelect,
 }: {
   type: 'context' | 'addition' | 'deletion' | 'header';
   content: string;
   lineNumber?: { old?: number; new?: number };
+  isSelected?: boolean;
+  onSelect?: (extend: boolean) => void;
 }) {
   const bgClass = {
     context: 'bg-transparent',
@@ -252,11 +332,31 @@ function DiffLine({
   }
 
   return (
-    <div className={cn('flex font-mono text-xs', bgClass[type])}>
-      <span className="w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none border-r border-border-glass">
+    <div
+      className={cn(
+        'flex font-mono text-xs',
+        bgClass[type],
+        isSelected && 'bg-brand-500/20 ring-1 ring-inset ring-brand-500/40'
+      )}
+    >
+      <span
+        className={cn(
+          'w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none border-r border-border-glass',
+          onSelect && 'cursor-pointer hover:text-brand-500'
+        )}
+        onClick={onSelect ? (e) => onSelect(e.shiftKey) : undefined}
+        title={onSelect ? 'Comment on this line (shift-click to select a range)' : undefined}
+      >
         {lineNumber?.old ?? ''}
       </span>
-      <span className="w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none border-r border-border-glass">
+      <span
+        className={cn(
+          'w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none border-r border-border-glass',
+          onSelect && 'cursor-pointer hover:text-brand-500'
+        )}
+        onClick={onSelect ? (e) => onSelect(e.shiftKey) : undefined}
+        title={onSelect ? 'Comment on this line (shift-click to select a range)' : undefined}
+      >
         {lineNumber?.new ?? ''}
       </span>
       <span className={cn('w-4 flex-shrink-0 text-center select-none', textClass[type])}>
@@ -269,15 +369,105 @@ function DiffLine({
   );
 }
 
+function ReviewCommentItem({
+  comment,
+  onDelete,
+}: {
+  comment: ReviewComment;
+  onDelete: (commentId: string) => void;
+}) {
+  const badge = REVIEW_STATUS_BADGE[comment.status];
+  const range =
+    comment.startLine === comment.endLine
+      ? `Line ${comment.startLine}`
+      : `Lines ${comment.startLine}-${comment.endLine}`;
+
+  return (
+    <div
+      className="mx-2 my-1 rounded-md border border-border bg-card p-2 font-sans"
+      data-testid={`review-comment-${comment.id}`}
+    >
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <MessageSquare className="w-3.5 h-3.5" />
+        <span className="font-medium text-foreground">{comment.id}</span>
+        <span>
+          {range}
+          {comment.side === 'old' ? ' (removed)' : ''}
+        </span>
+        <Badge variant={badge.variant} size="sm">
+          {badge.label}
+        </Badge>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-6 w-6 p-0"
+          onClick={() => onDelete(comment.id)}
+          title="Delete comment"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      <p className="mt-1 text-sm text-foreground whitespace-pre-wrap">{comment.body}</p>
+    </div>
+  );
+}
+
+function ReviewCommentForm({
+  selection,
+  onSubmit,
+  onCancel,
+}: {
+  selection: LineSelection;
+  onSubmit: (body: string) => void;
+  onCancel: () => void;
+}) {
+  const [body, setBody] = useState('');
+  const range =
+    selection.start === selection.end
+      ? `line ${selection.start}`
+      : `lines ${selection.start}-${selection.end}`;
+
+  return (
+    <div className="mx-2 my-1 rounded-md border border-brand-500/40 bg-card p-2 font-sans space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={`Comment on ${range}${selection.side === 'old' ? ' (removed)' : ''}`}
+        className="min-h-[60px] text-sm"
+        autoFocus
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && body.trim()) {
+            onSubmit(body.trim());
+          }
+        }}
+        data-testid="review-comment-input"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" disabled={!body.trim()} onClick={() => onSubmit(body.trim())}>
+          Add comment
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 function FileDiffSection({
   fileDiff,
   isExpanded,
   onToggle,
+  review,
 }: {
   fileDiff: ParsedFileDiff;
   isExpanded: boolean;
   onToggle: () => void;
+  review?: GitDiffReviewOptions;
 }) {
+  const [selection, setSelection] = useState<LineSelection | null>(null);
+  const fileComments = review?.comments.filter((c) => c.filePath === fileDiff.filePath) ?? [];
+
   const additions = fileDiff.hunks.reduce(
     (acc, hunk) => acc + hunk.lines.filter((l) => l.type === 'addition').length,
     0
@@ -318,6 +508,12 @@ function FileDiffSection({
               renamed
             </span>
           )}
+          {fileComments.length > 0 && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <MessageSquare className="w-3 h-3" />
+              {fileComments.length}
+            </span>
+          )}
           {additions > 0 && <span className="text-xs text-green-400">+{additions}</span>}
           {deletions > 0 && <span className="text-xs text-red-400">-{deletions}</span>}
         </div>
@@ -326,14 +522,79 @@ function FileDiffSection({
         <div className="bg-background border-t border-border max-h-[400px] overflow-y-auto scrollbar-visible">
           {fileDiff.hunks.map((hunk, hunkIndex) => (
             <div key={hunkIndex} className="border-b border-border-glass last:border-b-0">
-              {hunk.lines.map((line, lineIndex) => (
-                <DiffLine
-                  key={lineIndex}
-                  type={line.type}
-                  content={line.content}
-                  lineNumber={line.lineNumber}
-                />
-              ))}
+              {hunk.lines.map((line, lineIndex) => {
+                const reviewLine = review ? getReviewLine(line) : null;
+                const isSelected =
+                  !!selection &&
+                  !!reviewLine &&
+                  reviewLine.side === selection.side &&
+                  reviewLine.line >= selection.start &&
+                  reviewLine.line <= selection.end;
+                const isSelectionEnd =
+                  !!selection &&
+                  reviewLine?.side === selection.side &&
+                  reviewLine.line === selection.end;
+                const lineComments = reviewLine
+                  ? fileComments.filter(
+                      (c) => c.side === reviewLine.side && c.endLine === reviewLine.line
+                    )
+                  : [];
+
+                return (
+                  <div key={lineIndex}>
+                    <DiffLine
+                      type={line.type}
+                      content={line.content}
+                      lineNumber={line.lineNumber}
+                      isSelected={isSelected}
+                      onSelect={
+                        reviewLine
+                          ? (extend) =>
+                              setSelection((prev) =>
+                                extend && prev && prev.side === reviewLine.side
+                                  ? {
+                                      side: prev.side,
+                                      start: Math.min(prev.start, reviewLine.line),
+                                      end: Math.max(prev.end, reviewLine.line),
+                                    }
+                                  : {
+                                      side: reviewLine.side,
+                                      start: reviewLine.line,
+                                      end: reviewLine.line,
+                                    }
+                              )
+                          : undefined
+                      }
+                    />
+                    {review &&
+                      lineComments.map((comment) => (
+                        <ReviewCommentItem
+                          key={comment.id}
+                          comment={comment}
+                          onDelete={review.onDeleteComment}
+                        />
+                      ))}
+                    {review && selection && isSelectionEnd && (
+                      <ReviewCommentForm
+                        key={`${selection.side}-${selection.start}-${selection.end}`}
+                        selection={selection}
+                        onCancel={() => setSelection(null)}
+                        onSubmit={(body) => {
+                          review.onAddComment({
+                            filePath: fileDiff.filePath,
+                            side: selection.side,
+                            startLine: selection.start,
+                            endLine: selection.end,
+                            lines: getSelectedLines(fileDiff, selection),
+                            body,
+                          });
+                          setSelection(null);
+                        }}
+                      />
+                    )}
+                  </div>
+                );
+              })}
             </div>
           ))}
         </div>
@@ -348,6 +609,7 @@ export function GitDiffPanel({
   className,
   compact = true,
   useWorktrees = false,
+  review,
 }: GitDiffPanelProps) {
   const [isExpanded, setIsExpanded] = useState(!compact);
   const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
@@ -584,6 +846,7 @@ export function GitDiffPanel({
                     fileDiff={fileDiff}
                     isExpanded={expandedFiles.has(fileDiff.filePath)}
                     onToggle={() => toggleFile(fileDiff.filePath)}
+                    review={review}
                   />
                 ))}
                 {/* Fallback for files that have no diff content (shouldn't happen after fix, but safety net) */}
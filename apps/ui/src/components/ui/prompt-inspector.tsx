@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+import { formatTokenCount } from '@/lib/usage-format';
+import { useFeaturePrompt, useFeaturePrompts } from '@/hooks/queries';
+import type { FeaturePromptRecord, PromptSectionAction } from '@automaker/types';
+
+const ACTION_VARIANTS: Record<PromptSectionAction, 'muted' | 'warning' | 'info' | 'error'> = {
+  kept: 'muted',
+  truncated: 'warning',
+  summarized: 'info',
+  dropped: 'error',
+};
+
+interface PromptInspectorProps {
+  featureId: string;
+  projectPath: string;
+  className?: string;
+}
+
+/**
+ * Lists the prompts sent for a feature's agent runs, newest first, and
+ * shows the selected one exactly as sent along with how each of its
+ * sections was fitted into the model's context budget.
+ */
+export function PromptInspector({ featureId, projectPath, className }: PromptInspectorProps) {
+  const { data: prompts = [], isLoading, isError } = useFeaturePrompts(projectPath, featureId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const activeId = selectedId ?? prompts[0]?.id;
+  const { data: record, isLoading: isLoadingRecord } = useFeaturePrompt(
+    projectPath,
+    featureId,
+    activeId
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground">
+        <Spinner size="lg" className="mr-2" />
+        Loading prompts...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-destructive">
+        Failed to load prompts.
+      </div>
+    );
+  }
+
+  if (prompts.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-2 text-muted-foreground text-sm text-center">
+        <ScrollText className="w-5 h-5" />
+        No prompts recorded yet. Each agent run on this feature records the prompt it was sent.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn('flex flex-col sm:flex-row gap-4 h-full', className)}
+      data-testid="prompt-inspector"
+    >
+      <div className="sm:w-56 shrink-0 space-y-1 overflow-y-auto">
+        {prompts.map((prompt) => (
+          <button
+            key={prompt.id}
+            onClick={() => setSelectedId(prompt.id)}
+            className={cn(
+              'w-full text-left rounded-md px-2.5 py-2 transition-colors',
+              prompt.id === activeId
+                ? 'bg-primary/15 text-foreground'
+                : 'text-muted-foreground hover:bg-accent hover:text-foreground'
+            )}
+            data-testid={`prompt-record-${prompt.id}`}
+          >
+            <p className="text-xs font-medium break-words">{prompt.label}</p>
+            <p className="text-[11px] text-muted-foreground">
+              {new Date(prompt.createdAt).toLocaleString()} · ~
+              {formatTokenCount(prompt.estimatedTokens)} tokens
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-4">
+        {isLoadingRecord || !record ? (
+          <div className="flex items-center justify-center h-full text-muted-foreground">
+            <Spinner size="md" className="mr-2" />
+            Loading prompt...
+          </div>
+        ) : (
+          <PromptRecordDetails record={record} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PromptRecordDetails({ record }: { record: FeaturePromptRecord }) {
+  const { budget } = record;
+
+  return (
+    <>
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          <span className="font-mono">{record.model}</span> · ~
+          {formatTokenCount(record.estimatedTokens)} tokens
+          {budget && (
+            <>
+              {' '}
+              of a {formatTokenCount(budget.budgetTokens)} budget (
+              {formatTokenCount(budget.contextWindow)} context window)
+            </>
+          )}
+        </p>
+        {budget && budget.sections.length > 0 && (
+          <div className="space-y-1" data-testid="prompt-budget-sections">
+            {budget.sections.map((section) => (
+              <div key={section.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate">
+                  {section.label}
+                  {section.target === 'system' && (
+                    <span className="text-muted-foreground"> (system prompt)</span>
+                  )}
+                </span>
+                <span className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                  {section.action === 'kept'
+                    ? formatTokenCount(section.tokens)
+                    : `${formatTokenCount(section.tokens)} of ${formatTokenCount(section.originalTokens)}`}
+                  <Badge variant={ACTION_VARIANTS[section.action]} size="sm">
+                    {section.action}
+                  </Badge>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {record.systemPrompt && (
+        <PromptText
+          title={
+            record.systemPromptPreset
+              ? `System prompt (appended to the ${record.systemPromptPreset} preset)`
+              : 'System prompt'
+          }
+          text={record.systemPrompt}
+        />
+      )}
+      <PromptText title="Prompt" text={record.prompt} />
+    </>
+  );
+}
+
+function PromptText({ title, text }: { title: string; text: string }) {
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-foreground">{title}</p>
+      <pre className="bg-popover border border-border/50 rounded-lg p-3 font-mono text-xs whitespace-pre-wrap wrap-break-word text-foreground/80">
+        {text}
+      </pre>
+    </div>
+  );
+}
@@ -46,12 +46,14 @@ import {
   AgentOutputModal,
   BacklogPlanDialog,
   CompletedFeaturesModal,
+  CompetitionDialog,
   ArchiveAllVerifiedDialog,
   DeleteCompletedFeatureDialog,
   DependencyLinkDialog,
   EditFeatureDialog,
   FollowUpDialog,
   PlanApprovalDialog,
+  PRReviewThreadsDialog,
   PullResolveConflictsDialog,
 } from './board-view/dialogs';
 import type { DependencyLinkType } from './board-view/dialogs';
@@ -62,7 +64,7 @@ import { CommitWorktreeDialog } from './board-view/dialogs/commit-worktree-dialo
 import { CreatePRDialog } from './board-view/dialogs/create-pr-dialog';
 import { CreateBranchDialog } from './board-view/dialogs/create-branch-dialog';
 import { WorktreePanel } from './board-view/worktree-panel';
-import type { PRInfo, WorktreeInfo, MergeConflictInfo } from './board-view/worktree-panel/types';
+import type { WorktreeInfo, MergeConflictInfo } from './board-view/worktree-panel/types';
 import { COLUMNS, getColumnsWithPipeline } from './board-view/constants';
 import {
   useBoardFeatures,
@@ -161,6 +163,8 @@ export function BoardView() {
   const [deleteCompletedFeature, setDeleteCompletedFeature] = useState<Feature | null>(null);
   // State for viewing plan in read-only mode
   const [viewPlanFeature, setViewPlanFeature] = useState<Feature | null>(null);
+  // Feature whose competition is being set up or compared (looked up live so results stream in)
+  const [competitionFeatureId, setCompetitionFeatureId] = useState<string | null>(null);
 
   // State for spawn task mode
   const [spawnParentFeature, setSpawnParentFeature] = useState<Feature | null>(null);
@@ -172,6 +176,7 @@ export function BoardView() {
   const [showCreatePRDialog, setShowCreatePRDialog] = useState(false);
   const [showCreateBranchDialog, setShowCreateBranchDialog] = useState(false);
   const [showPullResolveConflictsDialog, setShowPullResolveConflictsDialog] = useState(false);
+  const [showPRReviewThreadsDialog, setShowPRReviewThreadsDialog] = useState(false);
   const [selectedWorktreeForAction, setSelectedWorktreeForAction] = useState<WorktreeInfo | null>(
     null
   );
@@ -855,12 +860,20 @@ export function BoardView() {
     }
   }, [currentProject, selectedFeatureIds, loadFeatures, exitSelectionMode]);
 
-  // Handler for addressing PR comments - creates a feature and starts it automatically
-  const handleAddressPRComments = useCallback(
-    async (worktree: WorktreeInfo, prInfo: PRInfo) => {
+  // Handler for addressing PR comments - opens dialog to pick review threads for the branch's feature
+  const handleAddressPRComments = useCallback((worktree: WorktreeInfo) => {
+    setSelectedWorktreeForAction(worktree);
+    setShowPRReviewThreadsDialog(true);
+  }, []);
+
+  // Handler for branches without a feature - creates a feature and starts it automatically
+  const handleCreatePRReviewFeature = useCallback(
+    async (worktree: WorktreeInfo) => {
+      const prNumber = worktree.pr?.number;
+      if (!prNumber) return;
+
       // Use a simple prompt that instructs the agent to read and address PR feedback
       // The agent will fetch the PR comments directly, which is more reliable and up-to-date
-      const prNumber = prInfo.number;
       const description = `Read the review requests on PR #${prNumber} and address any feedback the best you can.`;
 
       // Create the feature
@@ -1500,6 +1513,7 @@ export function BoardView() {
               onImplement={handleStartImplementation}
               onViewPlan={(feature) => setViewPlanFeature(feature)}
               onApprovePlan={handleOpenApprovalDialog}
+              onCompete={(feature) => setCompetitionFeatureId(feature.id)}
               onSpawnTask={(feature) => {
                 setSpawnParentFeature(feature);
                 setShowAddDialog(true);
@@ -1653,6 +1667,16 @@ export function BoardView() {
         branchName={outputFeature?.branchName}
       />
 
+      {/* Competition Dialog */}
+      <CompetitionDialog
+        open={competitionFeatureId !== null}
+        onOpenChange={(open) => {
+          if (!open) setCompetitionFeatureId(null);
+        }}
+        feature={hookFeatures.find((f) => f.id === competitionFeatureId) ?? null}
+        projectPath={currentProject?.path ?? ''}
+      />
+
       {/* Archive All Verified Dialog */}
       <ArchiveAllVerifiedDialog
         open={showArchiveAllVerifiedDialog}
@@ -1800,6 +1824,15 @@ export function BoardView() {
         }}
       />
 
+      {/* PR Review Threads Dialog */}
+      <PRReviewThreadsDialog
+        open={showPRReviewThreadsDialog}
+        onOpenChange={setShowPRReviewThreadsDialog}
+        worktree={selectedWorktreeForAction}
+        projectPath={currentProject.path}
+        onCreateFeature={handleCreatePRReviewFeature}
+      />
+
       {/* Pull & Resolve Conflicts Dialog */}
       <PullResolveConflictsDialog
         open={showPullResolveConflictsDialog}
@@ -3,7 +3,7 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { Wand2, GitBranch, ClipboardCheck, RefreshCw } from 'lucide-react';
+import { Wand2, GitBranch, ClipboardCheck, RefreshCw, Coins } from 'lucide-react';
 import { UsagePopover } from '@/components/usage-popover';
 import { useAppStore } from '@/store/app-store';
 import { useSetupStore } from '@/store/setup-store';
@@ -12,6 +12,8 @@ import { AutoModeSettingsPopover } from './dialogs/auto-mode-settings-popover';
 import { WorktreeSettingsPopover } from './dialogs/worktree-settings-popover';
 import { PlanSettingsPopover } from './dialogs/plan-settings-popover';
 import { getHttpApiClient } from '@/lib/http-api-client';
+import { useProjectUsage } from '@/hooks/queries';
+import { formatCostUsd, formatTokenCount } from '@/lib/usage-format';
 import { BoardSearchBar } from './board-search-bar';
 import { BoardControls } from './board-controls';
 import { ViewToggle, type ViewMode } from './components';
@@ -67,6 +69,7 @@ export function BoardHeader({
   viewMode,
   onViewModeChange,
 }: BoardHeaderProps) {
+  const { data: projectUsage } = useProjectUsage(projectPath);
   const claudeAuthStatus = useSetupStore((state) => state.claudeAuthStatus);
   const skipVerificationInAutoMode = useAppStore((state) => state.skipVerificationInAutoMode);
   const setSkipVerificationInAutoMode = useAppStore((state) => state.setSkipVerificationInAutoMode);
@@ -158,6 +161,23 @@ export function BoardHeader({
             <TooltipContent side="bottom">Refresh board state from server</TooltipContent>
           </Tooltip>
         )}
+        {/* Project cost total - sum of token cost across all cards */}
+        {isMounted && !isTablet && projectUsage && projectUsage.totals.costUsd > 0 && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className={controlContainerClass} data-testid="project-cost-total">
+                <Coins className="w-4 h-4 text-muted-foreground" />
+                <span className="text-xs font-medium font-mono">
+                  {formatCostUsd(projectUsage.totals.costUsd)}
+                </span>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              Project token cost ({formatTokenCount(projectUsage.totals.outputTokens)} output tokens
+              across {Object.keys(projectUsage.features).length} features)
+            </TooltipContent>
+          </Tooltip>
+        )}
         {/* Usage Popover - show if either provider is authenticated, only on desktop */}
         {isMounted && !isTablet && (showClaudeUsage || showCodexUsage) && <UsagePopover />}
 
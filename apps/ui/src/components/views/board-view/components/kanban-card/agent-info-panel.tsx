@@ -286,6 +286,13 @@ export const AgentInfoPanel = memo(function AgentInfoPanel({
     );
   }
 
+  // Model that finished the feature, when a fallback model took over
+  const completedModelName = feature.completedModel && formatModelName(feature.completedModel);
+  const fallbackModelName =
+    completedModelName && completedModelName !== formatModelName(feature.model ?? DEFAULT_MODEL)
+      ? completedModelName
+      : null;
+
   // Agent Info Panel for non-backlog cards
   // Show panel if we have agentInfo OR planSpec.tasks (for spec/full mode)
   // Note: hasPlanSpecTasks is already defined above and includes freshPlanSpec
@@ -303,6 +310,18 @@ export const AgentInfoPanel = memo(function AgentInfoPanel({
               })()}
               <span className="font-medium">{formatModelName(feature.model ?? DEFAULT_MODEL)}</span>
             </div>
+            {fallbackModelName && (
+              <div
+                className="flex items-center gap-1 text-[var(--status-warning)]"
+                title={`Finished on ${fallbackModelName} after falling back`}
+              >
+                {(() => {
+                  const ProviderIcon = getProviderIconForModel(feature.completedModel);
+                  return <ProviderIcon className="w-3 h-3" />;
+                })()}
+                <span className="font-medium">{fallbackModelName}</span>
+              </div>
+            )}
             {agentInfo?.currentPhase && (
               <div
                 className={cn(
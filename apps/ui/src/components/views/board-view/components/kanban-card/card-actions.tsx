@@ -12,6 +12,7 @@ import {
   Eye,
   Wand2,
   Archive,
+  Swords,
 } from 'lucide-react';
 
 interface CardActionsProps {
@@ -31,6 +32,7 @@ interface CardActionsProps {
   onComplete?: () => void;
   onViewPlan?: () => void;
   onApprovePlan?: () => void;
+  onCompete?: () => void;
 }
 
 export const CardActions = memo(function CardActions({
@@ -50,12 +52,36 @@ export const CardActions = memo(function CardActions({
   onComplete,
   onViewPlan,
   onApprovePlan,
+  onCompete,
 }: CardActionsProps) {
   // Hide all actions when in selection mode
   if (isSelectionMode) {
     return null;
   }
 
+  // Features stopped by a budget limit can be edited and started again like backlog items
+  const isStartable = feature.status === 'backlog' || feature.status === 'budget_exceeded';
+  // Candidates of a running or finished competition can be compared from the card
+  const hasCompetitionResults =
+    feature.competition?.status === 'running' || feature.competition?.status === 'completed';
+
+  const compareButton = hasCompetitionResults && onCompete && (
+    <Button
+      variant="secondary"
+      size="sm"
+      className="flex-1 h-7 text-[11px] min-w-0"
+      onClick={(e) => {
+        e.stopPropagation();
+        onCompete();
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+      data-testid={`compare-candidates-${feature.id}`}
+    >
+      <Swords className="w-3 h-3 mr-1 shrink-0" />
+      <span className="truncate">Compare</span>
+    </Button>
+  );
+
   return (
     <div className="flex flex-wrap gap-1.5 -mx-3 -mb-3 px-3 pb-3">
       {isCurrentAutoTask && (
@@ -101,6 +127,7 @@ export const CardActions = memo(function CardActions({
               )}
             </Button>
           )}
+          {compareButton}
           {onForceStop && (
             <Button
               variant="destructive"
@@ -242,6 +269,7 @@ export const CardActions = memo(function CardActions({
       )}
       {!isCurrentAutoTask && feature.status === 'waiting_approval' && (
         <>
+          {compareButton}
           {/* Refine prompt button */}
           {onFollowUp && (
             <Button
@@ -293,7 +321,7 @@ export const CardActions = memo(function CardActions({
           ) : null}
         </>
       )}
-      {!isCurrentAutoTask && feature.status === 'backlog' && (
+      {!isCurrentAutoTask && isStartable && (
         <>
           <Button
             variant="secondary"
@@ -325,6 +353,22 @@ export const CardActions = memo(function CardActions({
               <Eye className="w-3 h-3" />
             </Button>
           )}
+          {onCompete && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs px-2"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCompete();
+              }}
+              onPointerDown={(e) => e.stopPropagation()}
+              data-testid={`compete-${feature.id}`}
+              title="Compete: run with several models or prompts"
+            >
+              <Swords className="w-3 h-3" />
+            </Button>
+          )}
           {onImplement && (
             <Button
               variant="default"
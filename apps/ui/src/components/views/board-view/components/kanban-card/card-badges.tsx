@@ -3,10 +3,21 @@ import { memo, useEffect, useMemo, useState } from 'react';
 import { Feature, useAppStore } from '@/store/app-store';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { AlertCircle, Lock, Hand, Sparkles, SkipForward } from 'lucide-react';
+import {
+  AlertCircle,
+  Lock,
+  Hand,
+  Sparkles,
+  SkipForward,
+  Coins,
+  Wallet,
+  ShieldAlert,
+} from 'lucide-react';
 import { getBlockingDependencies } from '@automaker/dependency-resolver';
 import { useShallow } from 'zustand/react/shallow';
 import { usePipelineConfig } from '@/hooks/queries/use-pipeline';
+import { useProjectUsage } from '@/hooks/queries/use-features';
+import { formatCostUsd, formatTokenCount } from '@/lib/usage-format';
 
 /** Uniform badge style for all card badges */
 const uniformBadgeClass =
@@ -17,33 +28,63 @@ interface CardBadgesProps {
 }
 
 /**
- * CardBadges - Shows error badges below the card header
+ * CardBadges - Shows error and failed pipeline step badges below the card header
  * Note: Blocked/Lock badges are now shown in PriorityBadges for visual consistency
  */
 export const CardBadges = memo(function CardBadges({ feature }: CardBadgesProps) {
-  if (!feature.error) {
+  const failedSteps = (feature.pipelineResults ?? []).filter((result) => result.verdict === 'fail');
+
+  if (!feature.error && failedSteps.length === 0) {
     return null;
   }
 
   return (
     <div className="flex flex-wrap items-center gap-1.5 px-3 pt-1.5 min-h-[24px]">
       {/* Error badge */}
-      <Tooltip>
-        <TooltipTrigger asChild>
-          <div
-            className={cn(
-              uniformBadgeClass,
-              'bg-[var(--status-error-bg)] border-[var(--status-error)]/40 text-[var(--status-error)]'
-            )}
-            data-testid={`error-badge-${feature.id}`}
-          >
-            <AlertCircle className="w-3.5 h-3.5" />
-          </div>
-        </TooltipTrigger>
-        <TooltipContent side="bottom" className="text-xs max-w-[250px]">
-          <p>{feature.error}</p>
-        </TooltipContent>
-      </Tooltip>
+      {feature.error && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div
+              className={cn(
+                uniformBadgeClass,
+                'bg-[var(--status-error-bg)] border-[var(--status-error)]/40 text-[var(--status-error)]'
+              )}
+              data-testid={`error-badge-${feature.id}`}
+            >
+              <AlertCircle className="w-3.5 h-3.5" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="text-xs max-w-[250px]">
+            <p>{feature.error}</p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {/* Failed pipeline steps badge */}
+      {failedSteps.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div
+              className={cn(
+                uniformBadgeClass,
+                'bg-amber-500/20 border-amber-500/50 text-amber-500'
+              )}
+              data-testid={`failed-steps-badge-${feature.id}`}
+            >
+              <ShieldAlert className="w-3.5 h-3.5" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="text-xs max-w-[250px]">
+            <p className="font-medium mb-1">Failed pipeline steps</p>
+            {failedSteps.map((result) => (
+              <p key={result.stepId}>
+                {result.stepName}
+                {result.summary ? `: ${result.summary.split('\n')[0]}` : ''}
+              </p>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      )}
     </div>
   );
 });
@@ -118,13 +159,15 @@ export const PriorityBadges = memo(function PriorityBadges({
   const hasPipelineExclusions =
     excludedStepCount > 0 && totalPipelineSteps > 0 && feature.status === 'backlog';
   const allPipelinesExcluded = hasPipelineExclusions && excludedStepCount >= totalPipelineSteps;
+  const isBudgetExceeded = feature.status === 'budget_exceeded';
 
   const showBadges =
     feature.priority ||
     showManualVerification ||
     isBlocked ||
     isJustFinished ||
-    hasPipelineExclusions;
+    hasPipelineExclusions ||
+    isBudgetExceeded;
 
   if (!showBadges) {
     return null;
@@ -216,6 +259,30 @@ export const PriorityBadges = memo(function PriorityBadges({
         </Tooltip>
       )}
 
+      {/* Budget exceeded badge */}
+      {isBudgetExceeded && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div
+              className={cn(
+                uniformBadgeClass,
+                'bg-[var(--status-error-bg)] border-[var(--status-error)]/40 text-[var(--status-error)]'
+              )}
+              data-testid={`budget-exceeded-badge-${feature.id}`}
+            >
+              <Wallet className="w-3.5 h-3.5" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="text-xs max-w-[250px]">
+            <p className="font-medium mb-1">Budget exceeded</p>
+            <p className="text-muted-foreground">
+              The agent was stopped after hitting a budget limit. Raise the limit in project
+              settings before starting it again.
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
       {/* Just Finished badge */}
       {isJustFinished && (
         <Tooltip>
@@ -269,3 +336,44 @@ export const PriorityBadges = memo(function PriorityBadges({
     </div>
   );
 });
+
+interface CostBadgeProps {
+  feature: Feature;
+  projectPath?: string;
+}
+
+/**
+ * CostBadge - Shows the token cost accumulated by a feature across
+ * implementation, pipeline steps and follow-ups
+ */
+export const CostBadge = memo(function CostBadge({ feature, projectPath }: CostBadgeProps) {
+  const { data: projectUsage } = useProjectUsage(projectPath);
+  const usage = projectUsage?.features[feature.id];
+
+  if (!usage) {
+    return null;
+  }
+
+  const totalInput = usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className="mb-2 inline-flex items-center gap-1 text-[11px] text-muted-foreground"
+          data-testid={`cost-badge-${feature.id}`}
+        >
+          <Coins className="w-3 h-3 shrink-0" />
+          <span className="font-mono">{formatCostUsd(usage.costUsd)}</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="text-xs">
+        <p className="font-medium mb-1">Token usage</p>
+        <p className="text-muted-foreground">
+          {formatTokenCount(totalInput)} in ({formatTokenCount(usage.cacheReadTokens)} cached) ·{' '}
+          {formatTokenCount(usage.outputTokens)} out
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+});
@@ -1,7 +1,18 @@
 // @ts-nocheck - content section prop typing with feature data extraction
 import { memo } from 'react';
 import { Feature } from '@/store/app-store';
-import { GitBranch, GitPullRequest, ExternalLink } from 'lucide-react';
+import {
+  GitBranch,
+  GitPullRequest,
+  ExternalLink,
+  Check,
+  X,
+  Layers,
+  Circle,
+  CircleDot,
+  ListChecks,
+} from 'lucide-react';
+import { Spinner } from '@/components/ui/spinner';
 
 interface CardContentSectionsProps {
   feature: Feature;
@@ -12,8 +23,91 @@ export const CardContentSections = memo(function CardContentSections({
   feature,
   useWorktrees,
 }: CardContentSectionsProps) {
+  const prUrl = feature.pullRequest?.url ?? feature.prUrl;
+  const stage = feature.pipelineStage;
+  const stageResults = new Map(
+    (feature.pipelineResults ?? [])
+      .filter((result) => stage && result.completedAt >= stage.startedAt)
+      .map((result) => [result.stepId, result])
+  );
+  const criteria = feature.acceptanceCriteria ?? [];
+  const passedCriteria = criteria.filter((criterion) => criterion.status === 'pass').length;
+
   return (
     <>
+      {/* Parallel pipeline stage progress */}
+      {stage && (
+        <div className="mb-2 space-y-1" data-testid={`pipeline-stage-${feature.id}`}>
+          <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+            <Layers className="w-3 h-3 shrink-0" />
+            <span className="truncate">{stage.name}</span>
+            <span className="ml-auto tabular-nums">
+              {stageResults.size}/{stage.steps.length}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {stage.steps.map(({ stepId, stepName }) => {
+              const verdict = stageResults.get(stepId)?.verdict;
+              return (
+                <span
+                  key={stepId}
+                  className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-muted/50 text-[10px] text-muted-foreground"
+                >
+                  {verdict === 'fail' ? (
+                    <X className="w-2.5 h-2.5 text-[var(--status-error)]" />
+                  ) : verdict ? (
+                    <Check className="w-2.5 h-2.5 text-[var(--status-success)]" />
+                  ) : (
+                    <Spinner size="xs" />
+                  )}
+                  {stepName}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Acceptance criteria checklist, scored by the acceptance judge */}
+      {criteria.length > 0 && (
+        <div className="mb-2 space-y-1" data-testid={`acceptance-criteria-${feature.id}`}>
+          <div
+            className="flex items-center gap-1.5 text-[11px] text-muted-foreground"
+            title={feature.acceptanceJudgement?.summary}
+          >
+            <ListChecks className="w-3 h-3 shrink-0" />
+            <span>Acceptance criteria</span>
+            <span className="ml-auto tabular-nums">
+              {passedCriteria}/{criteria.length}
+            </span>
+          </div>
+          <ul className="space-y-0.5">
+            {criteria.map((criterion) => (
+              <li
+                key={criterion.id}
+                className="flex items-start gap-1.5 text-[10px] text-muted-foreground"
+                title={[
+                  criterion.description,
+                  criterion.score !== undefined ? `Score: ${criterion.score}/100` : null,
+                  criterion.evidence,
+                ]
+                  .filter(Boolean)
+                  .join('\n')}
+              >
+                {criterion.status === 'pass' ? (
+                  <Check className="w-2.5 h-2.5 mt-0.5 shrink-0 text-[var(--status-success)]" />
+                ) : criterion.status === 'fail' ? (
+                  <X className="w-2.5 h-2.5 mt-0.5 shrink-0 text-[var(--status-error)]" />
+                ) : (
+                  <Circle className="w-2.5 h-2.5 mt-0.5 shrink-0" />
+                )}
+                <span className="line-clamp-1">{criterion.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Target Branch Display */}
       {useWorktrees && feature.branchName && (
         <div className="mb-2 flex items-center gap-1.5 text-[11px] text-muted-foreground">
@@ -24,26 +118,54 @@ export const CardContentSections = memo(function CardContentSections({
         </div>
       )}
 
-      {/* PR URL Display */}
-      {typeof feature.prUrl === 'string' &&
-        /^https?:\/\//i.test(feature.prUrl) &&
+      {/* Linked issue */}
+      {typeof feature.issueLink?.url === 'string' &&
+        /^https?:\/\//i.test(feature.issueLink.url) && (
+          <div className="mb-2">
+            <a
+              href={feature.issueLink.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              onPointerDown={(e) => e.stopPropagation()}
+              className="inline-flex items-center gap-1.5 text-[11px] text-green-500 hover:text-green-400 transition-colors"
+              title={feature.issueLink.title ?? feature.issueLink.url}
+              data-testid={`issue-link-${feature.id}`}
+            >
+              <CircleDot className="w-3 h-3 shrink-0" />
+              <span className="truncate max-w-[150px]">
+                Issue {feature.issueLink.key ?? `#${feature.issueLink.number}`}
+              </span>
+              <ExternalLink className="w-2.5 h-2.5 shrink-0" />
+            </a>
+          </div>
+        )}
+
+      {/* PR URL Display - from the PR recorded by issue sync, or a UI-set URL */}
+      {typeof prUrl === 'string' &&
+        /^https?:\/\//i.test(prUrl) &&
         (() => {
-          const prNumber = feature.prUrl.split('/').pop();
+          const prNumber = feature.pullRequest?.number ?? prUrl.split('/').pop();
+          const prState =
+            feature.pullRequest && feature.pullRequest.state !== 'OPEN'
+              ? ` (${feature.pullRequest.state.toLowerCase()})`
+              : '';
           return (
             <div className="mb-2">
               <a
-                href={feature.prUrl}
+                href={prUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 onClick={(e) => e.stopPropagation()}
                 onPointerDown={(e) => e.stopPropagation()}
                 className="inline-flex items-center gap-1.5 text-[11px] text-purple-500 hover:text-purple-400 transition-colors"
-                title={feature.prUrl}
+                title={prUrl}
                 data-testid={`pr-url-${feature.id}`}
               >
                 <GitPullRequest className="w-3 h-3 shrink-0" />
                 <span className="truncate max-w-[150px]">
                   {prNumber ? `Pull Request #${prNumber}` : 'Pull Request'}
+                  {prState}
                 </span>
                 <ExternalLink className="w-2.5 h-2.5 shrink-0" />
               </a>
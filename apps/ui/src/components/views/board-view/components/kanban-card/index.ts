@@ -1,6 +1,6 @@
 export { AgentInfoPanel } from './agent-info-panel';
 export { CardActions } from './card-actions';
-export { CardBadges, PriorityBadges } from './card-badges';
+export { CardBadges, PriorityBadges, CostBadge } from './card-badges';
 export { CardContentSections } from './card-content-sections';
 export { CardHeaderSection } from './card-header';
 export { KanbanCard } from './kanban-card';
@@ -6,7 +6,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Feature, useAppStore } from '@/store/app-store';
 import { useShallow } from 'zustand/react/shallow';
-import { CardBadges, PriorityBadges } from './card-badges';
+import { CardBadges, PriorityBadges, CostBadge } from './card-badges';
 import { CardHeaderSection } from './card-header';
 import { CardContentSections } from './card-content-sections';
 import { AgentInfoPanel } from './agent-info-panel';
@@ -51,6 +51,7 @@ interface KanbanCardProps {
   onComplete?: () => void;
   onViewPlan?: () => void;
   onApprovePlan?: () => void;
+  onCompete?: () => void;
   onSpawnTask?: () => void;
   hasContext?: boolean;
   isCurrentAutoTask?: boolean;
@@ -85,6 +86,7 @@ export const KanbanCard = memo(function KanbanCard({
   onComplete,
   onViewPlan,
   onApprovePlan,
+  onCompete,
   onSpawnTask,
   hasContext,
   isCurrentAutoTask,
@@ -121,6 +123,7 @@ export const KanbanCard = memo(function KanbanCard({
   const isDraggable =
     !isSelectionMode &&
     (feature.status === 'backlog' ||
+      feature.status === 'budget_exceeded' ||
       feature.status === 'waiting_approval' ||
       feature.status === 'verified' ||
       feature.status.startsWith('pipeline_') ||
@@ -255,6 +258,9 @@ export const KanbanCard = memo(function KanbanCard({
         {/* Content Sections */}
         <CardContentSections feature={feature} useWorktrees={useWorktrees} />
 
+        {/* Accumulated token cost */}
+        <CostBadge feature={feature} projectPath={currentProject?.path} />
+
         {/* Agent Info Panel */}
         <AgentInfoPanel
           feature={feature}
@@ -282,6 +288,7 @@ export const KanbanCard = memo(function KanbanCard({
           onComplete={onComplete}
           onViewPlan={onViewPlan}
           onApprovePlan={onApprovePlan}
+          onCompete={onCompete}
         />
       </CardContent>
     </Card>
@@ -11,9 +11,22 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Upload } from 'lucide-react';
 import { toast } from 'sonner';
-import type { PipelineStep } from '@automaker/types';
+import type {
+  PipelineStep,
+  PipelineStepConditions,
+  PipelineStepFailureAction,
+  PipelineStepType,
+} from '@automaker/types';
+import { DEFAULT_PIPELINE_SHELL_TIMEOUT_MS } from '@automaker/types';
 import { cn } from '@/lib/utils';
 import { STEP_TEMPLATES } from './pipeline-step-templates';
 
@@ -30,6 +43,38 @@ const COLOR_OPTIONS = [
   { value: 'bg-indigo-500/20', label: 'Indigo', preview: 'bg-indigo-500' },
 ];
 
+const STEP_TYPE_OPTIONS: Array<{ value: PipelineStepType; label: string; description: string }> = [
+  {
+    value: 'agent-prompt',
+    label: 'Agent prompt',
+    description: 'The agent follows the instructions and may change code.',
+  },
+  {
+    value: 'shell-command',
+    label: 'Shell command',
+    description: 'Runs a command in the worktree. Passes when it exits with code 0.',
+  },
+  {
+    value: 'review',
+    label: 'Review',
+    description: 'A read-only agent checks the work against the criteria and passes or fails it.',
+  },
+];
+
+const FAILURE_OPTIONS: Array<{ value: PipelineStepFailureAction; label: string }> = [
+  { value: 'stop', label: 'Stop the pipeline' },
+  { value: 'retry', label: 'Retry the step' },
+  { value: 'loop-back', label: 'Send back to implementation' },
+  { value: 'continue', label: 'Record and continue' },
+];
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 interface AddEditPipelineStepDialogProps {
   open: boolean;
   onClose: () => void;
@@ -52,6 +97,15 @@ export function AddEditPipelineStepDialog({
   const [instructions, setInstructions] = useState('');
   const [colorClass, setColorClass] = useState(COLOR_OPTIONS[0].value);
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
+  const [stepType, setStepType] = useState<PipelineStepType>('agent-prompt');
+  const [command, setCommand] = useState('');
+  const [timeoutSeconds, setTimeoutSeconds] = useState('');
+  const [failureAction, setFailureAction] = useState<PipelineStepFailureAction>('stop');
+  const [maxAttempts, setMaxAttempts] = useState('1');
+  const [categories, setCategories] = useState('');
+  const [labels, setLabels] = useState('');
+  const [changedFiles, setChangedFiles] = useState('');
+  const [stage, setStage] = useState('');
 
   // Reset form when dialog opens/closes or existingStep changes
   useEffect(() => {
@@ -61,11 +115,29 @@ export function AddEditPipelineStepDialog({
         setInstructions(existingStep.instructions);
         setColorClass(existingStep.colorClass);
         setSelectedTemplate(null);
+        setStepType(existingStep.type ?? 'agent-prompt');
+        setCommand(existingStep.command ?? '');
+        setTimeoutSeconds(existingStep.timeoutMs ? String(existingStep.timeoutMs / 1000) : '');
+        setFailureAction(existingStep.onFailure?.action ?? 'stop');
+        setMaxAttempts(String(existingStep.onFailure?.maxAttempts ?? 1));
+        setCategories((existingStep.conditions?.categories ?? []).join(', '));
+        setLabels((existingStep.conditions?.labels ?? []).join(', '));
+        setChangedFiles((existingStep.conditions?.changedFiles ?? []).join('\n'));
+        setStage(existingStep.stage ?? '');
       } else {
         setName('');
         setInstructions('');
         setColorClass(COLOR_OPTIONS[defaultOrder % COLOR_OPTIONS.length].value);
         setSelectedTemplate(null);
+        setStepType('agent-prompt');
+        setCommand('');
+        setTimeoutSeconds('');
+        setFailureAction('stop');
+        setMaxAttempts('1');
+        setCategories('');
+        setLabels('');
+        setChangedFiles('');
+        setStage('');
       }
     }
   }, [open, existingStep, defaultOrder]);
@@ -109,17 +181,46 @@ export function AddEditPipelineStepDialog({
       return;
     }
 
-    if (!instructions.trim()) {
-      toast.error('Step instructions are required');
+    if (stepType === 'shell-command' && !command.trim()) {
+      toast.error('A command is required for shell steps');
       return;
     }
 
+    if (stepType !== 'shell-command' && !instructions.trim()) {
+      toast.error(
+        stepType === 'review' ? 'Review criteria are required' : 'Step instructions are required'
+      );
+      return;
+    }
+
+    const conditions: PipelineStepConditions = {
+      categories: splitList(categories),
+      labels: splitList(labels),
+      changedFiles: splitList(changedFiles),
+    };
+    const hasConditions = Object.values(conditions).some((list) => list.length > 0);
+    const timeout = Number(timeoutSeconds);
+    const attempts = Math.max(1, Math.floor(Number(maxAttempts)) || 1);
+
     onSave({
       id: existingStep?.id,
       name: name.trim(),
       instructions: instructions.trim(),
       colorClass,
       order: existingStep?.order ?? defaultOrder,
+      type: stepType,
+      command: stepType === 'shell-command' ? command.trim() : undefined,
+      timeoutMs:
+        stepType === 'shell-command' && timeout > 0 ? Math.round(timeout * 1000) : undefined,
+      onFailure:
+        failureAction === 'stop'
+          ? undefined
+          : {
+              action: failureAction,
+              maxAttempts: failureAction === 'continue' ? undefined : attempts,
+            },
+      conditions: hasConditions ? conditions : undefined,
+      stage: stage.trim() || undefined,
     });
 
     onClose();
@@ -194,6 +295,29 @@ export function AddEditPipelineStepDialog({
             />
           </div>
 
+          {/* Step Type */}
+          <div className="space-y-2">
+            <Label>Step Type</Label>
+            <Select
+              value={stepType}
+              onValueChange={(value) => setStepType(value as PipelineStepType)}
+            >
+              <SelectTrigger data-testid="pipeline-step-type-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STEP_TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {STEP_TYPE_OPTIONS.find((option) => option.value === stepType)?.description}
+            </p>
+          </div>
+
           {/* Color Selection */}
           <div className="space-y-2">
             <Label>Column Color</Label>
@@ -216,11 +340,45 @@ export function AddEditPipelineStepDialog({
             </div>
           </div>
 
+          {/* Shell Command */}
+          {stepType === 'shell-command' && (
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem] gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="step-command">
+                  Command <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="step-command"
+                  placeholder="e.g., npm test"
+                  value={command}
+                  onChange={(e) => setCommand(e.target.value)}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="step-timeout">Timeout (seconds)</Label>
+                <Input
+                  id="step-timeout"
+                  type="number"
+                  min="1"
+                  placeholder={String(DEFAULT_PIPELINE_SHELL_TIMEOUT_MS / 1000)}
+                  value={timeoutSeconds}
+                  onChange={(e) => setTimeoutSeconds(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Agent Instructions */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label htmlFor="step-instructions">
-                Agent Instructions <span className="text-destructive">*</span>
+                {stepType === 'review'
+                  ? 'Review Criteria'
+                  : stepType === 'shell-command'
+                    ? 'Fix Instructions'
+                    : 'Agent Instructions'}{' '}
+                {stepType !== 'shell-command' && <span className="text-destructive">*</span>}
               </Label>
               <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleFileUpload}>
                 <Upload className="h-3 w-3 mr-1" />
@@ -229,17 +387,129 @@ export function AddEditPipelineStepDialog({
             </div>
             <Textarea
               id="step-instructions"
-              placeholder="Instructions for the agent to follow during this pipeline step. Use markdown formatting for best results."
+              placeholder={
+                stepType === 'review'
+                  ? 'What the reviewer should check. The step fails if any criterion is not met.'
+                  : stepType === 'shell-command'
+                    ? 'Optional notes for the agent when it is sent back to fix a failure.'
+                    : 'Instructions for the agent to follow during this pipeline step. Use markdown formatting for best results.'
+              }
               value={instructions}
               onChange={(e) => setInstructions(e.target.value)}
-              rows={10}
+              rows={stepType === 'shell-command' ? 4 : 10}
               className="font-mono text-sm"
             />
             <p className="text-xs text-muted-foreground">
-              These instructions will be sent to the agent when this step runs. Be specific about
-              what you want the agent to review, check, or modify.
+              {stepType === 'review'
+                ? 'The reviewer can read the code but not change it, and must end with a pass or fail verdict.'
+                : stepType === 'shell-command'
+                  ? 'Included with the command output when the step loops back to implementation.'
+                  : 'These instructions will be sent to the agent when this step runs. Be specific about what you want the agent to review, check, or modify.'}
             </p>
           </div>
+
+          {/* Parallel Stage */}
+          <div className="space-y-2">
+            <Label htmlFor="step-stage">Parallel Stage</Label>
+            <Input
+              id="step-stage"
+              placeholder="e.g., Reviews"
+              value={stage}
+              onChange={(e) => setStage(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Steps next to each other with the same stage name run at the same time, each with its
+              own output. Their outputs are merged before the next step starts.
+            </p>
+          </div>
+
+          {/* Failure Policy */}
+          <div className="space-y-2">
+            <Label>When the step fails</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem] gap-3">
+              <Select
+                value={failureAction}
+                onValueChange={(value) => setFailureAction(value as PipelineStepFailureAction)}
+              >
+                <SelectTrigger data-testid="pipeline-step-failure-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FAILURE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {(failureAction === 'retry' || failureAction === 'loop-back') && (
+                <Input
+                  type="number"
+                  min="1"
+                  aria-label={failureAction === 'retry' ? 'Total attempts' : 'Fix passes'}
+                  value={maxAttempts}
+                  onChange={(e) => setMaxAttempts(e.target.value)}
+                />
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {failureAction === 'stop' &&
+                'The feature stops in Waiting Approval with the failure on its card and never reaches Verified.'}
+              {failureAction === 'retry' &&
+                'Total number of times the step is run before stopping.'}
+              {failureAction === 'loop-back' &&
+                'Number of times the failure output is sent back to the agent to fix before stopping.'}
+              {failureAction === 'continue' &&
+                'The failure is recorded on the card and the pipeline moves on.'}
+            </p>
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-3">
+            <div>
+              <Label>Run Only When</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Leave empty to always run. When several are set, all must match.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="step-categories" className="text-xs">
+                  Category is one of
+                </Label>
+                <Input
+                  id="step-categories"
+                  placeholder="e.g., Backend, API"
+                  value={categories}
+                  onChange={(e) => setCategories(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="step-labels" className="text-xs">
+                  Feature has a label
+                </Label>
+                <Input
+                  id="step-labels"
+                  placeholder="e.g., needs-tests, security"
+                  value={labels}
+                  onChange={(e) => setLabels(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="step-changed-files" className="text-xs">
+                Changed files match (one glob per line)
+              </Label>
+              <Textarea
+                id="step-changed-files"
+                placeholder={'src/**/*.ts\n*.sql'}
+                value={changedFiles}
+                onChange={(e) => setChangedFiles(e.target.value)}
+                rows={2}
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
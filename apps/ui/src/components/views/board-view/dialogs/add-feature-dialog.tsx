@@ -27,7 +27,12 @@ import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { modelSupportsThinking } from '@/lib/utils';
 import { useAppStore, ThinkingLevel, FeatureImage, PlanningMode, Feature } from '@/store/app-store';
-import type { ReasoningEffort, PhaseModelEntry, AgentModel } from '@automaker/types';
+import type {
+  ReasoningEffort,
+  PhaseModelEntry,
+  AgentModel,
+  AcceptanceCriterion,
+} from '@automaker/types';
 import { supportsReasoningEffort } from '@automaker/types';
 import {
   PrioritySelector,
@@ -37,6 +42,8 @@ import {
   EnhanceWithAI,
   EnhancementHistoryButton,
   PipelineExclusionControls,
+  AcceptanceCriteriaEditor,
+  createAcceptanceCriteria,
   type BaseHistoryEntry,
 } from '../shared';
 import type { WorkMode } from '../shared';
@@ -92,6 +99,7 @@ type FeatureData = {
   dependencies?: string[];
   childDependencies?: string[]; // Feature IDs that should depend on this feature
   excludedPipelineSteps?: string[]; // Pipeline step IDs to skip for this feature
+  acceptanceCriteria?: AcceptanceCriterion[]; // Judged before the feature can be verified
   workMode: WorkMode;
 };
 
@@ -190,6 +198,9 @@ export function AddFeatureDialog({
   // Pipeline exclusion state
   const [excludedPipelineSteps, setExcludedPipelineSteps] = useState<string[]>([]);
 
+  // Acceptance criteria state
+  const [acceptanceCriteria, setAcceptanceCriteria] = useState<AcceptanceCriterion[]>([]);
+
   // Get defaults from store
   const {
     defaultPlanningMode,
@@ -241,6 +252,7 @@ export function AddFeatureDialog({
 
       // Reset pipeline exclusions (all pipelines enabled by default)
       setExcludedPipelineSteps([]);
+      setAcceptanceCriteria([]);
     }
   }, [
     open,
@@ -315,6 +327,9 @@ export function AddFeatureDialog({
       }
     }
 
+    // Drop criteria that were added but left blank
+    const criteria = acceptanceCriteria.filter((c) => c.description.trim());
+
     // Determine final dependencies
     // In spawn mode, use parent feature as dependency
     // Otherwise, use manually selected parent dependencies
@@ -343,6 +358,7 @@ export function AddFeatureDialog({
       dependencies: finalDependencies,
       childDependencies: childDependencies.length > 0 ? childDependencies : undefined,
       excludedPipelineSteps: excludedPipelineSteps.length > 0 ? excludedPipelineSteps : undefined,
+      acceptanceCriteria: criteria.length > 0 ? criteria : undefined,
       workMode,
     };
   };
@@ -370,6 +386,7 @@ export function AddFeatureDialog({
     setParentDependencies([]);
     setChildDependencies([]);
     setExcludedPipelineSteps([]);
+    setAcceptanceCriteria([]);
     onOpenChange(false);
   };
 
@@ -511,7 +528,18 @@ export function AddFeatureDialog({
                   return newHistory;
                 });
               }}
+              onAcceptanceCriteria={(descriptions) =>
+                setAcceptanceCriteria(createAcceptanceCriteria(descriptions))
+              }
             />
+
+            <div className="pt-2">
+              <AcceptanceCriteriaEditor
+                criteria={acceptanceCriteria}
+                onCriteriaChange={setAcceptanceCriteria}
+                testIdPrefix="add-feature-acceptance"
+              />
+            </div>
           </div>
 
           {/* AI & Execution Section */}
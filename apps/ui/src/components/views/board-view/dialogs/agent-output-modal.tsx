@@ -6,12 +6,14 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { List, FileText, GitBranch, ClipboardList } from 'lucide-react';
+import { List, FileText, GitBranch, ClipboardList, History, ScrollText } from 'lucide-react';
 import { Spinner } from '@/components/ui/spinner';
 import { getElectronAPI } from '@/lib/electron';
 import { LogViewer } from '@/components/ui/log-viewer';
 import { GitDiffPanel } from '@/components/ui/git-diff-panel';
 import { TaskProgressPanel } from '@/components/ui/task-progress-panel';
+import { CheckpointTimeline } from '@/components/ui/checkpoint-timeline';
+import { PromptInspector } from '@/components/ui/prompt-inspector';
 import { Markdown } from '@/components/ui/markdown';
 import { useAppStore } from '@/store/app-store';
 import { extractSummary } from '@/lib/log-parser';
@@ -34,7 +36,7 @@ interface AgentOutputModalProps {
   branchName?: string;
 }
 
-type ViewMode = 'summary' | 'parsed' | 'raw' | 'changes';
+type ViewMode = 'summary' | 'parsed' | 'raw' | 'changes' | 'timeline' | 'prompts';
 
 export function AgentOutputModal({
   open,
@@ -383,6 +385,34 @@ export function AgentOutputModal({
                 <FileText className="w-3.5 h-3.5" />
                 Raw
               </button>
+              {!isBacklogPlan && (
+                <button
+                  onClick={() => setViewMode('timeline')}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all whitespace-nowrap ${
+                    effectiveViewMode === 'timeline'
+                      ? 'bg-primary/20 text-primary shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+                  }`}
+                  data-testid="view-mode-timeline"
+                >
+                  <History className="w-3.5 h-3.5" />
+                  Timeline
+                </button>
+              )}
+              {!isBacklogPlan && (
+                <button
+                  onClick={() => setViewMode('prompts')}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all whitespace-nowrap ${
+                    effectiveViewMode === 'prompts'
+                      ? 'bg-primary/20 text-primary shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+                  }`}
+                  data-testid="view-mode-prompts"
+                >
+                  <ScrollText className="w-3.5 h-3.5" />
+                  Prompts
+                </button>
+              )}
             </div>
           </div>
           <DialogDescription
@@ -419,6 +449,18 @@ export function AgentOutputModal({
               </div>
             )}
           </div>
+        ) : effectiveViewMode === 'timeline' ? (
+          <div className="flex-1 min-h-0 sm:min-h-[200px] sm:max-h-[60vh] overflow-y-auto bg-card border border-border/50 rounded-lg p-4 scrollbar-visible">
+            <CheckpointTimeline
+              featureId={featureId}
+              projectPath={resolvedProjectPath}
+              useWorktrees={useWorktrees}
+            />
+          </div>
+        ) : effectiveViewMode === 'prompts' ? (
+          <div className="flex-1 min-h-0 sm:min-h-[200px] sm:max-h-[60vh] overflow-y-auto bg-card border border-border/50 rounded-lg p-4 scrollbar-visible">
+            <PromptInspector featureId={featureId} projectPath={resolvedProjectPath} />
+          </div>
         ) : effectiveViewMode === 'summary' && summary ? (
           <div className="flex-1 min-h-0 sm:min-h-[200px] sm:max-h-[60vh] overflow-y-auto bg-card border border-border/50 rounded-lg p-4 scrollbar-visible">
             <Markdown>{summary}</Markdown>
@@ -0,0 +1,432 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { GitDiffPanel } from '@/components/ui/git-diff-panel';
+import { PhaseModelSelector } from '@/components/views/settings-view/model-defaults/phase-model-selector';
+import { Plus, Swords, Trophy, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { getElectronAPI } from '@/lib/electron';
+import { cn, getModelDisplayName, modelSupportsThinking } from '@/lib/utils';
+import { Feature } from '@/store/app-store';
+import type {
+  CompetitionCandidate,
+  CompetitionContender,
+  CompetitionTestResult,
+  PhaseModelEntry,
+} from '@automaker/types';
+import { MAX_COMPETITION_CONTENDERS, migrateModelId } from '@automaker/types';
+
+interface ContenderDraft {
+  entry: PhaseModelEntry;
+  instructions: string;
+}
+
+interface CompetitionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  feature: Feature | null;
+  projectPath: string;
+}
+
+const TEST_BADGES: Record<
+  CompetitionTestResult['status'],
+  { label: string; variant: 'success' | 'error' | 'warning' | 'muted' }
+> = {
+  passed: { label: 'Tests passed', variant: 'success' },
+  failed: { label: 'Tests failed', variant: 'error' },
+  error: { label: 'Tests errored', variant: 'warning' },
+  skipped: { label: 'No test command', variant: 'muted' },
+};
+
+/**
+ * Seed the contender list from the feature, or with the feature's model and
+ * one alternative when it has none yet
+ */
+function getInitialContenders(feature: Feature): ContenderDraft[] {
+  if (feature.contenders && feature.contenders.length > 0) {
+    return feature.contenders.map((contender) => ({
+      entry: { model: contender.model, thinkingLevel: contender.thinkingLevel },
+      instructions: contender.instructions ?? '',
+    }));
+  }
+  const model = migrateModelId(feature.model) || 'claude-opus';
+  const alternative = model === 'claude-sonnet' ? 'claude-opus' : 'claude-sonnet';
+  return [
+    { entry: { model, thinkingLevel: feature.thinkingLevel }, instructions: '' },
+    { entry: { model: alternative }, instructions: '' },
+  ];
+}
+
+/**
+ * Run a feature with several models or prompts in parallel and pick the best result.
+ * Before a competition runs it configures the contenders; afterwards it shows each
+ * candidate's changes and test results side by side with one-click promotion.
+ */
+export function CompetitionDialog({
+  open,
+  onOpenChange,
+  feature,
+  projectPath,
+}: CompetitionDialogProps) {
+  const [contenders, setContenders] = useState<ContenderDraft[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && feature) {
+      setContenders(getInitialContenders(feature));
+    }
+    // Only reseed when the dialog opens for a feature, not on every feature refresh
+  }, [open, feature?.id]);
+
+  if (!feature) return null;
+
+  const competition = feature.competition;
+  const showResults =
+    competition?.status === 'running' ||
+    competition?.status === 'completed' ||
+    competition?.status === 'promoted';
+
+  const updateContender = (index: number, updates: Partial<ContenderDraft>) => {
+    setContenders((current) => current.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const handleStart = async () => {
+    const payload: CompetitionContender[] = contenders.map(({ entry, instructions }) => ({
+      model: entry.model,
+      thinkingLevel: modelSupportsThinking(entry.model) ? entry.thinkingLevel : undefined,
+      instructions: instructions.trim() || undefined,
+    }));
+
+    setIsSubmitting(true);
+    try {
+      const result = await getElectronAPI().autoMode?.startCompetition(
+        projectPath,
+        feature.id,
+        payload
+      );
+      if (result?.success) {
+        toast.success('Competition started', {
+          description: `${payload.length} candidates are implementing the feature`,
+        });
+      } else {
+        toast.error('Failed to start competition', { description: result?.error });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePromote = async (candidate: CompetitionCandidate, index: number) => {
+    setIsSubmitting(true);
+    try {
+      const result = await getElectronAPI().autoMode?.promoteCompetition(
+        projectPath,
+        feature.id,
+        candidate.id
+      );
+      if (result?.success) {
+        toast.success(`Candidate ${index + 1} promoted`, {
+          description: `The feature now uses ${candidate.branchName}. Other candidates were removed.`,
+        });
+      } else {
+        toast.error('Failed to promote candidate', { description: result?.error });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await getElectronAPI().autoMode?.discardCompetition(projectPath, feature.id);
+      if (result?.success) {
+        toast.success('Competition discarded');
+      } else {
+        toast.error('Failed to discard competition', { description: result?.error });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className={cn(
+          'w-full h-full max-w-full max-h-full sm:h-auto sm:rounded-xl rounded-none flex flex-col',
+          showResults ? 'sm:w-[95vw] sm:max-w-[1600px]' : 'sm:w-[90vw] sm:max-w-[640px]'
+        )}
+        data-testid="competition-dialog"
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Swords className="w-5 h-5" />
+            Competition
+          </DialogTitle>
+          <DialogDescription>
+            {showResults
+              ? 'Compare the candidates and promote the best one. The other worktrees are removed.'
+              : 'Implement this feature with several models or prompts in parallel, each in its own worktree.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {showResults ? (
+          <div className="flex-1 overflow-auto scrollbar-visible -mx-6 px-6">
+            <div
+              className="grid gap-4 min-w-0"
+              style={{
+                gridTemplateColumns: `repeat(${competition.candidates.length}, minmax(320px, 1fr))`,
+              }}
+            >
+              {competition.candidates.map((candidate, index) => (
+                <CandidateColumn
+                  key={candidate.id}
+                  candidate={candidate}
+                  index={index}
+                  projectPath={projectPath}
+                  isWinner={competition.winnerId === candidate.id}
+                  canPromote={
+                    competition.status === 'completed' &&
+                    candidate.status === 'completed' &&
+                    !isSubmitting
+                  }
+                  showDiff={
+                    competition.status !== 'promoted' || competition.winnerId === candidate.id
+                  }
+                  onPromote={() => handlePromote(candidate, index)}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 overflow-y-auto">
+            {contenders.map((contender, index) => (
+              <div
+                key={index}
+                className="rounded-lg border border-border p-3 space-y-2"
+                data-testid={`competition-contender-${index}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-xs text-muted-foreground">Candidate {index + 1}</Label>
+                  <div className="flex items-center gap-1">
+                    <PhaseModelSelector
+                      value={contender.entry}
+                      onChange={(entry) => updateContender(index, { entry })}
+                      compact
+                      align="end"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() =>
+                        setContenders((current) => current.filter((_, i) => i !== index))
+                      }
+                      disabled={contenders.length <= 2}
+                      aria-label={`Remove candidate ${index + 1}`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </div>
+                <Input
+                  value={contender.instructions}
+                  onChange={(e) => updateContender(index, { instructions: e.target.value })}
+                  placeholder="Optional extra instructions, e.g. prefer a minimal change"
+                  className="h-8 text-xs"
+                />
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() =>
+                setContenders((current) => [
+                  ...current,
+                  { entry: { model: 'claude-sonnet' }, instructions: '' },
+                ])
+              }
+              disabled={contenders.length >= MAX_COMPETITION_CONTENDERS}
+              data-testid="competition-add-contender"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add candidate
+            </Button>
+            {competition?.status === 'cancelled' && (
+              <p className="text-xs text-muted-foreground">
+                The last competition was stopped. Starting again replaces its candidates.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {competition && competition.status !== 'running' && (
+            <Button
+              variant="ghost"
+              onClick={handleDiscard}
+              disabled={isSubmitting}
+              data-testid="competition-discard"
+            >
+              {competition.status === 'promoted' ? 'Clear Results' : 'Discard Competition'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {!showResults && (
+            <Button
+              onClick={handleStart}
+              disabled={isSubmitting || contenders.length < 2}
+              data-testid="competition-start"
+            >
+              {isSubmitting ? (
+                <Spinner size="sm" className="mr-2" />
+              ) : (
+                <Swords className="w-4 h-4 mr-2" />
+              )}
+              Start Competition
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CandidateColumnProps {
+  candidate: CompetitionCandidate;
+  index: number;
+  projectPath: string;
+  isWinner: boolean;
+  canPromote: boolean;
+  showDiff: boolean;
+  onPromote: () => void;
+}
+
+function CandidateColumn({
+  candidate,
+  index,
+  projectPath,
+  isWinner,
+  canPromote,
+  showDiff,
+  onPromote,
+}: CandidateColumnProps) {
+  const testBadge = candidate.tests ? TEST_BADGES[candidate.tests.status] : null;
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col min-w-0 rounded-lg border p-3 gap-3',
+        isWinner ? 'border-[var(--status-success)]' : 'border-border'
+      )}
+      data-testid={`competition-candidate-${index}`}
+    >
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">Candidate {index + 1}</span>
+          {isWinner ? (
+            <Badge variant="success" size="sm">
+              <Trophy className="w-3 h-3 mr-1" />
+              Winner
+            </Badge>
+          ) : candidate.status === 'running' || candidate.status === 'pending' ? (
+            <Badge variant="info" size="sm">
+              <Spinner size="xs" className="mr-1" />
+              {candidate.status === 'running' ? 'Running' : 'Pending'}
+            </Badge>
+          ) : candidate.status === 'failed' ? (
+            <Badge variant="error" size="sm">
+              Failed
+            </Badge>
+          ) : (
+            <Badge variant="muted" size="sm">
+              Done
+            </Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {getModelDisplayName(candidate.model)}
+          {candidate.thinkingLevel && candidate.thinkingLevel !== 'none'
+            ? ` · ${candidate.thinkingLevel} thinking`
+            : ''}
+        </p>
+        {candidate.instructions && (
+          <p className="text-xs text-muted-foreground line-clamp-2" title={candidate.instructions}>
+            “{candidate.instructions}”
+          </p>
+        )}
+        <code className="block text-[10px] font-mono text-muted-foreground truncate">
+          {candidate.branchName}
+        </code>
+      </div>
+
+      {candidate.error && <p className="text-xs text-[var(--status-error)]">{candidate.error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {candidate.diffStats && (
+          <span className="text-muted-foreground">
+            {candidate.diffStats.filesChanged} file
+            {candidate.diffStats.filesChanged === 1 ? '' : 's'}{' '}
+            <span className="text-[var(--status-success)]">+{candidate.diffStats.additions}</span>{' '}
+            <span className="text-[var(--status-error)]">-{candidate.diffStats.deletions}</span>
+          </span>
+        )}
+        {testBadge && (
+          <Badge variant={testBadge.variant} size="sm">
+            {testBadge.label}
+            {candidate.tests?.exitCode != null && candidate.tests.status !== 'passed'
+              ? ` (exit ${candidate.tests.exitCode})`
+              : ''}
+          </Badge>
+        )}
+      </div>
+
+      {candidate.tests?.output && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-muted-foreground">Test output</summary>
+          <pre className="mt-1 max-h-48 overflow-auto rounded bg-muted/50 p-2 text-[10px] whitespace-pre-wrap break-all">
+            {candidate.tests.output}
+          </pre>
+        </details>
+      )}
+
+      {canPromote && (
+        <Button
+          size="sm"
+          className="h-7 text-xs"
+          onClick={onPromote}
+          data-testid={`competition-promote-${index}`}
+        >
+          <Trophy className="w-3 h-3 mr-1" />
+          Promote
+        </Button>
+      )}
+
+      {showDiff && candidate.status === 'completed' && (
+        <GitDiffPanel
+          projectPath={projectPath}
+          featureId={candidate.branchName}
+          useWorktrees={true}
+          compact={false}
+        />
+      )}
+    </div>
+  );
+}
@@ -26,7 +26,12 @@ import { useNavigate } from '@tanstack/react-router';
 import { toast } from 'sonner';
 import { cn, modelSupportsThinking } from '@/lib/utils';
 import { Feature, ModelAlias, ThinkingLevel, PlanningMode } from '@/store/app-store';
-import type { ReasoningEffort, PhaseModelEntry, DescriptionHistoryEntry } from '@automaker/types';
+import type {
+  ReasoningEffort,
+  PhaseModelEntry,
+  DescriptionHistoryEntry,
+  AcceptanceCriterion,
+} from '@automaker/types';
 import { migrateModelId } from '@automaker/types';
 import {
   PrioritySelector,
@@ -35,6 +40,8 @@ import {
   EnhanceWithAI,
   EnhancementHistoryButton,
   PipelineExclusionControls,
+  AcceptanceCriteriaEditor,
+  createAcceptanceCriteria,
   type EnhancementMode,
 } from '../shared';
 import type { WorkMode } from '../shared';
@@ -65,6 +72,8 @@ interface EditFeatureDialogProps {
       dependencies?: string[];
       childDependencies?: string[]; // Feature IDs that should depend on this feature
       excludedPipelineSteps?: string[]; // Pipeline step IDs to skip for this feature
+      labels?: string[]; // Matched by pipeline step conditions
+      acceptanceCriteria?: AcceptanceCriterion[]; // Judged before the feature can be verified
     },
     descriptionHistorySource?: 'enhance' | 'edit',
     enhancementMode?: EnhancementMode,
@@ -147,6 +156,11 @@ export function EditFeatureDialog({
   const [excludedPipelineSteps, setExcludedPipelineSteps] = useState<string[]>(
     feature?.excludedPipelineSteps ?? []
   );
+  // Labels edited as a comma-separated list
+  const [labelsInput, setLabelsInput] = useState((feature?.labels ?? []).join(', '));
+  const [acceptanceCriteria, setAcceptanceCriteria] = useState<AcceptanceCriterion[]>(
+    feature?.acceptanceCriteria ?? []
+  );
 
   useEffect(() => {
     setEditingFeature(feature);
@@ -175,6 +189,8 @@ export function EditFeatureDialog({
       setOriginalChildDependencies(childDeps);
       // Reset pipeline exclusion state
       setExcludedPipelineSteps(feature.excludedPipelineSteps ?? []);
+      setLabelsInput((feature.labels ?? []).join(', '));
+      setAcceptanceCriteria(feature.acceptanceCriteria ?? []);
     } else {
       setEditFeaturePreviewMap(new Map());
       setDescriptionChangeSource(null);
@@ -184,6 +200,8 @@ export function EditFeatureDialog({
       setChildDependencies([]);
       setOriginalChildDependencies([]);
       setExcludedPipelineSteps([]);
+      setLabelsInput('');
+      setAcceptanceCriteria([]);
     }
   }, [feature, allFeatures]);
 
@@ -245,6 +263,12 @@ export function EditFeatureDialog({
       dependencies: parentDependencies,
       childDependencies: childDepsChanged ? childDependencies : undefined,
       excludedPipelineSteps: excludedPipelineSteps.length > 0 ? excludedPipelineSteps : undefined,
+      labels: labelsInput
+        .split(',')
+        .map((label) => label.trim())
+        .filter(Boolean),
+      // An empty list (rather than undefined) clears criteria that were removed
+      acceptanceCriteria: acceptanceCriteria.filter((c) => c.description.trim()),
     };
 
     // Determine if description changed and what source to use
@@ -410,7 +434,18 @@ export function EditFeatureDialog({
                   return newHistory;
                 });
               }}
+              onAcceptanceCriteria={(descriptions) =>
+                setAcceptanceCriteria(createAcceptanceCriteria(descriptions))
+              }
             />
+
+            <div className="pt-2">
+              <AcceptanceCriteriaEditor
+                criteria={acceptanceCriteria}
+                onCriteriaChange={setAcceptanceCriteria}
+                testIdPrefix="edit-feature-acceptance"
+              />
+            </div>
           </div>
 
           {/* AI & Execution Section */}
@@ -542,6 +577,16 @@ export function EditFeatureDialog({
               </div>
             </div>
 
+            <div className="space-y-1.5 pt-2">
+              <Label className="text-xs text-muted-foreground">Labels</Label>
+              <Input
+                value={labelsInput}
+                onChange={(e) => setLabelsInput(e.target.value)}
+                placeholder="e.g., needs-tests, security"
+                data-testid="edit-feature-labels"
+              />
+            </div>
+
             {/* Work Mode Selector */}
             <div className="pt-2">
               <WorkModeSelector
@@ -8,7 +8,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Plus, Trash2, ChevronUp, ChevronDown, Pencil } from 'lucide-react';
+import { Plus, Trash2, ChevronUp, ChevronDown, Pencil, Layers } from 'lucide-react';
 import { toast } from 'sonner';
 import type { PipelineConfig, PipelineStep } from '@automaker/types';
 import { cn } from '@/lib/utils';
@@ -111,6 +111,12 @@ export function PipelineSettingsDialog({
                 name: stepData.name,
                 instructions: stepData.instructions,
                 colorClass: stepData.colorClass,
+                type: stepData.type,
+                command: stepData.command,
+                timeoutMs: stepData.timeoutMs,
+                onFailure: stepData.onFailure,
+                conditions: stepData.conditions,
+                stage: stepData.stage,
                 updatedAt: now,
               }
             : s
@@ -123,6 +129,12 @@ export function PipelineSettingsDialog({
         name: stepData.name,
         instructions: stepData.instructions,
         colorClass: stepData.colorClass,
+        type: stepData.type,
+        command: stepData.command,
+        timeoutMs: stepData.timeoutMs,
+        onFailure: stepData.onFailure,
+        conditions: stepData.conditions,
+        stage: stepData.stage,
         order: steps.length,
         createdAt: now,
         updatedAt: now,
@@ -199,10 +211,28 @@ export function PipelineSettingsDialog({
                     />
 
                     <div className="flex-1 min-w-0">
-                      <div className="font-medium truncate">{step.name || 'Unnamed Step'}</div>
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="font-medium truncate">{step.name || 'Unnamed Step'}</span>
+                        {step.stage && (
+                          <span
+                            className="inline-flex items-center gap-1 shrink-0 px-1.5 py-0.5 rounded bg-muted text-[10px] text-muted-foreground"
+                            title="Runs in parallel with adjacent steps of the same stage"
+                          >
+                            <Layers className="h-2.5 w-2.5" />
+                            {step.stage}
+                          </span>
+                        )}
+                      </div>
                       <div className="text-xs text-muted-foreground truncate">
-                        {(step.instructions || '').substring(0, 100)}
-                        {(step.instructions || '').length > 100 ? '...' : ''}
+                        {step.type === 'shell-command' ? (
+                          <span className="font-mono">$ {step.command}</span>
+                        ) : (
+                          <>
+                            {step.type === 'review' && 'Review: '}
+                            {(step.instructions || '').substring(0, 100)}
+                            {(step.instructions || '').length > 100 ? '...' : ''}
+                          </>
+                        )}
                       </div>
                     </div>
 
@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { createLogger } from '@automaker/utils/logger';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { AlertTriangle, FileText, MessageSquare, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFeatures } from '@/hooks/queries';
+import { getElectronAPI } from '@/lib/electron';
+import { queryKeys } from '@/lib/query-keys';
+import type { PRReviewThread } from '@automaker/types';
+import type { WorktreeInfo } from '../worktree-panel/types';
+
+const logger = createLogger('PRReviewThreadsDialog');
+
+interface PRReviewThreadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  worktree: WorktreeInfo | null;
+  projectPath: string;
+  /** Create a new feature that addresses the PR instead, for branches without one */
+  onCreateFeature: (worktree: WorktreeInfo) => void | Promise<void>;
+}
+
+function formatLocation(thread: PRReviewThread): string {
+  if (!thread.line) return 'File';
+  return thread.startLine && thread.startLine !== thread.line
+    ? `Lines ${thread.startLine}-${thread.line}`
+    : `Line ${thread.line}`;
+}
+
+export function PRReviewThreadsDialog({
+  open,
+  onOpenChange,
+  worktree,
+  projectPath,
+  onCreateFeature,
+}: PRReviewThreadsDialogProps) {
+  const queryClient = useQueryClient();
+  const { data: features } = useFeatures(open ? projectPath : undefined);
+  const [threads, setThreads] = useState<PRReviewThread[]>([]);
+  const [prNumber, setPrNumber] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [featureId, setFeatureId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const branchFeatures = useMemo(
+    () =>
+      worktree
+        ? (features ?? []).filter(
+            (f) => f.branchName === worktree.branch && f.status !== 'completed'
+          )
+        : [],
+    [features, worktree]
+  );
+
+  const threadsByFile = useMemo(() => {
+    const groups = new Map<string, PRReviewThread[]>();
+    for (const thread of threads.filter((t) => !t.isResolved)) {
+      groups.set(thread.path, [...(groups.get(thread.path) ?? []), thread]);
+    }
+    return [...groups.entries()];
+  }, [threads]);
+  const resolvedCount = threads.filter((thread) => thread.isResolved).length;
+
+  const fetchThreads = async () => {
+    if (!worktree) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getElectronAPI().worktree?.getPRReviewThreads(
+        projectPath,
+        worktree.branch
+      );
+      if (result?.success && result.result) {
+        const { pr, threads: fetched } = result.result;
+        setPrNumber(pr?.number ?? null);
+        setThreads(fetched);
+        // Start with every unresolved thread selected
+        setSelectedIds(new Set(fetched.filter((t) => !t.isResolved).map((t) => t.id)));
+        if (!pr) {
+          setError('No open pull request found for this branch');
+        }
+      } else {
+        setError(result?.error || 'Failed to fetch review threads');
+      }
+    } catch (err) {
+      logger.error('Failed to fetch review threads:', err);
+      setError('Failed to fetch review threads');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fetch threads when dialog opens
+  useEffect(() => {
+    if (open && worktree) {
+      fetchThreads();
+    }
+  }, [open, worktree]);
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!open) {
+      setThreads([]);
+      setPrNumber(null);
+      setSelectedIds(new Set());
+      setFeatureId('');
+      setError(null);
+    }
+  }, [open]);
+
+  // Default to the first feature on the branch
+  useEffect(() => {
+    if (!featureId && branchFeatures.length > 0) {
+      setFeatureId(branchFeatures[0].id);
+    }
+  }, [branchFeatures, featureId]);
+
+  const toggleThread = (id: string, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!featureId || selectedIds.size === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await getElectronAPI().worktree?.addressPRReview(
+        projectPath,
+        featureId,
+        [...selectedIds],
+        true
+      );
+      if (result?.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.features.all(projectPath) });
+        toast.success('Review threads sent', {
+          description: `Following up on ${selectedIds.size} thread${selectedIds.size === 1 ? '' : 's'}; replies are posted after the next push`,
+        });
+        onOpenChange(false);
+      } else {
+        toast.error('Failed to address review threads', { description: result?.error });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreateFeature = async () => {
+    if (!worktree) return;
+    onOpenChange(false);
+    await onCreateFeature(worktree);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-blue-500" />
+            Address PR Comments{prNumber ? ` (#${prNumber})` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Select the unresolved review threads to send to the feature on{' '}
+            <span className="font-mono text-foreground">{worktree?.branch}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="lg" />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center gap-4 py-6">
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="w-5 h-5" />
+              <span className="text-sm">{error}</span>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchThreads}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4 py-2">
+            {threadsByFile.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No unresolved review threads
+              </p>
+            ) : (
+              threadsByFile.map(([filePath, fileThreads]) => (
+                <div key={filePath} className="space-y-2">
+                  <div className="flex items-center gap-1.5 text-xs font-mono text-muted-foreground">
+                    <FileText className="w-3.5 h-3.5" />
+                    {filePath}
+                  </div>
+                  {fileThreads.map((thread) => {
+                    const [first, ...replies] = thread.comments;
+                    return (
+                      <label
+                        key={thread.id}
+                        className="flex items-start gap-2 rounded-md border border-border p-2 cursor-pointer hover:bg-accent/50"
+                        data-testid={`pr-review-thread-${thread.id}`}
+                      >
+                        <Checkbox
+                          checked={selectedIds.has(thread.id)}
+                          onCheckedChange={(checked) => toggleThread(thread.id, !!checked)}
+                          className="mt-0.5"
+                        />
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span>{formatLocation(thread)}</span>
+                            {thread.isOutdated && (
+                              <span className="rounded bg-muted px-1.5 py-0.5">Outdated</span>
+                            )}
+                            {replies.length > 0 && (
+                              <span>
+                                +{replies.length} repl{replies.length === 1 ? 'y' : 'ies'}
+                              </span>
+                            )}
+                          </div>
+                          {first && (
+                            <p className="text-sm line-clamp-3 whitespace-pre-wrap">
+                              <span className="font-medium">{first.author}:</span> {first.body}
+                            </p>
+                          )}
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+              ))
+            )}
+            {resolvedCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {resolvedCount} resolved thread{resolvedCount === 1 ? '' : 's'} hidden
+              </p>
+            )}
+          </div>
+        )}
+
+        {!isLoading && !error && (
+          <div className="grid gap-2 pt-2">
+            <Label htmlFor="pr-review-feature-select">Feature</Label>
+            {branchFeatures.length > 0 ? (
+              <Select value={featureId} onValueChange={setFeatureId}>
+                <SelectTrigger id="pr-review-feature-select">
+                  <SelectValue placeholder="Select a feature" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branchFeatures.map((f) => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {f.title || f.description.split('\n')[0]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                No feature is on this branch. Create one to have the agent address the PR.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {branchFeatures.length === 0 ? (
+            <Button onClick={handleCreateFeature} disabled={!worktree}>
+              Create Feature
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSubmit}
+              disabled={isLoading || isSubmitting || !featureId || selectedIds.size === 0}
+            >
+              {isSubmitting && <Spinner size="sm" className="mr-2" />}
+              Send {selectedIds.size} Thread{selectedIds.size === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
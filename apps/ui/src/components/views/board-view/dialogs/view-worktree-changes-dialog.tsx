@@ -1,12 +1,22 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { FileText } from 'lucide-react';
-import { GitDiffPanel } from '@/components/ui/git-diff-panel';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { FileText, MessageSquare } from 'lucide-react';
+import { toast } from 'sonner';
+import { GitDiffPanel, type NewReviewComment } from '@/components/ui/git-diff-panel';
+import { useFeatures } from '@/hooks/queries';
+import { getElectronAPI } from '@/lib/electron';
+import { queryKeys } from '@/lib/query-keys';
+import type { ReviewComment } from '@automaker/types';
 
 interface WorktreeInfo {
   path: string;
@@ -23,14 +33,107 @@ interface ViewWorktreeChangesDialogProps {
   projectPath: string;
 }
 
+/**
+ * Get the next free review comment ID, e.g. "RC3"
+ */
+function getNextCommentId(comments: ReviewComment[]): string {
+  const highest = comments.reduce((max, comment) => {
+    const n = Number(comment.id.replace(/^RC/, ''));
+    return Number.isFinite(n) ? Math.max(max, n) : max;
+  }, 0);
+  return `RC${highest + 1}`;
+}
+
 export function ViewWorktreeChangesDialog({
   open,
   onOpenChange,
   worktree,
   projectPath,
 }: ViewWorktreeChangesDialogProps) {
+  const queryClient = useQueryClient();
+  const { data: features } = useFeatures(open ? projectPath : undefined);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [draftComments, setDraftComments] = useState<ReviewComment[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Review comments are kept on the feature whose branch this worktree is on
+  const feature = useMemo(
+    () =>
+      worktree && !worktree.isMain
+        ? features?.find((f) => f.branchName === worktree.branch)
+        : undefined,
+    [features, worktree]
+  );
+  const savedComments = useMemo(() => feature?.reviewComments ?? [], [feature]);
+  const comments = useMemo(
+    () => [...savedComments, ...draftComments],
+    [savedComments, draftComments]
+  );
+  const pendingComments = comments.filter((c) => c.status === 'draft' || c.status === 'unresolved');
+
+  // Drafts belong to the worktree they were written on
+  useEffect(() => {
+    setDraftComments([]);
+    setIsReviewing(false);
+  }, [worktree?.branch]);
+
   if (!worktree) return null;
 
+  const handleAddComment = (comment: NewReviewComment) => {
+    setDraftComments((current) => [
+      ...current,
+      {
+        ...comment,
+        id: getNextCommentId([...savedComments, ...current]),
+        status: 'draft',
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (draftComments.some((c) => c.id === commentId)) {
+      setDraftComments((current) => current.filter((c) => c.id !== commentId));
+      return;
+    }
+    if (!feature) return;
+
+    const result = await getElectronAPI().features?.update(projectPath, feature.id, {
+      reviewComments: savedComments.filter((c) => c.id !== commentId),
+    });
+    if (result?.success) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.features.all(projectPath) });
+    } else {
+      toast.error('Failed to delete comment', { description: result?.error });
+    }
+  };
+
+  const handleSubmitReview = async () => {
+    if (!feature || pendingComments.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await getElectronAPI().autoMode?.submitReview(
+        projectPath,
+        feature.id,
+        pendingComments,
+        true
+      );
+      if (result?.success) {
+        setDraftComments([]);
+        queryClient.invalidateQueries({ queryKey: queryKeys.features.all(projectPath) });
+        toast.success('Review submitted', {
+          description: `Following up on ${pendingComments.length} comment${pendingComments.length === 1 ? '' : 's'}`,
+        });
+        onOpenChange(false);
+      } else {
+        toast.error('Failed to submit review', { description: result?.error });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="w-full h-full max-w-full max-h-full sm:w-[90vw] sm:max-w-[900px] sm:max-h-[100vh] sm:h-auto sm:rounded-xl rounded-none flex flex-col">
@@ -48,6 +151,11 @@ export function ViewWorktreeChangesDialog({
                 {worktree.changedFilesCount > 1 ? 's' : ''} changed)
               </span>
             )}
+            {isReviewing && (
+              <span className="block mt-1">
+                Click a line number to comment on it, shift-click to select a range.
+              </span>
+            )}
           </DialogDescription>
         </DialogHeader>
 
@@ -59,9 +167,56 @@ export function ViewWorktreeChangesDialog({
               useWorktrees={true}
               compact={false}
               className="mt-4"
+              review={
+                isReviewing
+                  ? {
+                      comments,
+                      onAddComment: handleAddComment,
+                      onDeleteComment: (id) => void handleDeleteComment(id),
+                    }
+                  : undefined
+              }
             />
           </div>
         </div>
+
+        {feature && (
+          <DialogFooter className="mt-6">
+            {isReviewing ? (
+              <>
+                <Button
+                  variant="ghost"
+                  onClick={() => setIsReviewing(false)}
+                  disabled={isSubmitting}
+                >
+                  Done reviewing
+                </Button>
+                <Button
+                  onClick={handleSubmitReview}
+                  disabled={isSubmitting || pendingComments.length === 0}
+                  data-testid="submit-review-button"
+                >
+                  {isSubmitting ? (
+                    <Spinner size="sm" className="mr-2" />
+                  ) : (
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                  )}
+                  Submit review ({pendingComments.length})
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => setIsReviewing(true)}
+                data-testid="start-review-button"
+              >
+                <MessageSquare className="w-4 h-4 mr-2" />
+                Review
+                {savedComments.length > 0 && ` (${savedComments.length} comments)`}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
       </DialogContent>
     </Dialog>
   );
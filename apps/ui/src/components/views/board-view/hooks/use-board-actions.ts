@@ -8,7 +8,7 @@ import {
   PlanningMode,
   useAppStore,
 } from '@/store/app-store';
-import type { ReasoningEffort } from '@automaker/types';
+import type { ReasoningEffort, AcceptanceCriterion } from '@automaker/types';
 import { FeatureImagePath as DescriptionImagePath } from '@/components/ui/description-image-dropzone';
 import { getElectronAPI } from '@/lib/electron';
 import { isConnectionError, handleServerOffline } from '@/lib/http-api-client';
@@ -119,6 +119,7 @@ export function useBoardActions({
       requirePlanApproval: boolean;
       dependencies?: string[];
       childDependencies?: string[]; // Feature IDs that should depend on this feature
+      acceptanceCriteria?: AcceptanceCriterion[];
       workMode?: 'current' | 'auto' | 'custom';
     }) => {
       const workMode = featureData.workMode || 'current';
@@ -308,6 +309,7 @@ export function useBoardActions({
         workMode?: 'current' | 'auto' | 'custom';
         dependencies?: string[];
         childDependencies?: string[]; // Feature IDs that should depend on this feature
+        acceptanceCriteria?: AcceptanceCriterion[];
       },
       descriptionHistorySource?: 'enhance' | 'edit',
       enhancementMode?: 'improve' | 'technical' | 'simplify' | 'acceptance' | 'ux-reviewer',
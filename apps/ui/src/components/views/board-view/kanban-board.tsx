@@ -45,6 +45,7 @@ interface KanbanBoardProps {
   onImplement: (feature: Feature) => void;
   onViewPlan: (feature: Feature) => void;
   onApprovePlan: (feature: Feature) => void;
+  onCompete?: (feature: Feature) => void;
   onSpawnTask?: (feature: Feature) => void;
   featuresWithContext: Set<string>;
   runningAutoTasks: string[];
@@ -281,6 +282,7 @@ export function KanbanBoard({
   onImplement,
   onViewPlan,
   onApprovePlan,
+  onCompete,
   onSpawnTask,
   featuresWithContext,
   runningAutoTasks,
@@ -568,6 +570,7 @@ export function KanbanBoard({
                                       onImplement={() => onImplement(feature)}
                                       onViewPlan={() => onViewPlan(feature)}
                                       onApprovePlan={() => onApprovePlan(feature)}
+                                      onCompete={onCompete ? () => onCompete(feature) : undefined}
                                       onSpawnTask={() => onSpawnTask?.(feature)}
                                       hasContext={featuresWithContext.has(feature.id)}
                                       isCurrentAutoTask={runningAutoTasks.includes(feature.id)}
@@ -610,6 +613,7 @@ export function KanbanBoard({
                                 onImplement={() => onImplement(feature)}
                                 onViewPlan={() => onViewPlan(feature)}
                                 onApprovePlan={() => onApprovePlan(feature)}
+                                onCompete={onCompete ? () => onCompete(feature) : undefined}
                                 onSpawnTask={() => onSpawnTask?.(feature)}
                                 hasContext={featuresWithContext.has(feature.id)}
                                 isCurrentAutoTask={runningAutoTasks.includes(feature.id)}
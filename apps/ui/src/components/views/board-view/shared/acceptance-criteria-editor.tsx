@@ -0,0 +1,114 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ListChecks, Plus, X } from 'lucide-react';
+import type { AcceptanceCriterion } from '@automaker/types';
+
+interface AcceptanceCriteriaEditorProps {
+  criteria: AcceptanceCriterion[];
+  onCriteriaChange: (criteria: AcceptanceCriterion[]) => void;
+  testIdPrefix?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Build criteria from plain descriptions, numbering IDs after the existing ones.
+ * Used to seed criteria from the "acceptance" enhancement mode.
+ */
+export function createAcceptanceCriteria(
+  descriptions: string[],
+  existing: AcceptanceCriterion[] = []
+): AcceptanceCriterion[] {
+  const usedNumbers = existing.map((c) => Number(c.id.replace(/^AC/, ''))).filter(Number.isFinite);
+  let next = Math.max(0, ...usedNumbers) + 1;
+  return descriptions.map((description) => ({
+    id: `AC${next++}`,
+    description,
+    status: 'pending',
+  }));
+}
+
+/**
+ * Editable list of a feature's acceptance criteria.
+ * The acceptance judge scores each criterion before the feature can be verified.
+ * Editing a criterion clears its previous result.
+ */
+export function AcceptanceCriteriaEditor({
+  criteria,
+  onCriteriaChange,
+  testIdPrefix = 'acceptance-criteria',
+  disabled = false,
+}: AcceptanceCriteriaEditorProps) {
+  const updateCriterion = (id: string, description: string) => {
+    onCriteriaChange(
+      criteria.map((c) => (c.id === id ? { id, description, status: 'pending' } : c))
+    );
+  };
+
+  const removeCriterion = (id: string) => {
+    onCriteriaChange(criteria.filter((c) => c.id !== id));
+  };
+
+  const addCriterion = () => {
+    onCriteriaChange([...criteria, ...createAcceptanceCriteria([''], criteria)]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ListChecks className="w-4 h-4 text-muted-foreground" />
+          <Label className="text-sm font-medium">Acceptance Criteria</Label>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={addCriterion}
+          disabled={disabled}
+          data-testid={`${testIdPrefix}-add`}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {criteria.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Optional. A judge model checks each criterion before the feature is verified. Use "Add
+          Acceptance Criteria" under Enhance with AI to generate them from the description.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {criteria.map((criterion) => (
+            <div key={criterion.id} className="flex items-center gap-2">
+              <span className="text-[10px] font-mono text-muted-foreground w-8 shrink-0">
+                {criterion.id}
+              </span>
+              <Input
+                value={criterion.description}
+                onChange={(e) => updateCriterion(criterion.id, e.target.value)}
+                placeholder="Given ..., when ..., then ..."
+                className="h-8 text-xs"
+                disabled={disabled}
+                data-testid={`${testIdPrefix}-${criterion.id}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => removeCriterion(criterion.id)}
+                disabled={disabled}
+                aria-label={`Remove ${criterion.id}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -28,6 +28,8 @@ interface EnhanceWithAIProps {
     originalText: string;
     enhancedText: string;
   }) => void;
+  /** Optional callback with the criteria listed by the "acceptance" mode */
+  onAcceptanceCriteria?: (criteria: string[]) => void;
   /** Disable the enhancement feature */
   disabled?: boolean;
   /** Additional CSS classes */
@@ -50,6 +52,7 @@ export function EnhanceWithAI({
   value,
   onChange,
   onHistoryAdd,
+  onAcceptanceCriteria,
   disabled = false,
   className,
 }: EnhanceWithAIProps) {
@@ -85,6 +88,10 @@ export function EnhanceWithAI({
         // Track in history if callback provided (includes original for restoration)
         onHistoryAdd?.({ mode: enhancementMode, originalText, enhancedText });
 
+        if (result.acceptanceCriteria?.length) {
+          onAcceptanceCriteria?.(result.acceptanceCriteria);
+        }
+
         toast.success('Enhanced successfully!');
       } else {
         toast.error(result?.error || 'Failed to enhance');
@@ -24,6 +24,7 @@ import {
   FilePlus,
   FileUp,
   MoreVertical,
+  Filter,
 } from 'lucide-react';
 import { Spinner } from '@/components/ui/spinner';
 import {
@@ -53,6 +54,15 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { usePipelineConfig } from '@/hooks/queries/use-pipeline';
+import { CONTEXT_AGENT_TYPE_LABELS } from '@automaker/types';
+import type {
+  ContextAgentType,
+  ContextFileMetadata,
+  ContextFileScope,
+  PipelineStep,
+} from '@automaker/types';
 
 interface ContextFile {
   name: string;
@@ -60,10 +70,36 @@ interface ContextFile {
   content?: string;
   path: string;
   description?: string;
+  scope?: ContextFileScope;
 }
 
 interface ContextMetadata {
-  files: Record<string, { description: string }>;
+  files: Record<string, ContextFileMetadata>;
+}
+
+const AGENT_TYPES = Object.keys(CONTEXT_AGENT_TYPE_LABELS) as ContextAgentType[];
+
+const splitList = (value: string): string[] =>
+  value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Human-readable lines for a file's scope rules (empty when it always loads)
+ */
+function describeScope(scope: ContextFileScope | undefined, steps: PipelineStep[]): string[] {
+  const lines: string[] = [];
+  if (scope?.appliesTo?.length) lines.push(`Paths: ${scope.appliesTo.join(', ')}`);
+  if (scope?.categories?.length) lines.push(`Categories: ${scope.categories.join(', ')}`);
+  if (scope?.pipelineSteps?.length) {
+    const names = scope.pipelineSteps.map((id) => steps.find((s) => s.id === id)?.name ?? id);
+    lines.push(`Pipeline steps: ${names.join(', ')}`);
+  }
+  if (scope?.agentTypes?.length) {
+    lines.push(`Agents: ${scope.agentTypes.map((t) => CONTEXT_AGENT_TYPE_LABELS[t]).join(', ')}`);
+  }
+  return lines;
 }
 
 export function ContextView() {
@@ -97,6 +133,14 @@ export function ContextView() {
   const [editDescriptionValue, setEditDescriptionValue] = useState('');
   const [editDescriptionFileName, setEditDescriptionFileName] = useState('');
 
+  // Edit scope modal state
+  const [isEditScopeOpen, setIsEditScopeOpen] = useState(false);
+  const { data: pipelineConfig } = usePipelineConfig(currentProject?.path);
+  const pipelineSteps = useMemo(
+    () => [...(pipelineConfig?.steps ?? [])].sort((a, b) => a.order - b.order),
+    [pipelineConfig]
+  );
+
   // Actions panel state (for tablet/mobile)
   const [showActionsPanel, setShowActionsPanel] = useState(false);
 
@@ -201,6 +245,7 @@ export function ContextView() {
             type: isImageFile(entry.name) ? 'image' : 'text',
             path: `${contextPath}/${entry.name}`,
             description: metadata.files[entry.name]?.description,
+            scope: metadata.files[entry.name],
           }));
         setContextFiles(files);
       }
@@ -303,7 +348,7 @@ export function ContextView() {
 
         if (description) {
           const metadata = await loadMetadata();
-          metadata.files[fileName] = { description };
+          metadata.files[fileName] = { ...metadata.files[fileName], description };
           await saveMetadata(metadata);
 
           // Reload files to update UI with new description
@@ -599,7 +644,10 @@ export function ContextView() {
 
     try {
       const metadata = await loadMetadata();
-      metadata.files[editDescriptionFileName] = { description: editDescriptionValue.trim() };
+      metadata.files[editDescriptionFileName] = {
+        ...metadata.files[editDescriptionFileName],
+        description: editDescriptionValue.trim(),
+      };
       await saveMetadata(metadata);
 
       // Update selected file if it's the one being edited
@@ -625,6 +673,31 @@ export function ContextView() {
     setIsEditDescriptionOpen(true);
   };
 
+  // Save scope rules, dropping empty ones so the file stays unscoped
+  const handleSaveScope = async (scope: ContextFileScope) => {
+    if (!selectedFile) return;
+
+    try {
+      const metadata = await loadMetadata();
+      const entry: ContextFileMetadata = {
+        description: metadata.files[selectedFile.name]?.description ?? '',
+      };
+      if (scope.appliesTo?.length) entry.appliesTo = scope.appliesTo;
+      if (scope.categories?.length) entry.categories = scope.categories;
+      if (scope.pipelineSteps?.length) entry.pipelineSteps = scope.pipelineSteps;
+      if (scope.agentTypes?.length) entry.agentTypes = scope.agentTypes;
+      metadata.files[selectedFile.name] = entry;
+      await saveMetadata(metadata);
+
+      setSelectedFile({ ...selectedFile, scope: entry });
+      await loadContextFiles();
+      setIsEditScopeOpen(false);
+    } catch (error) {
+      logger.error('Failed to save scope:', error);
+      toast.error('Failed to save scope');
+    }
+  };
+
   // Delete file from list (used by dropdown)
   const handleDeleteFromList = async (file: ContextFile) => {
     try {
@@ -972,6 +1045,44 @@ export function ContextView() {
                 </div>
               </div>
 
+              {/* Scope section (images are never loaded into prompts) */}
+              {selectedFile.type === 'text' && (
+                <div className="px-4 pb-2">
+                  <div className="bg-muted/50 rounded-lg p-3 border border-border">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                          Loaded for
+                        </span>
+                        {describeScope(selectedFile.scope, pipelineSteps).length > 0 ? (
+                          <ul className="text-sm mt-1 space-y-0.5" data-testid="context-scope">
+                            {describeScope(selectedFile.scope, pipelineSteps).map((line) => (
+                              <li key={line} className="truncate">
+                                {line}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-sm text-muted-foreground mt-1 italic">
+                            Every agent. Click edit to limit it to paths, categories, pipeline steps
+                            or agent types.
+                          </p>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setIsEditScopeOpen(true)}
+                        className="flex-shrink-0"
+                        data-testid="edit-scope-button"
+                      >
+                        <Filter className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Content area */}
               <div className="flex-1 overflow-hidden px-4 pb-4">
                 {selectedFile.type === 'image' ? (
@@ -1227,6 +1338,162 @@ export function ContextView() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Edit Scope Dialog */}
+      <ContextScopeDialog
+        open={isEditScopeOpen}
+        fileName={selectedFile?.name ?? ''}
+        scope={selectedFile?.scope}
+        pipelineSteps={pipelineSteps}
+        onOpenChange={setIsEditScopeOpen}
+        onSave={handleSaveScope}
+      />
     </div>
   );
 }
+
+interface ContextScopeDialogProps {
+  open: boolean;
+  fileName: string;
+  scope?: ContextFileScope;
+  pipelineSteps: PipelineStep[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (scope: ContextFileScope) => Promise<void>;
+}
+
+/**
+ * Dialog for limiting which agent prompts a context file is loaded into
+ */
+function ContextScopeDialog({
+  open,
+  fileName,
+  scope,
+  pipelineSteps,
+  onOpenChange,
+  onSave,
+}: ContextScopeDialogProps) {
+  const [appliesTo, setAppliesTo] = useState('');
+  const [categories, setCategories] = useState('');
+  const [stepIds, setStepIds] = useState<string[]>([]);
+  const [agentTypes, setAgentTypes] = useState<ContextAgentType[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved rules each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setAppliesTo((scope?.appliesTo ?? []).join('\n'));
+    setCategories((scope?.categories ?? []).join(', '));
+    setStepIds(scope?.pipelineSteps ?? []);
+    setAgentTypes(scope?.agentTypes ?? []);
+  }, [open, scope]);
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({
+        appliesTo: splitList(appliesTo),
+        categories: splitList(categories),
+        pipelineSteps: stepIds,
+        agentTypes,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="edit-scope-dialog">
+        <DialogHeader>
+          <DialogTitle>Edit Scope</DialogTitle>
+          <DialogDescription>
+            Limit when "{fileName}" is loaded into agent prompts. Every rule you set must match;
+            leave a rule empty to ignore it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scope-applies-to">Paths</Label>
+            <Textarea
+              id="scope-applies-to"
+              value={appliesTo}
+              onChange={(e) => setAppliesTo(e.target.value)}
+              placeholder={'apps/ui/**\n*.css'}
+              className="min-h-[72px] font-mono text-sm"
+              data-testid="scope-applies-to-input"
+            />
+            <p className="text-xs text-muted-foreground">
+              Glob patterns, one per line. Matched against the files a feature changed, the files in
+              its plan and paths mentioned in its description.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scope-categories">Feature categories</Label>
+            <Input
+              id="scope-categories"
+              value={categories}
+              onChange={(e) => setCategories(e.target.value)}
+              placeholder="e.g., UI, Frontend"
+              data-testid="scope-categories-input"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Agents</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {AGENT_TYPES.map((type) => (
+                <div key={type} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`scope-agent-${type}`}
+                    checked={agentTypes.includes(type)}
+                    onCheckedChange={() => setAgentTypes((prev) => toggle(prev, type))}
+                    data-testid={`scope-agent-${type}`}
+                  />
+                  <Label htmlFor={`scope-agent-${type}`} className="font-normal cursor-pointer">
+                    {CONTEXT_AGENT_TYPE_LABELS[type]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {pipelineSteps.length > 0 && (
+            <div className="space-y-2">
+              <Label>Pipeline steps</Label>
+              <div className="space-y-2">
+                {pipelineSteps.map((step) => (
+                  <div key={step.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-step-${step.id}`}
+                      checked={stepIds.includes(step.id)}
+                      onCheckedChange={() => setStepIds((prev) => toggle(prev, step.id))}
+                      data-testid={`scope-step-${step.id}`}
+                    />
+                    <Label htmlFor={`scope-step-${step.id}`} className="font-normal cursor-pointer">
+                      {step.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Files limited to pipeline steps are only loaded for those steps.
+              </p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} data-testid="confirm-save-scope">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,11 +12,13 @@ import { ErrorState } from '@/components/ui/error-state';
 import { cn, pathsEqual, generateUUID } from '@/lib/utils';
 import { toast } from 'sonner';
 import { queryKeys } from '@/lib/query-keys';
+import { useIssueSource } from '@/hooks/queries';
 import { useGithubIssues, useIssueValidation, useIssuesFilter } from './github-issues-view/hooks';
 import { IssueRow, IssueDetailPanel, IssuesListHeader } from './github-issues-view/components';
 import { ValidationDialog } from './github-issues-view/dialogs';
 import { formatDate, getFeaturePriority } from './github-issues-view/utils';
 import { useModelOverride } from '@/components/shared';
+import { getIssueId } from '@automaker/types';
 import type {
   ValidateIssueOptions,
   IssuesFilterState,
@@ -44,6 +46,7 @@ export function GitHubIssuesView() {
   const validationModelOverride = useModelOverride({ phase: 'validationModel' });
 
   const { openIssues, closedIssues, loading, refreshing, error, refresh } = useGithubIssues();
+  const { data: issueSource } = useIssueSource(currentProject?.path);
 
   const { validatingIssues, cachedValidations, handleValidateIssue, handleViewCachedValidation } =
     useIssueValidation({
@@ -118,9 +121,13 @@ export function GitHubIssuesView() {
       try {
         const api = getElectronAPI();
         if (api.features?.create) {
+          const sourceType = issueSource?.type ?? 'github';
+          const sourceName = issueSource?.name ?? 'GitHub';
+          const issueLabel = issue.key ?? `#${issue.number}`;
+
           // Build description from issue body + validation info
           const description = [
-            `**From GitHub Issue #${issue.number}**`,
+            `**From ${sourceName} Issue ${issueLabel}**`,
             '',
             issue.body || 'No description provided.',
             '',
@@ -140,7 +147,7 @@ export function GitHubIssuesView() {
             id: `issue-${issue.number}-${generateUUID()}`,
             title: issue.title,
             description,
-            category: 'From GitHub',
+            category: `From ${sourceName}`,
             status: 'backlog' as const,
             passes: false,
             priority: getFeaturePriority(validation.estimatedComplexity),
@@ -149,6 +156,14 @@ export function GitHubIssuesView() {
             branchName: currentBranch,
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
+            // Back-link so status changes can sync to the tracker
+            issueLink: {
+              source: sourceType,
+              number: issue.number,
+              key: issue.key,
+              url: issue.url,
+              title: issue.title,
+            },
           };
 
           const result = await api.features.create(currentProject.path, feature);
@@ -167,7 +182,7 @@ export function GitHubIssuesView() {
         toast.error(err instanceof Error ? err.message : 'Failed to create task');
       }
     },
-    [currentProject?.path, currentBranch, queryClient]
+    [currentProject?.path, currentBranch, queryClient, issueSource]
   );
 
   if (loading) {
@@ -246,14 +261,14 @@ export function GitHubIssuesView() {
               {/* Open Issues */}
               {filteredOpenIssues.map((issue) => (
                 <IssueRow
-                  key={issue.number}
+                  key={getIssueId(issue)}
                   issue={issue}
-                  isSelected={selectedIssue?.number === issue.number}
+                  isSelected={!!selectedIssue && getIssueId(selectedIssue) === getIssueId(issue)}
                   onClick={() => setSelectedIssue(issue)}
                   onOpenExternal={() => handleOpenInGitHub(issue.url)}
                   formatDate={formatDate}
-                  cachedValidation={cachedValidations.get(issue.number)}
-                  isValidating={validatingIssues.has(issue.number)}
+                  cachedValidation={cachedValidations.get(getIssueId(issue))}
+                  isValidating={validatingIssues.has(getIssueId(issue))}
                 />
               ))}
 
@@ -265,14 +280,16 @@ export function GitHubIssuesView() {
                   </div>
                   {filteredClosedIssues.map((issue) => (
                     <IssueRow
-                      key={issue.number}
+                      key={getIssueId(issue)}
                       issue={issue}
-                      isSelected={selectedIssue?.number === issue.number}
+                      isSelected={
+                        !!selectedIssue && getIssueId(selectedIssue) === getIssueId(issue)
+                      }
                       onClick={() => setSelectedIssue(issue)}
                       onOpenExternal={() => handleOpenInGitHub(issue.url)}
                       formatDate={formatDate}
-                      cachedValidation={cachedValidations.get(issue.number)}
-                      isValidating={validatingIssues.has(issue.number)}
+                      cachedValidation={cachedValidations.get(getIssueId(issue))}
+                      isValidating={validatingIssues.has(getIssueId(issue))}
                     />
                   ))}
                 </>
@@ -320,7 +337,7 @@ export function GitHubIssuesView() {
           }
         }}
         title="Re-validate Issue"
-        description={`Are you sure you want to re-validate issue #${selectedIssue?.number}? This will run a new AI analysis and replace the existing validation result.`}
+        description={`Are you sure you want to re-validate issue ${selectedIssue?.key ?? `#${selectedIssue?.number}`}? This will run a new AI analysis and replace the existing validation result.`}
         icon={RefreshCw}
         iconClassName="text-primary"
         confirmText="Re-validate"
@@ -21,8 +21,11 @@ import { Markdown } from '@/components/ui/markdown';
 import { cn } from '@/lib/utils';
 import type { IssueDetailPanelProps } from '../types';
 import { isValidationStale } from '../utils';
+import { getIssueId } from '@automaker/types';
 import { ModelOverrideTrigger } from '@/components/shared';
 import { useIssueComments } from '../hooks';
+import { useIssueSource } from '@/hooks/queries';
+import { useAppStore } from '@/store/app-store';
 import { CommentItem } from './comment-item';
 
 export function IssueDetailPanel({
@@ -37,8 +40,8 @@ export function IssueDetailPanel({
   formatDate,
   modelOverride,
 }: IssueDetailPanelProps) {
-  const isValidating = validatingIssues.has(issue.number);
-  const cached = cachedValidations.get(issue.number);
+  const isValidating = validatingIssues.has(getIssueId(issue));
+  const cached = cachedValidations.get(getIssueId(issue));
   const isStale = cached ? isValidationStale(cached.validatedAt) : false;
 
   // Comments state
@@ -52,7 +55,13 @@ export function IssueDetailPanel({
     hasNextPage,
     error: commentsError,
     loadMore,
-  } = useIssueComments(issue.number);
+  } = useIssueComments(issue.number, issue.key);
+
+  // Name of the tracker the issue comes from, e.g. "GitHub"
+  const { currentProject } = useAppStore();
+  const { data: issueSource } = useIssueSource(currentProject?.path);
+  const sourceName = issueSource?.name ?? 'GitHub';
+  const issueLabel = issue.key ?? `#${issue.number}`;
 
   // Helper to get validation options with comments and linked PRs
   const getValidationOptions = (forceRevalidate = false) => {
@@ -79,7 +88,7 @@ export function IssueDetailPanel({
             <CheckCircle2 className="h-4 w-4 text-purple-500 shrink-0" />
           )}
           <span className="text-sm font-medium truncate">
-            #{issue.number} {issue.title}
+            {issueLabel} {issue.title}
           </span>
         </div>
         <div className="flex items-center gap-2 shrink-0">
@@ -163,7 +172,7 @@ export function IssueDetailPanel({
           })()}
           <Button variant="outline" size="sm" onClick={() => onOpenInGitHub(issue.url)}>
             <ExternalLink className="h-4 w-4 mr-1" />
-            Open in GitHub
+            Open in {sourceName}
           </Button>
           <Button variant="ghost" size="sm" onClick={onClose}>
             <X className="h-4 w-4" />
@@ -189,7 +198,7 @@ export function IssueDetailPanel({
             {issue.state === 'OPEN' ? 'Open' : 'Closed'}
           </span>
           <span>
-            #{issue.number} opened {formatDate(issue.createdAt)} by{' '}
+            {issueLabel} opened {formatDate(issue.createdAt)} by{' '}
             <span className="font-medium text-foreground">{issue.author.login}</span>
           </span>
         </div>
@@ -347,11 +356,11 @@ export function IssueDetailPanel({
         {/* Open in GitHub CTA */}
         <div className="mt-8 p-4 rounded-lg bg-muted/50 border border-border">
           <p className="text-sm text-muted-foreground mb-3">
-            View comments, add reactions, and more on GitHub.
+            View comments, add reactions, and more on {sourceName}.
           </p>
           <Button onClick={() => onOpenInGitHub(issue.url)}>
             <ExternalLink className="h-4 w-4 mr-2" />
-            View Full Issue on GitHub
+            View Full Issue on {sourceName}
           </Button>
         </div>
       </div>
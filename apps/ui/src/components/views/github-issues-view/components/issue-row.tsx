@@ -58,7 +58,8 @@ export function IssueRow({
 
         <div className="flex items-center gap-2 mt-1 flex-wrap">
           <span className="text-xs text-muted-foreground">
-            #{issue.number} opened {formatDate(issue.createdAt)} by {issue.author.login}
+            {issue.key ?? `#${issue.number}`} opened {formatDate(issue.createdAt)} by{' '}
+            {issue.author.login}
           </span>
         </div>
 
@@ -97,7 +97,7 @@ export function ValidationDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">Issue Validation Result</DialogTitle>
           <DialogDescription>
-            #{issue.number}: {issue.title}
+            {issue.key ?? `#${issue.number}`}: {issue.title}
           </DialogDescription>
         </DialogHeader>
 
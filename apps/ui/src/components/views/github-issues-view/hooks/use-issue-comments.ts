@@ -14,12 +14,15 @@ interface UseIssueCommentsResult {
   refresh: () => void;
 }
 
-export function useIssueComments(issueNumber: number | null): UseIssueCommentsResult {
+export function useIssueComments(
+  issueNumber: number | null,
+  issueKey?: string
+): UseIssueCommentsResult {
   const { currentProject } = useAppStore();
 
   // Use React Query infinite query
   const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage, refetch, error } =
-    useGitHubIssueComments(currentProject?.path, issueNumber ?? undefined);
+    useGitHubIssueComments(currentProject?.path, issueNumber ?? undefined, issueKey);
 
   // Flatten all pages into a single comments array
   const comments = useMemo(() => {
@@ -10,6 +10,7 @@ import {
   StoredValidation,
 } from '@/lib/electron';
 import type { LinkedPRInfo, PhaseModelEntry, ModelId } from '@automaker/types';
+import { getIssueId } from '@automaker/types';
 import { useAppStore } from '@/store/app-store';
 import { toast } from 'sonner';
 import { isValidationStale } from '../utils';
@@ -17,6 +18,11 @@ import { useValidateIssue, useMarkValidationViewed } from '@/hooks/mutations';
 
 const logger = createLogger('IssueValidation');
 
+/** Issue identity of a validation event, matching getIssueId of the issue */
+function getEventIssueId(event: IssueValidationEvent): string {
+  return getIssueId({ number: event.issueNumber, key: event.issueKey });
+}
+
 interface UseIssueValidationOptions {
   selectedIssue: GitHubIssue | null;
   showValidationDialog: boolean;
@@ -31,8 +37,9 @@ export function useIssueValidation({
   onShowValidationDialogChange,
 }: UseIssueValidationOptions) {
   const { currentProject, phaseModels, muteDoneSound } = useAppStore();
-  const [validatingIssues, setValidatingIssues] = useState<Set<number>>(new Set());
-  const [cachedValidations, setCachedValidations] = useState<Map<number, StoredValidation>>(
+  // Keyed by getIssueId, so keyed issues with the same number stay apart
+  const [validatingIssues, setValidatingIssues] = useState<Set<string>>(new Set());
+  const [cachedValidations, setCachedValidations] = useState<Map<string, StoredValidation>>(
     new Map()
   );
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -65,9 +72,9 @@ export function useIssueValidation({
         if (api.github?.getValidations) {
           const result = await api.github.getValidations(currentProject.path);
           if (isMounted && result.success && result.validations) {
-            const map = new Map<number, StoredValidation>();
+            const map = new Map<string, StoredValidation>();
             for (const v of result.validations) {
-              map.set(v.issueNumber, v);
+              map.set(getIssueId({ number: v.issueNumber, key: v.issueKey }), v);
             }
             setCachedValidations(map);
           }
@@ -98,7 +105,7 @@ export function useIssueValidation({
         if (api.github?.getValidationStatus) {
           const result = await api.github.getValidationStatus(currentProject.path);
           if (isMounted && result.success && result.runningIssues) {
-            setValidatingIssues(new Set(result.runningIssues));
+            setValidatingIssues(new Set(result.runningIssues.map(String)));
           }
         }
       } catch (err) {
@@ -123,24 +130,27 @@ export function useIssueValidation({
     const handleValidationEvent = (event: IssueValidationEvent) => {
       // Only handle events for current project
       if (event.projectPath !== currentProject?.path) return;
+      const issueId = getEventIssueId(event);
+      const issueLabel = event.issueKey ?? `#${event.issueNumber}`;
 
       switch (event.type) {
         case 'issue_validation_start':
-          setValidatingIssues((prev) => new Set([...prev, event.issueNumber]));
+          setValidatingIssues((prev) => new Set([...prev, issueId]));
           break;
 
         case 'issue_validation_complete':
           setValidatingIssues((prev) => {
             const next = new Set(prev);
-            next.delete(event.issueNumber);
+            next.delete(issueId);
             return next;
           });
 
           // Update cached validations (use event.model to avoid stale closure race condition)
           setCachedValidations((prev) => {
             const next = new Map(prev);
-            next.set(event.issueNumber, {
+            next.set(issueId, {
               issueNumber: event.issueNumber,
+              issueKey: event.issueKey,
               issueTitle: event.issueTitle,
               validatedAt: new Date().toISOString(),
               model: event.model,
@@ -150,7 +160,7 @@ export function useIssueValidation({
           });
 
           // Show toast notification
-          toast.success(`Issue #${event.issueNumber} validated: ${event.result.verdict}`, {
+          toast.success(`Issue ${issueLabel} validated: ${event.result.verdict}`, {
             description:
               event.result.verdict === 'valid'
                 ? 'Issue is ready to be converted to a task'
@@ -175,7 +185,8 @@ export function useIssueValidation({
 
           // If validation dialog is open for this issue, update the result
           if (
-            selectedIssueRef.current?.number === event.issueNumber &&
+            selectedIssueRef.current &&
+            getIssueId(selectedIssueRef.current) === issueId &&
             showValidationDialogRef.current
           ) {
             onValidationResultChange(event.result);
@@ -185,14 +196,15 @@ export function useIssueValidation({
         case 'issue_validation_error':
           setValidatingIssues((prev) => {
             const next = new Set(prev);
-            next.delete(event.issueNumber);
+            next.delete(issueId);
             return next;
           });
-          toast.error(`Validation failed for issue #${event.issueNumber}`, {
+          toast.error(`Validation failed for issue ${issueLabel}`, {
             description: event.error,
           });
           if (
-            selectedIssueRef.current?.number === event.issueNumber &&
+            selectedIssueRef.current &&
+            getIssueId(selectedIssueRef.current) === issueId &&
             showValidationDialogRef.current
           ) {
             onShowValidationDialogChange(false);
@@ -234,13 +246,13 @@ export function useIssueValidation({
       }
 
       // Check if already validating this issue
-      if (validatingIssues.has(issue.number) || validateIssueMutation.isPending) {
-        toast.info(`Validation already in progress for issue #${issue.number}`);
+      if (validatingIssues.has(getIssueId(issue)) || validateIssueMutation.isPending) {
+        toast.info(`Validation already in progress for issue ${issue.key ?? `#${issue.number}`}`);
         return;
       }
 
       // Check for cached result - if fresh, show it directly (unless force revalidate)
-      const cached = cachedValidations.get(issue.number);
+      const cached = cachedValidations.get(getIssueId(issue));
       if (cached && !forceRevalidate && !isValidationStale(cached.validatedAt)) {
         // Show cached result directly
         onValidationResultChange(cached.result);
@@ -289,21 +301,22 @@ export function useIssueValidation({
   // View cached validation result
   const handleViewCachedValidation = useCallback(
     async (issue: GitHubIssue) => {
-      const cached = cachedValidations.get(issue.number);
+      const issueId = getIssueId(issue);
+      const cached = cachedValidations.get(issueId);
       if (cached) {
         onValidationResultChange(cached.result);
         onShowValidationDialogChange(true);
 
         // Mark as viewed if not already viewed
         if (!cached.viewedAt && currentProject?.path) {
-          markViewedMutation.mutate(issue.number, {
+          markViewedMutation.mutate(issue, {
             onSuccess: () => {
               // Update local state
               setCachedValidations((prev) => {
                 const next = new Map(prev);
-                const updated = prev.get(issue.number);
+                const updated = prev.get(issueId);
                 if (updated) {
-                  next.set(issue.number, {
+                  next.set(issueId, {
                     ...updated,
                     viewedAt: new Date().toISOString(),
                   });
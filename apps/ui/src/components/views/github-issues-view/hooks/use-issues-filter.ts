@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import type { GitHubIssue, StoredValidation } from '@/lib/electron';
+import { getIssueId } from '@automaker/types';
 import type { IssuesFilterState, IssuesFilterResult, IssuesValidationStatus } from '../types';
 import { isValidationStale } from '../utils';
 
@@ -7,10 +8,10 @@ import { isValidationStale } from '../utils';
  * Determines the validation status of an issue based on its cached validation.
  */
 function getValidationStatus(
-  issueNumber: number,
-  cachedValidations: Map<number, StoredValidation>
+  issue: GitHubIssue,
+  cachedValidations: Map<string, StoredValidation>
 ): IssuesValidationStatus | null {
-  const validation = cachedValidations.get(issueNumber);
+  const validation = cachedValidations.get(getIssueId(issue));
   if (!validation) {
     return 'not_validated';
   }
@@ -87,11 +88,11 @@ function matchesMilestones(issue: GitHubIssue, selectedMilestones: string[]): bo
 function matchesValidationStatus(
   issue: GitHubIssue,
   validationStatusFilter: IssuesValidationStatus | null,
-  cachedValidations: Map<number, StoredValidation>
+  cachedValidations: Map<string, StoredValidation>
 ): boolean {
   if (!validationStatusFilter) return true;
 
-  const status = getValidationStatus(issue.number, cachedValidations);
+  const status = getValidationStatus(issue, cachedValidations);
   return status === validationStatusFilter;
 }
 
@@ -177,7 +178,7 @@ function hasActiveFilterCheck(filterState: IssuesFilterState): boolean {
 export function useIssuesFilter(
   issues: GitHubIssue[],
   filterState: IssuesFilterState,
-  cachedValidations: Map<number, StoredValidation> = new Map()
+  cachedValidations: Map<string, StoredValidation> = new Map()
 ): IssuesFilterResult {
   const {
     searchQuery,
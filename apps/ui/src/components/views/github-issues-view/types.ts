@@ -130,8 +130,9 @@ export interface ValidateIssueOptions {
 
 export interface IssueDetailPanelProps {
   issue: GitHubIssue;
-  validatingIssues: Set<number>;
-  cachedValidations: Map<number, StoredValidation>;
+  /** Keyed by getIssueId */
+  validatingIssues: Set<string>;
+  cachedValidations: Map<string, StoredValidation>;
   onValidateIssue: (issue: GitHubIssue, options?: ValidateIssueOptions) => Promise<void>;
   onViewCachedValidation: (issue: GitHubIssue) => Promise<void>;
   onOpenInGitHub: (url: string) => void;
@@ -4,7 +4,7 @@
  */
 
 import { useState, useMemo, useEffect, useCallback } from 'react';
-import { AlertCircle, Plus, X, Sparkles, Lightbulb, Trash2 } from 'lucide-react';
+import { AlertCircle, Plus, X, Sparkles, Lightbulb, Trash2, Bookmark } from 'lucide-react';
 import { Spinner } from '@/components/ui/spinner';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -13,6 +13,7 @@ import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { useIdeationStore, type GenerationJob } from '@/store/ideation-store';
 import { useAppStore } from '@/store/app-store';
 import { getElectronAPI } from '@/lib/electron';
+import { useCreateIdea } from '@/hooks/mutations';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import type { AnalysisSuggestion } from '@automaker/types';
@@ -54,12 +55,14 @@ function SuggestionCard({
   suggestion,
   job,
   onAccept,
+  onSave,
   onRemove,
   isAdding,
 }: {
   suggestion: AnalysisSuggestion;
   job: GenerationJob;
   onAccept: () => void;
+  onSave: () => void;
   onRemove: () => void;
   isAdding: boolean;
 }) {
@@ -118,6 +121,17 @@ function SuggestionCard({
                 </>
               )}
             </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onSave}
+              disabled={isAdding}
+              className="w-full gap-1.5 h-8"
+              title="Save as an idea to score, vote on and plan in the roadmap"
+            >
+              <Bookmark className="w-4 h-4" />
+              Save
+            </Button>
             <Button
               size="sm"
               variant="ghost"
@@ -243,6 +257,7 @@ export function IdeationDashboard({
   const currentProject = useAppStore((s) => s.currentProject);
   const generationJobs = useIdeationStore((s) => s.generationJobs);
   const removeSuggestionFromJob = useIdeationStore((s) => s.removeSuggestionFromJob);
+  const createIdea = useCreateIdea(currentProject?.path ?? '');
   const [addingId, setAddingId] = useState<string | null>(null);
   const [isAcceptingAll, setIsAcceptingAll] = useState(false);
   const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
@@ -340,6 +355,32 @@ export function IdeationDashboard({
     }
   };
 
+  // Save for later as an idea, to be scored and planned on the roadmap
+  const handleSave = (suggestion: AnalysisSuggestion, jobId: string) => {
+    if (!currentProject?.path) {
+      toast.error('No project selected');
+      return;
+    }
+
+    setAddingId(suggestion.id);
+    createIdea.mutate(
+      {
+        title: suggestion.title,
+        description: suggestion.description,
+        category: suggestion.category,
+        impact: suggestion.priority,
+        notes: suggestion.rationale || undefined,
+      },
+      {
+        onSuccess: () => {
+          toast.success(`Saved "${suggestion.title}" to the roadmap`);
+          removeSuggestionFromJob(jobId, suggestion.id);
+        },
+        onSettled: () => setAddingId(null),
+      }
+    );
+  };
+
   const handleRemove = (suggestionId: string, jobId: string) => {
     removeSuggestionFromJob(jobId, suggestionId);
     toast.info('Idea removed');
@@ -454,6 +495,7 @@ export function IdeationDashboard({
                 suggestion={suggestion}
                 job={job}
                 onAccept={() => handleAccept(suggestion, job.id)}
+                onSave={() => handleSave(suggestion, job.id)}
                 onRemove={() => handleRemove(suggestion.id, job.id)}
                 isAdding={addingId === suggestion.id}
               />
@@ -0,0 +1,380 @@
+/**
+ * IdeationRoadmap - Saved ideas planned into Now / Next / Later lanes
+ * Ideas are ranked by RICE/ICE score and votes; a lane converts to features in one go
+ */
+
+import { useMemo, useState } from 'react';
+import { ArrowRightToLine, MessageSquare, Sparkles, ThumbsDown, ThumbsUp, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useIdeationStore } from '@/store/ideation-store';
+import { useIdeas } from '@/hooks/queries';
+import { useConvertIdeas, useIdeaComment, useUpdateIdea, useVoteIdea } from '@/hooks/mutations';
+import { cn } from '@/lib/utils';
+import type { ConfidenceLevel, Idea, IdeaRoadmapLane } from '@automaker/types';
+import {
+  IDEA_ROADMAP_LANES,
+  getIdeaScore,
+  getIdeaVoteTally,
+  getTypicalIdeaReach,
+} from '@automaker/types';
+
+const UNPLANNED = 'unplanned';
+type LaneId = IdeaRoadmapLane | typeof UNPLANNED;
+
+const LANES: Array<{ id: LaneId; label: string }> = [
+  { id: UNPLANNED, label: 'Unplanned' },
+  ...IDEA_ROADMAP_LANES,
+];
+
+const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * Highest score first, votes break ties. Ideas without a reach estimate are
+ * ranked as if they had the typical reach, so RICE scores don't always win.
+ */
+function compareIdeas(a: Idea, b: Idea, typicalReach: number): number {
+  return (
+    getIdeaScore(b, typicalReach).score - getIdeaScore(a, typicalReach).score ||
+    getIdeaVoteTally(b) - getIdeaVoteTally(a)
+  );
+}
+
+function IdeaComments({ idea, projectPath }: { idea: Idea; projectPath: string }) {
+  const voterName = useIdeationStore((s) => s.voterName);
+  const commentMutation = useIdeaComment(projectPath);
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    if (!draft.trim() || !voterName.trim()) return;
+    commentMutation.mutate(
+      { ideaId: idea.id, author: voterName.trim(), body: draft.trim() },
+      { onSuccess: () => setDraft('') }
+    );
+  };
+
+  return (
+    <div className="space-y-2 border-t border-border pt-2">
+      {(idea.comments ?? []).map((comment) => (
+        <div key={comment.id} className="group/comment flex items-start gap-2 text-xs">
+          <div className="flex-1 min-w-0">
+            <span className="font-medium">{comment.author}</span>{' '}
+            <span className="text-muted-foreground break-words">{comment.body}</span>
+          </div>
+          <button
+            onClick={() => commentMutation.mutate({ ideaId: idea.id, commentId: comment.id })}
+            className="opacity-0 group-hover/comment:opacity-100 text-muted-foreground hover:text-destructive"
+            aria-label="Delete comment"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleAdd();
+        }}
+        placeholder={voterName.trim() ? 'Add a comment…' : 'Set your name to comment'}
+        disabled={!voterName.trim() || commentMutation.isPending}
+        className="h-7 text-xs"
+      />
+    </div>
+  );
+}
+
+function RoadmapIdeaCard({
+  idea,
+  projectPath,
+  typicalReach,
+}: {
+  idea: Idea;
+  projectPath: string;
+  typicalReach: number;
+}) {
+  const voterName = useIdeationStore((s) => s.voterName).trim();
+  const updateMutation = useUpdateIdea(projectPath);
+  const voteMutation = useVoteIdea(projectPath);
+  const [showComments, setShowComments] = useState(false);
+  const [reachDraft, setReachDraft] = useState<string | null>(null);
+
+  const { score, method } = getIdeaScore(idea, typicalReach);
+  const tally = getIdeaVoteTally(idea);
+  const myVote = idea.votes?.find((vote) => vote.voter === voterName)?.value ?? 0;
+
+  const handleVote = (value: 1 | -1) => {
+    if (!voterName) return;
+    voteMutation.mutate({ ideaId: idea.id, voter: voterName, value: myVote === value ? 0 : value });
+  };
+
+  const commitReach = () => {
+    if (reachDraft === null) return;
+    const reach = Number(reachDraft);
+    updateMutation.mutate({
+      ideaId: idea.id,
+      updates: { reach: reachDraft.trim() && reach > 0 ? reach : null },
+    });
+    setReachDraft(null);
+  };
+
+  return (
+    <Card className="transition-all hover:border-primary/50">
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <h4 className="font-medium text-sm leading-tight">{idea.title}</h4>
+          <Badge
+            variant="secondary"
+            className="text-xs shrink-0"
+            title={
+              method === 'RICE'
+                ? 'Reach × impact × confidence ÷ effort'
+                : `Impact × confidence ÷ effort at the typical reach (${typicalReach})`
+            }
+          >
+            {method} {score}
+          </Badge>
+        </div>
+        {idea.description && (
+          <p className="text-xs text-muted-foreground line-clamp-3">{idea.description}</p>
+        )}
+
+        <div className="flex items-center gap-1 flex-wrap text-xs text-muted-foreground">
+          <Badge variant="outline" className="text-xs capitalize">
+            Impact {idea.impact}
+          </Badge>
+          <Badge variant="outline" className="text-xs capitalize">
+            Effort {idea.effort}
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-3 gap-1.5">
+          <Select
+            value={idea.lane ?? UNPLANNED}
+            onValueChange={(value) =>
+              updateMutation.mutate({
+                ideaId: idea.id,
+                updates: { lane: value === UNPLANNED ? null : (value as IdeaRoadmapLane) },
+              })
+            }
+          >
+            <SelectTrigger className="h-7 text-xs" aria-label="Lane">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANES.map((lane) => (
+                <SelectItem key={lane.id} value={lane.id}>
+                  {lane.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={idea.confidence ?? 'medium'}
+            onValueChange={(value) =>
+              updateMutation.mutate({
+                ideaId: idea.id,
+                updates: { confidence: value as ConfidenceLevel },
+              })
+            }
+          >
+            <SelectTrigger className="h-7 text-xs capitalize" aria-label="Confidence">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONFIDENCE_LEVELS.map((level) => (
+                <SelectItem key={level} value={level} className="capitalize">
+                  {level} confidence
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            value={reachDraft ?? idea.reach?.toString() ?? ''}
+            onChange={(e) => setReachDraft(e.target.value)}
+            onBlur={commitReach}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitReach();
+            }}
+            placeholder="Reach"
+            aria-label="Reach"
+            className="h-7 text-xs"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn('h-7 w-7 p-0', myVote === 1 && 'text-primary')}
+              onClick={() => handleVote(1)}
+              disabled={!voterName || voteMutation.isPending}
+              title={voterName ? 'Vote up' : 'Set your name to vote'}
+            >
+              <ThumbsUp className="w-3.5 h-3.5" />
+            </Button>
+            <span className="text-xs font-medium min-w-4 text-center">{tally}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn('h-7 w-7 p-0', myVote === -1 && 'text-destructive')}
+              onClick={() => handleVote(-1)}
+              disabled={!voterName || voteMutation.isPending}
+              title={voterName ? 'Vote down' : 'Set your name to vote'}
+            >
+              <ThumbsDown className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs text-muted-foreground"
+            onClick={() => setShowComments((shown) => !shown)}
+          >
+            <MessageSquare className="w-3.5 h-3.5" />
+            {idea.comments?.length ?? 0}
+          </Button>
+        </div>
+
+        {showComments && <IdeaComments idea={idea} projectPath={projectPath} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function IdeationRoadmap({ projectPath }: { projectPath: string }) {
+  const voterName = useIdeationStore((s) => s.voterName);
+  const setVoterName = useIdeationStore((s) => s.setVoterName);
+  const { data: ideas = [], isLoading } = useIdeas(projectPath);
+  const convertMutation = useConvertIdeas(projectPath);
+  const [convertingLane, setConvertingLane] = useState<LaneId | null>(null);
+
+  const { ideasByLane, typicalReach } = useMemo(() => {
+    const grouped: Record<LaneId, Idea[]> = { unplanned: [], now: [], next: [], later: [] };
+    for (const idea of ideas) {
+      if (idea.status === 'archived') continue;
+      grouped[idea.lane ?? UNPLANNED].push(idea);
+    }
+    const typicalReach = getTypicalIdeaReach(Object.values(grouped).flat());
+    for (const lane of Object.values(grouped)) {
+      lane.sort((a, b) => compareIdeas(a, b, typicalReach));
+    }
+    return { ideasByLane: grouped, typicalReach };
+  }, [ideas]);
+
+  const handleConvertLane = (lane: LaneId) => {
+    const ideaIds = ideasByLane[lane].map((idea) => idea.id);
+    if (ideaIds.length === 0) return;
+    setConvertingLane(lane);
+    convertMutation.mutate(ideaIds, { onSettled: () => setConvertingLane(null) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  const activeCount = LANES.reduce((sum, lane) => sum + ideasByLane[lane.id].length, 0);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 p-6 gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Ideas are ranked by RICE score (ICE at the typical reach without an estimate), then votes.
+          Converting a lane adds its ideas to the backlog with inferred dependencies.
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-sm text-muted-foreground">Voting as</span>
+          <Input
+            value={voterName}
+            onChange={(e) => setVoterName(e.target.value)}
+            placeholder="Your name"
+            className="h-8 w-40"
+          />
+        </div>
+      </div>
+
+      {activeCount === 0 ? (
+        <Card>
+          <CardContent className="py-16">
+            <div className="text-center">
+              <Sparkles className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="text-lg font-medium mb-2">No saved ideas</h3>
+              <p className="text-muted-foreground">
+                Save generated ideas from the dashboard to plan them here
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="flex-1 grid grid-cols-4 gap-4 min-h-0">
+          {LANES.map((lane) => {
+            const laneIdeas = ideasByLane[lane.id];
+            return (
+              <div
+                key={lane.id}
+                className="flex flex-col min-h-0 rounded-lg border border-border bg-card/40"
+                data-testid={`roadmap-lane-${lane.id}`}
+              >
+                <div className="flex items-center justify-between p-3 border-b border-border">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-sm">{lane.label}</h3>
+                    <Badge variant="secondary" className="text-xs">
+                      {laneIdeas.length}
+                    </Badge>
+                  </div>
+                  {lane.id !== UNPLANNED && laneIdeas.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      onClick={() => handleConvertLane(lane.id)}
+                      disabled={convertMutation.isPending}
+                      title="Add these ideas to the backlog"
+                    >
+                      {convertingLane === lane.id ? (
+                        <Spinner size="sm" />
+                      ) : (
+                        <ArrowRightToLine className="w-3.5 h-3.5" />
+                      )}
+                      Convert
+                    </Button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-auto p-2 space-y-2">
+                  {laneIdeas.map((idea) => (
+                    <RoadmapIdeaCard
+                      key={idea.id}
+                      idea={idea}
+                      projectPath={projectPath}
+                      typicalReach={typicalReach}
+                    />
+                  ))}
+                  {laneIdeas.length === 0 && (
+                    <p className="text-xs text-muted-foreground text-center py-6">No ideas</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,9 +9,17 @@ import { useAppStore } from '@/store/app-store';
 import { PromptCategoryGrid } from './components/prompt-category-grid';
 import { PromptList } from './components/prompt-list';
 import { IdeationDashboard } from './components/ideation-dashboard';
+import { IdeationRoadmap } from './components/ideation-roadmap';
 import { useGuidedPrompts } from '@/hooks/use-guided-prompts';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, ChevronRight, Lightbulb, CheckCheck, Trash2 } from 'lucide-react';
+import {
+  ArrowLeft,
+  ChevronRight,
+  Lightbulb,
+  CheckCheck,
+  Trash2,
+  Map as MapIcon,
+} from 'lucide-react';
 import { Spinner } from '@/components/ui/spinner';
 import { IdeationSettingsPopover } from './components/ideation-settings-popover';
 import type { IdeaCategory } from '@automaker/types';
@@ -44,7 +52,9 @@ function IdeationBreadcrumbs({
         Dashboard
       </button>
       <ChevronRight className="w-3 h-3" />
-      {selectedCategory && categoryInfo ? (
+      {currentMode === 'roadmap' ? (
+        <span className="text-foreground">Roadmap</span>
+      ) : selectedCategory && categoryInfo ? (
         <>
           <button
             onClick={() => onNavigate('prompts', null)}
@@ -71,6 +81,7 @@ function IdeationHeader({
   selectedCategory,
   onNavigate,
   onGenerateIdeas,
+  onShowRoadmap,
   onBack,
   acceptAllReady,
   acceptAllCount,
@@ -85,6 +96,7 @@ function IdeationHeader({
   selectedCategory: IdeaCategory | null;
   onNavigate: (mode: IdeationMode, category?: IdeaCategory | null) => void;
   onGenerateIdeas: () => void;
+  onShowRoadmap: () => void;
   onBack: () => void;
   acceptAllReady: boolean;
   acceptAllCount: number;
@@ -96,7 +108,7 @@ function IdeationHeader({
   projectPath: string;
 }) {
   const { getCategoryById } = useGuidedPrompts();
-  const showBackButton = currentMode === 'prompts';
+  const showBackButton = currentMode === 'prompts' || currentMode === 'roadmap';
 
   // Get subtitle text based on current mode
   const getSubtitle = (): string => {
@@ -164,6 +176,12 @@ function IdeationHeader({
           </Button>
         )}
         <div className="flex items-center gap-3">
+          {currentMode !== 'roadmap' && (
+            <Button onClick={onShowRoadmap} variant="outline" className="gap-2">
+              <MapIcon className="w-4 h-4" />
+              Roadmap
+            </Button>
+          )}
           <Button onClick={onGenerateIdeas} className="gap-2">
             <Lightbulb className="w-4 h-4" />
             Generate Ideas
@@ -264,6 +282,11 @@ export function IdeationView() {
     setCategory(null);
   }, [setMode, setCategory]);
 
+  const handleShowRoadmap = useCallback(() => {
+    setMode('roadmap');
+    setCategory(null);
+  }, [setMode, setCategory]);
+
   if (!currentProject) {
     return (
       <div
@@ -288,6 +311,7 @@ export function IdeationView() {
         selectedCategory={selectedCategory}
         onNavigate={handleNavigate}
         onGenerateIdeas={handleGenerateIdeas}
+        onShowRoadmap={handleShowRoadmap}
         onBack={handleBackFromPrompts}
         acceptAllReady={acceptAllReady}
         acceptAllCount={acceptAllCount}
@@ -308,6 +332,9 @@ export function IdeationView() {
         />
       )}
 
+      {/* Roadmap - saved ideas planned into lanes */}
+      {currentMode === 'roadmap' && <IdeationRoadmap projectPath={currentProject.path} />}
+
       {/* Prompts - category selection */}
       {currentMode === 'prompts' && !selectedCategory && (
         <PromptCategoryGrid onSelect={handleSelectCategory} onBack={handleBackFromPrompts} />
@@ -18,6 +18,13 @@ import {
   Pencil,
   FilePlus,
   MoreVertical,
+  Sparkles,
+  Check,
+  X,
+  GitMerge,
+  AlertTriangle,
+  TrendingDown,
+  Minimize2,
 } from 'lucide-react';
 import { Spinner } from '@/components/ui/spinner';
 import {
@@ -30,6 +37,7 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { Markdown } from '../ui/markdown';
 import {
@@ -38,6 +46,13 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { useMemoryCuration } from '@/hooks/queries';
+import {
+  useRunMemoryCuration,
+  useApplyMemoryProposal,
+  useDismissMemoryProposal,
+} from '@/hooks/mutations';
+import type { MemoryCurationKind, MemoryCurationProposal, MemoryDiffLine } from '@automaker/types';
 
 const logger = createLogger('MemoryView');
 
@@ -47,6 +62,223 @@ interface MemoryFile {
   path: string;
 }
 
+const PROPOSAL_KINDS: Record<
+  MemoryCurationKind,
+  { label: string; icon: typeof GitMerge; variant: 'info' | 'warning' | 'muted' | 'brand' }
+> = {
+  merge: { label: 'Merge', icon: GitMerge, variant: 'info' },
+  conflict: { label: 'Conflict', icon: AlertTriangle, variant: 'warning' },
+  decay: { label: 'Decay', icon: TrendingDown, variant: 'muted' },
+  summarize: { label: 'Summarize', icon: Minimize2, variant: 'brand' },
+};
+
+/** Unchanged lines shown around each change in a proposal diff */
+const DIFF_CONTEXT_LINES = 2;
+
+/**
+ * Line diff of a proposal, with long unchanged stretches collapsed
+ */
+function ProposalDiff({ lines }: { lines: MemoryDiffLine[] }) {
+  const changed = lines.map((line) => line.type !== 'context');
+  const visible = lines.map((_, i) =>
+    changed.slice(Math.max(0, i - DIFF_CONTEXT_LINES), i + DIFF_CONTEXT_LINES + 1).some(Boolean)
+  );
+
+  const rows: Array<MemoryDiffLine | { hidden: number }> = [];
+  lines.forEach((line, i) => {
+    if (visible[i]) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last && 'hidden' in last) last.hidden++;
+    else rows.push({ hidden: 1 });
+  });
+
+  return (
+    <div className="rounded-md border border-border overflow-hidden font-mono text-xs">
+      {rows.map((row, i) =>
+        'hidden' in row ? (
+          <div key={i} className="px-2 py-1 bg-blue-500/10 text-blue-400">
+            ⋯ {row.hidden} unchanged {row.hidden === 1 ? 'line' : 'lines'}
+          </div>
+        ) : (
+          <div
+            key={i}
+            className={cn(
+              'flex',
+              row.type === 'addition' && 'bg-green-500/10 text-green-400',
+              row.type === 'deletion' && 'bg-red-500/10 text-red-400',
+              row.type === 'context' && 'text-foreground-secondary'
+            )}
+          >
+            <span className="w-4 flex-shrink-0 text-center select-none">
+              {row.type === 'addition' ? '+' : row.type === 'deletion' ? '-' : ' '}
+            </span>
+            <span className="flex-1 px-2 whitespace-pre-wrap break-all">
+              {row.content || '\u00A0'}
+            </span>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * One curation proposal with its diff and review actions
+ */
+function ProposalCard({
+  proposal,
+  isBusy,
+  onApply,
+  onDismiss,
+}: {
+  proposal: MemoryCurationProposal;
+  isBusy: boolean;
+  onApply: (resolutionIndex?: number) => void;
+  onDismiss: () => void;
+}) {
+  const [resolutionIndex, setResolutionIndex] = useState(0);
+  const kind = PROPOSAL_KINDS[proposal.kind];
+  const KindIcon = kind.icon;
+  const resolution = proposal.resolutions?.[resolutionIndex];
+  const diff = resolution ? resolution.diff : proposal.diff;
+
+  return (
+    <Card className="p-4 space-y-3" data-testid={`memory-proposal-${proposal.id}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <Badge variant={kind.variant} size="sm">
+              <KindIcon className="w-3 h-3 mr-1" />
+              {kind.label}
+            </Badge>
+            <span className="text-xs text-muted-foreground truncate">{proposal.fileName}</span>
+          </div>
+          <p className="text-sm font-medium">{proposal.title}</p>
+          <p className="text-xs text-muted-foreground">{proposal.reason}</p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onDismiss}
+            disabled={isBusy}
+            data-testid={`dismiss-memory-proposal-${proposal.id}`}
+          >
+            <X className="w-4 h-4 mr-1" />
+            {proposal.kind === 'conflict' ? 'Keep both' : 'Dismiss'}
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onApply(proposal.resolutions ? resolutionIndex : undefined)}
+            disabled={isBusy}
+            data-testid={`apply-memory-proposal-${proposal.id}`}
+          >
+            <Check className="w-4 h-4 mr-1" />
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      {proposal.resolutions && (
+        <div className="flex gap-2">
+          {proposal.resolutions.map((option, index) => (
+            <Button
+              key={option.label}
+              variant={index === resolutionIndex ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setResolutionIndex(index)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {diff && <ProposalDiff lines={diff} />}
+    </Card>
+  );
+}
+
+/**
+ * Review panel for memory curation proposals
+ */
+function MemoryCurationReview({
+  projectPath,
+  onFileChanged,
+}: {
+  projectPath: string;
+  onFileChanged: (fileName: string) => void;
+}) {
+  const { data, isLoading } = useMemoryCuration(projectPath);
+  const runCuration = useRunMemoryCuration(projectPath);
+  const applyProposal = useApplyMemoryProposal(projectPath);
+  const dismissProposal = useDismissMemoryProposal(projectPath);
+  const proposals = data?.proposals ?? [];
+  const isRunning = runCuration.isPending || !!data?.isRunning;
+  const isBusy = applyProposal.isPending || dismissProposal.isPending;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden" data-testid="memory-curation-review">
+      <div className="flex items-center justify-between p-3 border-b border-border bg-card">
+        <div className="min-w-0">
+          <h2 className="text-sm font-medium">Curation proposals ({proposals.length})</h2>
+          <p className="text-xs text-muted-foreground">
+            {data?.generatedAt
+              ? `Last run ${new Date(data.generatedAt).toLocaleString()}`
+              : 'Merge duplicates, resolve conflicting decisions and trim unused memory'}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => runCuration.mutate(true)}
+          disabled={isRunning}
+          data-testid="run-memory-curation"
+        >
+          {isRunning ? (
+            <Spinner size="sm" className="mr-2" />
+          ) : (
+            <Sparkles className="w-4 h-4 mr-2" />
+          )}
+          {isRunning ? 'Curating...' : 'Run Curation'}
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Spinner size="lg" />
+          </div>
+        ) : proposals.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center">
+            <Sparkles className="w-12 h-12 text-muted-foreground mb-3" />
+            <p className="text-foreground-secondary">No changes to review</p>
+            <p className="text-muted-foreground text-sm mt-1">
+              Run curation to look for duplicate, conflicting and unused learnings
+            </p>
+          </div>
+        ) : (
+          proposals.map((proposal) => (
+            <ProposalCard
+              key={proposal.id}
+              proposal={proposal}
+              isBusy={isBusy}
+              onApply={(resolutionIndex) =>
+                applyProposal.mutate(
+                  { proposalId: proposal.id, resolutionIndex },
+                  { onSuccess: () => onFileChanged(proposal.fileName) }
+                )
+              }
+              onDismiss={() => dismissProposal.mutate(proposal.id)}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function MemoryView() {
   const { currentProject } = useAppStore();
   const [memoryFiles, setMemoryFiles] = useState<MemoryFile[]>([]);
@@ -68,6 +300,11 @@ export function MemoryView() {
   // Actions panel state (for tablet/mobile)
   const [showActionsPanel, setShowActionsPanel] = useState(false);
 
+  // Curation review replaces the editor while open
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const { data: curation } = useMemoryCuration(currentProject?.path);
+  const proposalCount = curation?.proposals.length ?? 0;
+
   // Get memory directory path
   const getMemoryPath = useCallback(() => {
     if (!currentProject) return null;
@@ -135,6 +372,7 @@ export function MemoryView() {
     }
     loadFileContent(file);
     setIsPreviewMode(true);
+    setIsReviewOpen(false);
   };
 
   // Save current file
@@ -289,6 +527,14 @@ export function MemoryView() {
     }
   };
 
+  // Reload files after a curation proposal rewrote one of them
+  const handleCuratedFile = async (fileName: string) => {
+    await loadMemoryFiles();
+    if (selectedFile?.name === fileName) {
+      await loadFileContent(selectedFile);
+    }
+  };
+
   if (!currentProject) {
     return (
       <div className="flex-1 flex items-center justify-center" data-testid="memory-view-no-project">
@@ -330,6 +576,20 @@ export function MemoryView() {
               <RefreshCw className="w-4 h-4 mr-2" />
               Refresh
             </Button>
+            <Button
+              variant={isReviewOpen ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setIsReviewOpen(!isReviewOpen)}
+              data-testid="review-memory-curation-button"
+            >
+              <Sparkles className="w-4 h-4 mr-2" />
+              Curation
+              {proposalCount > 0 && (
+                <Badge variant="brand" size="sm" className="ml-2">
+                  {proposalCount}
+                </Badge>
+              )}
+            </Button>
             <Button
               size="sm"
               onClick={() => setIsCreateMemoryOpen(true)}
@@ -365,6 +625,18 @@ export function MemoryView() {
           <RefreshCw className="w-4 h-4 mr-2" />
           Refresh
         </Button>
+        <Button
+          variant="outline"
+          className="w-full justify-start"
+          onClick={() => {
+            setIsReviewOpen(!isReviewOpen);
+            setShowActionsPanel(false);
+          }}
+          data-testid="review-memory-curation-button-mobile"
+        >
+          <Sparkles className="w-4 h-4 mr-2" />
+          Curation{proposalCount > 0 ? ` (${proposalCount})` : ''}
+        </Button>
         <Button
           className="w-full justify-start"
           onClick={() => {
@@ -454,9 +726,14 @@ export function MemoryView() {
           </div>
         </div>
 
-        {/* Right Panel - Editor/Preview */}
+        {/* Right Panel - Curation review or Editor/Preview */}
         <div className="flex-1 flex flex-col overflow-hidden">
-          {selectedFile ? (
+          {isReviewOpen ? (
+            <MemoryCurationReview
+              projectPath={currentProject.path}
+              onFileChanged={handleCuratedFile}
+            />
+          ) : selectedFile ? (
             <>
               {/* File toolbar */}
               <div className="flex items-center justify-between p-3 border-b border-border bg-card">
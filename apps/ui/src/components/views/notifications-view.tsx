@@ -9,7 +9,17 @@ import { useLoadNotifications, useNotificationEvents } from '@/hooks/use-notific
 import { getHttpApiClient } from '@/lib/http-api-client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardTitle } from '@/components/ui/card';
-import { Bell, Check, CheckCheck, Trash2, ExternalLink } from 'lucide-react';
+import {
+  Bell,
+  Check,
+  CheckCheck,
+  ClipboardList,
+  GitMerge,
+  Trash2,
+  ExternalLink,
+  Wallet,
+  XCircle,
+} from 'lucide-react';
 import { Spinner } from '@/components/ui/spinner';
 import { useNavigate } from '@tanstack/react-router';
 import type { Notification } from '@automaker/types';
@@ -128,6 +138,16 @@ export function NotificationsView() {
         return <Check className="h-5 w-5 text-blue-500" />;
       case 'agent_complete':
         return <Check className="h-5 w-5 text-purple-500" />;
+      case 'feature_failed':
+        return <XCircle className="h-5 w-5 text-red-500" />;
+      case 'plan_approval_required':
+        return <ClipboardList className="h-5 w-5 text-yellow-500" />;
+      case 'budget_warning':
+        return <Wallet className="h-5 w-5 text-yellow-500" />;
+      case 'budget_exceeded':
+        return <Wallet className="h-5 w-5 text-red-500" />;
+      case 'pr_merged':
+        return <GitMerge className="h-5 w-5 text-green-500" />;
       default:
         return <Bell className="h-5 w-5" />;
     }
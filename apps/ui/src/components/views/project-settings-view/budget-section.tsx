@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Wallet, Save, RotateCcw, Info, FolderKanban, SquareKanban } from 'lucide-react';
+import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+import { useProjectSettings } from '@/hooks/queries';
+import { useUpdateProjectSettings } from '@/hooks/mutations';
+import type { Project } from '@/lib/electron';
+import type { BudgetLimits, BudgetScope, BudgetSettings } from '@automaker/types';
+
+/** Budget limit fields as edited in the form (empty string = no limit) */
+interface BudgetLimitFields {
+  maxCostUsd: string;
+  maxTokens: string;
+  maxMinutes: string;
+}
+
+const EMPTY_FIELDS: BudgetLimitFields = { maxCostUsd: '', maxTokens: '', maxMinutes: '' };
+
+const LIMIT_INPUTS: Array<{
+  key: keyof BudgetLimitFields;
+  label: string;
+  placeholder: string;
+  step: string;
+}> = [
+  { key: 'maxCostUsd', label: 'Max cost (USD)', placeholder: 'e.g., 10', step: '0.01' },
+  { key: 'maxTokens', label: 'Max tokens', placeholder: 'e.g., 2000000', step: '1000' },
+  { key: 'maxMinutes', label: 'Max minutes', placeholder: 'e.g., 120', step: '1' },
+];
+
+const SCOPES: Array<{
+  scope: BudgetScope;
+  title: string;
+  description: string;
+  icon: typeof FolderKanban;
+}> = [
+  {
+    scope: 'project',
+    title: 'Per Project',
+    description:
+      'Measured from when auto mode is started. When exceeded, auto mode stops and running agents are aborted.',
+    icon: FolderKanban,
+  },
+  {
+    scope: 'feature',
+    title: 'Per Feature',
+    description:
+      'Cost and tokens count everything a feature has used so far; minutes count the current run. When exceeded, the agent is aborted and the card moves to Budget Exceeded.',
+    icon: SquareKanban,
+  },
+];
+
+function toFields(limits: BudgetLimits | undefined): BudgetLimitFields {
+  return {
+    maxCostUsd: limits?.maxCostUsd ? String(limits.maxCostUsd) : '',
+    maxTokens: limits?.maxTokens ? String(limits.maxTokens) : '',
+    maxMinutes: limits?.maxMinutes ? String(limits.maxMinutes) : '',
+  };
+}
+
+function toLimits(fields: BudgetLimitFields): BudgetLimits | undefined {
+  const limits: BudgetLimits = {};
+  for (const { key } of LIMIT_INPUTS) {
+    const value = Number(fields[key]);
+    if (fields[key].trim() && Number.isFinite(value) && value > 0) {
+      limits[key] = value;
+    }
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+function fieldsEqual(a: BudgetLimitFields, b: BudgetLimitFields): boolean {
+  return LIMIT_INPUTS.every(({ key }) => a[key] === b[key]);
+}
+
+interface BudgetSectionProps {
+  project: Project;
+}
+
+export function BudgetSection({ project }: BudgetSectionProps) {
+  // Fetch project settings using TanStack Query
+  const { data: projectSettings, isLoading, isError } = useProjectSettings(project.path);
+
+  // Mutation hook for updating project settings
+  const updateSettingsMutation = useUpdateProjectSettings(project.path);
+
+  // Local state for the input fields
+  const [fields, setFields] = useState<Record<BudgetScope, BudgetLimitFields>>({
+    project: EMPTY_FIELDS,
+    feature: EMPTY_FIELDS,
+  });
+  const [originalFields, setOriginalFields] = useState<Record<BudgetScope, BudgetLimitFields>>({
+    project: EMPTY_FIELDS,
+    feature: EMPTY_FIELDS,
+  });
+
+  // Sync local state when project settings load or project changes
+  useEffect(() => {
+    const budget = projectSettings?.budget;
+    const loaded = { project: toFields(budget?.project), feature: toFields(budget?.feature) };
+    setFields(loaded);
+    setOriginalFields(loaded);
+  }, [project.path, projectSettings]);
+
+  const hasChanges =
+    !fieldsEqual(fields.project, originalFields.project) ||
+    !fieldsEqual(fields.feature, originalFields.feature);
+  const isSaving = updateSettingsMutation.isPending;
+
+  const handleChange = useCallback(
+    (scope: BudgetScope, key: keyof BudgetLimitFields, value: string) => {
+      setFields((prev) => ({ ...prev, [scope]: { ...prev[scope], [key]: value } }));
+    },
+    []
+  );
+
+  const handleSave = useCallback(() => {
+    const budget: BudgetSettings = {
+      project: toLimits(fields.project),
+      feature: toLimits(fields.feature),
+    };
+
+    updateSettingsMutation.mutate(
+      { budget },
+      {
+        onSuccess: () => {
+          const saved = { project: toFields(budget.project), feature: toFields(budget.feature) };
+          setFields(saved);
+          setOriginalFields(saved);
+        },
+      }
+    );
+  }, [fields, updateSettingsMutation]);
+
+  const handleReset = useCallback(() => {
+    setFields(originalFields);
+  }, [originalFields]);
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl overflow-hidden',
+        'border border-border/50',
+        'bg-gradient-to-br from-card/90 via-card/70 to-card/80 backdrop-blur-xl',
+        'shadow-sm shadow-black/5'
+      )}
+    >
+      <div className="p-6 border-b border-border/50 bg-gradient-to-r from-transparent via-accent/5 to-transparent">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-brand-500/20 to-brand-600/10 flex items-center justify-center border border-brand-500/20">
+            <Wallet className="w-5 h-5 text-brand-500" />
+          </div>
+          <h2 className="text-lg font-semibold text-foreground tracking-tight">Budgets</h2>
+        </div>
+        <p className="text-sm text-muted-foreground/80 ml-12">
+          Cap how much auto mode can spend on this project.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center py-8 text-sm text-destructive">
+            Failed to load project settings. Please try again.
+          </div>
+        ) : (
+          <>
+            {SCOPES.map(({ scope, title, description, icon: Icon }, index) => (
+              <div key={scope} className="space-y-8">
+                {index > 0 && <div className="border-t border-border/30" />}
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Icon className="w-4 h-4 text-brand-500" />
+                    <h3 className="text-base font-medium text-foreground">{title}</h3>
+                    {!fieldsEqual(fields[scope], originalFields[scope]) && (
+                      <span className="text-xs text-amber-500 font-medium">(unsaved)</span>
+                    )}
+                  </div>
+
+                  <div className="space-y-3 pl-6">
+                    <p className="text-xs text-muted-foreground/80">{description}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      {LIMIT_INPUTS.map(({ key, label, placeholder, step }) => (
+                        <div key={key} className="space-y-1.5">
+                          <Label htmlFor={`budget-${scope}-${key}`} className="text-xs">
+                            {label}
+                          </Label>
+                          <Input
+                            id={`budget-${scope}-${key}`}
+                            type="number"
+                            min="0"
+                            step={step}
+                            value={fields[scope][key]}
+                            onChange={(e) => handleChange(scope, key, e.target.value)}
+                            placeholder={placeholder}
+                            className="font-mono text-sm"
+                            data-testid={`budget-${scope}-${key}-input`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {/* Budget Info */}
+            <div className="flex items-start gap-3 p-3 rounded-lg bg-accent/20 border border-border/30">
+              <Info className="w-4 h-4 text-brand-500 mt-0.5 shrink-0" />
+              <div className="text-xs text-muted-foreground">
+                <p className="font-medium text-foreground mb-1">How budgets are measured</p>
+                <p>
+                  Leave a field empty for no limit. Cost uses the amount reported by the provider,
+                  or an estimate from list pricing when it is not reported. Features stopped for
+                  exceeding their budget are not picked up by auto mode again until you start them
+                  manually.
+                </p>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex items-center justify-end gap-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReset}
+                disabled={!hasChanges || isSaving}
+                className="gap-1.5"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Reset
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={!hasChanges || isSaving}
+                className="gap-1.5"
+              >
+                {isSaving ? <Spinner size="xs" /> : <Save className="w-3.5 h-3.5" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,10 @@ import {
   Workflow,
   Database,
   Terminal,
+  Wallet,
+  Repeat,
+  CalendarClock,
+  Webhook,
 } from 'lucide-react';
 import type { ProjectSettingsViewId } from '../hooks/use-project-settings-view';
 
@@ -20,6 +24,10 @@ export const PROJECT_SETTINGS_NAV_ITEMS: ProjectNavigationItem[] = [
   { id: 'identity', label: 'Identity', icon: User },
   { id: 'worktrees', label: 'Worktrees', icon: GitBranch },
   { id: 'commands', label: 'Commands', icon: Terminal },
+  { id: 'budget', label: 'Budgets', icon: Wallet },
+  { id: 'retries', label: 'Retries', icon: Repeat },
+  { id: 'schedules', label: 'Schedules', icon: CalendarClock },
+  { id: 'inbound', label: 'Inbound Hooks', icon: Webhook },
   { id: 'theme', label: 'Theme', icon: Palette },
   { id: 'claude', label: 'Models', icon: Workflow },
   { id: 'data', label: 'Data', icon: Database },
@@ -5,6 +5,10 @@ export type ProjectSettingsViewId =
   | 'theme'
   | 'worktrees'
   | 'commands'
+  | 'budget'
+  | 'retries'
+  | 'schedules'
+  | 'inbound'
   | 'claude'
   | 'data'
   | 'danger';
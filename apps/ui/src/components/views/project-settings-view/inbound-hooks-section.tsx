@@ -0,0 +1,504 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Webhook, Save, RotateCcw, Info, Plus, Trash2, Copy, KeyRound, X } from 'lucide-react';
+import { Spinner } from '@/components/ui/spinner';
+import { cn, generateUUID } from '@/lib/utils';
+import { getServerUrlSync } from '@/lib/http-api-client';
+import { useProjectSettings } from '@/hooks/queries';
+import { useUpdateProjectSettings } from '@/hooks/mutations';
+import type { Project } from '@/lib/electron';
+import type {
+  EventHookFilter,
+  EventHookFilterOperator,
+  InboundHook,
+  InboundHookAction,
+  InboundHookMapping,
+} from '@automaker/types';
+import { EVENT_HOOK_FILTER_OPERATOR_LABELS, INBOUND_HOOK_ACTION_LABELS } from '@automaker/types';
+
+const ACTIONS = Object.keys(INBOUND_HOOK_ACTION_LABELS) as InboundHookAction[];
+
+const FILTER_OPERATORS: EventHookFilterOperator[] = ['equals', 'not_equals', 'contains', 'matches'];
+
+/** Mapping fields shown for each action, with example templates */
+const MAPPING_FIELDS: Record<
+  InboundHookAction,
+  Array<{ key: keyof InboundHookMapping; label: string; placeholder: string; multiline?: boolean }>
+> = {
+  create_feature: [
+    { key: 'title', label: 'Title', placeholder: 'Fix the build on {{body.branch}}' },
+    {
+      key: 'description',
+      label: 'Description',
+      placeholder: 'CI failed on {{body.branch}}:\n\n{{body.log}}',
+      multiline: true,
+    },
+    { key: 'branchName', label: 'Branch', placeholder: '{{body.branch}}' },
+    { key: 'category', label: 'Category', placeholder: 'CI' },
+    { key: 'model', label: 'Model', placeholder: 'Project default' },
+    { key: 'priority', label: 'Priority (1-3)', placeholder: '1' },
+  ],
+  start_auto_mode: [{ key: 'branchName', label: 'Branch', placeholder: 'Main worktree' }],
+  add_follow_up: [
+    { key: 'featureId', label: 'Feature ID', placeholder: '{{body.featureId}}' },
+    {
+      key: 'prompt',
+      label: 'Follow-up prompt',
+      placeholder: 'Review feedback:\n\n{{body.comment}}',
+      multiline: true,
+    },
+  ],
+};
+
+/** Mapping fields that must be filled in for each action */
+const REQUIRED_FIELDS: Record<InboundHookAction, Array<keyof InboundHookMapping>> = {
+  create_feature: ['title'],
+  start_auto_mode: [],
+  add_follow_up: ['featureId', 'prompt'],
+};
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isIncomplete(hook: InboundHook): boolean {
+  return (
+    !hook.secret.trim() || REQUIRED_FIELDS[hook.action].some((key) => !hook.mapping[key]?.trim())
+  );
+}
+
+function getHookUrl(hookId: string): string {
+  const baseUrl = getServerUrlSync() || window.location.origin;
+  return `${baseUrl}/api/inbound/${hookId}`;
+}
+
+interface InboundHooksSectionProps {
+  project: Project;
+}
+
+export function InboundHooksSection({ project }: InboundHooksSectionProps) {
+  // Fetch project settings using TanStack Query
+  const { data: projectSettings, isLoading, isError } = useProjectSettings(project.path);
+
+  // Mutation hook for updating project settings
+  const updateSettingsMutation = useUpdateProjectSettings(project.path);
+
+  // Local state for the hooks being edited
+  const [hooks, setHooks] = useState<InboundHook[]>([]);
+  const [originalHooks, setOriginalHooks] = useState<InboundHook[]>([]);
+
+  // Sync local state when project settings load or project changes
+  useEffect(() => {
+    const loaded = projectSettings?.inboundHooks ?? [];
+    setHooks(loaded);
+    setOriginalHooks(loaded);
+  }, [project.path, projectSettings]);
+
+  const hasChanges = JSON.stringify(hooks) !== JSON.stringify(originalHooks);
+  const isSaving = updateSettingsMutation.isPending;
+  const hasIncompleteHook = hooks.some(isIncomplete);
+
+  const updateHook = useCallback((id: string, updates: Partial<InboundHook>) => {
+    setHooks((prev) => prev.map((hook) => (hook.id === id ? { ...hook, ...updates } : hook)));
+  }, []);
+
+  const handleAddHook = useCallback(() => {
+    setHooks((prev) => [
+      ...prev,
+      {
+        id: generateUUID(),
+        enabled: true,
+        secret: generateSecret(),
+        action: 'create_feature',
+        mapping: {},
+      },
+    ]);
+  }, []);
+
+  const handleRemoveHook = useCallback((id: string) => {
+    setHooks((prev) => prev.filter((hook) => hook.id !== id));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const inboundHooks = hooks.map((hook) => {
+      const filters = hook.filters?.filter((filter) => filter.field.trim());
+      return { ...hook, filters: filters?.length ? filters : undefined };
+    });
+
+    updateSettingsMutation.mutate(
+      { inboundHooks },
+      {
+        onSuccess: () => {
+          setHooks(inboundHooks);
+          setOriginalHooks(inboundHooks);
+        },
+      }
+    );
+  }, [hooks, updateSettingsMutation]);
+
+  const handleReset = useCallback(() => {
+    setHooks(originalHooks);
+  }, [originalHooks]);
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl overflow-hidden',
+        'border border-border/50',
+        'bg-gradient-to-br from-card/90 via-card/70 to-card/80 backdrop-blur-xl',
+        'shadow-sm shadow-black/5'
+      )}
+    >
+      <div className="p-6 border-b border-border/50 bg-gradient-to-r from-transparent via-accent/5 to-transparent">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-brand-500/20 to-brand-600/10 flex items-center justify-center border border-brand-500/20">
+            <Webhook className="w-5 h-5 text-brand-500" />
+          </div>
+          <h2 className="text-lg font-semibold text-foreground tracking-tight">Inbound Hooks</h2>
+        </div>
+        <p className="text-sm text-muted-foreground/80 ml-12">
+          Let CI, monitoring and other services create features, start auto mode or send follow-ups.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center py-8 text-sm text-destructive">
+            Failed to load project settings. Please try again.
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-base font-medium text-foreground">Hooks</h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddHook}
+                  className="gap-1.5"
+                  data-testid="inbound-hooks-add"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  Add Hook
+                </Button>
+              </div>
+
+              {hooks.length === 0 ? (
+                <p className="text-xs text-muted-foreground/80">
+                  No inbound hooks. External systems can't change this project's board.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {hooks.map((hook) => (
+                    <InboundHookEditor
+                      key={hook.id}
+                      hook={hook}
+                      onChange={(updates) => updateHook(hook.id, updates)}
+                      onRemove={() => handleRemoveHook(hook.id)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Inbound Hook Info */}
+            <div className="flex items-start gap-3 p-3 rounded-lg bg-accent/20 border border-border/30">
+              <Info className="w-4 h-4 text-brand-500 mt-0.5 shrink-0" />
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p className="font-medium text-foreground">How inbound hooks work</p>
+                <p>
+                  POST JSON to the hook URL with the secret as{' '}
+                  <code className="font-mono">Authorization: Bearer &lt;secret&gt;</code>, or sign
+                  the body: GitHub webhooks (X-Hub-Signature-256) and Automaker's own outgoing
+                  webhooks are accepted as they are. The secret may reference a server environment
+                  variable starting with AUTOMAKER_HOOKS_, such as{' '}
+                  <code className="font-mono">{'${AUTOMAKER_HOOKS_CI_SECRET}'}</code>.
+                </p>
+                <p>
+                  Templates read the request with{' '}
+                  <code className="font-mono">{'{{body.path.to.field}}'}</code>,{' '}
+                  <code className="font-mono">{'{{headers.x-github-event}}'}</code> and{' '}
+                  <code className="font-mono">{'{{query.name}}'}</code>. A feature whose title
+                  already exists isn't filed again, and retries with the same Idempotency-Key are
+                  only acted on once.
+                </p>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex items-center justify-end gap-2 pt-2">
+              {hasIncompleteHook && (
+                <span className="text-xs text-destructive mr-auto">
+                  Every hook needs a secret and its required templates.
+                </span>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReset}
+                disabled={!hasChanges || isSaving}
+                className="gap-1.5"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Reset
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={!hasChanges || isSaving || hasIncompleteHook}
+                className="gap-1.5"
+              >
+                {isSaving ? <Spinner size="xs" /> : <Save className="w-3.5 h-3.5" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface InboundHookEditorProps {
+  hook: InboundHook;
+  onChange: (updates: Partial<InboundHook>) => void;
+  onRemove: () => void;
+}
+
+function InboundHookEditor({ hook, onChange, onRemove }: InboundHookEditorProps) {
+  const idPrefix = `inbound-hook-${hook.id}`;
+  const url = getHookUrl(hook.id);
+  const filters = hook.filters ?? [];
+
+  const handleCopyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Hook URL copied to clipboard');
+    } catch {
+      toast.error('Failed to copy hook URL to clipboard');
+    }
+  };
+
+  const updateMapping = (key: keyof InboundHookMapping, value: string) => {
+    onChange({ mapping: { ...hook.mapping, [key]: value || undefined } });
+  };
+
+  const updateFilter = (index: number, updates: Partial<EventHookFilter>) => {
+    onChange({
+      filters: filters.map((filter, i) => (i === index ? { ...filter, ...updates } : filter)),
+    });
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-border/50 bg-accent/10 space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={hook.name ?? ''}
+          onChange={(e) => onChange({ name: e.target.value || undefined })}
+          placeholder="Hook name"
+          className="h-8 text-sm"
+          aria-label="Hook name"
+        />
+        <Switch
+          checked={hook.enabled}
+          onCheckedChange={(enabled) => onChange({ enabled })}
+          aria-label="Enabled"
+        />
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <code className="flex-1 truncate px-2 py-1.5 rounded-md bg-muted/50 text-xs font-mono">
+          POST {url}
+        </code>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={handleCopyUrl}
+          aria-label="Copy hook URL"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-secret`} className="text-xs">
+            Secret
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${idPrefix}-secret`}
+              type="password"
+              value={hook.secret}
+              onChange={(e) => onChange({ secret: e.target.value })}
+              placeholder="${AUTOMAKER_HOOKS_CI_SECRET}"
+              className={cn('font-mono text-sm', !hook.secret.trim() && 'border-destructive')}
+              autoComplete="off"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              onClick={() => onChange({ secret: generateSecret() })}
+              aria-label="Generate secret"
+              title="Generate secret"
+            >
+              <KeyRound className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              onClick={async () => {
+                try {
+                  await navigator.clipboard.writeText(hook.secret);
+                  toast.success('Secret copied to clipboard');
+                } catch {
+                  toast.error('Failed to copy secret to clipboard');
+                }
+              }}
+              aria-label="Copy secret"
+              title="Copy secret"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Action</Label>
+          <Select
+            value={hook.action}
+            onValueChange={(action) => onChange({ action: action as InboundHookAction })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {INBOUND_HOOK_ACTION_LABELS[action]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {MAPPING_FIELDS[hook.action].map(({ key, label, placeholder, multiline }) => {
+          const value = hook.mapping[key] ?? '';
+          const missing = REQUIRED_FIELDS[hook.action].includes(key) && !value.trim();
+          return (
+            <div key={key} className={cn('space-y-1.5', multiline && 'sm:col-span-2')}>
+              <Label htmlFor={`${idPrefix}-${key}`} className="text-xs">
+                {label}
+              </Label>
+              {multiline ? (
+                <Textarea
+                  id={`${idPrefix}-${key}`}
+                  value={value}
+                  onChange={(e) => updateMapping(key, e.target.value)}
+                  placeholder={placeholder}
+                  rows={3}
+                  className={cn('font-mono text-sm', missing && 'border-destructive')}
+                />
+              ) : (
+                <Input
+                  id={`${idPrefix}-${key}`}
+                  value={value}
+                  onChange={(e) => updateMapping(key, e.target.value)}
+                  placeholder={placeholder}
+                  className={cn('font-mono text-sm', missing && 'border-destructive')}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Request filters */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Filters</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1"
+            onClick={() =>
+              onChange({ filters: [...filters, { field: '', operator: 'equals', value: '' }] })
+            }
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add Filter
+          </Button>
+        </div>
+        {filters.map((filter, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={filter.field}
+              onChange={(e) => updateFilter(index, { field: e.target.value })}
+              placeholder="body.conclusion"
+              className="flex-1 font-mono text-sm"
+              aria-label="Field"
+            />
+            <Select
+              value={filter.operator}
+              onValueChange={(v) => updateFilter(index, { operator: v as EventHookFilterOperator })}
+            >
+              <SelectTrigger className="w-28" aria-label="Operator">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FILTER_OPERATORS.map((op) => (
+                  <SelectItem key={op} value={op}>
+                    {EVENT_HOOK_FILTER_OPERATOR_LABELS[op]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={filter.value}
+              onChange={(e) => updateFilter(index, { value: e.target.value })}
+              placeholder={filter.operator === 'matches' ? '^release/' : 'failure'}
+              className="flex-1"
+              aria-label="Value"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange({ filters: filters.filter((_, i) => i !== index) })}
+              aria-label="Remove filter"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground/80">
+          Requests that don't match every filter are acknowledged and ignored.
+        </p>
+      </div>
+    </div>
+  );
+}
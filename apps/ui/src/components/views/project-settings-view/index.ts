@@ -3,5 +3,8 @@ export { ProjectIdentitySection } from './project-identity-section';
 export { ProjectThemeSection } from './project-theme-section';
 export { WorktreePreferencesSection } from './worktree-preferences-section';
 export { CommandsSection } from './commands-section';
+export { BudgetSection } from './budget-section';
+export { RetrySection } from './retry-section';
+export { SchedulesSection } from './schedules-section';
 export { useProjectSettingsView, type ProjectSettingsViewId } from './hooks';
 export { ProjectSettingsNavigation } from './components/project-settings-navigation';
@@ -40,6 +40,7 @@ const PHASE_LABELS: Record<PhaseModelKey, string> = {
   imageDescriptionModel: 'Image Descriptions',
   commitMessageModel: 'Commit Messages',
   validationModel: 'GitHub Issue Validation',
+  acceptanceJudgeModel: 'Acceptance Judge',
   specGenerationModel: 'App Specification',
   featureGenerationModel: 'Feature Generation',
   backlogPlanningModel: 'Backlog Planning',
@@ -48,6 +48,11 @@ const VALIDATION_TASKS: PhaseConfig[] = [
     label: 'GitHub Issue Validation',
     description: 'Validates and improves GitHub issues',
   },
+  {
+    key: 'acceptanceJudgeModel',
+    label: 'Acceptance Judge',
+    description: 'Scores features against their acceptance criteria',
+  },
 ];
 
 const GENERATION_TASKS: PhaseConfig[] = [
@@ -6,6 +6,10 @@ import { ProjectIdentitySection } from './project-identity-section';
 import { ProjectThemeSection } from './project-theme-section';
 import { WorktreePreferencesSection } from './worktree-preferences-section';
 import { CommandsSection } from './commands-section';
+import { BudgetSection } from './budget-section';
+import { RetrySection } from './retry-section';
+import { SchedulesSection } from './schedules-section';
+import { InboundHooksSection } from './inbound-hooks-section';
 import { ProjectModelsSection } from './project-models-section';
 import { DataManagementSection } from './data-management-section';
 import { DangerZoneSection } from '../settings-view/danger-zone/danger-zone-section';
@@ -89,6 +93,14 @@ export function ProjectSettingsView() {
         return <WorktreePreferencesSection project={currentProject} />;
       case 'commands':
         return <CommandsSection project={currentProject} />;
+      case 'budget':
+        return <BudgetSection project={currentProject} />;
+      case 'retries':
+        return <RetrySection project={currentProject} />;
+      case 'schedules':
+        return <SchedulesSection project={currentProject} />;
+      case 'inbound':
+        return <InboundHooksSection project={currentProject} />;
       case 'claude':
         return <ProjectModelsSection project={currentProject} />;
       case 'data':
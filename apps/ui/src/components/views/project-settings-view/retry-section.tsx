@@ -0,0 +1,328 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Repeat, Save, RotateCcw, Info, ArrowUp, ArrowDown, X } from 'lucide-react';
+import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+import { useProjectSettings } from '@/hooks/queries';
+import { useUpdateProjectSettings } from '@/hooks/mutations';
+import type { Project } from '@/lib/electron';
+import type { RetryPolicy } from '@automaker/types';
+import {
+  CLAUDE_MODELS,
+  CODEX_MODELS,
+  GEMINI_MODELS,
+  DEFAULT_RETRY_POLICY,
+  getModelDisplayName,
+} from '@automaker/types';
+
+/** Retry policy fields as edited in the form (empty string = use the global default) */
+interface RetryFields {
+  maxRetries: string;
+  initialBackoffSeconds: string;
+  maxBackoffSeconds: string;
+  fallbackModels: string[];
+}
+
+type NumericRetryField = Exclude<keyof RetryFields, 'fallbackModels'>;
+
+const EMPTY_FIELDS: RetryFields = {
+  maxRetries: '',
+  initialBackoffSeconds: '',
+  maxBackoffSeconds: '',
+  fallbackModels: [],
+};
+
+const NUMERIC_INPUTS: Array<{ key: NumericRetryField; label: string; min: string }> = [
+  { key: 'maxRetries', label: 'Retries per model', min: '0' },
+  { key: 'initialBackoffSeconds', label: 'Initial backoff (seconds)', min: '1' },
+  { key: 'maxBackoffSeconds', label: 'Max backoff (seconds)', min: '1' },
+];
+
+const FALLBACK_MODEL_OPTIONS = [...CLAUDE_MODELS, ...CODEX_MODELS, ...GEMINI_MODELS];
+
+function toFields(policy: RetryPolicy | undefined): RetryFields {
+  return {
+    maxRetries: policy?.maxRetries !== undefined ? String(policy.maxRetries) : '',
+    initialBackoffSeconds:
+      policy?.initialBackoffSeconds !== undefined ? String(policy.initialBackoffSeconds) : '',
+    maxBackoffSeconds:
+      policy?.maxBackoffSeconds !== undefined ? String(policy.maxBackoffSeconds) : '',
+    fallbackModels: policy?.fallbackModels ?? [],
+  };
+}
+
+function toPolicy(fields: RetryFields): RetryPolicy | undefined {
+  const policy: RetryPolicy = {};
+  for (const { key, min } of NUMERIC_INPUTS) {
+    const value = Number(fields[key]);
+    if (fields[key].trim() && Number.isInteger(value) && value >= Number(min)) {
+      policy[key] = value;
+    }
+  }
+  if (fields.fallbackModels.length > 0) {
+    policy.fallbackModels = fields.fallbackModels;
+  }
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
+function fieldsEqual(a: RetryFields, b: RetryFields): boolean {
+  return (
+    NUMERIC_INPUTS.every(({ key }) => a[key] === b[key]) &&
+    a.fallbackModels.join('\n') === b.fallbackModels.join('\n')
+  );
+}
+
+interface RetrySectionProps {
+  project: Project;
+}
+
+export function RetrySection({ project }: RetrySectionProps) {
+  // Fetch project settings using TanStack Query
+  const { data: projectSettings, isLoading, isError } = useProjectSettings(project.path);
+
+  // Mutation hook for updating project settings
+  const updateSettingsMutation = useUpdateProjectSettings(project.path);
+
+  // Local state for the form fields
+  const [fields, setFields] = useState<RetryFields>(EMPTY_FIELDS);
+  const [originalFields, setOriginalFields] = useState<RetryFields>(EMPTY_FIELDS);
+
+  // Sync local state when project settings load or project changes
+  useEffect(() => {
+    const loaded = toFields(projectSettings?.retryPolicy);
+    setFields(loaded);
+    setOriginalFields(loaded);
+  }, [project.path, projectSettings]);
+
+  const hasChanges = !fieldsEqual(fields, originalFields);
+  const isSaving = updateSettingsMutation.isPending;
+  const availableModels = FALLBACK_MODEL_OPTIONS.filter(
+    (option) => !fields.fallbackModels.includes(option.id)
+  );
+
+  const handleChange = useCallback((key: NumericRetryField, value: string) => {
+    setFields((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const handleAddModel = useCallback((model: string) => {
+    setFields((prev) => ({ ...prev, fallbackModels: [...prev.fallbackModels, model] }));
+  }, []);
+
+  const handleRemoveModel = useCallback((index: number) => {
+    setFields((prev) => ({
+      ...prev,
+      fallbackModels: prev.fallbackModels.filter((_, i) => i !== index),
+    }));
+  }, []);
+
+  const handleMoveModel = useCallback((index: number, direction: -1 | 1) => {
+    setFields((prev) => {
+      const fallbackModels = [...prev.fallbackModels];
+      const target = index + direction;
+      [fallbackModels[index], fallbackModels[target]] = [
+        fallbackModels[target],
+        fallbackModels[index],
+      ];
+      return { ...prev, fallbackModels };
+    });
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const retryPolicy = toPolicy(fields);
+
+    updateSettingsMutation.mutate(
+      { retryPolicy },
+      {
+        onSuccess: () => {
+          const saved = toFields(retryPolicy);
+          setFields(saved);
+          setOriginalFields(saved);
+        },
+      }
+    );
+  }, [fields, updateSettingsMutation]);
+
+  const handleReset = useCallback(() => {
+    setFields(originalFields);
+  }, [originalFields]);
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl overflow-hidden',
+        'border border-border/50',
+        'bg-gradient-to-br from-card/90 via-card/70 to-card/80 backdrop-blur-xl',
+        'shadow-sm shadow-black/5'
+      )}
+    >
+      <div className="p-6 border-b border-border/50 bg-gradient-to-r from-transparent via-accent/5 to-transparent">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-brand-500/20 to-brand-600/10 flex items-center justify-center border border-brand-500/20">
+            <Repeat className="w-5 h-5 text-brand-500" />
+          </div>
+          <h2 className="text-lg font-semibold text-foreground tracking-tight">Retries</h2>
+        </div>
+        <p className="text-sm text-muted-foreground/80 ml-12">
+          Choose how features recover from rate limits and provider outages.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center py-8 text-sm text-destructive">
+            Failed to load project settings. Please try again.
+          </div>
+        ) : (
+          <>
+            {/* Backoff */}
+            <div className="space-y-3">
+              <h3 className="text-base font-medium text-foreground">Rate Limit Backoff</h3>
+              <p className="text-xs text-muted-foreground/80">
+                Rate-limited runs are retried on the same model, doubling the wait each time. A
+                retry-after hint from the provider is honored when it is longer.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {NUMERIC_INPUTS.map(({ key, label, min }) => (
+                  <div key={key} className="space-y-1.5">
+                    <Label htmlFor={`retry-${key}`} className="text-xs">
+                      {label}
+                    </Label>
+                    <Input
+                      id={`retry-${key}`}
+                      type="number"
+                      min={min}
+                      step="1"
+                      value={fields[key]}
+                      onChange={(e) => handleChange(key, e.target.value)}
+                      placeholder={String(DEFAULT_RETRY_POLICY[key])}
+                      className="font-mono text-sm"
+                      data-testid={`retry-${key}-input`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="border-t border-border/30" />
+
+            {/* Fallback chain */}
+            <div className="space-y-3">
+              <h3 className="text-base font-medium text-foreground">Fallback Models</h3>
+              <p className="text-xs text-muted-foreground/80">
+                When a model runs out of quota, fails authentication or stays rate limited, the
+                feature continues on the next model in this list, in order.
+              </p>
+
+              {fields.fallbackModels.length > 0 && (
+                <ol className="space-y-1.5" data-testid="retry-fallback-models">
+                  {fields.fallbackModels.map((model, index) => (
+                    <li
+                      key={model}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-border/50 bg-accent/10"
+                    >
+                      <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+                      <span className="flex-1 text-sm text-foreground truncate">
+                        {getModelDisplayName(model)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={index === 0}
+                        onClick={() => handleMoveModel(index, -1)}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={index === fields.fallbackModels.length - 1}
+                        onClick={() => handleMoveModel(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => handleRemoveModel(index)}
+                        aria-label="Remove"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </Button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              <Select value="" onValueChange={handleAddModel}>
+                <SelectTrigger className="w-full sm:w-72" data-testid="retry-add-fallback-model">
+                  <SelectValue placeholder="Add fallback model..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableModels.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Retry Info */}
+            <div className="flex items-start gap-3 p-3 rounded-lg bg-accent/20 border border-border/30">
+              <Info className="w-4 h-4 text-brand-500 mt-0.5 shrink-0" />
+              <div className="text-xs text-muted-foreground">
+                <p className="font-medium text-foreground mb-1">How retries work</p>
+                <p>
+                  Empty fields use the global retry policy. The feature's own model is always tried
+                  first, and each fallback continues from the output of the failed run. The model
+                  that finished the feature is shown on its card.
+                </p>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex items-center justify-end gap-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReset}
+                disabled={!hasChanges || isSaving}
+                className="gap-1.5"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Reset
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={!hasChanges || isSaving}
+                className="gap-1.5"
+              >
+                {isSaving ? <Spinner size="xs" /> : <Save className="w-3.5 h-3.5" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
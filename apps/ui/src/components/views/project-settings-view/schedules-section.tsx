@@ -0,0 +1,568 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarClock, Save, RotateCcw, Info, Plus, Trash2, Zap, ListChecks } from 'lucide-react';
+import { Spinner } from '@/components/ui/spinner';
+import { cn, generateUUID } from '@/lib/utils';
+import { useProjectSettings } from '@/hooks/queries';
+import { useUpdateProjectSettings } from '@/hooks/mutations';
+import type { Project } from '@/lib/electron';
+import type {
+  AutoModeSchedule,
+  ScheduledJob,
+  ScheduledJobType,
+  ScheduleSettings,
+  ScheduleTrigger,
+} from '@automaker/types';
+import { DEFAULT_SCHEDULED_VALIDATION_MAX_ISSUES } from '@automaker/types';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const JOB_TYPES: Array<{ type: ScheduledJobType; label: string; description: string }> = [
+  {
+    type: 'ideation_analysis',
+    label: 'Ideation analysis',
+    description: 'Re-analyze the project and refresh improvement suggestions.',
+  },
+  {
+    type: 'issue_validation',
+    label: 'Issue validation',
+    description: 'Validate open issues that have not been validated yet.',
+  },
+  {
+    type: 'memory_curation',
+    label: 'Memory curation',
+    description: 'Propose merges, conflict fixes and summaries for memory files, for review.',
+  },
+];
+
+const DEFAULT_WINDOW: ScheduleTrigger = {
+  type: 'window',
+  days: [1, 2, 3, 4, 5],
+  start: '22:00',
+  end: '06:00',
+};
+
+/** Cheap shape check; the server does the full parse and skips invalid expressions */
+function looksLikeCron(expression: string): boolean {
+  return expression.trim().split(/\s+/).length === 5;
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  const number = Number(value);
+  return value.trim() && Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+function normalize(settings: ScheduleSettings | undefined): Required<ScheduleSettings> {
+  return { autoMode: settings?.autoMode ?? [], jobs: settings?.jobs ?? [] };
+}
+
+interface SchedulesSectionProps {
+  project: Project;
+}
+
+export function SchedulesSection({ project }: SchedulesSectionProps) {
+  // Fetch project settings using TanStack Query
+  const { data: projectSettings, isLoading, isError } = useProjectSettings(project.path);
+
+  // Mutation hook for updating project settings
+  const updateSettingsMutation = useUpdateProjectSettings(project.path);
+
+  // Local state for the schedules being edited
+  const [schedules, setSchedules] = useState<Required<ScheduleSettings>>(normalize(undefined));
+  const [originalSchedules, setOriginalSchedules] = useState<Required<ScheduleSettings>>(
+    normalize(undefined)
+  );
+
+  // Sync local state when project settings load or project changes
+  useEffect(() => {
+    const loaded = normalize(projectSettings?.schedules);
+    setSchedules(loaded);
+    setOriginalSchedules(loaded);
+  }, [project.path, projectSettings]);
+
+  const hasChanges = JSON.stringify(schedules) !== JSON.stringify(originalSchedules);
+  const isSaving = updateSettingsMutation.isPending;
+  const hasInvalidCron =
+    schedules.autoMode.some(
+      (schedule) => schedule.trigger.type === 'cron' && !looksLikeCron(schedule.trigger.expression)
+    ) || schedules.jobs.some((job) => !looksLikeCron(job.cron));
+
+  const updateSchedule = useCallback((id: string, updates: Partial<AutoModeSchedule>) => {
+    setSchedules((prev) => ({
+      ...prev,
+      autoMode: prev.autoMode.map((schedule) =>
+        schedule.id === id ? { ...schedule, ...updates } : schedule
+      ),
+    }));
+  }, []);
+
+  const updateJob = useCallback((id: string, updates: Partial<ScheduledJob>) => {
+    setSchedules((prev) => ({
+      ...prev,
+      jobs: prev.jobs.map((job) => (job.id === id ? { ...job, ...updates } : job)),
+    }));
+  }, []);
+
+  const handleAddSchedule = useCallback(() => {
+    setSchedules((prev) => ({
+      ...prev,
+      autoMode: [
+        ...prev.autoMode,
+        { id: generateUUID(), enabled: true, branchName: null, trigger: DEFAULT_WINDOW },
+      ],
+    }));
+  }, []);
+
+  const handleAddJob = useCallback(() => {
+    setSchedules((prev) => ({
+      ...prev,
+      jobs: [
+        ...prev.jobs,
+        { id: generateUUID(), enabled: true, type: 'ideation_analysis', cron: '0 3 * * 1' },
+      ],
+    }));
+  }, []);
+
+  const handleRemoveSchedule = useCallback((id: string) => {
+    setSchedules((prev) => ({
+      ...prev,
+      autoMode: prev.autoMode.filter((schedule) => schedule.id !== id),
+    }));
+  }, []);
+
+  const handleRemoveJob = useCallback((id: string) => {
+    setSchedules((prev) => ({ ...prev, jobs: prev.jobs.filter((job) => job.id !== id) }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    updateSettingsMutation.mutate(
+      { schedules },
+      {
+        onSuccess: () => {
+          setOriginalSchedules(schedules);
+        },
+      }
+    );
+  }, [schedules, updateSettingsMutation]);
+
+  const handleReset = useCallback(() => {
+    setSchedules(originalSchedules);
+  }, [originalSchedules]);
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl overflow-hidden',
+        'border border-border/50',
+        'bg-gradient-to-br from-card/90 via-card/70 to-card/80 backdrop-blur-xl',
+        'shadow-sm shadow-black/5'
+      )}
+    >
+      <div className="p-6 border-b border-border/50 bg-gradient-to-r from-transparent via-accent/5 to-transparent">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-brand-500/20 to-brand-600/10 flex items-center justify-center border border-brand-500/20">
+            <CalendarClock className="w-5 h-5 text-brand-500" />
+          </div>
+          <h2 className="text-lg font-semibold text-foreground tracking-tight">Schedules</h2>
+        </div>
+        <p className="text-sm text-muted-foreground/80 ml-12">
+          Run auto mode in time windows and run recurring jobs automatically.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center py-8 text-sm text-destructive">
+            Failed to load project settings. Please try again.
+          </div>
+        ) : (
+          <>
+            {/* Auto Mode Schedules */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Zap className="w-4 h-4 text-brand-500" />
+                  <h3 className="text-base font-medium text-foreground">Auto Mode</h3>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddSchedule}
+                  className="gap-1.5"
+                  data-testid="schedules-add-auto-mode"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  Add Schedule
+                </Button>
+              </div>
+
+              {schedules.autoMode.length === 0 ? (
+                <p className="text-xs text-muted-foreground/80 pl-6">
+                  No auto mode schedules. Auto mode only runs when started by hand.
+                </p>
+              ) : (
+                <div className="space-y-3 pl-6">
+                  {schedules.autoMode.map((schedule) => (
+                    <AutoModeScheduleEditor
+                      key={schedule.id}
+                      schedule={schedule}
+                      onChange={(updates) => updateSchedule(schedule.id, updates)}
+                      onRemove={() => handleRemoveSchedule(schedule.id)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-border/30" />
+
+            {/* Scheduled Jobs */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <ListChecks className="w-4 h-4 text-brand-500" />
+                  <h3 className="text-base font-medium text-foreground">Recurring Jobs</h3>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddJob}
+                  className="gap-1.5"
+                  data-testid="schedules-add-job"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  Add Job
+                </Button>
+              </div>
+
+              {schedules.jobs.length === 0 ? (
+                <p className="text-xs text-muted-foreground/80 pl-6">No recurring jobs.</p>
+              ) : (
+                <div className="space-y-3 pl-6">
+                  {schedules.jobs.map((job) => (
+                    <ScheduledJobEditor
+                      key={job.id}
+                      job={job}
+                      onChange={(updates) => updateJob(job.id, updates)}
+                      onRemove={() => handleRemoveJob(job.id)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Schedule Info */}
+            <div className="flex items-start gap-3 p-3 rounded-lg bg-accent/20 border border-border/30">
+              <Info className="w-4 h-4 text-brand-500 mt-0.5 shrink-0" />
+              <div className="text-xs text-muted-foreground">
+                <p className="font-medium text-foreground mb-1">How schedules run</p>
+                <p>
+                  Times use the server's local time zone and cron expressions have five fields
+                  (minute hour day-of-month month day-of-week). A window whose end is before its
+                  start runs past midnight. Auto mode that was already running when a schedule
+                  starts is left running when it ends, and runs still in their window are resumed
+                  after a server restart.
+                </p>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex items-center justify-end gap-2 pt-2">
+              {hasInvalidCron && (
+                <span className="text-xs text-destructive mr-auto">
+                  Cron expressions need five fields.
+                </span>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReset}
+                disabled={!hasChanges || isSaving}
+                className="gap-1.5"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Reset
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={!hasChanges || isSaving || hasInvalidCron}
+                className="gap-1.5"
+              >
+                {isSaving ? <Spinner size="xs" /> : <Save className="w-3.5 h-3.5" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface AutoModeScheduleEditorProps {
+  schedule: AutoModeSchedule;
+  onChange: (updates: Partial<AutoModeSchedule>) => void;
+  onRemove: () => void;
+}
+
+function AutoModeScheduleEditor({ schedule, onChange, onRemove }: AutoModeScheduleEditorProps) {
+  const { trigger } = schedule;
+  const idPrefix = `schedule-${schedule.id}`;
+
+  const toggleDay = (day: number) => {
+    if (trigger.type !== 'window') return;
+    const days = trigger.days.includes(day)
+      ? trigger.days.filter((d) => d !== day)
+      : [...trigger.days, day].sort((a, b) => a - b);
+    onChange({ trigger: { ...trigger, days } });
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-border/50 bg-accent/10 space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={schedule.name ?? ''}
+          onChange={(e) => onChange({ name: e.target.value || undefined })}
+          placeholder="Schedule name"
+          className="h-8 text-sm"
+          aria-label="Schedule name"
+        />
+        <Switch
+          checked={schedule.enabled}
+          onCheckedChange={(enabled) => onChange({ enabled })}
+          aria-label="Enabled"
+        />
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-branch`} className="text-xs">
+            Worktree branch
+          </Label>
+          <Input
+            id={`${idPrefix}-branch`}
+            value={schedule.branchName ?? ''}
+            onChange={(e) => onChange({ branchName: e.target.value.trim() || null })}
+            placeholder="Main worktree"
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-concurrency`} className="text-xs">
+            Max concurrency
+          </Label>
+          <Input
+            id={`${idPrefix}-concurrency`}
+            type="number"
+            min="1"
+            value={schedule.maxConcurrency ?? ''}
+            onChange={(e) => onChange({ maxConcurrency: parseOptionalNumber(e.target.value) })}
+            placeholder="Default"
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Trigger</Label>
+          <Select
+            value={trigger.type}
+            onValueChange={(type) =>
+              onChange({
+                trigger:
+                  type === 'window'
+                    ? DEFAULT_WINDOW
+                    : { type: 'cron', expression: '0 22 * * 1-5', durationMinutes: 480 },
+              })
+            }
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="window">Time window</SelectItem>
+              <SelectItem value="cron">Cron</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {trigger.type === 'window' ? (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex gap-1">
+            {DAYS.map((label, day) => (
+              <Button
+                key={label}
+                variant={trigger.days.includes(day) ? 'default' : 'outline'}
+                size="sm"
+                className="h-8 w-11 px-0 text-xs"
+                onClick={() => toggleDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`${idPrefix}-start`} className="text-xs">
+              From
+            </Label>
+            <Input
+              id={`${idPrefix}-start`}
+              type="time"
+              value={trigger.start}
+              onChange={(e) => onChange({ trigger: { ...trigger, start: e.target.value } })}
+              className="h-8 w-28 font-mono text-sm"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`${idPrefix}-end`} className="text-xs">
+              Until
+            </Label>
+            <Input
+              id={`${idPrefix}-end`}
+              type="time"
+              value={trigger.end}
+              onChange={(e) => onChange({ trigger: { ...trigger, end: e.target.value } })}
+              className="h-8 w-28 font-mono text-sm"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor={`${idPrefix}-cron`} className="text-xs">
+              Cron expression
+            </Label>
+            <Input
+              id={`${idPrefix}-cron`}
+              value={trigger.expression}
+              onChange={(e) => onChange({ trigger: { ...trigger, expression: e.target.value } })}
+              placeholder="0 22 * * 1-5"
+              className={cn(
+                'font-mono text-sm',
+                !looksLikeCron(trigger.expression) && 'border-destructive'
+              )}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`${idPrefix}-duration`} className="text-xs">
+              Run for (minutes)
+            </Label>
+            <Input
+              id={`${idPrefix}-duration`}
+              type="number"
+              min="1"
+              value={trigger.durationMinutes ?? ''}
+              onChange={(e) =>
+                onChange({
+                  trigger: { ...trigger, durationMinutes: parseOptionalNumber(e.target.value) },
+                })
+              }
+              placeholder="Until stopped"
+              className="font-mono text-sm"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ScheduledJobEditorProps {
+  job: ScheduledJob;
+  onChange: (updates: Partial<ScheduledJob>) => void;
+  onRemove: () => void;
+}
+
+function ScheduledJobEditor({ job, onChange, onRemove }: ScheduledJobEditorProps) {
+  const idPrefix = `job-${job.id}`;
+  const jobType = JOB_TYPES.find((candidate) => candidate.type === job.type);
+
+  return (
+    <div className="p-3 rounded-lg border border-border/50 bg-accent/10 space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={job.name ?? ''}
+          onChange={(e) => onChange({ name: e.target.value || undefined })}
+          placeholder="Job name"
+          className="h-8 text-sm"
+          aria-label="Job name"
+        />
+        <Switch
+          checked={job.enabled}
+          onCheckedChange={(enabled) => onChange({ enabled })}
+          aria-label="Enabled"
+        />
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Job</Label>
+          <Select
+            value={job.type}
+            onValueChange={(type) => onChange({ type: type as ScheduledJobType })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {JOB_TYPES.map(({ type, label }) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-cron`} className="text-xs">
+            Cron expression
+          </Label>
+          <Input
+            id={`${idPrefix}-cron`}
+            value={job.cron}
+            onChange={(e) => onChange({ cron: e.target.value })}
+            placeholder="0 3 * * 1"
+            className={cn('font-mono text-sm', !looksLikeCron(job.cron) && 'border-destructive')}
+          />
+        </div>
+        {job.type === 'issue_validation' && (
+          <div className="space-y-1.5">
+            <Label htmlFor={`${idPrefix}-max-issues`} className="text-xs">
+              Issues per run
+            </Label>
+            <Input
+              id={`${idPrefix}-max-issues`}
+              type="number"
+              min="1"
+              value={job.maxIssues ?? ''}
+              onChange={(e) => onChange({ maxIssues: parseOptionalNumber(e.target.value) })}
+              placeholder={String(DEFAULT_SCHEDULED_VALIDATION_MAX_ISSUES)}
+              className="font-mono text-sm"
+            />
+          </div>
+        )}
+      </div>
+      {jobType && <p className="text-xs text-muted-foreground/80">{jobType.description}</p>}
+    </div>
+  );
+}
@@ -29,6 +29,7 @@ import {
 import { MCPServersSection } from './settings-view/mcp-servers';
 import { PromptCustomizationSection } from './settings-view/prompts';
 import { EventHooksSection } from './settings-view/event-hooks';
+import { NotificationChannelsSection } from './settings-view/notification-channels';
 import { ImportExportDialog } from './settings-view/components/import-export-dialog';
 import type { Theme } from './settings-view/shared/types';
 
@@ -160,6 +161,8 @@ export function SettingsView() {
         );
       case 'event-hooks':
         return <EventHooksSection />;
+      case 'notification-channels':
+        return <NotificationChannelsSection />;
       case 'defaults':
         return (
           <FeatureDefaultsSection
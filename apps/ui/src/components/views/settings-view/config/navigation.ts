@@ -16,6 +16,7 @@ import {
   GitBranch,
   Code2,
   Webhook,
+  BellRing,
 } from 'lucide-react';
 import {
   AnthropicIcon,
@@ -73,6 +74,7 @@ export const GLOBAL_NAV_GROUPS: NavigationGroup[] = [
       { id: 'keyboard', label: 'Keyboard Shortcuts', icon: Settings2 },
       { id: 'audio', label: 'Audio', icon: Volume2 },
       { id: 'event-hooks', label: 'Event Hooks', icon: Webhook },
+      { id: 'notification-channels', label: 'Notification Channels', icon: BellRing },
     ],
   },
   {
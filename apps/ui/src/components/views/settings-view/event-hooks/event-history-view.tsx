@@ -13,10 +13,26 @@ import {
   XCircle,
   Clock,
   AlertCircle,
+  Wallet,
+  Workflow,
+  FileText,
+  ClipboardCheck,
+  GitBranch,
+  GitMerge,
+  GitPullRequest,
+  FlaskConical,
+  ServerCrash,
+  Send,
+  Inbox,
 } from 'lucide-react';
 import { useAppStore } from '@/store/app-store';
-import type { StoredEventSummary, StoredEvent, EventHookTrigger } from '@automaker/types';
-import { EVENT_HOOK_TRIGGER_LABELS } from '@automaker/types';
+import type {
+  StoredEventSummary,
+  StoredEvent,
+  EventHookTrigger,
+  WebhookOutboxEntry,
+} from '@automaker/types';
+import { getEventHookTriggerLabel } from '@automaker/types';
 import { getHttpApiClient } from '@/lib/http-api-client';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { toast } from 'sonner';
@@ -30,6 +46,8 @@ export function EventHistoryView() {
   const [expandedEventData, setExpandedEventData] = useState<StoredEvent | null>(null);
   const [replayingEvent, setReplayingEvent] = useState<string | null>(null);
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
+  const [outbox, setOutbox] = useState<WebhookOutboxEntry[]>([]);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
 
   const loadEvents = useCallback(async () => {
     if (!projectPath) return;
@@ -37,10 +55,16 @@ export function EventHistoryView() {
     setLoading(true);
     try {
       const api = getHttpApiClient();
-      const result = await api.eventHistory.list(projectPath, { limit: 100 });
+      const [result, outboxResult] = await Promise.all([
+        api.eventHistory.list(projectPath, { limit: 100 }),
+        api.eventHistory.deliveries(projectPath),
+      ]);
       if (result.success && result.events) {
         setEvents(result.events);
       }
+      if (outboxResult.success && outboxResult.deliveries) {
+        setOutbox(outboxResult.deliveries);
+      }
     } catch (error) {
       console.error('Failed to load events:', error);
     } finally {
@@ -103,6 +127,52 @@ export function EventHistoryView() {
     }
   };
 
+  const handleRedeliver = async (deliveryId: string) => {
+    setRedelivering(deliveryId);
+    try {
+      const api = getHttpApiClient();
+      const result = await api.eventHistory.redeliver(deliveryId);
+      if (!result.success || !result.delivery) {
+        toast.error(result.error || 'Failed to redeliver webhook.');
+      } else if (result.delivery.status === 'delivered') {
+        toast.success('Webhook delivered.');
+      } else if (result.delivery.status === 'pending') {
+        toast.warning(`Delivery failed again (${result.delivery.lastError}), will retry.`);
+      } else {
+        toast.error(`Delivery failed: ${result.delivery.lastError}`);
+      }
+
+      await loadEvents();
+      if (expandedEvent && projectPath) {
+        const eventResult = await api.eventHistory.get(projectPath, expandedEvent);
+        if (eventResult.success && eventResult.event) {
+          setExpandedEventData(eventResult.event);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to redeliver webhook:', error);
+      toast.error('Failed to redeliver webhook. Check console for details.');
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const handleDiscardDelivery = async (deliveryId: string) => {
+    try {
+      const api = getHttpApiClient();
+      const result = await api.eventHistory.discardDelivery(deliveryId);
+      if (result.success) {
+        setOutbox((prev) => prev.filter((entry) => entry.id !== deliveryId));
+      }
+    } catch (error) {
+      console.error('Failed to discard webhook delivery:', error);
+    }
+  };
+
+  const deadLetters = outbox.filter((entry) => entry.status === 'dead');
+  const retryingCount = outbox.filter((entry) => entry.status === 'pending').length;
+  const deadLetterIds = new Set(deadLetters.map((entry) => entry.id));
+
   const handleDelete = async (eventId: string) => {
     if (!projectPath) return;
 
@@ -150,6 +220,26 @@ export function EventHistoryView() {
         return <CheckCircle className="w-4 h-4 text-purple-500" />;
       case 'auto_mode_error':
         return <AlertCircle className="w-4 h-4 text-orange-500" />;
+      case 'budget_exceeded':
+        return <Wallet className="w-4 h-4 text-red-500" />;
+      case 'pipeline_step_started':
+        return <Workflow className="w-4 h-4 text-blue-500" />;
+      case 'pipeline_step_completed':
+        return <Workflow className="w-4 h-4 text-green-500" />;
+      case 'plan_generated':
+        return <FileText className="w-4 h-4 text-blue-500" />;
+      case 'plan_approved':
+        return <ClipboardCheck className="w-4 h-4 text-green-500" />;
+      case 'worktree_created':
+        return <GitBranch className="w-4 h-4 text-blue-500" />;
+      case 'worktree_merged':
+        return <GitMerge className="w-4 h-4 text-purple-500" />;
+      case 'pr_created':
+        return <GitPullRequest className="w-4 h-4 text-green-500" />;
+      case 'test_run_failed':
+        return <FlaskConical className="w-4 h-4 text-red-500" />;
+      case 'dev_server_crashed':
+        return <ServerCrash className="w-4 h-4 text-red-500" />;
       default:
         return <History className="w-4 h-4 text-muted-foreground" />;
     }
@@ -209,13 +299,66 @@ export function EventHistoryView() {
         </div>
       </div>
 
+      {/* Webhook outbox: retries in progress and dead letters */}
+      {retryingCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {retryingCount} webhook deliver{retryingCount !== 1 ? 'ies' : 'y'} waiting to retry
+        </p>
+      )}
+      {deadLetters.length > 0 && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/5 p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Inbox className="w-4 h-4 text-red-500" />
+            Failed deliveries ({deadLetters.length})
+          </div>
+          {deadLetters.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-3 text-xs">
+              <div className="flex-1 min-w-0">
+                <p className="truncate">
+                  {entry.hookName || entry.hookId}
+                  <span className="text-muted-foreground">
+                    {' · '}
+                    {getEventHookTriggerLabel(entry.trigger)}
+                    {' · '}
+                    {formatTimestamp(entry.updatedAt)}
+                  </span>
+                </p>
+                <p className="text-red-400 font-mono text-[10px] truncate">
+                  {entry.request.method} {entry.request.url}: {entry.lastError} ({entry.attempts}{' '}
+                  attempt{entry.attempts !== 1 ? 's' : ''})
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => handleRedeliver(entry.id)}
+                disabled={redelivering === entry.id}
+              >
+                <Send className="w-3.5 h-3.5 mr-1" />
+                Redeliver
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive hover:text-destructive"
+                onClick={() => handleDiscardDelivery(entry.id)}
+                title="Discard delivery"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Events list */}
       {events.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           <History className="w-12 h-12 mx-auto mb-3 opacity-30" />
           <p className="text-sm">No events recorded yet</p>
           <p className="text-xs mt-1">
-            Events will appear here when features are created or completed
+            Events will appear here as features, pipelines, worktrees and test runs progress
           </p>
         </div>
       ) : (
@@ -245,13 +388,31 @@ export function EventHistoryView() {
 
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium truncate">
-                    {EVENT_HOOK_TRIGGER_LABELS[event.trigger]}
+                    {getEventHookTriggerLabel(event.trigger)}
                   </p>
                   {event.featureName && (
                     <p className="text-xs text-muted-foreground truncate">{event.featureName}</p>
                   )}
                 </div>
 
+                {event.deliveries && event.deliveries.total > 0 && (
+                  <span
+                    className={cn(
+                      'text-[10px] px-1.5 py-0.5 rounded',
+                      event.deliveries.failed > 0
+                        ? 'bg-red-500/10 text-red-500'
+                        : 'bg-green-500/10 text-green-500'
+                    )}
+                    title="Hook deliveries"
+                  >
+                    {event.deliveries.failed > 0
+                      ? `${event.deliveries.failed}/${event.deliveries.total} hooks failed`
+                      : event.deliveries.pending
+                        ? `${event.deliveries.pending} retrying`
+                        : `${event.deliveries.total} hook${event.deliveries.total !== 1 ? 's' : ''} ok`}
+                  </span>
+                )}
+
                 <span className="text-xs text-muted-foreground">
                   {formatTimestamp(event.timestamp)}
                 </span>
@@ -324,6 +485,74 @@ export function EventHistoryView() {
                         {expandedEventData.projectPath}
                       </p>
                     </div>
+                    {expandedEventData.metadata &&
+                      Object.keys(expandedEventData.metadata).length > 0 && (
+                        <div>
+                          <span className="text-muted-foreground">Details:</span>
+                          <div className="mt-1 grid grid-cols-2 gap-x-4 gap-y-1">
+                            {Object.entries(expandedEventData.metadata).map(([key, value]) => (
+                              <p key={key} className="font-mono text-[10px] truncate">
+                                <span className="text-muted-foreground">{key}:</span>{' '}
+                                {String(value)}
+                              </p>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    {expandedEventData.deliveries && expandedEventData.deliveries.length > 0 && (
+                      <div>
+                        <span className="text-muted-foreground">Hook deliveries:</span>
+                        <div className="mt-1 space-y-1">
+                          {expandedEventData.deliveries.map((delivery, index) => (
+                            <div
+                              key={`${delivery.hookId}-${index}`}
+                              className="flex items-start gap-2 p-2 rounded bg-muted/30"
+                            >
+                              {delivery.success ? (
+                                <CheckCircle className="w-3.5 h-3.5 mt-0.5 text-green-500 shrink-0" />
+                              ) : delivery.pending ? (
+                                <RefreshCw className="w-3.5 h-3.5 mt-0.5 text-amber-500 shrink-0" />
+                              ) : (
+                                <XCircle className="w-3.5 h-3.5 mt-0.5 text-red-500 shrink-0" />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <p className="truncate">
+                                  {delivery.hookName || delivery.hookId}
+                                  <span className="text-muted-foreground">
+                                    {' · '}
+                                    {delivery.actionType === 'http' ? 'HTTP' : 'Shell'}
+                                    {delivery.statusCode !== undefined && ` ${delivery.statusCode}`}
+                                    {' · '}
+                                    {delivery.attempts} attempt
+                                    {delivery.attempts !== 1 ? 's' : ''}
+                                    {' · '}
+                                    {delivery.durationMs}ms
+                                  </span>
+                                </p>
+                                {delivery.error && (
+                                  <p className="text-red-400 text-[10px] font-mono whitespace-pre-wrap">
+                                    {delivery.error}
+                                    {delivery.pending && ' (will retry)'}
+                                  </p>
+                                )}
+                              </div>
+                              {delivery.deliveryId && deadLetterIds.has(delivery.deliveryId) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  onClick={() => handleRedeliver(delivery.deliveryId!)}
+                                  disabled={redelivering === delivery.deliveryId}
+                                  title="Redeliver webhook"
+                                >
+                                  <Send className="w-3 h-3" />
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -14,20 +14,30 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Terminal, Globe } from 'lucide-react';
+import { Terminal, Globe, Plus, X } from 'lucide-react';
 import type {
   EventHook,
+  EventHookNamedTrigger,
   EventHookTrigger,
   EventHookHttpMethod,
   EventHookShellAction,
   EventHookHttpAction,
+  EventHookFilter,
+  EventHookFilterOperator,
+} from '@automaker/types';
+import {
+  DEFAULT_EVENT_HOOK_RETRY_POLICY,
+  EVENT_HOOK_FILTER_OPERATOR_LABELS,
+  EVENT_HOOK_TRIGGER_LABELS,
+  EVENT_TYPES,
 } from '@automaker/types';
-import { EVENT_HOOK_TRIGGER_LABELS } from '@automaker/types';
 import { generateUUID } from '@/lib/utils';
 
 interface EventHookDialogProps {
@@ -39,16 +49,42 @@ interface EventHookDialogProps {
 
 type ActionType = 'shell' | 'http';
 
-const TRIGGER_OPTIONS: EventHookTrigger[] = [
+const TRIGGER_OPTIONS: EventHookNamedTrigger[] = [
   'feature_created',
   'feature_success',
   'feature_error',
   'auto_mode_complete',
   'auto_mode_error',
+  'budget_exceeded',
+  'pipeline_step_started',
+  'pipeline_step_completed',
+  'plan_generated',
+  'plan_approved',
+  'worktree_created',
+  'worktree_merged',
+  'pr_created',
+  'test_run_failed',
+  'dev_server_crashed',
 ];
 
 const HTTP_METHODS: EventHookHttpMethod[] = ['POST', 'GET', 'PUT', 'PATCH'];
 
+const DEFAULT_MAX_ATTEMPTS = String(DEFAULT_EVENT_HOOK_RETRY_POLICY.maxAttempts);
+const DEFAULT_BACKOFF_MS = String(DEFAULT_EVENT_HOOK_RETRY_POLICY.backoffMs);
+
+const FILTER_OPERATORS: EventHookFilterOperator[] = ['equals', 'not_equals', 'contains', 'matches'];
+
+/** Common payload fields offered as filter suggestions */
+const FILTER_FIELD_SUGGESTIONS = [
+  'category',
+  'branchName',
+  'model',
+  'errorType',
+  'stepName',
+  'verdict',
+  'baseBranch',
+];
+
 export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: EventHookDialogProps) {
   // Form state
   const [name, setName] = useState('');
@@ -64,6 +100,12 @@ export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: Eve
   const [method, setMethod] = useState<EventHookHttpMethod>('POST');
   const [headers, setHeaders] = useState('');
   const [body, setBody] = useState('');
+  const [maxAttempts, setMaxAttempts] = useState(DEFAULT_MAX_ATTEMPTS);
+  const [backoffMs, setBackoffMs] = useState(DEFAULT_BACKOFF_MS);
+  const [secret, setSecret] = useState('');
+
+  // Payload filters
+  const [filters, setFilters] = useState<EventHookFilter[]>([]);
 
   // Reset form when dialog opens/closes or editingHook changes
   useEffect(() => {
@@ -73,6 +115,7 @@ export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: Eve
         setName(editingHook.name || '');
         setTrigger(editingHook.trigger);
         setActionType(editingHook.action.type);
+        setFilters(editingHook.filters ?? []);
 
         if (editingHook.action.type === 'shell') {
           const shellAction = editingHook.action as EventHookShellAction;
@@ -83,12 +126,18 @@ export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: Eve
           setMethod('POST');
           setHeaders('');
           setBody('');
+          setMaxAttempts(DEFAULT_MAX_ATTEMPTS);
+          setBackoffMs(DEFAULT_BACKOFF_MS);
+          setSecret('');
         } else {
           const httpAction = editingHook.action as EventHookHttpAction;
           setUrl(httpAction.url);
           setMethod(httpAction.method);
           setHeaders(httpAction.headers ? JSON.stringify(httpAction.headers, null, 2) : '');
           setBody(httpAction.body || '');
+          setMaxAttempts(String(httpAction.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS));
+          setBackoffMs(String(httpAction.retry?.backoffMs ?? DEFAULT_BACKOFF_MS));
+          setSecret(httpAction.secret || '');
           // Reset shell fields
           setCommand('');
           setTimeout('30000');
@@ -104,11 +153,24 @@ export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: Eve
         setMethod('POST');
         setHeaders('');
         setBody('');
+        setMaxAttempts(DEFAULT_MAX_ATTEMPTS);
+        setBackoffMs(DEFAULT_BACKOFF_MS);
+        setSecret('');
+        setFilters([]);
       }
     }
   }, [open, editingHook]);
 
+  const updateFilter = (index: number, updates: Partial<EventHookFilter>) => {
+    setFilters((prev) => prev.map((f, i) => (i === index ? { ...f, ...updates } : f)));
+  };
+
+  const removeFilter = (index: number) => {
+    setFilters((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleSave = () => {
+    const activeFilters = filters.filter((f) => f.field.trim());
     const hook: EventHook = {
       id: editingHook?.id || generateUUID(),
       name: name.trim() || undefined,
@@ -127,7 +189,14 @@ export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: Eve
               method,
               headers: headers.trim() ? JSON.parse(headers) : undefined,
               body: body.trim() || undefined,
+              retry: {
+                maxAttempts:
+                  parseInt(maxAttempts, 10) || DEFAULT_EVENT_HOOK_RETRY_POLICY.maxAttempts,
+                backoffMs: parseInt(backoffMs, 10) || DEFAULT_EVENT_HOOK_RETRY_POLICY.backoffMs,
+              },
+              secret: secret.trim() || undefined,
             },
+      filters: activeFilters.length > 0 ? activeFilters : undefined,
     };
 
     onSave(hook);
@@ -165,15 +234,97 @@ export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: Eve
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {TRIGGER_OPTIONS.map((t) => (
-                  <SelectItem key={t} value={t}>
-                    {EVENT_HOOK_TRIGGER_LABELS[t]}
-                  </SelectItem>
-                ))}
+                <SelectGroup>
+                  {TRIGGER_OPTIONS.map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {EVENT_HOOK_TRIGGER_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Server events</SelectLabel>
+                  {EVENT_TYPES.map((t) => (
+                    <SelectItem key={t} value={t} className="font-mono text-xs">
+                      {t}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
               </SelectContent>
             </Select>
           </div>
 
+          {/* Payload filters */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Filters (optional)</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1"
+                onClick={() =>
+                  setFilters((prev) => [...prev, { field: '', operator: 'equals', value: '' }])
+                }
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add Filter
+              </Button>
+            </div>
+            {filters.map((filter, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={filter.field}
+                  onChange={(e) => updateFilter(index, { field: e.target.value })}
+                  placeholder="category"
+                  list="hook-filter-fields"
+                  className="flex-1"
+                  aria-label="Field"
+                />
+                <Select
+                  value={filter.operator}
+                  onValueChange={(v) =>
+                    updateFilter(index, { operator: v as EventHookFilterOperator })
+                  }
+                >
+                  <SelectTrigger className="w-28" aria-label="Operator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FILTER_OPERATORS.map((op) => (
+                      <SelectItem key={op} value={op}>
+                        {EVENT_HOOK_FILTER_OPERATOR_LABELS[op]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={filter.value}
+                  onChange={(e) => updateFilter(index, { value: e.target.value })}
+                  placeholder={filter.operator === 'matches' ? '^release/' : 'Backend'}
+                  className="flex-1"
+                  aria-label="Value"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => removeFilter(index)}
+                  aria-label="Remove filter"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <datalist id="hook-filter-fields">
+              {FILTER_FIELD_SUGGESTIONS.map((field) => (
+                <option key={field} value={field} />
+              ))}
+            </datalist>
+            <p className="text-xs text-muted-foreground">
+              Run only when every filter matches the event. Any hook variable can be used as a
+              field.
+            </p>
+          </div>
+
           {/* Action type tabs */}
           <div className="space-y-2">
             <Label>Action Type</Label>
@@ -272,6 +423,55 @@ export function EventHookDialog({ open, onOpenChange, editingHook, onSave }: Eve
                     Leave empty for default body with all event context
                   </p>
                 </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="http-max-attempts">Max attempts</Label>
+                    <Input
+                      id="http-max-attempts"
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={maxAttempts}
+                      onChange={(e) => setMaxAttempts(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="http-backoff">Retry backoff (ms)</Label>
+                    <Input
+                      id="http-backoff"
+                      type="number"
+                      min={0}
+                      value={backoffMs}
+                      onChange={(e) => setBackoffMs(e.target.value)}
+                      disabled={(parseInt(maxAttempts, 10) || 1) <= 1}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Failed deliveries are kept in an outbox and retried after network errors,
+                  timeouts, 408, 429 and 5xx responses, doubling the delay each time (at most an
+                  hour apart). Deliveries that run out of attempts can be redelivered from the
+                  History tab.
+                </p>
+
+                <div className="space-y-2">
+                  <Label htmlFor="http-secret">Signing secret (optional)</Label>
+                  <Input
+                    id="http-secret"
+                    type="password"
+                    value={secret}
+                    onChange={(e) => setSecret(e.target.value)}
+                    placeholder="${AUTOMAKER_WEBHOOKS_SECRET}"
+                    className="font-mono text-sm"
+                    autoComplete="off"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Requests are signed with X-Automaker-Signature: sha256=HMAC of
+                    &quot;timestamp.body&quot; (timestamp in X-Automaker-Timestamp). Every request
+                    carries an Idempotency-Key that stays the same across retries.
+                  </p>
+                </div>
               </TabsContent>
             </Tabs>
           </div>
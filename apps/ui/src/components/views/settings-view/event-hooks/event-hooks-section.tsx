@@ -6,7 +6,7 @@ import { cn } from '@/lib/utils';
 import { Webhook, Plus, Trash2, Pencil, Terminal, Globe, History } from 'lucide-react';
 import { useAppStore } from '@/store/app-store';
 import type { EventHook, EventHookTrigger } from '@automaker/types';
-import { EVENT_HOOK_TRIGGER_LABELS } from '@automaker/types';
+import { EVENT_HOOK_FILTER_OPERATOR_LABELS, getEventHookTriggerLabel } from '@automaker/types';
 import { EventHookDialog } from './event-hook-dialog';
 import { EventHistoryView } from './event-history-view';
 
@@ -122,7 +122,7 @@ export function EventHooksSection() {
                 {Object.entries(hooksByTrigger).map(([trigger, hooks]) => (
                   <div key={trigger} className="space-y-3">
                     <h3 className="text-sm font-medium text-muted-foreground">
-                      {EVENT_HOOK_TRIGGER_LABELS[trigger as EventHookTrigger]}
+                      {getEventHookTriggerLabel(trigger as EventHookTrigger)}
                     </h3>
                     <div className="space-y-2">
                       {hooks.map((hook) => (
@@ -147,8 +147,14 @@ export function EventHooksSection() {
               <p className="font-medium mb-2">Available variables:</p>
               <code className="text-[10px] leading-relaxed">
                 {'{{featureId}}'} {'{{featureName}}'} {'{{projectPath}}'} {'{{projectName}}'}{' '}
-                {'{{error}}'} {'{{timestamp}}'} {'{{eventType}}'}
+                {'{{error}}'} {'{{errorType}}'} {'{{timestamp}}'} {'{{eventType}}'} {'{{category}}'}{' '}
+                {'{{branchName}}'} {'{{model}}'}
               </code>
+              <p className="mt-2">
+                Other event fields are available too, e.g. {'{{stepName}}'} and {'{{verdict}}'} for
+                pipeline steps, {'{{prUrl}}'} for pull requests, {'{{exitCode}}'} for test runs and
+                dev servers.
+              </p>
             </div>
           </div>
         </TabsContent>
@@ -210,6 +216,16 @@ function HookCard({ hook, onEdit, onDelete, onToggle }: HookCardProps) {
             ? (hook.action as { type: 'shell'; command: string }).command
             : (hook.action as { type: 'http'; url: string }).url}
         </p>
+        {hook.filters && hook.filters.length > 0 && (
+          <p className="text-[10px] text-muted-foreground/80 truncate">
+            Only when{' '}
+            {hook.filters
+              .map(
+                (f) => `${f.field} ${EVENT_HOOK_FILTER_OPERATOR_LABELS[f.operator]} "${f.value}"`
+              )
+              .join(' and ')}
+          </p>
+        )}
       </div>
 
       {/* Actions */}
@@ -18,6 +18,7 @@ export type SettingsViewId =
   | 'keyboard'
   | 'audio'
   | 'event-hooks'
+  | 'notification-channels'
   | 'defaults'
   | 'worktrees'
   | 'account'
@@ -0,0 +1 @@
+export { NotificationChannelsSection } from './notification-channels-section';
@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Monitor, Mail, MessageSquare } from 'lucide-react';
+import type {
+  ChatWebhookFormat,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationType,
+} from '@automaker/types';
+import { NOTIFICATION_TYPE_LABELS } from '@automaker/types';
+import { getHttpApiClient } from '@/lib/http-api-client';
+import { useAppStore } from '@/store/app-store';
+import { generateUUID } from '@/lib/utils';
+
+interface NotificationChannelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editingChannel: NotificationChannel | null;
+  onSave: (channel: NotificationChannel) => void;
+}
+
+const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[];
+
+const WEBHOOK_FORMATS: { value: ChatWebhookFormat; label: string }[] = [
+  { value: 'slack', label: 'Slack' },
+  { value: 'discord', label: 'Discord' },
+  { value: 'teams', label: 'Microsoft Teams' },
+];
+
+export function NotificationChannelDialog({
+  open,
+  onOpenChange,
+  editingChannel,
+  onSave,
+}: NotificationChannelDialogProps) {
+  const currentProject = useAppStore((s) => s.currentProject);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [channelType, setChannelType] = useState<NotificationChannelType>('desktop');
+  const [types, setTypes] = useState<NotificationType[]>([]);
+  const [templateTitle, setTemplateTitle] = useState('');
+  const [templateBody, setTemplateBody] = useState('');
+
+  // Email state
+  const [host, setHost] = useState('');
+  const [port, setPort] = useState('587');
+  const [secure, setSecure] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [allowInsecureAuth, setAllowInsecureAuth] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  // Webhook state
+  const [format, setFormat] = useState<ChatWebhookFormat>('slack');
+  const [url, setUrl] = useState('');
+
+  const [isTesting, setIsTesting] = useState(false);
+
+  // Reset form when dialog opens/closes or editingChannel changes
+  useEffect(() => {
+    if (!open) return;
+
+    const channel = editingChannel;
+    setName(channel?.name || '');
+    setChannelType(channel?.type ?? 'desktop');
+    setTypes(channel?.types ?? []);
+    setTemplateTitle(channel?.template?.title || '');
+    setTemplateBody(channel?.template?.body || '');
+
+    const email = channel?.type === 'email' ? channel : null;
+    setHost(email?.smtp.host || '');
+    setPort(String(email?.smtp.port ?? 587));
+    setSecure(email?.smtp.secure ?? false);
+    setUsername(email?.smtp.username || '');
+    setPassword(email?.smtp.password || '');
+    setAllowInsecureAuth(email?.smtp.allowInsecureAuth ?? false);
+    setFrom(email?.from || '');
+    setTo(email?.to.join(', ') || '');
+
+    const webhook = channel?.type === 'webhook' ? channel : null;
+    setFormat(webhook?.format ?? 'slack');
+    setUrl(webhook?.url || '');
+  }, [open, editingChannel]);
+
+  const buildChannel = (): NotificationChannel => {
+    const template =
+      templateTitle.trim() || templateBody.trim()
+        ? { title: templateTitle.trim() || undefined, body: templateBody.trim() || undefined }
+        : undefined;
+    const base = {
+      id: editingChannel?.id || generateUUID(),
+      name: name.trim() || undefined,
+      enabled: editingChannel?.enabled ?? true,
+      types: types.length > 0 ? types : undefined,
+      template,
+    };
+
+    switch (channelType) {
+      case 'email':
+        return {
+          ...base,
+          type: 'email',
+          smtp: {
+            host: host.trim(),
+            port: parseInt(port, 10) || 587,
+            secure: secure || undefined,
+            username: username.trim() || undefined,
+            password: password || undefined,
+            allowInsecureAuth: allowInsecureAuth || undefined,
+          },
+          from: from.trim(),
+          to: to
+            .split(',')
+            .map((address) => address.trim())
+            .filter(Boolean),
+        };
+      case 'webhook':
+        return { ...base, type: 'webhook', format, url: url.trim() };
+      default:
+        return { ...base, type: 'desktop' };
+    }
+  };
+
+  const toggleType = (type: NotificationType, checked: boolean) => {
+    setTypes((current) => (checked ? [...current, type] : current.filter((t) => t !== type)));
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const result = await getHttpApiClient().notifications.testChannel(
+        buildChannel(),
+        currentProject?.path
+      );
+      if (result.success) {
+        toast.success('Test notification sent');
+      } else {
+        toast.error('Test notification failed', { description: result.error });
+      }
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const isValid =
+    channelType === 'email'
+      ? host.trim().length > 0 && from.trim().length > 0 && to.trim().length > 0
+      : channelType === 'webhook'
+        ? url.trim().length > 0
+        : true;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {editingChannel ? 'Edit Notification Channel' : 'Add Notification Channel'}
+          </DialogTitle>
+          <DialogDescription>Choose where notifications are delivered.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* Name (optional) */}
+          <div className="space-y-2">
+            <Label htmlFor="channel-name">Name (optional)</Label>
+            <Input
+              id="channel-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Team Slack"
+            />
+          </div>
+
+          {/* Channel type tabs */}
+          <div className="space-y-2">
+            <Label>Channel</Label>
+            <Tabs
+              value={channelType}
+              onValueChange={(v) => setChannelType(v as NotificationChannelType)}
+            >
+              <TabsList className="w-full">
+                <TabsTrigger value="desktop" className="flex-1 gap-2">
+                  <Monitor className="w-4 h-4" />
+                  Desktop
+                </TabsTrigger>
+                <TabsTrigger value="email" className="flex-1 gap-2">
+                  <Mail className="w-4 h-4" />
+                  Email
+                </TabsTrigger>
+                <TabsTrigger value="webhook" className="flex-1 gap-2">
+                  <MessageSquare className="w-4 h-4" />
+                  Chat
+                </TabsTrigger>
+              </TabsList>
+
+              {/* Desktop */}
+              <TabsContent value="desktop" className="mt-4">
+                <p className="text-xs text-muted-foreground">
+                  Shows an OS notification in the desktop app, or a browser notification in web
+                  mode.
+                </p>
+              </TabsContent>
+
+              {/* Email form */}
+              <TabsContent value="email" className="space-y-4 mt-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="col-span-2 space-y-2">
+                    <Label htmlFor="smtp-host">SMTP Host</Label>
+                    <Input
+                      id="smtp-host"
+                      value={host}
+                      onChange={(e) => setHost(e.target.value)}
+                      placeholder="smtp.example.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="smtp-port">Port</Label>
+                    <Input
+                      id="smtp-port"
+                      type="number"
+                      value={port}
+                      onChange={(e) => setPort(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="smtp-secure">Use TLS (port 465)</Label>
+                  <Switch id="smtp-secure" checked={secure} onCheckedChange={setSecure} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="smtp-username">Username (optional)</Label>
+                    <Input
+                      id="smtp-username"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="smtp-password">Password</Label>
+                    <Input
+                      id="smtp-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="${AUTOMAKER_NOTIFY_SMTP_PASSWORD}"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Use ${'{AUTOMAKER_NOTIFY_*}'} to read the password from an environment variable on
+                  the server
+                </p>
+
+                {username.trim() && !secure && (
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="smtp-allow-insecure-auth">
+                      Sign in without encryption if the server offers no STARTTLS
+                    </Label>
+                    <Switch
+                      id="smtp-allow-insecure-auth"
+                      checked={allowInsecureAuth}
+                      onCheckedChange={setAllowInsecureAuth}
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="email-from">From</Label>
+                  <Input
+                    id="email-from"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    placeholder="Automaker <automaker@example.com>"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="email-to">To</Label>
+                  <Input
+                    id="email-to"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    placeholder="dev@example.com, lead@example.com"
+                  />
+                </div>
+              </TabsContent>
+
+              {/* Chat webhook form */}
+              <TabsContent value="webhook" className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-format">Service</Label>
+                  <Select value={format} onValueChange={(v) => setFormat(v as ChatWebhookFormat)}>
+                    <SelectTrigger id="webhook-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEBHOOK_FORMATS.map((f) => (
+                        <SelectItem key={f.value} value={f.value}>
+                          {f.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">Incoming Webhook URL</Label>
+                  <Input
+                    id="webhook-url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://hooks.slack.com/services/..."
+                  />
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+
+          {/* Routing */}
+          <div className="space-y-2">
+            <Label>Notifications</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {NOTIFICATION_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={types.includes(type)}
+                    onCheckedChange={(checked) => toggleType(type, !!checked)}
+                  />
+                  {NOTIFICATION_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave all unchecked to receive every type
+            </p>
+          </div>
+
+          {/* Template */}
+          <div className="space-y-2">
+            <Label htmlFor="template-title">Title Template (optional)</Label>
+            <Input
+              id="template-title"
+              value={templateTitle}
+              onChange={(e) => setTemplateTitle(e.target.value)}
+              placeholder="{{title}}"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Body Template (optional)</Label>
+            <Textarea
+              id="template-body"
+              value={templateBody}
+              onChange={(e) => setTemplateBody(e.target.value)}
+              placeholder={'{{message}}\n\nProject: {{projectName}}'}
+              className="font-mono text-sm"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleTest}
+            disabled={!isValid || isTesting}
+            className="mr-auto"
+          >
+            {isTesting && <Spinner size="sm" className="mr-2" />}
+            Send Test
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(buildChannel())} disabled={!isValid}>
+            {editingChannel ? 'Save Changes' : 'Add Channel'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
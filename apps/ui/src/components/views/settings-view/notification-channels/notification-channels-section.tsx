@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { BellRing, Plus, Trash2, Pencil, Monitor, Mail, MessageSquare } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import type { NotificationChannel } from '@automaker/types';
+import { NOTIFICATION_TYPE_LABELS } from '@automaker/types';
+import { NotificationChannelDialog } from './notification-channel-dialog';
+
+const CHANNEL_LABELS: Record<NotificationChannel['type'], string> = {
+  desktop: 'Desktop',
+  email: 'Email',
+  webhook: 'Chat Webhook',
+};
+
+export function NotificationChannelsSection() {
+  const { notificationChannels, setNotificationChannels } = useAppStore();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+
+  const handleAddChannel = () => {
+    setEditingChannel(null);
+    setDialogOpen(true);
+  };
+
+  const handleEditChannel = (channel: NotificationChannel) => {
+    setEditingChannel(channel);
+    setDialogOpen(true);
+  };
+
+  const handleDeleteChannel = (channelId: string) => {
+    setNotificationChannels(notificationChannels.filter((c) => c.id !== channelId));
+  };
+
+  const handleToggleChannel = (channelId: string, enabled: boolean) => {
+    setNotificationChannels(
+      notificationChannels.map((c) => (c.id === channelId ? { ...c, enabled } : c))
+    );
+  };
+
+  const handleSaveChannel = (channel: NotificationChannel) => {
+    if (editingChannel) {
+      setNotificationChannels(notificationChannels.map((c) => (c.id === channel.id ? channel : c)));
+    } else {
+      setNotificationChannels([...notificationChannels, channel]);
+    }
+    setDialogOpen(false);
+    setEditingChannel(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl overflow-hidden',
+        'border border-border/50',
+        'bg-gradient-to-br from-card/90 via-card/70 to-card/80 backdrop-blur-xl',
+        'shadow-sm shadow-black/5'
+      )}
+    >
+      {/* Header */}
+      <div className="p-6 border-b border-border/50 bg-gradient-to-r from-transparent via-accent/5 to-transparent">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-brand-500/20 to-brand-600/10 flex items-center justify-center border border-brand-500/20">
+              <BellRing className="w-5 h-5 text-brand-500" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-foreground tracking-tight">
+                Notification Channels
+              </h2>
+              <p className="text-sm text-muted-foreground/80">
+                Deliver notifications to the desktop, email, Slack, Discord or Teams
+              </p>
+            </div>
+          </div>
+          <Button onClick={handleAddChannel} size="sm" className="gap-2">
+            <Plus className="w-4 h-4" />
+            Add Channel
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {notificationChannels.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <BellRing className="w-12 h-12 mx-auto mb-3 opacity-30" />
+            <p className="text-sm">No notification channels configured</p>
+            <p className="text-xs mt-1">
+              Notifications are only shown in the app until a channel is added
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {notificationChannels.map((channel) => (
+              <ChannelCard
+                key={channel.id}
+                channel={channel}
+                onEdit={() => handleEditChannel(channel)}
+                onDelete={() => handleDeleteChannel(channel.id)}
+                onToggle={(enabled) => handleToggleChannel(channel.id, enabled)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Variable reference */}
+      <div className="px-6 pb-6">
+        <div className="rounded-lg bg-muted/30 p-4 text-xs text-muted-foreground">
+          <p className="font-medium mb-2">Template variables:</p>
+          <code className="text-[10px] leading-relaxed">
+            {'{{title}}'} {'{{message}}'} {'{{type}}'} {'{{typeLabel}}'} {'{{featureId}}'}{' '}
+            {'{{projectName}}'} {'{{projectPath}}'} {'{{createdAt}}'}
+          </code>
+        </div>
+      </div>
+
+      {/* Dialog */}
+      <NotificationChannelDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        editingChannel={editingChannel}
+        onSave={handleSaveChannel}
+      />
+    </div>
+  );
+}
+
+interface ChannelCardProps {
+  channel: NotificationChannel;
+  onEdit: () => void;
+  onDelete: () => void;
+  onToggle: (enabled: boolean) => void;
+}
+
+function getChannelTarget(channel: NotificationChannel): string {
+  switch (channel.type) {
+    case 'email':
+      return channel.to.join(', ');
+    case 'webhook':
+      return channel.url;
+    default:
+      return 'OS notifications';
+  }
+}
+
+function ChannelCard({ channel, onEdit, onDelete, onToggle }: ChannelCardProps) {
+  const Icon =
+    channel.type === 'email' ? Mail : channel.type === 'webhook' ? MessageSquare : Monitor;
+  const routing = channel.types?.length
+    ? channel.types.map((type) => NOTIFICATION_TYPE_LABELS[type]).join(', ')
+    : 'All notifications';
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-3 p-3 rounded-lg border',
+        'bg-background/50 hover:bg-background/80 transition-colors',
+        !channel.enabled && 'opacity-60'
+      )}
+    >
+      {/* Type icon */}
+      <div className="w-8 h-8 rounded-lg flex items-center justify-center bg-blue-500/10 text-blue-500">
+        <Icon className="w-4 h-4" />
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          {channel.name || CHANNEL_LABELS[channel.type]}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">
+          {getChannelTarget(channel)} · {routing}
+        </p>
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center gap-2">
+        <Switch checked={channel.enabled} onCheckedChange={onToggle} />
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onEdit}>
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-destructive hover:text-destructive"
+          onClick={onDelete}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
   SpecViewMode,
   SpecEditMode,
   SpecModeTabs,
+  SpecCoverageMode,
 } from './spec-view/components';
 
 // Extracted dialogs
@@ -89,8 +90,8 @@ export function SpecView() {
   // Handle mode change - if parse is invalid, force source mode
   const handleModeChange = useCallback(
     (newMode: SpecViewModeType) => {
-      if ((newMode === 'view' || newMode === 'edit') && !isParseValid) {
-        // Can't switch to view/edit if parse is invalid
+      if (newMode !== 'source' && !isParseValid) {
+        // Can't switch to view/edit/coverage if parse is invalid
         return;
       }
       setMode(newMode);
@@ -164,6 +165,8 @@ export function SpecView() {
         return <SpecViewMode spec={parsedSpec} />;
       case 'edit':
         return <SpecEditMode spec={parsedSpec} onChange={handleChange} />;
+      case 'coverage':
+        return <SpecCoverageMode projectPath={currentProject.path} />;
       case 'source':
       default:
         return <SpecEditor value={appSpec} onChange={handleChange} />;
@@ -192,7 +195,7 @@ export function SpecView() {
         onSaveClick={saveSpec}
         showActionsPanel={showActionsPanel}
         onToggleActionsPanel={() => setShowActionsPanel(!showActionsPanel)}
-        showSaveButton={mode !== 'view'}
+        showSaveButton={mode !== 'view' && mode !== 'coverage'}
       />
 
       {/* Mode tabs and content container */}
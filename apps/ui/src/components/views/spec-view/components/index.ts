@@ -4,3 +4,4 @@ export { SpecEmptyState } from './spec-empty-state';
 export { SpecModeTabs } from './spec-mode-tabs';
 export { SpecViewMode } from './spec-view-mode';
 export { SpecEditMode } from './spec-edit-mode';
+export { SpecCoverageMode } from './spec-coverage-mode';
@@ -0,0 +1,256 @@
+import { useMemo, useState } from 'react';
+import type { Feature, SpecCoverageItem, SpecDriftType, SpecItemKind } from '@automaker/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Spinner } from '@/components/ui/spinner';
+import { useFeatures, useSpecCoverage } from '@/hooks/queries';
+import { useCreateSpecGapFeatures } from '@/hooks/mutations';
+import { Lightbulb, ListChecks, Map as MapIcon, Plus, RefreshCw } from 'lucide-react';
+
+interface SpecCoverageModeProps {
+  projectPath: string;
+}
+
+const KIND_SECTIONS: Array<{ kind: SpecItemKind; title: string; icon: typeof Lightbulb }> = [
+  { kind: 'capability', title: 'Core Capabilities', icon: Lightbulb },
+  { kind: 'implemented_feature', title: 'Implemented Features', icon: ListChecks },
+  { kind: 'roadmap_phase', title: 'Implementation Roadmap', icon: MapIcon },
+];
+
+const DRIFT_BADGES: Record<
+  SpecDriftType,
+  { label: string; variant: 'error' | 'warning' | 'info' }
+> = {
+  missing_files: { label: 'Missing files', variant: 'error' },
+  heavily_changed: { label: 'Heavily changed', variant: 'warning' },
+  no_feature: { label: 'No feature', variant: 'info' },
+};
+
+const itemKey = (item: Pick<SpecCoverageItem, 'kind' | 'name'>) => `${item.kind}:${item.name}`;
+
+/**
+ * Coverage matrix of the spec: which features and files implement each
+ * spec item, and where the spec has drifted from the code. Items with drift
+ * can be turned into backlog features.
+ */
+export function SpecCoverageMode({ projectPath }: SpecCoverageModeProps) {
+  const {
+    data: report,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    isFetching,
+  } = useSpecCoverage(projectPath);
+  const { data: features = [] } = useFeatures(projectPath);
+  const createGapFeatures = useCreateSpecGapFeatures(projectPath);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const featuresById = useMemo(
+    () => new Map(features.map((feature) => [feature.id, feature])),
+    [features]
+  );
+  const items = report?.items ?? [];
+  const driftCount = items.filter((item) => item.drift.length > 0).length;
+
+  const toggle = (item: SpecCoverageItem, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(itemKey(item));
+      else next.delete(itemKey(item));
+      return next;
+    });
+  };
+
+  const handleCreate = () => {
+    const links = items
+      .filter((item) => selected.has(itemKey(item)))
+      .map(({ kind, name }) => ({ kind, name }));
+    createGapFeatures.mutate(links, { onSuccess: () => setSelected(new Set()) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-muted-foreground">
+        <Spinner size="lg" className="mr-2" />
+        Checking spec coverage...
+      </div>
+    );
+  }
+
+  if (isError || !report) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-sm text-destructive">
+        {error instanceof Error ? error.message : 'Failed to load spec coverage.'}
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4 space-y-6 max-w-5xl mx-auto" data-testid="spec-coverage">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {driftCount === 0
+              ? 'Every spec item is covered and its files match the spec.'
+              : `${driftCount} of ${items.length} spec items have drifted.`}{' '}
+            File changes are counted since the spec was last updated (
+            {new Date(report.specUpdatedAt).toLocaleString()}).
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetch()}
+              disabled={isFetching}
+              data-testid="spec-coverage-refresh"
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Refresh
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleCreate}
+              disabled={selected.size === 0 || createGapFeatures.isPending}
+              data-testid="spec-coverage-create-features"
+            >
+              {createGapFeatures.isPending ? (
+                <Spinner size="sm" className="mr-1" />
+              ) : (
+                <Plus className="w-4 h-4 mr-1" />
+              )}
+              Create backlog features
+              {selected.size > 0 && ` (${selected.size})`}
+            </Button>
+          </div>
+        </div>
+
+        {KIND_SECTIONS.map(({ kind, title, icon: Icon }) => {
+          const sectionItems = items.filter((item) => item.kind === kind);
+          if (sectionItems.length === 0) return null;
+
+          return (
+            <Card key={kind}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Icon className="w-5 h-5 text-primary" />
+                  {title}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="grid grid-cols-[auto_minmax(0,2fr)_minmax(0,1.5fr)_minmax(0,1.5fr)_auto] gap-x-4 gap-y-3 text-sm">
+                  <span />
+                  <span className="text-xs font-medium text-muted-foreground">Item</span>
+                  <span className="text-xs font-medium text-muted-foreground">Features</span>
+                  <span className="text-xs font-medium text-muted-foreground">Files</span>
+                  <span className="text-xs font-medium text-muted-foreground">Drift</span>
+                  {sectionItems.map((item) => (
+                    <CoverageRow
+                      key={itemKey(item)}
+                      item={item}
+                      featuresById={featuresById}
+                      checked={selected.has(itemKey(item))}
+                      onCheckedChange={(checked) => toggle(item, checked)}
+                    />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
+
+interface CoverageRowProps {
+  item: SpecCoverageItem;
+  featuresById: Map<string, Feature>;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}
+
+function CoverageRow({ item, featuresById, checked, onCheckedChange }: CoverageRowProps) {
+  const hasDrift = item.drift.length > 0;
+  const missing = new Set(item.missingFiles);
+  const changed = new Map(item.changedFiles.map((file) => [file.path, file]));
+
+  return (
+    <>
+      <Checkbox
+        checked={checked}
+        onCheckedChange={onCheckedChange}
+        disabled={!hasDrift}
+        aria-label={`Select ${item.name}`}
+        className="mt-0.5"
+      />
+      <div className="min-w-0">
+        <p className="font-medium break-words">{item.name}</p>
+        {item.implementedBy && item.implementedBy.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Implemented by {item.implementedBy.join(', ')}
+          </p>
+        )}
+      </div>
+      <div className="min-w-0 space-y-0.5">
+        {item.featureIds.length === 0 ? (
+          <span className="text-muted-foreground">-</span>
+        ) : (
+          item.featureIds.map((id) => {
+            const feature = featuresById.get(id);
+            return (
+              <p key={id} className="text-xs truncate" title={id}>
+                {feature ? feature.title || feature.description : id}
+                {feature?.status && (
+                  <span className="text-muted-foreground"> · {feature.status}</span>
+                )}
+              </p>
+            );
+          })
+        )}
+      </div>
+      <div className="min-w-0 space-y-0.5">
+        {item.fileLocations.length === 0 ? (
+          <span className="text-muted-foreground">-</span>
+        ) : (
+          item.fileLocations.map((location) => {
+            const change = changed.get(location);
+            return (
+              <p
+                key={location}
+                className={
+                  missing.has(location)
+                    ? 'font-mono text-xs truncate text-destructive line-through'
+                    : 'font-mono text-xs truncate'
+                }
+                title={
+                  change
+                    ? `${location}: ${change.linesChanged} of ${change.lineCount} lines changed`
+                    : location
+                }
+              >
+                {location}
+              </p>
+            );
+          })
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1 justify-end">
+        {hasDrift ? (
+          item.drift.map((drift) => (
+            <Badge key={drift} variant={DRIFT_BADGES[drift].variant} size="sm">
+              {DRIFT_BADGES[drift].label}
+            </Badge>
+          ))
+        ) : (
+          <Badge variant="success" size="sm">
+            OK
+          </Badge>
+        )}
+      </div>
+    </>
+  );
+}
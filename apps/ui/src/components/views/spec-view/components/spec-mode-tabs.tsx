@@ -1,4 +1,4 @@
-import { Eye, Edit3, Code } from 'lucide-react';
+import { Eye, Edit3, Code, Radar } from 'lucide-react';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { SpecViewMode } from '../types';
 
@@ -49,6 +49,19 @@ export function SpecModeTabs({
           <Code className="w-4 h-4" />
           <span className="hidden sm:inline">Source</span>
         </TabsTrigger>
+        <TabsTrigger
+          value="coverage"
+          disabled={disabled || !isParseValid}
+          title={
+            !isParseValid
+              ? 'Fix XML errors to enable Coverage mode'
+              : 'Trace spec items to features and files'
+          }
+          aria-label="Coverage"
+        >
+          <Radar className="w-4 h-4" />
+          <span className="hidden sm:inline">Coverage</span>
+        </TabsTrigger>
       </TabsList>
     </Tabs>
   );
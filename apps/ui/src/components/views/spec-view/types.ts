@@ -1,5 +1,5 @@
 // Spec view mode - determines how the spec is displayed/edited
-export type SpecViewMode = 'view' | 'edit' | 'source';
+export type SpecViewMode = 'view' | 'edit' | 'source' | 'coverage';
 
 // Feature count options for spec generation
 export type FeatureCount = 20 | 50 | 100;
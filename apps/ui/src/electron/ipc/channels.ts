@@ -32,5 +32,8 @@ export const IPC_CHANNELS = {
   SERVER: {
     GET_URL: 'server:getUrl',
   },
+  NOTIFICATION: {
+    SHOW: 'notification:show',
+  },
   PING: 'ping',
 } as const;
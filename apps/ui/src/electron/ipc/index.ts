@@ -10,6 +10,7 @@ import { registerAppHandlers } from './app-handlers';
 import { registerAuthHandlers } from './auth-handlers';
 import { registerWindowHandlers } from './window-handlers';
 import { registerServerHandlers } from './server-handlers';
+import { registerNotificationHandlers } from './notification-handlers';
 
 export { IPC_CHANNELS } from './channels';
 
@@ -23,4 +24,5 @@ export function registerAllHandlers(): void {
   registerAuthHandlers();
   registerWindowHandlers();
   registerServerHandlers();
+  registerNotificationHandlers();
 }
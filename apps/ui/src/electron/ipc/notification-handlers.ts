@@ -0,0 +1,30 @@
+/**
+ * Notification IPC handlers
+ *
+ * Shows OS notifications for the desktop notification channel.
+ */
+
+import { ipcMain, Notification } from 'electron';
+import { IPC_CHANNELS } from './channels';
+import { state } from '../state';
+
+/**
+ * Register notification IPC handlers
+ */
+export function registerNotificationHandlers(): void {
+  // Show a native notification; clicking it brings the window to the front
+  ipcMain.handle(IPC_CHANNELS.NOTIFICATION.SHOW, (_, title: string, body: string) => {
+    if (!Notification.isSupported()) {
+      return { success: false, error: 'Notifications are not supported on this system' };
+    }
+
+    const notification = new Notification({ title, body });
+    notification.on('click', () => {
+      if (!state.mainWindow || state.mainWindow.isDestroyed()) return;
+      if (state.mainWindow.isMinimized()) state.mainWindow.restore();
+      state.mainWindow.focus();
+    });
+    notification.show();
+    return { success: true };
+  });
+}
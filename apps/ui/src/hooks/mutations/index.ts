@@ -27,6 +27,7 @@ export {
   useApprovePlan,
   useFollowUpFeature,
   useCommitFeature,
+  useRollbackToCheckpoint,
   useAnalyzeProject,
   useStartAutoMode,
   useStopAutoMode,
@@ -65,7 +66,21 @@ export {
 } from './use-github-mutations';
 
 // Ideation mutations
-export { useGenerateIdeationSuggestions } from './use-ideation-mutations';
+export {
+  useGenerateIdeationSuggestions,
+  useCreateIdea,
+  useUpdateIdea,
+  useVoteIdea,
+  useIdeaComment,
+  useConvertIdeas,
+} from './use-ideation-mutations';
+
+// Memory mutations
+export {
+  useRunMemoryCuration,
+  useApplyMemoryProposal,
+  useDismissMemoryProposal,
+} from './use-memory-mutations';
 
 // Spec mutations
 export {
@@ -73,6 +88,7 @@ export {
   useRegenerateSpec,
   useGenerateFeatures,
   useSaveSpec,
+  useCreateSpecGapFeatures,
 } from './use-spec-mutations';
 
 // Cursor Permissions mutations
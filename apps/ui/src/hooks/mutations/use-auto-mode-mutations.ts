@@ -308,6 +308,54 @@ export function useCommitFeature(projectPath: string) {
   });
 }
 
+/**
+ * Roll a feature back to a git checkpoint, optionally resuming from it
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for restoring a checkpoint
+ */
+export function useRollbackToCheckpoint(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      featureId,
+      checkpointId,
+      resume,
+      useWorktrees,
+    }: {
+      featureId: string;
+      checkpointId: string;
+      resume?: boolean;
+      useWorktrees?: boolean;
+    }) => {
+      const api = getElectronAPI();
+      if (!api.autoMode) throw new Error('AutoMode API not available');
+      const result = await api.autoMode.rollback(projectPath, featureId, checkpointId, {
+        resume,
+        useWorktrees,
+      });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore checkpoint');
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.features.all(projectPath) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.runningAgents.all() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.worktrees.all(projectPath) });
+      toast.success(result.resumed ? 'Checkpoint restored, resuming' : 'Checkpoint restored', {
+        description: result.checkpoint?.label,
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to restore checkpoint', {
+        description: error.message,
+      });
+    },
+  });
+}
+
 /**
  * Analyze project structure
  *
@@ -56,6 +56,7 @@ export function useValidateIssue(projectPath: string) {
 
       const validationInput = {
         issueNumber: issue.number,
+        issueKey: issue.key,
         issueTitle: issue.title,
         issueBody: issue.body || '',
         issueLabels: issue.labels.map((l) => l.name),
@@ -81,9 +82,12 @@ export function useValidateIssue(projectPath: string) {
       return { issueNumber: issue.number };
     },
     onSuccess: (_, variables) => {
-      toast.info(`Starting validation for issue #${variables.issue.number}`, {
-        description: 'You will be notified when the analysis is complete',
-      });
+      toast.info(
+        `Starting validation for issue ${variables.issue.key ?? `#${variables.issue.number}`}`,
+        {
+          description: 'You will be notified when the analysis is complete',
+        }
+      );
     },
     onError: (error) => {
       toast.error('Failed to validate issue', {
@@ -104,26 +108,26 @@ export function useValidateIssue(projectPath: string) {
  * @example
  * ```tsx
  * const markViewedMutation = useMarkValidationViewed(projectPath);
- * markViewedMutation.mutate(issueNumber);
+ * markViewedMutation.mutate(issue);
  * ```
  */
 export function useMarkValidationViewed(projectPath: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (issueNumber: number) => {
+    mutationFn: async (issue: Pick<GitHubIssue, 'number' | 'key'>) => {
       const api = getElectronAPI();
       if (!api.github?.markValidationViewed) {
         throw new Error('Mark viewed API not available');
       }
 
-      const result = await api.github.markValidationViewed(projectPath, issueNumber);
+      const result = await api.github.markValidationViewed(projectPath, issue.number, issue.key);
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to mark as viewed');
       }
 
-      return { issueNumber };
+      return { issueNumber: issue.number };
     },
     onSuccess: () => {
       // Invalidate validations cache to refresh the viewed state
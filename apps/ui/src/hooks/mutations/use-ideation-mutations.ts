@@ -1,14 +1,21 @@
 /**
  * Ideation Mutation Hooks
  *
- * React Query mutations for ideation operations like generating suggestions.
+ * React Query mutations for ideation operations like generating suggestions,
+ * saving, voting on and converting ideas.
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { getElectronAPI } from '@/lib/electron';
 import { queryKeys } from '@/lib/query-keys';
 import { toast } from 'sonner';
-import type { IdeaCategory, AnalysisSuggestion } from '@automaker/types';
+import type {
+  IdeaCategory,
+  AnalysisSuggestion,
+  CreateIdeaInput,
+  UpdateIdeaInput,
+  ConvertIdeasResult,
+} from '@automaker/types';
 import { useIdeationStore } from '@/store/ideation-store';
 
 /**
@@ -117,3 +124,186 @@ export function useGenerateIdeationSuggestions(projectPath: string) {
     },
   });
 }
+
+/**
+ * Save an idea for later (e.g. a generated suggestion to plan on the roadmap)
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for creating an idea
+ */
+export function useCreateIdea(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (idea: CreateIdeaInput) => {
+      const api = getElectronAPI();
+      const result = await api.ideation?.createIdea(projectPath, idea);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to save idea');
+      }
+      return result.idea;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.ideation.ideas(projectPath),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save idea', { description: error.message });
+    },
+  });
+}
+
+/**
+ * Update an idea's fields, e.g. its roadmap lane or RICE inputs
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for updating an idea
+ */
+export function useUpdateIdea(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ideaId, updates }: { ideaId: string; updates: UpdateIdeaInput }) => {
+      const api = getElectronAPI();
+      const result = await api.ideation?.updateIdea(projectPath, ideaId, updates);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to update idea');
+      }
+      return result.idea;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.ideation.ideas(projectPath),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update idea', { description: error.message });
+    },
+  });
+}
+
+/**
+ * Vote an idea up (1) or down (-1), or withdraw the vote (0)
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for voting on an idea
+ */
+export function useVoteIdea(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      ideaId,
+      voter,
+      value,
+    }: {
+      ideaId: string;
+      voter: string;
+      value: 1 | -1 | 0;
+    }) => {
+      const api = getElectronAPI();
+      const result = await api.ideation?.voteIdea(projectPath, ideaId, voter, value);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to vote');
+      }
+      return result.idea;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.ideation.ideas(projectPath),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to vote', { description: error.message });
+    },
+  });
+}
+
+/**
+ * Add a comment to an idea, or delete one by passing commentId
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for commenting on an idea
+ */
+export function useIdeaComment(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      input:
+        | { ideaId: string; author: string; body: string }
+        | { ideaId: string; commentId: string }
+    ) => {
+      const api = getElectronAPI();
+      const result =
+        'commentId' in input
+          ? await api.ideation?.deleteIdeaComment(projectPath, input.ideaId, input.commentId)
+          : await api.ideation?.addIdeaComment(projectPath, input.ideaId, input.author, input.body);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to update comments');
+      }
+      return result.idea;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.ideation.ideas(projectPath),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update comments', { description: error.message });
+    },
+  });
+}
+
+/**
+ * Convert a batch of ideas (e.g. a roadmap lane) to backlog features,
+ * letting the backlog planning model infer dependencies between them
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for converting ideas
+ */
+export function useConvertIdeas(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ideaIds: string[]): Promise<ConvertIdeasResult> => {
+      const api = getElectronAPI();
+      const result = await api.ideation?.convertIdeas(projectPath, ideaIds, {
+        inferDependencies: true,
+      });
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to convert ideas');
+      }
+      return {
+        featureIds: result.featureIds ?? [],
+        dependencies: result.dependencies ?? {},
+        failed: result.failed ?? [],
+      };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.ideation.ideas(projectPath),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.features.all(projectPath),
+      });
+
+      const linked = Object.keys(data.dependencies).length;
+      const created = `Created ${data.featureIds.length} feature${data.featureIds.length !== 1 ? 's' : ''}`;
+      if (data.failed.length > 0) {
+        toast.warning(`${created}, ${data.failed.length} failed`, {
+          description: data.failed.map((f) => f.error).join('\n'),
+        });
+      } else {
+        toast.success(created, {
+          description:
+            linked > 0 ? `Inferred dependencies for ${linked} of them` : 'No dependencies inferred',
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to convert ideas', { description: error.message });
+    },
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Memory Mutation Hooks
+ *
+ * React Query mutations for running memory curation and reviewing its
+ * proposals.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getElectronAPI } from '@/lib/electron';
+import { queryKeys } from '@/lib/query-keys';
+import { toast } from 'sonner';
+
+/**
+ * Scan memory files and replace the pending proposals
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for running curation; pass false to skip AI summaries
+ */
+export function useRunMemoryCuration(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (summarize: boolean = true) => {
+      const api = getElectronAPI();
+      const result = await api.memory?.runCuration(projectPath, summarize);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to run memory curation');
+      }
+      return result.proposals ?? [];
+    },
+    onSuccess: (proposals) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.memory.curation(projectPath),
+      });
+      toast.success(
+        proposals.length > 0
+          ? `${proposals.length} memory ${proposals.length === 1 ? 'change' : 'changes'} to review`
+          : 'Memory files are in good shape'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error('Memory curation failed', { description: error.message });
+    },
+  });
+}
+
+/**
+ * Write a proposal to its memory file
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for applying a proposal; conflicts need a resolutionIndex
+ */
+export function useApplyMemoryProposal(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      proposalId,
+      resolutionIndex,
+    }: {
+      proposalId: string;
+      resolutionIndex?: number;
+    }) => {
+      const api = getElectronAPI();
+      const result = await api.memory?.applyCurationProposal(
+        projectPath,
+        proposalId,
+        resolutionIndex
+      );
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to apply proposal');
+      }
+      return result.proposals ?? [];
+    },
+    onSettled: () => {
+      // A stale proposal is dropped on the server even though applying failed
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.memory.curation(projectPath),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to apply proposal', { description: error.message });
+    },
+  });
+}
+
+/**
+ * Drop a proposal without applying it
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation for dismissing a proposal
+ */
+export function useDismissMemoryProposal(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (proposalId: string) => {
+      const api = getElectronAPI();
+      const result = await api.memory?.dismissCurationProposal(projectPath, proposalId);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to dismiss proposal');
+      }
+      return result.proposals ?? [];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.memory.curation(projectPath),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to dismiss proposal', { description: error.message });
+    },
+  });
+}
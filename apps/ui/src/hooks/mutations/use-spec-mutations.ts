@@ -9,6 +9,7 @@ import { getElectronAPI } from '@/lib/electron';
 import { queryKeys } from '@/lib/query-keys';
 import { toast } from 'sonner';
 import type { FeatureCount } from '@/components/views/spec-view/types';
+import type { FeatureSpecLink } from '@automaker/types';
 
 /**
  * Input for creating a spec
@@ -173,6 +174,7 @@ export function useSaveSpec(projectPath: string) {
       queryClient.invalidateQueries({
         queryKey: queryKeys.spec.file(projectPath),
       });
+      queryClient.invalidateQueries({ queryKey: queryKeys.spec.coverage(projectPath) });
       toast.success('Spec saved');
     },
     onError: (error) => {
@@ -182,3 +184,46 @@ export function useSaveSpec(projectPath: string) {
     },
   });
 }
+
+/**
+ * Create backlog features for spec coverage gaps
+ *
+ * @param projectPath - Path to the project
+ * @returns Mutation taking the spec items to create features for
+ */
+export function useCreateSpecGapFeatures(projectPath: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (items: FeatureSpecLink[]) => {
+      const api = getElectronAPI();
+      if (!api.specRegeneration) {
+        throw new Error('Spec regeneration API not available');
+      }
+
+      const result = await api.specRegeneration.createGapFeatures(projectPath, items);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create features');
+      }
+      return result.features ?? [];
+    },
+    onSuccess: (features) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.spec.coverage(projectPath) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.features.all(projectPath) });
+      if (features.length > 0) {
+        toast.success(
+          `Created ${features.length} backlog feature${features.length === 1 ? '' : 's'}`
+        );
+      } else {
+        toast.info('No new features needed', {
+          description: 'The selected items already have features with the same titles.',
+        });
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to create features', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
@@ -11,7 +11,15 @@
  */
 
 // Features
-export { useFeatures, useFeature, useAgentOutput } from './use-features';
+export {
+  useFeatures,
+  useFeature,
+  useAgentOutput,
+  useProjectUsage,
+  useFeatureCheckpoints,
+  useFeaturePrompts,
+  useFeaturePrompt,
+} from './use-features';
 
 // GitHub
 export {
@@ -20,6 +28,7 @@ export {
   useGitHubValidations,
   useGitHubRemote,
   useGitHubIssueComments,
+  useIssueSource,
 } from './use-github';
 
 // Usage
@@ -72,6 +81,9 @@ export {
 // Ideation
 export { useIdeationPrompts, useIdeas, useIdea } from './use-ideation';
 
+// Memory
+export { useMemoryCuration } from './use-memory';
+
 // Sessions
 export { useSessions, useSessionHistory, useSessionQueue } from './use-sessions';
 
@@ -82,7 +94,7 @@ export { useGitDiffs } from './use-git';
 export { usePipelineConfig } from './use-pipeline';
 
 // Spec
-export { useSpecFile, useSpecRegenerationStatus } from './use-spec';
+export { useSpecFile, useSpecRegenerationStatus, useSpecCoverage } from './use-spec';
 
 // Cursor Permissions
 export { useCursorPermissionsQuery } from './use-cursor-permissions';
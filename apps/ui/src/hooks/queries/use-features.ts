@@ -12,6 +12,12 @@ import { queryKeys } from '@/lib/query-keys';
 import { STALE_TIMES } from '@/lib/query-client';
 import { createSmartPollingInterval, getGlobalEventsRecent } from '@/hooks/use-event-recency';
 import type { Feature } from '@/store/app-store';
+import type {
+  FeatureCheckpoint,
+  FeaturePromptRecord,
+  FeaturePromptSummary,
+  ProjectUsageSummary,
+} from '@automaker/types';
 
 const FEATURES_REFETCH_ON_FOCUS = false;
 const FEATURES_REFETCH_ON_RECONNECT = false;
@@ -148,3 +154,136 @@ export function useAgentOutput(
     refetchOnReconnect: FEATURES_REFETCH_ON_RECONNECT,
   });
 }
+
+/**
+ * Fetch token usage and cost totals for every feature in a project
+ *
+ * Kept fresh by feature_usage_updated events (see useAutoModeQueryInvalidation),
+ * so no polling is configured.
+ *
+ * @param projectPath - Path to the project
+ * @returns Query result with per-feature totals and the project total
+ */
+export function useProjectUsage(projectPath: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.features.usage(projectPath ?? ''),
+    queryFn: async (): Promise<ProjectUsageSummary> => {
+      if (!projectPath) throw new Error('No project path');
+      const api = getElectronAPI();
+      const result = await api.features?.getProjectUsage(projectPath);
+      if (!result?.success || !result.summary) {
+        throw new Error(result?.error || 'Failed to fetch usage');
+      }
+      return result.summary;
+    },
+    enabled: !!projectPath,
+    staleTime: STALE_TIMES.USAGE,
+    refetchOnWindowFocus: FEATURES_REFETCH_ON_FOCUS,
+    refetchOnReconnect: FEATURES_REFETCH_ON_RECONNECT,
+  });
+}
+
+/**
+ * Fetch the git checkpoints taken while working on a feature, oldest first
+ *
+ * Kept fresh by checkpoint_created and checkpoint_restored events
+ * (see useAutoModeQueryInvalidation), so no polling is configured.
+ *
+ * @param projectPath - Path to the project
+ * @param featureId - ID of the feature
+ * @param options - Query options
+ * @returns Query result with the feature's checkpoints
+ */
+export function useFeatureCheckpoints(
+  projectPath: string | undefined,
+  featureId: string | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const { enabled = true } = options;
+
+  return useQuery({
+    queryKey: queryKeys.features.checkpoints(projectPath ?? '', featureId ?? ''),
+    queryFn: async (): Promise<FeatureCheckpoint[]> => {
+      if (!projectPath || !featureId) throw new Error('Missing project path or feature ID');
+      const api = getElectronAPI();
+      const result = await api.autoMode?.listCheckpoints(projectPath, featureId);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to fetch checkpoints');
+      }
+      return result.checkpoints ?? [];
+    },
+    enabled: !!projectPath && !!featureId && enabled,
+    staleTime: STALE_TIMES.FEATURES,
+    refetchOnWindowFocus: FEATURES_REFETCH_ON_FOCUS,
+    refetchOnReconnect: FEATURES_REFETCH_ON_RECONNECT,
+  });
+}
+
+/**
+ * Fetch the prompts recorded for a feature's agent runs, newest first
+ *
+ * Refreshed along with the feature itself (its query key is a prefix of
+ * this one), so no polling is configured.
+ *
+ * @param projectPath - Path to the project
+ * @param featureId - ID of the feature
+ * @param options - Query options
+ * @returns Query result with prompt summaries (without prompt text)
+ */
+export function useFeaturePrompts(
+  projectPath: string | undefined,
+  featureId: string | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const { enabled = true } = options;
+
+  return useQuery({
+    queryKey: queryKeys.features.prompts(projectPath ?? '', featureId ?? ''),
+    queryFn: async (): Promise<FeaturePromptSummary[]> => {
+      if (!projectPath || !featureId) throw new Error('Missing project path or feature ID');
+      const api = getElectronAPI();
+      const result = await api.features?.listPrompts(projectPath, featureId);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to fetch prompts');
+      }
+      return result.prompts ?? [];
+    },
+    enabled: !!projectPath && !!featureId && enabled,
+    staleTime: STALE_TIMES.FEATURES,
+    refetchOnWindowFocus: FEATURES_REFETCH_ON_FOCUS,
+    refetchOnReconnect: FEATURES_REFETCH_ON_RECONNECT,
+  });
+}
+
+/**
+ * Fetch a single recorded prompt with its system prompt and prompt text
+ *
+ * Records never change once written, so the result is cached indefinitely.
+ *
+ * @param projectPath - Path to the project
+ * @param featureId - ID of the feature
+ * @param promptId - ID of the prompt record
+ * @returns Query result with the prompt record
+ */
+export function useFeaturePrompt(
+  projectPath: string | undefined,
+  featureId: string | undefined,
+  promptId: string | undefined
+) {
+  return useQuery({
+    queryKey: queryKeys.features.prompt(projectPath ?? '', featureId ?? '', promptId ?? ''),
+    queryFn: async (): Promise<FeaturePromptRecord> => {
+      if (!projectPath || !featureId || !promptId) {
+        throw new Error('Missing project path, feature ID or prompt ID');
+      }
+      const api = getElectronAPI();
+      const result = await api.features?.getPrompt(projectPath, featureId, promptId);
+      if (!result?.success || !result.prompt) {
+        throw new Error(result?.error || 'Failed to fetch prompt');
+      }
+      return result.prompt;
+    },
+    enabled: !!projectPath && !!featureId && !!promptId,
+    staleTime: Infinity,
+  });
+}
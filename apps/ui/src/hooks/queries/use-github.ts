@@ -2,6 +2,8 @@
  * GitHub Query Hooks
  *
  * React Query hooks for fetching GitHub issues, PRs, and validations.
+ * Issues and their comments come from the project's issue source, which is
+ * GitHub unless the project configures a REST tracker.
  */
 
 import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
@@ -9,6 +11,7 @@ import { getElectronAPI } from '@/lib/electron';
 import { queryKeys } from '@/lib/query-keys';
 import { STALE_TIMES } from '@/lib/query-client';
 import type { GitHubIssue, GitHubPR, GitHubComment, StoredValidation } from '@/lib/electron';
+import type { IssueSourceInfo } from '@automaker/types';
 
 interface GitHubIssuesResult {
   openIssues: GitHubIssue[];
@@ -21,7 +24,7 @@ interface GitHubPRsResult {
 }
 
 /**
- * Fetch GitHub issues for a project
+ * Fetch issues for a project from its issue source
  *
  * @param projectPath - Path to the project
  * @returns Query result with open and closed issues
@@ -38,10 +41,10 @@ export function useGitHubIssues(projectPath: string | undefined) {
     queryFn: async (): Promise<GitHubIssuesResult> => {
       if (!projectPath) throw new Error('No project path');
       const api = getElectronAPI();
-      if (!api.github) {
-        throw new Error('GitHub API not available');
+      if (!api.issues) {
+        throw new Error('Issues API not available');
       }
-      const result = await api.github.listIssues(projectPath);
+      const result = await api.issues.list(projectPath);
       if (!result.success) {
         throw new Error(result.error || 'Failed to fetch issues');
       }
@@ -145,12 +148,39 @@ export function useGitHubRemote(projectPath: string | undefined) {
 }
 
 /**
- * Fetch comments for a GitHub issue with pagination support
+ * Get the project's issue source and whether it can be used
+ *
+ * @param projectPath - Path to the project
+ * @returns Query result with the issue source info
+ */
+export function useIssueSource(projectPath: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.github.issueSource(projectPath ?? ''),
+    queryFn: async (): Promise<IssueSourceInfo> => {
+      if (!projectPath) throw new Error('No project path');
+      const api = getElectronAPI();
+      if (!api.issues) {
+        throw new Error('Issues API not available');
+      }
+      const result = await api.issues.getSource(projectPath);
+      if (!result.success || !result.source) {
+        throw new Error(result.error || 'Failed to get issue source');
+      }
+      return result.source;
+    },
+    enabled: !!projectPath,
+    staleTime: STALE_TIMES.GITHUB,
+  });
+}
+
+/**
+ * Fetch comments for an issue with pagination support
  *
  * Uses useInfiniteQuery for proper "load more" pagination.
  *
  * @param projectPath - Path to the project
  * @param issueNumber - Issue number
+ * @param issueKey - Tracker key for non-GitHub issue sources
  * @returns Infinite query result with comments and pagination helpers
  *
  * @example
@@ -170,17 +200,18 @@ export function useGitHubRemote(projectPath: string | undefined) {
  */
 export function useGitHubIssueComments(
   projectPath: string | undefined,
-  issueNumber: number | undefined
+  issueNumber: number | undefined,
+  issueKey?: string
 ) {
   return useInfiniteQuery({
-    queryKey: queryKeys.github.issueComments(projectPath ?? '', issueNumber ?? 0),
+    queryKey: queryKeys.github.issueComments(projectPath ?? '', issueKey ?? issueNumber ?? 0),
     queryFn: async ({ pageParam }: { pageParam: string | undefined }) => {
       if (!projectPath || !issueNumber) throw new Error('Missing project path or issue number');
       const api = getElectronAPI();
-      if (!api.github) {
-        throw new Error('GitHub API not available');
+      if (!api.issues) {
+        throw new Error('Issues API not available');
       }
-      const result = await api.github.getIssueComments(projectPath, issueNumber, pageParam);
+      const result = await api.issues.getComments(projectPath, issueNumber, issueKey, pageParam);
       if (!result.success) {
         throw new Error(result.error || 'Failed to fetch comments');
       }
@@ -0,0 +1,37 @@
+/**
+ * Memory Query Hooks
+ *
+ * React Query hooks for fetching memory curation proposals.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getElectronAPI } from '@/lib/electron';
+import { queryKeys } from '@/lib/query-keys';
+import { STALE_TIMES } from '@/lib/query-client';
+
+/**
+ * Fetch the pending memory curation proposals for a project
+ *
+ * @param projectPath - Path to the project
+ * @returns Query result with proposals, when curation last ran and whether it is running
+ */
+export function useMemoryCuration(projectPath: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.memory.curation(projectPath ?? ''),
+    queryFn: async () => {
+      if (!projectPath) throw new Error('No project path');
+      const api = getElectronAPI();
+      const result = await api.memory?.listCurationProposals(projectPath);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to fetch memory curation proposals');
+      }
+      return {
+        proposals: result.proposals ?? [],
+        generatedAt: result.generatedAt,
+        isRunning: result.isRunning ?? false,
+      };
+    },
+    enabled: !!projectPath,
+    staleTime: STALE_TIMES.FEATURES,
+  });
+}
@@ -1,7 +1,7 @@
 /**
  * Spec Query Hooks
  *
- * React Query hooks for fetching spec file content and regeneration status.
+ * React Query hooks for fetching spec file content, regeneration status and coverage.
  */
 
 import { useQuery } from '@tanstack/react-query';
@@ -9,6 +9,7 @@ import { getElectronAPI } from '@/lib/electron';
 import { queryKeys } from '@/lib/query-keys';
 import { STALE_TIMES } from '@/lib/query-client';
 import { getGlobalEventsRecent } from '@/hooks/use-event-recency';
+import type { SpecCoverageReport } from '@automaker/types';
 
 interface SpecFileResult {
   content: string;
@@ -104,3 +105,34 @@ export function useSpecRegenerationStatus(projectPath: string | undefined, enabl
     refetchInterval: enabled ? () => (getGlobalEventsRecent() ? false : 5000) : false,
   });
 }
+
+/**
+ * Fetch the spec coverage report for a project
+ *
+ * Traces each spec item to its features and files, with drift (missing or
+ * heavily changed files, items nothing implements).
+ *
+ * @param projectPath - Path to the project
+ * @returns Query result with the coverage report
+ */
+export function useSpecCoverage(projectPath: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.spec.coverage(projectPath ?? ''),
+    queryFn: async (): Promise<SpecCoverageReport> => {
+      if (!projectPath) throw new Error('No project path');
+
+      const api = getElectronAPI();
+      if (!api.specRegeneration) {
+        throw new Error('Spec regeneration API not available');
+      }
+
+      const result = await api.specRegeneration.getCoverage(projectPath);
+      if (!result.success || !result.report) {
+        throw new Error(result.error || 'Failed to build spec coverage');
+      }
+      return result.report;
+    },
+    enabled: !!projectPath,
+    staleTime: STALE_TIMES.SETTINGS,
+  });
+}
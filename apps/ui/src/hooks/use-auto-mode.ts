@@ -349,6 +349,38 @@ export function useAutoMode(worktree?: WorktreeInfo) {
           }
           break;
 
+        case 'auto_mode_budget_exceeded':
+          // Agent was stopped by a budget limit (project budgets also emit auto_mode_stopped)
+          logger.info('Budget exceeded:', event.message);
+          if (event.featureId) {
+            addAutoModeActivity({
+              featureId: event.featureId,
+              type: 'error',
+              message: event.message,
+            });
+          }
+          break;
+
+        case 'auto_mode_retry':
+        case 'auto_mode_model_fallback':
+          // Agent hit a provider error and is being retried per the retry policy
+          logger.info('Retrying feature:', event.message);
+          addAutoModeActivity({
+            featureId: event.featureId,
+            type: 'progress',
+            message: event.message,
+          });
+          break;
+
+        case 'auto_mode_acceptance_judged':
+          logger.info('Acceptance criteria judged:', event.message);
+          addAutoModeActivity({
+            featureId: event.featureId,
+            type: event.passed ? 'progress' : 'error',
+            message: event.message,
+          });
+          break;
+
         case 'auto_mode_progress':
           // Log progress updates (throttle to avoid spam)
           if (event.featureId && event.content && event.content.length > 10) {
@@ -3,10 +3,35 @@
  */
 
 import { useEffect } from 'react';
+import { createLogger } from '@automaker/utils/logger';
 import { useNotificationsStore } from '@/store/notifications-store';
 import { getHttpApiClient } from '@/lib/http-api-client';
 import { pathsEqual } from '@/lib/utils';
-import type { Notification } from '@automaker/types';
+import type { DesktopNotificationPayload, Notification } from '@automaker/types';
+
+const logger = createLogger('DesktopNotifications');
+
+/**
+ * Show an OS notification - natively in Electron, otherwise through the
+ * browser Notification API (asking for permission the first time).
+ */
+async function showDesktopNotification({ title, body }: DesktopNotificationPayload) {
+  if (window.electronAPI?.showNotification) {
+    const result = await window.electronAPI.showNotification(title, body);
+    if (!result.success) {
+      logger.warn('Failed to show desktop notification:', result.error);
+    }
+    return;
+  }
+
+  if (typeof Notification === 'undefined') return;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  if (Notification.permission === 'granted') {
+    new Notification(title, { body });
+  }
+}
 
 /**
  * Hook to subscribe to notification events and update the store.
@@ -31,6 +56,21 @@ export function useNotificationEvents(projectPath: string | null) {
   }, [projectPath, addNotification]);
 }
 
+/**
+ * Hook to show notifications routed to desktop notification channels.
+ * Covers every project, so it should be mounted once in the app shell.
+ */
+export function useDesktopNotifications() {
+  useEffect(() => {
+    const api = getHttpApiClient();
+    return api.notifications.onDesktopNotification((payload) => {
+      showDesktopNotification(payload).catch((error) =>
+        logger.warn('Failed to show desktop notification:', error)
+      );
+    });
+  }, []);
+}
+
 /**
  * Hook to load notifications for a project.
  * Should be called when switching projects or on initial load.
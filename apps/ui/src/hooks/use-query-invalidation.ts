@@ -30,11 +30,24 @@ const PROGRESS_DEBOUNCE_MAX_WAIT = 2000;
 const FEATURE_LIST_INVALIDATION_EVENTS: AutoModeEvent['type'][] = [
   'auto_mode_feature_complete',
   'auto_mode_error',
+  'auto_mode_budget_exceeded',
   'plan_approval_required',
   'plan_approved',
   'plan_rejected',
   'pipeline_step_started',
   'pipeline_step_complete',
+  'pipeline_step_skipped',
+  'pipeline_stage_started',
+  'pipeline_stage_complete',
+  'checkpoint_restored',
+  'auto_mode_acceptance_judged',
+  'competition_started',
+  'competition_candidate_complete',
+  'competition_completed',
+  'competition_promoted',
+  'competition_discarded',
+  'review_comments_resolved',
+  'board_updated_externally',
 ];
 
 /**
@@ -192,6 +205,20 @@ export function useAutoModeQueryInvalidation(projectPath: string | undefined) {
         });
       }
 
+      // Refresh cost badges and project total when a feature reports usage
+      if (event.type === 'feature_usage_updated') {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.features.usage(currentProjectPath),
+        });
+      }
+
+      // Refresh the checkpoint timeline when a new checkpoint is taken
+      if (event.type === 'checkpoint_created') {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.features.checkpoints(currentProjectPath, event.featureId),
+        });
+      }
+
       // Invalidate agent output during progress updates (DEBOUNCED)
       // Uses per-feature debouncing to batch rapid progress events during streaming
       if (event.type === 'auto_mode_progress' && hasFeatureId(event)) {
@@ -87,6 +87,7 @@ const SETTINGS_FIELDS_TO_SYNC = [
   'defaultTerminalId',
   'promptCustomization',
   'eventHooks',
+  'notificationChannels',
   'claudeApiProfiles',
   'activeClaudeApiProfileId',
   'projects',
@@ -628,6 +629,9 @@ export async function refreshSettingsFromServer(): Promise<boolean> {
             serverSettings.phaseModels.imageDescriptionModel
           ),
           validationModel: migratePhaseModelEntry(serverSettings.phaseModels.validationModel),
+          acceptanceJudgeModel: migratePhaseModelEntry(
+            serverSettings.phaseModels.acceptanceJudgeModel
+          ),
           specGenerationModel: migratePhaseModelEntry(
             serverSettings.phaseModels.specGenerationModel
           ),
@@ -736,6 +740,7 @@ export async function refreshSettingsFromServer(): Promise<boolean> {
       recentFolders: serverSettings.recentFolders ?? [],
       // Event hooks
       eventHooks: serverSettings.eventHooks ?? [],
+      notificationChannels: serverSettings.notificationChannels ?? [],
       // Terminal settings (nested in terminalState)
       ...((serverSettings.terminalFontFamily || serverSettings.openTerminalMode) && {
         terminalState: {
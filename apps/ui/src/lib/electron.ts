@@ -27,12 +27,24 @@ import type {
   CreateIdeaInput,
   UpdateIdeaInput,
   ConvertToFeatureOptions,
+  ConvertIdeasResult,
   IdeationContextSources,
   Feature,
   IdeationStreamEvent,
   IdeationAnalysisEvent,
+  FeatureUsage,
+  ProjectUsageSummary,
+  FeaturePromptRecord,
+  FeaturePromptSummary,
+  FeatureCheckpoint,
+  CompetitionCandidate,
+  CompetitionContender,
+  ReviewComment,
+  IssueSourceInfo,
+  SpecCoverageReport,
+  FeatureSpecLink,
 } from '@automaker/types';
-import { DEFAULT_MAX_CONCURRENCY } from '@automaker/types';
+import { DEFAULT_MAX_CONCURRENCY, EMPTY_USAGE_TOTALS } from '@automaker/types';
 import { getJSON, setJSON, removeItem } from './storage';
 
 // Re-export issue validation types for use in components
@@ -108,6 +120,25 @@ export interface IdeationAPI {
     ideaId: string
   ) => Promise<{ success: boolean; error?: string }>;
 
+  // Voting and discussion
+  voteIdea: (
+    projectPath: string,
+    ideaId: string,
+    voter: string,
+    value: 1 | -1 | 0
+  ) => Promise<{ success: boolean; idea?: Idea; error?: string }>;
+  addIdeaComment: (
+    projectPath: string,
+    ideaId: string,
+    author: string,
+    body: string
+  ) => Promise<{ success: boolean; idea?: Idea; error?: string }>;
+  deleteIdeaComment: (
+    projectPath: string,
+    ideaId: string,
+    commentId: string
+  ) => Promise<{ success: boolean; idea?: Idea; error?: string }>;
+
   // Project analysis
   analyzeProject: (
     projectPath: string
@@ -129,6 +160,13 @@ export interface IdeationAPI {
     options?: ConvertToFeatureOptions
   ) => Promise<{ success: boolean; feature?: Feature; featureId?: string; error?: string }>;
 
+  // Convert several ideas at once, optionally inferring dependencies between them
+  convertIdeas: (
+    projectPath: string,
+    ideaIds: string[],
+    options?: ConvertToFeatureOptions
+  ) => Promise<{ success: boolean; error?: string } & Partial<ConvertIdeasResult>>;
+
   // Add suggestion directly to board as feature
   addSuggestionToBoard: (
     projectPath: string,
@@ -272,8 +310,12 @@ export interface LinkedPullRequest {
 
 export interface GitHubIssue {
   number: number;
+  /** Tracker key for non-GitHub issue sources, e.g. "ENG-42" */
+  key?: string;
   title: string;
   state: string;
+  /** Tracker status for non-GitHub issue sources, e.g. "In Review" */
+  status?: string;
   author: GitHubAuthor;
   createdAt: string;
   labels: GitHubLabel[];
@@ -342,7 +384,8 @@ export interface GitHubAPI {
     success: boolean;
     isRunning?: boolean;
     startedAt?: string;
-    runningIssues?: number[];
+    /** Issue numbers, and keys for issues of keyed trackers */
+    runningIssues?: Array<number | string>;
     error?: string;
   }>;
   /** Stop a running validation */
@@ -364,7 +407,8 @@ export interface GitHubAPI {
   /** Mark a validation as viewed by the user */
   markValidationViewed: (
     projectPath: string,
-    issueNumber: number
+    issueNumber: number,
+    issueKey?: string
   ) => Promise<{ success: boolean; error?: string }>;
   /** Subscribe to validation events */
   onValidationEvent: (callback: (event: IssueValidationEvent) => void) => () => void;
@@ -383,6 +427,57 @@ export interface GitHubAPI {
   }>;
 }
 
+/**
+ * Issues API - reads and writes issues through the project's issue source
+ * (GitHub or a configured REST tracker)
+ */
+export interface IssuesAPI {
+  getSource: (projectPath: string) => Promise<{
+    success: boolean;
+    source?: IssueSourceInfo;
+    error?: string;
+  }>;
+  list: (projectPath: string) => Promise<{
+    success: boolean;
+    source?: string;
+    openIssues?: GitHubIssue[];
+    closedIssues?: GitHubIssue[];
+    error?: string;
+  }>;
+  getComments: (
+    projectPath: string,
+    issueNumber: number,
+    issueKey?: string,
+    cursor?: string
+  ) => Promise<{
+    success: boolean;
+    comments?: GitHubComment[];
+    totalCount?: number;
+    hasNextPage?: boolean;
+    endCursor?: string;
+    error?: string;
+  }>;
+  addComment: (
+    projectPath: string,
+    issueNumber: number,
+    body: string,
+    issueKey?: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  transition: (
+    projectPath: string,
+    issueNumber: number,
+    state: string,
+    issueKey?: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  linkPullRequest: (
+    projectPath: string,
+    issueNumber: number,
+    prUrl: string,
+    prTitle?: string,
+    issueKey?: string
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
 // Spec Regeneration types
 export type SpecRegenerationEvent =
   | { type: 'spec_regeneration_progress'; content: string; projectPath: string }
@@ -429,6 +524,15 @@ export interface SpecRegenerationAPI {
     projectPath?: string;
     error?: string;
   }>;
+  getCoverage: (projectPath: string) => Promise<{
+    success: boolean;
+    report?: SpecCoverageReport;
+    error?: string;
+  }>;
+  createGapFeatures: (
+    projectPath: string,
+    items: FeatureSpecLink[]
+  ) => Promise<{ success: boolean; features?: Feature[]; error?: string }>;
   onEvent: (callback: (event: SpecRegenerationEvent) => void) => () => void;
 }
 
@@ -462,6 +566,22 @@ export interface FeaturesAPI {
     description: string,
     projectPath?: string
   ) => Promise<{ success: boolean; title?: string; error?: string }>;
+  getProjectUsage: (
+    projectPath: string
+  ) => Promise<{ success: boolean; summary?: ProjectUsageSummary; error?: string }>;
+  getFeatureUsage: (
+    projectPath: string,
+    featureId: string
+  ) => Promise<{ success: boolean; usage?: FeatureUsage | null; error?: string }>;
+  listPrompts: (
+    projectPath: string,
+    featureId: string
+  ) => Promise<{ success: boolean; prompts?: FeaturePromptSummary[]; error?: string }>;
+  getPrompt: (
+    projectPath: string,
+    featureId: string,
+    promptId: string
+  ) => Promise<{ success: boolean; prompt?: FeaturePromptRecord; error?: string }>;
 }
 
 export interface AutoModeAPI {
@@ -523,6 +643,41 @@ export interface AutoModeAPI {
     featureId: string,
     worktreePath?: string
   ) => Promise<{ success: boolean; error?: string }>;
+  listCheckpoints: (
+    projectPath: string,
+    featureId: string
+  ) => Promise<{ success: boolean; checkpoints?: FeatureCheckpoint[]; error?: string }>;
+  rollback: (
+    projectPath: string,
+    featureId: string,
+    checkpointId: string,
+    options?: { resume?: boolean; useWorktrees?: boolean }
+  ) => Promise<{
+    success: boolean;
+    checkpoint?: FeatureCheckpoint;
+    resumed?: boolean;
+    error?: string;
+  }>;
+  startCompetition: (
+    projectPath: string,
+    featureId: string,
+    contenders?: CompetitionContender[]
+  ) => Promise<{ success: boolean; error?: string }>;
+  promoteCompetition: (
+    projectPath: string,
+    featureId: string,
+    candidateId: string
+  ) => Promise<{ success: boolean; winner?: CompetitionCandidate; error?: string }>;
+  discardCompetition: (
+    projectPath: string,
+    featureId: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  submitReview: (
+    projectPath: string,
+    featureId: string,
+    comments: ReviewComment[],
+    useWorktrees?: boolean
+  ) => Promise<{ success: boolean; error?: string }>;
   approvePlan: (
     projectPath: string,
     featureId: string,
@@ -545,10 +700,13 @@ export interface SaveImageResult {
 // Notifications API interface
 import type {
   Notification,
+  NotificationChannel,
   StoredEvent,
   StoredEventSummary,
   EventHistoryFilter,
   EventReplayResult,
+  WebhookOutboxEntry,
+  MemoryCurationProposal,
 } from '@automaker/types';
 
 export interface NotificationsAPI {
@@ -580,6 +738,13 @@ export interface NotificationsAPI {
     count?: number;
     error?: string;
   }>;
+  testChannel: (
+    channel: NotificationChannel,
+    projectPath?: string
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+  }>;
 }
 
 // Event History API interface
@@ -622,6 +787,57 @@ export interface EventHistoryAPI {
     result?: EventReplayResult;
     error?: string;
   }>;
+  deliveries: (projectPath: string) => Promise<{
+    success: boolean;
+    deliveries?: WebhookOutboxEntry[];
+    error?: string;
+  }>;
+  redeliver: (deliveryId: string) => Promise<{
+    success: boolean;
+    delivery?: WebhookOutboxEntry;
+    error?: string;
+  }>;
+  discardDelivery: (deliveryId: string) => Promise<{
+    success: boolean;
+    error?: string;
+  }>;
+}
+
+// Memory API interface
+export interface MemoryAPI {
+  listCurationProposals: (projectPath: string) => Promise<{
+    success: boolean;
+    proposals?: MemoryCurationProposal[];
+    generatedAt?: string;
+    isRunning?: boolean;
+    error?: string;
+  }>;
+  runCuration: (
+    projectPath: string,
+    summarize?: boolean
+  ) => Promise<{
+    success: boolean;
+    proposals?: MemoryCurationProposal[];
+    generatedAt?: string;
+    error?: string;
+  }>;
+  applyCurationProposal: (
+    projectPath: string,
+    proposalId: string,
+    resolutionIndex?: number
+  ) => Promise<{
+    success: boolean;
+    proposals?: MemoryCurationProposal[];
+    error?: string;
+  }>;
+  dismissCurationProposal: (
+    projectPath: string,
+    proposalId: string
+  ) => Promise<{
+    success: boolean;
+    proposals?: MemoryCurationProposal[];
+    error?: string;
+  }>;
 }
 
 export interface ElectronAPI {
@@ -686,6 +902,7 @@ export interface ElectronAPI {
   features?: FeaturesAPI;
   runningAgents?: RunningAgentsAPI;
   github?: GitHubAPI;
+  issues?: IssuesAPI;
   enhancePrompt?: {
     enhance: (
       originalText: string,
@@ -696,6 +913,7 @@ export interface ElectronAPI {
     ) => Promise<{
       success: boolean;
       enhancedText?: string;
+      acceptanceCriteria?: string[];
       error?: string;
     }>;
   };
@@ -848,6 +1066,7 @@ export interface ElectronAPI {
   ideation?: IdeationAPI;
   notifications?: NotificationsAPI;
   eventHistory?: EventHistoryAPI;
+  memory?: MemoryAPI;
   codex?: {
     getUsage: () => Promise<CodexUsageResponse>;
     getModels: (refresh?: boolean) => Promise<{
@@ -1337,6 +1556,7 @@ const _getMockElectronAPI = (): ElectronAPI => {
 
     // Mock GitHub API
     github: createMockGitHubAPI(),
+    issues: createMockIssuesAPI(),
 
     // Mock Claude API
     claude: {
@@ -2455,6 +2675,16 @@ function createMockWorktreeAPI(): WorktreeAPI {
       };
     },
 
+    getPRReviewThreads: async (projectPath: string, branchName: string) => {
+      console.log('[Mock] Getting PR review threads:', { projectPath, branchName });
+      return { success: true, result: { pr: null, threads: [] } };
+    },
+
+    addressPRReview: async (projectPath: string, featureId: string, threadIds: string[]) => {
+      console.log('[Mock] Addressing PR review:', { projectPath, featureId, threadIds });
+      return { success: true };
+    },
+
     getInitScript: async (projectPath: string) => {
       console.log('[Mock] Getting init script:', { projectPath });
       return {
@@ -2893,6 +3123,32 @@ function createMockAutoModeAPI(): AutoModeAPI {
       return { success: true };
     },
 
+    listCheckpoints: async (_projectPath: string, _featureId: string) => {
+      // Checkpoints are git snapshots taken by the server; none exist in mock mode
+      return { success: true, checkpoints: [] };
+    },
+
+    rollback: async (_projectPath: string, _featureId: string, checkpointId: string) => {
+      return { success: false, error: `Checkpoint ${checkpointId} not found` };
+    },
+
+    startCompetition: async () => {
+      // Competitions need git worktrees on the server
+      return { success: false, error: 'Competition mode is not available in mock mode' };
+    },
+
+    promoteCompetition: async (_projectPath: string, _featureId: string, candidateId: string) => {
+      return { success: false, error: `Candidate ${candidateId} not found` };
+    },
+
+    discardCompetition: async () => {
+      return { success: true };
+    },
+
+    submitReview: async () => {
+      return { success: true };
+    },
+
     approvePlan: async (
       projectPath: string,
       featureId: string,
@@ -3166,6 +3422,15 @@ function createMockSpecRegenerationAPI(): SpecRegenerationAPI {
       };
     },
 
+    getCoverage: async (_projectPath: string) => {
+      const now = new Date().toISOString();
+      return { success: true, report: { generatedAt: now, specUpdatedAt: now, items: [] } };
+    },
+
+    createGapFeatures: async (_projectPath: string, _items: FeatureSpecLink[]) => {
+      return { success: true, features: [] };
+    },
+
     onEvent: (callback: (event: SpecRegenerationEvent) => void) => {
       mockSpecRegenerationCallbacks.push(callback);
       return () => {
@@ -3501,6 +3766,25 @@ function createMockFeaturesAPI(): FeaturesAPI {
       const title = words.length > 40 ? words.substring(0, 40) + '...' : words;
       return { success: true, title: `Add ${title}` };
     },
+
+    getProjectUsage: async (projectPath: string) => {
+      console.log('[Mock] Getting project usage:', projectPath);
+      return { success: true, summary: { totals: { ...EMPTY_USAGE_TOTALS }, features: {} } };
+    },
+
+    getFeatureUsage: async (projectPath: string, featureId: string) => {
+      console.log('[Mock] Getting feature usage:', { projectPath, featureId });
+      return { success: true, usage: null };
+    },
+
+    listPrompts: async (projectPath: string, featureId: string) => {
+      console.log('[Mock] Listing prompts:', { projectPath, featureId });
+      return { success: true, prompts: [] };
+    },
+
+    getPrompt: async (_projectPath: string, _featureId: string, promptId: string) => {
+      return { success: false, error: `Prompt ${promptId} not found` };
+    },
   };
 }
 
@@ -3530,6 +3814,44 @@ function createMockRunningAgentsAPI(): RunningAgentsAPI {
 // Mock GitHub API implementation
 let mockValidationCallbacks: ((event: IssueValidationEvent) => void)[] = [];
 
+function createMockIssuesAPI(): IssuesAPI {
+  return {
+    getSource: async (projectPath: string) => {
+      console.log('[Mock] Getting issue source for:', projectPath);
+      return {
+        success: true,
+        source: {
+          type: 'github',
+          name: 'GitHub',
+          available: false,
+          reason: 'Project does not have a GitHub remote',
+          supportsComments: true,
+        },
+      };
+    },
+    list: async (projectPath: string) => {
+      console.log('[Mock] Listing issues for:', projectPath);
+      return { success: true, source: 'github', openIssues: [], closedIssues: [] };
+    },
+    getComments: async (projectPath: string, issueNumber: number) => {
+      console.log('[Mock] Getting comments for issue:', { projectPath, issueNumber });
+      return { success: true, comments: [], totalCount: 0, hasNextPage: false };
+    },
+    addComment: async (projectPath: string, issueNumber: number) => {
+      console.log('[Mock] Commenting on issue:', { projectPath, issueNumber });
+      return { success: true };
+    },
+    transition: async (projectPath: string, issueNumber: number, state: string) => {
+      console.log('[Mock] Transitioning issue:', { projectPath, issueNumber, state });
+      return { success: true };
+    },
+    linkPullRequest: async (projectPath: string, issueNumber: number, prUrl: string) => {
+      console.log('[Mock] Linking pull request:', { projectPath, issueNumber, prUrl });
+      return { success: true };
+    },
+  };
+}
+
 function createMockGitHubAPI(): GitHubAPI {
   return {
     checkRemote: async (projectPath: string) => {
@@ -3579,6 +3901,7 @@ function createMockGitHubAPI(): GitHubAPI {
           cb({
             type: 'issue_validation_start',
             issueNumber: issue.issueNumber,
+            issueKey: issue.issueKey,
             issueTitle: issue.issueTitle,
             projectPath,
           })
@@ -3589,6 +3912,7 @@ function createMockGitHubAPI(): GitHubAPI {
             cb({
               type: 'issue_validation_complete',
               issueNumber: issue.issueNumber,
+              issueKey: issue.issueKey,
               issueTitle: issue.issueTitle,
               result: {
                 verdict: 'valid' as const,
@@ -3633,8 +3957,8 @@ function createMockGitHubAPI(): GitHubAPI {
         validations: [],
       };
     },
-    markValidationViewed: async (projectPath: string, issueNumber: number) => {
-      console.log('[Mock] Marking validation as viewed:', { projectPath, issueNumber });
+    markValidationViewed: async (projectPath: string, issueNumber: number, issueKey?: string) => {
+      console.log('[Mock] Marking validation as viewed:', { projectPath, issueNumber, issueKey });
       return {
         success: true,
       };
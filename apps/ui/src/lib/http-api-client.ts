@@ -20,6 +20,7 @@ import type {
   AutoModeEvent,
   SpecRegenerationEvent,
   GitHubAPI,
+  IssuesAPI,
   IssueValidationInput,
   IssueValidationEvent,
   IdeationAPI,
@@ -31,6 +32,7 @@ import type {
   ConvertToFeatureOptions,
   NotificationsAPI,
   EventHistoryAPI,
+  MemoryAPI,
   CreatePROptions,
 } from './electron';
 import type {
@@ -39,6 +41,11 @@ import type {
   IdeationStreamEvent,
   IdeationAnalysisEvent,
   Notification,
+  NotificationChannel,
+  DesktopNotificationPayload,
+  CompetitionContender,
+  ReviewComment,
+  FeatureSpecLink,
 } from '@automaker/types';
 import type { Message, SessionListItem } from '@/types/electron';
 import type { ClaudeUsageResponse, CodexUsageResponse } from '@/store/app-store';
@@ -566,7 +573,8 @@ type EventType =
   | 'test-runner:started'
   | 'test-runner:output'
   | 'test-runner:completed'
-  | 'notification:created';
+  | 'notification:created'
+  | 'notification:desktop';
 
 /**
  * Dev server log event payloads for WebSocket streaming
@@ -675,6 +683,7 @@ type EventCallback = (payload: unknown) => void;
 interface EnhancePromptResult {
   success: boolean;
   enhancedText?: string;
+  acceptanceCriteria?: string[];
   error?: string;
 }
 
@@ -1846,6 +1855,13 @@ export class HttpApiClient implements ElectronAPI {
       this.post('/api/features/agent-output', { projectPath, featureId }),
     generateTitle: (description: string, projectPath?: string) =>
       this.post('/api/features/generate-title', { description, projectPath }),
+    getProjectUsage: (projectPath: string) => this.post('/api/features/usage', { projectPath }),
+    getFeatureUsage: (projectPath: string, featureId: string) =>
+      this.post('/api/features/usage', { projectPath, featureId }),
+    listPrompts: (projectPath: string, featureId: string) =>
+      this.post('/api/features/prompts', { projectPath, featureId }),
+    getPrompt: (projectPath: string, featureId: string, promptId: string) =>
+      this.post('/api/features/prompts', { projectPath, featureId, promptId }),
     bulkUpdate: (projectPath: string, featureIds: string[], updates: Partial<Feature>) =>
       this.post('/api/features/bulk-update', { projectPath, featureIds, updates }),
     bulkDelete: (projectPath: string, featureIds: string[]) =>
@@ -1963,6 +1979,41 @@ export class HttpApiClient implements ElectronAPI {
         featureId,
         worktreePath,
       }),
+    listCheckpoints: (projectPath: string, featureId: string) =>
+      this.post('/api/auto-mode/checkpoints', { projectPath, featureId }),
+    rollback: (
+      projectPath: string,
+      featureId: string,
+      checkpointId: string,
+      options?: { resume?: boolean; useWorktrees?: boolean }
+    ) =>
+      this.post('/api/auto-mode/rollback', {
+        projectPath,
+        featureId,
+        checkpointId,
+        ...options,
+      }),
+    startCompetition: (
+      projectPath: string,
+      featureId: string,
+      contenders?: CompetitionContender[]
+    ) => this.post('/api/auto-mode/start-competition', { projectPath, featureId, contenders }),
+    promoteCompetition: (projectPath: string, featureId: string, candidateId: string) =>
+      this.post('/api/auto-mode/promote-competition', { projectPath, featureId, candidateId }),
+    discardCompetition: (projectPath: string, featureId: string) =>
+      this.post('/api/auto-mode/discard-competition', { projectPath, featureId }),
+    submitReview: (
+      projectPath: string,
+      featureId: string,
+      comments: ReviewComment[],
+      useWorktrees?: boolean
+    ) =>
+      this.post('/api/auto-mode/submit-review', {
+        projectPath,
+        featureId,
+        comments,
+        useWorktrees,
+      }),
     approvePlan: (
       projectPath: string,
       featureId: string,
@@ -2099,6 +2150,20 @@ export class HttpApiClient implements ElectronAPI {
     },
     getPRInfo: (worktreePath: string, branchName: string) =>
       this.post('/api/worktree/pr-info', { worktreePath, branchName }),
+    getPRReviewThreads: (projectPath: string, branchName: string) =>
+      this.post('/api/worktree/pr-review-threads', { projectPath, branchName }),
+    addressPRReview: (
+      projectPath: string,
+      featureId: string,
+      threadIds: string[],
+      useWorktrees?: boolean
+    ) =>
+      this.post('/api/worktree/address-pr-review', {
+        projectPath,
+        featureId,
+        threadIds,
+        useWorktrees,
+      }),
     // Init script methods
     getInitScript: (projectPath: string) =>
       this.get(`/api/worktree/init-script?projectPath=${encodeURIComponent(projectPath)}`),
@@ -2210,6 +2275,10 @@ export class HttpApiClient implements ElectronAPI {
           ? `/api/spec-regeneration/status?projectPath=${encodeURIComponent(projectPath)}`
           : '/api/spec-regeneration/status'
       ),
+    getCoverage: (projectPath: string) =>
+      this.post('/api/spec-regeneration/coverage', { projectPath }),
+    createGapFeatures: (projectPath: string, items: FeatureSpecLink[]) =>
+      this.post('/api/spec-regeneration/coverage/create-features', { projectPath, items }),
     onEvent: (callback: (event: SpecRegenerationEvent) => void) => {
       return this.subscribeToEvent('spec-regeneration:event', callback as EventCallback);
     },
@@ -2255,14 +2324,40 @@ export class HttpApiClient implements ElectronAPI {
       this.post('/api/github/validation-stop', { projectPath, issueNumber }),
     getValidations: (projectPath: string, issueNumber?: number) =>
       this.post('/api/github/validations', { projectPath, issueNumber }),
-    markValidationViewed: (projectPath: string, issueNumber: number) =>
-      this.post('/api/github/validation-mark-viewed', { projectPath, issueNumber }),
+    markValidationViewed: (projectPath: string, issueNumber: number, issueKey?: string) =>
+      this.post('/api/github/validation-mark-viewed', { projectPath, issueNumber, issueKey }),
     onValidationEvent: (callback: (event: IssueValidationEvent) => void) =>
       this.subscribeToEvent('issue-validation:event', callback as EventCallback),
     getIssueComments: (projectPath: string, issueNumber: number, cursor?: string) =>
       this.post('/api/github/issue-comments', { projectPath, issueNumber, cursor }),
   };
 
+  // Issues API
+  issues: IssuesAPI = {
+    getSource: (projectPath: string) => this.post('/api/issues/source', { projectPath }),
+    list: (projectPath: string) => this.post('/api/issues/list', { projectPath }),
+    getComments: (projectPath: string, issueNumber: number, issueKey?: string, cursor?: string) =>
+      this.post('/api/issues/comments', { projectPath, issueNumber, issueKey, cursor }),
+    addComment: (projectPath: string, issueNumber: number, body: string, issueKey?: string) =>
+      this.post('/api/issues/add-comment', { projectPath, issueNumber, issueKey, body }),
+    transition: (projectPath: string, issueNumber: number, state: string, issueKey?: string) =>
+      this.post('/api/issues/transition', { projectPath, issueNumber, issueKey, state }),
+    linkPullRequest: (
+      projectPath: string,
+      issueNumber: number,
+      prUrl: string,
+      prTitle?: string,
+      issueKey?: string
+    ) =>
+      this.post('/api/issues/link-pr', {
+        projectPath,
+        issueNumber,
+        issueKey,
+        url: prUrl,
+        title: prTitle,
+      }),
+  };
+
   // Workspace API
   workspace = {
     getConfig: (): Promise<{
@@ -2742,6 +2837,15 @@ export class HttpApiClient implements ElectronAPI {
     deleteIdea: (projectPath: string, ideaId: string) =>
       this.post('/api/ideation/ideas/delete', { projectPath, ideaId }),
 
+    voteIdea: (projectPath: string, ideaId: string, voter: string, value: 1 | -1 | 0) =>
+      this.post('/api/ideation/ideas/vote', { projectPath, ideaId, voter, value }),
+
+    addIdeaComment: (projectPath: string, ideaId: string, author: string, body: string) =>
+      this.post('/api/ideation/ideas/comment', { projectPath, ideaId, author, body }),
+
+    deleteIdeaComment: (projectPath: string, ideaId: string, commentId: string) =>
+      this.post('/api/ideation/ideas/comment/delete', { projectPath, ideaId, commentId }),
+
     analyzeProject: (projectPath: string) => this.post('/api/ideation/analyze', { projectPath }),
 
     generateSuggestions: (
@@ -2762,6 +2866,9 @@ export class HttpApiClient implements ElectronAPI {
     convertToFeature: (projectPath: string, ideaId: string, options?: ConvertToFeatureOptions) =>
       this.post('/api/ideation/convert', { projectPath, ideaId, ...options }),
 
+    convertIdeas: (projectPath: string, ideaIds: string[], options?: ConvertToFeatureOptions) =>
+      this.post('/api/ideation/convert', { projectPath, ideaIds, ...options }),
+
     addSuggestionToBoard: (
       projectPath: string,
       suggestion: AnalysisSuggestion
@@ -2782,6 +2889,7 @@ export class HttpApiClient implements ElectronAPI {
   // Notifications API - project-level notifications
   notifications: NotificationsAPI & {
     onNotificationCreated: (callback: (notification: Notification) => void) => () => void;
+    onDesktopNotification: (callback: (payload: DesktopNotificationPayload) => void) => () => void;
   } = {
     list: (projectPath: string) => this.post('/api/notifications/list', { projectPath }),
 
@@ -2794,9 +2902,18 @@ export class HttpApiClient implements ElectronAPI {
     dismiss: (projectPath: string, notificationId?: string) =>
       this.post('/api/notifications/dismiss', { projectPath, notificationId }),
 
+    testChannel: (channel: NotificationChannel, projectPath?: string) =>
+      this.post('/api/notifications/test-channel', { channel, projectPath }),
+
     onNotificationCreated: (callback: (notification: Notification) => void): (() => void) => {
       return this.subscribeToEvent('notification:created', callback as EventCallback);
     },
+
+    onDesktopNotification: (
+      callback: (payload: DesktopNotificationPayload) => void
+    ): (() => void) => {
+      return this.subscribeToEvent('notification:desktop', callback as EventCallback);
+    },
   };
 
   // Event History API - stored events for debugging and replay
@@ -2814,6 +2931,29 @@ export class HttpApiClient implements ElectronAPI {
 
     replay: (projectPath: string, eventId: string, hookIds?: string[]) =>
       this.post('/api/event-history/replay', { projectPath, eventId, hookIds }),
+
+    deliveries: (projectPath: string) =>
+      this.post('/api/event-history/deliveries', { projectPath }),
+
+    redeliver: (deliveryId: string) => this.post('/api/event-history/redeliver', { deliveryId }),
+
+    discardDelivery: (deliveryId: string) =>
+      this.post('/api/event-history/discard-delivery', { deliveryId }),
+  };
+
+  // Memory API - curation proposals for memory files
+  memory: MemoryAPI = {
+    listCurationProposals: (projectPath: string) =>
+      this.post('/api/memory/curation/list', { projectPath }),
+
+    runCuration: (projectPath: string, summarize?: boolean) =>
+      this.post('/api/memory/curation/run', { projectPath, summarize }),
+
+    applyCurationProposal: (projectPath: string, proposalId: string, resolutionIndex?: number) =>
+      this.post('/api/memory/curation/apply', { projectPath, proposalId, resolutionIndex }),
+
+    dismissCurationProposal: (projectPath: string, proposalId: string) =>
+      this.post('/api/memory/curation/dismiss', { projectPath, proposalId }),
   };
 
   // MCP API - Test MCP server connections and list tools
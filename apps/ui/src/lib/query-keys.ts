@@ -28,6 +28,17 @@ export const queryKeys = {
     /** Agent output for a feature */
     agentOutput: (projectPath: string, featureId: string) =>
       ['features', projectPath, featureId, 'output'] as const,
+    /** Token usage and cost for every feature in a project */
+    usage: (projectPath: string) => ['features', projectPath, 'usage'] as const,
+    /** Git checkpoints taken while working on a feature */
+    checkpoints: (projectPath: string, featureId: string) =>
+      ['features', projectPath, featureId, 'checkpoints'] as const,
+    /** Prompts recorded for a feature's agent runs */
+    prompts: (projectPath: string, featureId: string) =>
+      ['features', projectPath, featureId, 'prompts'] as const,
+    /** A single recorded prompt, with its text */
+    prompt: (projectPath: string, featureId: string, promptId: string) =>
+      ['features', projectPath, featureId, 'prompts', promptId] as const,
   },
 
   // ============================================
@@ -68,10 +79,12 @@ export const queryKeys = {
     validation: (projectPath: string, issueNumber: number) =>
       ['github', 'validations', projectPath, issueNumber] as const,
     /** Issue comments */
-    issueComments: (projectPath: string, issueNumber: number) =>
-      ['github', 'issues', projectPath, issueNumber, 'comments'] as const,
+    issueComments: (projectPath: string, issueId: number | string) =>
+      ['github', 'issues', projectPath, issueId, 'comments'] as const,
     /** Remote info */
     remote: (projectPath: string) => ['github', 'remote', projectPath] as const,
+    /** Issue source (GitHub or a REST tracker) */
+    issueSource: (projectPath: string) => ['github', 'issue-source', projectPath] as const,
   },
 
   // ============================================
@@ -244,6 +257,8 @@ export const queryKeys = {
   spec: {
     /** Spec file content */
     file: (projectPath: string) => ['spec', 'file', projectPath] as const,
+    /** Spec coverage and drift report */
+    coverage: (projectPath: string) => ['spec', 'coverage', projectPath] as const,
   },
 
   // ============================================
@@ -256,6 +271,14 @@ export const queryKeys = {
     image: (imagePath: string) => ['context', 'image', imagePath] as const,
   },
 
+  // ============================================
+  // Memory
+  // ============================================
+  memory: {
+    /** Pending curation proposals for a project */
+    curation: (projectPath: string) => ['memory', 'curation', projectPath] as const,
+  },
+
   // ============================================
   // File System
   // ============================================
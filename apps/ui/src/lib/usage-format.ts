@@ -0,0 +1,31 @@
+/**
+ * Formatting helpers for token usage and cost display
+ */
+
+const COST_PRECISION_THRESHOLD = 1;
+const THOUSAND = 1_000;
+const MILLION = 1_000_000;
+
+/**
+ * Format a USD cost for compact display (e.g. "$0.042", "$1.25")
+ */
+export function formatCostUsd(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.001) {
+    return '<$0.001';
+  }
+  const digits = costUsd < COST_PRECISION_THRESHOLD ? 3 : 2;
+  return `$${costUsd.toFixed(digits)}`;
+}
+
+/**
+ * Format a token count for compact display (e.g. "950", "12.3k", "1.2M")
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= MILLION) {
+    return `${(tokens / MILLION).toFixed(1)}M`;
+  }
+  if (tokens >= THOUSAND) {
+    return `${(tokens / THOUSAND).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
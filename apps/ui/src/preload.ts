@@ -59,6 +59,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
   updateMinWidth: (sidebarExpanded: boolean): Promise<void> =>
     ipcRenderer.invoke(IPC_CHANNELS.WINDOW.UPDATE_MIN_WIDTH, sidebarExpanded),
 
+  // Native OS notifications
+  showNotification: (title: string, body: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.NOTIFICATION.SHOW, title, body),
+
   // App control
   quit: (): Promise<void> => ipcRenderer.invoke(IPC_CHANNELS.APP.QUIT),
 });
@@ -295,6 +295,7 @@ const initialState: AppState = {
   subagentsSources: ['user', 'project'] as Array<'user' | 'project'>,
   promptCustomization: {},
   eventHooks: [],
+  notificationChannels: [],
   claudeCompatibleProviders: [],
   claudeApiProfiles: [],
   activeClaudeApiProfileId: null,
@@ -1320,6 +1321,9 @@ export const useAppStore = create<AppState & AppActions>()((set, get) => ({
   // Event Hook actions
   setEventHooks: (hooks) => set({ eventHooks: hooks }),
 
+  // Notification Channel actions
+  setNotificationChannels: (channels) => set({ notificationChannels: channels }),
+
   // Claude-Compatible Provider actions (new system)
   addClaudeCompatibleProvider: async (provider) => {
     set((state) => ({
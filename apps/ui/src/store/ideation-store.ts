@@ -36,7 +36,7 @@ export interface GenerationJob {
 // State Interface
 // ============================================================================
 
-export type IdeationMode = 'dashboard' | 'prompts';
+export type IdeationMode = 'dashboard' | 'prompts' | 'roadmap';
 
 interface IdeationState {
   // Ideas (saved for later)
@@ -66,6 +66,9 @@ interface IdeationState {
 
   // Context sources per project
   contextSourcesByProject: Record<string, Partial<IdeationContextSources>>;
+
+  // Name used for votes and comments on ideas
+  voterName: string;
 }
 
 // ============================================================================
@@ -114,6 +117,7 @@ interface IdeationActions {
   setMode: (mode: IdeationMode) => void;
   setCategory: (category: IdeaCategory | null) => void;
   setFilterStatus: (status: IdeaStatus | 'all') => void;
+  setVoterName: (name: string) => void;
 
   // Context sources
   /**
@@ -156,6 +160,7 @@ const initialState: IdeationState = {
   selectedCategory: null,
   filterStatus: 'all',
   contextSourcesByProject: {},
+  voterName: '',
 };
 
 // ============================================================================
@@ -321,6 +326,8 @@ export const useIdeationStore = create<IdeationState & IdeationActions>()(
 
       setFilterStatus: (status) => set({ filterStatus: status }),
 
+      setVoterName: (name) => set({ voterName: name }),
+
       // Context sources
       getContextSources: (projectPath) => {
         const state = get();
@@ -360,6 +367,7 @@ export const useIdeationStore = create<IdeationState & IdeationActions>()(
         analysisResult: state.analysisResult,
         filterStatus: state.filterStatus,
         contextSourcesByProject: state.contextSourcesByProject,
+        voterName: state.voterName,
       }),
       migrate: (persistedState: unknown, version: number) => {
         const state = persistedState as Record<string, unknown>;
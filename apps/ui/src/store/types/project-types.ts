@@ -6,6 +6,11 @@ import type {
   ReasoningEffort,
   FeatureStatusWithPipeline,
   PlanSpec,
+  AcceptanceCriterion,
+  AcceptanceJudgement,
+  CompetitionContender,
+  FeatureCompetition,
+  ReviewComment,
 } from '@automaker/types';
 import type { FeatureImage } from './chat-types';
 
@@ -41,6 +46,12 @@ export interface Feature extends Omit<
   planSpec?: PlanSpec; // Explicit planSpec type to override BaseFeature's index signature
   dependencies?: string[]; // Explicit type to override BaseFeature's index signature
   model?: string; // Explicit type to override BaseFeature's index signature
+  completedModel?: string; // Explicit type to override BaseFeature's index signature
+  acceptanceCriteria?: AcceptanceCriterion[]; // Explicit type to override BaseFeature's index signature
+  acceptanceJudgement?: AcceptanceJudgement; // Explicit type to override BaseFeature's index signature
+  contenders?: CompetitionContender[]; // Explicit type to override BaseFeature's index signature
+  competition?: FeatureCompetition; // Explicit type to override BaseFeature's index signature
+  reviewComments?: ReviewComment[]; // Explicit type to override BaseFeature's index signature
   branchName?: string; // Explicit type to override BaseFeature's index signature
   thinkingLevel?: ThinkingLevel; // Explicit type to override BaseFeature's index signature
   reasoningEffort?: ReasoningEffort; // Explicit type to override BaseFeature's index signature
@@ -20,6 +20,7 @@ import type {
   ModelDefinition,
   ServerLogLevel,
   EventHook,
+  NotificationChannel,
   ClaudeApiProfile,
   ClaudeCompatibleProvider,
   SidebarStyle,
@@ -247,6 +248,9 @@ export interface AppState {
   // Event Hooks
   eventHooks: EventHook[]; // Event hooks for custom commands or webhooks
 
+  // Notification Channels
+  notificationChannels: NotificationChannel[]; // Desktop, email and chat webhook delivery
+
   // Claude-Compatible Providers (new system)
   claudeCompatibleProviders: ClaudeCompatibleProvider[]; // Providers that expose models to dropdowns
 
@@ -598,6 +602,9 @@ export interface AppActions {
   // Event Hook actions
   setEventHooks: (hooks: EventHook[]) => void;
 
+  // Notification Channel actions
+  setNotificationChannels: (channels: NotificationChannel[]) => void;
+
   // Claude-Compatible Provider actions (new system)
   addClaudeCompatibleProvider: (provider: ClaudeCompatibleProvider) => Promise<void>;
   updateClaudeCompatibleProvider: (
@@ -3,7 +3,16 @@
  */
 
 import type { ClaudeUsageResponse, CodexUsageResponse } from '@/store/app-store';
-import type { ParsedTask } from '@automaker/types';
+import type {
+  BudgetLimitKind,
+  BudgetScope,
+  CompetitionCandidate,
+  FeatureCheckpoint,
+  ParsedTask,
+  PipelineStepVerdict,
+  PRReviewThread,
+  UsageTotals,
+} from '@automaker/types';
 
 export interface ImageAttachment {
   id?: string; // Optional - may not be present in messages loaded from server
@@ -225,6 +234,8 @@ export type AutoModeEvent =
       stepName: string;
       stepIndex: number;
       totalSteps: number;
+      stageName?: string;
+      attempt?: number;
     }
   | {
       type: 'pipeline_step_complete';
@@ -235,6 +246,140 @@ export type AutoModeEvent =
       stepName: string;
       stepIndex: number;
       totalSteps: number;
+      stageName?: string;
+      verdict?: PipelineStepVerdict;
+      attempts?: number;
+    }
+  | {
+      type: 'pipeline_stage_started';
+      featureId: string;
+      projectPath?: string;
+      stageId: string;
+      stageName: string;
+      stageIndex: number;
+      totalStages: number;
+      stepIds: string[];
+    }
+  | {
+      type: 'pipeline_stage_complete';
+      featureId: string;
+      projectPath?: string;
+      stageId: string;
+      stageName: string;
+      stageIndex: number;
+      totalStages: number;
+      passed: boolean;
+    }
+  | {
+      type: 'pipeline_step_skipped';
+      featureId: string;
+      projectPath?: string;
+      stepId: string;
+      stepName: string;
+      stepIndex: number;
+      totalSteps: number;
+      reason?: string;
+    }
+  | {
+      type: 'checkpoint_created';
+      featureId: string;
+      projectPath?: string;
+      checkpoint: FeatureCheckpoint;
+    }
+  | {
+      type: 'checkpoint_restored';
+      featureId: string;
+      projectPath?: string;
+      checkpointId: string;
+      checkpointLabel: string;
+      resumed: boolean;
+    }
+  | {
+      type: 'feature_usage_updated';
+      featureId: string;
+      projectPath?: string;
+      usage: UsageTotals;
+    }
+  | {
+      type: 'auto_mode_budget_exceeded';
+      message: string;
+      scope: BudgetScope;
+      limit: BudgetLimitKind;
+      limitValue: number;
+      actual: number;
+      featureId?: string;
+      featureName?: string;
+      projectPath?: string;
+      branchName?: string | null;
+    }
+  | {
+      type: 'auto_mode_retry';
+      featureId: string;
+      projectPath?: string;
+      branchName?: string | null;
+      model: string;
+      retry: number;
+      maxRetries: number;
+      delayMs: number;
+      errorType: string;
+      message: string;
+    }
+  | {
+      type: 'auto_mode_model_fallback';
+      featureId: string;
+      projectPath?: string;
+      branchName?: string | null;
+      fromModel: string;
+      toModel: string;
+      errorType: string;
+      message: string;
+    }
+  | {
+      type: 'auto_mode_acceptance_judged';
+      featureId: string;
+      featureName?: string;
+      projectPath?: string;
+      branchName?: string | null;
+      passed: boolean;
+      passedCount: number;
+      totalCount: number;
+      message: string;
+    }
+  | {
+      type: 'competition_started' | 'competition_completed';
+      featureId: string;
+      projectPath?: string;
+      candidates: CompetitionCandidate[];
+    }
+  | {
+      type: 'competition_candidate_complete';
+      featureId: string;
+      projectPath?: string;
+      candidate: CompetitionCandidate;
+    }
+  | {
+      type: 'competition_promoted';
+      featureId: string;
+      projectPath?: string;
+      candidateId: string;
+      branchName: string;
+    }
+  | {
+      type: 'competition_discarded';
+      featureId: string;
+      projectPath?: string;
+    }
+  | {
+      type: 'board_updated_externally';
+      featureId: string;
+      projectPath?: string;
+    }
+  | {
+      type: 'review_comments_resolved';
+      featureId: string;
+      projectPath?: string;
+      resolved: number;
+      unresolved: number;
     }
   | {
       type: 'auto_mode_error';
@@ -546,6 +691,27 @@ export interface AutoModeAPI {
     error?: string;
   }>;
 
+  listCheckpoints: (
+    projectPath: string,
+    featureId: string
+  ) => Promise<{
+    success: boolean;
+    checkpoints?: FeatureCheckpoint[];
+    error?: string;
+  }>;
+
+  rollback: (
+    projectPath: string,
+    featureId: string,
+    checkpointId: string,
+    options?: { resume?: boolean; useWorktrees?: boolean }
+  ) => Promise<{
+    success: boolean;
+    checkpoint?: FeatureCheckpoint;
+    resumed?: boolean;
+    error?: string;
+  }>;
+
   approvePlan: (
     projectPath: string,
     featureId: string,
@@ -1244,6 +1410,27 @@ export interface WorktreeAPI {
     error?: string;
   }>;
 
+  // Get the review threads of a branch's pull request
+  getPRReviewThreads: (
+    projectPath: string,
+    branchName: string
+  ) => Promise<{
+    success: boolean;
+    result?: {
+      pr: { number: number; title: string; url: string; repo: string } | null;
+      threads: PRReviewThread[];
+    };
+    error?: string;
+  }>;
+
+  // Send selected PR review threads to a feature as a follow-up
+  addressPRReview: (
+    projectPath: string,
+    featureId: string,
+    threadIds: string[],
+    useWorktrees?: boolean
+  ) => Promise<{ success: boolean; error?: string }>;
+
   // Get init script content for a project
   getInitScript: (projectPath: string) => Promise<{
     success: boolean;
@@ -1457,6 +1644,8 @@ export interface ExtendedElectronAPI extends ElectronAPI {
   isExternalServerMode?: () => Promise<boolean>;
   /** Get system paths (Electron-only) */
   getPath?: (name: 'documents' | 'home' | 'appData' | 'userData') => Promise<string>;
+  /** Show a native OS notification (Electron-only) */
+  showNotification?: (title: string, body: string) => Promise<{ success: boolean; error?: string }>;
 }
 
 declare global {
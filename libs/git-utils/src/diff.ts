@@ -244,9 +244,13 @@ export async function generateDiffsForNonGitDirectory(
 /**
  * Get git repository diffs for a given path
  * Handles both git repos and non-git directories
+ *
+ * @param repoPath - Path to the repository
+ * @param base - Commit to diff the working tree against (default: HEAD)
  */
 export async function getGitRepositoryDiffs(
-  repoPath: string
+  repoPath: string,
+  base = 'HEAD'
 ): Promise<{ diff: string; files: FileStatus[]; hasChanges: boolean }> {
   // Check if it's a git repository
   const isRepo = await isGitRepo(repoPath);
@@ -262,7 +266,7 @@ export async function getGitRepositoryDiffs(
   }
 
   // Get git diff and status
-  const { stdout: diff } = await execAsync('git diff HEAD', {
+  const { stdout: diff } = await execAsync(`git diff ${base}`, {
     cwd: repoPath,
     maxBuffer: 10 * 1024 * 1024,
   });
@@ -126,27 +126,29 @@ export function getValidationsDir(projectPath: string): string {
 /**
  * Get the directory for a specific issue validation
  *
- * Contains validation result and metadata for a GitHub issue.
+ * Contains validation result and metadata for an issue. Keys are
+ * URI-encoded so they cannot point outside the validations directory.
  *
  * @param projectPath - Absolute path to project directory
- * @param issueNumber - GitHub issue number
- * @returns Absolute path to {projectPath}/.automaker/validations/{issueNumber}
+ * @param issueId - GitHub issue number, or the tracker key of a keyed issue (e.g. "ENG-42")
+ * @returns Absolute path to {projectPath}/.automaker/validations/{issueId}
  */
-export function getValidationDir(projectPath: string, issueNumber: number): string {
-  return path.join(getValidationsDir(projectPath), String(issueNumber));
+export function getValidationDir(projectPath: string, issueId: number | string): string {
+  const dirName = encodeURIComponent(String(issueId)).replace(/\./g, '%2E');
+  return path.join(getValidationsDir(projectPath), dirName);
 }
 
 /**
- * Get the validation result file path for a GitHub issue
+ * Get the validation result file path for an issue
  *
  * Stores the JSON validation result including verdict, analysis, and metadata.
  *
  * @param projectPath - Absolute path to project directory
- * @param issueNumber - GitHub issue number
- * @returns Absolute path to {projectPath}/.automaker/validations/{issueNumber}/validation.json
+ * @param issueId - GitHub issue number, or the tracker key of a keyed issue (e.g. "ENG-42")
+ * @returns Absolute path to {projectPath}/.automaker/validations/{issueId}/validation.json
  */
-export function getValidationPath(projectPath: string, issueNumber: number): string {
-  return path.join(getValidationDir(projectPath, issueNumber), 'validation.json');
+export function getValidationPath(projectPath: string, issueId: number | string): string {
+  return path.join(getValidationDir(projectPath, issueId), 'validation.json');
 }
 
 /**
@@ -6,6 +6,23 @@
 import type { SpecOutput } from '@automaker/types';
 import { escapeXml } from './xml-utils.js';
 
+/**
+ * Render a list element, e.g. <feature_ids><feature_id>…</feature_id></feature_ids>,
+ * as lines at the given indentation. Empty lists render nothing.
+ */
+function listToXml(
+  tagName: string,
+  childName: string,
+  values: string[] | undefined,
+  indent: string,
+  childIndent: string
+): string {
+  if (!values || values.length === 0) return '';
+  return `\n${indent}<${tagName}>
+${values.map((value) => `${childIndent}<${childName}>${escapeXml(value)}</${childName}>`).join('\n')}
+${indent}</${tagName}>`;
+}
+
 /**
  * Convert structured spec output to XML format.
  *
@@ -36,13 +53,13 @@ ${spec.implemented_features
   .map(
     (f) => `${indent}${indent}<feature>
 ${indent}${indent}${indent}<name>${escapeXml(f.name)}</name>
-${indent}${indent}${indent}<description>${escapeXml(f.description)}</description>${
-      f.file_locations && f.file_locations.length > 0
-        ? `\n${indent}${indent}${indent}<file_locations>
-${f.file_locations.map((loc) => `${indent}${indent}${indent}${indent}<location>${escapeXml(loc)}</location>`).join('\n')}
-${indent}${indent}${indent}</file_locations>`
-        : ''
-    }
+${indent}${indent}${indent}<description>${escapeXml(f.description)}</description>${listToXml(
+      'file_locations',
+      'location',
+      f.file_locations,
+      indent.repeat(3),
+      indent.repeat(4)
+    )}${listToXml('feature_ids', 'feature_id', f.feature_ids, indent.repeat(3), indent.repeat(4))}
 ${indent}${indent}</feature>`
   )
   .join('\n')}
@@ -74,7 +91,13 @@ ${spec.implementation_roadmap
     (r) => `${indent}${indent}<phase>
 ${indent}${indent}${indent}<name>${escapeXml(r.phase)}</name>
 ${indent}${indent}${indent}<status>${escapeXml(r.status)}</status>
-${indent}${indent}${indent}<description>${escapeXml(r.description)}</description>
+${indent}${indent}${indent}<description>${escapeXml(r.description)}</description>${listToXml(
+      'feature_ids',
+      'feature_id',
+      r.feature_ids,
+      indent.repeat(3),
+      indent.repeat(4)
+    )}${listToXml('file_locations', 'location', r.file_locations, indent.repeat(3), indent.repeat(4))}
 ${indent}${indent}</phase>`
   )
   .join('\n')}
@@ -12,6 +12,18 @@ export interface ValidationResult {
   errors: string[];
 }
 
+/**
+ * Check an optional list of non-empty strings, such as file_locations or feature_ids.
+ */
+function checkOptionalStringArray(value: unknown, field: string, errors: string[]): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array if provided`);
+  } else if (value.some((item) => typeof item !== 'string' || item.trim() === '')) {
+    errors.push(`${field} items must be non-empty strings`);
+  }
+}
+
 /**
  * Validate a SpecOutput object for required fields and data integrity.
  *
@@ -66,13 +78,12 @@ export function validateSpec(spec: SpecOutput | null | undefined): ValidationRes
       if (!f.description || typeof f.description !== 'string') {
         errors.push(`implemented_features[${i}].description is required and must be a string`);
       }
-      if (f.file_locations !== undefined) {
-        if (!Array.isArray(f.file_locations)) {
-          errors.push(`implemented_features[${i}].file_locations must be an array if provided`);
-        } else if (f.file_locations.some((loc) => typeof loc !== 'string' || loc.trim() === '')) {
-          errors.push(`implemented_features[${i}].file_locations items must be non-empty strings`);
-        }
-      }
+      checkOptionalStringArray(
+        f.file_locations,
+        `implemented_features[${i}].file_locations`,
+        errors
+      );
+      checkOptionalStringArray(f.feature_ids, `implemented_features[${i}].feature_ids`, errors);
     });
   }
 
@@ -113,6 +124,12 @@ export function validateSpec(spec: SpecOutput | null | undefined): ValidationRes
         if (!r.description || typeof r.description !== 'string') {
           errors.push(`implementation_roadmap[${i}].description is required and must be a string`);
         }
+        checkOptionalStringArray(r.feature_ids, `implementation_roadmap[${i}].feature_ids`, errors);
+        checkOptionalStringArray(
+          r.file_locations,
+          `implementation_roadmap[${i}].file_locations`,
+          errors
+        );
       });
     }
   }
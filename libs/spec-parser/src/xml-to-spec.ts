@@ -30,6 +30,7 @@ const parser = new XMLParser({
       'requirement',
       'guideline',
       'phase',
+      'feature_id',
     ].includes(name);
   },
 });
@@ -56,6 +57,14 @@ function getStringArray(value: unknown): string[] {
   return str ? [str] : [];
 }
 
+/**
+ * Get the strings of a list element's children, e.g. <file_locations><location>.
+ */
+function getNestedStringArray(section: unknown, childName: string): string[] {
+  if (!section || typeof section !== 'object') return [];
+  return getStringArray((section as Record<string, unknown>)[childName]);
+}
+
 /**
  * Parse implemented features from the parsed XML object.
  */
@@ -82,13 +91,14 @@ function parseImplementedFeatures(featuresSection: unknown): SpecOutput['impleme
 
     if (!name) continue;
 
-    const locationsSection = f.file_locations as Record<string, unknown> | undefined;
-    const file_locations = locationsSection ? getStringArray(locationsSection.location) : undefined;
+    const file_locations = getNestedStringArray(f.file_locations, 'location');
+    const feature_ids = getNestedStringArray(f.feature_ids, 'feature_id');
 
     features.push({
       name,
       description,
-      ...(file_locations && file_locations.length > 0 ? { file_locations } : {}),
+      ...(file_locations.length > 0 ? { file_locations } : {}),
+      ...(feature_ids.length > 0 ? { feature_ids } : {}),
     });
   }
 
@@ -125,7 +135,16 @@ function parseImplementationRoadmap(roadmapSection: unknown): SpecOutput['implem
       ['completed', 'in_progress', 'pending'].includes(statusRaw) ? statusRaw : 'pending'
     ) as 'completed' | 'in_progress' | 'pending';
 
-    roadmap.push({ phase: phaseName, status, description });
+    const feature_ids = getNestedStringArray(p.feature_ids, 'feature_id');
+    const file_locations = getNestedStringArray(p.file_locations, 'location');
+
+    roadmap.push({
+      phase: phaseName,
+      status,
+      description,
+      ...(feature_ids.length > 0 ? { feature_ids } : {}),
+      ...(file_locations.length > 0 ? { file_locations } : {}),
+    });
   }
 
   return roadmap.length > 0 ? roadmap : undefined;
@@ -0,0 +1,66 @@
+/**
+ * Checkpoint Types - Git snapshots taken while auto mode works on a feature
+ *
+ * Before each planned task, each pipeline stage and each follow-up, auto mode
+ * records the state of the feature's working directory as a dangling commit
+ * kept alive by a ref under refs/automaker/checkpoints/. The working tree,
+ * index and branch are left untouched. Checkpoint metadata is stored in
+ * {projectPath}/.automaker/features/{featureId}/checkpoints.json so a feature
+ * can be rolled back to any of them and resumed from there.
+ */
+
+/**
+ * What was about to run when a checkpoint was taken
+ * - task: a task from an approved plan (ParsedTask)
+ * - pipeline_step: a pipeline step (or the first step of a parallel stage)
+ * - follow_up: a follow-up prompt
+ */
+export type CheckpointKind = 'task' | 'pipeline_step' | 'follow_up';
+
+/**
+ * FeatureCheckpoint - A restorable snapshot of a feature's working directory
+ */
+export interface FeatureCheckpoint {
+  /** Unique checkpoint ID */
+  id: string;
+  /** Feature the checkpoint belongs to */
+  featureId: string;
+  /** What was about to run */
+  kind: CheckpointKind;
+  /** Human-readable description, e.g. "Before task T003: Add route" */
+  label: string;
+  /** Task that was about to start (kind 'task') */
+  taskId?: string;
+  /** Pipeline step that was about to start (kind 'pipeline_step') */
+  stepId?: string;
+  /** Snapshot commit holding the working tree contents */
+  commit: string;
+  /** HEAD commit at the time of the checkpoint */
+  head: string;
+  /** Checked-out branch, or null when HEAD was detached */
+  branch: string | null;
+  /** Working directory the snapshot was taken in (project root or worktree) */
+  workDir: string;
+  /** Feature status when the checkpoint was taken */
+  featureStatus: string;
+  /** ISO timestamp when the checkpoint was taken */
+  createdAt: string;
+}
+
+/**
+ * FeatureCheckpoints - Structure of a feature's checkpoints.json file
+ */
+export interface FeatureCheckpoints {
+  /** Version for future migrations */
+  version: number;
+  /** Feature the checkpoints belong to */
+  featureId: string;
+  /** Checkpoints, oldest first */
+  checkpoints: FeatureCheckpoint[];
+}
+
+/** Current version of the checkpoints.json format */
+export const FEATURE_CHECKPOINTS_VERSION = 1;
+
+/** Oldest checkpoints beyond this count are pruned */
+export const MAX_FEATURE_CHECKPOINTS = 50;
@@ -0,0 +1,96 @@
+/**
+ * Competition Types - Several attempts at one feature, compared side by side
+ *
+ * In competition mode a feature is implemented by several contenders in
+ * parallel, each with its own model and/or extra instructions, on its own
+ * branch and worktree (competition/{featureId}/{candidateId}). Each candidate's
+ * changes and test results are recorded on the feature so they can be compared,
+ * and the winner is promoted to be the feature's branch while the other
+ * worktrees and branches are removed.
+ */
+
+import type { ThinkingLevel } from './settings.js';
+
+/** Maximum number of contenders in one competition */
+export const MAX_COMPETITION_CONTENDERS = 4;
+
+/**
+ * CompetitionContender - One configured attempt at a feature
+ */
+export interface CompetitionContender {
+  /** Model alias or ID to run the feature with */
+  model: string;
+  /** Thinking level for the model (Claude models only) */
+  thinkingLevel?: ThinkingLevel;
+  /** Extra instructions appended to the feature prompt */
+  instructions?: string;
+}
+
+/**
+ * Progress of a single candidate
+ */
+export type CompetitionCandidateStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Size of the changes a candidate made
+ */
+export interface CompetitionDiffStats {
+  filesChanged: number;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Outcome of running the project's test command in a candidate's worktree
+ * - skipped: the project has no test command configured
+ */
+export interface CompetitionTestResult {
+  status: 'passed' | 'failed' | 'error' | 'skipped';
+  command?: string;
+  exitCode?: number | null;
+  /** Tail of the test output */
+  output?: string;
+  finishedAt: string;
+}
+
+/**
+ * CompetitionCandidate - A contender's run in its own worktree
+ */
+export interface CompetitionCandidate extends CompetitionContender {
+  /** Candidate ID, e.g. "c1" */
+  id: string;
+  /** Branch the candidate works on */
+  branchName: string;
+  /** Absolute path to the candidate's worktree */
+  worktreePath: string;
+  status: CompetitionCandidateStatus;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  diffStats?: CompetitionDiffStats;
+  tests?: CompetitionTestResult;
+}
+
+/**
+ * Progress of a competition as a whole
+ * - running: candidates are still being implemented or tested
+ * - completed: every candidate finished and the results can be compared
+ * - promoted: a winner was chosen and the other candidates were cleaned up
+ * - cancelled: the competition was stopped before all candidates finished
+ */
+export type CompetitionStatus = 'running' | 'completed' | 'promoted' | 'cancelled';
+
+/**
+ * FeatureCompetition - The latest competition run for a feature
+ */
+export interface FeatureCompetition {
+  status: CompetitionStatus;
+  startedAt: string;
+  completedAt?: string;
+  /** Branch the candidate worktrees were created from (null for the current HEAD) */
+  baseBranch: string | null;
+  candidates: CompetitionCandidate[];
+  /** ID of the promoted candidate */
+  winnerId?: string;
+  promotedAt?: string;
+}
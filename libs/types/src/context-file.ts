@@ -0,0 +1,52 @@
+/**
+ * Context File Types - Metadata for files in .automaker/context/
+ *
+ * Metadata is stored in .automaker/context/context-metadata.json, keyed by
+ * file name. Scope rules limit which agent prompts a context file is
+ * injected into, so e.g. a frontend style guide is only loaded when a task
+ * touches the frontend.
+ */
+
+/** Which kind of agent prompt context files are loaded for */
+export type ContextAgentType =
+  | 'planning'
+  | 'implementation'
+  | 'pipeline'
+  | 'follow-up'
+  | 'chat'
+  | 'ideation';
+
+export const CONTEXT_AGENT_TYPE_LABELS: Record<ContextAgentType, string> = {
+  planning: 'Planning',
+  implementation: 'Implementation',
+  pipeline: 'Pipeline steps',
+  'follow-up': 'Follow-ups',
+  chat: 'Agent chat',
+  ideation: 'Ideation',
+};
+
+/**
+ * ContextFileScope - When a context file applies to a task
+ *
+ * Every rule that is set must match; within a rule any entry may match.
+ * Files without rules are always loaded. A rule is not applied when the
+ * task doesn't know the value it checks (e.g. a chat message has no
+ * feature category), so the file is loaded rather than silently dropped.
+ */
+export interface ContextFileScope {
+  /** Glob patterns matched against the task's predicted or changed paths */
+  appliesTo?: string[];
+  /** Feature categories (case-insensitive) */
+  categories?: string[];
+  /** Pipeline step IDs; such files are not loaded for agents outside the pipeline */
+  pipelineSteps?: string[];
+  /** Agent types */
+  agentTypes?: ContextAgentType[];
+}
+
+/**
+ * ContextFileMetadata - Entry for one file in context-metadata.json
+ */
+export interface ContextFileMetadata extends ContextFileScope {
+  description: string;
+}
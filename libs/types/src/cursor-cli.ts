@@ -388,6 +388,13 @@ export interface CursorResultEvent {
   session_id: string;
   request_id?: string;
   error?: string;
+  /** Token usage (only reported by newer cursor-agent builds) */
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
+  };
 }
 
 export type CursorStreamEvent =
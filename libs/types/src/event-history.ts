@@ -37,6 +37,87 @@ export interface StoredEvent {
   passes?: boolean;
   /** Additional context/metadata for the event */
   metadata?: Record<string, unknown>;
+  /** Results of the hooks that ran for this event */
+  deliveries?: EventHookDelivery[];
+}
+
+/**
+ * EventHookDelivery - Outcome of running one hook for an event
+ */
+export interface EventHookDelivery {
+  /** Hook ID */
+  hookId: string;
+  /** Hook name (if set) */
+  hookName?: string;
+  /** Action type of the hook */
+  actionType: 'shell' | 'http';
+  /** When the hook finished */
+  timestamp: string;
+  /** Whether the hook succeeded */
+  success: boolean;
+  /** Number of attempts made (HTTP hooks with a retry policy) */
+  attempts: number;
+  /** HTTP status of the last response */
+  statusCode?: number;
+  /** Error message if failed */
+  error?: string;
+  /** Total time including retries in milliseconds */
+  durationMs: number;
+  /** Outbox delivery ID (HTTP hooks), also sent as the idempotency key */
+  deliveryId?: string;
+  /** Still queued in the outbox for another attempt */
+  pending?: boolean;
+}
+
+/** State of a webhook in the outbox */
+export type WebhookOutboxStatus = 'pending' | 'delivered' | 'dead';
+
+/**
+ * WebhookOutboxEntry - An outgoing HTTP hook request in the durable outbox
+ *
+ * Pending entries are retried with exponential backoff; entries that run out
+ * of attempts (or get a non-retryable response) become dead letters that can
+ * be redelivered from the UI.
+ */
+export interface WebhookOutboxEntry {
+  /** Delivery ID, sent as Idempotency-Key and X-Automaker-Delivery */
+  id: string;
+  /** Hook that produced the request */
+  hookId: string;
+  /** Hook name (if set) */
+  hookName?: string;
+  /** Trigger of the event, sent as X-Automaker-Event */
+  trigger: EventHookTrigger;
+  /** Project the event belongs to */
+  projectPath?: string;
+  /** Stored event the delivery belongs to */
+  eventId?: string;
+  /** Request with variables already substituted */
+  request: {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  /** Signing secret as configured on the hook (may reference ${ENV_VAR}) */
+  secret?: string;
+  status: WebhookOutboxStatus;
+  /** Attempts made so far */
+  attempts: number;
+  /** Attempts allowed before the entry is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds */
+  backoffMs: number;
+  /** When the next attempt is due (pending entries) */
+  nextAttemptAt: string;
+  /** HTTP status of the last response */
+  lastStatusCode?: number;
+  /** Error from the last attempt */
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** When a 2xx response was received */
+  deliveredAt?: string;
 }
 
 /**
@@ -65,6 +146,8 @@ export interface StoredEventSummary {
   featureName?: string;
   /** Feature ID (if applicable) */
   featureId?: string;
+  /** Number of hook deliveries, how many failed and how many are still retrying */
+  deliveries?: { total: number; failed: number; pending?: number };
 }
 
 /**
@@ -2,15 +2,57 @@
  * Event types for AutoMaker event system
  */
 
-export type EventType =
-  | 'agent:stream'
-  | 'auto-mode:event'
+/**
+ * Every event type the server emits, for UIs that let users pick one.
+ * A server test checks this against the server's emit() calls.
+ */
+export const EVENT_TYPES = [
+  'agent:stream',
+  'auto-mode:event',
+  'backlog-plan:event',
+  'feature:created',
+  'feature:status-changed',
+  'spec-regeneration:event',
+  'issue-validation:event',
+  'ideation:stream',
+  'ideation:session-started',
+  'ideation:session-ended',
+  'ideation:analysis',
+  'ideation:suggestions',
+  'ideation:idea-created',
+  'ideation:idea-updated',
+  'ideation:idea-deleted',
+  'ideation:idea-converted',
+  'worktree:init-started',
+  'worktree:init-output',
+  'worktree:init-completed',
+  'worktree:pushed',
+  'worktree:created',
+  'worktree:merged',
+  'worktree:pr-created',
+  'dev-server:started',
+  'dev-server:output',
+  'dev-server:url-detected',
+  'dev-server:stopped',
+  'test-runner:started',
+  'test-runner:output',
+  'test-runner:completed',
+  'notification:created',
+  'notification:desktop',
+  'scheduler:event',
+] as const;
+
+/**
+ * Event types that are declared but never emitted by the server. They stay
+ * in EventType so existing listeners compile, but are not offered as hook
+ * triggers. Feature lifecycle updates arrive as 'auto-mode:event' and ideation
+ * analysis progress as 'ideation:analysis'.
+ */
+type UnemittedEventType =
   | 'auto-mode:started'
   | 'auto-mode:stopped'
   | 'auto-mode:idle'
   | 'auto-mode:error'
-  | 'backlog-plan:event'
-  | 'feature:created'
   | 'feature:started'
   | 'feature:completed'
   | 'feature:stopped'
@@ -25,33 +67,14 @@ export type EventType =
   | 'project:analysis-progress'
   | 'project:analysis-completed'
   | 'project:analysis-error'
-  | 'spec-regeneration:event'
-  | 'issue-validation:event'
-  | 'ideation:stream'
-  | 'ideation:session-started'
-  | 'ideation:session-ended'
-  | 'ideation:analysis'
   | 'ideation:analysis-started'
   | 'ideation:analysis-progress'
   | 'ideation:analysis-complete'
   | 'ideation:analysis-error'
-  | 'ideation:suggestions'
-  | 'ideation:idea-created'
-  | 'ideation:idea-updated'
-  | 'ideation:idea-deleted'
-  | 'ideation:idea-converted'
-  | 'worktree:init-started'
-  | 'worktree:init-output'
-  | 'worktree:init-completed'
-  | 'dev-server:started'
-  | 'dev-server:output'
-  | 'dev-server:stopped'
-  | 'test-runner:started'
   | 'test-runner:progress'
-  | 'test-runner:output'
-  | 'test-runner:completed'
   | 'test-runner:error'
-  | 'test-runner:result'
-  | 'notification:created';
+  | 'test-runner:result';
+
+export type EventType = (typeof EVENT_TYPES)[number] | UnemittedEventType;
 
 export type EventCallback = (type: EventType, payload: unknown) => void;
@@ -4,6 +4,11 @@
 
 import type { PlanningMode, ThinkingLevel } from './settings.js';
 import type { ReasoningEffort } from './provider.js';
+import type { PipelineStageProgress, PipelineStepResult } from './pipeline.js';
+import type { CompetitionContender, FeatureCompetition } from './competition.js';
+import type { FeatureIssueLink } from './issue-source.js';
+import type { WorktreePRInfo } from './worktree.js';
+import type { FeatureSpecLink } from './spec.js';
 
 /**
  * A single entry in the description history
@@ -76,6 +81,123 @@ export interface PlanSpec {
   tasks?: ParsedTask[];
 }
 
+/**
+ * A single acceptance criterion for a feature
+ * Scored by the acceptance judge after implementation
+ */
+export interface AcceptanceCriterion {
+  /** Stable ID, e.g., "AC1" */
+  id: string;
+  /** What must be true, e.g., "Given X, when Y, then Z" */
+  description: string;
+  /** Result of the last judgement */
+  status: 'pending' | 'pass' | 'fail';
+  /** Judge's confidence that the criterion is met (0-100) */
+  score?: number;
+  /** Evidence cited by the judge (files, tests, behavior) */
+  evidence?: string;
+}
+
+/**
+ * Outcome of the last acceptance judgement for a feature
+ */
+export interface AcceptanceJudgement {
+  /** ISO timestamp when the judge finished */
+  judgedAt: string;
+  /** Model that acted as the judge */
+  model: string;
+  /** True if every criterion passed */
+  passed: boolean;
+  /** Judge's overall summary */
+  summary?: string;
+}
+
+/**
+ * Lifecycle of a review comment
+ * - draft: written in the diff view, not yet sent
+ * - submitted: sent to the agent as part of a review follow-up
+ * - resolved: the commented lines changed in the diff after the follow-up
+ * - unresolved: the commented lines are still in the diff after the follow-up
+ */
+export type ReviewCommentStatus = 'draft' | 'submitted' | 'resolved' | 'unresolved';
+
+/**
+ * A reviewer's comment on a range of lines in a feature's diff
+ */
+export interface ReviewComment {
+  /** Stable ID, e.g., "RC1" */
+  id: string;
+  /** File path relative to the worktree */
+  filePath: string;
+  /** Which side of the diff the lines are on: 'new' for added/context lines, 'old' for removed lines */
+  side: 'old' | 'new';
+  /** First and last commented line, numbered on that side of the diff */
+  startLine: number;
+  endLine: number;
+  /** The commented lines as they appeared in the diff */
+  lines: string[];
+  body: string;
+  status: ReviewCommentStatus;
+  createdAt: string;
+  submittedAt?: string;
+  resolvedAt?: string;
+}
+
+/**
+ * A comment in a pull request review thread
+ */
+export interface PRReviewThreadComment {
+  /** GitHub's numeric comment ID, used to reply to the thread */
+  id: number;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * A review thread on a pull request, anchored to lines of a file
+ */
+export interface PRReviewThread {
+  /** GitHub's thread node ID */
+  id: string;
+  path: string;
+  /** Last commented line; missing when the thread is on the whole file */
+  line?: number;
+  /** First commented line for multi-line threads */
+  startLine?: number;
+  isResolved: boolean;
+  /** The commented lines have changed since the thread was started */
+  isOutdated: boolean;
+  /** Diff hunk the first comment was made on */
+  diffHunk?: string;
+  comments: PRReviewThreadComment[];
+}
+
+/**
+ * PR review threads sent to a feature's agent as a follow-up. Each thread
+ * gets a reply with the follow-up's summary once the fix is pushed.
+ */
+export interface PRReviewFollowUp {
+  prNumber: number;
+  /** owner/repo the PR lives in */
+  repo: string;
+  threads: Array<{
+    id: string;
+    path: string;
+    line?: number;
+    /** Comment the reply is posted under */
+    replyToCommentId: number;
+    /** When this thread was replied to */
+    repliedAt?: string;
+  }>;
+  submittedAt: string;
+  /** When the follow-up finished, with the agent's summary */
+  addressedAt?: string;
+  summary?: string;
+  /** When all threads were replied to */
+  repliedAt?: string;
+}
+
 export interface Feature {
   id: string;
   title?: string;
@@ -88,12 +210,25 @@ export interface Feature {
   dependencies?: string[];
   spec?: string;
   model?: string;
+  completedModel?: string; // Model that finished the last run (differs from model after a fallback)
   imagePaths?: Array<string | FeatureImagePath | { path: string; [key: string]: unknown }>;
   textFilePaths?: FeatureTextFilePath[];
   // Branch info - worktree path is derived at runtime from branchName
   branchName?: string; // Name of the feature branch (undefined = use current worktree)
   skipTests?: boolean;
   excludedPipelineSteps?: string[]; // Array of pipeline step IDs to skip for this feature
+  labels?: string[]; // Free-form labels, matched by pipeline step conditions
+  pipelineResults?: PipelineStepResult[]; // Step verdicts from the last pipeline run
+  pipelineStage?: PipelineStageProgress; // Parallel stage currently running
+  acceptanceCriteria?: AcceptanceCriterion[]; // Checked by the acceptance judge before verification
+  acceptanceJudgement?: AcceptanceJudgement; // Outcome of the last acceptance judgement
+  reviewComments?: ReviewComment[]; // Inline diff review comments sent as follow-ups
+  prReviewFollowUp?: PRReviewFollowUp; // PR review threads last sent as a follow-up
+  contenders?: CompetitionContender[]; // Models/prompts to compete with in competition mode
+  competition?: FeatureCompetition; // Latest competition run
+  issueLink?: FeatureIssueLink; // Tracker issue this feature was created from
+  specLink?: FeatureSpecLink; // Spec item this feature was created for (spec coverage gaps)
+  pullRequest?: WorktreePRInfo; // Pull request opened from the feature's branch
   thinkingLevel?: ThinkingLevel;
   reasoningEffort?: ReasoningEffort;
   planningMode?: PlanningMode;
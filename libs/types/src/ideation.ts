@@ -19,6 +19,10 @@ export type IdeaCategory =
 export type IdeaStatus = 'raw' | 'refined' | 'ready' | 'archived';
 export type ImpactLevel = 'low' | 'medium' | 'high';
 export type EffortLevel = 'low' | 'medium' | 'high';
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+/** Roadmap lanes ideas are planned into */
+export type IdeaRoadmapLane = 'now' | 'next' | 'later';
 
 // ============================================================================
 // Idea Entity
@@ -33,6 +37,20 @@ export interface IdeaAttachment {
   [key: string]: unknown;
 }
 
+/** One person's vote on an idea; each voter has at most one */
+export interface IdeaVote {
+  voter: string;
+  value: 1 | -1;
+  votedAt: string;
+}
+
+export interface IdeaComment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
 export interface Idea {
   id: string;
   title: string;
@@ -42,6 +60,16 @@ export interface Idea {
   impact: ImpactLevel;
   effort: EffortLevel;
 
+  // Prioritization (see getIdeaScore)
+  /** How confident we are in the impact estimate (default: medium) */
+  confidence?: ConfidenceLevel;
+  /** Users or events affected per quarter; turns the ICE score into RICE */
+  reach?: number;
+  /** Roadmap lane; unplanned ideas have none */
+  lane?: IdeaRoadmapLane;
+  votes?: IdeaVote[];
+  comments?: IdeaComment[];
+
   // Conversation context
   conversationId?: string;
   sourcePromptId?: string;
@@ -172,6 +200,9 @@ export interface CreateIdeaInput {
   status?: IdeaStatus;
   impact?: ImpactLevel;
   effort?: EffortLevel;
+  confidence?: ConfidenceLevel;
+  reach?: number;
+  lane?: IdeaRoadmapLane;
   conversationId?: string;
   sourcePromptId?: string;
   userStories?: string[];
@@ -185,6 +216,11 @@ export interface UpdateIdeaInput {
   status?: IdeaStatus;
   impact?: ImpactLevel;
   effort?: EffortLevel;
+  confidence?: ConfidenceLevel;
+  /** null clears the reach */
+  reach?: number | null;
+  /** null moves the idea out of the roadmap */
+  lane?: IdeaRoadmapLane | null;
   userStories?: string[];
   notes?: string;
 }
@@ -194,6 +230,89 @@ export interface ConvertToFeatureOptions {
   dependencies?: string[];
   tags?: string[];
   keepIdea?: boolean;
+  /**
+   * When converting several ideas at once, ask the backlog planning model
+   * which of the new features depend on each other or on existing features
+   */
+  inferDependencies?: boolean;
+}
+
+/** Result of converting a batch of ideas to features */
+export interface ConvertIdeasResult {
+  /** Feature IDs in the order the ideas were given */
+  featureIds: string[];
+  /** Inferred dependencies of the new features, by feature ID */
+  dependencies: Record<string, string[]>;
+  /** Ideas that could not be converted */
+  failed: Array<{ ideaId: string; error: string }>;
+}
+
+/**
+ * A generated suggestion dropped because it repeats an existing idea or
+ * feature (or an earlier suggestion in the same batch)
+ */
+export interface SuggestionDuplicate {
+  title: string;
+  similarTo: { type: 'idea' | 'feature' | 'suggestion'; id: string; title: string };
+  /** Text similarity, 0-1 */
+  similarity: number;
+}
+
+// ============================================================================
+// Prioritization
+// ============================================================================
+
+export const IDEA_ROADMAP_LANES: Array<{ id: IdeaRoadmapLane; label: string }> = [
+  { id: 'now', label: 'Now' },
+  { id: 'next', label: 'Next' },
+  { id: 'later', label: 'Later' },
+];
+
+const IMPACT_WEIGHTS: Record<ImpactLevel, number> = { low: 1, medium: 2, high: 3 };
+const CONFIDENCE_WEIGHTS: Record<ConfidenceLevel, number> = { low: 0.5, medium: 0.8, high: 1 };
+const EFFORT_WEIGHTS: Record<EffortLevel, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * RICE score of an idea: reach x impact x confidence / effort.
+ *
+ * Without a reach estimate the idea counts as reaching `assumedReach` users
+ * (1 by default, which gives its plain ICE score: impact x confidence x ease).
+ * RICE scores scale with reach while ICE scores don't, so ranking both
+ * together needs a comparable reach; see getTypicalIdeaReach.
+ */
+export function getIdeaScore(
+  idea: Pick<Idea, 'impact' | 'effort' | 'confidence' | 'reach'>,
+  assumedReach = 1
+): {
+  score: number;
+  method: 'RICE' | 'ICE';
+} {
+  const hasReach = typeof idea.reach === 'number' && idea.reach > 0;
+  const score =
+    ((hasReach ? (idea.reach as number) : assumedReach) *
+      (IMPACT_WEIGHTS[idea.impact] ?? IMPACT_WEIGHTS.medium) *
+      CONFIDENCE_WEIGHTS[idea.confidence ?? 'medium']) /
+    (EFFORT_WEIGHTS[idea.effort] ?? EFFORT_WEIGHTS.medium);
+  return { score: Math.round(score * 100) / 100, method: hasReach ? 'RICE' : 'ICE' };
+}
+
+/**
+ * Median reach of the ideas that have an estimate (1 if none do), to assume
+ * for ideas without one when ranking them together
+ */
+export function getTypicalIdeaReach(ideas: Array<Pick<Idea, 'reach'>>): number {
+  const reaches = ideas
+    .map((idea) => idea.reach)
+    .filter((reach): reach is number => typeof reach === 'number' && reach > 0)
+    .sort((a, b) => a - b);
+  if (reaches.length === 0) return 1;
+  const middle = Math.floor(reaches.length / 2);
+  return reaches.length % 2 === 1 ? reaches[middle] : (reaches[middle - 1] + reaches[middle]) / 2;
+}
+
+/** Net votes on an idea (up votes minus down votes) */
+export function getIdeaVoteTally(idea: Pick<Idea, 'votes'>): number {
+  return (idea.votes ?? []).reduce((sum, vote) => sum + vote.value, 0);
 }
 
 // ============================================================================
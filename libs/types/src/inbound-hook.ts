@@ -0,0 +1,94 @@
+/**
+ * Inbound Hook Types - Webhooks that let external systems drive the board
+ *
+ * Inbound hooks are configured per project in ProjectSettings.inboundHooks.
+ * External systems (CI, monitoring, chat bots, ...) POST to
+ * /api/inbound/:hookId, authenticated with the hook's secret, and the
+ * request is mapped onto one action: creating a feature, starting auto
+ * mode, or adding a follow-up to an existing feature.
+ *
+ * Mapping fields are templates. {{body.path}}, {{headers.name}} and
+ * {{query.name}} are replaced with values from the request, using dot paths
+ * into the JSON body (e.g. "{{body.workflow_run.head_branch}}").
+ */
+
+import type { EventHookFilter } from './settings.js';
+
+/** What an inbound hook does with a request */
+export type InboundHookAction = 'create_feature' | 'start_auto_mode' | 'add_follow_up';
+
+/**
+ * Templates mapping a request onto the hook's action. Which fields are
+ * used depends on the action:
+ * - create_feature: title (required), description, category, branchName,
+ *   model, priority
+ * - start_auto_mode: branchName (empty = main worktree)
+ * - add_follow_up: featureId and prompt (both required)
+ */
+export interface InboundHookMapping {
+  title?: string;
+  description?: string;
+  category?: string;
+  branchName?: string;
+  model?: string;
+  /** 1 (high), 2 (medium) or 3 (low); other values are ignored */
+  priority?: string;
+  featureId?: string;
+  prompt?: string;
+}
+
+/**
+ * InboundHook - An authenticated endpoint external systems can call
+ *
+ * Requests are accepted when they carry the secret as a bearer token, sign
+ * the raw body with it (X-Automaker-Signature, the same scheme as outgoing
+ * webhooks), or use GitHub's X-Hub-Signature-256.
+ */
+export interface InboundHook {
+  /** Unique hook ID, part of the URL */
+  id: string;
+  /** Optional friendly name */
+  name?: string;
+  /** Whether the hook accepts requests */
+  enabled: boolean;
+  /**
+   * Shared secret. ${VAR} is replaced with the server environment variable;
+   * only variables starting with INBOUND_HOOK_ENV_PREFIX can be used.
+   */
+  secret: string;
+  action: InboundHookAction;
+  mapping: InboundHookMapping;
+  /**
+   * Only act when all filters match. The field is a template source such as
+   * "body.conclusion" or "headers.x-github-event"; requests that don't match
+   * are acknowledged and ignored.
+   */
+  filters?: EventHookFilter[];
+}
+
+/** Outcome of an inbound hook request */
+export type InboundHookResultStatus =
+  | 'created'
+  | 'duplicate'
+  | 'started'
+  | 'already_running'
+  | 'follow_up_started'
+  | 'ignored'
+  | 'rejected';
+
+export interface InboundHookResult {
+  status: InboundHookResultStatus;
+  featureId?: string;
+  /** Why the request was ignored or rejected, or which feature it matched */
+  reason?: string;
+}
+
+/** Prefix of the environment variables inbound hook secrets may use */
+export const INBOUND_HOOK_ENV_PREFIX = 'AUTOMAKER_HOOKS_';
+
+/** Human-readable labels for inbound hook actions */
+export const INBOUND_HOOK_ACTION_LABELS: Record<InboundHookAction, string> = {
+  create_feature: 'Create a feature',
+  start_auto_mode: 'Start auto mode',
+  add_follow_up: 'Add a follow-up to a feature',
+};
@@ -69,6 +69,13 @@ export type {
   FeatureImportResult,
   ParsedTask,
   PlanSpec,
+  AcceptanceCriterion,
+  AcceptanceJudgement,
+  ReviewCommentStatus,
+  ReviewComment,
+  PRReviewThreadComment,
+  PRReviewThread,
+  PRReviewFollowUp,
 } from './feature.js';
 
 // Session types
@@ -105,9 +112,18 @@ export {
 
 // Event types
 export type { EventType, EventCallback } from './event.js';
+export { EVENT_TYPES } from './event.js';
 
 // Spec types
-export type { SpecOutput } from './spec.js';
+export type {
+  SpecOutput,
+  SpecItemKind,
+  FeatureSpecLink,
+  SpecDriftType,
+  SpecFileChange,
+  SpecCoverageItem,
+  SpecCoverageReport,
+} from './spec.js';
 export { specOutputSchema } from './spec.js';
 
 // Enhancement types
@@ -167,11 +183,15 @@ export type {
   WorktreeInfo,
   ProjectSettings,
   // Event hook types
+  EventHookNamedTrigger,
   EventHookTrigger,
   EventHookHttpMethod,
   EventHookShellAction,
   EventHookHttpAction,
   EventHookAction,
+  EventHookRetryPolicy,
+  EventHookFilterOperator,
+  EventHookFilter,
   EventHook,
   // Claude-compatible provider types (new)
   ApiKeySource,
@@ -183,6 +203,7 @@ export type {
   // Claude API profile types (deprecated)
   ClaudeApiProfile,
   ClaudeApiProfileTemplate,
+  RetryPolicy,
 } from './settings.js';
 export {
   DEFAULT_KEYBOARD_SHORTCUTS,
@@ -198,16 +219,22 @@ export {
   getThinkingTokenBudget,
   // Event hook constants
   EVENT_HOOK_TRIGGER_LABELS,
+  getEventHookTriggerLabel,
+  EVENT_HOOK_FILTER_OPERATOR_LABELS,
+  DEFAULT_EVENT_HOOK_RETRY_POLICY,
+  EVENT_HOOK_ENV_PREFIX,
   // Claude-compatible provider templates (new)
   CLAUDE_PROVIDER_TEMPLATES,
   // Claude API profile constants (deprecated)
   CLAUDE_API_PROFILE_TEMPLATES,
+  DEFAULT_RETRY_POLICY,
 } from './settings.js';
 
 // Model display constants
 export type { ModelOption, ThinkingLevelOption, ReasoningEffortOption } from './model-display.js';
 export {
   CLAUDE_MODELS,
+  CODEX_MODELS,
   GEMINI_MODELS,
   THINKING_LEVELS,
   THINKING_LEVEL_LABELS,
@@ -295,7 +322,16 @@ export type {
   PipelineConfig,
   PipelineStatus,
   FeatureStatusWithPipeline,
+  PipelineStepType,
+  PipelineStepFailureAction,
+  PipelineStepFailurePolicy,
+  PipelineStepConditions,
+  PipelineStepVerdict,
+  PipelineStepResult,
+  PipelineStage,
+  PipelineStageProgress,
 } from './pipeline.js';
+export { DEFAULT_PIPELINE_SHELL_TIMEOUT_MS } from './pipeline.js';
 
 // Port configuration
 export { STATIC_PORT, SERVER_PORT, RESERVED_PORTS } from './ports.js';
@@ -309,6 +345,10 @@ export type {
   IdeaStatus,
   ImpactLevel,
   EffortLevel,
+  ConfidenceLevel,
+  IdeaRoadmapLane,
+  IdeaVote,
+  IdeaComment,
   IdeaAttachment,
   Idea,
   IdeationSessionStatus,
@@ -325,16 +365,42 @@ export type {
   CreateIdeaInput,
   UpdateIdeaInput,
   ConvertToFeatureOptions,
+  ConvertIdeasResult,
+  SuggestionDuplicate,
   IdeationEventType,
   IdeationStreamEvent,
   IdeationAnalysisEvent,
   IdeationContextSources,
 } from './ideation.js';
-export { DEFAULT_IDEATION_CONTEXT_SOURCES } from './ideation.js';
+export {
+  DEFAULT_IDEATION_CONTEXT_SOURCES,
+  IDEA_ROADMAP_LANES,
+  getIdeaScore,
+  getTypicalIdeaReach,
+  getIdeaVoteTally,
+} from './ideation.js';
 
 // Notification types
-export type { NotificationType, Notification, NotificationsFile } from './notification.js';
-export { NOTIFICATIONS_VERSION, DEFAULT_NOTIFICATIONS_FILE } from './notification.js';
+export type {
+  NotificationType,
+  Notification,
+  NotificationsFile,
+  NotificationChannelType,
+  ChatWebhookFormat,
+  NotificationTemplate,
+  DesktopNotificationChannel,
+  SmtpSettings,
+  EmailNotificationChannel,
+  WebhookNotificationChannel,
+  NotificationChannel,
+  DesktopNotificationPayload,
+} from './notification.js';
+export {
+  NOTIFICATIONS_VERSION,
+  DEFAULT_NOTIFICATIONS_FILE,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_ENV_PREFIX,
+} from './notification.js';
 
 // Event history types
 export type {
@@ -344,6 +410,9 @@ export type {
   EventHistoryFilter,
   EventReplayResult,
   EventReplayHookResult,
+  EventHookDelivery,
+  WebhookOutboxStatus,
+  WebhookOutboxEntry,
 } from './event-history.js';
 export { EVENT_HISTORY_VERSION, DEFAULT_EVENT_HISTORY_INDEX } from './event-history.js';
 
@@ -364,6 +433,115 @@ export type { TerminalInfo } from './terminal.js';
 // Test runner types
 export type { TestRunnerInfo } from './test-runner.js';
 
+// Usage accounting types
+export type {
+  ProviderUsage,
+  UsageTotals,
+  UsageCostSource,
+  FeatureUsageSource,
+  FeatureUsageEntry,
+  FeatureUsage,
+  ProjectUsageSummary,
+  ModelPricing,
+  BudgetLimits,
+  BudgetSettings,
+  BudgetLimitKind,
+  BudgetScope,
+  BudgetSpend,
+  BudgetExceeded,
+} from './usage.js';
+export {
+  FEATURE_USAGE_VERSION,
+  EMPTY_USAGE_TOTALS,
+  MODEL_PRICING,
+  DEFAULT_BUDGET_WARN_PERCENT,
+} from './usage.js';
+
+// Checkpoint types
+export type { CheckpointKind, FeatureCheckpoint, FeatureCheckpoints } from './checkpoint.js';
+export { FEATURE_CHECKPOINTS_VERSION, MAX_FEATURE_CHECKPOINTS } from './checkpoint.js';
+
+// Competition types
+export type {
+  CompetitionContender,
+  CompetitionCandidateStatus,
+  CompetitionDiffStats,
+  CompetitionTestResult,
+  CompetitionCandidate,
+  CompetitionStatus,
+  FeatureCompetition,
+} from './competition.js';
+export { MAX_COMPETITION_CONTENDERS } from './competition.js';
+
+// Schedule types
+export type {
+  ScheduleTrigger,
+  AutoModeSchedule,
+  ScheduledJobType,
+  ScheduledJob,
+  ScheduleSettings,
+  ScheduledAutoModeRun,
+  SchedulerState,
+} from './schedule.js';
+export { DEFAULT_SCHEDULED_VALIDATION_MAX_ISSUES } from './schedule.js';
+
+// Issue source types
+export type {
+  IssueSourceType,
+  SourceIssueLabel,
+  SourceIssueUser,
+  SourceIssueLinkedPR,
+  SourceIssue,
+  RestIssueSourceFields,
+  RestIssueSourceEndpoints,
+  RestIssueSourceBodies,
+  IssueStatusSync,
+  GitHubIssueSourceConfig,
+  RestIssueSourceConfig,
+  IssueSourceConfig,
+  IssueSourceInfo,
+  FeatureIssueLink,
+} from './issue-source.js';
+export {
+  DEFAULT_CLOSED_ISSUE_STATES,
+  DEFAULT_PR_MERGED_STATUS,
+  DEFAULT_PR_CLOSED_STATUS,
+  ISSUE_SOURCE_ENV_PREFIX,
+  getIssueId,
+} from './issue-source.js';
+
+// Inbound hook types
+export type {
+  InboundHookAction,
+  InboundHookMapping,
+  InboundHook,
+  InboundHookResultStatus,
+  InboundHookResult,
+} from './inbound-hook.js';
+export { INBOUND_HOOK_ACTION_LABELS, INBOUND_HOOK_ENV_PREFIX } from './inbound-hook.js';
+
+// Memory curation types
+export type {
+  MemoryCurationKind,
+  MemoryDiffLine,
+  MemoryConflictResolution,
+  MemoryCurationProposal,
+  MemoryCurationState,
+} from './memory-curation.js';
+
+// Context file types
+export type { ContextAgentType, ContextFileScope, ContextFileMetadata } from './context-file.js';
+export { CONTEXT_AGENT_TYPE_LABELS } from './context-file.js';
+
+// Prompt budget types
+export type {
+  PromptSectionAction,
+  PromptSectionReport,
+  PromptBudgetReport,
+  FeaturePromptRecord,
+  FeaturePromptSummary,
+} from './prompt-budget.js';
+
 // Project overview types (multi-project dashboard)
 export type {
   ProjectHealthStatus,
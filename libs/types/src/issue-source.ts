@@ -0,0 +1,236 @@
+/**
+ * Issue Source Types - Pluggable issue trackers
+ *
+ * The issues view, issue validation and the scheduler read issues through an
+ * issue source configured per project in ProjectSettings.issueSource. GitHub
+ * (through the gh CLI) is the default; the REST source talks to any tracker
+ * with a JSON API (Jira, Linear, a local mock, ...) using configured
+ * endpoints and field mappings. Features converted from an issue keep a
+ * FeatureIssueLink back to it, which status sync uses to update the tracker.
+ */
+
+/** Issue source adapters */
+export type IssueSourceType = 'github' | 'rest';
+
+export interface SourceIssueLabel {
+  name: string;
+  color?: string;
+}
+
+export interface SourceIssueUser {
+  login: string;
+  avatarUrl?: string;
+}
+
+export interface SourceIssueLinkedPR {
+  number: number;
+  title: string;
+  state: string;
+  url: string;
+}
+
+/**
+ * An issue as returned by any issue source, using GitHub's field names
+ */
+export interface SourceIssue {
+  /**
+   * Issue number. Trackers with keys like "ENG-42" use the key's trailing
+   * number, which can repeat across the tracker's projects; use getIssueId
+   * to tell issues apart.
+   */
+  number: number;
+  /** Tracker's key, e.g. "ENG-42" (GitHub issues have none) */
+  key?: string;
+  title: string;
+  /** 'OPEN' or 'CLOSED' (GitHub's casing) */
+  state: string;
+  /** Tracker's own status name, e.g. "In Review" */
+  status?: string;
+  author: SourceIssueUser;
+  createdAt: string;
+  labels: SourceIssueLabel[];
+  url: string;
+  body: string;
+  assignees: SourceIssueUser[];
+  linkedPRs?: SourceIssueLinkedPR[];
+}
+
+/**
+ * Identity of an issue within its source: its key where the tracker has
+ * one, else its number
+ */
+export function getIssueId(issue: { number: number; key?: string }): string {
+  return issue.key ?? String(issue.number);
+}
+
+/**
+ * Field mappings for the REST issue source, as dot paths into the tracker's
+ * JSON (e.g. "fields.summary", "fields.status.name")
+ */
+export interface RestIssueSourceFields {
+  /** Path to the issue array in list responses (default: the response itself) */
+  items?: string;
+  /** Numeric ID, or a key like "ENG-42" (which also becomes the issue's key) */
+  number: string;
+  /** Key, e.g. "key" or "identifier" */
+  key?: string;
+  title: string;
+  body?: string;
+  /** Tracker status; mapped to open/closed with closedStates */
+  state: string;
+  url?: string;
+  author?: string;
+  createdAt?: string;
+  /** Array of label names, or of objects with a "name" */
+  labels?: string;
+  /** Array of user names, or of objects with a "name"/"login" */
+  assignees?: string;
+  /** Path to the comment array in comment list responses */
+  commentItems?: string;
+  commentId?: string;
+  commentAuthor?: string;
+  commentBody?: string;
+  commentCreatedAt?: string;
+}
+
+/**
+ * Endpoints for the REST issue source, relative to baseUrl. "{number}" and
+ * "{key}" are replaced with the issue's number and key.
+ */
+export interface RestIssueSourceEndpoints {
+  /** GET - all issues to show (required) */
+  list: string;
+  /** GET - one issue */
+  get?: string;
+  /** GET - an issue's comments */
+  comments?: string;
+  /** POST - add a comment */
+  addComment?: string;
+  /** POST - change an issue's status */
+  transition?: string;
+  /** POST - link a pull request (falls back to a comment) */
+  linkPullRequest?: string;
+  /** POST - add and remove labels */
+  labels?: string;
+}
+
+/**
+ * Request bodies for the REST issue source's POST endpoints. String values
+ * may contain {{body}}, {{state}}, {{url}}, {{title}}, {{add}} and {{remove}}
+ * placeholders. A value that is exactly "{{add}}" or "{{remove}}" becomes an
+ * array of label names.
+ */
+export interface RestIssueSourceBodies {
+  /** Default: { "body": "{{body}}" } */
+  addComment?: Record<string, unknown>;
+  /** Default: { "state": "{{state}}" } */
+  transition?: Record<string, unknown>;
+  /** Default: { "url": "{{url}}", "title": "{{title}}" } */
+  linkPullRequest?: Record<string, unknown>;
+  /** Default: { "add": "{{add}}", "remove": "{{remove}}" } */
+  labels?: Record<string, unknown>;
+}
+
+/**
+ * Status sync - keeps features, their issues and their pull requests in step.
+ *
+ * Board to tracker: when a feature linked to an issue changes status, the
+ * issue is moved, labelled and commented on. Tracker to board: when the
+ * feature's pull request is merged or closed, or its issue is closed
+ * upstream, the feature is moved.
+ */
+export interface IssueStatusSync {
+  enabled: boolean;
+  /**
+   * Tracker state to move the issue to for each feature status, e.g.
+   * { "in_progress": "In Progress", "completed": "Done" }. GitHub accepts
+   * "open" and "closed". Statuses without an entry are not synced.
+   */
+  statusMap?: Record<string, string>;
+  /**
+   * Label to put on the issue for each feature status, e.g.
+   * { "in_progress": "automaker: in progress" }. The labels of other statuses
+   * are removed. On GitHub the labels must already exist.
+   */
+  labels?: Record<string, string>;
+  /** Also comment on the issue when its feature changes status */
+  comment?: boolean;
+  /** Feature status when its pull request is merged (default: 'verified') */
+  pullRequestMergedStatus?: string;
+  /** Feature status when its pull request is closed unmerged (default: 'completed') */
+  pullRequestClosedStatus?: string;
+  /** Archive the feature when its issue is closed upstream (default: true) */
+  archiveOnIssueClosed?: boolean;
+}
+
+/** Feature status after its pull request is merged, unless configured */
+export const DEFAULT_PR_MERGED_STATUS = 'verified';
+
+/** Feature status after its pull request is closed unmerged, unless configured */
+export const DEFAULT_PR_CLOSED_STATUS = 'completed';
+
+interface IssueSourceConfigBase {
+  statusSync?: IssueStatusSync;
+}
+
+export interface GitHubIssueSourceConfig extends IssueSourceConfigBase {
+  type: 'github';
+}
+
+export interface RestIssueSourceConfig extends IssueSourceConfigBase {
+  type: 'rest';
+  /** Display name, e.g. "Jira" */
+  name: string;
+  baseUrl: string;
+  /**
+   * Request headers, e.g. { "Authorization": "Bearer ${AUTOMAKER_ISSUES_LINEAR_TOKEN}" }.
+   * ${VAR} is replaced with the server's environment variable, so tokens
+   * stay out of the project's settings file. Only variables starting with
+   * ISSUE_SOURCE_ENV_PREFIX can be used, so a project's settings cannot send
+   * the server's other secrets to its baseUrl.
+   */
+  headers?: Record<string, string>;
+  endpoints: RestIssueSourceEndpoints;
+  fields: RestIssueSourceFields;
+  bodies?: RestIssueSourceBodies;
+  /** Tracker states counted as closed (case-insensitive) */
+  closedStates?: string[];
+}
+
+export type IssueSourceConfig = GitHubIssueSourceConfig | RestIssueSourceConfig;
+
+/** Tracker states counted as closed when closedStates is not configured */
+export const DEFAULT_CLOSED_ISSUE_STATES = ['closed', 'done', 'resolved', 'completed', 'canceled'];
+
+/** Prefix of the environment variables REST issue source headers may use */
+export const ISSUE_SOURCE_ENV_PREFIX = 'AUTOMAKER_ISSUES_';
+
+/**
+ * Which issue source a project uses, as reported to the UI
+ */
+export interface IssueSourceInfo {
+  type: IssueSourceType;
+  /** Display name, e.g. "GitHub" or "Jira" */
+  name: string;
+  /** False when the source can't be used, e.g. no GitHub remote */
+  available: boolean;
+  /** Why the source is unavailable */
+  reason?: string;
+  /** Whether comments can be listed */
+  supportsComments: boolean;
+}
+
+/**
+ * Back-link from a feature to the issue it was created from
+ */
+export interface FeatureIssueLink {
+  source: IssueSourceType;
+  number: number;
+  key?: string;
+  url?: string;
+  title?: string;
+  /** Tracker state last set by status sync */
+  lastSyncedState?: string;
+  /** Feature status last synced to the issue */
+  lastSyncedStatus?: string;
+}
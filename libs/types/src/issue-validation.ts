@@ -57,6 +57,8 @@ export interface LinkedPRInfo {
  */
 export interface IssueValidationInput {
   issueNumber: number;
+  /** Tracker key for keyed issue sources, e.g. "ENG-42" */
+  issueKey?: string;
   issueTitle: string;
   issueBody: string;
   issueLabels?: string[];
@@ -104,6 +106,7 @@ export interface IssueValidationResult {
 export interface IssueValidationResponse {
   success: true;
   issueNumber: number;
+  issueKey?: string;
   validation: IssueValidationResult;
 }
 
@@ -122,18 +125,21 @@ export type IssueValidationEvent =
   | {
       type: 'issue_validation_start';
       issueNumber: number;
+      issueKey?: string;
       issueTitle: string;
       projectPath: string;
     }
   | {
       type: 'issue_validation_progress';
       issueNumber: number;
+      issueKey?: string;
       content: string;
       projectPath: string;
     }
   | {
       type: 'issue_validation_complete';
       issueNumber: number;
+      issueKey?: string;
       issueTitle: string;
       result: IssueValidationResult;
       projectPath: string;
@@ -143,12 +149,14 @@ export type IssueValidationEvent =
   | {
       type: 'issue_validation_error';
       issueNumber: number;
+      issueKey?: string;
       error: string;
       projectPath: string;
     }
   | {
       type: 'issue_validation_viewed';
       issueNumber: number;
+      issueKey?: string;
       projectPath: string;
     };
 
@@ -158,6 +166,8 @@ export type IssueValidationEvent =
 export interface StoredValidation {
   /** GitHub issue number */
   issueNumber: number;
+  /** Tracker key for keyed issue sources, e.g. "ENG-42" */
+  issueKey?: string;
   /** Issue title at time of validation */
   issueTitle: string;
   /** ISO timestamp when validation was performed */
@@ -0,0 +1,69 @@
+/**
+ * Memory Curation Types - Proposed clean-ups of .automaker/memory files
+ *
+ * Learnings are appended to memory files after every feature and never
+ * cleaned up. The curation job scans the files and proposes changes, which
+ * are only written once a human accepts them in the Memory view:
+ * - merge: near-duplicate entries in a file are folded into one
+ * - conflict: two decisions on the same topic contradict each other; the
+ *   human picks which one to keep (dismissing keeps both)
+ * - decay: a file that is loaded often but rarely referenced loses
+ *   importance as its newest entry ages, and its oldest entries are aged out
+ * - summarize: a bloated file is rewritten into a concise summary
+ */
+
+/** Kind of change a curation proposal makes */
+export type MemoryCurationKind = 'merge' | 'conflict' | 'decay' | 'summarize';
+
+/** One line of a line-by-line diff between two versions of a file */
+export interface MemoryDiffLine {
+  type: 'context' | 'addition' | 'deletion';
+  content: string;
+}
+
+/** One way of resolving a conflict proposal */
+export interface MemoryConflictResolution {
+  /** Button label, e.g. "Keep newer decision" */
+  label: string;
+  /** File content after resolving this way */
+  after: string;
+  diff: MemoryDiffLine[];
+}
+
+/**
+ * MemoryCurationProposal - A change to one memory file, awaiting review
+ */
+export interface MemoryCurationProposal {
+  id: string;
+  kind: MemoryCurationKind;
+  /** Memory file the change applies to, e.g. "api.md" */
+  fileName: string;
+  /** Short description of the change */
+  title: string;
+  /** Why the change is proposed */
+  reason: string;
+  /**
+   * Identifies the change across runs, so a dismissed proposal is not
+   * proposed again
+   */
+  fingerprint: string;
+  /** File content when the proposal was made; applying fails if it changed */
+  before: string;
+  /** Proposed file content (not set for conflicts, see resolutions) */
+  after?: string;
+  diff?: MemoryDiffLine[];
+  /** Conflicts only: the ways the human can resolve them */
+  resolutions?: MemoryConflictResolution[];
+  createdAt: string;
+}
+
+/**
+ * MemoryCurationState - Pending proposals for a project
+ */
+export interface MemoryCurationState {
+  proposals: MemoryCurationProposal[];
+  /** Fingerprints of dismissed proposals */
+  dismissed: string[];
+  /** When curation last ran */
+  generatedAt?: string;
+}
@@ -11,8 +11,26 @@
 export type NotificationType =
   | 'feature_waiting_approval'
   | 'feature_verified'
+  | 'feature_failed'
+  | 'plan_approval_required'
   | 'spec_regeneration_complete'
-  | 'agent_complete';
+  | 'agent_complete'
+  | 'budget_warning'
+  | 'budget_exceeded'
+  | 'pr_merged';
+
+/** Human-readable labels for notification types */
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  feature_waiting_approval: 'Feature ready for review',
+  feature_verified: 'Feature verified',
+  feature_failed: 'Feature failed',
+  plan_approval_required: 'Plan approval requested',
+  spec_regeneration_complete: 'Spec regeneration complete',
+  agent_complete: 'Agent complete',
+  budget_warning: 'Budget warning',
+  budget_exceeded: 'Budget exceeded',
+  pr_merged: 'Pull request merged',
+};
 
 /**
  * Notification - A single notification entry
@@ -56,3 +74,99 @@ export const DEFAULT_NOTIFICATIONS_FILE: NotificationsFile = {
   version: NOTIFICATIONS_VERSION,
   notifications: [],
 };
+
+/** Where a notification can be delivered besides the in-app list */
+export type NotificationChannelType = 'desktop' | 'email' | 'webhook';
+
+/** Payload format of a chat webhook */
+export type ChatWebhookFormat = 'slack' | 'discord' | 'teams';
+
+/**
+ * NotificationTemplate - How a channel renders a notification
+ *
+ * Both fields accept {{placeholders}}: title, message, type, typeLabel,
+ * featureId, projectName, projectPath and createdAt.
+ */
+export interface NotificationTemplate {
+  /** Title or email subject (default "{{title}}") */
+  title?: string;
+  /** Body text (default "{{message}}" followed by the project name) */
+  body?: string;
+}
+
+interface NotificationChannelBase {
+  /** Unique identifier for the channel */
+  id: string;
+  /** Display name */
+  name?: string;
+  /** Whether notifications are delivered to this channel */
+  enabled: boolean;
+  /** Notification types routed to this channel; every type when unset or empty */
+  types?: NotificationType[];
+  /** Per-channel rendering */
+  template?: NotificationTemplate;
+}
+
+/** OS notifications shown by the desktop app */
+export interface DesktopNotificationChannel extends NotificationChannelBase {
+  type: 'desktop';
+}
+
+/**
+ * SmtpSettings - Mail server used by email channels
+ *
+ * The password may reference environment variables as ${VAR} so it does not
+ * have to be stored in settings. Only variables starting with
+ * NOTIFICATION_ENV_PREFIX can be used.
+ */
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  /** Connect over TLS (usually port 465); otherwise STARTTLS is used when offered */
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  /**
+   * Sign in even when the connection is not encrypted (no TLS and no
+   * STARTTLS), sending the password in the clear. Off by default.
+   */
+  allowInsecureAuth?: boolean;
+}
+
+/** Email delivered through SMTP */
+export interface EmailNotificationChannel extends NotificationChannelBase {
+  type: 'email';
+  smtp: SmtpSettings;
+  from: string;
+  to: string[];
+}
+
+/** Prefix of the environment variables notification channel settings may use */
+export const NOTIFICATION_ENV_PREFIX = 'AUTOMAKER_NOTIFY_';
+
+/** Slack, Discord or Microsoft Teams incoming webhook */
+export interface WebhookNotificationChannel extends NotificationChannelBase {
+  type: 'webhook';
+  format: ChatWebhookFormat;
+  /** Incoming webhook URL; may reference ${VAR} like SmtpSettings.password */
+  url: string;
+}
+
+/**
+ * NotificationChannel - A destination notifications are routed to
+ * (stored in GlobalSettings.notificationChannels)
+ */
+export type NotificationChannel =
+  | DesktopNotificationChannel
+  | EmailNotificationChannel
+  | WebhookNotificationChannel;
+
+/**
+ * DesktopNotificationPayload - Sent to clients over the notification:desktop event
+ */
+export interface DesktopNotificationPayload {
+  channelId: string;
+  title: string;
+  body: string;
+  notification: Notification;
+}
@@ -2,16 +2,124 @@
  * Pipeline types for AutoMaker custom workflow steps
  */
 
+/**
+ * PipelineStepType - What a pipeline step does
+ *
+ * - agent-prompt: Run the agent with the step instructions (default)
+ * - shell-command: Run a command (lint, tests, ...) in the feature's working
+ *   directory; a non-zero exit code fails the step
+ * - review: Run the agent read-only with the step instructions as review
+ *   criteria; the agent must end with a PASS/FAIL verdict
+ */
+export type PipelineStepType = 'agent-prompt' | 'shell-command' | 'review';
+
+/**
+ * PipelineStepFailureAction - What happens when a step fails
+ *
+ * - stop: Halt the pipeline; the feature waits for review instead of being verified
+ * - retry: Run the step again, up to maxAttempts times in total
+ * - loop-back: Send the failure output back to the implementation agent to fix,
+ *   then re-run the pipeline from its first shell-command or review step, so
+ *   checks that passed before the fix are repeated (up to maxAttempts fixes)
+ * - continue: Record the failure and move on to the next step
+ */
+export type PipelineStepFailureAction = 'stop' | 'retry' | 'loop-back' | 'continue';
+
+export interface PipelineStepFailurePolicy {
+  action: PipelineStepFailureAction;
+  /** For 'retry': total attempts of the step. For 'loop-back': number of fix passes. Default 1 */
+  maxAttempts?: number;
+}
+
+/**
+ * PipelineStepConditions - When a step applies to a feature
+ *
+ * Every condition that is set must match; within a condition any entry may match.
+ * Steps without conditions always run.
+ */
+export interface PipelineStepConditions {
+  /** Feature categories (case-insensitive) */
+  categories?: string[];
+  /** Glob patterns matched against files changed in the feature's working directory */
+  changedFiles?: string[];
+  /** Feature labels (case-insensitive) */
+  labels?: string[];
+}
+
 export interface PipelineStep {
   id: string;
   name: string;
   order: number;
+  /** Agent instructions (agent-prompt) or review criteria (review) */
   instructions: string;
   colorClass: string;
   createdAt: string;
   updatedAt: string;
+  /** Step type (defaults to 'agent-prompt' for steps created before types existed) */
+  type?: PipelineStepType;
+  /** Command to run for shell-command steps */
+  command?: string;
+  /** Timeout for shell-command steps in milliseconds */
+  timeoutMs?: number;
+  /** What to do when the step fails (defaults to stop) */
+  onFailure?: PipelineStepFailurePolicy;
+  /** Only run the step for matching features */
+  conditions?: PipelineStepConditions;
+  /**
+   * Stage name. Consecutive steps (by order) with the same stage run in
+   * parallel, each writing its own output file; outputs are merged into
+   * agent-output.md once every member has finished.
+   */
+  stage?: string;
+}
+
+/**
+ * PipelineStage - A group of steps that run together
+ *
+ * Steps without a stage form a stage of their own.
+ */
+export interface PipelineStage {
+  /** ID of the first step in the stage */
+  id: string;
+  /** Stage name, or the step name for single-step stages */
+  name: string;
+  steps: PipelineStep[];
 }
 
+/**
+ * PipelineStageProgress - The stage a feature is currently running
+ */
+export interface PipelineStageProgress {
+  name: string;
+  steps: Array<{ stepId: string; stepName: string }>;
+  /** ISO timestamp when the stage started; results recorded after it belong to this run */
+  startedAt: string;
+}
+
+/** Outcome of a pipeline step for a feature */
+export type PipelineStepVerdict = 'pass' | 'fail' | 'skipped';
+
+/**
+ * PipelineStepResult - Recorded on the feature for each step of the last pipeline run
+ */
+export interface PipelineStepResult {
+  stepId: string;
+  stepName: string;
+  type: PipelineStepType;
+  verdict: PipelineStepVerdict;
+  /** Number of times the step ran (0 when skipped) */
+  attempts: number;
+  /** Failure reason, review summary or skip reason */
+  summary?: string;
+  /** Stage the step ran in, for steps of parallel stages */
+  stage?: string;
+  /** ISO timestamp when the result was recorded */
+  completedAt: string;
+}
+
+/** Default timeout for shell-command steps (10 minutes) */
+export const DEFAULT_PIPELINE_SHELL_TIMEOUT_MS = 10 * 60 * 1000;
+
 export interface PipelineConfig {
   version: 1;
   steps: PipelineStep[];
@@ -26,4 +134,5 @@ export type FeatureStatusWithPipeline =
   | 'waiting_approval'
   | 'verified'
   | 'completed'
+  | 'budget_exceeded'
   | PipelineStatus;
@@ -0,0 +1,82 @@
+/**
+ * Prompt Budget Types - Token budgets for assembled agent prompts
+ *
+ * Agent prompts are assembled from sections (context files, the feature,
+ * previous agent output, instructions). Each section gets a share of a
+ * token budget derived from the model's context window; sections over
+ * budget are truncated, condensed or dropped, and the outcome is recorded
+ * so it can be inspected per run.
+ */
+
+import type { FeatureUsageSource } from './usage.js';
+
+/**
+ * What happened to a prompt section while fitting it into the budget
+ * - kept: included in full
+ * - truncated: shortened, with a marker where text was cut
+ * - summarized: shortened, with the headings of the cut part kept as an outline
+ * - dropped: left out entirely
+ */
+export type PromptSectionAction = 'kept' | 'truncated' | 'summarized' | 'dropped';
+
+/**
+ * PromptSectionReport - Budget outcome for one section of a prompt
+ */
+export interface PromptSectionReport {
+  /** Stable section ID, e.g. "context-files" */
+  id: string;
+  /** Human-readable section name */
+  label: string;
+  /** Whether the section is part of the system prompt or the prompt */
+  target: 'system' | 'prompt';
+  /** Estimated tokens before fitting */
+  originalTokens: number;
+  /** Estimated tokens after fitting */
+  tokens: number;
+  action: PromptSectionAction;
+}
+
+/**
+ * PromptBudgetReport - How a prompt was fitted to its model
+ */
+export interface PromptBudgetReport {
+  /** Context window of the model, in tokens */
+  contextWindow: number;
+  /** Tokens the assembled sections were allowed to use */
+  budgetTokens: number;
+  sections: PromptSectionReport[];
+}
+
+/**
+ * FeaturePromptRecord - The exact prompt sent for one agent query on a feature
+ *
+ * Stored in {projectPath}/.automaker/features/{featureId}/prompts/{id}.json
+ */
+export interface FeaturePromptRecord {
+  /** Sortable ID (creation time first) */
+  id: string;
+  /** ISO timestamp when the prompt was sent */
+  createdAt: string;
+  /** Lifecycle phase the query belongs to */
+  source: FeatureUsageSource;
+  /** What the query was for, e.g. "Task T002: Add the route" */
+  label: string;
+  /** Pipeline step ID (when source is 'pipeline_step') */
+  stepId?: string;
+  /** Competition candidate ID (when source is 'competition') */
+  candidateId?: string;
+  model: string;
+  /** Estimated tokens of the system prompt and prompt together */
+  estimatedTokens: number;
+  /** Budget outcome, when the prompt was assembled from budgeted sections */
+  budget?: PromptBudgetReport;
+  /** Preset the system prompt was appended to (e.g. "claude_code") */
+  systemPromptPreset?: string;
+  systemPrompt?: string;
+  prompt: string;
+}
+
+/**
+ * FeaturePromptSummary - A prompt record without the prompt text, for listings
+ */
+export type FeaturePromptSummary = Omit<FeaturePromptRecord, 'systemPrompt' | 'prompt'>;
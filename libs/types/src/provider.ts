@@ -9,6 +9,7 @@ import type {
   Credentials,
 } from './settings.js';
 import type { CodexSandboxMode, CodexApprovalPolicy } from './codex.js';
+import type { ProviderUsage } from './usage.js';
 
 /**
  * Reasoning effort levels for Codex/OpenAI models
@@ -264,6 +265,8 @@ export interface ProviderMessage {
   parent_tool_use_id?: string | null;
   /** Structured output from SDK when using outputFormat */
   structured_output?: Record<string, unknown>;
+  /** Normalized token usage (set on result messages when the provider reports it) */
+  usage?: ProviderUsage;
 }
 
 /**
@@ -0,0 +1,110 @@
+/**
+ * Schedule Types - Time-based auto mode runs and recurring jobs
+ *
+ * Schedules are configured per project in ProjectSettings.schedules. The
+ * server's scheduler checks them once a minute: auto mode schedules start
+ * and stop auto loops for a worktree, and scheduled jobs run background work
+ * such as ideation analysis or issue validation. What the scheduler has
+ * started is recorded in the project's execution-state.json so it can pick
+ * up where it left off after a restart.
+ */
+
+/**
+ * ScheduleTrigger - When an auto mode schedule runs
+ * - cron: starts on a 5-field cron expression (minute hour day-of-month month
+ *   day-of-week, server local time) and stops after durationMinutes, or runs
+ *   until stopped by hand when no duration is set
+ * - window: runs from start to end ("HH:MM", server local time) on the given
+ *   days of the week (0 = Sunday). A window whose end is not after its start
+ *   crosses midnight and belongs to the day it starts on.
+ */
+export type ScheduleTrigger =
+  | { type: 'cron'; expression: string; durationMinutes?: number }
+  | { type: 'window'; days: number[]; start: string; end: string };
+
+/**
+ * AutoModeSchedule - Starts and stops auto mode for a worktree on a schedule
+ */
+export interface AutoModeSchedule {
+  /** Unique schedule ID */
+  id: string;
+  /** Optional display name, e.g. "Weeknights" */
+  name?: string;
+  /** Disabled schedules are kept but never fire */
+  enabled: boolean;
+  /** Worktree branch to run auto mode for, null for the main worktree */
+  branchName: string | null;
+  /** Max concurrent features (falls back to the worktree/global setting) */
+  maxConcurrency?: number;
+  /** When the schedule runs */
+  trigger: ScheduleTrigger;
+}
+
+/**
+ * Recurring background jobs the scheduler can run
+ * - ideation_analysis: re-runs project analysis and refreshes its suggestions
+ * - issue_validation: validates open issues (from the project's issue source)
+ *   that have no validation yet
+ * - memory_curation: proposes merges, conflict fixes, decay and summaries for
+ *   memory files, for review in the Memory view
+ */
+export type ScheduledJobType = 'ideation_analysis' | 'issue_validation' | 'memory_curation';
+
+/**
+ * ScheduledJob - A background job run on a cron expression
+ */
+export interface ScheduledJob {
+  /** Unique job ID */
+  id: string;
+  /** Optional display name */
+  name?: string;
+  /** Disabled jobs are kept but never run */
+  enabled: boolean;
+  /** What to run */
+  type: ScheduledJobType;
+  /** 5-field cron expression (server local time) */
+  cron: string;
+  /** Model to use for jobs that call one (issue validation) */
+  model?: string;
+  /** Maximum issues to validate per run (issue validation, default 5) */
+  maxIssues?: number;
+}
+
+/**
+ * ScheduleSettings - Schedules configured for a project
+ */
+export interface ScheduleSettings {
+  /** Auto mode windows and cron-triggered runs */
+  autoMode?: AutoModeSchedule[];
+  /** Recurring background jobs */
+  jobs?: ScheduledJob[];
+}
+
+/**
+ * ScheduledAutoModeRun - An auto mode run the scheduler has started
+ */
+export interface ScheduledAutoModeRun {
+  /** Schedule that fired */
+  scheduleId: string;
+  /** Worktree branch, null for the main worktree */
+  branchName: string | null;
+  /** ISO timestamp of the occurrence that fired (window start or cron match) */
+  occurrence: string;
+  /** ISO timestamp when the scheduler should stop the loop, null to leave it running */
+  stopAt: string | null;
+  /** False when auto mode was already running, in which case it is not stopped at stopAt */
+  startedLoop: boolean;
+}
+
+/**
+ * SchedulerState - Scheduler bookkeeping persisted with a project's execution state
+ */
+export interface SchedulerState {
+  /** Runs started by the scheduler that have not reached their stop time */
+  activeRuns: ScheduledAutoModeRun[];
+  /** ISO timestamp of the last occurrence each job ran for, keyed by job ID */
+  lastJobRuns: Record<string, string>;
+}
+
+/** Maximum issues validated per scheduled issue validation run */
+export const DEFAULT_SCHEDULED_VALIDATION_MAX_ISSUES = 5;
@@ -18,6 +18,12 @@ import { getAllCopilotModelIds, DEFAULT_COPILOT_MODEL } from './copilot-models.j
 import type { PromptCustomization } from './prompts.js';
 import type { CodexSandboxMode, CodexApprovalPolicy } from './codex.js';
 import type { ReasoningEffort } from './provider.js';
+import type { BudgetSettings } from './usage.js';
+import type { ScheduleSettings } from './schedule.js';
+import type { IssueSourceConfig } from './issue-source.js';
+import type { InboundHook } from './inbound-hook.js';
+import type { NotificationChannel } from './notification.js';
+import type { EventType } from './event.js';
 
 // Re-export ModelAlias for convenience
 export type { ModelAlias };
@@ -592,20 +598,48 @@ export const CLAUDE_API_PROFILE_TEMPLATES: ClaudeApiProfileTemplate[] = [
 // ============================================================================
 
 /**
- * EventHookTrigger - Event types that can trigger custom hooks
+ * EventHookNamedTrigger - Named triggers derived from server events
  *
  * - feature_created: A new feature was created
  * - feature_success: Feature completed successfully
  * - feature_error: Feature failed with an error
  * - auto_mode_complete: Auto mode finished processing all features
  * - auto_mode_error: Auto mode encountered a critical error and paused
+ * - budget_exceeded: A feature or project hit its token, cost or time budget
+ * - pipeline_step_started: A pipeline step started running for a feature
+ * - pipeline_step_completed: A pipeline step finished (pass or fail)
+ * - plan_generated: A feature's plan was generated
+ * - plan_approved: A plan was approved by the user or auto-approved
+ * - worktree_created: A worktree was created for a branch
+ * - worktree_merged: A worktree branch was merged
+ * - pr_created: A pull request was created from a worktree
+ * - test_run_failed: A test run finished with failures
+ * - dev_server_crashed: A dev server exited unexpectedly
  */
-export type EventHookTrigger =
+export type EventHookNamedTrigger =
   | 'feature_created'
   | 'feature_success'
   | 'feature_error'
   | 'auto_mode_complete'
-  | 'auto_mode_error';
+  | 'auto_mode_error'
+  | 'budget_exceeded'
+  | 'pipeline_step_started'
+  | 'pipeline_step_completed'
+  | 'plan_generated'
+  | 'plan_approved'
+  | 'worktree_created'
+  | 'worktree_merged'
+  | 'pr_created'
+  | 'test_run_failed'
+  | 'dev_server_crashed';
+
+/**
+ * EventHookTrigger - What a hook listens to
+ *
+ * Either a named trigger, or any server EventType as emitted
+ * (e.g. 'worktree:pushed'), with the event payload as hook variables.
+ */
+export type EventHookTrigger = EventHookNamedTrigger | EventType;
 
 /** HTTP methods supported for webhook requests */
 export type EventHookHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH';
@@ -624,6 +658,30 @@ export interface EventHookShellAction {
   timeout?: number;
 }
 
+/**
+ * EventHookRetryPolicy - How failed HTTP hook requests are retried
+ *
+ * Requests go through a durable outbox, so retries survive server restarts.
+ * Network errors, timeouts, 408, 429 and 5xx responses are retried with
+ * exponential backoff (backoffMs, then twice that, and so on, at most an hour
+ * apart). Deliveries that run out of attempts move to the dead-letter list.
+ */
+export interface EventHookRetryPolicy {
+  /** Total attempts including the first (1 = no retries) */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds (default: 30000) */
+  backoffMs?: number;
+}
+
+/** Retry policy for HTTP hooks that don't set one (about an hour of retries) */
+export const DEFAULT_EVENT_HOOK_RETRY_POLICY: Required<EventHookRetryPolicy> = {
+  maxAttempts: 8,
+  backoffMs: 30000,
+};
+
+/** Prefix of the environment variables HTTP event hook secrets may use */
+export const EVENT_HOOK_ENV_PREFIX = 'AUTOMAKER_WEBHOOKS_';
+
 /**
  * EventHookHttpAction - Configuration for making an HTTP webhook request
  *
@@ -639,11 +697,36 @@ export interface EventHookHttpAction {
   headers?: Record<string, string>;
   /** Optional request body (JSON string). Supports {{variable}} substitution. */
   body?: string;
+  /** Retry failed requests (default: DEFAULT_EVENT_HOOK_RETRY_POLICY) */
+  retry?: EventHookRetryPolicy;
+  /**
+   * Secret for signing requests. Supports ${VAR} with variables starting with
+   * EVENT_HOOK_ENV_PREFIX. When set, requests carry
+   * X-Automaker-Signature: sha256=HMAC-SHA256(secret, "{timestamp}.{body}")
+   * with the timestamp from X-Automaker-Timestamp.
+   */
+  secret?: string;
 }
 
 /** Union type for all hook action configurations */
 export type EventHookAction = EventHookShellAction | EventHookHttpAction;
 
+/** How an event hook filter compares a payload field */
+export type EventHookFilterOperator = 'equals' | 'not_equals' | 'contains' | 'matches';
+
+/**
+ * EventHookFilter - Condition on the event payload
+ *
+ * The field is any hook variable (category, branchName, model, errorType,
+ * stepName, ...). equals/not_equals/contains ignore case; matches is a
+ * regular expression.
+ */
+export interface EventHookFilter {
+  field: string;
+  operator: EventHookFilterOperator;
+  value: string;
+}
+
 /**
  * EventHook - Configuration for a single event hook
  *
@@ -658,6 +741,9 @@ export type EventHookAction = EventHookShellAction | EventHookHttpAction;
  * - {{error}} - Error message (for error events)
  * - {{timestamp}} - ISO timestamp of the event
  * - {{eventType}} - The event type that triggered the hook
+ * - {{category}}, {{branchName}}, {{model}} - From the feature, when there is one
+ * - Any other text, number or boolean field of the event payload, such as
+ *   {{stepName}}, {{verdict}}, {{prUrl}}, {{exitCode}} or {{worktreePath}}
  */
 export interface EventHook {
   /** Unique identifier for this hook */
@@ -670,15 +756,44 @@ export interface EventHook {
   action: EventHookAction;
   /** Optional friendly name for display */
   name?: string;
+  /** Conditions that must all hold for the hook to run */
+  filters?: EventHookFilter[];
 }
 
 /** Human-readable labels for event hook triggers */
-export const EVENT_HOOK_TRIGGER_LABELS: Record<EventHookTrigger, string> = {
+export const EVENT_HOOK_TRIGGER_LABELS: Record<EventHookNamedTrigger, string> = {
   feature_created: 'Feature created',
   feature_success: 'Feature completed successfully',
   feature_error: 'Feature failed with error',
   auto_mode_complete: 'Auto mode completed all features',
   auto_mode_error: 'Auto mode paused due to error',
+  budget_exceeded: 'Budget limit exceeded',
+  pipeline_step_started: 'Pipeline step started',
+  pipeline_step_completed: 'Pipeline step completed',
+  plan_generated: 'Plan generated',
+  plan_approved: 'Plan approved',
+  worktree_created: 'Worktree created',
+  worktree_merged: 'Worktree merged',
+  pr_created: 'Pull request created',
+  test_run_failed: 'Test run failed',
+  dev_server_crashed: 'Dev server crashed',
+};
+
+/**
+ * Human-readable label for an event hook trigger (event types are shown as is)
+ */
+export function getEventHookTriggerLabel(trigger: EventHookTrigger): string {
+  return trigger in EVENT_HOOK_TRIGGER_LABELS
+    ? EVENT_HOOK_TRIGGER_LABELS[trigger as EventHookNamedTrigger]
+    : trigger;
+}
+
+/** Human-readable labels for event hook filter operators */
+export const EVENT_HOOK_FILTER_OPERATOR_LABELS: Record<EventHookFilterOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  matches: 'matches',
 };
 
 const DEFAULT_CODEX_AUTO_LOAD_AGENTS = false;
@@ -737,6 +852,8 @@ export interface PhaseModelConfig {
   // Validation tasks - recommend smart models (Sonnet, Opus)
   /** Model for validating and improving GitHub issues */
   validationModel: PhaseModelEntry;
+  /** Model for judging features against their acceptance criteria */
+  acceptanceJudgeModel: PhaseModelEntry;
 
   // Generation tasks - recommend powerful models (Opus, Sonnet)
   /** Model for generating full application specifications */
@@ -939,6 +1056,29 @@ export interface ChatSessionRef {
   archived: boolean;
 }
 
+/**
+ * RetryPolicy - How auto mode recovers when a feature's agent run fails
+ *
+ * Rate-limited runs are retried on the same model with exponential backoff,
+ * waiting at least as long as the provider's Retry-After hint. Runs that fail
+ * on quota exhaustion or authentication (or keep hitting rate limits) move on
+ * to the next model in fallbackModels, which can belong to another provider.
+ * Other errors are not retried.
+ */
+export interface RetryPolicy {
+  /** Retries on the same model after a rate limit (default: 2, 0 disables) */
+  maxRetries?: number;
+  /** Delay before the first retry in seconds, doubled for each retry (default: 30) */
+  initialBackoffSeconds?: number;
+  /** Upper bound for a single backoff delay in seconds (default: 300) */
+  maxBackoffSeconds?: number;
+  /**
+   * Models to try, in order, after the feature's own model gives up.
+   * Accepts aliases and provider-prefixed IDs, e.g. ['sonnet', 'codex-gpt-5.2'].
+   */
+  fallbackModels?: string[];
+}
+
 /**
  * GlobalSettings - User preferences and state stored globally in {DATA_DIR}/settings.json
  *
@@ -1030,6 +1170,8 @@ export interface GlobalSettings {
   enableDependencyBlocking: boolean;
   /** Skip verification requirement in auto-mode (treat 'completed' same as 'verified') */
   skipVerificationInAutoMode: boolean;
+  /** Retry and model fallback policy for failed agent runs */
+  retryPolicy?: RetryPolicy;
   /** Default: use git worktrees for feature branches */
   useWorktrees: boolean;
   /** Default: planning approach (skip/lite/spec/full) */
@@ -1215,6 +1357,13 @@ export interface GlobalSettings {
    */
   eventHooks?: EventHook[];
 
+  // Notification Channels Configuration
+  /**
+   * Desktop, email and chat webhook channels notifications are routed to
+   * @see NotificationChannel for configuration details
+   */
+  notificationChannels?: NotificationChannel[];
+
   // Claude-Compatible Providers Configuration
   /**
    * Claude-compatible provider configurations.
@@ -1383,6 +1532,32 @@ export interface ProjectSettings {
   automodeEnabled?: boolean;
   /** Maximum concurrent agents for this project (overrides global maxConcurrency) */
   maxConcurrentAgents?: number;
+  /**
+   * Spend ceilings for auto mode. When a limit is hit the running agent is
+   * aborted and the feature moves to 'budget_exceeded' (per-feature) or the
+   * auto loop is stopped (per-project).
+   */
+  budget?: BudgetSettings;
+  /**
+   * Retry and model fallback policy for failed agent runs.
+   * Fields set here override the global retryPolicy.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Auto mode windows, cron-triggered runs and recurring jobs
+   * run by the server's scheduler.
+   */
+  schedules?: ScheduleSettings;
+  /**
+   * Issue tracker feeding the issues view and issue validation.
+   * Defaults to GitHub issues through the gh CLI.
+   */
+  issueSource?: IssueSourceConfig;
+  /**
+   * Webhooks external systems call to create features, start auto mode
+   * or add follow-ups (POST /api/inbound/:hookId)
+   */
+  inboundHooks?: InboundHook[];
 
   // Test Runner Configuration
   /**
@@ -1466,6 +1641,7 @@ export const DEFAULT_PHASE_MODELS: PhaseModelConfig = {
 
   // Validation - use smart models for accuracy
   validationModel: { model: 'claude-sonnet' },
+  acceptanceJudgeModel: { model: 'claude-sonnet' },
 
   // Generation - use powerful models for quality
   specGenerationModel: { model: 'claude-opus' },
@@ -1515,6 +1691,14 @@ export const DEFAULT_KEYBOARD_SHORTCUTS: KeyboardShortcuts = {
   closeTerminal: 'Alt+W',
 };
 
+/** Retry policy used for fields not set in global or project settings */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 2,
+  initialBackoffSeconds: 30,
+  maxBackoffSeconds: 300,
+  fallbackModels: [],
+};
+
 /** Default global settings used when no settings file exists */
 export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   version: SETTINGS_VERSION,
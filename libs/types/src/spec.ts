@@ -14,6 +14,8 @@ export interface SpecOutput {
     name: string;
     description: string;
     file_locations?: string[];
+    /** Automaker features that implemented this feature */
+    feature_ids?: string[];
   }>;
   additional_requirements?: string[];
   development_guidelines?: string[];
@@ -21,9 +23,79 @@ export interface SpecOutput {
     phase: string;
     status: 'completed' | 'in_progress' | 'pending';
     description: string;
+    /** Automaker features that belong to this phase */
+    feature_ids?: string[];
+    file_locations?: string[];
   }>;
 }
 
+/**
+ * Kind of spec item a feature or coverage entry refers to
+ * - capability: an entry of core_capabilities
+ * - implemented_feature: an entry of implemented_features
+ * - roadmap_phase: a phase of implementation_roadmap
+ */
+export type SpecItemKind = 'capability' | 'implemented_feature' | 'roadmap_phase';
+
+/**
+ * FeatureSpecLink - The spec item a feature was created for
+ *
+ * Items are referred to by name, which is how app_spec.txt identifies them.
+ */
+export interface FeatureSpecLink {
+  kind: SpecItemKind;
+  name: string;
+}
+
+/**
+ * How a spec item has drifted from the code and board
+ * - missing_files: some of its file locations no longer exist
+ * - heavily_changed: some of its files changed a lot since the spec was last updated
+ * - no_feature: nothing implements it (capabilities, and roadmap phases not yet completed)
+ */
+export type SpecDriftType = 'missing_files' | 'heavily_changed' | 'no_feature';
+
+/**
+ * SpecFileChange - A file of a spec item that changed since the spec was last updated
+ */
+export interface SpecFileChange {
+  path: string;
+  /** Lines added plus lines removed */
+  linesChanged: number;
+  /** Current length of the file, in lines */
+  lineCount: number;
+}
+
+/**
+ * SpecCoverageItem - Traceability of one spec item to features and code
+ */
+export interface SpecCoverageItem {
+  kind: SpecItemKind;
+  name: string;
+  description?: string;
+  /** Roadmap phase status */
+  status?: 'completed' | 'in_progress' | 'pending';
+  /** Automaker features linked to the item (listed in the spec or via their specLink) */
+  featureIds: string[];
+  /** Names of implemented_features entries that cover a capability */
+  implementedBy?: string[];
+  fileLocations: string[];
+  missingFiles: string[];
+  changedFiles: SpecFileChange[];
+  drift: SpecDriftType[];
+}
+
+/**
+ * SpecCoverageReport - Coverage matrix and drift of a project's spec
+ */
+export interface SpecCoverageReport {
+  /** ISO timestamp when the report was built */
+  generatedAt: string;
+  /** ISO timestamp when app_spec.txt was last written; file changes are counted from here */
+  specUpdatedAt: string;
+  items: SpecCoverageItem[];
+}
+
 /**
  * JSON Schema for structured spec output
  * Used with Claude's structured output feature for reliable parsing
@@ -68,6 +140,11 @@ export const specOutputSchema = {
             items: { type: 'string' },
             description: 'File paths where this feature is implemented',
           },
+          feature_ids: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'IDs of Automaker features that implemented this feature, if known',
+          },
         },
         required: ['name', 'description'],
       },
@@ -101,6 +178,16 @@ export const specOutputSchema = {
             type: 'string',
             description: 'Description of what this phase involves',
           },
+          feature_ids: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'IDs of Automaker features that belong to this phase, if known',
+          },
+          file_locations: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'File paths where this phase is implemented',
+          },
         },
         required: ['phase', 'status', 'description'],
       },
@@ -0,0 +1,235 @@
+/**
+ * Usage Types - Token and cost accounting for agent runs
+ *
+ * Providers report token usage on their result messages in a normalized
+ * shape (ProviderUsage). Auto mode rolls those reports up per feature and
+ * stores them in {projectPath}/.automaker/features/{featureId}/usage.json
+ * so the board can show what each card cost.
+ */
+
+/**
+ * ProviderUsage - Normalized token usage reported by a provider
+ *
+ * Attached to `result` messages. Each message carries the usage for the
+ * query (or step) it completes, so consumers can simply sum them.
+ */
+export interface ProviderUsage {
+  /** Uncached input (prompt) tokens */
+  inputTokens: number;
+  /** Output (completion) tokens, including reasoning tokens where reported */
+  outputTokens: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number;
+  /** Cost in USD when the provider reports it directly */
+  costUsd?: number;
+}
+
+/**
+ * UsageTotals - Accumulated token counts and cost
+ */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Cost in USD (provider-reported or estimated from MODEL_PRICING) */
+  costUsd: number;
+}
+
+/**
+ * Where the cost of a usage entry came from
+ * - provider: reported by the provider itself
+ * - estimated: calculated from MODEL_PRICING
+ * - unknown: no pricing available for the model (costUsd is 0)
+ */
+export type UsageCostSource = 'provider' | 'estimated' | 'unknown';
+
+/**
+ * Which part of a feature's lifecycle produced a usage entry
+ */
+export type FeatureUsageSource =
+  | 'implementation'
+  | 'pipeline_step'
+  | 'follow_up'
+  | 'acceptance_judge'
+  | 'competition';
+
+/**
+ * FeatureUsageEntry - Usage recorded for a single provider query
+ */
+export interface FeatureUsageEntry {
+  /** ISO timestamp when the usage was recorded */
+  timestamp: string;
+  /** Lifecycle phase that produced this usage */
+  source: FeatureUsageSource;
+  /** Pipeline step ID (when source is 'pipeline_step') */
+  stepId?: string;
+  /** Pipeline step name (when source is 'pipeline_step') */
+  stepName?: string;
+  /** Competition candidate ID (when source is 'competition') */
+  candidateId?: string;
+  /** Model that produced the usage */
+  model: string;
+  /** Provider that executed the query */
+  provider: string;
+  /** Token counts and cost for this query */
+  usage: UsageTotals;
+  /** Where the cost came from */
+  costSource: UsageCostSource;
+}
+
+/**
+ * FeatureUsage - Structure of a feature's usage.json file
+ */
+export interface FeatureUsage {
+  /** Version for future migrations */
+  version: number;
+  /** Feature this usage belongs to */
+  featureId: string;
+  /** Sum of all entries */
+  totals: UsageTotals;
+  /** Totals broken down by lifecycle phase */
+  bySource: Partial<Record<FeatureUsageSource, UsageTotals>>;
+  /** Totals keyed by competition candidate ID (features that ran a competition) */
+  byCandidate?: Record<string, UsageTotals>;
+  /** Individual usage entries in the order they were recorded */
+  entries: FeatureUsageEntry[];
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
+
+/**
+ * ProjectUsageSummary - Usage totals for every feature in a project
+ */
+export interface ProjectUsageSummary {
+  /** Sum across all features */
+  totals: UsageTotals;
+  /** Totals keyed by feature ID (features without usage are omitted) */
+  features: Record<string, UsageTotals>;
+}
+
+/**
+ * BudgetLimits - Spend ceilings for auto mode
+ *
+ * Any limit left unset (or set to 0) is not enforced.
+ */
+export interface BudgetLimits {
+  /** Maximum tokens (input, output and cache) */
+  maxTokens?: number;
+  /** Maximum cost in USD */
+  maxCostUsd?: number;
+  /** Maximum wall-clock minutes */
+  maxMinutes?: number;
+}
+
+/**
+ * BudgetSettings - Per-project and per-feature budgets (stored in ProjectSettings)
+ *
+ * - project: measured from when the auto loop was started, so restarting
+ *   auto mode starts a fresh budget
+ * - feature: tokens and cost are the feature's lifetime totals from usage.json,
+ *   minutes are the duration of the current run
+ */
+export interface BudgetSettings {
+  project?: BudgetLimits;
+  feature?: BudgetLimits;
+  /** Percent of a limit at which a budget_warning notification is sent (default 80, 0 disables) */
+  warnAtPercent?: number;
+}
+
+/** Default BudgetSettings.warnAtPercent */
+export const DEFAULT_BUDGET_WARN_PERCENT = 80;
+
+/** Which budget limit was hit */
+export type BudgetLimitKind = 'tokens' | 'cost' | 'minutes';
+
+/** What a budget is measured against */
+export type BudgetScope = 'project' | 'feature';
+
+/**
+ * BudgetSpend - Amount consumed against a budget
+ */
+export interface BudgetSpend {
+  tokens: number;
+  costUsd: number;
+  minutes: number;
+}
+
+/**
+ * BudgetExceeded - Details of the first limit that was exceeded
+ */
+export interface BudgetExceeded {
+  limit: BudgetLimitKind;
+  /** Configured limit (tokens, USD or minutes) */
+  limitValue: number;
+  /** Amount consumed when the limit was hit */
+  actual: number;
+}
+
+/**
+ * ModelPricing - USD price per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Price for cache reads (defaults to input price) */
+  cacheRead?: number;
+  /** Price for cache writes (defaults to input price) */
+  cacheWrite?: number;
+}
+
+/** Current version of the usage.json schema */
+export const FEATURE_USAGE_VERSION = 1;
+
+/** Zeroed usage totals */
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  costUsd: 0,
+};
+
+/**
+ * Public list prices used to estimate cost when a provider does not report it.
+ *
+ * Entries are matched in order against the lowercased model ID (provider
+ * prefixes like `codex-` or `copilot-` are fine since this is a substring
+ * match), so more specific patterns must come first. Subscription-backed
+ * models without a per-token price (e.g. `cursor-auto`) are intentionally
+ * absent and recorded with an 'unknown' cost source.
+ */
+export const MODEL_PRICING: ReadonlyArray<{ match: string; pricing: ModelPricing }> = [
+  // Claude
+  {
+    match: 'opus-4-5',
+    pricing: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  },
+  {
+    match: 'opus-4.5',
+    pricing: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  },
+  { match: 'opus', pricing: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 } },
+  { match: 'sonnet', pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 } },
+  {
+    match: 'haiku-4-5',
+    pricing: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  },
+  {
+    match: 'haiku-4.5',
+    pricing: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  },
+  { match: 'haiku', pricing: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 } },
+  // OpenAI
+  { match: 'gpt-5.1-codex-mini', pricing: { input: 0.25, output: 2, cacheRead: 0.025 } },
+  { match: 'gpt-5-mini', pricing: { input: 0.25, output: 2, cacheRead: 0.025 } },
+  { match: 'gpt-5.2', pricing: { input: 1.75, output: 14, cacheRead: 0.175 } },
+  { match: 'gpt-5', pricing: { input: 1.25, output: 10, cacheRead: 0.125 } },
+  // Gemini
+  { match: 'gemini-3-pro', pricing: { input: 2, output: 12, cacheRead: 0.2 } },
+  { match: 'gemini-2.5-pro', pricing: { input: 1.25, output: 10, cacheRead: 0.125 } },
+  { match: 'gemini-2.5-flash-lite', pricing: { input: 0.1, output: 0.4, cacheRead: 0.01 } },
+  { match: 'flash', pricing: { input: 0.3, output: 2.5, cacheRead: 0.03 } },
+];
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getIdeaScore, getTypicalIdeaReach } from '../src/ideation.js';
+
+describe('ideation.ts', () => {
+  describe('getIdeaScore', () => {
+    it('should compute a RICE score when the idea has a reach estimate', () => {
+      expect(
+        getIdeaScore({ impact: 'high', effort: 'medium', confidence: 'medium', reach: 100 })
+      ).toEqual({ score: 120, method: 'RICE' });
+    });
+
+    it('should fall back to an ICE score without a reach estimate', () => {
+      expect(getIdeaScore({ impact: 'high', effort: 'low', confidence: 'high' })).toEqual({
+        score: 3,
+        method: 'ICE',
+      });
+      expect(getIdeaScore({ impact: 'high', effort: 'low', confidence: 'high', reach: 0 })).toEqual(
+        { score: 3, method: 'ICE' }
+      );
+    });
+
+    it('should scale ideas without a reach estimate by the assumed reach', () => {
+      expect(getIdeaScore({ impact: 'medium', effort: 'medium' }, 50)).toEqual({
+        score: 40,
+        method: 'ICE',
+      });
+      // An idea's own reach wins over the assumed one
+      expect(getIdeaScore({ impact: 'medium', effort: 'medium', reach: 10 }, 50).score).toBe(8);
+    });
+
+    it('should round scores to two decimals', () => {
+      expect(getIdeaScore({ impact: 'low', effort: 'high', confidence: 'low' }).score).toBe(0.17);
+    });
+  });
+
+  describe('getTypicalIdeaReach', () => {
+    it('should return the median reach of ideas with an estimate', () => {
+      expect(getTypicalIdeaReach([{ reach: 10 }, { reach: 500 }, { reach: 40 }, {}])).toBe(40);
+      expect(getTypicalIdeaReach([{ reach: 10 }, { reach: 40 }, { reach: 0 }])).toBe(25);
+    });
+
+    it('should return 1 when no idea has a reach estimate', () => {
+      expect(getTypicalIdeaReach([])).toBe(1);
+      expect(getTypicalIdeaReach([{}, { reach: 0 }])).toBe(1);
+    });
+  });
+});
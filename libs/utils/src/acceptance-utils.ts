@@ -0,0 +1,118 @@
+/**
+ * Acceptance criteria utilities
+ *
+ * Extracts acceptance criteria from enhanced feature descriptions and parses
+ * the per-criterion results reported by the acceptance judge.
+ */
+
+import type { AcceptanceCriterion } from '@automaker/types';
+
+/**
+ * Matches the heading that opens an acceptance criteria section, e.g.
+ * "Acceptance Criteria:", "## Acceptance Criteria" or "**Acceptance Criteria**"
+ */
+const CRITERIA_HEADING_PATTERN = /^[\s#*_]*acceptance criteria[\s*_]*:?[\s*_]*$/i;
+
+/** Matches a numbered or bulleted list item and captures its text */
+const LIST_ITEM_PATTERN = /^\s*(?:\d+[.)]|[-*+])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+
+/** Matches a markdown heading or a "Label:" line that ends the section */
+const SECTION_END_PATTERN = /^\s*(?:#{1,6}\s|\*\*[^*]+\*\*:?\s*$|[A-Z][\w ]{0,40}:\s*$)/;
+
+/**
+ * Matches a judge result line such as
+ * "CRITERION AC1: PASS | score: 90 | evidence: covered by login.test.ts"
+ */
+const CRITERION_RESULT_PATTERN =
+  /^[ \t>*_#-]*criterion[ \t*_]+([\w.-]+)[ \t*_]*:[ \t*_]*(pass|fail)\b[ \t*_]*(.*)$/gim;
+
+/**
+ * Extract the acceptance criteria listed in a feature description
+ *
+ * Looks for an "Acceptance Criteria" heading (as produced by the `acceptance`
+ * enhancement mode) and returns the numbered or bulleted items below it.
+ * Continuation lines are joined onto their item.
+ *
+ * @param text - Feature description
+ * @returns Criterion descriptions in order, or an empty array if there is no section
+ */
+export function extractAcceptanceCriteria(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  const start = lines.findIndex((line) => CRITERIA_HEADING_PATTERN.test(line));
+  if (start === -1) {
+    return [];
+  }
+
+  const items: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item) {
+      items.push(item[1].trim());
+    } else if (!line.trim()) {
+      continue;
+    } else if (SECTION_END_PATTERN.test(line)) {
+      break;
+    } else if (items.length > 0) {
+      items[items.length - 1] += ` ${line.trim()}`;
+    }
+  }
+
+  return items.filter(Boolean);
+}
+
+/**
+ * Apply the acceptance judge's output to a feature's criteria
+ *
+ * Each criterion is updated from its "CRITERION <id>: PASS|FAIL" line; the
+ * last line for an ID wins. A "score" and "evidence" may follow on the same
+ * line, separated by "|". Criteria the judge did not report on fail, since
+ * nothing shows they are met.
+ *
+ * @param output - Judge output
+ * @param criteria - The criteria the judge was asked to score
+ * @returns Updated copies of the criteria
+ */
+export function applyAcceptanceJudgement(
+  output: string,
+  criteria: AcceptanceCriterion[]
+): AcceptanceCriterion[] {
+  const results = new Map<string, { pass: boolean; score?: number; evidence?: string }>();
+
+  for (const match of output.matchAll(CRITERION_RESULT_PATTERN)) {
+    const details = match[3].split('|').map((part) => part.trim());
+    let score: number | undefined;
+    const evidence: string[] = [];
+    for (const part of details) {
+      const scoreMatch = /^score\s*[:=]?\s*(\d{1,3})\b/i.exec(part);
+      if (scoreMatch && score === undefined) {
+        score = Math.min(100, Number(scoreMatch[1]));
+      } else if (part) {
+        evidence.push(part.replace(/^evidence\s*[:=]\s*/i, ''));
+      }
+    }
+
+    results.set(match[1].toLowerCase(), {
+      pass: match[2].toLowerCase() === 'pass',
+      score,
+      evidence: evidence.join(' | ').slice(0, 1000) || undefined,
+    });
+  }
+
+  return criteria.map((criterion) => {
+    const result = results.get(criterion.id.toLowerCase());
+    if (!result) {
+      return {
+        ...criterion,
+        status: 'fail',
+        score: undefined,
+        evidence: 'The judge did not report on this criterion',
+      };
+    }
+    return {
+      ...criterion,
+      status: result.pass ? 'pass' : 'fail',
+      score: result.score,
+      evidence: result.evidence,
+    };
+  });
+}
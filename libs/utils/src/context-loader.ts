@@ -15,6 +15,7 @@
 
 import path from 'path';
 import { secureFs } from '@automaker/platform';
+import type { ContextAgentType, ContextFileMetadata, ContextFileScope } from '@automaker/types';
 import {
   getMemoryDir,
   parseFrontmatter,
@@ -26,13 +27,21 @@ import {
   type MemoryFsModule,
   type MemoryMetadata,
 } from './memory-loader.js';
+import {
+  buildMemoryDocumentText,
+  defaultMemoryRetriever,
+  hybridRelevance,
+  scoreMemoryDocuments,
+  type MemoryRetriever,
+} from './memory-retrieval.js';
+import { matchesGlob } from './path-utils.js';
 
 /**
  * Metadata structure for context files
  * Stored in {projectPath}/.automaker/context/context-metadata.json
  */
 export interface ContextMetadata {
-  files: Record<string, { description: string }>;
+  files: Record<string, ContextFileMetadata>;
 }
 
 /**
@@ -55,12 +64,21 @@ export interface MemoryFileInfo {
   category: string;
 }
 
+/**
+ * Context file left out because its scope doesn't match the task
+ */
+export interface SkippedContextFile {
+  name: string;
+  reason: string;
+}
+
 /**
  * Result of loading context files
  */
 export interface ContextFilesResult {
   files: ContextFileInfo[];
   memoryFiles: MemoryFileInfo[];
+  skippedFiles: SkippedContextFile[];
   formattedPrompt: string;
 }
 
@@ -80,13 +98,24 @@ export interface ContextFsModule {
 }
 
 /**
- * Task context for smart memory selection
+ * Task context for smart memory selection and context file scoping
  */
 export interface TaskContext {
   /** Title or name of the current task/feature */
   title: string;
   /** Description of what the task involves */
   description?: string;
+  /** Feature category */
+  category?: string;
+  /** Agent types the prompt is for (e.g. a plan-first run is planning and implementation) */
+  agentTypes?: ContextAgentType[];
+  /** Pipeline step the prompt is for */
+  pipelineStepId?: string;
+  /**
+   * Paths the task has changed or is planned to change. Paths mentioned in
+   * the title and description are added as predictions.
+   */
+  changedPaths?: string[];
 }
 
 /**
@@ -107,6 +136,16 @@ export interface LoadContextFilesOptions {
   taskContext?: TaskContext;
   /** Maximum number of memory files to load (default: 5) */
   maxMemoryFiles?: number;
+  /**
+   * Retrieval backend that scores memory files' full text against the task
+   * (default: BM25 index in .automaker/memory/.index; null = keywords only)
+   */
+  memoryRetriever?: MemoryRetriever | null;
+  /**
+   * Whether to count this as a load in the selected memory files' usage stats
+   * (default: true). Pass false when reloading for a task already counted.
+   */
+  recordMemoryLoads?: boolean;
 }
 
 /**
@@ -133,6 +172,80 @@ async function loadContextMetadata(
   }
 }
 
+/**
+ * Find file and directory paths mentioned in free text
+ *
+ * Only slash-separated paths are picked up ("apps/ui/src/app.tsx",
+ * "libs/utils/"); bare words like "Node.js" are too ambiguous to count.
+ */
+export function extractPathMentions(text: string): string[] {
+  const mentions = new Set<string>();
+  for (const match of text.matchAll(
+    /(?:^|[\s`'"([])((?:\.{0,2}\/)?[\w@.-]+(?:\/[\w@.*-]+)+\/?)/g
+  )) {
+    mentions.add(match[1].replace(/[.,:;]+$/, ''));
+  }
+  return [...mentions];
+}
+
+/**
+ * Check whether a context file's scope rules match a task
+ *
+ * Every rule that is set must match; within a rule any entry may match. A
+ * rule is passed over when the task doesn't know the value it checks, so
+ * files are loaded rather than silently dropped when the task is vague.
+ * Files scoped to pipeline steps are only loaded for those steps.
+ */
+export function evaluateContextFileScope(
+  scope: ContextFileScope | undefined,
+  taskContext: TaskContext | undefined
+): { applies: boolean; reason?: string } {
+  if (!scope || !taskContext) {
+    return { applies: true };
+  }
+
+  const agentTypes = scope.agentTypes ?? [];
+  if (agentTypes.length > 0 && taskContext.agentTypes?.length) {
+    if (!taskContext.agentTypes.some((type) => agentTypes.includes(type))) {
+      return { applies: false, reason: `only for agent types: ${agentTypes.join(', ')}` };
+    }
+  }
+
+  const categories = (scope.categories ?? []).filter((c) => c.trim());
+  const category = taskContext.category?.trim().toLowerCase();
+  if (categories.length > 0 && category) {
+    if (!categories.some((c) => c.trim().toLowerCase() === category)) {
+      return {
+        applies: false,
+        reason: `category "${taskContext.category}" is not one of: ${categories.join(', ')}`,
+      };
+    }
+  }
+
+  const steps = (scope.pipelineSteps ?? []).filter((s) => s.trim());
+  if (steps.length > 0) {
+    const stepId = taskContext.pipelineStepId;
+    const isOtherAgent = !stepId && Boolean(taskContext.agentTypes?.length);
+    if ((stepId && !steps.includes(stepId)) || isOtherAgent) {
+      return { applies: false, reason: `only for pipeline steps: ${steps.join(', ')}` };
+    }
+  }
+
+  const patterns = (scope.appliesTo ?? []).filter((p) => p.trim());
+  if (patterns.length > 0) {
+    const paths = [
+      ...(taskContext.changedPaths ?? []),
+      ...extractPathMentions(`${taskContext.title}\n${taskContext.description ?? ''}`),
+    ];
+    const matched = paths.some((file) => patterns.some((pattern) => matchesGlob(file, pattern)));
+    if (paths.length > 0 && !matched) {
+      return { applies: false, reason: `no task paths match: ${patterns.join(', ')}` };
+    }
+  }
+
+  return { applies: true };
+}
+
 /**
  * Format a single context file entry for the prompt
  */
@@ -183,9 +296,11 @@ ${formattedFiles.join('\n\n---\n\n')}
  * Load context files from a project's .automaker/context/ directory
  * and optionally memory files from .automaker/memory/
  *
- * This function loads all .md and .txt files from the context directory,
+ * This function loads the .md and .txt files from the context directory,
  * along with their metadata (descriptions), and formats them into a
- * system prompt that can be prepended to agent prompts.
+ * system prompt that can be prepended to agent prompts. Files whose scope
+ * rules don't match the task context are skipped (see
+ * evaluateContextFileScope).
  *
  * By default, it also loads memory files containing learnings from past
  * agent work, which helps agents make better decisions.
@@ -217,11 +332,14 @@ export async function loadContextFiles(
     initializeMemory = true,
     taskContext,
     maxMemoryFiles = 5,
+    memoryRetriever = defaultMemoryRetriever,
+    recordMemoryLoads = true,
   } = options;
   const contextDir = path.resolve(getContextDir(projectPath));
 
   const files: ContextFileInfo[] = [];
   const memoryFiles: MemoryFileInfo[] = [];
+  const skippedFiles: SkippedContextFile[] = [];
 
   // Load context files if enabled
   if (includeContextFiles) {
@@ -244,6 +362,15 @@ export async function loadContextFiles(
 
         // Load each file with its content and metadata
         for (const fileName of textFiles) {
+          const { applies, reason } = evaluateContextFileScope(
+            metadata.files[fileName],
+            taskContext
+          );
+          if (!applies) {
+            skippedFiles.push({ name: fileName, reason: reason ?? 'out of scope' });
+            continue;
+          }
+
           const filePath = path.join(contextDir, fileName);
           try {
             const content = await fsModule.readFile(filePath, 'utf-8');
@@ -287,9 +414,10 @@ export async function loadContextFiles(
       });
 
       // Extract terms from task context for matching
-      const taskTerms = taskContext
-        ? extractTerms(taskContext.title + ' ' + (taskContext.description || ''))
-        : [];
+      const taskQuery = taskContext
+        ? taskContext.title + ' ' + (taskContext.description || '')
+        : '';
+      const taskTerms = extractTerms(taskQuery);
 
       // Score and load memory files
       const scoredFiles: Array<{
@@ -299,6 +427,7 @@ export async function loadContextFiles(
         metadata: MemoryMetadata;
         score: number;
       }> = [];
+      const keywordScores = new Map<string, number>();
 
       for (const fileName of memoryMdFiles) {
         const filePath = path.join(memoryDir, fileName);
@@ -309,7 +438,7 @@ export async function loadContextFiles(
           // Skip empty files
           if (!body.trim()) continue;
 
-          // Calculate relevance score
+          // Keyword relevance; combined with retrieval scores below
           let score = 0;
 
           if (taskTerms.length > 0) {
@@ -326,13 +455,7 @@ export async function loadContextFiles(
               .filter((t) => t.length > 2);
             const categoryScore = countMatches(categoryTerms, taskTerms) * 4;
 
-            // Usage-based scoring (files that helped before rank higher)
-            const usageScore = calculateUsageScore(metadata.usageStats);
-
-            score =
-              (tagScore + relevantToScore + summaryScore + categoryScore) *
-              metadata.importance *
-              usageScore;
+            keywordScores.set(fileName, tagScore + relevantToScore + summaryScore + categoryScore);
           } else {
             // No task context - use importance as score
             score = metadata.importance;
@@ -344,6 +467,29 @@ export async function loadContextFiles(
         }
       }
 
+      if (taskTerms.length > 0) {
+        const retrievalScores = await scoreMemoryDocuments(
+          memoryRetriever,
+          memoryDir,
+          taskQuery,
+          scoredFiles.map((file) => ({
+            name: file.fileName,
+            text: buildMemoryDocumentText(file.fileName, file.metadata, file.body),
+          })),
+          fsModule as MemoryFsModule
+        );
+
+        for (const file of scoredFiles) {
+          // Usage-based scoring (files that helped before rank higher)
+          const usageScore = calculateUsageScore(file.metadata.usageStats);
+          const relevance = hybridRelevance(
+            keywordScores.get(file.fileName) ?? 0,
+            retrievalScores.get(file.fileName) ?? 0
+          );
+          file.score = relevance * file.metadata.importance * usageScore;
+        }
+      }
+
       // Sort by score (highest first)
       scoredFiles.sort((a, b) => b.score - a.score);
 
@@ -390,10 +536,12 @@ export async function loadContextFiles(
 
           // Increment the 'loaded' stat for this file (CRITICAL FIX)
           // This makes calculateUsageScore work correctly
-          try {
-            await incrementUsageStat(file.filePath, 'loaded', fsModule as MemoryFsModule);
-          } catch {
-            // Non-critical - continue even if stat update fails
+          if (recordMemoryLoads) {
+            try {
+              await incrementUsageStat(file.filePath, 'loaded', fsModule as MemoryFsModule);
+            } catch {
+              // Non-critical - continue even if stat update fails
+            }
           }
         }
       }
@@ -422,8 +570,12 @@ export async function loadContextFiles(
   if (loadedItems.length > 0) {
     console.log(`[ContextLoader] Loaded ${loadedItems.join(' and ')}`);
   }
+  if (skippedFiles.length > 0) {
+    const skippedNames = skippedFiles.map((f) => `${f.name} (${f.reason})`).join(', ');
+    console.log(`[ContextLoader] Skipped out-of-scope context files: ${skippedNames}`);
+  }
 
-  return { files, memoryFiles, formattedPrompt };
+  return { files, memoryFiles, skippedFiles, formattedPrompt };
 }
 
 /**
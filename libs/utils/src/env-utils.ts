@@ -0,0 +1,25 @@
+/**
+ * Environment variable expansion for settings values
+ */
+
+/**
+ * Replace ${VAR} in a settings value with environment variables.
+ *
+ * Only variables starting with `prefix` are read. Settings values end up in
+ * requests to URLs the settings also choose, so an unrestricted lookup would
+ * let them send any of the server's secrets (API keys, tokens) elsewhere.
+ *
+ * @param value - The settings value, e.g. "Bearer ${AUTOMAKER_ISSUES_TOKEN}"
+ * @param env - The environment to read from
+ * @param prefix - Prefix every referenced variable must start with
+ * @returns The value with each ${VAR} replaced; unset variables become ''
+ * @throws If the value names a variable without the prefix
+ */
+export function expandEnvVars(value: string, env: NodeJS.ProcessEnv, prefix: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => {
+    if (!name.startsWith(prefix)) {
+      throw new Error(`Only ${prefix}* environment variables can be used, not \${${name}}`);
+    }
+    return env[name] ?? '';
+  });
+}
@@ -6,10 +6,12 @@
  * - Detecting authentication errors
  * - Detecting rate limit and quota exhaustion errors
  * - Classifying errors by type
+ * - Deciding whether a failed agent run should be retried or fall back
  * - Generating user-friendly error messages
  */
 
-import type { ErrorType, ErrorInfo } from '@automaker/types';
+import type { ErrorType, ErrorInfo, RetryPolicy } from '@automaker/types';
+import { DEFAULT_RETRY_POLICY } from '@automaker/types';
 
 /**
  * Check if an error is an abort/cancellation error
@@ -187,6 +189,77 @@ export function classifyError(error: unknown): ErrorInfo {
   };
 }
 
+/**
+ * What to do after an agent run failed
+ * - retry: run again on the same model after delayMs
+ * - fallback: move on to the next model in the fallback chain
+ * - fail: give up
+ */
+export type RetryDecision =
+  | { action: 'retry'; delayMs: number }
+  | { action: 'fallback' }
+  | { action: 'fail' };
+
+/**
+ * Merge global and project retry policies over the defaults
+ *
+ * Fields set in the project policy win over the global policy.
+ */
+export function resolveRetryPolicy(
+  globalPolicy?: RetryPolicy,
+  projectPolicy?: RetryPolicy
+): Required<RetryPolicy> {
+  const merged = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of [globalPolicy, projectPolicy]) {
+    if (!policy) continue;
+    for (const key of Object.keys(merged) as Array<keyof RetryPolicy>) {
+      if (policy[key] !== undefined) {
+        (merged as Record<string, unknown>)[key] = policy[key];
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Decide how to recover from a failed agent run
+ *
+ * Rate limits are retried on the same model with exponential backoff, never
+ * waiting less than the provider's Retry-After hint. Once retries run out,
+ * and straight away for quota exhaustion and authentication errors, the run
+ * falls back to the next model. Anything else fails.
+ *
+ * @param errorInfo - Classified error from the failed run
+ * @param policy - Resolved retry policy
+ * @param retriesOnModel - Retries already made on the current model
+ */
+export function getRetryDecision(
+  errorInfo: ErrorInfo,
+  policy: Required<RetryPolicy>,
+  retriesOnModel: number
+): RetryDecision {
+  if (errorInfo.type === 'rate_limit' && retriesOnModel < policy.maxRetries) {
+    const backoffSeconds = Math.min(
+      policy.initialBackoffSeconds * 2 ** retriesOnModel,
+      policy.maxBackoffSeconds
+    );
+    // classifyError fills in a default retryAfter; only a real hint should stretch the backoff
+    const retryAfter = extractRetryAfter(errorInfo.originalError) ?? 0;
+    const delaySeconds = Math.max(backoffSeconds, retryAfter);
+    return { action: 'retry', delayMs: delaySeconds * 1000 };
+  }
+
+  if (
+    errorInfo.type === 'rate_limit' ||
+    errorInfo.type === 'quota_exhausted' ||
+    errorInfo.type === 'authentication'
+  ) {
+    return { action: 'fallback' };
+  }
+
+  return { action: 'fail' };
+}
+
 /**
  * Get a user-friendly error message
  *
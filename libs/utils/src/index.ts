@@ -12,8 +12,11 @@ export {
   isQuotaExhaustedError,
   extractRetryAfter,
   classifyError,
+  resolveRetryPolicy,
+  getRetryDecision,
   getUserFriendlyErrorMessage,
   getErrorMessage,
+  type RetryDecision,
 } from './error-handler.js';
 
 // Conversation utilities
@@ -68,18 +71,27 @@ export {
 } from './atomic-writer.js';
 
 // Path utilities
-export { normalizePath, pathsEqual, sanitizeFilename } from './path-utils.js';
+export {
+  normalizePath,
+  pathsEqual,
+  sanitizeFilename,
+  globToRegExp,
+  matchesGlob,
+} from './path-utils.js';
 
 // Context file loading
 export {
   loadContextFiles,
   getContextFilesSummary,
+  evaluateContextFileScope,
+  extractPathMentions,
   type ContextMetadata,
   type ContextFileInfo,
   type ContextFilesResult,
   type ContextFsModule,
   type LoadContextFilesOptions,
   type MemoryFileInfo,
+  type SkippedContextFile,
   type TaskContext,
 } from './context-loader.js';
 
@@ -96,6 +108,7 @@ export {
   calculateUsageScore,
   countMatches,
   incrementUsageStat,
+  withFileLock,
   formatLearning,
   type MemoryFsModule,
   type MemoryMetadata,
@@ -106,6 +119,42 @@ export {
   type SimpleMemoryFile,
 } from './memory-loader.js';
 
+// Memory retrieval
+export {
+  createBm25Retriever,
+  defaultMemoryRetriever,
+  scoreMemoryDocuments,
+  hybridRelevance,
+  getMemoryIndexDir,
+  tokenizeForRetrieval,
+  stemTerm,
+  type MemoryRetriever,
+  type MemoryDocument,
+} from './memory-retrieval.js';
+
+// Memory curation
+export {
+  planMemoryCuration,
+  parseMemoryEntries,
+  diffLines,
+  getMemoryCurationPath,
+  type MemoryEntry,
+  type MemoryEntryKind,
+  type ParsedMemoryBody,
+  type MemoryCurationOptions,
+  type MemoryCurationPlan,
+  type PlannedMemoryChange,
+} from './memory-curation.js';
+
+// Prompt budget utilities
+export {
+  estimateTokens,
+  truncateToTokens,
+  fitPromptSections,
+  type PromptSection,
+  type FittedPrompt,
+} from './prompt-budget.js';
+
 // Debounce and throttle utilities
 export {
   debounce,
@@ -114,3 +163,38 @@ export {
   type ThrottleOptions,
   type DebouncedFunction,
 } from './debounce.js';
+
+// Usage accounting utilities
+export {
+  createEmptyUsageTotals,
+  findModelPricing,
+  estimateUsageCost,
+  resolveUsageTotals,
+  addUsageTotals,
+  getTotalTokens,
+  checkBudgetLimits,
+  checkBudgetWarning,
+  hasBudgetLimits,
+  formatBudgetExceeded,
+} from './usage-utils.js';
+
+// Schedule utilities
+export {
+  parseCronExpression,
+  isValidCronExpression,
+  matchesCron,
+  parseTimeOfDay,
+  floorToMinute,
+  getActiveOccurrence,
+  type ParsedCron,
+  type ScheduleOccurrence,
+} from './schedule-utils.js';
+
+// Acceptance criteria utilities
+export { extractAcceptanceCriteria, applyAcceptanceJudgement } from './acceptance-utils.js';
+
+// Review comment utilities
+export { buildReviewPrompt, buildPRReviewPrompt, resolveReviewComments } from './review-utils.js';
+
+// Environment variable expansion
+export { expandEnvVars } from './env-utils.js';
@@ -0,0 +1,485 @@
+/**
+ * Memory Curation - Finds clean-ups for memory files
+ *
+ * appendLearning adds an entry for every learning and nothing removes one,
+ * so memory files collect near-duplicates, decisions that contradict later
+ * ones, and entries no agent uses. planMemoryCuration looks at one file and
+ * returns the changes worth proposing. It never writes: the server stores
+ * the changes as proposals for a human to accept or dismiss (see
+ * MemoryCurationProposal). Rewriting a bloated file into a summary needs a
+ * model, so the planner only reports that the file is bloated.
+ */
+
+import path from 'path';
+import type { MemoryCurationKind, MemoryDiffLine } from '@automaker/types';
+import { parseFrontmatter, serializeFrontmatter } from './memory-loader.js';
+import { tokenizeForRetrieval } from './memory-retrieval.js';
+
+/** Kind of entry, from the heading appendLearning wrote */
+export type MemoryEntryKind = 'decision' | 'gotcha' | 'pattern' | 'learning';
+
+/**
+ * A learning entry in a memory file: a ### or #### heading and the lines
+ * under it
+ */
+export interface MemoryEntry {
+  kind: MemoryEntryKind;
+  /** Heading text without the #s, [Gotcha]/[Pattern]/[Learned] prefix or date */
+  title: string;
+  /** Date from the heading (YYYY-MM-DD), if any */
+  date?: string;
+  /** Non-empty lines under the heading, e.g. "- **Why:** ..." */
+  details: string[];
+  /** Exact text of the entry, from its heading up to the next entry */
+  block: string;
+}
+
+/**
+ * A memory file body split into entries. head + every entry's block is the
+ * original body.
+ */
+export interface ParsedMemoryBody {
+  /** Text before the first entry (title, intro) */
+  head: string;
+  entries: MemoryEntry[];
+}
+
+export interface MemoryCurationOptions {
+  /** Current time, for aging out entries (default: now) */
+  now?: Date;
+  /** Entries at least this similar are merged (default 0.75) */
+  duplicateThreshold?: number;
+  /** Entries older than this are aged out of decaying files (default 180) */
+  maxEntryAgeDays?: number;
+  /** Bodies longer than this are reported as bloated (default 12000) */
+  bloatMaxChars?: number;
+  /** Files with more entries than this are reported as bloated (default 40) */
+  bloatMaxEntries?: number;
+}
+
+/**
+ * A change the planner proposes for a file
+ */
+export interface PlannedMemoryChange {
+  kind: Exclude<MemoryCurationKind, 'summarize'>;
+  title: string;
+  reason: string;
+  /** Identifies the change across runs */
+  fingerprint: string;
+  /** New file content (not set for conflicts) */
+  after?: string;
+  /** Conflicts only: the ways to resolve them */
+  resolutions?: Array<{ label: string; after: string }>;
+}
+
+export interface MemoryCurationPlan {
+  changes: PlannedMemoryChange[];
+  /** The file is long enough to be worth rewriting as a summary */
+  bloated: boolean;
+}
+
+const DEFAULT_DUPLICATE_THRESHOLD = 0.75;
+
+/** Titles this similar are duplicates even if their details differ */
+const DUPLICATE_TITLE_THRESHOLD = 0.85;
+
+/** Decisions whose titles are this similar are about the same topic */
+const CONFLICT_TOPIC_THRESHOLD = 0.4;
+
+/** Files loaded at least this often are candidates for decay... */
+const DECAY_MIN_LOADS = 10;
+
+/** ...when agents referenced them in fewer than this share of loads */
+const DECAY_MAX_REFERENCE_RATE = 0.1;
+
+/** ...and their importance halves for every this many days since their newest entry */
+const DECAY_HALF_LIFE_DAYS = 90;
+
+const MIN_IMPORTANCE = 0.1;
+const DEFAULT_MAX_ENTRY_AGE_DAYS = 180;
+const DEFAULT_BLOAT_MAX_CHARS = 12000;
+const DEFAULT_BLOAT_MAX_ENTRIES = 40;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTRY_HEADING = /^#{3,4} .*$/gm;
+const HEADING_PREFIX = /^\[(Gotcha|Pattern|Learned)\]\s*/;
+const HEADING_DATE = /\s*\((\d{4}-\d{2}-\d{2})\)\s*$/;
+const DETAIL_LABEL = /^-\s*\*\*([^*]+):\*\*\s*/;
+const NEGATION = /\b(not|never|no|avoid|don't|dont|instead of|stop|without)\b/i;
+
+/**
+ * Path of the file holding a project's curation proposals
+ */
+export function getMemoryCurationPath(memoryDir: string): string {
+  return path.join(memoryDir, '.curation', 'proposals.json');
+}
+
+function parseEntry(block: string): MemoryEntry {
+  const [headingLine, ...rest] = block.split('\n');
+  const level = headingLine.startsWith('####') ? 4 : 3;
+  const heading = headingLine.replace(/^#+\s*/, '').trim();
+  const date = heading.match(HEADING_DATE)?.[1];
+  const withoutDate = heading.replace(HEADING_DATE, '');
+  const prefix = withoutDate.match(HEADING_PREFIX)?.[1];
+
+  let kind: MemoryEntryKind = 'learning';
+  if (level === 3) kind = 'decision';
+  else if (prefix === 'Gotcha') kind = 'gotcha';
+  else if (prefix === 'Pattern') kind = 'pattern';
+
+  return {
+    kind,
+    title: withoutDate.replace(HEADING_PREFIX, '').trim(),
+    date,
+    details: rest.map((line) => line.trimEnd()).filter((line) => line.trim()),
+    block,
+  };
+}
+
+/**
+ * Split a memory file body into learning entries
+ */
+export function parseMemoryEntries(body: string): ParsedMemoryBody {
+  const starts = [...body.matchAll(ENTRY_HEADING)].map((match) => match.index!);
+  if (starts.length === 0) return { head: body, entries: [] };
+
+  return {
+    head: body.slice(0, starts[0]),
+    entries: starts.map((start, i) => parseEntry(body.slice(start, starts[i + 1]))),
+  };
+}
+
+/**
+ * Rebuild a body from its entries, keeping the original's trailing newline
+ */
+function joinEntries(head: string, entries: MemoryEntry[], original: string): string {
+  const body = (head + entries.map((entry) => entry.block).join('')).trimEnd();
+  return original.endsWith('\n') ? body + '\n' : body;
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenizeForRetrieval(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let dot = 0;
+  for (const [term, count] of a) {
+    dot += count * (b.get(term) ?? 0);
+  }
+  const norm = (counts: Map<string, number>) =>
+    Math.sqrt([...counts.values()].reduce((sum, count) => sum + count * count, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+/** Entry text for comparisons, without the "**Why:**" style labels */
+function entryText(entry: MemoryEntry): string {
+  return [entry.title, ...entry.details.map((line) => line.replace(DETAIL_LABEL, ''))].join(' ');
+}
+
+function detailValue(entry: MemoryEntry, label: string): string | undefined {
+  for (const line of entry.details) {
+    const match = line.match(DETAIL_LABEL);
+    if (match && match[1].trim().toLowerCase() === label) {
+      return line.slice(match[0].length);
+    }
+  }
+  return undefined;
+}
+
+/** Whether entry a is newer than entry b (by heading date, then position) */
+function isNewer(a: MemoryEntry, b: MemoryEntry, aIndex: number, bIndex: number): boolean {
+  const aDate = a.date ?? '';
+  const bDate = b.date ?? '';
+  return aDate === bDate ? aIndex > bIndex : aDate > bDate;
+}
+
+/**
+ * Group near-duplicate entries, returning groups of two or more entry indexes
+ */
+function findDuplicateGroups(entries: MemoryEntry[], threshold: number): number[][] {
+  const texts = entries.map((entry) => termCounts(entryText(entry)));
+  const titles = entries.map((entry) => termCounts(entry.title));
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      if (
+        cosine(texts[i], texts[j]) >= threshold ||
+        cosine(titles[i], titles[j]) >= DUPLICATE_TITLE_THRESHOLD
+      ) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  entries.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Fold a group of duplicates into the newest entry, keeping every distinct
+ * detail line
+ */
+function mergeGroup(
+  entries: MemoryEntry[],
+  group: number[]
+): { keep: number; merged: MemoryEntry } {
+  const keep = group.reduce((newest, i) =>
+    isNewer(entries[i], entries[newest], i, newest) ? i : newest
+  );
+  const keeper = entries[keep];
+  const seen = new Set(keeper.details.map((line) => line.trim().toLowerCase()));
+  const details = [...keeper.details];
+  for (const i of group) {
+    if (i === keep) continue;
+    for (const line of entries[i].details) {
+      const key = line.trim().toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        details.push(line);
+      }
+    }
+  }
+
+  const headingLine = keeper.block.split('\n')[0];
+  const trailing = keeper.block.match(/\s*$/)?.[0] ?? '';
+  const block = [headingLine, ...details].join('\n') + (trailing.includes('\n') ? trailing : '\n');
+  return { keep, merged: { ...keeper, details, block } };
+}
+
+/**
+ * Whether two decisions on the same topic contradict each other: one is
+ * negated and the other isn't, or one rejects what the other chose
+ */
+function contradicts(a: MemoryEntry, b: MemoryEntry): boolean {
+  if (NEGATION.test(a.title) !== NEGATION.test(b.title)) return true;
+
+  const rejects = (chooser: MemoryEntry, other: MemoryEntry) => {
+    const rejected = detailValue(chooser, 'rejected');
+    if (!rejected) return false;
+    const rejectedTerms = termCounts(rejected);
+    const chosenTerms = termCounts(chooser.title);
+    return [...termCounts(other.title).keys()].some(
+      (term) => !chosenTerms.has(term) && rejectedTerms.has(term)
+    );
+  };
+  return rejects(a, b) || rejects(b, a);
+}
+
+/**
+ * Plan clean-ups for one memory file
+ *
+ * @param fileName - Memory file name, e.g. "api.md"
+ * @param content - Current file content, including frontmatter
+ */
+export function planMemoryCuration(
+  fileName: string,
+  content: string,
+  options: MemoryCurationOptions = {}
+): MemoryCurationPlan {
+  const { metadata, body } = parseFrontmatter(content);
+  const frontmatter = content.slice(0, content.length - body.length);
+  const { head, entries } = parseMemoryEntries(body);
+  const changes: PlannedMemoryChange[] = [];
+
+  // Merge near-duplicates
+  const groups = findDuplicateGroups(
+    entries,
+    options.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD
+  );
+  const duplicateIndexes = new Set(groups.flat());
+  if (groups.length > 0) {
+    const merged = [...entries];
+    const removed = new Set<number>();
+    for (const group of groups) {
+      const { keep, merged: entry } = mergeGroup(entries, group);
+      merged[keep] = entry;
+      for (const i of group) {
+        if (i !== keep) removed.add(i);
+      }
+    }
+    const duplicateCount = removed.size;
+    changes.push({
+      kind: 'merge',
+      title: `Merge ${duplicateCount} duplicate ${duplicateCount === 1 ? 'entry' : 'entries'}`,
+      reason: groups
+        .map((group) => group.map((i) => `"${entries[i].title}"`).join(', '))
+        .join('; '),
+      fingerprint: `merge:${fileName}:${groups
+        .map((group) =>
+          group
+            .map((i) => entries[i].title)
+            .sort()
+            .join('|')
+        )
+        .sort()
+        .join(';')}`,
+      after:
+        frontmatter +
+        joinEntries(
+          head,
+          merged.filter((_, i) => !removed.has(i)),
+          body
+        ),
+    });
+  }
+
+  // Flag contradicting decisions. Duplicates are left to the merge.
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const a = entries[i];
+      const b = entries[j];
+      if (
+        a.kind !== 'decision' ||
+        b.kind !== 'decision' ||
+        (duplicateIndexes.has(i) && duplicateIndexes.has(j)) ||
+        cosine(termCounts(a.title), termCounts(b.title)) < CONFLICT_TOPIC_THRESHOLD ||
+        !contradicts(a, b)
+      ) {
+        continue;
+      }
+
+      const [newer, older] = isNewer(b, a, j, i) ? [j, i] : [i, j];
+      const without = (index: number) =>
+        frontmatter +
+        joinEntries(
+          head,
+          entries.filter((_, k) => k !== index),
+          body
+        );
+      changes.push({
+        kind: 'conflict',
+        title: `Conflicting decisions: "${entries[older].title}" and "${entries[newer].title}"`,
+        reason:
+          'Both decisions cover the same topic but disagree. Keep one, or dismiss to keep both.',
+        fingerprint: `conflict:${fileName}:${[a.title, b.title].sort().join('|')}`,
+        resolutions: [
+          { label: 'Keep newer decision', after: without(older) },
+          { label: 'Keep older decision', after: without(newer) },
+        ],
+      });
+    }
+  }
+
+  // Decay files that are loaded often but rarely used
+  const { loaded, referenced } = metadata.usageStats;
+  if (loaded >= DECAY_MIN_LOADS && referenced / loaded < DECAY_MAX_REFERENCE_RATE) {
+    const now = (options.now ?? new Date()).getTime();
+    const dates = entries
+      .map((entry) => (entry.date ? new Date(entry.date).getTime() : NaN))
+      .filter(Number.isFinite);
+
+    // Derived from the file's age rather than its stored importance, so
+    // applying a decay and planning again doesn't decay it twice
+    let importance = metadata.importance;
+    if (dates.length > 0) {
+      const ageDays = Math.max(0, now - Math.max(...dates)) / DAY_MS;
+      const decayed = Math.floor(0.5 ** (ageDays / DECAY_HALF_LIFE_DAYS) * 20) / 20;
+      importance = Math.min(importance, Math.max(MIN_IMPORTANCE, decayed));
+    }
+    const maxAgeMs = (options.maxEntryAgeDays ?? DEFAULT_MAX_ENTRY_AGE_DAYS) * DAY_MS;
+    const aged = entries.filter(
+      (entry) => entry.date && now - new Date(entry.date).getTime() > maxAgeMs
+    );
+
+    if (importance < metadata.importance || aged.length > 0) {
+      const parts = [];
+      if (importance < metadata.importance) {
+        parts.push(`lower importance from ${metadata.importance} to ${importance}`);
+      }
+      if (aged.length > 0) {
+        parts.push(`age out ${aged.length} old ${aged.length === 1 ? 'entry' : 'entries'}`);
+      }
+      const title = parts.join(' and ');
+      changes.push({
+        kind: 'decay',
+        title: title.charAt(0).toUpperCase() + title.slice(1),
+        reason: `Loaded ${loaded} times but referenced only ${referenced} ${referenced === 1 ? 'time' : 'times'}.`,
+        fingerprint: `decay:${fileName}:${importance}:${aged.map((entry) => entry.title).join('|')}`,
+        after:
+          serializeFrontmatter({ ...metadata, importance }) +
+          '\n' +
+          joinEntries(
+            head,
+            entries.filter((entry) => !aged.includes(entry)),
+            body
+          ),
+      });
+    }
+  }
+
+  return {
+    changes,
+    bloated:
+      body.length > (options.bloatMaxChars ?? DEFAULT_BLOAT_MAX_CHARS) ||
+      entries.length > (options.bloatMaxEntries ?? DEFAULT_BLOAT_MAX_ENTRIES),
+  };
+}
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): MemoryDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix and suffix don't need the LCS table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const width = midB.length + 1;
+  // lcs[i * width + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: MemoryDiffLine[] = a
+    .slice(0, prefix)
+    .map((content) => ({ type: 'context' as const, content }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      lines.push({ type: 'context', content: midA[i] });
+      i++;
+      j++;
+    } else if (
+      i < midA.length &&
+      (j === midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+    ) {
+      lines.push({ type: 'deletion', content: midA[i++] });
+    } else {
+      lines.push({ type: 'addition', content: midB[j++] });
+    }
+  }
+  for (const content of a.slice(a.length - suffix)) {
+    lines.push({ type: 'context', content });
+  }
+  return lines;
+}
@@ -3,6 +3,7 @@
  *
  * Loads relevant memory files from .automaker/memory/ based on:
  * - Tag matching with feature keywords
+ * - Full-text retrieval (see memory-retrieval)
  * - Historical usefulness (usage stats)
  * - File importance
  *
@@ -10,6 +11,13 @@
  */
 
 import path from 'path';
+import {
+  buildMemoryDocumentText,
+  defaultMemoryRetriever,
+  hybridRelevance,
+  scoreMemoryDocuments,
+  type MemoryRetriever,
+} from './memory-retrieval.js';
 
 /**
  * File system module interface (compatible with secureFs)
@@ -102,8 +110,11 @@ const fileLocks = new Map<string, Promise<void>>();
 
 /**
  * Acquire a lock for a file path, execute the operation, then release
+ *
+ * Anything rewriting a memory file must hold it, so usage stat updates
+ * aren't lost.
  */
-async function withFileLock<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
+export async function withFileLock<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
   // Wait for any existing lock on this file
   const existingLock = fileLocks.get(filePath);
   if (existingLock) {
@@ -342,16 +353,18 @@ export function calculateUsageScore(stats: UsageStats): number {
  * - Tag matching with feature keywords (weight: 3)
  * - RelevantTo matching (weight: 2)
  * - Summary matching (weight: 1)
+ * - Full-text retrieval score from the retriever (see hybridRelevance)
  * - Usage score (multiplier)
  * - Importance (multiplier)
  *
- * Always includes gotchas.md
+ * Always includes gotchas.md. Pass retriever = null for keyword matching only.
  */
 export async function loadRelevantMemory(
   projectPath: string,
   featureTitle: string,
   featureDescription: string,
-  fsModule: MemoryFsModule
+  fsModule: MemoryFsModule,
+  retriever: MemoryRetriever | null = defaultMemoryRetriever
 ): Promise<MemoryLoadResult> {
   const memoryDir = getMemoryDir(projectPath);
 
@@ -363,11 +376,16 @@ export async function loadRelevantMemory(
   }
 
   const allFiles = await fsModule.readdir(memoryDir);
-  const featureTerms = extractTerms(featureTitle + ' ' + featureDescription);
+  const query = featureTitle + ' ' + featureDescription;
+  const featureTerms = extractTerms(query);
 
-  // Score each file
-  const scored: Array<{ file: string; score: number; content: string; metadata: MemoryMetadata }> =
-    [];
+  // Read each file and score it by keywords
+  const candidates: Array<{
+    file: string;
+    keywordScore: number;
+    content: string;
+    metadata: MemoryMetadata;
+  }> = [];
 
   for (const file of allFiles) {
     if (!file.endsWith('.md') || file === '_index.md') continue;
@@ -377,27 +395,49 @@ export async function loadRelevantMemory(
       const content = (await fsModule.readFile(filePath, 'utf-8')) as string;
       const { metadata, body } = parseFrontmatter(content);
 
-      // Calculate relevance score
       const tagScore = countMatches(metadata.tags, featureTerms) * 3;
       const relevantToScore = countMatches(metadata.relevantTo, featureTerms) * 2;
       const summaryTerms = extractTerms(metadata.summary);
       const summaryScore = countMatches(summaryTerms, featureTerms);
 
-      // Usage-based scoring
-      const usageScore = calculateUsageScore(metadata.usageStats);
-
-      // Combined score
-      const score = (tagScore + relevantToScore + summaryScore) * metadata.importance * usageScore;
-
-      // Include if score > 0 or high importance
-      if (score > 0 || metadata.importance >= 0.9) {
-        scored.push({ file, score, content: body, metadata });
-      }
+      candidates.push({
+        file,
+        keywordScore: tagScore + relevantToScore + summaryScore,
+        content: body,
+        metadata,
+      });
     } catch {
       // Skip files that can't be read
     }
   }
 
+  const retrievalScores = await scoreMemoryDocuments(
+    retriever,
+    memoryDir,
+    query,
+    candidates.map(({ file, content, metadata }) => ({
+      name: file,
+      text: buildMemoryDocumentText(file, metadata, content),
+    })),
+    fsModule
+  );
+
+  const scored: Array<{ file: string; score: number; content: string; metadata: MemoryMetadata }> =
+    [];
+  for (const { file, keywordScore, content, metadata } of candidates) {
+    // Usage-based scoring
+    const usageScore = calculateUsageScore(metadata.usageStats);
+
+    // Combined score
+    const relevance = hybridRelevance(keywordScore, retrievalScores.get(file) ?? 0);
+    const score = relevance * metadata.importance * usageScore;
+
+    // Include if score > 0 or high importance
+    if (score > 0 || metadata.importance >= 0.9) {
+      scored.push({ file, score, content, metadata });
+    }
+  }
+
   // Sort by score, take top 5
   const topFiles = scored.sort((a, b) => b.score - a.score).slice(0, 5);
 
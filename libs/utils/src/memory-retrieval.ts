@@ -0,0 +1,340 @@
+/**
+ * Memory Retrieval - Ranks memory files by how well their text matches a task
+ *
+ * Keyword matching on tags and summaries (see memory-loader) misses files
+ * that describe the same thing in other words. A retriever scores the full
+ * text of every memory file against the task instead, and the loaders blend
+ * that score with the keyword score, importance and usage stats.
+ *
+ * Retrievers are pluggable. The default is a BM25 index persisted under
+ * .automaker/memory/.index, so it is deterministic and CPU-only; an
+ * embedding-based retriever can implement the same interface and keep its
+ * vectors in the same directory.
+ */
+
+import path from 'path';
+import { createHash } from 'crypto';
+import type { MemoryFsModule, MemoryMetadata } from './memory-loader.js';
+
+/**
+ * A memory file as seen by a retriever
+ */
+export interface MemoryDocument {
+  /** File name, e.g. "authentication.md" */
+  name: string;
+  /** Text to index: metadata and body */
+  text: string;
+}
+
+/**
+ * A retrieval backend for memory files
+ */
+export interface MemoryRetriever {
+  /** Backend name, for logs */
+  readonly name: string;
+  /**
+   * Score documents against a query, normalized so the best match is 1.
+   * Documents that don't match at all may be left out of the result.
+   */
+  score(
+    memoryDir: string,
+    query: string,
+    documents: MemoryDocument[],
+    fsModule: MemoryFsModule
+  ): Promise<Map<string, number>>;
+}
+
+/** How much a perfect retrieval match counts, relative to keyword points */
+const RETRIEVAL_WEIGHT = 6;
+
+/** Normalized retrieval scores below this are treated as noise */
+const MIN_RETRIEVAL_SCORE = 0.2;
+
+const INDEX_VERSION = 1;
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'this',
+  'that',
+  'are',
+  'was',
+  'were',
+  'been',
+  'have',
+  'has',
+  'had',
+  'not',
+  'but',
+  'from',
+  'into',
+  'when',
+  'then',
+  'than',
+  'should',
+  'would',
+  'could',
+  'will',
+  'can',
+  'its',
+  'our',
+  'you',
+  'your',
+]);
+
+/** Suffixes stripped by stemTerm, longest first */
+const SUFFIXES = [
+  'izations',
+  'ization',
+  'ations',
+  'ation',
+  'ments',
+  'ment',
+  'ness',
+  'ings',
+  'ing',
+  'ated',
+  'ates',
+  'ate',
+  'ers',
+  'ed',
+  'er',
+  'es',
+  'ly',
+  's',
+];
+
+/**
+ * Reduce a word to a rough stem so "caching", "cached" and "caches" match
+ */
+export function stemTerm(word: string): string {
+  if (word.length > 4 && (word.endsWith('ies') || word.endsWith('ied'))) {
+    return word.slice(0, -3) + 'y';
+  }
+  let stem = word;
+  for (const suffix of SUFFIXES) {
+    if (
+      word.endsWith(suffix) &&
+      word.length - suffix.length >= 3 &&
+      !(suffix === 's' && word.endsWith('ss'))
+    ) {
+      stem = word.slice(0, -suffix.length);
+      break;
+    }
+  }
+  return stem.length > 3 && stem.endsWith('e') ? stem.slice(0, -1) : stem;
+}
+
+/**
+ * Split text into stemmed index terms
+ */
+export function tokenizeForRetrieval(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map(stemTerm);
+}
+
+/**
+ * Blend keyword points with a normalized retrieval score. The loaders
+ * multiply the result by importance and usage score, as before.
+ */
+export function hybridRelevance(keywordScore: number, retrievalScore: number): number {
+  const retrieval = retrievalScore >= MIN_RETRIEVAL_SCORE ? retrievalScore * RETRIEVAL_WEIGHT : 0;
+  return keywordScore + retrieval;
+}
+
+/**
+ * Directory where retrievers keep their on-disk index
+ */
+export function getMemoryIndexDir(memoryDir: string): string {
+  return path.join(memoryDir, '.index');
+}
+
+interface IndexedDocument {
+  /** Hash of the indexed text, to detect changed files */
+  hash: string;
+  length: number;
+  termFrequencies: Record<string, number>;
+}
+
+interface Bm25IndexFile {
+  version: number;
+  documents: Record<string, IndexedDocument>;
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function indexDocument(text: string): IndexedDocument {
+  const terms = tokenizeForRetrieval(text);
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return {
+    hash: hashText(text),
+    length: terms.length,
+    termFrequencies: Object.fromEntries(counts),
+  };
+}
+
+/** Term frequency, ignoring inherited properties such as "constructor" */
+function termFrequency(document: IndexedDocument, term: string): number {
+  return Object.prototype.hasOwnProperty.call(document.termFrequencies, term)
+    ? document.termFrequencies[term]
+    : 0;
+}
+
+/**
+ * Create a BM25 retriever backed by .index/bm25.json in the memory folder
+ *
+ * The index is updated incrementally: only documents whose text changed are
+ * re-tokenized, deleted files are dropped, and the file is rewritten only
+ * when something changed. It is a cache, so a missing, corrupt or
+ * unwritable index just means re-indexing in memory.
+ */
+export function createBm25Retriever(options: { k1?: number; b?: number } = {}): MemoryRetriever {
+  const k1 = options.k1 ?? 1.2;
+  const b = options.b ?? 0.75;
+
+  async function loadIndex(indexPath: string, fsModule: MemoryFsModule): Promise<Bm25IndexFile> {
+    try {
+      const parsed = JSON.parse(
+        (await fsModule.readFile(indexPath, 'utf-8')) as string
+      ) as Bm25IndexFile;
+      if (parsed.version === INDEX_VERSION && parsed.documents) {
+        return parsed;
+      }
+    } catch {
+      // No index yet, or unreadable - rebuild
+    }
+    return { version: INDEX_VERSION, documents: {} };
+  }
+
+  async function syncIndex(
+    memoryDir: string,
+    documents: MemoryDocument[],
+    fsModule: MemoryFsModule
+  ): Promise<Bm25IndexFile> {
+    const indexDir = getMemoryIndexDir(memoryDir);
+    const indexPath = path.join(indexDir, 'bm25.json');
+    const index = await loadIndex(indexPath, fsModule);
+
+    let changed = false;
+    const names = new Set<string>();
+    for (const document of documents) {
+      names.add(document.name);
+      const existing = index.documents[document.name];
+      if (!existing || existing.hash !== hashText(document.text)) {
+        index.documents[document.name] = indexDocument(document.text);
+        changed = true;
+      }
+    }
+    for (const name of Object.keys(index.documents)) {
+      if (!names.has(name)) {
+        delete index.documents[name];
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      try {
+        await fsModule.mkdir(indexDir, { recursive: true });
+        await fsModule.writeFile(indexPath, JSON.stringify(index));
+      } catch (error) {
+        console.warn('[MemoryRetrieval] Failed to save memory index:', error);
+      }
+    }
+    return index;
+  }
+
+  return {
+    name: 'bm25',
+
+    async score(memoryDir, query, documents, fsModule) {
+      const scores = new Map<string, number>();
+      const queryTerms = [...new Set(tokenizeForRetrieval(query))];
+      if (documents.length === 0 || queryTerms.length === 0) return scores;
+
+      const index = await syncIndex(memoryDir, documents, fsModule);
+      const indexed = documents.map((document) => ({
+        name: document.name,
+        entry: index.documents[document.name],
+      }));
+      const averageLength =
+        indexed.reduce((sum, { entry }) => sum + entry.length, 0) / indexed.length || 1;
+
+      const idf = new Map<string, number>();
+      for (const term of queryTerms) {
+        const documentFrequency = indexed.filter(
+          ({ entry }) => termFrequency(entry, term) > 0
+        ).length;
+        idf.set(
+          term,
+          Math.log(1 + (indexed.length - documentFrequency + 0.5) / (documentFrequency + 0.5))
+        );
+      }
+
+      let best = 0;
+      for (const { name, entry } of indexed) {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = termFrequency(entry, term);
+          if (!frequency) continue;
+          score +=
+            (idf.get(term)! * frequency * (k1 + 1)) /
+            (frequency + k1 * (1 - b + (b * entry.length) / averageLength));
+        }
+        if (score > 0) {
+          scores.set(name, score);
+          best = Math.max(best, score);
+        }
+      }
+
+      for (const [name, score] of scores) {
+        scores.set(name, score / best);
+      }
+      return scores;
+    },
+  };
+}
+
+/** Retriever used when callers don't pass one */
+export const defaultMemoryRetriever: MemoryRetriever = createBm25Retriever();
+
+/**
+ * Score documents with a retriever, falling back to no retrieval scores
+ * (keyword matching only) if the retriever fails
+ */
+export async function scoreMemoryDocuments(
+  retriever: MemoryRetriever | null,
+  memoryDir: string,
+  query: string,
+  documents: MemoryDocument[],
+  fsModule: MemoryFsModule
+): Promise<Map<string, number>> {
+  if (!retriever) return new Map();
+  try {
+    return await retriever.score(memoryDir, query, documents, fsModule);
+  } catch (error) {
+    console.warn(`[MemoryRetrieval] ${retriever.name} retrieval failed:`, error);
+    return new Map();
+  }
+}
+
+/**
+ * Text indexed for a memory file: its name, metadata and body
+ */
+export function buildMemoryDocumentText(
+  fileName: string,
+  metadata: Pick<MemoryMetadata, 'tags' | 'relevantTo' | 'summary'>,
+  body: string
+): string {
+  const nameWords = fileName.replace(/\.md$/i, '').split(/[-_]/).join(' ');
+  return [nameWords, metadata.tags.join(' '), metadata.relevantTo.join(' '), metadata.summary, body]
+    .filter(Boolean)
+    .join('\n');
+}
@@ -100,3 +100,82 @@ export function sanitizeFilename(filename: string, fallback: string = 'file'): s
 
   return safeName;
 }
+
+/**
+ * Convert a glob pattern to a regular expression
+ *
+ * Supports `**` (any number of directories), `*` (anything but a path
+ * separator), `?` (a single character) and `{a,b}` alternation.
+ *
+ * @param pattern - Glob pattern using forward slashes
+ * @returns Anchored regular expression for the pattern
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a file path matches a glob pattern
+ *
+ * Patterns without a slash match the file name anywhere in the tree
+ * (like .gitignore), so `*.ts` matches `src/index.ts`.
+ *
+ * @param filePath - Relative file path (either separator style)
+ * @param pattern - Glob pattern
+ * @returns true if the path matches
+ *
+ * @example
+ * ```typescript
+ * matchesGlob("src/api/users.ts", "src/**");        // true
+ * matchesGlob("src/api/users.ts", "*.ts");          // true
+ * matchesGlob("src/api/users.ts", "docs/**");       // false
+ * ```
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalizedPath = normalizePath(filePath).replace(/^\.\//, '');
+  const normalizedPattern = normalizePath(pattern.trim()).replace(/^\.\//, '');
+  if (!normalizedPattern) {
+    return false;
+  }
+
+  if (!normalizedPattern.includes('/')) {
+    const fileName = normalizedPath.slice(normalizedPath.lastIndexOf('/') + 1);
+    return globToRegExp(normalizedPattern).test(fileName);
+  }
+
+  return globToRegExp(normalizedPattern.replace(/^\//, '')).test(normalizedPath);
+}
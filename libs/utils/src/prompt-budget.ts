@@ -0,0 +1,211 @@
+/**
+ * Prompt budget utilities
+ *
+ * Fits the sections an agent prompt is assembled from (context files, the
+ * feature, previous agent output, ...) into a token budget. Sections are
+ * capped at their share of the budget first; if the prompt is still too
+ * large, the lowest-priority sections are shortened until it fits. Every
+ * section's outcome is reported so dropped text can be inspected later.
+ *
+ * Token counts are estimates (about four characters per token), which is
+ * close enough for budgeting without a model-specific tokenizer.
+ */
+
+import type { PromptSectionAction, PromptSectionReport } from '@automaker/types';
+
+const CHARS_PER_TOKEN = 4;
+
+/** Shortened sections smaller than this are dropped instead */
+const MIN_SECTION_TOKENS = 50;
+
+/** Largest share of a shortened section that its outline may take */
+const MAX_OUTLINE_SHARE = 0.25;
+
+/**
+ * A piece of a prompt that can be budgeted
+ */
+export interface PromptSection {
+  /** Stable section ID, used to look up the fitted content */
+  id: string;
+  /** Human-readable section name for reports */
+  label: string;
+  content: string;
+  /** Whether the section goes into the system prompt (default 'prompt') */
+  target?: 'system' | 'prompt';
+  /** Higher priorities are shortened last */
+  priority: number;
+  /**
+   * How the section is shortened:
+   * - keep: never shortened (instructions the prompt doesn't work without)
+   * - head: keep the beginning
+   * - tail: keep the end (agent output, where the latest work is)
+   * - drop: left out entirely when it doesn't fit
+   */
+  strategy: 'keep' | 'head' | 'tail' | 'drop';
+  /** When shortened, keep the Markdown headings of the cut part as an outline */
+  outline?: boolean;
+  /** Largest share of the budget the section may use (0-1) */
+  maxShare?: number;
+  /** Largest number of tokens the section may use */
+  maxTokens?: number;
+}
+
+/**
+ * Result of fitting prompt sections into a budget
+ */
+export interface FittedPrompt {
+  /** Fitted content by section ID ('' for dropped sections) */
+  contents: Record<string, string>;
+  /** Outcome per non-empty section, in input order */
+  sections: PromptSectionReport[];
+  /** Estimated tokens of all fitted sections */
+  totalTokens: number;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Shorten text to about maxTokens, cutting on line boundaries
+ *
+ * A marker notes how much was left out. With outline, the Markdown
+ * headings of the cut part are kept too, so the agent still sees what the
+ * omitted text covered.
+ *
+ * @param from - Which end of the text to keep
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  from: 'head' | 'tail',
+  outline = false
+): { text: string; action: PromptSectionAction } {
+  if (estimateTokens(text) <= maxTokens) {
+    return { text, action: 'kept' };
+  }
+  if (maxTokens < MIN_SECTION_TOKENS) {
+    return { text: '', action: 'dropped' };
+  }
+
+  // Reserve room for the marker
+  const reserved = MIN_SECTION_TOKENS / 2;
+  const keepChars = (available: number) => Math.max(0, available * CHARS_PER_TOKEN);
+  let outlineText = '';
+  let contentChars = keepChars(maxTokens - reserved);
+
+  // Cut the kept part first, then outline the headings that fell outside it
+  const cut = (chars: number): { kept: string; omitted: string } => {
+    if (from === 'head') {
+      const newline = text.lastIndexOf('\n', chars);
+      const end = newline > chars / 2 ? newline : chars;
+      return { kept: text.slice(0, end), omitted: text.slice(end) };
+    }
+    const start = text.length - chars;
+    const newline = text.indexOf('\n', start);
+    const begin = newline !== -1 && newline - start < chars / 2 ? newline + 1 : start;
+    return { kept: text.slice(begin), omitted: text.slice(0, begin) };
+  };
+
+  let { kept, omitted } = cut(contentChars);
+  if (outline) {
+    const omittedHeadings = omitted.split('\n').filter((line) => /^#{1,6} /.test(line));
+    const outlineBudget = keepChars(Math.floor(maxTokens * MAX_OUTLINE_SHARE));
+    const selected: string[] = [];
+    let used = 0;
+    // Prefer the headings nearest the kept text
+    const ordered = from === 'tail' ? [...omittedHeadings].reverse() : omittedHeadings;
+    for (const heading of ordered) {
+      if (used + heading.length + 1 > outlineBudget) break;
+      selected.push(heading);
+      used += heading.length + 1;
+    }
+    if (selected.length > 0) {
+      outlineText = (from === 'tail' ? selected.reverse() : selected).join('\n');
+      contentChars = keepChars(maxTokens - reserved - estimateTokens(outlineText));
+      ({ kept, omitted } = cut(contentChars));
+    }
+  }
+
+  const omittedTokens = estimateTokens(omitted);
+  const marker = outlineText
+    ? `[... ~${omittedTokens} tokens omitted; their headings were:]\n${outlineText}\n[...]`
+    : `[... ~${omittedTokens} tokens omitted ...]`;
+
+  return {
+    text: from === 'head' ? `${kept}\n\n${marker}` : `${marker}\n\n${kept}`,
+    action: outlineText ? 'summarized' : 'truncated',
+  };
+}
+
+/**
+ * Fit prompt sections into a token budget
+ *
+ * Sections are first capped at maxShare/maxTokens. If the total is still
+ * over budget, sections are shortened from the lowest priority up until it
+ * fits; 'keep' sections are never shortened, so a prompt made only of them
+ * may stay over budget.
+ */
+export function fitPromptSections(sections: PromptSection[], budgetTokens: number): FittedPrompt {
+  const fitted = sections.map((section) => {
+    const originalTokens = estimateTokens(section.content);
+    return {
+      section,
+      originalTokens,
+      content: section.content,
+      tokens: originalTokens,
+      action: 'kept' as PromptSectionAction,
+    };
+  });
+
+  const shrink = (entry: (typeof fitted)[number], target: number) => {
+    const { section } = entry;
+    if (section.strategy === 'keep' || target >= entry.tokens) return;
+    const result =
+      section.strategy === 'drop'
+        ? { text: '', action: 'dropped' as PromptSectionAction }
+        : truncateToTokens(section.content, Math.max(0, target), section.strategy, section.outline);
+    entry.content = result.text;
+    entry.tokens = estimateTokens(result.text);
+    entry.action = result.action;
+  };
+
+  for (const entry of fitted) {
+    const { maxShare, maxTokens } = entry.section;
+    const cap = Math.min(
+      maxTokens ?? Infinity,
+      maxShare !== undefined ? Math.floor(budgetTokens * maxShare) : Infinity
+    );
+    shrink(entry, cap);
+  }
+
+  const total = () => fitted.reduce((sum, entry) => sum + entry.tokens, 0);
+  const byPriority = fitted
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.section.priority - b.entry.section.priority || a.index - b.index)
+    .map(({ entry }) => entry);
+
+  for (const entry of byPriority) {
+    const overflow = total() - budgetTokens;
+    if (overflow <= 0) break;
+    shrink(entry, entry.tokens - overflow);
+  }
+
+  return {
+    contents: Object.fromEntries(fitted.map((entry) => [entry.section.id, entry.content])),
+    sections: fitted
+      .filter((entry) => entry.originalTokens > 0)
+      .map((entry) => ({
+        id: entry.section.id,
+        label: entry.section.label,
+        target: entry.section.target ?? 'prompt',
+        originalTokens: entry.originalTokens,
+        tokens: entry.tokens,
+        action: entry.action,
+      })),
+    totalTokens: total(),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Review comment utilities
+ *
+ * Builds the follow-up prompt for a set of inline diff review comments and
+ * decides, from the diff produced by that follow-up, which comments were
+ * addressed. Also builds the follow-up prompt for pull request review
+ * threads.
+ */
+
+import type { PRReviewThread, ReviewComment } from '@automaker/types';
+
+/** Matches a unified diff hunk header and captures the old and new start lines */
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/** Lines on each side of a file's diff */
+interface FileDiffLines {
+  old: string[];
+  new: string[];
+}
+
+/**
+ * Format a comment's line range, e.g. "line 12" or "lines 12-15"
+ */
+function formatLineRange(comment: ReviewComment): string {
+  return comment.startLine === comment.endLine
+    ? `line ${comment.startLine}`
+    : `lines ${comment.startLine}-${comment.endLine}`;
+}
+
+/**
+ * Build a follow-up prompt asking the agent to address review comments
+ *
+ * Each comment is listed with its file, line range, the quoted lines and the
+ * reviewer's text, so the agent can find the code even if line numbers drift.
+ */
+export function buildReviewPrompt(comments: ReviewComment[]): string {
+  const sections = comments.map((comment) => {
+    const side = comment.side === 'old' ? ' (removed lines)' : '';
+    const quoted = comment.lines.map((line) => `> ${line}`).join('\n');
+    return `### ${comment.id}: ${comment.filePath}, ${formatLineRange(comment)}${side}
+
+${quoted}
+
+${comment.body.trim()}`;
+  });
+
+  return `A reviewer left the following comments on your changes. Address every comment by updating the code they refer to. If a comment asks a question, answer it by changing the code or by explaining in your summary why no change is needed.
+
+${sections.join('\n\n')}`;
+}
+
+/** Diff hunk lines quoted per PR review thread; GitHub's hunks end at the commented line */
+const PR_THREAD_HUNK_LINES = 6;
+
+/**
+ * Format a PR review thread's location, e.g. "line 12", "lines 12-15" or "file"
+ */
+function formatThreadLocation(thread: PRReviewThread): string {
+  if (!thread.line) return 'file';
+  return thread.startLine && thread.startLine !== thread.line
+    ? `lines ${thread.startLine}-${thread.line}`
+    : `line ${thread.line}`;
+}
+
+/**
+ * Build a follow-up prompt asking the agent to address PR review threads
+ *
+ * Threads are grouped by file. Each lists its location, the end of the diff
+ * hunk it was left on and every comment in the conversation, so the agent
+ * sees replies that refine the original request.
+ */
+export function buildPRReviewPrompt(prNumber: number, threads: PRReviewThread[]): string {
+  const byFile = new Map<string, PRReviewThread[]>();
+  for (const thread of threads) {
+    byFile.set(thread.path, [...(byFile.get(thread.path) ?? []), thread]);
+  }
+
+  let index = 0;
+  const sections = [...byFile.entries()].map(([filePath, fileThreads]) => {
+    const items = fileThreads.map((thread) => {
+      index++;
+      const hunk = thread.diffHunk
+        ? `\n\n\`\`\`diff\n${thread.diffHunk.split('\n').slice(-PR_THREAD_HUNK_LINES).join('\n')}\n\`\`\``
+        : '';
+      const conversation = thread.comments
+        .map((comment) => `**${comment.author}:** ${comment.body.trim()}`)
+        .join('\n\n');
+      return `#### Thread ${index} (${formatThreadLocation(thread)})${hunk}\n\n${conversation}`;
+    });
+    return `### ${filePath}\n\n${items.join('\n\n')}`;
+  });
+
+  return `Reviewers left the following unresolved comment threads on pull request #${prNumber}. Address every thread by updating the code it refers to. If a thread asks a question, answer it by changing the code or by explaining in your summary why no change is needed. Finish with a <summary> that says how each thread was addressed, since it is posted as the reply to the threads.
+
+${sections.join('\n\n')}`;
+}
+
+/**
+ * Split a unified diff into the old and new lines of each file's hunks
+ *
+ * Context lines count on both sides; the "/dev/null" side of added or deleted
+ * files has no lines.
+ */
+function parseDiffLines(diff: string): Map<string, FileDiffLines> {
+  const files = new Map<string, FileDiffLines>();
+  let current: FileDiffLines | null = null;
+  let inHunk = false;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/ b\/(.+)$/);
+      current = { old: [], new: [] };
+      inHunk = false;
+      if (match) {
+        files.set(match[1], current);
+      }
+      continue;
+    }
+    if (!current) continue;
+
+    if (HUNK_HEADER_PATTERN.test(line)) {
+      inHunk = true;
+    } else if (!inHunk) {
+      continue;
+    } else if (line.startsWith('+')) {
+      current.new.push(line.slice(1));
+    } else if (line.startsWith('-')) {
+      current.old.push(line.slice(1));
+    } else if (line.startsWith(' ')) {
+      current.old.push(line.slice(1));
+      current.new.push(line.slice(1));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Check whether the non-blank lines of a snapshot still appear, in order and
+ * next to each other, among the given lines (ignoring indentation changes)
+ */
+function containsLines(haystack: string[], snapshot: string[]): boolean {
+  const needle = snapshot.map((line) => line.trim()).filter(Boolean);
+  if (needle.length === 0) return false;
+
+  const lines = haystack.map((line) => line.trim()).filter(Boolean);
+  for (let start = 0; start + needle.length <= lines.length; start++) {
+    if (needle.every((line, offset) => lines[start + offset] === line)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Mark submitted review comments resolved or unresolved from the latest diff
+ *
+ * A comment is unresolved when the lines it was left on are still part of the
+ * diff on the same side; once the agent rewrites or removes them it is
+ * resolved. Comments in any other status are returned unchanged.
+ *
+ * @param comments - The feature's review comments
+ * @param diff - Unified diff of the feature's changes from its base branch,
+ *   taken after the follow-up
+ * @param now - Timestamp recorded on newly resolved comments
+ */
+export function resolveReviewComments(
+  comments: ReviewComment[],
+  diff: string,
+  now: string = new Date().toISOString()
+): ReviewComment[] {
+  const files = parseDiffLines(diff);
+
+  return comments.map((comment) => {
+    if (comment.status !== 'submitted') {
+      return comment;
+    }
+
+    const fileLines = files.get(comment.filePath);
+    const stillPresent = fileLines ? containsLines(fileLines[comment.side], comment.lines) : false;
+    return stillPresent
+      ? { ...comment, status: 'unresolved' }
+      : { ...comment, status: 'resolved', resolvedAt: now };
+  });
+}
@@ -0,0 +1,235 @@
+/**
+ * Schedule utilities
+ *
+ * Cron expression matching and time window evaluation for the scheduler.
+ * All times are evaluated in the local time zone of the process, at minute
+ * granularity.
+ */
+
+import type { ScheduleTrigger } from '@automaker/types';
+
+/**
+ * A parsed 5-field cron expression: the allowed values of each field
+ */
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was restricted (not "*") */
+  daysOfMonthRestricted: boolean;
+  /** Whether day-of-week was restricted (not "*") */
+  daysOfWeekRestricted: boolean;
+}
+
+/**
+ * A single run of a schedule
+ */
+export interface ScheduleOccurrence {
+  /** When the occurrence started (window start or the minute the cron matched) */
+  start: Date;
+  /** When it ends, or null for cron triggers without a duration */
+  end: Date | null;
+}
+
+const MINUTE_MS = 60_000;
+
+const CRON_FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+function parseCronField(field: string, name: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron ${name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ *
+ * Supports "*", single values, ranges ("1-5"), steps on "*" or a range
+ * ("0-30/10") and lists ("1,3,5"). Day-of-week accepts 0-7 with both 0 and 7 meaning
+ * Sunday.
+ *
+ * @throws Error if the expression is malformed
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(
+      `Cron expression must have ${CRON_FIELDS.length} fields, got ${fields.length}: "${expression}"`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index].name, CRON_FIELDS[index].min, CRON_FIELDS[index].max)
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Check whether a cron expression is well-formed
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a date falls on a minute matched by a cron expression
+ *
+ * As in standard cron, when both day-of-month and day-of-week are
+ * restricted a date matching either of them matches.
+ */
+export function matchesCron(expression: string | ParsedCron, date: Date): boolean {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  if (
+    !cron.minutes.has(date.getMinutes()) ||
+    !cron.hours.has(date.getHours()) ||
+    !cron.months.has(date.getMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonthMatches = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeekMatches = cron.daysOfWeek.has(date.getDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * Parse a time of day ("HH:MM", 24-hour) into minutes since midnight
+ *
+ * @throws Error if the time is malformed
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59)) {
+    throw new Error(`Invalid time of day "${time}", expected HH:MM`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Get the start of the minute a date falls in
+ */
+export function floorToMinute(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS);
+}
+
+function atTimeOfDay(day: Date, minutesSinceMidnight: number): Date {
+  const result = new Date(day);
+  result.setHours(Math.floor(minutesSinceMidnight / 60), minutesSinceMidnight % 60, 0, 0);
+  return result;
+}
+
+/**
+ * Get the occurrence of a schedule trigger that is active at a given time
+ *
+ * For a time window this is the window containing `now` (a window crossing
+ * midnight is found from the day it started on). For a cron trigger it is the
+ * current minute when the expression matches it, ending durationMinutes later.
+ *
+ * @returns The active occurrence, or null if the trigger is not active at `now`
+ * @throws Error if the trigger's expression or times are malformed
+ */
+export function getActiveOccurrence(
+  trigger: ScheduleTrigger,
+  now: Date
+): ScheduleOccurrence | null {
+  if (trigger.type === 'cron') {
+    if (!matchesCron(trigger.expression, now)) {
+      return null;
+    }
+    const start = floorToMinute(now);
+    const end = trigger.durationMinutes
+      ? new Date(start.getTime() + trigger.durationMinutes * MINUTE_MS)
+      : null;
+    return { start, end };
+  }
+
+  const startMinutes = parseTimeOfDay(trigger.start);
+  const endMinutes = parseTimeOfDay(trigger.end);
+  const crossesMidnight = endMinutes <= startMinutes;
+
+  // A window can only be active if it started today or (crossing midnight) yesterday
+  for (const daysAgo of crossesMidnight ? [0, 1] : [0]) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - daysAgo);
+    if (!trigger.days.includes(day.getDay())) {
+      continue;
+    }
+
+    const start = atTimeOfDay(day, startMinutes);
+    const end = atTimeOfDay(day, endMinutes);
+    if (crossesMidnight) {
+      end.setDate(end.getDate() + 1);
+    }
+    if (now >= start && now < end) {
+      return { start, end };
+    }
+  }
+
+  return null;
+}
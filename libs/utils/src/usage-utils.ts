@@ -0,0 +1,210 @@
+/**
+ * Usage accounting utilities
+ *
+ * Helpers for turning provider-reported token usage into cost-bearing totals
+ * and for summing those totals across queries, pipeline steps and features.
+ */
+
+import type {
+  BudgetExceeded,
+  BudgetLimits,
+  BudgetSpend,
+  ModelPricing,
+  ProviderUsage,
+  UsageCostSource,
+  UsageTotals,
+} from '@automaker/types';
+import { EMPTY_USAGE_TOTALS, MODEL_PRICING } from '@automaker/types';
+
+const TOKENS_PER_MILLION = 1_000_000;
+
+/**
+ * Create a fresh, zeroed usage totals object
+ */
+export function createEmptyUsageTotals(): UsageTotals {
+  return { ...EMPTY_USAGE_TOTALS };
+}
+
+/**
+ * Find list pricing for a model
+ *
+ * @param model - Model ID, with or without provider prefix
+ * @returns Pricing per million tokens, or null if the model has no known price
+ */
+export function findModelPricing(model: string | undefined | null): ModelPricing | null {
+  if (!model) return null;
+  const normalized = model.toLowerCase();
+  const entry = MODEL_PRICING.find((candidate) => normalized.includes(candidate.match));
+  return entry?.pricing ?? null;
+}
+
+/**
+ * Estimate the USD cost of a usage report from list pricing
+ *
+ * @param model - Model that produced the usage
+ * @param usage - Token counts reported by the provider
+ * @returns Estimated cost in USD, or null if the model has no known price
+ */
+export function estimateUsageCost(
+  model: string | undefined | null,
+  usage: ProviderUsage
+): number | null {
+  const pricing = findModelPricing(model);
+  if (!pricing) return null;
+
+  const cost =
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input) +
+    (usage.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? pricing.input);
+
+  return cost / TOKENS_PER_MILLION;
+}
+
+/**
+ * Convert a provider usage report into totals, filling in the cost
+ *
+ * Provider-reported cost wins; otherwise the cost is estimated from list
+ * pricing. Models without a known price are recorded with zero cost.
+ *
+ * @param model - Model that produced the usage
+ * @param usage - Token counts reported by the provider
+ */
+export function resolveUsageTotals(
+  model: string | undefined | null,
+  usage: ProviderUsage
+): { usage: UsageTotals; costSource: UsageCostSource } {
+  const totals: UsageTotals = {
+    inputTokens: usage.inputTokens || 0,
+    outputTokens: usage.outputTokens || 0,
+    cacheReadTokens: usage.cacheReadTokens || 0,
+    cacheWriteTokens: usage.cacheWriteTokens || 0,
+    costUsd: 0,
+  };
+
+  if (typeof usage.costUsd === 'number' && Number.isFinite(usage.costUsd)) {
+    totals.costUsd = usage.costUsd;
+    return { usage: totals, costSource: 'provider' };
+  }
+
+  const estimated = estimateUsageCost(model, totals);
+  if (estimated === null) {
+    return { usage: totals, costSource: 'unknown' };
+  }
+  totals.costUsd = estimated;
+  return { usage: totals, costSource: 'estimated' };
+}
+
+/**
+ * Add one set of totals to another
+ *
+ * @returns A new totals object; neither argument is mutated
+ */
+export function addUsageTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+/**
+ * Total number of tokens (input, output and cache) in a usage total
+ */
+export function getTotalTokens(usage: UsageTotals): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+/**
+ * Check spend against a set of budget limits
+ *
+ * Limits that are unset or not positive are ignored. Limits are checked in
+ * the order cost, tokens, minutes and the first one exceeded is reported.
+ *
+ * @param limits - Configured limits (undefined means no budget)
+ * @param spend - Amount consumed so far
+ * @returns Details of the exceeded limit, or null if within budget
+ */
+export function checkBudgetLimits(
+  limits: BudgetLimits | undefined,
+  spend: BudgetSpend
+): BudgetExceeded | null {
+  if (!limits) return null;
+
+  const checks: Array<[BudgetExceeded['limit'], number | undefined, number]> = [
+    ['cost', limits.maxCostUsd, spend.costUsd],
+    ['tokens', limits.maxTokens, spend.tokens],
+    ['minutes', limits.maxMinutes, spend.minutes],
+  ];
+
+  for (const [limit, limitValue, actual] of checks) {
+    if (typeof limitValue === 'number' && limitValue > 0 && actual >= limitValue) {
+      return { limit, limitValue, actual };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether spend has reached a percentage of any budget limit
+ *
+ * Returns the first limit reached, with the full configured limit as
+ * limitValue, so it can be described with formatBudgetExceeded.
+ *
+ * @param percent - Share of each limit that triggers the warning (0-100)
+ */
+export function checkBudgetWarning(
+  limits: BudgetLimits | undefined,
+  spend: BudgetSpend,
+  percent: number
+): BudgetExceeded | null {
+  if (!limits || percent <= 0 || percent >= 100) return null;
+
+  const scale = (value: number | undefined) =>
+    typeof value === 'number' ? (value * percent) / 100 : value;
+  const reached = checkBudgetLimits(
+    {
+      maxCostUsd: scale(limits.maxCostUsd),
+      maxTokens: scale(limits.maxTokens),
+      maxMinutes: scale(limits.maxMinutes),
+    },
+    spend
+  );
+  if (!reached) return null;
+
+  const limitValues = {
+    cost: limits.maxCostUsd,
+    tokens: limits.maxTokens,
+    minutes: limits.maxMinutes,
+  };
+  return { ...reached, limitValue: limitValues[reached.limit] ?? reached.limitValue };
+}
+
+/**
+ * Whether any limit in a budget is actually enforced
+ */
+export function hasBudgetLimits(limits: BudgetLimits | undefined): boolean {
+  if (!limits) return false;
+  return [limits.maxCostUsd, limits.maxTokens, limits.maxMinutes].some(
+    (value) => typeof value === 'number' && value > 0
+  );
+}
+
+/**
+ * Describe an exceeded budget for notifications and logs
+ *
+ * @example formatBudgetExceeded({ limit: 'cost', limitValue: 5, actual: 5.2 })
+ * // => "$5.20 spent of $5.00 budget"
+ */
+export function formatBudgetExceeded(exceeded: BudgetExceeded): string {
+  switch (exceeded.limit) {
+    case 'cost':
+      return `$${exceeded.actual.toFixed(2)} spent of $${exceeded.limitValue.toFixed(2)} budget`;
+    case 'tokens':
+      return `${Math.round(exceeded.actual).toLocaleString('en-US')} tokens used of ${exceeded.limitValue.toLocaleString('en-US')} token budget`;
+    case 'minutes':
+      return `${Math.round(exceeded.actual)} minutes elapsed of ${exceeded.limitValue} minute budget`;
+  }
+}
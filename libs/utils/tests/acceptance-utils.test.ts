@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { AcceptanceCriterion } from '@automaker/types';
+import { extractAcceptanceCriteria, applyAcceptanceJudgement } from '../src/acceptance-utils.js';
+
+describe('acceptance-utils', () => {
+  describe('extractAcceptanceCriteria', () => {
+    it('should extract numbered items below the heading', () => {
+      const text = `Add Password Reset
+
+Allow users to reset their password.
+
+Acceptance Criteria:
+
+1. Given a user on the login page, when they click "Forgot Password", then they see a reset form.
+
+2. Given a registered email, when they submit the form,
+   then they receive a reset email.`;
+
+      expect(extractAcceptanceCriteria(text)).toEqual([
+        'Given a user on the login page, when they click "Forgot Password", then they see a reset form.',
+        'Given a registered email, when they submit the form, then they receive a reset email.',
+      ]);
+    });
+
+    it('should accept markdown headings and bullet lists', () => {
+      const text = `## Acceptance Criteria
+- [ ] Shows an error for empty input
+* Saves valid input
+
+## Notes
+- Not a criterion`;
+
+      expect(extractAcceptanceCriteria(text)).toEqual([
+        'Shows an error for empty input',
+        'Saves valid input',
+      ]);
+    });
+
+    it('should return an empty array without a criteria section', () => {
+      expect(extractAcceptanceCriteria('1. Just a list\n2. Of steps')).toEqual([]);
+    });
+  });
+
+  describe('applyAcceptanceJudgement', () => {
+    const criteria: AcceptanceCriterion[] = [
+      { id: 'AC1', description: 'Shows an error for empty input', status: 'pending' },
+      { id: 'AC2', description: 'Saves valid input', status: 'pending' },
+    ];
+
+    it('should score each criterion with its evidence', () => {
+      const output = `Checked the form handler.
+
+CRITERION AC1: PASS | score: 92 | evidence: validate() rejects "" in src/form.ts
+**CRITERION AC2:** FAIL | score: 30 | evidence: save() is never called
+
+VERDICT: FAIL`;
+
+      expect(applyAcceptanceJudgement(output, criteria)).toEqual([
+        {
+          ...criteria[0],
+          status: 'pass',
+          score: 92,
+          evidence: 'validate() rejects "" in src/form.ts',
+        },
+        { ...criteria[1], status: 'fail', score: 30, evidence: 'save() is never called' },
+      ]);
+    });
+
+    it('should fail criteria the judge did not report on', () => {
+      const [first, second] = applyAcceptanceJudgement('criterion ac1: pass', criteria);
+
+      expect(first.status).toBe('pass');
+      expect(first.score).toBeUndefined();
+      expect(second.status).toBe('fail');
+      expect(second.evidence).toContain('did not report');
+    });
+
+    it('should let the last result for a criterion win', () => {
+      const output = 'CRITERION AC1: FAIL\nCRITERION AC1: PASS | score: 80';
+
+      expect(applyAcceptanceJudgement(output, criteria)[0]).toMatchObject({
+        status: 'pass',
+        score: 80,
+      });
+    });
+  });
+});
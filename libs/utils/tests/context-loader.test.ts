@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  evaluateContextFileScope,
+  extractPathMentions,
+  loadContextFiles,
+  type ContextFsModule,
+} from '../src/context-loader.js';
+import { parseFrontmatter } from '../src/memory-loader.js';
+
+describe('context-loader', () => {
+  describe('extractPathMentions', () => {
+    it('picks up slash-separated paths but not bare words or URLs', () => {
+      expect(
+        extractPathMentions(
+          'Fix the header in apps/ui/src/app.tsx. See `libs/utils/` and https://example.com/docs on Node.js'
+        )
+      ).toEqual(['apps/ui/src/app.tsx', 'libs/utils/']);
+    });
+  });
+
+  describe('evaluateContextFileScope', () => {
+    const uiGuide = { appliesTo: ['apps/ui/**'], agentTypes: ['implementation' as const] };
+
+    it('applies when every rule matches the task', () => {
+      expect(
+        evaluateContextFileScope(uiGuide, {
+          title: 'Dark mode',
+          agentTypes: ['planning', 'implementation'],
+          changedPaths: ['apps/ui/src/styles/global.css'],
+        })
+      ).toEqual({ applies: true });
+    });
+
+    it('skips files whose paths, agent types or categories do not match', () => {
+      expect(
+        evaluateContextFileScope(uiGuide, {
+          title: 'Rate limit apps/server/src/routes/',
+          agentTypes: ['implementation'],
+        })
+      ).toEqual({ applies: false, reason: 'no task paths match: apps/ui/**' });
+      expect(
+        evaluateContextFileScope(uiGuide, { title: 'Dark mode', agentTypes: ['chat'] }).applies
+      ).toBe(false);
+      expect(
+        evaluateContextFileScope(
+          { categories: ['UI'] },
+          { title: 'Rate limit', category: 'Backend' }
+        ).reason
+      ).toBe('category "Backend" is not one of: UI');
+    });
+
+    it('passes over rules the task knows nothing about', () => {
+      expect(evaluateContextFileScope(uiGuide, { title: 'Dark mode' }).applies).toBe(true);
+      expect(evaluateContextFileScope({ categories: ['UI'] }, { title: 'Chat' }).applies).toBe(
+        true
+      );
+      expect(evaluateContextFileScope(uiGuide, undefined).applies).toBe(true);
+    });
+
+    it('only loads step-scoped files for those pipeline steps', () => {
+      const scope = { pipelineSteps: ['security-review'] };
+
+      expect(
+        evaluateContextFileScope(scope, {
+          title: 'Login',
+          agentTypes: ['pipeline'],
+          pipelineStepId: 'security-review',
+        }).applies
+      ).toBe(true);
+      expect(
+        evaluateContextFileScope(scope, {
+          title: 'Login',
+          agentTypes: ['pipeline'],
+          pipelineStepId: 'lint',
+        }).applies
+      ).toBe(false);
+      expect(
+        evaluateContextFileScope(scope, { title: 'Login', agentTypes: ['implementation'] }).applies
+      ).toBe(false);
+    });
+  });
+
+  describe('loadContextFiles', () => {
+    let projectPath: string;
+
+    beforeEach(async () => {
+      projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'context-loader-'));
+      const contextDir = path.join(projectPath, '.automaker', 'context');
+      await fs.mkdir(contextDir, { recursive: true });
+      await fs.writeFile(path.join(contextDir, 'conventions.md'), 'Use npm workspaces');
+      await fs.writeFile(path.join(contextDir, 'ui-style.md'), 'Use Tailwind classes');
+      await fs.writeFile(
+        path.join(contextDir, 'context-metadata.json'),
+        JSON.stringify({
+          files: {
+            'conventions.md': { description: 'Repo conventions' },
+            'ui-style.md': { description: 'Frontend style guide', appliesTo: ['apps/ui/**'] },
+          },
+        })
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('leaves out context files scoped away from the task', async () => {
+      const result = await loadContextFiles({
+        projectPath,
+        fsModule: fs as unknown as ContextFsModule,
+        includeMemory: false,
+        taskContext: { title: 'Add retries', changedPaths: ['apps/server/src/index.ts'] },
+      });
+
+      expect(result.files.map((file) => file.name)).toEqual(['conventions.md']);
+      expect(result.skippedFiles).toEqual([
+        { name: 'ui-style.md', reason: 'no task paths match: apps/ui/**' },
+      ]);
+      expect(result.formattedPrompt).not.toContain('Tailwind');
+    });
+
+    it('only counts memory loads when asked to', async () => {
+      const memoryDir = path.join(projectPath, '.automaker', 'memory');
+      await fs.mkdir(memoryDir, { recursive: true });
+      const gotchasPath = path.join(memoryDir, 'gotchas.md');
+      await fs.writeFile(gotchasPath, '# Gotchas\n\n- Run migrations first\n');
+      const load = (recordMemoryLoads?: boolean) =>
+        loadContextFiles({
+          projectPath,
+          fsModule: fs as unknown as ContextFsModule,
+          memoryRetriever: null,
+          recordMemoryLoads,
+        });
+      const loadedCount = async () =>
+        parseFrontmatter(await fs.readFile(gotchasPath, 'utf-8')).metadata.usageStats.loaded;
+
+      const reload = await load(false);
+      expect(reload.memoryFiles.map((file) => file.name)).toEqual(['gotchas.md']);
+      expect(await loadedCount()).toBe(0);
+
+      await load();
+      expect(await loadedCount()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { expandEnvVars } from '../src/env-utils.js';
+
+describe('env-utils', () => {
+  describe('expandEnvVars', () => {
+    const env = { AUTOMAKER_ISSUES_TOKEN: 'issues', ANTHROPIC_API_KEY: 'secret' };
+
+    it('replaces variables with the prefix', () => {
+      expect(expandEnvVars('Bearer ${AUTOMAKER_ISSUES_TOKEN}', env, 'AUTOMAKER_ISSUES_')).toBe(
+        'Bearer issues'
+      );
+    });
+
+    it('replaces unset variables with an empty string', () => {
+      expect(expandEnvVars('${AUTOMAKER_ISSUES_MISSING}', env, 'AUTOMAKER_ISSUES_')).toBe('');
+    });
+
+    it('leaves values without variables unchanged', () => {
+      expect(expandEnvVars('plain $TOKEN', env, 'AUTOMAKER_ISSUES_')).toBe('plain $TOKEN');
+    });
+
+    it('rejects variables without the prefix', () => {
+      expect(() => expandEnvVars('Bearer ${ANTHROPIC_API_KEY}', env, 'AUTOMAKER_ISSUES_')).toThrow(
+        'Only AUTOMAKER_ISSUES_* environment variables can be used, not ${ANTHROPIC_API_KEY}'
+      );
+    });
+  });
+});
@@ -7,6 +7,8 @@ import {
   isQuotaExhaustedError,
   extractRetryAfter,
   classifyError,
+  resolveRetryPolicy,
+  getRetryDecision,
   getUserFriendlyErrorMessage,
 } from '../src/error-handler';
 
@@ -456,4 +458,63 @@ describe('error-handler.ts', () => {
       expect(message).toBe('');
     });
   });
+
+  describe('resolveRetryPolicy', () => {
+    it('should return defaults without policies', () => {
+      expect(resolveRetryPolicy()).toEqual({
+        maxRetries: 2,
+        initialBackoffSeconds: 30,
+        maxBackoffSeconds: 300,
+        fallbackModels: [],
+      });
+    });
+
+    it('should let project fields override global fields', () => {
+      const policy = resolveRetryPolicy(
+        { maxRetries: 5, fallbackModels: ['sonnet'] },
+        { fallbackModels: ['codex-gpt-5.2'] }
+      );
+      expect(policy.maxRetries).toBe(5);
+      expect(policy.fallbackModels).toEqual(['codex-gpt-5.2']);
+      expect(policy.initialBackoffSeconds).toBe(30);
+    });
+  });
+
+  describe('getRetryDecision', () => {
+    const policy = resolveRetryPolicy({ initialBackoffSeconds: 10, maxBackoffSeconds: 25 });
+
+    it('should back off exponentially on rate limits up to the maximum', () => {
+      const info = classifyError(new Error('429 Too Many Requests'));
+      expect(getRetryDecision(info, policy, 0)).toEqual({ action: 'retry', delayMs: 10000 });
+      expect(getRetryDecision(info, { ...policy, maxRetries: 3 }, 2)).toEqual({
+        action: 'retry',
+        delayMs: 25000,
+      });
+    });
+
+    it('should wait at least as long as the Retry-After hint', () => {
+      const info = classifyError(new Error('rate_limit: retry-after: 90'));
+      expect(getRetryDecision(info, policy, 0)).toEqual({ action: 'retry', delayMs: 90000 });
+    });
+
+    it('should fall back once rate limit retries are used up', () => {
+      const info = classifyError(new Error('429 Too Many Requests'));
+      expect(getRetryDecision(info, policy, 2)).toEqual({ action: 'fallback' });
+    });
+
+    it('should fall back immediately on quota and authentication errors', () => {
+      expect(getRetryDecision(classifyError(new Error('Usage limit reached')), policy, 0)).toEqual({
+        action: 'fallback',
+      });
+      expect(
+        getRetryDecision(classifyError(new Error('Authentication failed')), policy, 0)
+      ).toEqual({ action: 'fallback' });
+    });
+
+    it('should fail on other errors', () => {
+      expect(getRetryDecision(classifyError(new Error('Build broke')), policy, 0)).toEqual({
+        action: 'fail',
+      });
+    });
+  });
 });
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, parseMemoryEntries, planMemoryCuration } from '../src/memory-curation.js';
+import { parseFrontmatter } from '../src/memory-loader.js';
+
+const frontmatter = (importance = 0.7, loaded = 0, referenced = 0) =>
+  `---\ntags: [api]\nsummary: API decisions\nrelevantTo: [api]\nimportance: ${importance}\nrelatedFiles: []\nusageStats:\n  loaded: ${loaded}\n  referenced: ${referenced}\n  successfulFeatures: 0\n---\n`;
+
+const body = `# API
+
+### Use Redis for session storage (2026-01-10)
+- **Context:** Sessions must survive restarts
+- **Rejected:** Postgres - too slow for every request
+
+#### [Gotcha] Express 5 route params are not decoded twice (2026-02-01)
+- **Situation:** Encoded slashes in IDs
+
+#### [Pattern] Validate projectPath with validatePathParams (2026-02-03)
+- **Problem solved:** Path traversal
+
+#### [Learned] Validate projectPath with the validatePathParams middleware (2026-03-05)
+- **Problem solved:** Path traversal
+- **Why this works:** It runs before every handler
+
+### Use Postgres for session storage (2026-04-02)
+- **Why:** One less service to run
+`;
+
+describe('memory-curation', () => {
+  describe('parseMemoryEntries', () => {
+    it('splits a body into entries that join back to the original', () => {
+      const parsed = parseMemoryEntries(body);
+
+      expect(parsed.head).toBe('# API\n\n');
+      expect(parsed.entries.map((entry) => entry.kind)).toEqual([
+        'decision',
+        'gotcha',
+        'pattern',
+        'learning',
+        'decision',
+      ]);
+      expect(parsed.entries[1]).toMatchObject({
+        title: 'Express 5 route params are not decoded twice',
+        date: '2026-02-01',
+        details: ['- **Situation:** Encoded slashes in IDs'],
+      });
+      expect(parsed.head + parsed.entries.map((entry) => entry.block).join('')).toBe(body);
+    });
+  });
+
+  describe('planMemoryCuration', () => {
+    it('merges near-duplicates into the newest entry, keeping every detail', () => {
+      const { changes } = planMemoryCuration('api.md', frontmatter() + body);
+      const merge = changes.find((change) => change.kind === 'merge')!;
+
+      expect(merge.title).toBe('Merge 1 duplicate entry');
+      expect(merge.after).toContain(
+        '#### [Learned] Validate projectPath with the validatePathParams middleware (2026-03-05)\n- **Problem solved:** Path traversal\n- **Why this works:** It runs before every handler\n'
+      );
+      expect(merge.after).not.toContain('[Pattern]');
+      expect(merge.after!.startsWith(frontmatter())).toBe(true);
+    });
+
+    it('flags decisions that reject each other for a human to resolve', () => {
+      const { changes } = planMemoryCuration('api.md', frontmatter() + body);
+      const conflicts = changes.filter((change) => change.kind === 'conflict');
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].after).toBeUndefined();
+      const [keepNewer, keepOlder] = conflicts[0].resolutions!;
+      expect(keepNewer.after).not.toContain('Use Redis');
+      expect(keepNewer.after).toContain('Use Postgres');
+      expect(keepOlder.after).toContain('Use Redis');
+      expect(keepOlder.after).not.toContain('Use Postgres');
+    });
+
+    it('decays files that are loaded often but rarely referenced', () => {
+      const { changes } = planMemoryCuration('api.md', frontmatter(0.7, 40, 1) + body, {
+        now: new Date('2026-09-01'),
+      });
+      const decay = changes.find((change) => change.kind === 'decay')!;
+
+      expect(decay.title).toBe('Lower importance from 0.7 to 0.3 and age out 3 old entries');
+      const { metadata, body: decayed } = parseFrontmatter(decay.after!);
+      expect(metadata.importance).toBe(0.3);
+      expect(metadata.usageStats.loaded).toBe(40);
+      expect(parseMemoryEntries(decayed).entries.map((entry) => entry.date)).toEqual([
+        '2026-03-05',
+        '2026-04-02',
+      ]);
+    });
+
+    it('does not decay a file again once its decay is applied', () => {
+      const now = new Date('2026-09-01');
+      const first = planMemoryCuration('api.md', frontmatter(0.7, 40, 1) + body, { now });
+      const applied = first.changes.find((change) => change.kind === 'decay')!.after!;
+
+      const again = planMemoryCuration('api.md', applied, { now });
+      expect(again.changes.filter((change) => change.kind === 'decay')).toEqual([]);
+
+      // It keeps decaying as the file gets older
+      const later = planMemoryCuration('api.md', applied, { now: new Date('2026-12-01') });
+      const decay = later.changes.find((change) => change.kind === 'decay')!;
+      expect(parseFrontmatter(decay.after!).metadata.importance).toBe(0.15);
+    });
+
+    it('leaves clean files alone and reports bloated ones', () => {
+      const clean = frontmatter(0.7, 40, 20) + '# Notes\n\n### Use Vitest (2026-01-01)\n';
+
+      expect(planMemoryCuration('notes.md', clean)).toEqual({ changes: [], bloated: false });
+      expect(planMemoryCuration('notes.md', clean, { bloatMaxChars: 10 }).bloated).toBe(true);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('marks removed and added lines', () => {
+      expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+        { type: 'context', content: 'a' },
+        { type: 'deletion', content: 'b' },
+        { type: 'context', content: 'c' },
+        { type: 'addition', content: 'x' },
+        { type: 'context', content: 'd' },
+      ]);
+      expect(diffLines('same', 'same')).toEqual([{ type: 'context', content: 'same' }]);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi } from 'vitest';
+import path from 'path';
+import {
+  createBm25Retriever,
+  getMemoryIndexDir,
+  hybridRelevance,
+  scoreMemoryDocuments,
+  stemTerm,
+  type MemoryRetriever,
+} from '../src/memory-retrieval.js';
+import { loadRelevantMemory, type MemoryFsModule } from '../src/memory-loader.js';
+
+function createMemoryFs(files: Record<string, string> = {}) {
+  const store = new Map(Object.entries(files));
+  const fsModule: MemoryFsModule = {
+    access: vi.fn(async (p: string) => {
+      const exists = store.has(p) || [...store.keys()].some((key) => key.startsWith(p + path.sep));
+      if (!exists) throw new Error('ENOENT');
+    }),
+    readdir: vi.fn(async (dir: string) => [
+      ...new Set(
+        [...store.keys()]
+          .filter((key) => key.startsWith(dir + path.sep))
+          .map((key) => key.slice(dir.length + 1).split(path.sep)[0])
+      ),
+    ]),
+    readFile: vi.fn(async (p: string) => {
+      const content = store.get(p);
+      if (content === undefined) throw new Error('ENOENT');
+      return content;
+    }),
+    writeFile: vi.fn(async (p: string, content: string) => {
+      store.set(p, content);
+    }),
+    mkdir: vi.fn(async () => undefined),
+    appendFile: vi.fn(async (p: string, content: string) => {
+      store.set(p, (store.get(p) ?? '') + content);
+    }),
+  };
+  return { fsModule, store };
+}
+
+const memoryDir = path.join('/project', '.automaker', 'memory');
+const indexPath = path.join(getMemoryIndexDir(memoryDir), 'bm25.json');
+
+const documents = [
+  {
+    name: 'redis.md',
+    text: 'Session tokens are cached in Redis. Invalidate the cached session when a token rotates.',
+  },
+  { name: 'styling.md', text: 'Use Tailwind utility classes, never inline styles.' },
+  { name: 'testing.md', text: 'Run vitest with --run in CI. Mock the provider factory.' },
+];
+
+describe('memory-retrieval', () => {
+  describe('stemTerm', () => {
+    it('folds common inflections together', () => {
+      expect(new Set(['caching', 'cached', 'caches', 'cache'].map(stemTerm)).size).toBe(1);
+      expect(stemTerm('authentication')).toBe(stemTerm('authenticated'));
+      expect(stemTerm('policies')).toBe('policy');
+      expect(stemTerm('class')).toBe('class');
+    });
+  });
+
+  describe('hybridRelevance', () => {
+    it('adds strong retrieval matches to keyword points and ignores noise', () => {
+      expect(hybridRelevance(3, 1)).toBe(9);
+      expect(hybridRelevance(3, 0.1)).toBe(3);
+      expect(hybridRelevance(0, 0.5)).toBe(3);
+    });
+  });
+
+  describe('createBm25Retriever', () => {
+    it('ranks documents that use different word forms', async () => {
+      const { fsModule } = createMemoryFs();
+      const retriever = createBm25Retriever();
+
+      const scores = await retriever.score(
+        memoryDir,
+        'Fix session caching after token rotation',
+        documents,
+        fsModule
+      );
+
+      expect(scores.get('redis.md')).toBe(1);
+      expect(scores.has('styling.md')).toBe(false);
+      expect(scores.has('testing.md')).toBe(false);
+    });
+
+    it('does not treat object property names as terms', async () => {
+      const { fsModule } = createMemoryFs();
+
+      const scores = await createBm25Retriever().score(
+        memoryDir,
+        'constructor prototype',
+        documents,
+        fsModule
+      );
+
+      expect(scores.size).toBe(0);
+    });
+
+    it('re-indexes only when memory files change', async () => {
+      const { fsModule, store } = createMemoryFs();
+      const retriever = createBm25Retriever();
+
+      await retriever.score(memoryDir, 'session', documents, fsModule);
+      expect(fsModule.writeFile).toHaveBeenCalledTimes(1);
+      const firstIndex = JSON.parse(store.get(indexPath)!);
+      expect(Object.keys(firstIndex.documents).sort()).toEqual([
+        'redis.md',
+        'styling.md',
+        'testing.md',
+      ]);
+
+      // Unchanged files: the saved index is reused as is
+      await retriever.score(memoryDir, 'session', documents, fsModule);
+      expect(fsModule.writeFile).toHaveBeenCalledTimes(1);
+
+      // Edited and deleted files are picked up
+      const edited = [
+        { name: 'redis.md', text: 'Webhook deliveries are retried with backoff.' },
+        documents[1],
+      ];
+      const scores = await retriever.score(memoryDir, 'webhook retries', edited, fsModule);
+      expect(fsModule.writeFile).toHaveBeenCalledTimes(2);
+      const secondIndex = JSON.parse(store.get(indexPath)!);
+      expect(Object.keys(secondIndex.documents).sort()).toEqual(['redis.md', 'styling.md']);
+      expect(secondIndex.documents['styling.md']).toEqual(firstIndex.documents['styling.md']);
+      expect(scores.get('redis.md')).toBe(1);
+    });
+
+    it('still scores when the index cannot be read or saved', async () => {
+      const { fsModule, store } = createMemoryFs();
+      store.set(indexPath, '{not json');
+      vi.mocked(fsModule.writeFile).mockRejectedValue(new Error('EACCES'));
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const scores = await createBm25Retriever().score(memoryDir, 'tailwind', documents, fsModule);
+
+      expect(scores.get('styling.md')).toBe(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe('scoreMemoryDocuments', () => {
+    it('falls back to no retrieval scores when the retriever fails', async () => {
+      const { fsModule } = createMemoryFs();
+      const failing: MemoryRetriever = {
+        name: 'broken',
+        score: vi.fn(async () => {
+          throw new Error('model not found');
+        }),
+      };
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        scoreMemoryDocuments(failing, memoryDir, 'session', documents, fsModule)
+      ).resolves.toEqual(new Map());
+      await expect(
+        scoreMemoryDocuments(null, memoryDir, 'session', documents, fsModule)
+      ).resolves.toEqual(new Map());
+      warn.mockRestore();
+    });
+  });
+
+  describe('loadRelevantMemory', () => {
+    const memoryFile = (tags: string[], body: string) =>
+      `---\ntags: [${tags.join(', ')}]\nsummary: Notes\nrelevantTo: []\nimportance: 0.5\nrelatedFiles: []\nusageStats:\n  loaded: 0\n  referenced: 0\n  successfulFeatures: 0\n---\n${body}`;
+
+    it('finds memory files whose text, not tags, matches the feature', async () => {
+      const { fsModule } = createMemoryFs({
+        [path.join(memoryDir, 'infra.md')]: memoryFile(
+          ['infra'],
+          'Cached sessions must be invalidated whenever a token rotates.'
+        ),
+        [path.join(memoryDir, 'ui.md')]: memoryFile(['ui'], 'Buttons use the ghost variant.'),
+      });
+
+      const withRetrieval = await loadRelevantMemory(
+        '/project',
+        'Session caching bug',
+        'Users stay logged in after token rotation',
+        fsModule
+      );
+      expect(withRetrieval.files.map((file) => file.name)).toEqual(['infra.md']);
+
+      const keywordsOnly = await loadRelevantMemory(
+        '/project',
+        'Session caching bug',
+        'Users stay logged in after token rotation',
+        fsModule,
+        null
+      );
+      expect(keywordsOnly.files).toEqual([]);
+    });
+  });
+});
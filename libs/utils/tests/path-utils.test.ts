@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { normalizePath, pathsEqual, sanitizeFilename } from '../src/path-utils.js';
+import {
+  normalizePath,
+  pathsEqual,
+  sanitizeFilename,
+  globToRegExp,
+  matchesGlob,
+} from '../src/path-utils.js';
 
 describe('normalizePath', () => {
   it('should convert backslashes to forward slashes', () => {
@@ -150,3 +156,48 @@ describe('sanitizeFilename', () => {
     });
   });
 });
+
+describe('globToRegExp', () => {
+  it('should keep single stars within a path segment', () => {
+    expect(globToRegExp('src/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/lib/index.ts')).toBe(false);
+  });
+
+  it('should let double stars span directories', () => {
+    const regex = globToRegExp('src/**/*.test.ts');
+    expect(regex.test('src/a.test.ts')).toBe(true);
+    expect(regex.test('src/lib/deep/a.test.ts')).toBe(true);
+    expect(regex.test('test/a.test.ts')).toBe(false);
+  });
+
+  it('should support ? and brace alternation', () => {
+    expect(globToRegExp('file?.{ts,tsx}').test('file1.tsx')).toBe(true);
+    expect(globToRegExp('file?.{ts,tsx}').test('file1.js')).toBe(false);
+  });
+
+  it('should escape regex characters', () => {
+    expect(globToRegExp('a+b.(x)').test('a+b.(x)')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match patterns without a slash against the file name', () => {
+    expect(matchesGlob('src/api/users.ts', '*.ts')).toBe(true);
+    expect(matchesGlob('package.json', '*.ts')).toBe(false);
+  });
+
+  it('should match patterns with a slash against the whole path', () => {
+    expect(matchesGlob('src/api/users.ts', 'src/**')).toBe(true);
+    expect(matchesGlob('src/api/users.ts', 'docs/**')).toBe(false);
+    expect(matchesGlob('src/api/users.ts', '/src/api/*.ts')).toBe(true);
+  });
+
+  it('should normalize separators and leading ./', () => {
+    expect(matchesGlob('.\\src\\api\\users.ts', './src/**/*.ts')).toBe(true);
+  });
+
+  it('should never match an empty pattern', () => {
+    expect(matchesGlob('src/index.ts', '  ')).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateTokens,
+  fitPromptSections,
+  truncateToTokens,
+  type PromptSection,
+} from '../src/prompt-budget.js';
+
+const lines = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${prefix} line ${i} with some filler text`).join('\n');
+
+describe('prompt-budget', () => {
+  describe('truncateToTokens', () => {
+    it('keeps text that fits', () => {
+      expect(truncateToTokens('short', 10, 'head')).toEqual({ text: 'short', action: 'kept' });
+    });
+
+    it('keeps the end of agent output and outlines the headings that were cut', () => {
+      const output = `## Planning\n${lines('plan', 80)}\n## Implementation\n${lines('impl', 80)}\n## Summary\nAll done`;
+
+      const { text, action } = truncateToTokens(output, 300, 'tail', true);
+
+      expect(action).toBe('summarized');
+      expect(text).toMatch(/^\[\.\.\. ~\d+ tokens omitted; their headings were:\]\n## Planning/);
+      expect(text.endsWith('## Summary\nAll done')).toBe(true);
+      expect(estimateTokens(text)).toBeLessThanOrEqual(300);
+    });
+
+    it('keeps the beginning and drops sections too small to be useful', () => {
+      const { text, action } = truncateToTokens(lines('rule', 100), 200, 'head');
+
+      expect(action).toBe('truncated');
+      expect(text.startsWith('rule line 0')).toBe(true);
+      expect(text).toMatch(/\[\.\.\. ~\d+ tokens omitted \.\.\.\]$/);
+      expect(truncateToTokens(lines('rule', 100), 20, 'head')).toEqual({
+        text: '',
+        action: 'dropped',
+      });
+    });
+  });
+
+  describe('fitPromptSections', () => {
+    const sections: PromptSection[] = [
+      {
+        id: 'context-files',
+        label: 'Context files',
+        content: lines('context', 200),
+        target: 'system',
+        priority: 2,
+        strategy: 'head',
+      },
+      {
+        id: 'previous-work',
+        label: 'Previous work',
+        content: lines('output', 200),
+        priority: 1,
+        strategy: 'tail',
+      },
+      { id: 'task', label: 'Task', content: lines('task', 20), priority: 9, strategy: 'keep' },
+      { id: 'empty', label: 'Empty', content: '', priority: 0, strategy: 'drop' },
+    ];
+
+    it('keeps everything within budget', () => {
+      const fitted = fitPromptSections(sections, 100_000);
+
+      expect(fitted.sections.map((section) => section.action)).toEqual(['kept', 'kept', 'kept']);
+      expect(fitted.contents['task']).toBe(sections[2].content);
+    });
+
+    it('shortens the lowest priority sections first and reports the outcome', () => {
+      const fitted = fitPromptSections(sections, 3000);
+
+      expect(fitted.totalTokens).toBeLessThanOrEqual(3000);
+      expect(fitted.sections).toEqual([
+        expect.objectContaining({ id: 'context-files', target: 'system', action: 'kept' }),
+        expect.objectContaining({ id: 'previous-work', action: 'truncated' }),
+        expect.objectContaining({ id: 'task', action: 'kept' }),
+      ]);
+      expect(fitted.contents['empty']).toBe('');
+    });
+
+    it('caps sections at their share of the budget', () => {
+      const fitted = fitPromptSections([{ ...sections[0], maxShare: 0.1 }, sections[2]], 10_000);
+
+      expect(fitted.sections[0]).toMatchObject({ action: 'truncated' });
+      expect(fitted.sections[0].tokens).toBeLessThanOrEqual(1000);
+    });
+  });
+});
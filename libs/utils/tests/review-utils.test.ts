@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import type { PRReviewThread, ReviewComment } from '@automaker/types';
+import {
+  buildPRReviewPrompt,
+  buildReviewPrompt,
+  resolveReviewComments,
+} from '../src/review-utils.js';
+
+describe('review-utils', () => {
+  const comment = (overrides: Partial<ReviewComment>): ReviewComment => ({
+    id: 'RC1',
+    filePath: 'src/app.ts',
+    side: 'new',
+    startLine: 2,
+    endLine: 2,
+    lines: ['const retries = 3;'],
+    body: 'Make this configurable',
+    status: 'submitted',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  describe('buildReviewPrompt', () => {
+    it('should list each comment with its file, line range, quoted lines and text', () => {
+      const prompt = buildReviewPrompt([
+        comment({}),
+        comment({
+          id: 'RC2',
+          filePath: 'src/old.ts',
+          side: 'old',
+          startLine: 4,
+          endLine: 5,
+          lines: ['a();', 'b();'],
+          body: '  Why was this removed?  ',
+        }),
+      ]);
+
+      expect(prompt).toContain(
+        '### RC1: src/app.ts, line 2\n\n> const retries = 3;\n\nMake this configurable'
+      );
+      expect(prompt).toContain(
+        '### RC2: src/old.ts, lines 4-5 (removed lines)\n\n> a();\n> b();\n\nWhy was this removed?'
+      );
+    });
+  });
+
+  describe('resolveReviewComments', () => {
+    const diff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,3 @@
+ import { run } from './run';
+-const retries = 3;
++const retries = config.retries;
+ run(retries);
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,2 @@
++export function helper() {
++  return 1;`;
+
+    it('should resolve comments whose lines are gone from their side of the diff', () => {
+      const [resolved] = resolveReviewComments([comment({})], diff, '2024-01-02T00:00:00.000Z');
+
+      expect(resolved).toMatchObject({
+        status: 'resolved',
+        resolvedAt: '2024-01-02T00:00:00.000Z',
+      });
+    });
+
+    it('should leave comments unresolved while their lines are still in the diff', () => {
+      const [unresolved, removedSide] = resolveReviewComments(
+        [
+          comment({
+            filePath: 'src/new.ts',
+            lines: ['export function helper() {', '    return 1;'],
+          }),
+          comment({ id: 'RC2', side: 'old', lines: ['const retries = 3;'] }),
+        ],
+        diff
+      );
+
+      expect(unresolved.status).toBe('unresolved');
+      expect(unresolved.resolvedAt).toBeUndefined();
+      expect(removedSide.status).toBe('unresolved');
+    });
+
+    it('should resolve comments on files that are no longer in the diff', () => {
+      const [resolved] = resolveReviewComments([comment({ filePath: 'src/gone.ts' })], diff);
+
+      expect(resolved.status).toBe('resolved');
+    });
+
+    it('should only update submitted comments', () => {
+      const comments = [comment({ status: 'draft' }), comment({ status: 'resolved' })];
+
+      expect(resolveReviewComments(comments, '')).toEqual(comments);
+    });
+  });
+
+  describe('buildPRReviewPrompt', () => {
+    const thread = (overrides: Partial<PRReviewThread>): PRReviewThread => ({
+      id: 'T1',
+      path: 'src/app.ts',
+      line: 12,
+      isResolved: false,
+      isOutdated: false,
+      comments: [
+        { id: 1, author: 'sam', body: 'Extract this', createdAt: '2024-01-01T00:00:00.000Z' },
+      ],
+      ...overrides,
+    });
+
+    it('should group threads by file with their location, hunk and conversation', () => {
+      const prompt = buildPRReviewPrompt(7, [
+        thread({ diffHunk: '@@ -1,8 +1,9 @@\n' + 'ctx\n'.repeat(6) + '+const x = 1;' }),
+        thread({ id: 'T2', path: 'src/db.ts', line: undefined }),
+        thread({
+          id: 'T3',
+          startLine: 20,
+          line: 22,
+          comments: [
+            { id: 2, author: 'sam', body: 'Why?', createdAt: '2024-01-01T00:00:00.000Z' },
+            { id: 3, author: 'alex', body: ' Agreed ', createdAt: '2024-01-02T00:00:00.000Z' },
+          ],
+        }),
+      ]);
+
+      expect(prompt).toContain('pull request #7');
+      expect(prompt).toContain(
+        '### src/app.ts\n\n#### Thread 1 (line 12)\n\n```diff\nctx\nctx\nctx\nctx\nctx\n+const x = 1;\n```\n\n**sam:** Extract this'
+      );
+      expect(prompt).toContain(
+        '#### Thread 2 (lines 20-22)\n\n**sam:** Why?\n\n**alex:** Agreed\n\n### src/db.ts'
+      );
+      expect(prompt).toContain('#### Thread 3 (file)\n\n**sam:** Extract this');
+    });
+  });
+});
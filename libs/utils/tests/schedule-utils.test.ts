@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCronExpression,
+  isValidCronExpression,
+  matchesCron,
+  parseTimeOfDay,
+  getActiveOccurrence,
+} from '../src/schedule-utils.js';
+
+// Local-time dates; 2026-03-02 is a Monday
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 2, day, hours, minutes);
+
+describe('schedule-utils', () => {
+  describe('parseCronExpression', () => {
+    it('should expand wildcards, ranges, steps and lists', () => {
+      const cron = parseCronExpression('*/15 9-17 1,15 * 1-5');
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect(cron.hours.size).toBe(9);
+      expect([...cron.daysOfMonth]).toEqual([1, 15]);
+      expect(cron.months.size).toBe(12);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(cron.daysOfMonthRestricted).toBe(true);
+      expect(cron.daysOfWeekRestricted).toBe(true);
+    });
+
+    it('should treat day of week 7 as Sunday', () => {
+      expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('* * * *')).toThrow('5 fields');
+      expect(() => parseCronExpression('60 * * * *')).toThrow('minute');
+      expect(() => parseCronExpression('* * * * 1-8')).toThrow('day of week');
+      expect(() => parseCronExpression('*/0 * * * *')).toThrow('step');
+      expect(isValidCronExpression('0 22 * * 1-5')).toBe(true);
+      expect(isValidCronExpression('nightly')).toBe(false);
+    });
+  });
+
+  describe('matchesCron', () => {
+    it('should match the exact minute', () => {
+      expect(matchesCron('30 22 * * *', at(2, 22, 30))).toBe(true);
+      expect(matchesCron('30 22 * * *', at(2, 22, 31))).toBe(false);
+    });
+
+    it('should restrict by day of week', () => {
+      expect(matchesCron('0 9 * * 1-5', at(2, 9))).toBe(true);
+      expect(matchesCron('0 9 * * 1-5', at(1, 9))).toBe(false);
+    });
+
+    it('should match either day field when both are restricted', () => {
+      expect(matchesCron('0 9 1 * 1', at(1, 9))).toBe(true); // the 1st, a Sunday
+      expect(matchesCron('0 9 1 * 1', at(2, 9))).toBe(true); // a Monday
+      expect(matchesCron('0 9 1 * 1', at(3, 9))).toBe(false);
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('should parse HH:MM into minutes since midnight', () => {
+      expect(parseTimeOfDay('06:00')).toBe(360);
+      expect(parseTimeOfDay('9:05')).toBe(545);
+    });
+
+    it('should reject malformed times', () => {
+      expect(() => parseTimeOfDay('24:00')).toThrow('HH:MM');
+      expect(() => parseTimeOfDay('22')).toThrow('HH:MM');
+    });
+  });
+
+  describe('getActiveOccurrence', () => {
+    const weeknights = {
+      type: 'window' as const,
+      days: [1, 2, 3, 4, 5],
+      start: '22:00',
+      end: '06:00',
+    };
+
+    it('should find a window that crosses midnight from the day it started', () => {
+      expect(getActiveOccurrence(weeknights, at(2, 23))).toEqual({
+        start: at(2, 22),
+        end: at(3, 6),
+      });
+      expect(getActiveOccurrence(weeknights, at(3, 5, 59))).toEqual({
+        start: at(2, 22),
+        end: at(3, 6),
+      });
+    });
+
+    it('should return null outside the window', () => {
+      expect(getActiveOccurrence(weeknights, at(3, 6))).toBeNull();
+      expect(getActiveOccurrence(weeknights, at(2, 21, 59))).toBeNull();
+      // Sunday night is not a weeknight, but Friday night runs into Saturday
+      expect(getActiveOccurrence(weeknights, at(1, 23))).toBeNull();
+      expect(getActiveOccurrence(weeknights, at(7, 2))).not.toBeNull();
+    });
+
+    it('should handle same-day windows', () => {
+      const lunch = { type: 'window' as const, days: [1], start: '12:00', end: '13:00' };
+      expect(getActiveOccurrence(lunch, at(2, 12, 30))?.end).toEqual(at(2, 13));
+      expect(getActiveOccurrence(lunch, at(2, 13))).toBeNull();
+    });
+
+    it('should end cron occurrences after their duration', () => {
+      const trigger = { type: 'cron' as const, expression: '0 2 * * *', durationMinutes: 90 };
+      expect(getActiveOccurrence(trigger, new Date(2026, 2, 2, 2, 0, 30))).toEqual({
+        start: at(2, 2),
+        end: at(2, 3, 30),
+      });
+      expect(getActiveOccurrence(trigger, at(2, 2, 1))).toBeNull();
+    });
+
+    it('should leave cron occurrences open without a duration', () => {
+      const trigger = { type: 'cron' as const, expression: '0 2 * * *' };
+      expect(getActiveOccurrence(trigger, at(2, 2))?.end).toBeNull();
+    });
+  });
+});
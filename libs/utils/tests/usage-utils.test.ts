@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEmptyUsageTotals,
+  findModelPricing,
+  estimateUsageCost,
+  resolveUsageTotals,
+  addUsageTotals,
+  getTotalTokens,
+  checkBudgetLimits,
+  checkBudgetWarning,
+  hasBudgetLimits,
+  formatBudgetExceeded,
+} from '../src/usage-utils.js';
+
+describe('usage-utils', () => {
+  describe('findModelPricing', () => {
+    it('should match specific model versions before generic families', () => {
+      expect(findModelPricing('claude-opus-4-5-20251101')?.input).toBe(5);
+      expect(findModelPricing('claude-opus-4-1-20250805')?.input).toBe(15);
+    });
+
+    it('should match prefixed model IDs', () => {
+      expect(findModelPricing('codex-gpt-5.1-codex-mini')?.input).toBe(0.25);
+      expect(findModelPricing('copilot-claude-sonnet-4.5')?.output).toBe(15);
+      expect(findModelPricing('gemini-2.5-pro')?.output).toBe(10);
+    });
+
+    it('should return null for models without a known price', () => {
+      expect(findModelPricing('cursor-auto')).toBeNull();
+      expect(findModelPricing(undefined)).toBeNull();
+      expect(findModelPricing('')).toBeNull();
+    });
+  });
+
+  describe('estimateUsageCost', () => {
+    it('should price input, output and cache tokens separately', () => {
+      const cost = estimateUsageCost('claude-sonnet-4-5-20250929', {
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        cacheReadTokens: 1_000_000,
+        cacheWriteTokens: 1_000_000,
+      });
+      expect(cost).toBeCloseTo(3 + 15 + 0.3 + 3.75);
+    });
+
+    it('should fall back to input price for cache writes when not listed', () => {
+      const cost = estimateUsageCost('codex-gpt-5.2', {
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheWriteTokens: 1_000_000,
+      });
+      expect(cost).toBeCloseTo(1.75);
+    });
+
+    it('should return null for unknown models', () => {
+      expect(estimateUsageCost('cursor-composer-1', { inputTokens: 10, outputTokens: 10 })).toBe(
+        null
+      );
+    });
+  });
+
+  describe('resolveUsageTotals', () => {
+    it('should prefer provider-reported cost', () => {
+      const result = resolveUsageTotals('claude-sonnet-4-5-20250929', {
+        inputTokens: 100,
+        outputTokens: 50,
+        costUsd: 0.42,
+      });
+      expect(result.costSource).toBe('provider');
+      expect(result.usage).toEqual({
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0.42,
+      });
+    });
+
+    it('should estimate cost when the provider does not report it', () => {
+      const result = resolveUsageTotals('codex-gpt-5.1-codex-mini', {
+        inputTokens: 2_000_000,
+        outputTokens: 0,
+      });
+      expect(result.costSource).toBe('estimated');
+      expect(result.usage.costUsd).toBeCloseTo(0.5);
+    });
+
+    it('should record zero cost for unknown models', () => {
+      const result = resolveUsageTotals('cursor-auto', { inputTokens: 10, outputTokens: 5 });
+      expect(result.costSource).toBe('unknown');
+      expect(result.usage.costUsd).toBe(0);
+      expect(result.usage.inputTokens).toBe(10);
+    });
+  });
+
+  describe('addUsageTotals', () => {
+    it('should sum every field without mutating inputs', () => {
+      const a = { ...createEmptyUsageTotals(), inputTokens: 1, costUsd: 0.5 };
+      const b = {
+        inputTokens: 2,
+        outputTokens: 3,
+        cacheReadTokens: 4,
+        cacheWriteTokens: 5,
+        costUsd: 0.25,
+      };
+      const sum = addUsageTotals(a, b);
+      expect(sum).toEqual({
+        inputTokens: 3,
+        outputTokens: 3,
+        cacheReadTokens: 4,
+        cacheWriteTokens: 5,
+        costUsd: 0.75,
+      });
+      expect(a.inputTokens).toBe(1);
+      expect(getTotalTokens(sum)).toBe(15);
+    });
+  });
+
+  describe('createEmptyUsageTotals', () => {
+    it('should return independent objects', () => {
+      const a = createEmptyUsageTotals();
+      a.inputTokens = 5;
+      expect(createEmptyUsageTotals().inputTokens).toBe(0);
+    });
+  });
+
+  describe('checkBudgetLimits', () => {
+    const spend = { tokens: 1000, costUsd: 2.5, minutes: 30 };
+
+    it('should return null without limits', () => {
+      expect(checkBudgetLimits(undefined, spend)).toBeNull();
+      expect(checkBudgetLimits({}, spend)).toBeNull();
+    });
+
+    it('should ignore zero limits', () => {
+      expect(checkBudgetLimits({ maxCostUsd: 0, maxTokens: 0, maxMinutes: 0 }, spend)).toBeNull();
+    });
+
+    it('should return null when within budget', () => {
+      expect(
+        checkBudgetLimits({ maxCostUsd: 5, maxTokens: 2000, maxMinutes: 60 }, spend)
+      ).toBeNull();
+    });
+
+    it('should report the exceeded limit', () => {
+      expect(checkBudgetLimits({ maxTokens: 1000 }, spend)).toEqual({
+        limit: 'tokens',
+        limitValue: 1000,
+        actual: 1000,
+      });
+      expect(checkBudgetLimits({ maxMinutes: 15 }, spend)?.limit).toBe('minutes');
+    });
+
+    it('should report cost before tokens and minutes', () => {
+      expect(checkBudgetLimits({ maxCostUsd: 1, maxTokens: 10, maxMinutes: 1 }, spend)?.limit).toBe(
+        'cost'
+      );
+    });
+  });
+
+  describe('hasBudgetLimits', () => {
+    it('should only count positive limits', () => {
+      expect(hasBudgetLimits(undefined)).toBe(false);
+      expect(hasBudgetLimits({ maxCostUsd: 0 })).toBe(false);
+      expect(hasBudgetLimits({ maxMinutes: 10 })).toBe(true);
+    });
+  });
+
+  describe('checkBudgetWarning', () => {
+    const spend = { tokens: 1000, costUsd: 4.2, minutes: 30 };
+
+    it('should report a limit past the warning percentage with its full value', () => {
+      expect(checkBudgetWarning({ maxCostUsd: 5 }, spend, 80)).toEqual({
+        limit: 'cost',
+        limitValue: 5,
+        actual: 4.2,
+      });
+    });
+
+    it('should return null below the warning percentage or when disabled', () => {
+      expect(checkBudgetWarning({ maxCostUsd: 10, maxMinutes: 60 }, spend, 80)).toBeNull();
+      expect(checkBudgetWarning({ maxCostUsd: 5 }, spend, 0)).toBeNull();
+      expect(checkBudgetWarning(undefined, spend, 80)).toBeNull();
+    });
+  });
+
+  describe('formatBudgetExceeded', () => {
+    it('should describe each limit kind', () => {
+      expect(formatBudgetExceeded({ limit: 'cost', limitValue: 5, actual: 5.2 })).toBe(
+        '$5.20 spent of $5.00 budget'
+      );
+      expect(formatBudgetExceeded({ limit: 'tokens', limitValue: 100000, actual: 120345 })).toBe(
+        '120,345 tokens used of 100,000 token budget'
+      );
+      expect(formatBudgetExceeded({ limit: 'minutes', limitValue: 60, actual: 60.4 })).toBe(
+        '60 minutes elapsed of 60 minute budget'
+      );
+    });
+  });
+});
@@ -4,6 +4,10 @@ export default defineConfig({
   test: {
     // Use projects instead of deprecated workspace
     // Glob patterns auto-discover projects with vitest.config.ts
-    projects: ['libs/*/vitest.config.ts', 'apps/server/vitest.config.ts'],
+    projects: [
+      'libs/*/vitest.config.ts',
+      'apps/server/vitest.config.ts',
+      'apps/cli/vitest.config.ts',
+    ],
   },
 });